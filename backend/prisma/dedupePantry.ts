@@ -0,0 +1,82 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import { formatQuantityAmount, readQuantity, toQuantityColumns } from '../src/utils/quantity.js';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+type TxClient = Prisma.TransactionClient;
+
+// Pantry duplicate cleanup
+// The pantry has one row per ingredient per owner (household, else user), enforced by unique
+// indexes. Databases from before the indexes can hold several rows for the same ingredient, which
+// makes `prisma db push` fail to add them. This combines each owner's rows into the most recently
+// updated one: same-unit amounts are added, otherwise the newest amount is kept.
+// Safe to re-run. Run it before `prisma db push` on an existing database.
+// Usage: npm run prisma:dedupe-pantry
+
+type PantryRow = Awaited<ReturnType<typeof prisma.userInventory.findMany>>[number];
+
+/**
+ * Collapse one owner's rows for an ingredient into the newest
+ */
+async function combineRows(tx: TxClient, rows: PantryRow[]): Promise<void> {
+  const [keep, ...others] = [...rows].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  let quantity = readQuantity(keep);
+  let isAvailable = keep.isAvailable;
+  let combined = false;
+
+  for (const other of others) {
+    const otherQuantity = readQuantity(other);
+    if (quantity && otherQuantity && otherQuantity.unit === quantity.unit) {
+      quantity = {
+        value: quantity.value + otherQuantity.value,
+        unit: quantity.unit,
+        approximate: quantity.approximate || otherQuantity.approximate
+      };
+      combined = true;
+    }
+    isAvailable = isAvailable || other.isAvailable;
+    await tx.userInventory.delete({ where: { id: other.id } });
+  }
+
+  await tx.userInventory.update({
+    where: { id: keep.id },
+    data: {
+      isAvailable,
+      ...(combined && quantity && { amount: formatQuantityAmount(quantity), ...toQuantityColumns(quantity) })
+    }
+  });
+}
+
+async function main() {
+  console.log('Looking for duplicate pantry rows...');
+
+  const pantry = await prisma.userInventory.findMany();
+  const byOwner = new Map<string, PantryRow[]>();
+  for (const item of pantry) {
+    const key = `${item.householdId ?? `user:${item.userId}`}:${item.ingredientId}`;
+    byOwner.set(key, [...(byOwner.get(key) || []), item]);
+  }
+
+  const duplicates = [...byOwner.values()].filter(rows => rows.length > 1);
+  for (const rows of duplicates) {
+    await prisma.$transaction((tx: TxClient) => combineRows(tx, rows));
+  }
+
+  const removed = duplicates.reduce((sum, rows) => sum + rows.length - 1, 0);
+  console.log(`  Combined ${duplicates.length} ingredients, removed ${removed} duplicate rows`);
+  console.log('');
+  console.log('Pantry cleanup complete!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Pantry cleanup error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
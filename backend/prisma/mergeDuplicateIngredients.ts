@@ -0,0 +1,430 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import { canonicalizeIngredient, mergeIngredientNotes, normalizeIngredientName } from '../src/utils/ingredientNormalizer.js';
+import { canonicalizeUnit, formatQuantityAmount, readQuantity, toQuantityColumns } from '../src/utils/quantity.js';
+import { formatAmount } from '../src/utils/unitConversion.js';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+type TxClient = Prisma.TransactionClient;
+
+// Duplicate ingredient merge
+// Ingredient rows whose names canonicalize to the same name (src/utils/ingredientNormalizer.ts),
+// like "Chicken Breasts, boneless" and "chicken breast", are merged into one, and the rest are
+// renamed to their canonical name. The row already named canonically survives, otherwise the one
+// the most recipes use. Everything pointing at a duplicate moves to the survivor:
+//   - Recipe ingredients: amounts in the same unit are added, and what was split off the old
+//     name ("boneless") goes into notes
+//   - Pantry items: one row per owner; same-unit amounts are added, otherwise the survivor's
+//     row (or the oldest) keeps its amount
+//   - Shopping list items, price observations, packaging, unit conversions, substitutions,
+//     quality tiers and group membership
+//   - Ingredient ids inside recipe versions, recipe customizations and shopping list merge options
+// Price observations are re-keyed to canonical names, and merged recipes recompute nutrition.
+// Safe to re-run. --dry-run lists the merges without changing anything.
+// Usage: npm run prisma:merge-ingredients [-- --dry-run]
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+interface IngredientRef {
+  id: string;
+  name: string;
+}
+
+interface MergePlan {
+  canonicalName: string;
+  survivor: IngredientRef;
+  duplicates: IngredientRef[];
+  notes: Map<string, string | null>; // Ingredient id → what its name had beyond the canonical name
+}
+
+/**
+ * Group ingredients by canonical name; groups that are already a single canonical row need nothing
+ */
+async function planMerges(): Promise<MergePlan[]> {
+  const ingredients = await prisma.ingredient.findMany({
+    select: { id: true, name: true, _count: { select: { recipeIngredients: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const groups = new Map<string, typeof ingredients>();
+  const notes = new Map<string, string | null>();
+  for (const ingredient of ingredients) {
+    const canonical = canonicalizeIngredient(ingredient.name);
+    notes.set(ingredient.id, canonical.notes);
+    groups.set(canonical.name, [...(groups.get(canonical.name) || []), ingredient]);
+  }
+
+  const plans: MergePlan[] = [];
+  for (const [canonicalName, rows] of groups) {
+    if (rows.length === 1 && rows[0].name === canonicalName) {
+      continue;
+    }
+
+    // Stable sort, so the oldest wins a tie
+    const survivor = rows.find(row => row.name === canonicalName)
+      ?? [...rows].sort((a, b) => b._count.recipeIngredients - a._count.recipeIngredients)[0];
+    plans.push({
+      canonicalName,
+      survivor: { id: survivor.id, name: survivor.name },
+      duplicates: rows.filter(row => row !== survivor).map(row => ({ id: row.id, name: row.name })),
+      notes
+    });
+  }
+
+  return plans;
+}
+
+/**
+ * Merge one plan's duplicates into its survivor. Returns the ids of recipes whose ingredients changed.
+ */
+async function applyMerge(tx: TxClient, plan: MergePlan): Promise<string[]> {
+  const survivorId = plan.survivor.id;
+  const duplicateIds = plan.duplicates.map(duplicate => duplicate.id);
+  const toSurvivor = (id: string) => (duplicateIds.includes(id) ? survivorId : id);
+
+  // ============================================
+  // Recipe ingredients (one row per recipe per ingredient)
+  // ============================================
+  const recipeRows = await tx.recipeIngredient.findMany({
+    where: { ingredientId: { in: [survivorId, ...duplicateIds] } },
+    orderBy: { sortOrder: 'asc' }
+  });
+  const rowsByRecipe = new Map<string, typeof recipeRows>();
+  for (const row of recipeRows) {
+    rowsByRecipe.set(row.recipeId, [...(rowsByRecipe.get(row.recipeId) || []), row]);
+  }
+
+  for (const rows of rowsByRecipe.values()) {
+    const keep = rows.find(row => row.ingredientId === survivorId) ?? rows[0];
+    let amount = keep.amount;
+    let notes = mergeIngredientNotes(plan.notes.get(keep.ingredientId), keep.notes);
+
+    for (const other of rows.filter(row => row !== keep)) {
+      if (canonicalizeUnit(other.unit) === canonicalizeUnit(keep.unit)) {
+        amount += other.amount;
+      } else {
+        notes = mergeIngredientNotes(notes, `plus ${formatAmount(other.amount)} ${other.unit}`);
+      }
+      notes = mergeIngredientNotes(notes, plan.notes.get(other.ingredientId), other.notes);
+      await tx.recipeIngredient.delete({ where: { id: other.id } });
+    }
+
+    await tx.recipeIngredient.update({
+      where: { id: keep.id },
+      data: { ingredientId: survivorId, amount, notes }
+    });
+  }
+
+  // ============================================
+  // Pantry (one row per ingredient per owner, enforced by unique indexes), combined before moving
+  // ============================================
+  const pantry = await tx.userInventory.findMany({
+    where: { ingredientId: { in: [survivorId, ...duplicateIds] } },
+    orderBy: { addedAt: 'asc' }
+  });
+  const pantryByOwner = new Map<string, typeof pantry>();
+  for (const item of pantry) {
+    const owner = item.householdId ?? `user:${item.userId}`;
+    pantryByOwner.set(owner, [...(pantryByOwner.get(owner) || []), item]);
+  }
+
+  for (const rows of pantryByOwner.values()) {
+    const keep = rows.find(row => row.ingredientId === survivorId) ?? rows[0];
+    let quantity = readQuantity(keep);
+    let isAvailable = keep.isAvailable;
+    let combined = false;
+
+    for (const other of rows.filter(row => row !== keep)) {
+      const otherQuantity = readQuantity(other);
+      if (quantity && otherQuantity && otherQuantity.unit === quantity.unit) {
+        quantity = {
+          value: quantity.value + otherQuantity.value,
+          unit: quantity.unit,
+          approximate: quantity.approximate || otherQuantity.approximate
+        };
+        combined = true;
+      }
+      isAvailable = isAvailable || other.isAvailable;
+      await tx.userInventory.delete({ where: { id: other.id } });
+    }
+
+    await tx.userInventory.update({
+      where: { id: keep.id },
+      data: {
+        ingredientId: survivorId,
+        isAvailable,
+        ...(combined && quantity && { amount: formatQuantityAmount(quantity), ...toQuantityColumns(quantity) })
+      }
+    });
+  }
+
+  // ============================================
+  // References without a uniqueness rule
+  // ============================================
+  await tx.shoppingListItem.updateMany({
+    where: { ingredientId: { in: duplicateIds } },
+    data: { ingredientId: survivorId }
+  });
+  await tx.priceObservation.updateMany({
+    where: { ingredientId: { in: duplicateIds } },
+    data: { ingredientId: survivorId }
+  });
+  await tx.packagingInfo.updateMany({
+    where: { ingredientId: { in: duplicateIds } },
+    data: { ingredientId: survivorId }
+  });
+  await tx.staple.updateMany({
+    where: { ingredientId: { in: duplicateIds } },
+    data: { ingredientId: survivorId }
+  });
+
+  // ============================================
+  // References the survivor may already have: its own entry wins
+  // ============================================
+  for (const conversion of await tx.unitConversion.findMany({ where: { ingredientId: { in: duplicateIds } } })) {
+    const taken = await tx.unitConversion.findFirst({
+      where: { fromUnitId: conversion.fromUnitId, toUnitId: conversion.toUnitId, ingredientId: survivorId }
+    });
+    if (taken) {
+      await tx.unitConversion.delete({ where: { id: conversion.id } });
+    } else {
+      await tx.unitConversion.update({ where: { id: conversion.id }, data: { ingredientId: survivorId } });
+    }
+  }
+
+  for (const tier of await tx.ingredientQualityTier.findMany({ where: { ingredientId: { in: duplicateIds } } })) {
+    const taken = await tx.ingredientQualityTier.findFirst({
+      where: { ingredientId: survivorId, tier: tier.tier }
+    });
+    if (taken) {
+      await tx.ingredientQualityTier.delete({ where: { id: tier.id } });
+    } else {
+      await tx.ingredientQualityTier.update({ where: { id: tier.id }, data: { ingredientId: survivorId } });
+    }
+  }
+
+  const substitutions = await tx.ingredientSubstitution.findMany({
+    where: {
+      OR: [
+        { primaryIngredientId: { in: duplicateIds } },
+        { substituteIngredientId: { in: duplicateIds } }
+      ]
+    }
+  });
+  for (const substitution of substitutions) {
+    const primaryIngredientId = toSurvivor(substitution.primaryIngredientId);
+    const substituteIngredientId = toSurvivor(substitution.substituteIngredientId);
+    // Substituting an ingredient for itself (two merged duplicates) means nothing
+    const taken = primaryIngredientId === substituteIngredientId || await tx.ingredientSubstitution.findFirst({
+      where: {
+        primaryIngredientId,
+        substituteIngredientId,
+        substitutionType: substitution.substitutionType,
+        NOT: { id: substitution.id }
+      }
+    });
+    if (taken) {
+      await tx.ingredientSubstitution.delete({ where: { id: substitution.id } });
+    } else {
+      await tx.ingredientSubstitution.update({
+        where: { id: substitution.id },
+        data: { primaryIngredientId, substituteIngredientId }
+      });
+    }
+  }
+
+  const memberships = await tx.ingredientGroupMember.findMany({
+    where: { ingredientId: { in: [survivorId, ...duplicateIds] } }
+  });
+  if (memberships.length > 0 && !memberships.some(membership => membership.ingredientId === survivorId)) {
+    await tx.ingredientGroupMember.update({
+      where: { id: memberships[0].id },
+      data: { ingredientId: survivorId }
+    });
+  }
+
+  // ============================================
+  // The survivor keeps its own details and fills gaps from the duplicates
+  // ============================================
+  const survivor = await tx.ingredient.findUniqueOrThrow({ where: { id: survivorId } });
+  const duplicates = await tx.ingredient.findMany({ where: { id: { in: duplicateIds } } });
+  const rows = [survivor, ...duplicates];
+  const firstSet = <T>(values: Array<T | null>): T | null => values.find(value => value !== null) ?? null;
+
+  await tx.ingredient.deleteMany({ where: { id: { in: duplicateIds } } });
+  await tx.ingredient.update({
+    where: { id: survivorId },
+    data: {
+      name: plan.canonicalName,
+      category: firstSet(rows.map(row => row.category)),
+      walmartItemId: firstSet(rows.map(row => row.walmartItemId)),
+      walmartProductName: firstSet(rows.map(row => row.walmartProductName)),
+      walmartSearchTerm: firstSet(rows.map(row => row.walmartSearchTerm)),
+      caloriesPer100g: firstSet(rows.map(row => row.caloriesPer100g)),
+      proteinPer100g: firstSet(rows.map(row => row.proteinPer100g)),
+      carbsPer100g: firstSet(rows.map(row => row.carbsPer100g)),
+      fatPer100g: firstSet(rows.map(row => row.fatPer100g)),
+      allergens: [...new Set(rows.flatMap(row => row.allergens))]
+    }
+  });
+
+  return [...rowsByRecipe.keys()];
+}
+
+/**
+ * Swap merged ingredient ids wherever they appear in a JSON value, keys included
+ */
+function replaceIngredientIds(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === 'string') {
+    return idMap.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceIngredientIds(item, idMap));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [idMap.get(key) ?? key, replaceIngredientIds(item, idMap)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Ingredient ids stored in JSON and array columns, which foreign keys don't cover
+ */
+async function rewriteStoredIngredientIds(idMap: Map<string, string>): Promise<number> {
+  let rewritten = 0;
+  const changed = (before: unknown, after: unknown) => JSON.stringify(before) !== JSON.stringify(after);
+
+  const versions = await prisma.recipeVersion.findMany({
+    select: { id: true, ingredients: true, changes: true }
+  });
+  for (const version of versions) {
+    const ingredients = replaceIngredientIds(version.ingredients, idMap);
+    const changes = version.changes === null ? null : replaceIngredientIds(version.changes, idMap);
+    if (!changed(version.ingredients, ingredients) && !changed(version.changes, changes)) {
+      continue;
+    }
+    await prisma.recipeVersion.update({
+      where: { id: version.id },
+      data: {
+        ingredients: ingredients as Prisma.InputJsonValue,
+        ...(changes !== null ? { changes: changes as Prisma.InputJsonValue } : {})
+      }
+    });
+    rewritten++;
+  }
+
+  const customizations = await prisma.userRecipeCustomization.findMany({
+    select: { id: true, substitutions: true, qualitySelections: true }
+  });
+  for (const customization of customizations) {
+    const substitutions = replaceIngredientIds(customization.substitutions, idMap);
+    const qualitySelections = replaceIngredientIds(customization.qualitySelections, idMap);
+    if (!changed(customization.substitutions, substitutions) && !changed(customization.qualitySelections, qualitySelections)) {
+      continue;
+    }
+    await prisma.userRecipeCustomization.update({
+      where: { id: customization.id },
+      data: {
+        substitutions: substitutions as Prisma.InputJsonValue,
+        qualitySelections: qualitySelections as Prisma.InputJsonValue
+      }
+    });
+    rewritten++;
+  }
+
+  const mergeOptions = await prisma.shoppingListMergeOption.findMany({
+    where: { ingredientIds: { hasSome: [...idMap.keys()] } },
+    select: { id: true, ingredientIds: true }
+  });
+  for (const option of mergeOptions) {
+    await prisma.shoppingListMergeOption.update({
+      where: { id: option.id },
+      data: { ingredientIds: option.ingredientIds.map(id => idMap.get(id) ?? id) }
+    });
+    rewritten++;
+  }
+
+  return rewritten;
+}
+
+async function main() {
+  console.log(`🧂 Merging duplicate ingredients${DRY_RUN ? ' (dry run)' : ''}...`);
+
+  const plans = await planMerges();
+  for (const plan of plans) {
+    const names = [plan.survivor, ...plan.duplicates].map(ingredient => `"${ingredient.name}"`);
+    console.log(`  ${names.join(' + ')} → "${plan.canonicalName}"`);
+  }
+
+  const mergeCount = plans.filter(plan => plan.duplicates.length > 0).length;
+  const duplicateCount = plans.reduce((sum, plan) => sum + plan.duplicates.length, 0);
+  console.log(`  ${mergeCount} merges removing ${duplicateCount} duplicates, ${plans.length - mergeCount} renames`);
+
+  if (DRY_RUN) {
+    console.log('');
+    console.log('Dry run: nothing was changed.');
+    return;
+  }
+
+  const idMap = new Map<string, string>();
+  const affectedRecipeIds = new Set<string>();
+  let failed = 0;
+
+  for (const plan of plans) {
+    try {
+      const recipeIds = await prisma.$transaction((tx: TxClient) => applyMerge(tx, plan), { timeout: 60_000 });
+      recipeIds.forEach(id => affectedRecipeIds.add(id));
+      plan.duplicates.forEach(duplicate => idMap.set(duplicate.id, plan.survivor.id));
+    } catch (error: any) {
+      failed++;
+      console.error(`  ⚠️ Could not merge into "${plan.canonicalName}": ${error.message}`);
+    }
+  }
+
+  if (idMap.size > 0) {
+    const rewritten = await rewriteStoredIngredientIds(idMap);
+    console.log(`  Rewrote ingredient ids in ${rewritten} versions, customizations and merge options`);
+  }
+
+  // Price lookups by name use the canonical name now
+  const observedNames = await prisma.priceObservation.groupBy({ by: ['ingredientName'] });
+  let rekeyed = 0;
+  for (const { ingredientName } of observedNames) {
+    const canonicalName = normalizeIngredientName(ingredientName);
+    if (canonicalName !== ingredientName) {
+      const result = await prisma.priceObservation.updateMany({
+        where: { ingredientName },
+        data: { ingredientName: canonicalName }
+      });
+      rekeyed += result.count;
+    }
+  }
+  console.log(`  Re-keyed ${rekeyed} price observations`);
+
+  // Merged amounts change per-serving macros; recomputed the next time each recipe is viewed
+  if (affectedRecipeIds.size > 0) {
+    await prisma.recipe.updateMany({
+      where: { id: { in: [...affectedRecipeIds] } },
+      data: { nutritionComputedAt: null }
+    });
+  }
+  console.log(`  Updated ingredients in ${affectedRecipeIds.size} recipes`);
+
+  console.log('');
+  console.log(failed > 0 ? `Ingredient merge finished with ${failed} failures.` : 'Ingredient merge complete!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Ingredient merge error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
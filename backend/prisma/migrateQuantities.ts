@@ -0,0 +1,145 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import { UNIT_DEFINITIONS, CONVERSION_DEFINITIONS, DENSITY_DEFINITIONS } from '../src/config/unitCatalog.js';
+import { parseQuantity, toQuantityColumns } from '../src/utils/quantity.js';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+// Structured quantity migration
+//   1. Seeds the Unit/UnitConversion tables from src/config/unitCatalog.ts
+//   2. Parses free-text pantry and shopping list amounts into quantityValue/quantityUnit
+// Safe to re-run: only rows without a structured quantity are parsed.
+// Usage: npm run prisma:migrate-quantities
+
+async function upsertConversion(
+  fromUnitId: string,
+  toUnitId: string,
+  toAmount: number,
+  fields: { fromAmount?: number; ingredientId?: string | null; isApproximate?: boolean; notes?: string }
+) {
+  const existing = await prisma.unitConversion.findFirst({
+    where: { fromUnitId, toUnitId, ingredientId: fields.ingredientId ?? null }
+  });
+
+  const data = {
+    fromAmount: fields.fromAmount ?? 1,
+    toAmount,
+    isApproximate: fields.isApproximate ?? false,
+    notes: fields.notes
+  };
+
+  if (existing) {
+    await prisma.unitConversion.update({ where: { id: existing.id }, data });
+  } else {
+    await prisma.unitConversion.create({
+      data: { ...data, fromUnitId, toUnitId, ingredientId: fields.ingredientId ?? null }
+    });
+  }
+}
+
+async function main() {
+  console.log('📏 Migrating quantities...');
+
+  // ============================================
+  // 1. Units and conversions
+  // ============================================
+  const unitIds = new Map<string, string>();
+  for (const def of UNIT_DEFINITIONS) {
+    const unit = await prisma.unit.upsert({
+      where: { abbreviation: def.abbreviation },
+      update: { name: def.name, pluralName: def.pluralName, type: def.type, system: def.system, isCommon: def.isCommon ?? true },
+      create: { name: def.name, abbreviation: def.abbreviation, pluralName: def.pluralName, type: def.type, system: def.system, isCommon: def.isCommon ?? true }
+    });
+    unitIds.set(def.abbreviation, unit.id);
+  }
+  console.log(`  Upserted ${unitIds.size} units`);
+
+  for (const def of CONVERSION_DEFINITIONS) {
+    await upsertConversion(unitIds.get(def.from)!, unitIds.get(def.to)!, def.toAmount, {
+      fromAmount: def.fromAmount,
+      isApproximate: def.isApproximate,
+      notes: def.notes
+    });
+  }
+  console.log(`  Upserted ${CONVERSION_DEFINITIONS.length} unit conversions`);
+
+  let densityCount = 0;
+  for (const def of DENSITY_DEFINITIONS) {
+    const ingredients = await prisma.ingredient.findMany({
+      where: { OR: def.ingredientPatterns.map(name => ({ name: { equals: name, mode: 'insensitive' as const } })) },
+      select: { id: true }
+    });
+
+    for (const ingredient of ingredients) {
+      await upsertConversion(unitIds.get('cup')!, unitIds.get('g')!, def.gramsPerCup, {
+        ingredientId: ingredient.id,
+        isApproximate: true,
+        notes: def.notes
+      });
+      densityCount++;
+    }
+  }
+  console.log(`  Upserted ${densityCount} ingredient densities`);
+
+  // ============================================
+  // 2. Pantry amounts
+  // ============================================
+  const inventory = await prisma.userInventory.findMany({
+    where: { quantityValue: null },
+    select: { id: true, amount: true, unit: true }
+  });
+
+  const unparsedInventory: string[] = [];
+  for (const item of inventory) {
+    const quantity = parseQuantity(item.amount, item.unit);
+    if (!quantity) {
+      unparsedInventory.push(`${item.amount}${item.unit ? ` ${item.unit}` : ''}`);
+      continue;
+    }
+    await prisma.userInventory.update({
+      where: { id: item.id },
+      data: toQuantityColumns(quantity)
+    });
+  }
+  console.log(`  Parsed ${inventory.length - unparsedInventory.length}/${inventory.length} pantry amounts`);
+  if (unparsedInventory.length > 0) {
+    console.log(`  Left unquantified: ${[...new Set(unparsedInventory)].slice(0, 20).join(', ')}`);
+  }
+
+  // ============================================
+  // 3. Shopping list amounts
+  // ============================================
+  const listItems = await prisma.shoppingListItem.findMany({
+    where: { quantityValue: null },
+    select: { id: true, totalAmount: true, unit: true }
+  });
+
+  let unparsedListItems = 0;
+  for (const item of listItems) {
+    const quantity = parseQuantity(item.totalAmount, item.unit);
+    if (!quantity) {
+      unparsedListItems++;
+      continue;
+    }
+    await prisma.shoppingListItem.update({
+      where: { id: item.id },
+      data: toQuantityColumns(quantity)
+    });
+  }
+  console.log(`  Parsed ${listItems.length - unparsedListItems}/${listItems.length} shopping list amounts`);
+
+  console.log('');
+  console.log('Quantity migration complete!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Quantity migration error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
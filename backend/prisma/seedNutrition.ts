@@ -0,0 +1,76 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import { findNutritionFacts } from '../src/config/nutritionDataset.js';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+// Nutrition seed
+//   1. Fills Ingredient per-100g values from the bundled dataset (src/config/nutritionDataset.ts)
+//   2. Marks recipes using those ingredients for recomputation; the API recomputes a recipe's
+//      macros the next time it is viewed (see services/nutritionService.ts)
+// Safe to re-run: only ingredients without values (or with all-zero placeholders) are filled,
+// unless run with --overwrite.
+// Usage: npm run prisma:seed-nutrition [-- --overwrite]
+
+const overwrite = process.argv.includes('--overwrite');
+
+async function main() {
+  console.log('🥗 Seeding ingredient nutrition...');
+
+  const ingredients = await prisma.ingredient.findMany({
+    select: { id: true, name: true, caloriesPer100g: true, proteinPer100g: true, carbsPer100g: true, fatPer100g: true }
+  });
+
+  const updatedIds: string[] = [];
+  const unknown: string[] = [];
+
+  for (const ingredient of ingredients) {
+    const hasValues = [ingredient.caloriesPer100g, ingredient.proteinPer100g, ingredient.carbsPer100g, ingredient.fatPer100g]
+      .some(value => value !== null && value > 0);
+    if (hasValues && !overwrite) {
+      continue;
+    }
+
+    const facts = findNutritionFacts(ingredient.name);
+    if (!facts) {
+      unknown.push(ingredient.name);
+      continue;
+    }
+
+    await prisma.ingredient.update({
+      where: { id: ingredient.id },
+      data: {
+        caloriesPer100g: facts.calories,
+        proteinPer100g: facts.protein,
+        carbsPer100g: facts.carbs,
+        fatPer100g: facts.fat
+      }
+    });
+    updatedIds.push(ingredient.id);
+  }
+  console.log(`  Filled nutrition for ${updatedIds.length}/${ingredients.length} ingredients`);
+  if (unknown.length > 0) {
+    console.log(`  Not in dataset: ${unknown.slice(0, 20).join(', ')}${unknown.length > 20 ? ` (+${unknown.length - 20} more)` : ''}`);
+  }
+
+  const stale = await prisma.recipe.updateMany({
+    where: { recipeIngredients: { some: { ingredientId: { in: updatedIds } } } },
+    data: { nutritionComputedAt: null }
+  });
+  console.log(`  Marked ${stale.count} recipes for nutrition recomputation`);
+
+  console.log('');
+  console.log('Nutrition seed complete!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Nutrition seed error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
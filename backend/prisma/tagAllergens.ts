@@ -0,0 +1,58 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import { detectAllergens } from '../src/config/allergenCatalog.js';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+// Allergen tagging
+// Adds the big-9 allergens each ingredient name signals (src/config/allergenCatalog.ts) to
+// Ingredient.allergens. Existing tags, including custom ones added by hand, are kept.
+// Safe to re-run.
+// Usage: npm run prisma:tag-allergens
+
+async function main() {
+  console.log('🥜 Tagging ingredient allergens...');
+
+  const ingredients = await prisma.ingredient.findMany({
+    select: { id: true, name: true, allergens: true }
+  });
+
+  let tagged = 0;
+  const counts: Record<string, number> = {};
+
+  for (const ingredient of ingredients) {
+    const detected = detectAllergens(ingredient.name);
+    detected.forEach(allergen => {
+      counts[allergen] = (counts[allergen] || 0) + 1;
+    });
+
+    const missing = detected.filter(allergen => !ingredient.allergens.includes(allergen));
+    if (missing.length === 0) {
+      continue;
+    }
+
+    await prisma.ingredient.update({
+      where: { id: ingredient.id },
+      data: { allergens: [...ingredient.allergens, ...missing] }
+    });
+    tagged++;
+  }
+
+  console.log(`  Updated tags on ${tagged}/${ingredients.length} ingredients`);
+  console.log('  Ingredients per allergen:', counts);
+
+  console.log('');
+  console.log('Allergen tagging complete!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Allergen tagging error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
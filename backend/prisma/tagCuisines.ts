@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import { detectCuisine } from '../src/config/cuisineCatalog.js';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+// Cuisine tagging
+// Sets Recipe.cuisine from each recipe's title, description and ingredient names
+// (src/config/cuisineCatalog.ts) for recipes that don't have one yet. Cuisines set by hand are kept.
+// Safe to re-run.
+// Usage: npm run prisma:tag-cuisines
+
+async function main() {
+  console.log('🌍 Tagging recipe cuisines...');
+
+  const recipes = await prisma.recipe.findMany({
+    where: { cuisine: null },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      recipeIngredients: { select: { ingredient: { select: { name: true } } } }
+    }
+  });
+
+  let tagged = 0;
+  const counts: Record<string, number> = {};
+
+  for (const recipe of recipes) {
+    const cuisine = detectCuisine({
+      title: recipe.title,
+      description: recipe.description,
+      ingredientNames: recipe.recipeIngredients.map(ri => ri.ingredient.name)
+    });
+    if (!cuisine) {
+      continue;
+    }
+
+    await prisma.recipe.update({
+      where: { id: recipe.id },
+      data: { cuisine }
+    });
+    counts[cuisine] = (counts[cuisine] || 0) + 1;
+    tagged++;
+  }
+
+  console.log(`  Tagged ${tagged}/${recipes.length} untagged recipes`);
+  console.log('  Recipes per cuisine:', counts);
+
+  console.log('');
+  console.log('Cuisine tagging complete!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Cuisine tagging error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
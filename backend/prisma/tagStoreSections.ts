@@ -0,0 +1,51 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import { detectStoreSection } from '../src/config/storeSections.js';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+// Store section tagging
+// Sets Ingredient.storeSection (src/config/storeSections.ts) on ingredients that don't have one,
+// from the name and then the free-text category. Sections already set, including ones changed
+// by hand, are kept.
+// Safe to re-run.
+// Usage: npm run prisma:tag-store-sections
+
+async function main() {
+  console.log('🛒 Tagging ingredient store sections...');
+
+  const ingredients = await prisma.ingredient.findMany({
+    where: { storeSection: null },
+    select: { id: true, name: true, category: true }
+  });
+
+  const counts: Record<string, number> = {};
+
+  for (const ingredient of ingredients) {
+    const section = detectStoreSection(ingredient.name, ingredient.category);
+    counts[section] = (counts[section] || 0) + 1;
+
+    await prisma.ingredient.update({
+      where: { id: ingredient.id },
+      data: { storeSection: section }
+    });
+  }
+
+  console.log(`  Tagged ${ingredients.length} ingredients`);
+  console.log('  Ingredients per section:', counts);
+
+  console.log('');
+  console.log('Store section tagging complete!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Store section tagging error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,216 @@
+// Allergen Catalog Configuration
+// The big-9 food allergens, the ingredient-name keywords that signal them and the spellings
+// users enter for them. Used to tag Ingredient.allergens and to check recipes against a user's
+// allergies; anything a user lists that isn't in the catalog is matched as a custom term.
+
+export type AllergenId =
+  | 'milk'
+  | 'eggs'
+  | 'fish'
+  | 'shellfish'
+  | 'tree_nuts'
+  | 'peanuts'
+  | 'wheat'
+  | 'soy'
+  | 'sesame';
+
+export interface AllergenDefinition {
+  id: AllergenId;
+  label: string;
+  keywords: string[]; // Ingredient-name words or phrases that contain the allergen
+  exceptions?: string[]; // Phrases that look like a keyword but aren't ("coconut milk", "peanut butter")
+  freeFrom?: string[]; // Phrases that mark the whole ingredient as free of it ("dairy free cheese")
+}
+
+export interface AllergyProfile {
+  allergens: AllergenId[]; // Catalog allergens the user listed
+  customTerms: string[]; // Everything else, matched against ingredient names and tags
+}
+
+export const ALLERGENS: AllergenDefinition[] = [
+  {
+    id: 'milk',
+    label: 'Milk',
+    keywords: [
+      'milk', 'butter', 'buttermilk', 'cheese', 'cream', 'sour cream', 'half and half', 'yogurt', 'yoghurt',
+      'ghee', 'whey', 'casein', 'kefir', 'custard', 'parmesan', 'mozzarella', 'cheddar', 'ricotta', 'feta',
+      'brie', 'gouda', 'gruyere', 'mascarpone', 'paneer', 'pecorino', 'provolone', 'queso', 'creme fraiche'
+    ],
+    exceptions: [
+      'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'cashew milk',
+      'peanut butter', 'almond butter', 'cashew butter', 'sunflower butter', 'nut butter', 'apple butter',
+      'cocoa butter', 'butter bean', 'cream of tartar'
+    ],
+    freeFrom: ['dairy free', 'non dairy', 'vegan']
+  },
+  {
+    id: 'eggs',
+    label: 'Eggs',
+    keywords: ['egg', 'egg white', 'egg yolk', 'mayonnaise', 'mayo', 'aioli', 'meringue'],
+    freeFrom: ['egg free', 'vegan']
+  },
+  {
+    id: 'fish',
+    label: 'Fish',
+    keywords: [
+      'fish', 'salmon', 'tuna', 'cod', 'tilapia', 'halibut', 'trout', 'bass', 'catfish', 'pollock',
+      'sardine', 'anchovy', 'mackerel', 'haddock', 'snapper', 'mahi', 'swordfish', 'herring', 'sole', 'flounder',
+      'worcestershire'
+    ]
+  },
+  {
+    id: 'shellfish',
+    label: 'Shellfish',
+    keywords: [
+      'shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'crawfish', 'crayfish', 'langoustine', 'scallop',
+      'mussel', 'clam', 'oyster', 'squid', 'calamari', 'octopus'
+    ],
+    exceptions: ['oyster mushroom']
+  },
+  {
+    id: 'tree_nuts',
+    label: 'Tree nuts',
+    keywords: [
+      'almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut',
+      'chestnut', 'praline', 'marzipan', 'nutella', 'pesto', 'mixed nut'
+    ],
+    exceptions: ['water chestnut']
+  },
+  {
+    id: 'peanuts',
+    label: 'Peanuts',
+    keywords: ['peanut', 'groundnut', 'satay']
+  },
+  {
+    id: 'wheat',
+    label: 'Wheat',
+    keywords: [
+      'wheat', 'flour', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'penne', 'fettuccine', 'linguine',
+      'macaroni', 'lasagna', 'noodle', 'couscous', 'bulgur', 'semolina', 'farro', 'spelt', 'seitan', 'tortilla',
+      'pita', 'naan', 'bun', 'cracker', 'crouton', 'soy sauce', 'barley', 'rye', 'gluten'
+    ],
+    exceptions: [
+      'almond flour', 'coconut flour', 'rice flour', 'oat flour', 'chickpea flour', 'tapioca flour', 'corn flour',
+      'corn tortilla', 'rice noodle', 'glass noodle', 'buckwheat'
+    ],
+    freeFrom: ['gluten free', 'wheat free']
+  },
+  {
+    id: 'soy',
+    label: 'Soy',
+    keywords: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari']
+  },
+  {
+    id: 'sesame',
+    label: 'Sesame',
+    keywords: ['sesame', 'tahini', 'halva', 'za atar']
+  }
+];
+
+// How users write allergies in their preferences → catalog allergens
+const ALLERGY_ALIASES: Record<string, AllergenId[]> = {
+  'milk': ['milk'],
+  'dairy': ['milk'],
+  'lactose': ['milk'],
+  'egg': ['eggs'],
+  'fish': ['fish'],
+  'shellfish': ['shellfish'],
+  'seafood': ['fish', 'shellfish'],
+  'crustacean': ['shellfish'],
+  'tree nut': ['tree_nuts'],
+  'nut': ['tree_nuts', 'peanuts'],
+  'peanut': ['peanuts'],
+  'wheat': ['wheat'],
+  'gluten': ['wheat'],
+  'soy': ['soy'],
+  'soya': ['soy'],
+  'sesame': ['sesame']
+};
+
+/**
+ * Singular, punctuation-free form used for matching ("Eggs, beaten" → "egg beaten")
+ */
+function normalizeAllergenText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => {
+      if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+      if (word.length > 4 && word.endsWith('oes')) return word.slice(0, -2);
+      if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+      return word;
+    })
+    .join(' ');
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+/**
+ * Whether an ingredient name contains a custom allergy term ("strawberries" matches "fresh strawberry")
+ */
+export function matchesAllergyTerm(ingredientName: string, term: string): boolean {
+  const normalizedTerm = normalizeAllergenText(term);
+  return normalizedTerm.length > 0 && containsPhrase(normalizeAllergenText(ingredientName), normalizedTerm);
+}
+
+/**
+ * Catalog allergens an ingredient name signals.
+ * Exception phrases are removed first, so "peanut butter" is peanuts but not milk;
+ * "free from" phrases rule the allergen out entirely ("gluten free pasta").
+ */
+export function detectAllergens(ingredientName: string): AllergenId[] {
+  const name = normalizeAllergenText(ingredientName);
+
+  return ALLERGENS
+    .filter(allergen => {
+      if ((allergen.freeFrom || []).some(phrase => containsPhrase(name, normalizeAllergenText(phrase)))) {
+        return false;
+      }
+
+      let remaining = ` ${name} `;
+      for (const exception of (allergen.exceptions || []).map(normalizeAllergenText)) {
+        remaining = remaining.split(` ${exception} `).join(' | ');
+      }
+      return allergen.keywords.some(keyword => containsPhrase(remaining.trim(), normalizeAllergenText(keyword)));
+    })
+    .map(allergen => allergen.id);
+}
+
+/**
+ * Split a user's allergy list into catalog allergens and custom terms
+ */
+export function resolveAllergies(allergies: string[]): AllergyProfile {
+  const allergens = new Set<AllergenId>();
+  const customTerms = new Set<string>();
+
+  for (const allergy of allergies) {
+    const normalized = normalizeAllergenText(allergy.replace(/\s+allerg(y|ies)$/i, ''));
+    if (!normalized) continue;
+
+    const catalogIds = ALLERGY_ALIASES[normalized]
+      ?? ALLERGENS.filter(allergen => allergen.id === normalized || normalizeAllergenText(allergen.label) === normalized).map(allergen => allergen.id);
+
+    if (catalogIds.length > 0) {
+      catalogIds.forEach(id => allergens.add(id));
+    } else {
+      customTerms.add(normalized);
+    }
+  }
+
+  return { allergens: [...allergens], customTerms: [...customTerms] };
+}
+
+/**
+ * Display label for a catalog allergen id or a custom term
+ */
+export function getAllergenLabel(allergen: string): string {
+  return ALLERGENS.find(definition => definition.id === allergen)?.label ?? allergen;
+}
+
+export function isCatalogAllergen(allergen: string): allergen is AllergenId {
+  return ALLERGENS.some(definition => definition.id === allergen);
+}
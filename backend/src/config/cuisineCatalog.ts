@@ -0,0 +1,141 @@
+// Cuisine Catalog Configuration
+// Cuisines recipes are tagged with (Recipe.cuisine) and the title, description and ingredient
+// keywords that signal each one. Title and description words count more than ingredients, since
+// "ginger" or "basil" alone turn up in many cuisines.
+
+export interface CuisineDefinition {
+  id: string;
+  label: string;
+  keywords: string[]; // Dish names and words in a title or description ("taco", "risotto")
+  ingredients: string[]; // Ingredient-name phrases typical of the cuisine ("gochujang", "garam masala")
+}
+
+export const CUISINES: CuisineDefinition[] = [
+  {
+    id: 'italian',
+    label: 'Italian',
+    keywords: ['italian', 'pasta', 'spaghetti', 'lasagna', 'risotto', 'gnocchi', 'carbonara', 'bolognese', 'marinara', 'pizza', 'parmigiana', 'piccata', 'caprese', 'pesto', 'minestrone', 'bruschetta', 'tuscan', 'penne', 'fettuccine', 'alfredo'],
+    ingredients: ['parmesan', 'mozzarella', 'ricotta', 'pancetta', 'prosciutto', 'basil', 'oregano', 'arborio']
+  },
+  {
+    id: 'mexican',
+    label: 'Mexican',
+    keywords: ['mexican', 'taco', 'burrito', 'enchilada', 'quesadilla', 'fajita', 'tamale', 'tostada', 'salsa', 'guacamole', 'carnitas', 'pozole', 'chilaquiles', 'mole', 'elote'],
+    ingredients: ['tortilla', 'jalapeno', 'chipotle', 'cilantro', 'cotija', 'queso fresco', 'black bean', 'lime', 'poblano']
+  },
+  {
+    id: 'chinese',
+    label: 'Chinese',
+    keywords: ['chinese', 'kung pao', 'lo mein', 'chow mein', 'fried rice', 'dumpling', 'szechuan', 'sichuan', 'sweet and sour', 'general tso', 'mapo', 'char siu', 'wonton'],
+    ingredients: ['soy sauce', 'hoisin', 'oyster sauce', 'five spice', 'bok choy', 'shaoxing', 'sesame oil', 'ginger', 'scallion']
+  },
+  {
+    id: 'japanese',
+    label: 'Japanese',
+    keywords: ['japanese', 'teriyaki', 'sushi', 'ramen', 'udon', 'soba', 'katsu', 'miso', 'tempura', 'donburi', 'yakitori', 'onigiri'],
+    ingredients: ['mirin', 'miso', 'dashi', 'nori', 'sake', 'panko', 'wasabi']
+  },
+  {
+    id: 'korean',
+    label: 'Korean',
+    keywords: ['korean', 'bibimbap', 'bulgogi', 'kimchi', 'japchae', 'galbi', 'tteokbokki'],
+    ingredients: ['gochujang', 'gochugaru', 'kimchi']
+  },
+  {
+    id: 'thai',
+    label: 'Thai',
+    keywords: ['thai', 'pad thai', 'green curry', 'red curry', 'massaman', 'tom yum', 'tom kha', 'larb', 'pad see ew'],
+    ingredients: ['fish sauce', 'lemongrass', 'thai basil', 'coconut milk', 'galangal', 'kaffir lime']
+  },
+  {
+    id: 'indian',
+    label: 'Indian',
+    keywords: ['indian', 'curry', 'tikka', 'masala', 'korma', 'vindaloo', 'dal', 'biryani', 'tandoori', 'saag', 'paneer', 'chana', 'naan'],
+    ingredients: ['garam masala', 'turmeric', 'cumin', 'cardamom', 'ghee', 'paneer', 'curry powder', 'fenugreek']
+  },
+  {
+    id: 'mediterranean',
+    label: 'Mediterranean',
+    keywords: ['mediterranean', 'greek', 'gyro', 'souvlaki', 'tzatziki', 'moussaka', 'spanakopita', 'falafel', 'hummus', 'shakshuka', 'tabbouleh', 'shawarma', 'middle eastern'],
+    ingredients: ['feta', 'kalamata', 'tahini', 'chickpea', 'za atar', 'sumac', 'pita', 'olive oil']
+  },
+  {
+    id: 'french',
+    label: 'French',
+    keywords: ['french', 'coq au vin', 'ratatouille', 'bourguignon', 'quiche', 'crepe', 'souffle', 'nicoise', 'provencal', 'gratin', 'cassoulet'],
+    ingredients: ['gruyere', 'dijon', 'shallot', 'tarragon', 'herbes de provence', 'creme fraiche']
+  },
+  {
+    id: 'american',
+    label: 'American',
+    keywords: ['american', 'burger', 'bbq', 'barbecue', 'mac and cheese', 'meatloaf', 'casserole', 'pot roast', 'sloppy joe', 'buffalo', 'pancake', 'cornbread', 'chili', 'cobb'],
+    ingredients: ['bbq sauce', 'ranch', 'cheddar', 'bacon']
+  }
+];
+
+// Points for each keyword found; below the threshold the recipe stays untagged
+const TEXT_WEIGHT = 3;
+const INGREDIENT_WEIGHT = 1;
+const MIN_SCORE = 2;
+
+/**
+ * Lowercase, punctuation-free, singular words ("Tacos al Pastor!" → "taco al pastor")
+ */
+function normalizeCuisineText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${text} `.includes(` ${normalizeCuisineText(phrase)} `);
+}
+
+/**
+ * Best-matching cuisine for a recipe, or null when nothing signals one clearly
+ */
+export function detectCuisine(recipe: { title: string; description?: string | null; ingredientNames?: string[] }): string | null {
+  const text = normalizeCuisineText(`${recipe.title} ${recipe.description || ''}`);
+  const ingredients = (recipe.ingredientNames || []).map(normalizeCuisineText);
+
+  let best: { id: string; score: number } | null = null;
+  for (const cuisine of CUISINES) {
+    const score =
+      cuisine.keywords.filter(keyword => containsPhrase(text, keyword)).length * TEXT_WEIGHT +
+      cuisine.ingredients.filter(phrase => ingredients.some(name => containsPhrase(name, phrase))).length * INGREDIENT_WEIGHT;
+
+    if (score >= MIN_SCORE && (!best || score > best.score)) {
+      best = { id: cuisine.id, score };
+    }
+  }
+
+  return best?.id ?? null;
+}
+
+/**
+ * Catalog id for a cuisine name as users or recipe sites write it ("Italian", "Middle Eastern").
+ * Names the catalog doesn't know are kept as lowercase custom cuisines ("peruvian").
+ */
+export function resolveCuisine(name: string): string {
+  const normalized = normalizeCuisineText(name);
+  const match = CUISINES.find(cuisine =>
+    cuisine.id === normalized.replace(/\s+/g, '-') || normalizeCuisineText(cuisine.label) === normalized
+  );
+  if (match) {
+    return match.id;
+  }
+
+  // "Greek", "Sichuan" and other names that are keywords of a catalog cuisine
+  return CUISINES.find(cuisine => cuisine.keywords.some(keyword => normalizeCuisineText(keyword) === normalized))?.id
+    ?? name.trim().toLowerCase();
+}
+
+export function getCuisineLabel(cuisine: string): string {
+  return CUISINES.find(definition => definition.id === cuisine)?.label ?? cuisine;
+}
@@ -0,0 +1,57 @@
+// Ingredient Vocabulary Configuration
+// Words the ingredient canonicalizer (utils/ingredientNormalizer.ts) treats specially: preparation
+// and state descriptors that move into RecipeIngredient.notes, brand names that are dropped, and
+// nouns that don't follow the plural → singular rules.
+
+// Descriptors that say how an ingredient is prepared or bought, not what it is.
+// "2 large chicken breasts, boneless" → "chicken breast" with notes "large, boneless"
+export const PREPARATION_TERMS: string[] = [
+  // State
+  'fresh', 'freshly', 'frozen', 'raw', 'cooked', 'uncooked', 'dried', 'canned', 'thawed', 'ripe',
+  'lukewarm', 'chilled', 'softened', 'melted', 'room-temperature',
+  // Sourcing
+  'organic', 'free-range', 'cage-free', 'wild-caught', 'farm-raised', 'grass-fed', 'pasture-raised',
+  // Size
+  'large', 'small', 'medium', 'extra-large', 'jumbo', 'heaping', 'level',
+  // Cut and preparation
+  'halved', 'quartered', 'sliced', 'diced', 'chopped', 'minced', 'grated', 'shredded', 'cubed',
+  'julienned', 'mashed', 'pureed', 'beaten', 'whisked', 'sifted', 'packed', 'drained',
+  'rinsed', 'divided', 'toasted', 'peeled', 'unpeeled', 'deveined', 'trimmed', 'cleaned', 'pitted',
+  'seeded', 'deseeded', 'stemmed', 'cored', 'zested', 'juiced', 'boneless', 'skinless', 'bone-in',
+  'skin-on',
+  // Adverbs that only qualify the above ("finely chopped")
+  'finely', 'thinly', 'roughly', 'coarsely', 'lightly', 'firmly', 'loosely', 'very',
+];
+
+// Brands stripped from names so "Kikkoman soy sauce" and "soy sauce" are one ingredient.
+// Lowercase, as written on the label
+export const BRAND_NAMES: string[] = [
+  'great value', 'kirkland signature', 'kirkland', 'trader joe\'s', 'marketside', 'good & gather',
+  '365 everyday value', 'whole foods', 'kraft', 'heinz', 'hunt\'s', 'del monte', 'campbell\'s', 'swanson',
+  'progresso', 'barilla', 'de cecco', 'kikkoman', 'la choy', 'hellmann\'s', 'best foods', 'french\'s',
+  'frank\'s redhot', 'tabasco', 'mccormick', 'morton', 'diamond crystal', 'domino', 'c&h',
+  'land o\'lakes', 'kerrygold', 'philadelphia', 'sargento', 'tillamook', 'cabot', 'daisy',
+  'nestle toll house', 'nestle', 'ghirardelli', 'hershey\'s', 'baker\'s', 'pillsbury', 'gold medal',
+  'king arthur', 'bisquick', 'jif', 'skippy', 'goya', 'old el paso', 'ortega', 'knorr',
+  'better than bouillon', 'bob\'s red mill', 'quaker', 'fage', 'chobani', 'oscar mayer', 'tyson',
+];
+
+// Nouns that end in "s" but are singular or uncountable ("hummus", "molasses", "red pepper flakes")
+export const UNCOUNTABLE_NOUNS: string[] = [
+  'asparagus', 'bass', 'citrus', 'couscous', 'grits', 'greens', 'hummus', 'molasses', 'oats',
+  'swiss', 'flakes', 'sprinkles', 'brussels',
+];
+
+// Plurals the suffix rules get wrong
+export const IRREGULAR_SINGULARS: Record<string, string> = {
+  leaves: 'leaf',
+  halves: 'half',
+  loaves: 'loaf',
+  cookies: 'cookie',
+  brownies: 'brownie',
+  veggies: 'veggie',
+  smoothies: 'smoothie',
+  pies: 'pie',
+  chilies: 'chili',
+  chiles: 'chile',
+};
@@ -0,0 +1,79 @@
+// Local Store Catalog
+// Fixture product list for the offline "local store" grocery provider.
+// Prices are typical US supermarket prices; sizes use the same formats as Walmart listings
+// so package counts are calculated the same way for both providers.
+
+export interface LocalStoreProduct {
+  productId: string;
+  name: string;
+  brandName: string;
+  price: number;
+  regularPrice?: number;
+  size: string;
+  category: string;
+  keywords: string[]; // Extra search terms (ingredient names this product covers)
+  inStock?: boolean;
+}
+
+export const LOCAL_STORE_NAME = 'Local Store';
+
+export const LOCAL_STORE_PRODUCTS: LocalStoreProduct[] = [
+  // Meat & Seafood
+  { productId: 'local-1001', name: 'Boneless Skinless Chicken Breast', brandName: 'Store Brand', price: 7.49, size: '2 lb', category: 'Meat', keywords: ['chicken', 'chicken breast'] },
+  { productId: 'local-1002', name: 'Chicken Thighs, Bone-In', brandName: 'Store Brand', price: 5.29, size: '2.5 lb', category: 'Meat', keywords: ['chicken thighs', 'chicken thigh'] },
+  { productId: 'local-1003', name: '80/20 Ground Beef', brandName: 'Store Brand', price: 5.99, regularPrice: 6.49, size: '1 lb', category: 'Meat', keywords: ['ground beef', 'beef', 'hamburger'] },
+  { productId: 'local-1004', name: 'Ground Turkey 93% Lean', brandName: 'Store Brand', price: 4.79, size: '1 lb', category: 'Meat', keywords: ['ground turkey', 'turkey'] },
+  { productId: 'local-1005', name: 'Thick Cut Bacon', brandName: 'Store Brand', price: 6.49, size: '16 oz', category: 'Meat', keywords: ['bacon'] },
+  { productId: 'local-1006', name: 'Atlantic Salmon Fillet', brandName: 'Seafood Counter', price: 9.99, size: '1 lb', category: 'Seafood', keywords: ['salmon', 'salmon fillet'] },
+  { productId: 'local-1007', name: 'Raw Shrimp, Peeled & Deveined', brandName: 'Seafood Counter', price: 8.99, size: '12 oz', category: 'Seafood', keywords: ['shrimp', 'prawns'] },
+
+  // Dairy & Eggs
+  { productId: 'local-2001', name: 'Large Grade A Eggs', brandName: 'Store Brand', price: 3.49, size: '12 count', category: 'Dairy', keywords: ['eggs', 'egg'] },
+  { productId: 'local-2002', name: 'Whole Milk', brandName: 'Store Brand', price: 3.79, size: '1 gallon', category: 'Dairy', keywords: ['milk', 'whole milk'] },
+  { productId: 'local-2003', name: 'Unsalted Butter', brandName: 'Store Brand', price: 4.99, size: '16 oz', category: 'Dairy', keywords: ['butter', 'unsalted butter'] },
+  { productId: 'local-2004', name: 'Shredded Cheddar Cheese', brandName: 'Store Brand', price: 2.99, size: '8 oz', category: 'Dairy', keywords: ['cheddar', 'cheddar cheese', 'shredded cheese'] },
+  { productId: 'local-2005', name: 'Shredded Mozzarella Cheese', brandName: 'Store Brand', price: 2.99, size: '8 oz', category: 'Dairy', keywords: ['mozzarella', 'mozzarella cheese'] },
+  { productId: 'local-2006', name: 'Grated Parmesan Cheese', brandName: 'Store Brand', price: 4.29, size: '8 oz', category: 'Dairy', keywords: ['parmesan', 'parmesan cheese'] },
+  { productId: 'local-2007', name: 'Heavy Whipping Cream', brandName: 'Store Brand', price: 3.29, size: '16 fl oz', category: 'Dairy', keywords: ['heavy cream', 'cream', 'whipping cream'] },
+  { productId: 'local-2008', name: 'Plain Greek Yogurt', brandName: 'Store Brand', price: 4.49, size: '32 oz', category: 'Dairy', keywords: ['greek yogurt', 'yogurt'] },
+  { productId: 'local-2009', name: 'Sour Cream', brandName: 'Store Brand', price: 1.99, size: '16 oz', category: 'Dairy', keywords: ['sour cream'] },
+
+  // Produce
+  { productId: 'local-3001', name: 'Yellow Onions', brandName: 'Fresh Produce', price: 2.99, size: '3 lb', category: 'Vegetables', keywords: ['onion', 'onions', 'yellow onion'] },
+  { productId: 'local-3002', name: 'Fresh Garlic', brandName: 'Fresh Produce', price: 0.69, size: '1 count', category: 'Vegetables', keywords: ['garlic', 'garlic cloves'] },
+  { productId: 'local-3003', name: 'Russet Potatoes', brandName: 'Fresh Produce', price: 3.99, size: '5 lb', category: 'Vegetables', keywords: ['potatoes', 'potato', 'russet potatoes'] },
+  { productId: 'local-3004', name: 'Carrots', brandName: 'Fresh Produce', price: 1.29, size: '2 lb', category: 'Vegetables', keywords: ['carrot', 'carrots'] },
+  { productId: 'local-3005', name: 'Broccoli Crowns', brandName: 'Fresh Produce', price: 2.49, size: '1 lb', category: 'Vegetables', keywords: ['broccoli'] },
+  { productId: 'local-3006', name: 'Baby Spinach', brandName: 'Fresh Produce', price: 3.49, size: '5 oz', category: 'Vegetables', keywords: ['spinach', 'baby spinach'] },
+  { productId: 'local-3007', name: 'Roma Tomatoes', brandName: 'Fresh Produce', price: 1.49, size: '1 lb', category: 'Vegetables', keywords: ['tomato', 'tomatoes', 'roma tomatoes'] },
+  { productId: 'local-3008', name: 'Red Bell Pepper', brandName: 'Fresh Produce', price: 1.29, size: '1 count', category: 'Vegetables', keywords: ['bell pepper', 'red bell pepper', 'pepper'] },
+  { productId: 'local-3009', name: 'Lemons', brandName: 'Fresh Produce', price: 0.79, size: '1 count', category: 'Fruits', keywords: ['lemon', 'lemons', 'lemon juice'] },
+  { productId: 'local-3010', name: 'Limes', brandName: 'Fresh Produce', price: 0.39, size: '1 count', category: 'Fruits', keywords: ['lime', 'limes', 'lime juice'] },
+  { productId: 'local-3011', name: 'Bananas', brandName: 'Fresh Produce', price: 0.25, size: '1 count', category: 'Fruits', keywords: ['banana', 'bananas'] },
+  { productId: 'local-3012', name: 'Fresh Cilantro', brandName: 'Fresh Produce', price: 0.99, size: '1 count', category: 'Vegetables', keywords: ['cilantro'] },
+
+  // Pantry
+  { productId: 'local-4001', name: 'Long Grain White Rice', brandName: 'Store Brand', price: 2.79, size: '2 lb', category: 'Grains', keywords: ['rice', 'white rice'] },
+  { productId: 'local-4002', name: 'Spaghetti', brandName: 'Store Brand', price: 1.29, size: '16 oz', category: 'Grains', keywords: ['spaghetti', 'pasta'] },
+  { productId: 'local-4003', name: 'Penne Rigate', brandName: 'Store Brand', price: 1.29, size: '16 oz', category: 'Grains', keywords: ['penne', 'pasta'] },
+  { productId: 'local-4004', name: 'All-Purpose Flour', brandName: 'Store Brand', price: 3.19, size: '5 lb', category: 'Grains', keywords: ['flour', 'all-purpose flour'] },
+  { productId: 'local-4005', name: 'Granulated Sugar', brandName: 'Store Brand', price: 3.49, size: '4 lb', category: 'Other', keywords: ['sugar', 'white sugar'] },
+  { productId: 'local-4006', name: 'Old Fashioned Rolled Oats', brandName: 'Store Brand', price: 3.29, size: '42 oz', category: 'Grains', keywords: ['oats', 'rolled oats'] },
+  { productId: 'local-4007', name: 'Extra Virgin Olive Oil', brandName: 'Store Brand', price: 7.99, size: '16.9 fl oz', category: 'Condiments', keywords: ['olive oil', 'oil'] },
+  { productId: 'local-4008', name: 'Vegetable Oil', brandName: 'Store Brand', price: 3.99, size: '48 fl oz', category: 'Condiments', keywords: ['vegetable oil', 'canola oil', 'oil'] },
+  { productId: 'local-4009', name: 'Low Sodium Chicken Broth', brandName: 'Store Brand', price: 2.49, size: '32 fl oz', category: 'Other', keywords: ['chicken broth', 'chicken stock', 'broth'] },
+  { productId: 'local-4010', name: 'Diced Tomatoes', brandName: 'Store Brand', price: 0.99, size: '14.5 oz', category: 'Other', keywords: ['diced tomatoes', 'canned tomatoes'] },
+  { productId: 'local-4011', name: 'Black Beans', brandName: 'Store Brand', price: 0.89, size: '15 oz', category: 'Other', keywords: ['black beans', 'beans'] },
+  { productId: 'local-4012', name: 'Soy Sauce', brandName: 'Store Brand', price: 2.49, size: '15 fl oz', category: 'Condiments', keywords: ['soy sauce'] },
+  { productId: 'local-4013', name: 'Honey', brandName: 'Store Brand', price: 5.49, size: '12 oz', category: 'Condiments', keywords: ['honey'] },
+  { productId: 'local-4014', name: 'Tortillas, Flour', brandName: 'Store Brand', price: 2.79, size: '10 count', category: 'Grains', keywords: ['tortillas', 'flour tortillas'] },
+  { productId: 'local-4015', name: 'Sandwich Bread', brandName: 'Store Brand', price: 2.49, size: '20 oz', category: 'Grains', keywords: ['bread', 'sandwich bread'] },
+
+  // Spices
+  { productId: 'local-5001', name: 'Iodized Salt', brandName: 'Store Brand', price: 0.89, size: '26 oz', category: 'Spices', keywords: ['salt', 'table salt'] },
+  { productId: 'local-5002', name: 'Ground Black Pepper', brandName: 'Store Brand', price: 2.99, size: '3 oz', category: 'Spices', keywords: ['black pepper', 'pepper'] },
+  { productId: 'local-5003', name: 'Ground Cumin', brandName: 'Store Brand', price: 2.49, size: '1.5 oz', category: 'Spices', keywords: ['cumin'] },
+  { productId: 'local-5004', name: 'Paprika', brandName: 'Store Brand', price: 2.29, size: '2.5 oz', category: 'Spices', keywords: ['paprika', 'smoked paprika'] },
+  { productId: 'local-5005', name: 'Garlic Powder', brandName: 'Store Brand', price: 2.49, size: '3 oz', category: 'Spices', keywords: ['garlic powder'] },
+  { productId: 'local-5006', name: 'Dried Oregano', brandName: 'Store Brand', price: 1.99, size: '0.75 oz', category: 'Spices', keywords: ['oregano'] }
+];
@@ -0,0 +1,206 @@
+// Nutrition Dataset Configuration
+// Bundled per-100g macros for common ingredients (approximate USDA FoodData Central values),
+// plus typical weights for volume and count amounts. Works offline; seeded into
+// Ingredient.caloriesPer100g etc. by prisma/seedNutrition.ts
+
+export interface NutritionFacts {
+  names: string[]; // Ingredient names the values apply to
+  calories: number; // kcal per 100g
+  protein: number; // g per 100g
+  carbs: number; // g per 100g
+  fat: number; // g per 100g
+  gramsPerCup?: number; // For volume amounts when no density conversion is stored
+  gramsPerUnit?: Partial<Record<string, number>>; // Canonical count unit → grams ({ count: 50 } for an egg)
+}
+
+export const NUTRITION_DATASET: NutritionFacts[] = [
+  // Meat, poultry & seafood (raw)
+  { names: ['chicken breast', 'boneless chicken breast', 'chicken'], calories: 120, protein: 22.5, carbs: 0, fat: 2.6, gramsPerUnit: { count: 200 } },
+  { names: ['chicken thigh', 'boneless chicken thigh'], calories: 121, protein: 19.7, carbs: 0, fat: 4.1, gramsPerUnit: { count: 110 } },
+  { names: ['ground chicken'], calories: 143, protein: 17.4, carbs: 0, fat: 8.1 },
+  { names: ['ground turkey', 'turkey'], calories: 150, protein: 19.7, carbs: 0, fat: 8.3 },
+  { names: ['ground beef', 'lean ground beef'], calories: 215, protein: 18.6, carbs: 0, fat: 15 },
+  { names: ['beef', 'beef tenderloin', 'steak', 'sirloin steak', 'flank steak', 'beef chuck'], calories: 158, protein: 21.5, carbs: 0, fat: 7.6 },
+  { names: ['pork', 'pork chop', 'pork loin', 'pork tenderloin'], calories: 143, protein: 21, carbs: 0, fat: 5.9, gramsPerUnit: { count: 170 } },
+  { names: ['bacon'], calories: 417, protein: 13, carbs: 1.4, fat: 40, gramsPerUnit: { slice: 25 } },
+  { names: ['sausage', 'italian sausage', 'pork sausage'], calories: 301, protein: 12, carbs: 1.4, fat: 27, gramsPerUnit: { count: 75 } },
+  { names: ['ham'], calories: 145, protein: 21, carbs: 1.5, fat: 5.5, gramsPerUnit: { slice: 28 } },
+  { names: ['salmon', 'salmon fillet'], calories: 208, protein: 20, carbs: 0, fat: 13, gramsPerUnit: { count: 170 } },
+  { names: ['cod', 'tilapia', 'white fish', 'halibut'], calories: 82, protein: 18, carbs: 0, fat: 0.7, gramsPerUnit: { count: 170 } },
+  { names: ['shrimp', 'prawn'], calories: 85, protein: 20.1, carbs: 0, fat: 0.5 },
+  { names: ['tuna', 'canned tuna'], calories: 86, protein: 19.4, carbs: 0, fat: 1, gramsPerUnit: { can: 120 } },
+
+  // Eggs, tofu & legumes
+  { names: ['egg', 'large egg'], calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5, gramsPerUnit: { count: 50 } },
+  { names: ['egg white'], calories: 52, protein: 10.9, carbs: 0.7, fat: 0.2, gramsPerUnit: { count: 33 } },
+  { names: ['tofu', 'firm tofu', 'extra firm tofu'], calories: 144, protein: 17.3, carbs: 2.8, fat: 8.7, gramsPerUnit: { package: 397 } },
+  { names: ['chickpea', 'garbanzo bean'], calories: 164, protein: 8.9, carbs: 27.4, fat: 2.6, gramsPerCup: 164, gramsPerUnit: { can: 240 } },
+  { names: ['black bean'], calories: 132, protein: 8.9, carbs: 23.7, fat: 0.5, gramsPerCup: 172, gramsPerUnit: { can: 240 } },
+  { names: ['kidney bean', 'pinto bean', 'cannellini bean', 'white bean'], calories: 127, protein: 8.7, carbs: 22.8, fat: 0.5, gramsPerCup: 177, gramsPerUnit: { can: 240 } },
+  { names: ['lentil', 'red lentil', 'green lentil'], calories: 352, protein: 24.6, carbs: 63.4, fat: 1.1, gramsPerCup: 192 },
+
+  // Dairy
+  { names: ['milk', 'whole milk', '2% milk'], calories: 50, protein: 3.3, carbs: 4.8, fat: 2, gramsPerCup: 244 },
+  { names: ['heavy cream', 'heavy whipping cream', 'cream'], calories: 340, protein: 2.8, carbs: 2.7, fat: 36, gramsPerCup: 238 },
+  { names: ['butter', 'unsalted butter', 'salted butter'], calories: 717, protein: 0.9, carbs: 0.1, fat: 81, gramsPerCup: 227 },
+  { names: ['cheddar cheese', 'cheddar', 'shredded cheese'], calories: 403, protein: 24.9, carbs: 1.3, fat: 33.1, gramsPerCup: 113, gramsPerUnit: { slice: 21 } },
+  { names: ['mozzarella cheese', 'mozzarella'], calories: 300, protein: 22.2, carbs: 2.2, fat: 22.4, gramsPerCup: 113, gramsPerUnit: { slice: 21 } },
+  { names: ['parmesan cheese', 'parmesan', 'grated parmesan'], calories: 392, protein: 35.8, carbs: 3.2, fat: 25.8, gramsPerCup: 100 },
+  { names: ['feta cheese', 'feta'], calories: 264, protein: 14.2, carbs: 4.1, fat: 21.3, gramsPerCup: 150 },
+  { names: ['cream cheese'], calories: 342, protein: 5.9, carbs: 4.1, fat: 34.2, gramsPerCup: 232 },
+  { names: ['sour cream'], calories: 193, protein: 2.4, carbs: 4.6, fat: 19.4, gramsPerCup: 230 },
+  { names: ['greek yogurt', 'plain greek yogurt'], calories: 59, protein: 10.2, carbs: 3.6, fat: 0.4, gramsPerCup: 245 },
+  { names: ['yogurt', 'plain yogurt'], calories: 61, protein: 3.5, carbs: 4.7, fat: 3.3, gramsPerCup: 245 },
+
+  // Grains & bread (dry / uncooked)
+  { names: ['rice', 'white rice', 'jasmine rice', 'basmati rice'], calories: 365, protein: 7.1, carbs: 80, fat: 0.7, gramsPerCup: 185 },
+  { names: ['brown rice'], calories: 370, protein: 7.9, carbs: 77.2, fat: 2.9, gramsPerCup: 185 },
+  { names: ['quinoa'], calories: 368, protein: 14.1, carbs: 64.2, fat: 6.1, gramsPerCup: 170 },
+  { names: ['pasta', 'spaghetti', 'penne', 'macaroni', 'fettuccine', 'linguine', 'egg noodle', 'noodle'], calories: 371, protein: 13, carbs: 74.7, fat: 1.5, gramsPerCup: 100 },
+  { names: ['flour', 'all-purpose flour', 'all purpose flour'], calories: 364, protein: 10.3, carbs: 76.3, fat: 1, gramsPerCup: 125 },
+  { names: ['bread', 'whole wheat bread', 'sandwich bread'], calories: 265, protein: 9, carbs: 49, fat: 3.2, gramsPerUnit: { slice: 30 } },
+  { names: ['tortilla', 'flour tortilla'], calories: 312, protein: 8.3, carbs: 51.6, fat: 8, gramsPerUnit: { count: 45 } },
+  { names: ['corn tortilla'], calories: 218, protein: 5.7, carbs: 44.6, fat: 2.9, gramsPerUnit: { count: 26 } },
+  { names: ['oat', 'rolled oat', 'oatmeal'], calories: 389, protein: 16.9, carbs: 66.3, fat: 6.9, gramsPerCup: 90 },
+  { names: ['breadcrumb', 'panko', 'panko breadcrumb'], calories: 395, protein: 13.4, carbs: 72, fat: 5.3, gramsPerCup: 108 },
+  { names: ['cornstarch', 'corn starch'], calories: 381, protein: 0.3, carbs: 91.3, fat: 0.1, gramsPerCup: 128 },
+
+  // Vegetables
+  { names: ['onion', 'yellow onion', 'white onion', 'red onion'], calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, gramsPerCup: 160, gramsPerUnit: { count: 110 } },
+  { names: ['green onion', 'scallion', 'spring onion'], calories: 32, protein: 1.8, carbs: 7.3, fat: 0.2, gramsPerCup: 100, gramsPerUnit: { count: 15, bunch: 100 } },
+  { names: ['shallot'], calories: 72, protein: 2.5, carbs: 16.8, fat: 0.1, gramsPerCup: 160, gramsPerUnit: { count: 40 } },
+  { names: ['garlic', 'garlic clove'], calories: 149, protein: 6.4, carbs: 33.1, fat: 0.5, gramsPerCup: 136, gramsPerUnit: { clove: 3, count: 3 } },
+  { names: ['ginger', 'fresh ginger'], calories: 80, protein: 1.8, carbs: 17.8, fat: 0.8, gramsPerCup: 96 },
+  { names: ['carrot'], calories: 41, protein: 0.9, carbs: 9.6, fat: 0.2, gramsPerCup: 128, gramsPerUnit: { count: 61 } },
+  { names: ['celery', 'celery stalk'], calories: 16, protein: 0.7, carbs: 3, fat: 0.2, gramsPerCup: 101, gramsPerUnit: { count: 40 } },
+  { names: ['bell pepper', 'red bell pepper', 'green bell pepper', 'yellow bell pepper'], calories: 26, protein: 1, carbs: 6, fat: 0.3, gramsPerCup: 149, gramsPerUnit: { count: 120 } },
+  { names: ['jalapeno', 'jalapeño'], calories: 29, protein: 0.9, carbs: 6.5, fat: 0.4, gramsPerUnit: { count: 14 } },
+  { names: ['broccoli', 'broccoli floret'], calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, gramsPerCup: 91, gramsPerUnit: { count: 300 } },
+  { names: ['cauliflower'], calories: 25, protein: 1.9, carbs: 5, fat: 0.3, gramsPerCup: 107, gramsPerUnit: { count: 575 } },
+  { names: ['spinach', 'baby spinach'], calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, gramsPerCup: 30, gramsPerUnit: { bunch: 340 } },
+  { names: ['kale'], calories: 35, protein: 2.9, carbs: 4.4, fat: 1.5, gramsPerCup: 21, gramsPerUnit: { bunch: 200 } },
+  { names: ['lettuce', 'romaine lettuce', 'romaine'], calories: 17, protein: 1.2, carbs: 3.3, fat: 0.3, gramsPerCup: 47, gramsPerUnit: { count: 600 } },
+  { names: ['tomato', 'roma tomato', 'cherry tomato'], calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, gramsPerCup: 180, gramsPerUnit: { count: 123 } },
+  { names: ['diced tomato', 'crushed tomato', 'canned tomato'], calories: 32, protein: 1.6, carbs: 7.3, fat: 0.3, gramsPerCup: 242, gramsPerUnit: { can: 411 } },
+  { names: ['tomato paste'], calories: 82, protein: 4.3, carbs: 18.9, fat: 0.5, gramsPerCup: 262, gramsPerUnit: { can: 170 } },
+  { names: ['tomato sauce', 'marinara sauce', 'pasta sauce'], calories: 50, protein: 1.4, carbs: 8, fat: 1.5, gramsPerCup: 250, gramsPerUnit: { can: 425 } },
+  { names: ['potato', 'russet potato', 'yukon gold potato'], calories: 77, protein: 2, carbs: 17.5, fat: 0.1, gramsPerCup: 150, gramsPerUnit: { count: 213 } },
+  { names: ['sweet potato'], calories: 86, protein: 1.6, carbs: 20.1, fat: 0.1, gramsPerCup: 133, gramsPerUnit: { count: 130 } },
+  { names: ['mushroom', 'cremini mushroom', 'button mushroom'], calories: 22, protein: 3.1, carbs: 3.3, fat: 0.3, gramsPerCup: 70, gramsPerUnit: { count: 18 } },
+  { names: ['zucchini'], calories: 17, protein: 1.2, carbs: 3.1, fat: 0.3, gramsPerCup: 124, gramsPerUnit: { count: 196 } },
+  { names: ['cucumber'], calories: 15, protein: 0.7, carbs: 3.6, fat: 0.1, gramsPerCup: 119, gramsPerUnit: { count: 300 } },
+  { names: ['corn', 'sweet corn', 'corn kernel'], calories: 86, protein: 3.3, carbs: 19, fat: 1.4, gramsPerCup: 145, gramsPerUnit: { count: 90 } },
+  { names: ['pea', 'green pea'], calories: 81, protein: 5.4, carbs: 14.5, fat: 0.4, gramsPerCup: 145 },
+  { names: ['green bean'], calories: 31, protein: 1.8, carbs: 7, fat: 0.2, gramsPerCup: 110 },
+  { names: ['avocado'], calories: 160, protein: 2, carbs: 8.5, fat: 14.7, gramsPerCup: 150, gramsPerUnit: { count: 150 } },
+
+  // Fruit
+  { names: ['lemon'], calories: 29, protein: 1.1, carbs: 9.3, fat: 0.3, gramsPerUnit: { count: 84 } },
+  { names: ['lemon juice'], calories: 22, protein: 0.4, carbs: 6.9, fat: 0.2, gramsPerCup: 244 },
+  { names: ['lemon zest'], calories: 47, protein: 1.5, carbs: 16, fat: 0.3, gramsPerCup: 96 },
+  { names: ['lime'], calories: 30, protein: 0.7, carbs: 10.5, fat: 0.2, gramsPerUnit: { count: 67 } },
+  { names: ['lime juice'], calories: 25, protein: 0.4, carbs: 8.4, fat: 0.1, gramsPerCup: 242 },
+  { names: ['apple'], calories: 52, protein: 0.3, carbs: 13.8, fat: 0.2, gramsPerCup: 125, gramsPerUnit: { count: 182 } },
+  { names: ['banana'], calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3, gramsPerCup: 150, gramsPerUnit: { count: 118 } },
+  { names: ['blueberry'], calories: 57, protein: 0.7, carbs: 14.5, fat: 0.3, gramsPerCup: 148 },
+  { names: ['strawberry'], calories: 32, protein: 0.7, carbs: 7.7, fat: 0.3, gramsPerCup: 152, gramsPerUnit: { count: 12 } },
+
+  // Herbs (fresh)
+  { names: ['cilantro'], calories: 23, protein: 2.1, carbs: 3.7, fat: 0.5, gramsPerCup: 16, gramsPerUnit: { bunch: 60 } },
+  { names: ['parsley', 'fresh parsley'], calories: 36, protein: 3, carbs: 6.3, fat: 0.8, gramsPerCup: 60, gramsPerUnit: { bunch: 60 } },
+  { names: ['basil', 'fresh basil'], calories: 23, protein: 3.2, carbs: 2.7, fat: 0.6, gramsPerCup: 24, gramsPerUnit: { bunch: 40 } },
+  { names: ['dill', 'fresh dill'], calories: 43, protein: 3.5, carbs: 7, fat: 1.1, gramsPerCup: 9, gramsPerUnit: { bunch: 25 } },
+  { names: ['thyme', 'fresh thyme'], calories: 101, protein: 5.6, carbs: 24.5, fat: 1.7, gramsPerCup: 38, gramsPerUnit: { bunch: 20 } },
+  { names: ['rosemary', 'fresh rosemary'], calories: 131, protein: 3.3, carbs: 20.7, fat: 5.9, gramsPerCup: 27, gramsPerUnit: { bunch: 20 } },
+
+  // Oils, sauces & condiments
+  { names: ['olive oil', 'extra virgin olive oil'], calories: 884, protein: 0, carbs: 0, fat: 100, gramsPerCup: 216 },
+  { names: ['vegetable oil', 'canola oil', 'neutral oil', 'avocado oil', 'cooking oil'], calories: 884, protein: 0, carbs: 0, fat: 100, gramsPerCup: 218 },
+  { names: ['sesame oil', 'toasted sesame oil'], calories: 884, protein: 0, carbs: 0, fat: 100, gramsPerCup: 218 },
+  { names: ['coconut oil'], calories: 892, protein: 0, carbs: 0, fat: 99.1, gramsPerCup: 218 },
+  { names: ['soy sauce', 'low sodium soy sauce', 'tamari'], calories: 53, protein: 8.1, carbs: 4.9, fat: 0.6, gramsPerCup: 255 },
+  { names: ['mustard', 'dijon mustard', 'yellow mustard'], calories: 60, protein: 3.7, carbs: 5.8, fat: 3.3, gramsPerCup: 250 },
+  { names: ['mayonnaise', 'mayo'], calories: 680, protein: 1, carbs: 0.6, fat: 75, gramsPerCup: 220 },
+  { names: ['ketchup'], calories: 101, protein: 1, carbs: 27.4, fat: 0.1, gramsPerCup: 240 },
+  { names: ['vinegar', 'rice vinegar', 'apple cider vinegar', 'white vinegar', 'red wine vinegar'], calories: 18, protein: 0, carbs: 0.9, fat: 0, gramsPerCup: 239 },
+  { names: ['balsamic vinegar'], calories: 88, protein: 0.5, carbs: 17, fat: 0, gramsPerCup: 255 },
+  { names: ['salsa'], calories: 36, protein: 1.5, carbs: 6.6, fat: 0.2, gramsPerCup: 259 },
+  { names: ['hummus'], calories: 166, protein: 7.9, carbs: 14.3, fat: 9.6, gramsPerCup: 246 },
+  { names: ['peanut butter'], calories: 588, protein: 25, carbs: 20, fat: 50, gramsPerCup: 258 },
+  { names: ['coconut milk'], calories: 230, protein: 2.3, carbs: 5.5, fat: 23.8, gramsPerCup: 226, gramsPerUnit: { can: 400 } },
+
+  // Sweeteners & baking
+  { names: ['sugar', 'granulated sugar', 'white sugar'], calories: 387, protein: 0, carbs: 100, fat: 0, gramsPerCup: 200 },
+  { names: ['brown sugar'], calories: 380, protein: 0.1, carbs: 98.1, fat: 0, gramsPerCup: 220 },
+  { names: ['honey'], calories: 304, protein: 0.3, carbs: 82.4, fat: 0, gramsPerCup: 339 },
+  { names: ['maple syrup'], calories: 260, protein: 0, carbs: 67, fat: 0.1, gramsPerCup: 315 },
+  { names: ['baking powder'], calories: 53, protein: 0, carbs: 27.7, fat: 0, gramsPerCup: 220 },
+  { names: ['baking soda'], calories: 0, protein: 0, carbs: 0, fat: 0, gramsPerCup: 220 },
+  { names: ['vanilla extract', 'vanilla'], calories: 288, protein: 0.1, carbs: 12.7, fat: 0.1, gramsPerCup: 208 },
+  { names: ['chocolate chip', 'dark chocolate', 'semi-sweet chocolate chip'], calories: 480, protein: 4.2, carbs: 63, fat: 24, gramsPerCup: 170 },
+
+  // Nuts & seeds
+  { names: ['sesame seed', 'toasted sesame seed'], calories: 573, protein: 17.7, carbs: 23.4, fat: 49.7, gramsPerCup: 144 },
+  { names: ['almond'], calories: 579, protein: 21.2, carbs: 21.6, fat: 49.9, gramsPerCup: 143 },
+  { names: ['walnut'], calories: 654, protein: 15.2, carbs: 13.7, fat: 65.2, gramsPerCup: 117 },
+  { names: ['peanut'], calories: 567, protein: 25.8, carbs: 16.1, fat: 49.2, gramsPerCup: 146 },
+
+  // Spices & seasonings (dried)
+  { names: ['salt', 'sea salt', 'kosher salt', 'table salt'], calories: 0, protein: 0, carbs: 0, fat: 0, gramsPerCup: 273 },
+  { names: ['black pepper', 'pepper', 'ground black pepper'], calories: 251, protein: 10.4, carbs: 64, fat: 3.3, gramsPerCup: 110 },
+  { names: ['garlic powder'], calories: 331, protein: 16.6, carbs: 72.7, fat: 0.7, gramsPerCup: 149 },
+  { names: ['onion powder'], calories: 341, protein: 10.4, carbs: 79.1, fat: 1, gramsPerCup: 115 },
+  { names: ['paprika', 'smoked paprika'], calories: 282, protein: 14.1, carbs: 54, fat: 12.9, gramsPerCup: 110 },
+  { names: ['cumin', 'ground cumin'], calories: 375, protein: 17.8, carbs: 44.2, fat: 22.3, gramsPerCup: 96 },
+  { names: ['chili powder'], calories: 282, protein: 13.5, carbs: 49.7, fat: 14.3, gramsPerCup: 130 },
+  { names: ['cinnamon', 'ground cinnamon'], calories: 247, protein: 4, carbs: 80.6, fat: 1.2, gramsPerCup: 125 },
+  { names: ['oregano', 'dried oregano', 'italian seasoning', 'dried thyme', 'dried basil'], calories: 265, protein: 9, carbs: 68.9, fat: 4.3, gramsPerCup: 48 },
+
+  // Liquids
+  { names: ['water'], calories: 0, protein: 0, carbs: 0, fat: 0, gramsPerCup: 237 },
+  { names: ['chicken broth', 'chicken stock'], calories: 15, protein: 2, carbs: 1, fat: 0.5, gramsPerCup: 240 },
+  { names: ['beef broth', 'beef stock'], calories: 7, protein: 1.1, carbs: 0.1, fat: 0.2, gramsPerCup: 240 },
+  { names: ['vegetable broth', 'vegetable stock'], calories: 6, protein: 0.2, carbs: 1, fat: 0.1, gramsPerCup: 240 },
+  { names: ['red wine', 'white wine', 'dry white wine', 'wine'], calories: 84, protein: 0.1, carbs: 2.6, fat: 0, gramsPerCup: 236 }
+];
+
+/**
+ * Singular, punctuation-free form used to match ingredient names ("Tomatoes, diced" → "tomato diced")
+ */
+function normalizeFoodName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9%\s-]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => {
+      if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+      if (word.length > 4 && word.endsWith('oes')) return word.slice(0, -2);
+      if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+      return word;
+    })
+    .join(' ');
+}
+
+/**
+ * Find dataset values for an ingredient name.
+ * Exact names win; otherwise the longest dataset name contained in the ingredient name
+ * ("boneless skinless chicken thigh" → chicken thigh, "garlic powder" → garlic powder, not garlic).
+ */
+export function findNutritionFacts(name: string): NutritionFacts | undefined {
+  const normalized = normalizeFoodName(name);
+  let best: { facts: NutritionFacts; length: number } | undefined;
+
+  for (const facts of NUTRITION_DATASET) {
+    for (const candidate of facts.names.map(normalizeFoodName)) {
+      if (candidate === normalized) {
+        return facts;
+      }
+      if (` ${normalized} `.includes(` ${candidate} `) && (!best || candidate.length > best.length)) {
+        best = { facts, length: candidate.length };
+      }
+    }
+  }
+
+  return best?.facts;
+}
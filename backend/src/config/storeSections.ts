@@ -0,0 +1,151 @@
+// Store Section Configuration
+// The store sections shopping lists are grouped into (Ingredient.storeSection), in the order a
+// typical store is walked, and the ingredient-name keywords that place an ingredient in each one.
+// Users reorder the sections per store (StoreAisleOrder).
+
+export const STORE_SECTION_IDS = [
+  'produce',
+  'bakery',
+  'deli',
+  'meat',
+  'seafood',
+  'dairy',
+  'frozen',
+  'pantry',
+  'baking_spices',
+  'condiments',
+  'snacks',
+  'beverages',
+  'other',
+] as const;
+
+export type StoreSectionId = typeof STORE_SECTION_IDS[number];
+
+export interface StoreSectionDefinition {
+  id: StoreSectionId;
+  label: string;
+  keywords: string[]; // Canonical (singular, lowercase) ingredient-name phrases
+}
+
+// Default walking order: fresh food around the edge, then the center aisles
+export const STORE_SECTIONS: StoreSectionDefinition[] = [
+  {
+    id: 'produce',
+    label: 'Produce',
+    keywords: ['apple', 'avocado', 'banana', 'basil', 'bean sprout', 'bell pepper', 'berry', 'blueberry', 'bok choy', 'broccoli', 'brussels sprout', 'cabbage', 'carrot', 'cauliflower', 'celery', 'cilantro', 'corn', 'cucumber', 'dill', 'eggplant', 'garlic', 'ginger', 'grape', 'green bean', 'herb', 'jalapeno', 'kale', 'leek', 'lemon', 'lettuce', 'lime', 'mango', 'mint', 'mushroom', 'onion', 'orange', 'parsley', 'peach', 'pear', 'pepper', 'pineapple', 'potato', 'rosemary', 'scallion', 'shallot', 'spinach', 'squash', 'strawberry', 'sweet potato', 'thyme', 'tomato', 'zucchini', 'arugula', 'asparagus', 'beet', 'chive', 'radish', 'greens']
+  },
+  {
+    id: 'bakery',
+    label: 'Bakery',
+    keywords: ['bagel', 'baguette', 'bread', 'brioche', 'bun', 'ciabatta', 'croissant', 'english muffin', 'naan', 'pita', 'roll', 'sourdough', 'tortilla']
+  },
+  {
+    id: 'deli',
+    label: 'Deli',
+    keywords: ['deli meat', 'ham', 'hummus', 'prosciutto', 'salami', 'pepperoni', 'pancetta', 'rotisserie chicken', 'sliced turkey']
+  },
+  {
+    id: 'meat',
+    label: 'Meat',
+    keywords: ['bacon', 'beef', 'chicken', 'chorizo', 'ground beef', 'ground turkey', 'lamb', 'meat', 'pork', 'sausage', 'steak', 'turkey', 'veal', 'tofu', 'tempeh']
+  },
+  {
+    id: 'seafood',
+    label: 'Seafood',
+    keywords: ['cod', 'crab', 'fish', 'halibut', 'lobster', 'mussel', 'salmon', 'scallop', 'shrimp', 'tilapia', 'tuna', 'clam', 'bass']
+  },
+  {
+    id: 'dairy',
+    label: 'Dairy & Eggs',
+    keywords: ['butter', 'buttermilk', 'cheddar', 'cheese', 'cottage cheese', 'cream', 'cream cheese', 'egg', 'feta', 'half and half', 'heavy cream', 'milk', 'mozzarella', 'parmesan', 'ricotta', 'sour cream', 'yogurt', 'almond milk', 'oat milk']
+  },
+  {
+    id: 'frozen',
+    label: 'Frozen',
+    keywords: ['ice cream', 'ice', 'popsicle', 'sorbet', 'tater tot']
+  },
+  {
+    id: 'pantry',
+    label: 'Pantry Staples',
+    keywords: ['bean', 'black bean', 'broth', 'canned tomato', 'chickpea', 'coconut milk', 'couscous', 'crushed tomato', 'diced tomato', 'lentil', 'macaroni', 'noodle', 'oats', 'pasta', 'penne', 'quinoa', 'rice', 'spaghetti', 'stock', 'tomato paste', 'tomato sauce', 'chicken broth', 'beef broth', 'vegetable broth', 'chicken stock', 'cereal', 'breadcrumb', 'panko', 'peanut butter', 'jam', 'honey', 'maple syrup', 'nut', 'almond', 'walnut', 'pecan', 'cashew']
+  },
+  {
+    id: 'baking_spices',
+    label: 'Baking & Spices',
+    keywords: ['baking powder', 'baking soda', 'black pepper', 'brown sugar', 'chili powder', 'cinnamon', 'cocoa', 'cornstarch', 'cumin', 'flour', 'garlic powder', 'nutmeg', 'onion powder', 'oregano', 'paprika', 'powdered sugar', 'red pepper flakes', 'salt', 'spice', 'sugar', 'turmeric', 'vanilla', 'vanilla extract', 'yeast', 'chocolate chip', 'bay leaf', 'curry powder', 'italian seasoning', 'seasoning']
+  },
+  {
+    id: 'condiments',
+    label: 'Oils, Sauces & Condiments',
+    keywords: ['barbecue sauce', 'hot sauce', 'ketchup', 'mayonnaise', 'mustard', 'oil', 'olive oil', 'salsa', 'sauce', 'soy sauce', 'sriracha', 'vinegar', 'worcestershire sauce', 'dressing', 'fish sauce', 'oyster sauce', 'hoisin sauce', 'pesto']
+  },
+  {
+    id: 'snacks',
+    label: 'Snacks',
+    keywords: ['chip', 'cracker', 'granola', 'popcorn', 'pretzel', 'cookie', 'dried fruit', 'raisin']
+  },
+  {
+    id: 'beverages',
+    label: 'Beverages',
+    keywords: ['beer', 'coffee', 'juice', 'soda', 'sparkling water', 'tea', 'wine', 'orange juice']
+  },
+  {
+    id: 'other',
+    label: 'Other',
+    keywords: []
+  },
+];
+
+// Free-text Ingredient.category values (recipe agent, seeds, imports) → section, for names no keyword matches
+const CATEGORY_SECTIONS: Record<string, StoreSectionId> = {
+  meat: 'meat',
+  protein: 'meat',
+  seafood: 'seafood',
+  dairy: 'dairy',
+  vegetable: 'produce',
+  vegetables: 'produce',
+  fruit: 'produce',
+  fruits: 'produce',
+  produce: 'produce',
+  grain: 'pantry',
+  grains: 'pantry',
+  pantry: 'pantry',
+  spice: 'baking_spices',
+  spices: 'baking_spices',
+  baking: 'baking_spices',
+  condiment: 'condiments',
+  condiments: 'condiments',
+  frozen: 'frozen',
+  bakery: 'bakery',
+  beverage: 'beverages',
+  beverages: 'beverages',
+  snack: 'snacks',
+  snacks: 'snacks',
+};
+
+export function isStoreSectionId(value: string): value is StoreSectionId {
+  return (STORE_SECTION_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Store section for an ingredient. The longest keyword found in the name wins, so "peanut butter"
+ * is pantry rather than dairy and "chicken broth" is pantry rather than meat. Names no keyword
+ * matches fall back on the ingredient's free-text category, then "other".
+ */
+export function detectStoreSection(ingredientName: string, category?: string | null): StoreSectionId {
+  const name = ` ${ingredientName.toLowerCase().replace(/[^a-z0-9\s]+/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+  let best: { id: StoreSectionId; length: number } | null = null;
+  for (const section of STORE_SECTIONS) {
+    for (const keyword of section.keywords) {
+      if (name.includes(` ${keyword} `) && (!best || keyword.length > best.length)) {
+        best = { id: section.id, length: keyword.length };
+      }
+    }
+  }
+  if (best) {
+    return best.id;
+  }
+
+  return (category && CATEGORY_SECTIONS[category.trim().toLowerCase()]) || 'other';
+}
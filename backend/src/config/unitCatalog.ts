@@ -0,0 +1,105 @@
+// Unit Catalog Configuration
+// Canonical units, their aliases and the standard conversions between them.
+// Seeded into the Unit/UnitConversion tables by prisma/migrateQuantities.ts
+
+export interface UnitDefinition {
+  name: string;
+  abbreviation: string; // Canonical unit stored on quantities
+  pluralName: string;
+  type: 'volume' | 'weight' | 'count';
+  system: 'metric' | 'imperial' | 'count';
+  aliases: string[]; // Lowercase spellings that map to this unit
+  isCommon?: boolean;
+}
+
+export interface ConversionDefinition {
+  from: string; // Unit abbreviation
+  to: string;
+  fromAmount?: number;
+  toAmount: number;
+  isApproximate?: boolean;
+  notes?: string;
+}
+
+export interface DensityDefinition {
+  ingredientPatterns: string[]; // Ingredient names the density applies to
+  gramsPerCup: number;
+  notes: string;
+}
+
+export const UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Volume
+  { name: 'teaspoon', abbreviation: 'tsp', pluralName: 'teaspoons', type: 'volume', system: 'imperial', aliases: ['tsp', 'tsps', 'teaspoon', 'teaspoons'] },
+  { name: 'tablespoon', abbreviation: 'tbsp', pluralName: 'tablespoons', type: 'volume', system: 'imperial', aliases: ['tbsp', 'tbsps', 'tbs', 'tbl', 'tablespoon', 'tablespoons'] },
+  { name: 'fluid ounce', abbreviation: 'fl oz', pluralName: 'fluid ounces', type: 'volume', system: 'imperial', aliases: ['fl oz', 'fl. oz', 'fl. oz.', 'floz', 'fluid ounce', 'fluid ounces'] },
+  { name: 'cup', abbreviation: 'cup', pluralName: 'cups', type: 'volume', system: 'imperial', aliases: ['c', 'cup', 'cups'] },
+  { name: 'pint', abbreviation: 'pt', pluralName: 'pints', type: 'volume', system: 'imperial', aliases: ['pt', 'pint', 'pints'] },
+  { name: 'quart', abbreviation: 'qt', pluralName: 'quarts', type: 'volume', system: 'imperial', aliases: ['qt', 'qts', 'quart', 'quarts'] },
+  { name: 'gallon', abbreviation: 'gal', pluralName: 'gallons', type: 'volume', system: 'imperial', aliases: ['gal', 'gallon', 'gallons'] },
+  { name: 'milliliter', abbreviation: 'ml', pluralName: 'milliliters', type: 'volume', system: 'metric', aliases: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { name: 'liter', abbreviation: 'L', pluralName: 'liters', type: 'volume', system: 'metric', aliases: ['l', 'liter', 'liters', 'litre', 'litres'] },
+
+  // Weight
+  { name: 'gram', abbreviation: 'g', pluralName: 'grams', type: 'weight', system: 'metric', aliases: ['g', 'gr', 'gram', 'grams'] },
+  { name: 'kilogram', abbreviation: 'kg', pluralName: 'kilograms', type: 'weight', system: 'metric', aliases: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+  { name: 'ounce', abbreviation: 'oz', pluralName: 'ounces', type: 'weight', system: 'imperial', aliases: ['oz', 'ounce', 'ounces'] },
+  { name: 'pound', abbreviation: 'lb', pluralName: 'pounds', type: 'weight', system: 'imperial', aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+
+  // Count
+  { name: 'count', abbreviation: 'count', pluralName: 'count', type: 'count', system: 'count', aliases: ['', 'count', 'ct', 'each', 'ea', 'piece', 'pieces', 'pc', 'pcs', 'whole', 'item', 'items'] },
+  { name: 'clove', abbreviation: 'clove', pluralName: 'cloves', type: 'count', system: 'count', aliases: ['clove', 'cloves'] },
+  { name: 'can', abbreviation: 'can', pluralName: 'cans', type: 'count', system: 'count', aliases: ['can', 'cans', 'tin', 'tins'] },
+  { name: 'package', abbreviation: 'package', pluralName: 'packages', type: 'count', system: 'count', aliases: ['package', 'packages', 'pkg', 'pkgs', 'pack', 'packs', 'bag', 'bags', 'box', 'boxes'] },
+  { name: 'bunch', abbreviation: 'bunch', pluralName: 'bunches', type: 'count', system: 'count', aliases: ['bunch', 'bunches'] },
+  { name: 'slice', abbreviation: 'slice', pluralName: 'slices', type: 'count', system: 'count', aliases: ['slice', 'slices'] },
+  { name: 'pinch', abbreviation: 'pinch', pluralName: 'pinches', type: 'count', system: 'count', aliases: ['pinch', 'pinches', 'dash', 'dashes'], isCommon: false }
+];
+
+export const CONVERSION_DEFINITIONS: ConversionDefinition[] = [
+  { from: 'tbsp', to: 'tsp', toAmount: 3 },
+  { from: 'fl oz', to: 'tbsp', toAmount: 2 },
+  { from: 'cup', to: 'fl oz', toAmount: 8 },
+  { from: 'pt', to: 'cup', toAmount: 2 },
+  { from: 'qt', to: 'pt', toAmount: 2 },
+  { from: 'gal', to: 'qt', toAmount: 4 },
+  { from: 'cup', to: 'ml', toAmount: 236.588 },
+  { from: 'L', to: 'ml', toAmount: 1000 },
+  { from: 'kg', to: 'g', toAmount: 1000 },
+  { from: 'lb', to: 'oz', toAmount: 16 },
+  { from: 'oz', to: 'g', toAmount: 28.3495 },
+  { from: 'pinch', to: 'tsp', toAmount: 0.0625, isApproximate: true, notes: 'A pinch is roughly 1/16 teaspoon' }
+];
+
+// Typical densities, seeded as ingredient-specific cup → gram conversions
+export const DENSITY_DEFINITIONS: DensityDefinition[] = [
+  { ingredientPatterns: ['water', 'milk', 'chicken broth', 'chicken stock', 'beef broth', 'beef stock', 'vegetable broth'], gramsPerCup: 240, notes: 'Water-like liquid' },
+  { ingredientPatterns: ['olive oil', 'vegetable oil', 'neutral oil', 'canola oil', 'sesame oil'], gramsPerCup: 218, notes: 'Cooking oil' },
+  { ingredientPatterns: ['heavy cream', 'cream'], gramsPerCup: 238, notes: 'Heavy cream' },
+  { ingredientPatterns: ['butter'], gramsPerCup: 227, notes: 'Butter, 2 sticks per cup' },
+  { ingredientPatterns: ['all-purpose flour', 'flour'], gramsPerCup: 125, notes: 'All-purpose flour, spooned and leveled' },
+  { ingredientPatterns: ['sugar', 'granulated sugar', 'white sugar'], gramsPerCup: 200, notes: 'Granulated sugar' },
+  { ingredientPatterns: ['brown sugar'], gramsPerCup: 213, notes: 'Brown sugar, packed' },
+  { ingredientPatterns: ['honey', 'maple syrup'], gramsPerCup: 340, notes: 'Honey / syrup' },
+  { ingredientPatterns: ['rice', 'white rice', 'brown rice'], gramsPerCup: 185, notes: 'Uncooked rice' },
+  { ingredientPatterns: ['rolled oats', 'oats'], gramsPerCup: 90, notes: 'Rolled oats' },
+  { ingredientPatterns: ['salt', 'sea salt', 'kosher salt'], gramsPerCup: 273, notes: 'Table salt; kosher salt is lighter' },
+  { ingredientPatterns: ['soy sauce'], gramsPerCup: 255, notes: 'Soy sauce' },
+  { ingredientPatterns: ['shredded cheese', 'cheddar cheese', 'mozzarella cheese'], gramsPerCup: 113, notes: 'Shredded cheese, loosely packed' }
+];
+
+// Cookbook shorthand where case matters ("1 T sugar" vs "1 t salt"), resolved before aliases,
+// which are lowercase
+export const CASE_SENSITIVE_UNITS: Record<string, string> = { T: 'tbsp', Tb: 'tbsp', t: 'tsp' };
+
+/**
+ * Find the canonical unit definition for a unit spelling
+ */
+export function findUnitDefinition(unit: string): UnitDefinition | undefined {
+  const caseSensitive = CASE_SENSITIVE_UNITS[unit.trim()];
+  if (caseSensitive) {
+    return UNIT_DEFINITIONS.find(def => def.abbreviation === caseSensitive);
+  }
+
+  const normalized = unit.toLowerCase().trim().replace(/\s+/g, ' ');
+  return UNIT_DEFINITIONS.find(def => def.aliases.includes(normalized) || def.abbreviation.toLowerCase() === normalized);
+}
@@ -21,7 +21,10 @@ import inventoryRoutes from './routes/inventory.js';
 import mealPlanningRoutes from './routes/mealPlanning.js';
 import recipeCustomizationRoutes from './routes/recipeCustomization.js';
 import creditRoutes from './routes/credits.js';
+import householdRoutes from './routes/households.js';
+import groceryRoutes from './routes/grocery.js';
 import revenuecatWebhookRoutes from './routes/webhooks/revenuecat.js';
+import { startEmbeddingRefreshJob, stopEmbeddingRefreshJob } from './services/recipeEmbeddingService.js';
 
 // Load environment variables from root directory
 dotenv.config({ path: '../.env' });
@@ -37,7 +40,7 @@ export const prisma = new PrismaClient({
 });
 
 // Initialize Express app
-const app: Application = express();
+export const app: Application = express();
 const PORT = Number(process.env.PORT) || 3000;
 
 // Trust proxy - needed for rate limiting and IP detection behind proxies/load balancers
@@ -122,6 +125,7 @@ app.use('/api/ingredients', ingredientsRoutes);
 app.use('/api/demo', demoRoutes);
 app.use('/api/walmart', walmartRoutes);
 app.use('/api/cart', cartRoutes);
+app.use('/api/grocery', groceryRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/agent', recipeAgentRoutes);
 app.use('/api/preferences', preferencesRoutes);
@@ -129,6 +133,7 @@ app.use('/api/inventory', inventoryRoutes);
 app.use('/api/meal-plans', mealPlanningRoutes);
 app.use('/api', recipeCustomizationRoutes);
 app.use('/api/credits', creditRoutes);
+app.use('/api/households', householdRoutes);
 app.use('/api/webhooks/revenuecat', revenuecatWebhookRoutes);
 
 // Root endpoint
@@ -164,29 +169,43 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   });
 });
 
-// Start server - Listen on all network interfaces (0.0.0.0)
-const server = app.listen(PORT, '0.0.0.0', () => {
-  const networkIP = process.env.HOST_IP || getLocalNetworkIP();
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔗 Local: http://localhost:${PORT}`);
-  console.log(`🌐 Network: http://${networkIP}:${PORT}`);
-  console.log(`🌐 Listening on: 0.0.0.0:${PORT}`);
-  console.log(`📱 Use network URL for mobile devices`);
-  console.log(`✅ Server is ready to accept connections`);
-});
-
-// Graceful shutdown
-const gracefulShutdown = async () => {
-  console.log('\n🛑 Shutting down gracefully...');
-  server.close(async () => {
-    await prisma.$disconnect();
-    console.log('✅ Server closed');
-    process.exit(0);
+/**
+ * Start listening and register shutdown handlers
+ */
+function startServer() {
+  // Start server - Listen on all network interfaces (0.0.0.0)
+  const server = app.listen(PORT, '0.0.0.0', () => {
+    const networkIP = process.env.HOST_IP || getLocalNetworkIP();
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`🔗 Local: http://localhost:${PORT}`);
+    console.log(`🌐 Network: http://${networkIP}:${PORT}`);
+    console.log(`🌐 Listening on: 0.0.0.0:${PORT}`);
+    console.log(`📱 Use network URL for mobile devices`);
+    console.log(`✅ Server is ready to accept connections`);
+
+    // Background job: embeds new and changed recipes for semantic search
+    startEmbeddingRefreshJob();
   });
-};
 
-process.on('SIGTERM', gracefulShutdown);
-process.on('SIGINT', gracefulShutdown);
+  // Graceful shutdown
+  const gracefulShutdown = async () => {
+    console.log('\n🛑 Shutting down gracefully...');
+    stopEmbeddingRefreshJob();
+    server.close(async () => {
+      await prisma.$disconnect();
+      console.log('✅ Server closed');
+      process.exit(0);
+    });
+  };
+
+  process.on('SIGTERM', gracefulShutdown);
+  process.on('SIGINT', gracefulShutdown);
+}
+
+// Tests import the app and serve it on their own port
+if (process.env.NODE_ENV !== 'test') {
+  startServer();
+}
 
 export default app;
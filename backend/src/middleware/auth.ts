@@ -63,3 +63,25 @@ export const authMiddleware = (
     });
   }
 };
+
+/**
+ * Attach the user when a valid token is sent, but let anonymous requests through
+ */
+export const optionalAuthMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const authHeader = req.headers.authorization;
+  const secret = process.env.JWT_SECRET;
+
+  if (authHeader && authHeader.startsWith('Bearer ') && secret) {
+    try {
+      req.user = jwt.verify(authHeader.replace('Bearer ', ''), secret) as JWTPayload;
+    } catch {
+      // Invalid tokens are treated as anonymous
+    }
+  }
+
+  next();
+};
@@ -1,13 +1,56 @@
 // Cart routes for shopping cart functionality
-// Handles cart generation from recipes, Walmart product enrichment, and checkout
+// Handles cart generation from recipes, grocery provider product enrichment, and checkout
 import { Router, Request, Response } from 'express';
 import { prisma } from '../index.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth.js';
 import { combineIngredients, normalizeUnit } from '../utils/unitConversion.js';
-import { createConsolidatedCart, searchWalmartProducts, type WalmartCartItem } from '../services/walmart.js';
 import { parseProductSize, calculatePackageQuantity } from '../utils/productSizeCalculator.js';
 import { detectSimilarIngredients, applyMergeDecisions, type PotentialMerge, type CartItem } from '../services/ingredientSimilarity.js';
-import { calculatePurchaseCount } from '../services/unitConversionService.js';
+import {
+  getGroceryProvider,
+  resolveGroceryProvider,
+  type PricedIngredient,
+  type ProviderCartItem
+} from '../services/groceryProvider.js';
+import { recordAndComparePrices, summarizeCartPrices, type PriceComparison } from '../services/priceHistoryService.js';
+import { getOwnerScope, scopeWhere } from '../services/householdService.js';
+import { parseQuantity, toQuantityColumns } from '../utils/quantity.js';
+import { getServingsScale } from '../utils/recipeScaling.js';
+import { allocatePantry, coverFromPantry, ITEMS_TO_BUY, type ExpiredPantryItem, type PantryCoverage, type PantryNeed } from '../services/pantryAllocationService.js';
+import { convertQuantity } from '../services/unitConversionService.js';
+import { startOfDay, endOfWeek } from 'date-fns';
+import {
+  listShoppingListHistory,
+  reopenShoppingList,
+  getFrequentlyBought,
+  buyAgain,
+  type BuyAgainSelection,
+} from '../services/shoppingListHistoryService.js';
+import {
+  addManualItem,
+  removeCartItem,
+  listStaples,
+  createStaple,
+  updateStaple,
+  deleteStaple,
+  addStaplesToCart,
+  getDueStaples,
+  carriedItemData,
+  isRecipeItem,
+  toSourceCartItem,
+  type ItemWithIngredient,
+  type StapleWithDue,
+} from '../services/cartItemService.js';
+import {
+  addRecipesToCart,
+  addMealPlanToCart,
+  removeRecipeFromCart,
+  recordRecipeContributions,
+  carryOverRecipeContributions,
+  listCartRecipes,
+  CART_ITEM_INCLUDE,
+  type CartRecipeInput,
+} from '../services/cartUpdateService.js';
 
 const router = Router();
 
@@ -60,6 +103,7 @@ async function chargeRecipeUsageCredits(userId: string, recipeData: any[]): Prom
 export interface RecipeSelection {
   recipeId: string;
   quantity: number;
+  servings?: number; // Cook at this many servings instead of recipe.servings
 }
 
 export interface CartResponse {
@@ -68,9 +112,12 @@ export interface CartResponse {
     recipeId: string;
     recipeTitle: string;
     quantity: number;
+    servings?: number;
   }>;
   ingredients: CartItem[];
   potentialMerges: PotentialMerge[];
+  suggestedStaples: StapleWithDue[]; // Due staples not on the cart
+  expiredInventory: ExpiredPantryItem[]; // Pantry items not counted against the cart because they've expired
   createdAt: Date;
 }
 
@@ -82,13 +129,21 @@ export interface CartResponse {
  * 1. Fetch all selected recipes with their ingredients
  * 2. Aggregate ingredients, combining quantities where possible
  * 3. Detect similar ingredients that could be merged (auto-merge ≥95% confidence)
- * 4. Return cart with ingredients and suggested merges for user review
+ * 4. With excludePantry, buy only the shortfall after the pantry. The selected recipes are
+ *    cooked after this week's planned meals, which get the pantry first.
+ * 5. Return cart with ingredients and suggested merges for user review.
+ *    Items the pantry fully covers are saved (toBuyAmount 0) but not returned.
+ * With clearCart false, the old cart's items, recipes and their shares move to the new cart.
  *
- * Body: { recipes: [{ recipeId: string, quantity: number }] }
+ * Body: { recipes: [{ recipeId: string, quantity: number, servings?: number }], clearCart?: boolean, excludePantry?: boolean }
  */
 router.post('/generate', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { recipes, clearCart = true } = req.body as { recipes: RecipeSelection[]; clearCart?: boolean };
+    const { recipes, clearCart = true, excludePantry = false } = req.body as {
+      recipes: RecipeSelection[];
+      clearCart?: boolean;
+      excludePantry?: boolean;
+    };
 
     if (!recipes || !Array.isArray(recipes) || recipes.length === 0) {
       return res.status(400).json({ error: 'Recipes array is required' });
@@ -114,6 +169,7 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
     }
 
     const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
 
     // Recipe use is FREE for competition - never gate the path to Walmart checkout
     // Re-enable post-competition with creator economy:
@@ -123,10 +179,17 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
     // Build ingredient map (combining quantities from multiple recipes)
     const ingredientMap = new Map<string, CartItem>();
 
+    // For pantry subtraction: the selected recipes' needs, and the pantry the old cart counted on
+    const pantryWindow = { from: startOfDay(new Date()), to: endOfWeek(new Date()) };
+    const pantryNeeds: PantryNeed[] = [];
+    const reserved: PantryNeed[] = [];
+    let sourceItems: ItemWithIngredient[] = [];
+    let carriedCartId: string | null = null;
+
     // If not clearing cart, load existing active cart items and merge them
     if (!clearCart) {
       const existingCart = await prisma.shoppingList.findFirst({
-        where: { userId, isActive: true },
+        where: { ...scopeWhere(scope), isActive: true },
         include: {
           items: {
             include: {
@@ -138,8 +201,19 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
 
       if (existingCart && existingCart.items.length > 0) {
         console.log(`Merging with existing cart (${existingCart.items.length} items)`);
+        carriedCartId = existingCart.id;
+        // Manual and staple items are carried over as they are
+        sourceItems = existingCart.items.filter(item => !isRecipeItem(item));
         for (const item of existingCart.items) {
+          if (!isRecipeItem(item)) continue;
           const amount = parseFloat(item.totalAmount);
+          if (item.usePantry && item.onHandAmount) {
+            reserved.push({
+              ingredientId: item.ingredient.id,
+              quantity: { value: item.onHandAmount, unit: item.unit, approximate: false },
+              date: pantryWindow.from,
+            });
+          }
           ingredientMap.set(item.ingredient.id, {
             ingredientId: item.ingredient.id,
             ingredientName: item.ingredient.name,
@@ -163,7 +237,8 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
       const recipe = recipeData.find(r => r.id === recipeSelection.recipeId);
       if (!recipe) continue;
 
-      const multiplier = recipeSelection.quantity; // How many times we're making this recipe
+      // How many times we're making this recipe, scaled to the requested servings
+      const multiplier = recipeSelection.quantity * (recipeSelection.servings ? getServingsScale(recipe.servings, recipeSelection.servings) : 1);
 
       for (const ri of recipe.recipeIngredients) {
         const ingredientId = ri.ingredient.id;
@@ -171,6 +246,11 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
         const amount = ri.amount * multiplier;
         const unit = ri.unit;
 
+        const quantity = parseQuantity(amount, unit);
+        if (quantity) {
+          pantryNeeds.push({ ingredientId, quantity, date: pantryWindow.to });
+        }
+
         if (ingredientMap.has(ingredientId)) {
           // Combine with existing ingredient
           const existing = ingredientMap.get(ingredientId)!;
@@ -253,40 +333,80 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
     // Combine auto-merged + non-matched ingredients for the final cart
     const finalIngredients = [...mergeResult.autoMerged, ...mergeResult.noMerge];
 
+    // Buy only the shortfall. Old cart amounts were already worked out against the pantry,
+    // so only the newly added part of each item is covered.
+    const coverage = new Map<CartItem, PantryCoverage>();
+    let expiredInventory: ExpiredPantryItem[] = [];
+    if (excludePantry) {
+      const allocation = await allocatePantry(scope, pantryNeeds, { ...pantryWindow, reserved });
+      expiredInventory = allocation.expired;
+      for (const item of finalIngredients) {
+        const carriedAmount = (item.recipeBreakdown || [])
+          .filter(entry => entry.recipeId === 'existing')
+          .reduce((sum, entry) => {
+            const quantity = parseQuantity(entry.amount, entry.unit);
+            const converted = quantity && convertQuantity(allocation.table, quantity, item.unit, item.ingredientId);
+            return sum + (converted ? converted.value : 0);
+          }, 0);
+        coverage.set(item, coverFromPantry(allocation, item.ingredientId, item.amount, item.unit, {
+          neededAmount: carriedAmount,
+          onHandAmount: 0,
+          toBuyAmount: carriedAmount,
+        }));
+      }
+    }
+
     console.log(`Auto-merged ${mergeResult.autoMerged.length} ingredient groups`);
     console.log(`Final ingredient count: ${finalIngredients.length}`);
     console.log(`Potential merges for user review: ${mergeResult.suggestedMerges.length}`);
 
     // Calculate default purchase quantities for each ingredient
     // Keep original units until enriched with Walmart data
-    const ingredientsWithPurchaseQty = finalIngredients.map((ingredient) => ({
-      ...ingredient,
-      purchaseQuantity: ingredient.amount, // Default to recipe amount
-      purchaseUnit: ingredient.unit, // Keep original unit for now
-    }));
+    const ingredientsWithPurchaseQty = finalIngredients
+      .filter(ingredient => coverage.get(ingredient)?.toBuyAmount !== 0)
+      .map((ingredient) => {
+        const pantry = coverage.get(ingredient);
+        const amount = pantry ? pantry.toBuyAmount : ingredient.amount;
+        return {
+          ...ingredient,
+          ...pantry,
+          amount,
+          purchaseQuantity: amount, // Default to recipe amount, less what the pantry covers
+          purchaseUnit: ingredient.unit, // Keep original unit for now
+        };
+      });
 
     // Persist to database — deactivate any existing active cart (always clear), then create new one
     // Note: Even when clearCart=false, we deactivate the old cart because we've merged its items into the new cart
     await prisma.shoppingList.updateMany({
-      where: { userId, isActive: true },
+      where: { ...scopeWhere(scope), isActive: true },
       data: { isActive: false },
     });
 
     const shoppingList = await prisma.shoppingList.create({
       data: {
         userId,
+        householdId: scope.householdId,
         mealPlanId: null,
         source: 'recipe_selection',
         isActive: true,
         totalEstimatedCost: 0,
         items: {
-          create: finalIngredients.map(item => ({
-            ingredientId: item.ingredientId,
-            totalAmount: item.amount.toString(),
-            unit: item.unit,
-            walmartItemId: item.walmartItemId || null,
-            estimatedPrice: null,
-          })),
+          create: [...finalIngredients.map(item => {
+            const pantry = coverage.get(item);
+            const amount = pantry ? pantry.toBuyAmount : item.amount;
+            return {
+              ingredientId: item.ingredientId,
+              totalAmount: amount.toString(),
+              unit: item.unit,
+              ...toQuantityColumns(parseQuantity(amount, item.unit)),
+              neededAmount: pantry?.neededAmount ?? null,
+              onHandAmount: pantry?.onHandAmount ?? null,
+              toBuyAmount: pantry?.toBuyAmount ?? null,
+              walmartItemId: item.walmartItemId || null,
+              estimatedPrice: null,
+            };
+          }), ...sourceItems.map(carriedItemData)],
         },
         mergeOptions: {
           create: mergeResult.suggestedMerges.map(merge => ({
@@ -300,17 +420,28 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
       },
     });
 
+    // So recipes can later be added to or taken off this cart one at a time
+    await recordRecipeContributions(
+      shoppingList.id,
+      recipes.filter(r => recipeData.some(rd => rd.id === r.recipeId)),
+      finalIngredients
+    );
+    if (carriedCartId) {
+      await carryOverRecipeContributions(carriedCartId, shoppingList.id);
+    }
+
     console.log(`Shopping list ${shoppingList.id} created from recipe selection`);
 
     const response: CartResponse = {
       shoppingListId: shoppingList.id,
-      recipes: recipes.map(r => ({
-        recipeId: r.recipeId,
-        recipeTitle: recipeData.find(rd => rd.id === r.recipeId)?.title || '',
-        quantity: r.quantity,
+      recipes: (await listCartRecipes(shoppingList.id)).map(r => ({
+        ...r,
+        servings: r.servings ?? undefined,
       })),
-      ingredients: ingredientsWithPurchaseQty,
+      ingredients: [...ingredientsWithPurchaseQty, ...sourceItems.map(toSourceCartItem)],
       potentialMerges: mergeResult.suggestedMerges,
+      suggestedStaples: await getDueStaples(userId, [...finalIngredients, ...sourceItems]),
+      expiredInventory,
       createdAt: new Date(),
     };
 
@@ -323,23 +454,34 @@ router.post('/generate', authMiddleware, async (req: Request, res: Response) =>
 
 /**
  * GET /api/cart/active
- * Get the user's currently active shopping cart/list
- * Returns the active ShoppingList with items and merge options, or null
+ * Get the user's currently active shopping cart/list (shared with their household)
+ * Returns the active ShoppingList with items (and each recipe's share of them), its recipes and
+ * merge options, or null, and the user's due staples that aren't on it. Items the pantry fully
+ * covers are left out unless their pantry toggle is off.
  */
 router.get('/active', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
 
     const activeList = await prisma.shoppingList.findFirst({
-      where: { userId, isActive: true },
+      where: { ...scopeWhere(scope), isActive: true },
       include: {
-        items: { include: { ingredient: true } },
+        items: {
+          where: ITEMS_TO_BUY,
+          include: CART_ITEM_INCLUDE,
+        },
+        recipes: {
+          include: { recipe: { select: { title: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
         mergeOptions: true,
         mealPlan: { select: { id: true, name: true } },
       },
     });
 
-    res.json({ shoppingList: activeList });
+    const suggestedStaples = await getDueStaples(req.user!.userId, activeList?.items ?? []);
+
+    res.json({ shoppingList: activeList, suggestedStaples });
   } catch (error) {
     console.error('Error fetching active cart:', error);
     res.status(500).json({ error: 'Failed to fetch active cart' });
@@ -353,10 +495,10 @@ router.get('/active', authMiddleware, async (req: Request, res: Response) => {
  */
 router.delete('/active', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
 
     const result = await prisma.shoppingList.updateMany({
-      where: { userId, isActive: true },
+      where: { ...scopeWhere(scope), isActive: true },
       data: { isActive: false },
     });
 
@@ -368,17 +510,386 @@ router.delete('/active', authMiddleware, async (req: Request, res: Response) =>
 });
 
 /**
- * POST /api/cart/enrich-walmart
- * Enrich cart items with Walmart product data
+ * POST /api/cart/active/recipes
+ * Add recipes to the active cart (starting one if needed) without regenerating it. Only the
+ * new ingredients are checked for similar ones; items already on the cart keep their product
+ * and purchased state.
+ * Returns the change: added and updated items, removed item IDs, new merge suggestions and
+ * the cart's recipes.
+ *
+ * Body: { recipes: [{ recipeId: string, quantity?: number, servings?: number }] }
+ */
+router.post('/active/recipes', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { recipes } = (req.body || {}) as { recipes?: CartRecipeInput[] };
+
+    if (!recipes || !Array.isArray(recipes) || recipes.length === 0) {
+      return res.status(400).json({ error: 'Recipes array is required' });
+    }
+    const invalid = recipes.find(r =>
+      !r || typeof r.recipeId !== 'string'
+      || (r.quantity !== undefined && !(Number.isInteger(r.quantity) && r.quantity > 0))
+      || (r.servings !== undefined && !(Number.isInteger(r.servings) && r.servings > 0))
+    );
+    if (invalid) {
+      return res.status(400).json({ error: 'Each recipe needs a recipeId, and quantity and servings must be positive whole numbers' });
+    }
+
+    const scope = await getOwnerScope(req.user!.userId);
+    const delta = await addRecipesToCart(scope, recipes);
+
+    res.json({ success: true, ...delta });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Recipe not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error adding recipes to cart:', error);
+    res.status(500).json({ error: 'Failed to add recipes to cart' });
+  }
+});
+
+/**
+ * DELETE /api/cart/active/recipes/:recipeId
+ * Take a recipe off the active cart: its share of each item is removed, and items left with
+ * nothing are deleted. Purchased items are kept.
+ */
+router.delete('/active/recipes/:recipeId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = await getOwnerScope(req.user!.userId);
+    const delta = await removeRecipeFromCart(scope, req.params.recipeId as string);
+
+    res.json({ success: true, ...delta });
+  } catch (error) {
+    if (error instanceof Error && ['No active cart', 'Recipe is not on this cart'].includes(error.message)) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error removing recipe from cart:', error);
+    res.status(500).json({ error: 'Failed to remove recipe from cart' });
+  }
+});
+
+/**
+ * POST /api/cart/active/meal-plans/:mealPlanId
+ * Add a meal plan's cooking slots to the active cart without regenerating it
+ * (same response as POST /api/cart/active/recipes)
+ */
+router.post('/active/meal-plans/:mealPlanId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = await getOwnerScope(req.user!.userId);
+    const delta = await addMealPlanToCart(scope, req.params.mealPlanId as string);
+
+    res.json({ success: true, ...delta });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Meal plan not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message === 'This meal plan has no recipes to cook') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error adding meal plan to cart:', error);
+    res.status(500).json({ error: 'Failed to add meal plan to cart' });
+  }
+});
+
+/**
+ * GET /api/cart/history?limit=&offset=
+ * Past shopping lists (including the active one), newest first, with source, item counts,
+ * purchase completion and totals
+ */
+router.get('/history', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = await getOwnerScope(req.user!.userId);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { lists, total } = await listShoppingListHistory(scope, { limit, offset });
+
+    res.json({ success: true, lists, total });
+  } catch (error) {
+    console.error('Error fetching cart history:', error);
+    res.status(500).json({ error: 'Failed to fetch cart history' });
+  }
+});
+
+/**
+ * GET /api/cart/frequently-bought?limit=
+ * Ingredients purchased on two or more past lists, most often bought first
+ */
+router.get('/frequently-bought', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = await getOwnerScope(req.user!.userId);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const items = await getFrequentlyBought(scope, limit);
+
+    res.json({ success: true, items });
+  } catch (error) {
+    console.error('Error fetching frequently bought items:', error);
+    res.status(500).json({ error: 'Failed to fetch frequently bought items' });
+  }
+});
+
+/**
+ * POST /api/cart/history/:id/reopen
+ * Make a past shopping list the active cart again
+ */
+router.post('/history/:id/reopen', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = await getOwnerScope(req.user!.userId);
+    await reopenShoppingList(scope, req.params.id as string);
+
+    res.json({ success: true, shoppingListId: req.params.id });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shopping list not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error reopening shopping list:', error);
+    res.status(500).json({ error: 'Failed to reopen shopping list' });
+  }
+});
+
+/**
+ * POST /api/cart/history/:id/buy-again
+ * Add a past list's items to the active cart
+ *
+ * Body: { items?: 'unpurchased' | 'staples' | 'all' } (default 'unpurchased'; staples are
+ * items the user buys frequently)
+ */
+router.post('/history/:id/buy-again', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { items = 'unpurchased' } = (req.body || {}) as { items?: BuyAgainSelection };
+    if (!['unpurchased', 'staples', 'all'].includes(items)) {
+      return res.status(400).json({ error: "items must be 'unpurchased', 'staples' or 'all'" });
+    }
+
+    const scope = await getOwnerScope(req.user!.userId);
+    const result = await buyAgain(scope, req.params.id as string, items);
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shopping list not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && ['No items to add', 'This list is already the active cart'].includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error adding items from shopping list:', error);
+    res.status(500).json({ error: 'Failed to add items to cart' });
+  }
+});
+
+/**
+ * Validate the optional amount/unit/cadence fields shared by cart items and staples
+ */
+function invalidItemFields(body: { amount?: unknown; unit?: unknown; cadenceDays?: unknown }): string | null {
+  if (body.amount !== undefined && !(typeof body.amount === 'number' && body.amount > 0)) {
+    return 'amount must be a positive number';
+  }
+  if (body.unit !== undefined && typeof body.unit !== 'string') {
+    return 'unit must be a string';
+  }
+  if (body.cadenceDays !== undefined && body.cadenceDays !== null
+    && !(Number.isInteger(body.cadenceDays) && (body.cadenceDays as number) > 0)) {
+    return 'cadenceDays must be a positive whole number of days, or null';
+  }
+  return null;
+}
+
+/**
+ * POST /api/cart/items
+ * Add a free-form item ("paper towels") to the active cart, starting one if needed.
+ * The name is linked to an existing ingredient when it is one.
+ *
+ * Body: { name: string, amount?: number, unit?: string, ingredientId?: string }
+ */
+router.post('/items', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { name, amount, unit, ingredientId } = (req.body || {}) as {
+      name?: string;
+      amount?: number;
+      unit?: string;
+      ingredientId?: string;
+    };
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Item name is required' });
+    }
+    const invalid = invalidItemFields({ amount, unit });
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const scope = await getOwnerScope(req.user!.userId);
+    const item = await addManualItem(scope, { name, amount, unit, ingredientId });
+
+    res.status(201).json({ success: true, item, cartItem: toSourceCartItem(item) });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Ingredient not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error adding cart item:', error);
+    res.status(500).json({ error: 'Failed to add item to cart' });
+  }
+});
+
+/**
+ * DELETE /api/cart/items/:itemId
+ * Remove an item from the cart
+ */
+router.delete('/items/:itemId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = await getOwnerScope(req.user!.userId);
+    await removeCartItem(scope, req.params.itemId as string);
+
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shopping list item not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error removing cart item:', error);
+    res.status(500).json({ error: 'Failed to remove item from cart' });
+  }
+});
+
+/**
+ * GET /api/cart/staples
+ * The user's staples, with when each is next due
+ */
+router.get('/staples', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const staples = await listStaples(req.user!.userId);
+    res.json({ staples });
+  } catch (error) {
+    console.error('Error fetching staples:', error);
+    res.status(500).json({ error: 'Failed to fetch staples' });
+  }
+});
+
+/**
+ * POST /api/cart/staples
+ * Add a staple, suggested into new carts every cadenceDays (or every cart when null)
+ *
+ * Body: { name: string, amount?: number, unit?: string, cadenceDays?: number | null, ingredientId?: string }
+ */
+router.post('/staples', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { name, amount, unit, cadenceDays, ingredientId } = (req.body || {}) as {
+      name?: string;
+      amount?: number;
+      unit?: string;
+      cadenceDays?: number | null;
+      ingredientId?: string;
+    };
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Staple name is required' });
+    }
+    const invalid = invalidItemFields({ amount, unit, cadenceDays });
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const staple = await createStaple(req.user!.userId, { name, amount, unit, cadenceDays, ingredientId });
+    res.status(201).json({ success: true, staple });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Ingredient not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error creating staple:', error);
+    res.status(500).json({ error: 'Failed to create staple' });
+  }
+});
+
+/**
+ * POST /api/cart/staples/add
+ * Put staples on the active cart: the ones given, or every due staple not on it yet
+ *
+ * Body: { stapleIds?: string[] }
+ */
+router.post('/staples/add', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { stapleIds } = (req.body || {}) as { stapleIds?: string[] };
+    if (stapleIds !== undefined && (!Array.isArray(stapleIds) || stapleIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({ error: 'stapleIds must be an array of staple IDs' });
+    }
+
+    const scope = await getOwnerScope(req.user!.userId);
+    const result = await addStaplesToCart(scope, req.user!.userId, stapleIds);
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'No staples to add') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error adding staples to cart:', error);
+    res.status(500).json({ error: 'Failed to add staples to cart' });
+  }
+});
+
+/**
+ * PUT /api/cart/staples/:id
+ * Update a staple
+ *
+ * Body: { name?: string, amount?: number, unit?: string, cadenceDays?: number | null, ingredientId?: string | null }
+ */
+router.put('/staples/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { name, amount, unit, cadenceDays, ingredientId } = (req.body || {}) as {
+      name?: string;
+      amount?: number;
+      unit?: string;
+      cadenceDays?: number | null;
+      ingredientId?: string | null;
+    };
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'Staple name cannot be empty' });
+    }
+    const invalid = invalidItemFields({ amount, unit, cadenceDays });
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const staple = await updateStaple(req.user!.userId, req.params.id as string, { name, amount, unit, cadenceDays, ingredientId });
+    res.json({ success: true, staple });
+  } catch (error) {
+    if (error instanceof Error && (error.message === 'Staple not found' || error.message === 'Ingredient not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error updating staple:', error);
+    res.status(500).json({ error: 'Failed to update staple' });
+  }
+});
+
+/**
+ * DELETE /api/cart/staples/:id
+ * Delete a staple
+ */
+router.delete('/staples/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    await deleteStaple(req.user!.userId, req.params.id as string);
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Staple not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error deleting staple:', error);
+    res.status(500).json({ error: 'Failed to delete staple' });
+  }
+});
+
+/**
+ * Enrich cart items with product data from a grocery provider
  *
  * Process:
- * 1. Search Walmart API for each ingredient
+ * 1. Price each ingredient at the provider (best product match)
  * 2. Calculate how many packages are needed based on product size
- * 3. Add Walmart product data to each cart item
+ * 3. Compare the prices to each ingredient's price history (and record them for signed-in users)
+ * 4. Add product data and a "cheaper than usual" comparison to each cart item
  *
- * Body: { ingredients: CartItem[] }
+ * Walmart results also carry the legacy `walmartProduct` field used by older clients.
  */
-router.post('/enrich-walmart', async (req, res) => {
+async function enrichCartItems(req: Request, res: Response, providerId?: string) {
   try {
     const { ingredients } = req.body as { ingredients: CartItem[] };
 
@@ -386,78 +897,114 @@ router.post('/enrich-walmart', async (req, res) => {
       return res.status(400).json({ error: 'Ingredients array is required' });
     }
 
-    const consumerId = process.env.WALMART_CONSUMER_ID;
-    const privateKey = process.env.WALMART_PRIVATE_KEY;
+    if (providerId && !getGroceryProvider(providerId)) {
+      return res.status(400).json({ error: `Unknown grocery provider: ${providerId}` });
+    }
+
+    const provider = await resolveGroceryProvider(providerId, req.user?.userId);
 
-    if (!consumerId || !privateKey) {
-      return res.status(500).json({ error: 'Walmart API credentials not configured' });
+    if (!provider.isConfigured()) {
+      return res.status(500).json({ error: `${provider.name} is not configured` });
     }
 
-    console.log(`Enriching ${ingredients.length} ingredients with Walmart data`);
+    console.log(`Enriching ${ingredients.length} ingredients with ${provider.name} data`);
 
-    // Search Walmart for each ingredient
-    const enrichedIngredients = await Promise.all(
+    const pricedIngredients = await Promise.all(
       ingredients.map(async (item) => {
         try {
-          // Use existing walmartSearchTerm if available, otherwise use ingredient name + unit
-          const searchTerm = item.walmartSearchTerm || `${item.ingredientName} ${item.amount} ${item.unit}`;
-
-          console.log(`Searching Walmart for: ${searchTerm}`);
-          const searchResult = await searchWalmartProducts(searchTerm, consumerId, privateKey);
-
-          if (searchResult.items && searchResult.items.length > 0) {
-            const product = searchResult.items[0];
-
-            // Calculate package count using database-backed unit conversion service
-            let packageCount = 1;
-            let packageSize = product.size || 'Unknown size';
-            let purchaseUnit = 'count';
-
-            if (product.size) {
-              const purchaseCalc = await calculatePurchaseCount(
-                item.amount,
-                item.unit,
-                product.size,
-                item.ingredientName
-              );
-
-              packageCount = purchaseCalc.packageCount;
-              packageSize = purchaseCalc.packageSize;
-              purchaseUnit = purchaseCalc.packageUnit;
-
-              console.log(`  → ${purchaseCalc.reasoning}`);
-            }
+          const priced = await provider.priceIngredient({
+            name: item.ingredientName,
+            amount: item.amount,
+            unit: item.unit,
+            searchTerm: provider.id === 'walmart' ? item.walmartSearchTerm : null
+          });
 
-            return {
-              ...item,
-              walmartProduct: {
-                itemId: product.itemId,
-                name: product.name,
-                salePrice: product.salePrice,
-                thumbnailImage: product.thumbnailImage,
-                productTrackingUrl: product.productTrackingUrl,
-                size: product.size,
-              },
-              packageCount,
-              packageSize,
-              purchaseUnit, // Display as "count" in frontend
-            };
+          if (priced?.reasoning) {
+            console.log(`  → ${priced.reasoning}`);
           }
 
-          // No Walmart product found
-          return item;
+          return { item, priced };
         } catch (error) {
-          console.error(`Error searching Walmart for ${item.ingredientName}:`, error);
-          return item;
+          console.error(`Error pricing ${item.ingredientName} at ${provider.name}:`, error);
+          return { item, priced: null };
         }
       })
     );
 
-    res.json({ ingredients: enrichedIngredients });
+    // Flag unusual prices; only signed-in runs are recorded in the price history
+    const found = pricedIngredients.filter((entry): entry is { item: CartItem; priced: PricedIngredient } => entry.priced !== null);
+    let comparisons: Array<PriceComparison | null> = found.map(() => null);
+    try {
+      comparisons = await recordAndComparePrices(found.map(({ item, priced }) => ({
+        product: priced.product,
+        ingredientId: item.ingredientId,
+        ingredientName: item.ingredientName,
+      })), { record: Boolean(req.user) });
+    } catch (error) {
+      console.error('Error recording price history:', error);
+    }
+
+    const comparisonFor = new Map(found.map(({ priced }, index) => [priced, comparisons[index]]));
+
+    const enrichedIngredients = pricedIngredients.map(({ item, priced }) => {
+      if (!priced) {
+        // No product found
+        return item;
+      }
+
+      const { product } = priced;
+      return {
+        ...item,
+        providerId: provider.id,
+        product,
+        ...(provider.id === 'walmart' && {
+          walmartProduct: {
+            itemId: Number(product.productId),
+            name: product.name,
+            salePrice: product.price,
+            thumbnailImage: product.imageUrl,
+            productTrackingUrl: product.productUrl,
+            size: product.size,
+          },
+        }),
+        packageCount: priced.packageCount,
+        packageSize: priced.packageSize,
+        purchaseUnit: priced.purchaseUnit, // Display as "count" in frontend
+        priceComparison: comparisonFor.get(priced) ?? null,
+      };
+    });
+
+    const priceSummary = summarizeCartPrices(found.map(({ priced }, index) => ({
+      price: priced.product.price,
+      packageCount: priced.packageCount,
+      comparison: comparisons[index],
+    })));
+
+    res.json({ provider: provider.id, ingredients: enrichedIngredients, priceSummary });
   } catch (error) {
-    console.error('Error enriching cart with Walmart data:', error);
-    res.status(500).json({ error: 'Failed to enrich cart with Walmart data' });
+    console.error('Error enriching cart with product data:', error);
+    res.status(500).json({ error: 'Failed to enrich cart with product data' });
   }
+}
+
+/**
+ * POST /api/cart/enrich
+ * Enrich cart items at the requested store, else the user's preferred store, else the default
+ *
+ * Body: { ingredients: CartItem[], provider?: string }
+ */
+router.post('/enrich', optionalAuthMiddleware, async (req, res) => {
+  await enrichCartItems(req, res, req.body?.provider);
+});
+
+/**
+ * POST /api/cart/enrich-walmart
+ * Enrich cart items with Walmart product data (kept for existing clients)
+ *
+ * Body: { ingredients: CartItem[] }
+ */
+router.post('/enrich-walmart', async (req, res) => {
+  await enrichCartItems(req, res, 'walmart');
 });
 
 /**
@@ -503,45 +1050,63 @@ router.post('/apply-merges', async (req, res) => {
 
 /**
  * POST /api/cart/checkout
- * Create a Walmart consolidated cart and return the checkout URL
+ * Build a cart at a grocery provider and return the checkout details
  *
- * Uses Walmart Affiliate API v2 to create a cart with all items
- * Returns a cart URL that the user can visit to complete their purchase
+ * Walmart returns a consolidated cart URL the user visits to complete their purchase;
+ * the local store returns a priced pickup order.
+ * The provider is taken from the body, else the user's preferred store, else the default.
  *
- * Body: { items: [{ itemId: string, quantity: number }] }
+ * Body: { items: [{ productId: string, quantity: number }], provider?: string }
+ * (Walmart clients may still send `itemId` instead of `productId`)
  */
-router.post('/checkout', async (req, res) => {
+router.post('/checkout', optionalAuthMiddleware, async (req, res) => {
   try {
-    const { items } = req.body as { items: WalmartCartItem[] };
+    const { items, provider: providerId } = req.body as {
+      items: Array<{ productId?: string; itemId?: string | number; quantity: number }>;
+      provider?: string;
+    };
 
     if (!items || !Array.isArray(items) || items.length === 0) {
       return res.status(400).json({ error: 'Items array is required' });
     }
 
-    const consumerId = process.env.WALMART_CONSUMER_ID;
-    const privateKey = process.env.WALMART_PRIVATE_KEY;
-    const publisherId = process.env.WALMART_PUBLISHER_ID; // Optional Impact Radius ID
+    const cartItems: ProviderCartItem[] = items.map(item => ({
+      productId: String(item.productId ?? item.itemId ?? ''),
+      quantity: item.quantity,
+    }));
+
+    if (cartItems.some(item => !item.productId || !(item.quantity > 0))) {
+      return res.status(400).json({ error: 'Each item needs a productId and a positive quantity' });
+    }
+
+    if (providerId && !getGroceryProvider(providerId)) {
+      return res.status(400).json({ error: `Unknown grocery provider: ${providerId}` });
+    }
+
+    const provider = await resolveGroceryProvider(providerId, req.user?.userId);
 
-    if (!consumerId || !privateKey) {
-      return res.status(500).json({ error: 'Walmart API credentials not configured' });
+    if (!provider.isConfigured()) {
+      return res.status(500).json({ error: `${provider.name} is not configured` });
     }
 
-    console.log(`Creating Walmart cart with ${items.length} items`);
+    console.log(`Creating ${provider.name} cart with ${cartItems.length} items`);
 
-    const result = await createConsolidatedCart(items, consumerId, privateKey, publisherId);
+    const result = await provider.buildCart(cartItems);
 
     if (result.error) {
       return res.status(400).json({
         error: result.error,
         message: result.message,
-        details: 'This may require an Impact Radius Publisher ID. Check the logs for details.',
+        ...(provider.id === 'walmart' && {
+          details: 'This may require an Impact Radius Publisher ID. Check the logs for details.',
+        }),
       });
     }
 
     res.json(result);
   } catch (error) {
-    console.error('Error creating Walmart cart:', error);
-    res.status(500).json({ error: 'Failed to create Walmart cart' });
+    console.error('Error creating cart:', error);
+    res.status(500).json({ error: 'Failed to create cart' });
   }
 });
 
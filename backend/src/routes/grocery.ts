@@ -0,0 +1,253 @@
+// Grocery routes
+// Provider-agnostic product search, the user's preferred store and price history
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index.js';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth.js';
+import {
+  getGroceryProvider,
+  listGroceryProviders,
+  getDefaultGroceryProvider,
+  resolveGroceryProvider
+} from '../services/groceryProvider.js';
+import {
+  getPriceHistory,
+  summarizePriceHistory,
+  PRICE_HISTORY_DAYS
+} from '../services/priceHistoryService.js';
+
+const router = Router();
+
+// Validation schemas
+const searchQuerySchema = z.object({
+  q: z.string().min(1),
+  provider: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+const providerQuerySchema = z.object({
+  provider: z.string().optional()
+});
+
+const preferredStoreSchema = z.object({
+  provider: z.string().nullable()
+});
+
+const priceHistoryQuerySchema = z.object({
+  ingredientId: z.string().optional(),
+  name: z.string().min(1).optional(),
+  productId: z.string().optional(),
+  provider: z.string().optional(),
+  days: z.coerce.number().int().min(1).max(365).default(PRICE_HISTORY_DAYS)
+}).refine(query => query.ingredientId || query.name || query.productId, {
+  message: 'ingredientId, name or productId is required'
+});
+
+// GET /api/grocery/providers - List available grocery providers
+router.get('/providers', async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    providers: listGroceryProviders(),
+    defaultProvider: getDefaultGroceryProvider().id
+  });
+});
+
+// GET /api/grocery/preferred-store - Get the user's preferred store
+router.get('/preferred-store', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { preferredGroceryProvider: true }
+    });
+
+    const provider = await resolveGroceryProvider(null, req.user!.userId);
+
+    res.json({
+      success: true,
+      preferredProvider: user?.preferredGroceryProvider ?? null,
+      effectiveProvider: provider.id
+    });
+  } catch (error) {
+    console.error('Error fetching preferred store:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch preferred store'
+    });
+  }
+});
+
+// PUT /api/grocery/preferred-store - Set (or clear with null) the user's preferred store
+router.put('/preferred-store', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { provider } = preferredStoreSchema.parse(req.body);
+
+    if (provider !== null && !getGroceryProvider(provider)) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown grocery provider: ${provider}`
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: req.user!.userId },
+      data: { preferredGroceryProvider: provider }
+    });
+
+    res.json({
+      success: true,
+      preferredProvider: provider,
+      message: provider ? `Preferred store set to ${getGroceryProvider(provider)!.name}` : 'Preferred store cleared'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating preferred store:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update preferred store'
+    });
+  }
+});
+
+// GET /api/grocery/search?q=&provider= - Search products at a store
+router.get('/search', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { q, provider: providerId, limit } = searchQuerySchema.parse(req.query);
+
+    if (providerId && !getGroceryProvider(providerId)) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown grocery provider: ${providerId}`
+      });
+    }
+
+    const provider = await resolveGroceryProvider(providerId, req.user?.userId);
+    if (!provider.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        message: `${provider.name} is not configured`
+      });
+    }
+
+    const result = await provider.search(q);
+
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        items: result.items.slice(0, limit)
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Grocery search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search products',
+      error: error.message
+    });
+  }
+});
+
+// GET /api/grocery/product/:productId?provider= - Get product details
+router.get('/product/:productId', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { provider: providerId } = providerQuerySchema.parse(req.query);
+
+    if (providerId && !getGroceryProvider(providerId)) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown grocery provider: ${providerId}`
+      });
+    }
+
+    const provider = await resolveGroceryProvider(providerId, req.user?.userId);
+    if (!provider.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        message: `${provider.name} is not configured`
+      });
+    }
+
+    const product = await provider.getProduct(req.params.productId as string);
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { product }
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Grocery product lookup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get product details',
+      error: error.message
+    });
+  }
+});
+
+// GET /api/grocery/price-history?ingredientId=&name=&productId=&provider=&days=
+// Price observations for an ingredient or product, with average unit price ($/oz, $/lb, $/fl oz or $/item)
+router.get('/price-history', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const query = priceHistoryQuerySchema.parse(req.query);
+
+    const observations = await getPriceHistory({
+      ingredientId: query.ingredientId,
+      ingredientName: query.name,
+      productId: query.productId,
+      providerId: query.provider,
+      days: query.days
+    });
+
+    res.json({
+      success: true,
+      days: query.days,
+      stats: summarizePriceHistory(observations),
+      observations
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error fetching price history:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch price history'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,431 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index.js';
+import { authMiddleware } from '../middleware/auth.js';
+import {
+  getHouseholdForUser,
+  createHousehold,
+  createInvite,
+  acceptInvite,
+  leaveHousehold
+} from '../services/householdService.js';
+
+const router = Router();
+
+// Validation schemas
+const createHouseholdSchema = z.object({
+  name: z.string().min(1).max(100)
+});
+
+const createInviteSchema = z.object({
+  email: z.string().email().optional(),
+  role: z.enum(['admin', 'member']).default('member')
+});
+
+const acceptInviteSchema = z.object({
+  code: z.string().min(1)
+});
+
+const updateHouseholdSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  creditsPooled: z.boolean().optional()
+});
+
+const creditSharingSchema = z.object({
+  sharesCredits: z.boolean()
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(['owner', 'admin', 'member'])
+});
+
+/**
+ * Load the caller's membership, or send 404 if they have no household
+ */
+async function requireMembership(req: Request, res: Response) {
+  const membership = await prisma.householdMember.findUnique({
+    where: { userId: req.user!.userId }
+  });
+
+  if (!membership) {
+    res.status(404).json({
+      success: false,
+      message: 'You are not in a household'
+    });
+    return null;
+  }
+
+  return membership;
+}
+
+// GET /api/households/me - Get the current user's household
+router.get('/me', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const household = await getHouseholdForUser(req.user!.userId);
+
+    res.json({
+      success: true,
+      household
+    });
+  } catch (error) {
+    console.error('Error fetching household:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch household'
+    });
+  }
+});
+
+// POST /api/households - Create a household (shares the creator's pantry, cart and meal plans)
+router.post('/', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { name } = createHouseholdSchema.parse(req.body);
+
+    const existing = await prisma.householdMember.findUnique({ where: { userId } });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'Leave your current household before creating another'
+      });
+    }
+
+    await createHousehold(userId, name);
+    const household = await getHouseholdForUser(userId);
+
+    res.status(201).json({
+      success: true,
+      household
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error creating household:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create household',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// PATCH /api/households/me - Rename the household or toggle credit pooling (owner only).
+// Pooling only covers members who opted in through PATCH /me/credit-sharing.
+router.patch('/me', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const data = updateHouseholdSchema.parse(req.body);
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    if (membership.role !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the household owner can change household settings'
+      });
+    }
+
+    await prisma.household.update({
+      where: { id: membership.householdId },
+      data
+    });
+
+    res.json({
+      success: true,
+      household: await getHouseholdForUser(req.user!.userId)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating household:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update household'
+    });
+  }
+});
+
+// PATCH /api/households/me/credit-sharing - Opt in to or out of the household credit pool
+router.patch('/me/credit-sharing', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { sharesCredits } = creditSharingSchema.parse(req.body);
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    await prisma.householdMember.update({
+      where: { id: membership.id },
+      data: { sharesCredits }
+    });
+
+    res.json({
+      success: true,
+      household: await getHouseholdForUser(req.user!.userId)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating credit sharing:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update credit sharing'
+    });
+  }
+});
+
+// POST /api/households/me/invites - Invite someone (owner or admin)
+router.post('/me/invites', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const data = createInviteSchema.parse(req.body);
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    if (membership.role === 'member') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only owners and admins can invite members'
+      });
+    }
+
+    const invite = await createInvite(membership.householdId, membership.userId, data.role, data.email);
+
+    res.status(201).json({
+      success: true,
+      invite
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error creating invite:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create invite'
+    });
+  }
+});
+
+// DELETE /api/households/me/invites/:inviteId - Revoke a pending invite (owner or admin)
+router.delete('/me/invites/:inviteId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    if (membership.role === 'member') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only owners and admins can revoke invites'
+      });
+    }
+
+    const result = await prisma.householdInvite.updateMany({
+      where: {
+        id: req.params.inviteId as string,
+        householdId: membership.householdId,
+        status: 'pending'
+      },
+      data: { status: 'revoked' }
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invite not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Invite revoked'
+    });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to revoke invite'
+    });
+  }
+});
+
+// POST /api/households/join - Join a household with an invite code
+router.post('/join', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { code } = acceptInviteSchema.parse(req.body);
+
+    await acceptInvite(userId, code);
+
+    res.json({
+      success: true,
+      household: await getHouseholdForUser(userId)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error joining household:', error);
+    res.status(400).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to join household'
+    });
+  }
+});
+
+// PATCH /api/households/me/members/:userId - Change a member's role (owner only)
+router.patch('/me/members/:userId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { role } = updateMemberSchema.parse(req.body);
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    if (membership.role !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the household owner can change roles'
+      });
+    }
+
+    const target = await prisma.householdMember.findUnique({
+      where: { userId: req.params.userId as string }
+    });
+
+    if (!target || target.householdId !== membership.householdId || target.id === membership.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    // Handing over ownership demotes the current owner to admin
+    await prisma.$transaction([
+      prisma.householdMember.update({
+        where: { id: target.id },
+        data: { role }
+      }),
+      ...(role === 'owner'
+        ? [prisma.householdMember.update({ where: { id: membership.id }, data: { role: 'admin' } })]
+        : [])
+    ]);
+
+    res.json({
+      success: true,
+      household: await getHouseholdForUser(req.user!.userId)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating member role:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update member role'
+    });
+  }
+});
+
+// DELETE /api/households/me/members/:userId - Remove a member (owner, or admin for plain members)
+router.delete('/me/members/:userId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    if (membership.role === 'member') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only owners and admins can remove members'
+      });
+    }
+
+    const target = await prisma.householdMember.findUnique({
+      where: { userId: req.params.userId as string }
+    });
+
+    if (!target || target.householdId !== membership.householdId || target.id === membership.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    if (target.role === 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'The household owner cannot be removed'
+      });
+    }
+
+    if (membership.role === 'admin' && target.role !== 'member') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the household owner can remove admins'
+      });
+    }
+
+    await leaveHousehold(target.userId);
+
+    res.json({
+      success: true,
+      message: 'Member removed'
+    });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove member'
+    });
+  }
+});
+
+// POST /api/households/me/leave - Leave the current household
+router.post('/me/leave', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    await leaveHousehold(membership.userId);
+
+    res.json({
+      success: true,
+      message: 'Left household'
+    });
+  } catch (error) {
+    console.error('Error leaving household:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to leave household'
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index.js';
+import { markNutritionStale } from '../services/nutritionService.js';
+import { detectAllergens } from '../config/allergenCatalog.js';
+import { STORE_SECTION_IDS, detectStoreSection } from '../config/storeSections.js';
+import { canonicalizeIngredientNames } from '../services/ingredientCanonicalizationService.js';
 
 const router = Router();
 
@@ -8,12 +13,14 @@ const router = Router();
 const createIngredientSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   category: z.string().optional(),
+  storeSection: z.enum(STORE_SECTION_IDS).optional(), // Detected from the name when left out
   walmartItemId: z.string().optional(),
   walmartSearchTerm: z.string().optional(),
   caloriesPer100g: z.number().optional(),
   proteinPer100g: z.number().optional(),
   carbsPer100g: z.number().optional(),
   fatPer100g: z.number().optional(),
+  allergens: z.array(z.string().min(1).transform(tag => tag.trim().toLowerCase())).optional(), // Catalog ids or custom tags
 });
 
 // GET /api/ingredients - Get all ingredients
@@ -100,10 +107,11 @@ router.get('/:id', async (req: Request, res: Response) => {
 router.post('/', async (req: Request, res: Response) => {
   try {
     const data = createIngredientSchema.parse(req.body);
+    const [{ name }] = await canonicalizeIngredientNames([data.name]);
 
-    // Check if ingredient already exists
+    // Check if ingredient already exists ("Chicken Breasts" is the existing "chicken breast")
     const existing = await prisma.ingredient.findUnique({
-      where: { name: data.name.toLowerCase() },
+      where: { name },
     });
 
     if (existing) {
@@ -117,7 +125,9 @@ router.post('/', async (req: Request, res: Response) => {
     const ingredient = await prisma.ingredient.create({
       data: {
         ...data,
-        name: data.name.toLowerCase(),
+        name,
+        allergens: data.allergens ?? detectAllergens(name),
+        storeSection: data.storeSection ?? detectStoreSection(name, data.category),
       },
     });
 
@@ -147,12 +157,19 @@ router.post('/', async (req: Request, res: Response) => {
 router.put('/:id', async (req: Request, res: Response) => {
   try {
     const data = createIngredientSchema.partial().parse(req.body);
+    // Same canonical name an upsert of the new name would land on
+    const name = data.name ? (await canonicalizeIngredientNames([data.name]))[0].name : undefined;
 
     const ingredient = await prisma.ingredient.update({
       where: { id: req.params.id as string },
-      data,
+      data: { ...data, name },
     });
 
+    // Recipes using it recompute their macros the next time they're viewed
+    if ([data.caloriesPer100g, data.proteinPer100g, data.carbsPer100g, data.fatPer100g].some(value => value !== undefined)) {
+      await markNutritionStale(ingredient.id);
+    }
+
     res.json({
       success: true,
       message: 'Ingredient updated successfully',
@@ -167,6 +184,13 @@ router.put('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'Another ingredient already uses that name or Walmart item',
+      });
+    }
+
     console.error('Update ingredient error:', error);
     res.status(500).json({
       success: false,
@@ -199,13 +223,16 @@ router.delete('/:id', async (req: Request, res: Response) => {
 router.post('/upsert', async (req: Request, res: Response) => {
   try {
     const data = createIngredientSchema.parse(req.body);
+    const [{ name }] = await canonicalizeIngredientNames([data.name]);
 
     const ingredient = await prisma.ingredient.upsert({
-      where: { name: data.name.toLowerCase() },
-      update: data,
+      where: { name },
+      update: { ...data, name },
       create: {
         ...data,
-        name: data.name.toLowerCase(),
+        name,
+        allergens: data.allergens ?? detectAllergens(name),
+        storeSection: data.storeSection ?? detectStoreSection(name, data.category),
       },
     });
 
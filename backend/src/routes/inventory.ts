@@ -1,11 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { requireCredits } from '../middleware/creditCheck.js';
-import { chargeCredits } from '../services/credit.js';
+import { chargeCredits, getBalance } from '../services/credit.js';
 import { suggestRecipesFromPantry } from '../services/quickCookService.js';
+import { getOwnerScope, scopeWhere, scopeData, ownsResource, type OwnerScope } from '../services/householdService.js';
+import { parseQuantity, toQuantityColumns } from '../utils/quantity.js';
+import { EXPIRING_SOON_DAYS, getDefaultExpiresAt, withExpiryStatus } from '../services/expirationService.js';
 import OpenAI from 'openai';
+import { addDays, endOfDay } from 'date-fns';
+import { resolveIngredient } from '../services/ingredientCanonicalizationService.js';
 
 const router = Router();
 
@@ -30,13 +36,68 @@ const updateInventorySchema = z.object({
   expiresAt: z.string().datetime().optional()
 });
 
-// GET /api/inventory - Get user's current inventory
+const expiringQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(60).default(EXPIRING_SOON_DAYS)
+});
+
+/**
+ * Add an ingredient to the owner's pantry, or restock the row they already have
+ * (one row per ingredient per owner, enforced by unique indexes).
+ */
+async function savePantryItem(
+  scope: OwnerScope,
+  ingredientId: string,
+  item: { amount: string; unit?: string; estimatedGrams?: number; expiresAt: Date | null }
+) {
+  const data = {
+    amount: item.amount,
+    unit: item.unit,
+    ...toQuantityColumns(parseQuantity(item.amount, item.unit)),
+    estimatedGrams: item.estimatedGrams,
+    expiresAt: item.expiresAt,
+    isAvailable: true
+  };
+  // Restocking starts a new shelf life
+  const restock = (id: string) => prisma.userInventory.update({
+    where: { id },
+    data,
+    include: { ingredient: true }
+  });
+
+  const existing = await prisma.userInventory.findFirst({
+    where: { ...scopeWhere(scope), ingredientId }
+  });
+  if (existing) {
+    return { inventory: await restock(existing.id), created: false };
+  }
+
+  try {
+    const inventory = await prisma.userInventory.create({
+      data: { ...scopeData(scope), ingredientId, ...data },
+      include: { ingredient: true }
+    });
+    return { inventory, created: true };
+  } catch (error) {
+    // Added by a concurrent request (a household member, or a receipt import running alongside)
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const added = await prisma.userInventory.findFirst({
+        where: { ...scopeWhere(scope), ingredientId }
+      });
+      if (added) {
+        return { inventory: await restock(added.id), created: false };
+      }
+    }
+    throw error;
+  }
+}
+
+// GET /api/inventory - Get user's current inventory (shared with their household)
 router.get('/', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
     const { available } = req.query;
 
-    const where: any = { userId };
+    const where: any = scopeWhere(scope);
     if (available !== undefined) {
       where.isAvailable = available === 'true';
     }
@@ -51,9 +112,12 @@ router.get('/', authMiddleware, async (req: Request, res: Response) => {
       }
     });
 
+    // Flag expired and soon-to-expire items
+    const now = new Date();
+
     res.json({
       success: true,
-      inventory
+      inventory: inventory.map(item => withExpiryStatus(item, now))
     });
   } catch (error) {
     console.error('Error fetching inventory:', error);
@@ -64,10 +128,56 @@ router.get('/', authMiddleware, async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/inventory/expiring - Get available items that expire soon (or already have)
+router.get('/expiring', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = await getOwnerScope(req.user!.userId);
+    const { days } = expiringQuerySchema.parse(req.query);
+    const now = new Date();
+
+    const items = await prisma.userInventory.findMany({
+      where: {
+        ...scopeWhere(scope),
+        isAvailable: true,
+        expiresAt: { lte: addDays(endOfDay(now), days) }
+      },
+      include: {
+        ingredient: true
+      },
+      orderBy: {
+        expiresAt: 'asc'
+      }
+    });
+
+    const flagged = items.map(item => withExpiryStatus(item, now));
+
+    res.json({
+      success: true,
+      days,
+      expiring: flagged.filter(item => item.expiryStatus !== 'expired'),
+      expired: flagged.filter(item => item.expiryStatus === 'expired')
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error fetching expiring inventory:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch expiring inventory'
+    });
+  }
+});
+
 // POST /api/inventory - Add item to inventory
 router.post('/', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
     const data = addInventorySchema.parse(req.body);
 
     // Check if ingredient exists
@@ -82,62 +192,17 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
       });
     }
 
-    // Check if already in inventory
-    const existing = await prisma.userInventory.findUnique({
-      where: {
-        userId_ingredientId: {
-          userId,
-          ingredientId: data.ingredientId
-        }
-      }
-    });
-
-    if (existing) {
-      // Update existing inventory item
-      const updated = await prisma.userInventory.update({
-        where: {
-          userId_ingredientId: {
-            userId,
-            ingredientId: data.ingredientId
-          }
-        },
-        data: {
-          amount: data.amount,
-          unit: data.unit,
-          estimatedGrams: data.estimatedGrams,
-          expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
-          isAvailable: true
-        },
-        include: {
-          ingredient: true
-        }
-      });
-
-      return res.json({
-        success: true,
-        inventory: updated,
-        message: 'Inventory item updated'
-      });
-    }
-
-    // Create new inventory item
-    const inventoryItem = await prisma.userInventory.create({
-      data: {
-        userId,
-        ingredientId: data.ingredientId,
-        amount: data.amount,
-        unit: data.unit,
-        estimatedGrams: data.estimatedGrams,
-        expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined
-      },
-      include: {
-        ingredient: true
-      }
+    const { inventory, created } = await savePantryItem(scope, data.ingredientId, {
+      amount: data.amount,
+      unit: data.unit,
+      estimatedGrams: data.estimatedGrams,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : getDefaultExpiresAt(ingredient.category)
     });
 
     res.json({
       success: true,
-      inventory: inventoryItem
+      inventory,
+      ...(!created && { message: 'Inventory item updated' })
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -159,7 +224,7 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
 // PATCH /api/inventory/:id - Update inventory item
 router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
     const { id } = req.params;
     const data = updateInventorySchema.parse(req.body);
 
@@ -167,7 +232,7 @@ router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
       where: { id: id as string }
     });
 
-    if (!inventoryItem || inventoryItem.userId !== userId) {
+    if (!inventoryItem || !ownsResource(scope, inventoryItem)) {
       return res.status(404).json({
         success: false,
         message: 'Inventory item not found'
@@ -178,6 +243,10 @@ router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
       where: { id: id as string },
       data: {
         ...data,
+        // Re-parse the structured quantity whenever the amount or unit changes
+        ...(data.amount !== undefined || data.unit !== undefined
+          ? toQuantityColumns(parseQuantity(data.amount ?? inventoryItem.amount, data.unit ?? inventoryItem.unit))
+          : {}),
         expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined
       },
       include: {
@@ -209,14 +278,14 @@ router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
 // DELETE /api/inventory/:id - Remove item from inventory
 router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
     const { id } = req.params;
 
     const inventoryItem = await prisma.userInventory.findUnique({
       where: { id: id as string }
     });
 
-    if (!inventoryItem || inventoryItem.userId !== userId) {
+    if (!inventoryItem || !ownsResource(scope, inventoryItem)) {
       return res.status(404).json({
         success: false,
         message: 'Inventory item not found'
@@ -243,10 +312,10 @@ router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
 // DELETE /api/inventory - Clear all inventory
 router.delete('/', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
 
     await prisma.userInventory.deleteMany({
-      where: { userId }
+      where: scopeWhere(scope)
     });
 
     res.json({
@@ -325,16 +394,13 @@ Return JSON in this format:
       itemsExtracted: items.length
     });
 
-    // Get updated balance
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { credits: true }
-    });
+    // Get updated balance (includes pooled household credits)
+    const balance = await getBalance(userId);
 
     res.json({
       success: true,
       items,
-      balance: user?.credits || 0
+      balance
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -366,80 +432,32 @@ const importReceiptItemsSchema = z.object({
 
 router.post('/import-receipt-items', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
     const { items } = importReceiptItemsSchema.parse(req.body);
 
     let created = 0;
     let updated = 0;
 
     for (const item of items) {
-      let ingredientId = item.ingredientId;
-
-      // If no ingredientId provided, try to find or create ingredient
-      if (!ingredientId) {
-        // Search for existing ingredient by name
-        const existing = await prisma.ingredient.findFirst({
-          where: {
-            name: {
-              equals: item.name,
-              mode: 'insensitive'
-            }
-          }
-        });
-
-        if (existing) {
-          ingredientId = existing.id;
-        } else {
-          // Create new ingredient
-          const newIngredient = await prisma.ingredient.create({
-            data: {
-              name: item.name.toLowerCase(),
-              category: 'Other'
-            }
-          });
-          ingredientId = newIngredient.id;
-        }
-      }
-
-      // Check if already in inventory
-      const existingInventory = await prisma.userInventory.findUnique({
-        where: {
-          userId_ingredientId: {
-            userId,
-            ingredientId
-          }
-        }
+      // If no ingredientId provided, find or create the ingredient; receipt names are
+      // canonicalized like recipe ingredients ("Great Value Large Eggs" → egg)
+      const ingredientId = item.ingredientId
+        ?? (await resolveIngredient(item.name, { category: 'Other' })).ingredientId;
+      const ingredient = await prisma.ingredient.findUnique({
+        where: { id: ingredientId },
+        select: { category: true }
       });
+      const category = ingredient?.category ?? null;
 
-      if (existingInventory) {
-        // Update existing
-        await prisma.userInventory.update({
-          where: {
-            userId_ingredientId: {
-              userId,
-              ingredientId
-            }
-          },
-          data: {
-            amount: item.amount,
-            unit: item.unit,
-            expiresAt: item.expiresAt ? new Date(item.expiresAt) : undefined,
-            isAvailable: true
-          }
-        });
-        updated++;
-      } else {
-        // Create new
-        await prisma.userInventory.create({
-          data: {
-            userId,
-            ingredientId,
-            amount: item.amount,
-            unit: item.unit,
-            expiresAt: item.expiresAt ? new Date(item.expiresAt) : undefined
-          }
-        });
+      const saved = await savePantryItem(scope, ingredientId, {
+        amount: item.amount,
+        unit: item.unit,
+        expiresAt: item.expiresAt ? new Date(item.expiresAt) : getDefaultExpiresAt(category)
+      });
+      if (saved.created) {
         created++;
+      } else {
+        updated++;
       }
     }
 
@@ -477,7 +495,7 @@ router.post('/quick-cook', authMiddleware, requireCredits(1), async (req: Reques
     const { count } = quickCookSchema.parse(req.body);
 
     // Generate recipes from pantry
-    const recipes = await suggestRecipesFromPantry(userId, count);
+    const { recipes, expiredItems, allergenItems } = await suggestRecipesFromPantry(userId, count);
 
     // Charge 1 credit after successful generation
     await chargeCredits(userId, 1, 'AI_RECIPE', `Quick cook: ${recipes.length} recipes generated from pantry`, {
@@ -485,16 +503,15 @@ router.post('/quick-cook', authMiddleware, requireCredits(1), async (req: Reques
       pantryBased: true
     });
 
-    // Get updated balance
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { credits: true }
-    });
+    // Get updated balance (includes pooled household credits)
+    const balance = await getBalance(userId);
 
     res.json({
       success: true,
       recipes,
-      balance: user?.credits || 0
+      expiredItems,
+      allergenItems,
+      balance
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1,18 +1,43 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../index.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { mapPreferencesToAgentParams, getUserActivePreferences } from '../services/preferenceMapper.js';
-import { selectExistingRecipes } from '../services/recipeSelector.js';
+import { selectExistingRecipes, getMealTypes } from '../services/recipeSelector.js';
+import { planMealSlots, type ExpiringIngredient } from '../services/mealSlotPlanner.js';
+import { partitionByExpiry } from '../services/expirationService.js';
+import { getOwnerScope, scopeWhere, scopeData, ownsResource } from '../services/householdService.js';
+import { buildPortionLedger, getHouseholdSize, isLeftoverSlot, resolveLeftoverSource } from '../services/leftoverService.js';
 import { generateRecipesFromParams, generateRecipeIdeas, buildPromptFromParams, generateRecipesFromApprovedIdeas } from '../services/recipeAgent.js';
 import { learnUserRecipeStyles, getUserTopStyles } from '../services/recipeStyleLearner.js';
-import { generateShoppingList, getShoppingList, markItemPurchased, saveMergeDecision } from '../services/shoppingListAggregator.js';
+import { generateShoppingList, getShoppingList, markItemPurchased, saveMergeDecision, setItemUsePantry } from '../services/shoppingListAggregator.js';
 import { chargeCredits, hasEnoughCredits } from '../services/credit.js';
-import { differenceInDays, addDays } from 'date-fns';
+import { differenceInDays, differenceInCalendarDays, addDays } from 'date-fns';
 import { deductPantryIngredients } from '../services/pantryDeductionService.js';
+import { resolveGroceryProvider } from '../services/groceryProvider.js';
+import {
+  createCostEstimator,
+  extendCostEstimator,
+  estimateShoppingCost,
+  fitRecipesToBudget,
+  getBudgetStatus,
+  projectedTotal,
+  type BudgetSwap,
+  type ShoppingCostEstimate
+} from '../services/recipeCostService.js';
+import { refreshStaleNutrition } from '../services/nutritionService.js';
+import { getSlotScale, scaleRecipeIngredients } from '../utils/recipeScaling.js';
+import { applyPlannedVersions, getCurrentVersionIds } from '../services/recipeVersionService.js';
+import { getNutritionTargets, summarizeMealPlanNutrition } from '../services/mealPlanNutritionService.js';
+import { deleteAisleOrder, getStoreRoute, listAisleOrders, saveAisleOrder } from '../services/storeRouteService.js';
+import { STORE_SECTIONS } from '../config/storeSections.js';
 
 const router = Router();
 
+// Extra existing recipes per meal type considered as cheaper stand-ins when over budget
+const BUDGET_SWAP_CANDIDATES_PER_MEAL_TYPE = 10;
+
 // Validation schemas
 const generateWeekSchema = z.object({
   startDate: z.string().datetime(),
@@ -24,6 +49,9 @@ const generateWeekSchema = z.object({
   inventoryIngredientIds: z.array(z.string()).optional(),
   matchUserStyle: z.boolean().default(true),
   preferenceIds: z.array(z.string()).default([]),
+  planLeftovers: z.boolean().default(true),
+  budgetWeekly: z.number().positive().optional(), // Overrides the budget preference
+  stayWithinBudget: z.boolean().default(true),
   approvedIdeas: z.array(z.object({
     title: z.string(),
     description: z.string(),
@@ -34,12 +62,22 @@ const generateWeekSchema = z.object({
 
 const updateSlotSchema = z.object({
   recipeId: z.string().optional(),
-  notes: z.string().optional()
+  notes: z.string().optional(),
+  servings: z.number().int().min(1).max(100).nullable().optional(), // null goes back to the recipe's servings
+  leftoverOfSlotId: z.string().nullable().optional(),
+  leftoverOfCookingEventId: z.string().nullable().optional()
+});
+
+const updateItemSchema = z.object({
+  isPurchased: z.boolean().optional(),
+  actualPrice: z.number().optional(),
+  usePantry: z.boolean().optional() // false: buy the full needed amount instead of the pantry shortfall
+}).refine(data => data.isPurchased !== undefined || data.usePantry !== undefined, {
+  message: 'isPurchased or usePantry is required'
 });
 
-const markPurchasedSchema = z.object({
-  isPurchased: z.boolean(),
-  actualPrice: z.number().optional()
+const aisleOrderSchema = z.object({
+  sections: z.array(z.string()).min(1) // Section ids in walking order; ones left out go at the end
 });
 
 // POST /api/meal-plans/generate-ideas - Generate recipe ideas for review (Step 1)
@@ -64,15 +102,16 @@ router.post('/generate-ideas', authMiddleware, async (req: Request, res: Respons
     const agentParams = mapPreferencesToAgentParams(preferences);
 
     // Get user inventory if needed
-    const inventory = data.useInventory && data.inventoryIngredientIds
+    const scope = await getOwnerScope(userId);
+    const { usable: inventory } = partitionByExpiry(data.useInventory && data.inventoryIngredientIds
       ? await prisma.userInventory.findMany({
           where: {
-            userId,
+            ...scopeWhere(scope),
             id: { in: data.inventoryIngredientIds }
           },
           include: { ingredient: true }
         })
-      : [];
+      : []);
 
     // Get user styles
     const userStyles = data.matchUserStyle
@@ -149,12 +188,15 @@ router.post('/generate-week', authMiddleware, async (req: Request, res: Response
       - Existing recipes to select: ${existingCount}
       - New recipes to generate: ${newCount}`);
 
-    // Get user's inventory if needed
+    // Get user's inventory if needed (shared household pantry, if any)
+    // Expired items are reported back instead of being planned around
+    const scope = await getOwnerScope(userId);
     let inventory: any[] = [];
+    let expiredInventory: any[] = [];
     if (data.useInventory) {
-      inventory = await prisma.userInventory.findMany({
+      const pantry = await prisma.userInventory.findMany({
         where: {
-          userId,
+          ...scopeWhere(scope),
           isAvailable: true,
           ...(data.inventoryIngredientIds && {
             ingredientId: { in: data.inventoryIngredientIds }
@@ -162,6 +204,7 @@ router.post('/generate-week', authMiddleware, async (req: Request, res: Response
         },
         include: { ingredient: true }
       });
+      ({ usable: inventory, expired: expiredInventory } = partitionByExpiry(pantry));
     }
 
     // Get or learn user's style preferences
@@ -192,6 +235,14 @@ router.post('/generate-week', authMiddleware, async (req: Request, res: Response
 
     const agentParams = mapPreferencesToAgentParams(preferences);
 
+    // Budget for the whole plan: weekly budget pro-rated to the plan length, else per-meal budget × meals
+    const weeklyBudget = data.budgetWeekly ?? agentParams.budgetWeekly;
+    const budgetLimit = weeklyBudget !== undefined
+      ? Math.round((weeklyBudget * days / 7) * 100) / 100
+      : agentParams.budgetPerMeal !== undefined
+        ? agentParams.budgetPerMeal * totalMeals
+        : null;
+
     // Select existing recipes - distribute across meal types
     let existingRecipes: any[] = [];
     if (existingCount > 0) {
@@ -281,13 +332,13 @@ router.post('/generate-week', authMiddleware, async (req: Request, res: Response
     // Create meal plan
     const mealPlan = await prisma.mealPlan.create({
       data: {
-        userId,
+        ...scopeData(scope),
         name: `Week of ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`,
         startDate,
         endDate,
         mealsPerDay: data.mealTypes.length,
         calorieTargetPerDay: agentParams.calorieTargetPerDay,
-        budgetLimit: agentParams.budgetWeekly,
+        budgetLimit,
         dietaryRestrictions: agentParams.dietaryRestrictions,
         cuisinePreferences: agentParams.cuisinePreferences || [],
         existingRecipeCount: existingRecipes.length,
@@ -297,32 +348,155 @@ router.post('/generate-week', authMiddleware, async (req: Request, res: Response
       }
     });
 
-    // Create meal slots
-    const slots: any[] = [];
-    let recipeIndex = 0;
+    // Assign recipes to slots with the constraint-based planner
+    const plannerRecipes = await prisma.recipe.findMany({
+      where: { id: { in: allRecipeIds } },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true }
+        }
+      }
+    });
 
-    for (let day = 0; day < days; day++) {
-      const date = addDays(startDate, day);
-      const dayOfWeek = date.getDay();
+    const householdSize = agentParams.servings ?? await getHouseholdSize(userId);
+
+    // Pantry items that expire during the plan should be cooked before they spoil
+    const expiringIngredients: ExpiringIngredient[] = inventory
+      .filter(item => item.expiresAt)
+      .map(item => ({
+        ingredientId: item.ingredientId,
+        name: item.ingredient.name,
+        dayIndex: differenceInCalendarDays(item.expiresAt, startDate)
+      }))
+      .filter(item => item.dayIndex >= 0 && item.dayIndex < days);
+
+    const plannerOptions = {
+      startDate,
+      days,
+      mealTypes: data.mealTypes,
+      preferences: agentParams,
+      householdSize,
+      planLeftovers: data.planLeftovers,
+      expiringIngredients
+    };
 
-      for (let mealIndex = 0; mealIndex < data.mealTypes.length; mealIndex++) {
-        const mealType = data.mealTypes[mealIndex];
-        const recipeId = allRecipeIds[recipeIndex % allRecipeIds.length];
+    // Recipes actually cooked (leftover slots need no extra shopping)
+    const cookedRecipes = (pool: typeof plannerRecipes) => planMealSlots(pool, plannerOptions)
+      .filter(slot => slot.recipeId && !slot.leftoverOf)
+      .map(slot => pool.find(recipe => recipe.id === slot.recipeId)!);
+
+    // With a budget, project the shopping cost and swap recipes until the plan fits it
+    // (pricing can take live provider lookups, so plans without a budget skip it)
+    let recipePool = plannerRecipes;
+    let budget: { limit: number; providerId: string; estimate: ShoppingCostEstimate; swaps: BudgetSwap[] } | null = null;
+
+    if (budgetLimit !== null) {
+      const provider = await resolveGroceryProvider(null, userId);
+      const estimator = await createCostEstimator(
+        plannerRecipes,
+        provider,
+        inventory.map(item => item.ingredientId)
+      );
+      budget = {
+        limit: budgetLimit,
+        providerId: provider.id,
+        estimate: await estimateShoppingCost(estimator, cookedRecipes(recipePool)),
+        swaps: []
+      };
+
+      if (data.stayWithinBudget && projectedTotal(budget.estimate) > budgetLimit) {
+        console.log(`💰 Projected $${projectedTotal(budget.estimate)} is over the $${budgetLimit} budget, looking for swaps...`);
+
+        const candidateIds = new Set<string>();
+        for (const mealType of data.mealTypes) {
+          const recipes = await selectExistingRecipes({
+            userId,
+            count: BUDGET_SWAP_CANDIDATES_PER_MEAL_TYPE,
+            preferences: agentParams,
+            userStyles,
+            inventory,
+            excludeRecentlyUsed: false,
+            mealType
+          });
+          recipes.forEach(recipe => candidateIds.add(recipe.id));
+        }
 
-        slots.push({
-          mealPlanId: mealPlan.id,
-          recipeId,
-          dayOfWeek,
-          mealType,
-          date,
-          sortOrder: mealIndex
+        const swapCandidates = await prisma.recipe.findMany({
+          where: { id: { in: [...candidateIds].filter(id => !allRecipeIds.includes(id)) } },
+          include: {
+            recipeIngredients: {
+              include: { ingredient: true }
+            }
+          }
         });
-
-        recipeIndex++;
+        await extendCostEstimator(estimator, swapCandidates, provider);
+
+        const fitted = await fitRecipesToBudget(
+          estimator,
+          plannerRecipes,
+          swapCandidates,
+          budgetLimit,
+          cookedRecipes,
+          (candidate, replaced) => getMealTypes(candidate).some(type => getMealTypes(replaced).includes(type))
+        );
+        recipePool = fitted.pool;
+        budget.estimate = fitted.estimate;
+        budget.swaps = fitted.swaps;
       }
     }
 
-    await prisma.mealSlot.createMany({ data: slots });
+    const plannedSlots = planMealSlots(recipePool, plannerOptions);
+
+    const newRecipeIdSet = new Set(newRecipeIds);
+    await prisma.mealPlan.update({
+      where: { id: mealPlan.id },
+      data: {
+        projectedCost: budget?.estimate.total ?? null,
+        ...(budget && budget.swaps.length > 0 && {
+          existingRecipeCount: recipePool.filter(recipe => !newRecipeIdSet.has(recipe.id)).length,
+          newRecipeCount: recipePool.filter(recipe => newRecipeIdSet.has(recipe.id)).length
+        })
+      }
+    });
+
+    // Slots remember the recipe version they were planned with
+    const versionIds = await getCurrentVersionIds(recipePool.map(recipe => recipe.id));
+
+    const toSlotData = (slot: typeof plannedSlots[number]) => ({
+      mealPlanId: mealPlan.id,
+      recipeId: slot.recipeId,
+      recipeVersionId: slot.recipeId ? versionIds.get(slot.recipeId) ?? null : null,
+      dayOfWeek: slot.dayOfWeek,
+      mealType: slot.mealType,
+      date: slot.date,
+      sortOrder: slot.sortOrder,
+      placementReason: { ...slot.placement } satisfies Prisma.InputJsonValue
+    });
+
+    // Cooking slots first, so leftover slots can reference them
+    await prisma.mealSlot.createMany({
+      data: plannedSlots.filter(slot => !slot.leftoverOf).map(toSlotData)
+    });
+
+    const leftoverSlots = plannedSlots.filter(slot => slot.leftoverOf);
+    if (leftoverSlots.length > 0) {
+      const cookingSlots = await prisma.mealSlot.findMany({
+        where: { mealPlanId: mealPlan.id },
+        select: { id: true, date: true, mealType: true }
+      });
+      const cookingSlotIds = new Map(
+        cookingSlots.map(slot => [`${slot.date.getTime()}|${slot.mealType}`, slot.id])
+      );
+
+      await prisma.mealSlot.createMany({
+        data: leftoverSlots.map(slot => ({
+          ...toSlotData(slot),
+          leftoverOfSlotId: cookingSlotIds.get(
+            `${addDays(startDate, slot.leftoverOf!.dayIndex).getTime()}|${slot.leftoverOf!.mealType}`
+          )
+        }))
+      });
+    }
 
     // Fetch complete meal plan with recipes
     const completeMealPlan = await prisma.mealPlan.findUnique({
@@ -349,7 +523,27 @@ router.post('/generate-week', authMiddleware, async (req: Request, res: Response
       usedRecipes: existingRecipes.length,
       newRecipes: newRecipeIds.length,
       newIngredients: [...new Set(allNewIngredients)],
-      inventoryUsed: inventory.length
+      inventoryUsed: inventory.length,
+      expiredInventory: expiredInventory.map(item => ({
+        id: item.id,
+        name: item.ingredient.name,
+        expiresAt: item.expiresAt
+      })),
+      budget: budget && {
+        limit: budget.limit,
+        projectedTotal: budget.estimate.total,
+        unpricedEstimate: budget.estimate.unpricedEstimate,
+        withinBudget: getBudgetStatus(budget.estimate, budget.limit), // null: unpriced ingredients make it unknown
+        provider: budget.providerId,
+        swaps: budget.swaps,
+        recipeCosts: recipePool.map(recipe => ({
+          recipeId: recipe.id,
+          title: recipe.title,
+          planShare: budget.estimate.recipeShares.get(recipe.id) ?? 0
+        })),
+        unpricedIngredients: budget.estimate.unpricedIngredients,
+        pantryIngredients: budget.estimate.pantryIngredients
+      }
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -369,13 +563,13 @@ router.post('/generate-week', authMiddleware, async (req: Request, res: Response
   }
 });
 
-// GET /api/meal-plans - List user's meal plans
+// GET /api/meal-plans - List user's meal plans (including their household's)
 router.get('/', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const scope = await getOwnerScope(req.user!.userId);
     const { active, limit = 20, offset = 0 } = req.query;
 
-    const where: any = { userId };
+    const where: any = scopeWhere(scope);
     if (active !== undefined) {
       where.isActive = active === 'true';
     }
@@ -421,9 +615,10 @@ router.get('/', authMiddleware, async (req: Request, res: Response) => {
 router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
     const { id } = req.params;
 
-    const mealPlan = await prisma.mealPlan.findUnique({
+    const plan = await prisma.mealPlan.findUnique({
       where: { id: id as string },
       include: {
         mealSlots: {
@@ -434,7 +629,23 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
                   include: { ingredient: true }
                 }
               }
-            }
+            },
+            leftoverOfSlot: {
+              select: {
+                id: true,
+                date: true,
+                mealType: true,
+                recipe: { select: { id: true, title: true } }
+              }
+            },
+            leftoverOfCookingEvent: {
+              select: {
+                id: true,
+                cookedAt: true,
+                recipe: { select: { id: true, title: true, servings: true } }
+              }
+            },
+            recipeVersion: true
           },
           orderBy: [{ date: 'asc' }, { sortOrder: 'asc' }]
         },
@@ -448,50 +659,30 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
       }
     });
 
-    if (!mealPlan || mealPlan.userId !== userId) {
+    if (!plan || !ownsResource(scope, plan)) {
       return res.status(404).json({
         success: false,
         message: 'Meal plan not found'
       });
     }
 
-    // Calculate nutrition totals
-    const dailyNutrition: Record<string, any> = {};
-    let weeklyCalories = 0;
-    let weeklyProtein = 0;
-    let weeklyCarbs = 0;
-    let weeklyFat = 0;
-
-    for (const slot of mealPlan.mealSlots) {
-      if (!slot.recipe) continue;
+    // Slots show the recipe as planned; recipeVersion.version vs recipe.currentVersion tells if it was edited since
+    const mealPlan = { ...plan, mealSlots: await applyPlannedVersions(plan.mealSlots) };
 
-      const dateKey = slot.date.toISOString().split('T')[0];
-      if (!dailyNutrition[dateKey]) {
-        dailyNutrition[dateKey] = { calories: 0, protein: 0, carbs: 0, fat: 0 };
-      }
-
-      dailyNutrition[dateKey].calories += slot.recipe.calories || 0;
-      dailyNutrition[dateKey].protein += slot.recipe.protein || 0;
-      dailyNutrition[dateKey].carbs += slot.recipe.carbs || 0;
-      dailyNutrition[dateKey].fat += slot.recipe.fat || 0;
+    const householdSize = await getHouseholdSize(userId);
+    const portionLedger = buildPortionLedger(mealPlan.mealSlots, householdSize);
 
-      weeklyCalories += slot.recipe.calories || 0;
-      weeklyProtein += slot.recipe.protein || 0;
-      weeklyCarbs += slot.recipe.carbs || 0;
-      weeklyFat += slot.recipe.fat || 0;
-    }
+    // Planned per-person totals; skipped meals don't count (targets: GET /:id/nutrition)
+    const nutrition = summarizeMealPlanNutrition(mealPlan.mealSlots, householdSize, []);
 
     res.json({
       success: true,
       mealPlan,
+      portionLedger,
+      householdSize,
       nutrition: {
-        daily: dailyNutrition,
-        weekly: {
-          calories: weeklyCalories,
-          protein: weeklyProtein,
-          carbs: weeklyCarbs,
-          fat: weeklyFat
-        }
+        daily: Object.fromEntries(nutrition.days.map(day => [day.date, day.planned])),
+        weekly: nutrition.weekly.planned
       }
     });
   } catch (error) {
@@ -503,10 +694,76 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/meal-plans/:id/nutrition - Daily and weekly macros vs the user's nutrition preferences
+// Planned totals cover every meal that isn't skipped; actual totals cover completed meals
+router.get('/:id/nutrition', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
+    const { id } = req.params;
+
+    const mealPlan = await prisma.mealPlan.findUnique({
+      where: { id: id as string },
+      select: {
+        id: true,
+        userId: true,
+        householdId: true,
+        calorieTargetPerDay: true,
+        mealSlots: { select: { recipeId: true } }
+      }
+    });
+
+    if (!mealPlan || !ownsResource(scope, mealPlan)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Meal plan not found'
+      });
+    }
+
+    // Recipes whose ingredients changed since their macros were computed
+    await refreshStaleNutrition(mealPlan.mealSlots.map(slot => slot.recipeId).filter((recipeId): recipeId is string => !!recipeId));
+
+    const nutritionSelect = { id: true, title: true, calories: true, protein: true, carbs: true, fat: true };
+    const slots = await prisma.mealSlot.findMany({
+      where: { mealPlanId: mealPlan.id },
+      select: {
+        id: true,
+        date: true,
+        isSkipped: true,
+        isCompleted: true,
+        servings: true,
+        leftoverOfSlotId: true,
+        leftoverOfCookingEventId: true,
+        leftoverOfCookingEvent: { select: { recipe: { select: { id: true, title: true, servings: true } } } },
+        recipe: { select: { ...nutritionSelect, servings: true } },
+        cookingEvents: { select: { recipe: { select: nutritionSelect } } }
+      },
+      orderBy: [{ date: 'asc' }, { sortOrder: 'asc' }]
+    });
+
+    const [householdSize, targets] = await Promise.all([
+      getHouseholdSize(userId),
+      getNutritionTargets(userId, mealPlan.calorieTargetPerDay)
+    ]);
+
+    res.json({
+      success: true,
+      nutrition: summarizeMealPlanNutrition(slots, householdSize, targets)
+    });
+  } catch (error) {
+    console.error('Error fetching meal plan nutrition:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch meal plan nutrition'
+    });
+  }
+});
+
 // PATCH /api/meal-plans/:id/slots/:slotId - Update meal slot
 router.patch('/:id/slots/:slotId', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
     const { id, slotId } = req.params;
     const data = updateSlotSchema.parse(req.body);
 
@@ -515,16 +772,44 @@ router.patch('/:id/slots/:slotId', authMiddleware, async (req: Request, res: Res
       where: { id: id as string }
     });
 
-    if (!mealPlan || mealPlan.userId !== userId) {
+    if (!mealPlan || !ownsResource(scope, mealPlan)) {
       return res.status(404).json({
         success: false,
         message: 'Meal plan not found'
       });
     }
 
+    const updateData: any = { ...data };
+
+    // Marking a slot as leftovers makes it eat the source meal's recipe
+    if (data.leftoverOfSlotId || data.leftoverOfCookingEventId) {
+      const source = await resolveLeftoverSource(userId, id as string, slotId as string, data);
+
+      if ('error' in source) {
+        return res.status(400).json({
+          success: false,
+          message: source.error
+        });
+      }
+
+      updateData.recipeId = source.recipeId;
+      updateData.leftoverOfSlotId = data.leftoverOfSlotId || null;
+      updateData.leftoverOfCookingEventId = data.leftoverOfSlotId ? null : data.leftoverOfCookingEventId;
+      updateData.servings = null; // Leftovers aren't cooked
+    } else if (data.recipeId) {
+      // Choosing a different recipe turns the slot back into a cooking slot
+      updateData.leftoverOfSlotId = null;
+      updateData.leftoverOfCookingEventId = null;
+    }
+
+    // A newly chosen recipe is planned at its current version
+    if (updateData.recipeId) {
+      updateData.recipeVersionId = (await getCurrentVersionIds([updateData.recipeId])).get(updateData.recipeId) ?? null;
+    }
+
     const slot = await prisma.mealSlot.update({
       where: { id: slotId as string },
-      data,
+      data: updateData,
       include: {
         recipe: {
           include: {
@@ -561,13 +846,14 @@ router.patch('/:id/slots/:slotId', authMiddleware, async (req: Request, res: Res
 router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
     const { id } = req.params;
 
     const mealPlan = await prisma.mealPlan.findUnique({
       where: { id: id as string }
     });
 
-    if (!mealPlan || mealPlan.userId !== userId) {
+    if (!mealPlan || !ownsResource(scope, mealPlan)) {
       return res.status(404).json({
         success: false,
         message: 'Meal plan not found'
@@ -595,6 +881,7 @@ router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
 router.post('/:id/shopping-list', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
     const { id } = req.params;
     const excludePantry = req.query.excludePantry === 'true';
     const { clearCart = true } = req.body;
@@ -603,7 +890,7 @@ router.post('/:id/shopping-list', authMiddleware, async (req: Request, res: Resp
       where: { id: id as string }
     });
 
-    if (!mealPlan || mealPlan.userId !== userId) {
+    if (!mealPlan || !ownsResource(scope, mealPlan)) {
       return res.status(404).json({
         success: false,
         message: 'Meal plan not found'
@@ -626,6 +913,109 @@ router.post('/:id/shopping-list', authMiddleware, async (req: Request, res: Resp
   }
 });
 
+// GET /api/shopping-lists/aisle-orders - Store sections and the user's saved aisle order per store
+router.get('/shopping-lists/aisle-orders', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const aisleOrders = await listAisleOrders(req.user!.userId);
+
+    res.json({
+      success: true,
+      sections: STORE_SECTIONS.map(({ id, label }) => ({ id, label })),
+      aisleOrders
+    });
+  } catch (error) {
+    console.error('Error fetching aisle orders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch aisle orders'
+    });
+  }
+});
+
+// PUT /api/shopping-lists/aisle-orders/:store - Save the section order for a store
+router.put('/shopping-lists/aisle-orders/:store', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const data = aisleOrderSchema.parse(req.body);
+    const aisleOrder = await saveAisleOrder(req.user!.userId, req.params.store as string, data.sections);
+
+    res.json({
+      success: true,
+      aisleOrder
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors
+      });
+    }
+    if (error instanceof Error && (error.message.startsWith('Unknown store section') || error.message === 'Store name is required')) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Error saving aisle order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save aisle order'
+    });
+  }
+});
+
+// DELETE /api/shopping-lists/aisle-orders/:store - Go back to the default order for a store
+router.delete('/shopping-lists/aisle-orders/:store', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    await deleteAisleOrder(req.user!.userId, req.params.store as string);
+
+    res.json({
+      success: true,
+      message: 'Aisle order deleted'
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Aisle order not found') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Error deleting aisle order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete aisle order'
+    });
+  }
+});
+
+// GET /api/shopping-lists/:id/route?store= - Items grouped by store section, in the store's aisle order
+router.get('/shopping-lists/:id/route', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const store = typeof req.query.store === 'string' ? req.query.store : null;
+    const route = await getStoreRoute(req.params.id as string, req.user!.userId, store);
+
+    res.json({
+      success: true,
+      ...route
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shopping list not found') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Error fetching store route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch store route'
+    });
+  }
+});
+
 // GET /api/shopping-lists/:id - Get shopping list
 router.get('/shopping-lists/:id', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -645,13 +1035,35 @@ router.get('/shopping-lists/:id', authMiddleware, async (req: Request, res: Resp
   }
 });
 
-// PATCH /api/shopping-lists/:id/items/:itemId - Mark item as purchased
+// PATCH /api/shopping-lists/:id/items/:itemId - Mark item as purchased, or toggle pantry subtraction
 router.patch('/shopping-lists/:id/items/:itemId', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { itemId } = req.params;
-    const data = markPurchasedSchema.parse(req.body);
+    const { id, itemId } = req.params;
+    const data = updateItemSchema.parse(req.body);
+    const scope = await getOwnerScope(req.user!.userId);
+
+    // The item must be on this list, and the list must be the user's or their household's
+    const item = await prisma.shoppingListItem.findFirst({
+      where: {
+        id: itemId as string,
+        shoppingListId: id as string,
+        shoppingList: scopeWhere(scope)
+      }
+    });
 
-    await markItemPurchased(itemId as string, data.isPurchased, data.actualPrice);
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shopping list item not found'
+      });
+    }
+
+    if (data.usePantry !== undefined) {
+      await setItemUsePantry(itemId as string, data.usePantry);
+    }
+    if (data.isPurchased !== undefined) {
+      await markItemPurchased(itemId as string, data.isPurchased, data.actualPrice);
+    }
 
     res.json({
       success: true,
@@ -666,6 +1078,19 @@ router.patch('/shopping-lists/:id/items/:itemId', authMiddleware, async (req: Re
       });
     }
 
+    if (error instanceof Error && error.message === 'Shopping list item not found') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error instanceof Error && error.message === 'This item was not checked against the pantry') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error updating shopping list item:', error);
     res.status(500).json({
       success: false,
@@ -716,14 +1141,15 @@ const completeMealSchema = z.object({
 router.post('/:id/complete', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
     const { id } = req.params;
     const { completedMealSlotIds } = completeMealSchema.parse(req.body);
 
-    // 1. Verify meal plan belongs to user
+    // 1. Verify meal plan belongs to user (or their household)
     const mealPlan = await prisma.mealPlan.findFirst({
       where: {
         id: id as string,
-        userId
+        ...scopeWhere(scope)
       }
     });
 
@@ -734,8 +1160,8 @@ router.post('/:id/complete', authMiddleware, async (req: Request, res: Response)
       });
     }
 
-    // 2. Get meal slots with recipes
-    const mealSlots = await prisma.mealSlot.findMany({
+    // 2. Get meal slots with recipes (as planned, if edited since)
+    const mealSlots = await applyPlannedVersions(await prisma.mealSlot.findMany({
       where: {
         id: { in: completedMealSlotIds },
         mealPlanId: id as string
@@ -749,9 +1175,10 @@ router.post('/:id/complete', authMiddleware, async (req: Request, res: Response)
               }
             }
           }
-        }
+        },
+        recipeVersion: true
       }
-    });
+    }));
 
     if (mealSlots.length === 0) {
       return res.status(400).json({
@@ -772,8 +1199,27 @@ router.post('/:id/complete', authMiddleware, async (req: Request, res: Response)
     });
 
     // 4. Create cooking events for each completed meal
-    const cookingEventsToCreate = mealSlots
-      .filter(slot => slot.recipe)
+    // Leftover slots were cooked earlier, so they get no cooking event or pantry deduction
+    const cookedSlots = mealSlots.filter(slot => slot.recipe && !isLeftoverSlot(slot));
+
+    // Cook mode already recorded an event for some slots; those get marked deducted instead
+    const recordedEvents = await prisma.cookingEvent.findMany({
+      where: {
+        mealSlotId: { in: cookedSlots.map(slot => slot.id) },
+        pantryDeducted: false
+      }
+    });
+    const recordedSlotIds = new Set(recordedEvents.map(event => event.mealSlotId));
+
+    if (recordedEvents.length > 0) {
+      await prisma.cookingEvent.updateMany({
+        where: { id: { in: recordedEvents.map(event => event.id) } },
+        data: { pantryDeducted: true }
+      });
+    }
+
+    const cookingEventsToCreate = cookedSlots
+      .filter(slot => !recordedSlotIds.has(slot.id))
       .map(slot => ({
         userId,
         recipeId: slot.recipeId!,
@@ -789,10 +1235,8 @@ router.post('/:id/complete', authMiddleware, async (req: Request, res: Response)
       });
     }
 
-    // 5. Deduct ingredients from pantry
-    const recipes = mealSlots
-      .filter(slot => slot.recipe)
-      .map(slot => slot.recipe!);
+    // 5. Deduct ingredients from pantry (scaled to each slot's servings)
+    const recipes = cookedSlots.map(slot => scaleRecipeIngredients(slot.recipe!, getSlotScale(slot)));
 
     const deductedItems = recipes.length > 0
       ? await deductPantryIngredients(userId, recipes)
@@ -845,14 +1289,15 @@ const skipSlotsSchema = z.object({
 router.post('/:id/skip', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
+    const scope = await getOwnerScope(userId);
     const { id } = req.params;
     const { slotIds } = skipSlotsSchema.parse(req.body);
 
-    // 1. Verify meal plan belongs to user
+    // 1. Verify meal plan belongs to user (or their household)
     const mealPlan = await prisma.mealPlan.findFirst({
       where: {
         id: id as string,
-        userId
+        ...scopeWhere(scope)
       }
     });
 
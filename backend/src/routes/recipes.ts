@@ -3,7 +3,42 @@ import { z } from 'zod';
 import { prisma } from '../index.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { generateRecipeRecommendations } from '../services/openai.js';
-import { recordRecipeUsage } from '../services/credit.js';
+import { chargeCredits, getBalance, recordRecipeUsage } from '../services/credit.js';
+import { requireCredits } from '../middleware/creditCheck.js';
+import { getOwnerScope, scopeWhere } from '../services/householdService.js';
+import { partitionByExpiry } from '../services/expirationService.js';
+import { resolveGroceryProvider } from '../services/groceryProvider.js';
+import { createCostEstimator, estimateShoppingCost } from '../services/recipeCostService.js';
+import {
+  getRecipeNutritionReport,
+  recalculateRecipeNutrition,
+  refreshStaleNutrition,
+} from '../services/nutritionService.js';
+import {
+  checkIngredientNames,
+  describeAllergenConflicts,
+  getRecipeAllergenReport,
+  getUserAllergyProfile,
+} from '../services/allergenService.js';
+import { deductPantryIngredients } from '../services/pantryDeductionService.js';
+import { getServingsScale, scaleIngredientAmount, scaleRecipeIngredients } from '../utils/recipeScaling.js';
+import { parseRecipeSteps, splitInstructions } from '../utils/instructionParser.js';
+import { forkRecipe, rollbackRecipe, updateRecipeWithVersion } from '../services/recipeVersionService.js';
+import {
+  buildImportDraft,
+  createImportedRecipe,
+  extractRecipeFromImage,
+  extractRecipeFromText,
+  MAX_IMPORT_TEXT_LENGTH,
+  type ImportResult,
+} from '../services/urlRecipeImporter.js';
+import { resolveIngredient } from '../services/ingredientCanonicalizationService.js';
+import { mergeIngredientNotes } from '../utils/ingredientNormalizer.js';
+import { detectCuisine, resolveCuisine } from '../config/cuisineCatalog.js';
+import { searchRecipes, semanticSearchRecipes } from '../services/recipeSearchService.js';
+import { scheduleEmbeddingRefresh } from '../services/recipeEmbeddingService.js';
+import { EXPORT_FORMATS, exportUserRecipes } from '../services/recipeExportService.js';
+import { IMPORT_FORMATS, importRecipeFile, readImportFile } from '../services/recipeBulkImportService.js';
 
 const router = Router();
 
@@ -35,6 +70,7 @@ const createRecipeSchema = z.object({
   carbs: z.number().optional(),
   fat: z.number().optional(),
   imageUrl: z.string().optional(),
+  cuisine: z.string().optional(), // Detected from the title and ingredients when not given
   isPublic: z.boolean().default(false),
   ingredients: z.array(z.object({
     ingredientId: z.string(),
@@ -44,6 +80,129 @@ const createRecipeSchema = z.object({
   })),
 });
 
+const updateRecipeSchema = z.object({
+  title: z.string().min(1, 'Title is required').optional(),
+  description: z.string().nullable().optional(),
+  instructions: z.union([z.array(z.string()), z.string()]).optional(),
+  prepTimeMinutes: z.number().min(0).optional(),
+  cookTimeMinutes: z.number().min(0).optional(),
+  servings: z.number().int().min(1).optional(),
+  mealType: z.array(z.string()).optional(),
+  imageUrl: z.string().nullable().optional(),
+  cuisine: z.string().nullable().optional(),
+  isPublic: z.boolean().optional(),
+  // Existing ingredients by id, new ones by name
+  ingredients: z.array(z.object({
+    ingredientId: z.string().optional(),
+    name: z.string().min(1).optional(),
+    amount: z.number().min(0),
+    unit: z.string(),
+    notes: z.string().nullable().optional(),
+  }).refine(ing => ing.ingredientId || ing.name, { message: 'ingredientId or name is required' })).optional(),
+  changeSummary: z.string().max(200).optional(),
+});
+
+// Comma-separated or repeated query values ("mealType=lunch,dinner" or "mealType=lunch&mealType=dinner")
+const queryList = z.union([z.string(), z.array(z.string())]).optional().transform(value =>
+  (Array.isArray(value) ? value : value ? value.split(',') : [])
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+const searchRecipesSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  view: z.enum(['all', 'personal']).default('all'),
+  mealType: queryList,
+  cuisine: queryList,
+  maxTotalTime: z.coerce.number().int().min(1).optional(),
+  minCalories: z.coerce.number().min(0).optional(),
+  maxCalories: z.coerce.number().min(0).optional(),
+  diet: queryList,
+  matchMyDiet: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  minPantryCoverage: z.coerce.number().min(0).max(100).optional(),
+  sort: z.enum(['relevance', 'rating', 'popularity', 'newest']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const semanticSearchSchema = z.object({
+  q: z.string().trim().min(1, 'Search text is required').max(200),
+  view: z.enum(['all', 'personal']).default('all'),
+  mealType: queryList,
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const importTextSchema = z.object({
+  text: z.string().trim().min(1, 'Recipe text is required').max(MAX_IMPORT_TEXT_LENGTH),
+});
+
+const importImageSchema = z.object({
+  imageBase64: z.string().min(1, 'Image is required'),
+});
+
+const importDraftSchema = z.object({
+  source: z.enum(['text', 'image']),
+  sourceName: z.string().trim().max(200).optional(),
+  title: z.string().trim().min(1).max(200),
+  instructions: z.array(z.string().trim().min(1)).min(1),
+  prepTime: z.number().int().min(0).default(0),
+  cookTime: z.number().int().min(0).default(0),
+  servings: z.number().int().min(1).default(4),
+  mealType: z.array(z.enum(['breakfast', 'lunch', 'dinner', 'snack', 'dessert'])).optional(),
+  cuisine: z.string().trim().max(50).nullable().optional(),
+  // Extracted values can be null when the source didn't list them
+  nutrition: z.object({
+    calories: z.number().min(0).nullish().transform(value => value ?? undefined),
+    protein: z.number().min(0).nullish().transform(value => value ?? undefined),
+    carbs: z.number().min(0).nullish().transform(value => value ?? undefined),
+    fat: z.number().min(0).nullish().transform(value => value ?? undefined),
+  }).nullish().transform(value => value ?? undefined),
+  ingredients: z.array(z.object({
+    name: z.string().trim().min(1),
+    amount: z.union([z.string(), z.number()]).transform(String),
+    unit: z.string().trim().default('count'),
+    notes: z.string().trim().nullable().optional(),
+  })).min(1),
+  allowAllergens: z.boolean().optional(),
+});
+
+const exportRecipesSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('jsonld'),
+  includeMealPlans: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
+const bulkImportSchema = z.object({
+  format: z.enum(IMPORT_FORMATS),
+  content: z.string().min(1, 'File content is required'), // Text for JSON-LD and Markdown, base64 for ZIP and Paprika files
+  allowAllergens: z.boolean().optional(),
+});
+
+const scaleRecipeSchema = z.object({
+  servings: z.coerce.number().int().min(1).max(100),
+});
+
+const cookModeSchema = z.object({
+  servings: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const cookingEventSchema = z.object({
+  mealSlotId: z.string().optional(), // Cooked for a meal plan slot; pantry deduction happens when the slot is completed
+  servings: z.number().int().min(1).max(100).optional(),
+  deductPantry: z.boolean().optional().default(false),
+  notes: z.string().max(500).optional(),
+});
+
+const updateRecipeIngredientSchema = z.object({
+  walmartItemId: z.string().optional(),
+  walmartProductName: z.string().optional(),
+  amount: z.number().positive().optional(),
+  unit: z.string().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// Per-100g values belong to the shared ingredient and are edited through PUT /api/ingredients/:id
+const INGREDIENT_NUTRITION_FIELDS = ['caloriesPer100g', 'proteinPer100g', 'carbsPer100g', 'fatPer100g'];
+
 // GET /api/recipes - Get all recipes (with pagination, protected)
 // Query params: page, limit, view (personal, all)
 router.get('/', authMiddleware, async (req: Request, res: Response) => {
@@ -117,14 +276,129 @@ router.get('/', authMiddleware, async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/recipes/search - Search recipes by text with facet filters (protected)
+// Query params: q, view, mealType, cuisine, maxTotalTime, minCalories, maxCalories, diet, matchMyDiet,
+// minPantryCoverage, sort (relevance, rating, popularity, newest), page, limit
+router.get('/search', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const params = searchRecipesSchema.parse(req.query);
+
+    const result = await searchRecipes(req.user!.userId, {
+      q: params.q,
+      view: params.view,
+      mealTypes: params.mealType,
+      cuisines: params.cuisine,
+      maxTotalTime: params.maxTotalTime,
+      minCalories: params.minCalories,
+      maxCalories: params.maxCalories,
+      diets: params.diet,
+      matchMyDiet: params.matchMyDiet,
+      minPantryCoverage: params.minPantryCoverage,
+      sort: params.sort,
+      page: params.page,
+      limit: params.limit,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Search recipes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search recipes',
+    });
+  }
+});
+
+// GET /api/recipes/semantic-search - Search recipes by meaning ("something cozy with lentils") (protected)
+// Query params: q, view, mealType, limit. Ranks by embedding similarity mixed with keyword matches.
+router.get('/semantic-search', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const params = semanticSearchSchema.parse(req.query);
+
+    const result = await semanticSearchRecipes(req.user!.userId, {
+      q: params.q,
+      view: params.view,
+      mealTypes: params.mealType,
+      limit: params.limit,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Semantic search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search recipes',
+    });
+  }
+});
+
+// GET /api/recipes/export - Download the user's own recipes as a file (protected)
+// Query params: format (jsonld, paprika, markdown), includeMealPlans (JSON-LD and Markdown only)
+router.get('/export', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const params = exportRecipesSchema.parse(req.query);
+
+    const file = await exportUserRecipes(userId, params.format, { includeMealPlans: params.includeMealPlans });
+
+    res.attachment(file.filename);
+    res.type(file.contentType);
+    res.send(file.body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Export recipes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export recipes',
+    });
+  }
+});
+
 // POST /api/recipes - Create new recipe (protected)
 router.post('/', authMiddleware, async (req: Request, res: Response) => {
   try {
     const data = createRecipeSchema.parse(req.body);
     const userId = req.user!.userId;
 
+    const ingredientNames = await prisma.ingredient.findMany({
+      where: { id: { in: data.ingredients.map(ing => ing.ingredientId) } },
+      select: { name: true },
+    });
+    const cuisine = data.cuisine?.trim()
+      ? resolveCuisine(data.cuisine)
+      : detectCuisine({ ...data, ingredientNames: ingredientNames.map(ingredient => ingredient.name) });
+
     // Create recipe with ingredients in a transaction
-    const recipe = await prisma.recipe.create({
+    const created = await prisma.recipe.create({
       data: {
         title: data.title,
         description: data.description,
@@ -137,6 +411,7 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
         carbs: data.carbs,
         fat: data.fat,
         imageUrl: data.imageUrl,
+        cuisine,
         isPublic: data.isPublic,
         createdById: userId,
         recipeIngredients: {
@@ -149,6 +424,60 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
           })),
         },
       },
+    });
+
+    // Computed macros replace the entered ones when enough ingredients can be weighed
+    await recalculateRecipeNutrition(created.id).catch(error => {
+      console.error('Failed to compute recipe nutrition:', error);
+    });
+    scheduleEmbeddingRefresh();
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: created.id },
+      include: {
+        recipeIngredients: {
+          include: {
+            ingredient: true,
+          },
+          orderBy: {
+            sortOrder: 'asc',
+          },
+        },
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Recipe created successfully',
+      data: { recipe },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Create recipe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create recipe',
+    });
+  }
+});
+
+// GET /api/recipes/:id - Get single recipe (protected)
+router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    // Recipes whose ingredients changed since their nutrition was computed
+    await refreshStaleNutrition([req.params.id as string]);
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: req.params.id as string },
       include: {
         recipeIngredients: {
           include: {
@@ -158,52 +487,681 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
             sortOrder: 'asc',
           },
         },
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        forkedFrom: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+    });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    // Check if user has permission to view this recipe
+    // Allow if: recipe is public OR user is the creator
+    if (!recipe.isPublic && recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this recipe',
+      });
+    }
+
+    // Allergen badges, and why the recipe is kept out of this user's plans and suggestions
+    const allergenReport = getRecipeAllergenReport(
+      recipe.recipeIngredients.map(ri => ri.ingredient),
+      await getUserAllergyProfile(userId)
+    );
+
+    // Forks credit whoever wrote the original, even if the original has since been deleted
+    const originalAuthor = recipe.originalCreatedById
+      ? await prisma.user.findUnique({
+        where: { id: recipe.originalCreatedById },
+        select: { id: true, name: true },
+      })
+      : null;
+
+    res.json({
+      success: true,
+      data: { recipe: { ...recipe, ...allergenReport, originalAuthor } },
+    });
+  } catch (error) {
+    console.error('Get recipe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch recipe',
+    });
+  }
+});
+
+// PUT /api/recipes/:id - Update recipe (protected, creator only)
+// Every change is stored as a new RecipeVersion; AI and other users' recipes must be forked first
+router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const recipeId = req.params.id as string;
+    const data = updateRecipeSchema.parse(req.body);
+
+    const existing = await prisma.recipe.findUnique({ where: { id: recipeId } });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (existing.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only edit your own recipes. Fork this recipe to edit a copy.',
+      });
+    }
+
+    if (data.isPublic && !existing.canBePublic) {
+      return res.status(400).json({
+        success: false,
+        message: 'Imported recipes cannot be made public',
+      });
+    }
+
+    const ingredients = data.ingredients
+      ? await Promise.all(data.ingredients.map(async ing => {
+        if (ing.ingredientId) {
+          return { ingredientId: ing.ingredientId, amount: ing.amount, unit: ing.unit, notes: ing.notes };
+        }
+        const resolved = await resolveIngredient(ing.name!);
+        return {
+          ingredientId: resolved.ingredientId,
+          amount: ing.amount,
+          unit: ing.unit,
+          notes: mergeIngredientNotes(resolved.notes, ing.notes),
+        };
+      }))
+      : undefined;
+
+    const version = await updateRecipeWithVersion(recipeId, userId, {
+      title: data.title,
+      description: data.description,
+      instructions: typeof data.instructions === 'string' ? splitInstructions(data.instructions) : data.instructions,
+      prepTime: data.prepTimeMinutes,
+      cookTime: data.cookTimeMinutes,
+      servings: data.servings,
+      mealType: data.mealType,
+      imageUrl: data.imageUrl,
+      ingredients,
+    }, data.changeSummary);
+
+    // Visibility and cuisine aren't part of the recipe's content, so they don't add a version
+    const visibilityChanged = data.isPublic !== undefined && data.isPublic !== existing.isPublic;
+    const cuisine = data.cuisine === undefined ? undefined : data.cuisine?.trim() ? resolveCuisine(data.cuisine) : null;
+    const cuisineChanged = cuisine !== undefined && cuisine !== existing.cuisine;
+    if (visibilityChanged || cuisineChanged) {
+      await prisma.recipe.update({
+        where: { id: recipeId },
+        data: { isPublic: data.isPublic, cuisine },
+      });
+      scheduleEmbeddingRefresh();
+    }
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true },
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    });
+
+    res.json({
+      success: true,
+      message: version
+        ? `Recipe updated to version ${version.version}`
+        : visibilityChanged || cuisineChanged ? 'Recipe updated' : 'No changes to save',
+      data: { recipe, version },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Update recipe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update recipe',
+    });
+  }
+});
+
+// DELETE /api/recipes/:id - Delete recipe (protected, creator only)
+// Refused while other users' history, carts or customizations reference it (they'd be deleted too);
+// meal slots that used it are left without a recipe; forks keep their copy and attribution
+router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const recipeId = req.params.id as string;
+
+    const existing = await prisma.recipe.findUnique({ where: { id: recipeId } });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (existing.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only delete your own recipes',
+      });
+    }
+
+    // Deleting would cascade into other people's history, carts and customizations
+    const usedByOthers = await countRecipeReferencesByOthers(recipeId, userId);
+    if (usedByOthers > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Other people have cooked, saved or shopped for this recipe. Make it private instead of deleting it.',
+        data: { references: usedByOthers },
+      });
+    }
+
+    await prisma.recipe.delete({ where: { id: recipeId } });
+
+    res.json({
+      success: true,
+      message: 'Recipe deleted',
+    });
+  } catch (error) {
+    console.error('Delete recipe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete recipe',
+    });
+  }
+});
+
+// GET /api/recipes/:id/scale?servings=N - Recipe with ingredient amounts scaled to N servings (protected)
+// Amounts are rounded to measurable units; originalAmount/originalUnit keep the recipe as written
+router.get('/:id/scale', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { servings } = scaleRecipeSchema.parse(req.query);
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: req.params.id as string },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true },
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (!recipe.isPublic && recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this recipe',
+      });
+    }
+
+    const scale = getServingsScale(recipe.servings, servings);
+
+    res.json({
+      success: true,
+      data: {
+        recipe: {
+          ...recipe,
+          servings,
+          originalServings: recipe.servings,
+          scale,
+          recipeIngredients: recipe.recipeIngredients.map(ri => {
+            const scaled = scaleIngredientAmount(ri.amount, ri.unit, scale, ri.ingredient.name);
+            return {
+              ...ri,
+              amount: scaled.amount,
+              unit: scaled.unit,
+              displayAmount: scaled.display,
+              originalAmount: ri.amount,
+              originalUnit: ri.unit,
+            };
+          }),
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Scale recipe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to scale recipe',
+    });
+  }
+});
+
+// GET /api/recipes/:id/cook-mode?servings=N - Recipe split into steps for cook mode (protected)
+// Each step has its parsed timers and the recipe ingredients it uses; amounts are scaled when servings is given
+router.get('/:id/cook-mode', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { servings } = cookModeSchema.parse(req.query);
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: req.params.id as string },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true },
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (!recipe.isPublic && recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this recipe',
+      });
+    }
+
+    const scale = servings ? getServingsScale(recipe.servings, servings) : 1;
+    const steps = parseRecipeSteps(recipe.instructions, recipe.recipeIngredients);
+
+    res.json({
+      success: true,
+      data: {
+        recipe: {
+          id: recipe.id,
+          title: recipe.title,
+          imageUrl: recipe.imageUrl,
+          prepTime: recipe.prepTime,
+          cookTime: recipe.cookTime,
+          servings: servings ?? recipe.servings,
+          originalServings: recipe.servings,
+        },
+        ingredients: recipe.recipeIngredients.map(ri => {
+          const scaled = scaleIngredientAmount(ri.amount, ri.unit, scale, ri.ingredient.name);
+          return {
+            id: ri.id,
+            ingredientId: ri.ingredientId,
+            name: ri.ingredient.name,
+            amount: scaled.amount,
+            unit: scaled.unit,
+            displayAmount: scaled.display,
+            stepIndexes: steps.filter(step => step.recipeIngredientIds.includes(ri.id)).map(step => step.index),
+          };
+        }),
+        steps,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Get cook mode error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load cook mode',
+    });
+  }
+});
+
+// POST /api/recipes/:id/cooking-events - Record that the user cooked this recipe (protected)
+// For a meal plan slot the event is left undeducted; completing the slot deducts the pantry and reuses it.
+// Outside a meal plan, deductPantry: true deducts the (scaled) ingredients right away.
+router.post('/:id/cooking-events', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const recipeId = req.params.id as string;
+    const data = cookingEventSchema.parse(req.body);
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true },
+        },
+      },
+    });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (!recipe.isPublic && recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this recipe',
+      });
+    }
+
+    if (data.mealSlotId) {
+      const scope = await getOwnerScope(userId);
+      const slot = await prisma.mealSlot.findFirst({
+        where: { id: data.mealSlotId, recipeId, mealPlan: scopeWhere(scope) },
+      });
+
+      if (!slot) {
+        return res.status(404).json({
+          success: false,
+          message: 'Meal slot not found for this recipe',
+        });
+      }
+
+      // Cooking the same slot twice before completing it keeps one event
+      const existing = await prisma.cookingEvent.findFirst({
+        where: { mealSlotId: slot.id, pantryDeducted: false },
+      });
+
+      const cookingEvent = existing
+        ? await prisma.cookingEvent.update({
+          where: { id: existing.id },
+          data: { cookedAt: new Date(), notes: data.notes ?? existing.notes },
+        })
+        : await prisma.cookingEvent.create({
+          data: {
+            userId,
+            recipeId,
+            mealPlanId: slot.mealPlanId,
+            mealSlotId: slot.id,
+            notes: data.notes,
+          },
+        });
+
+      return res.status(201).json({
+        success: true,
+        data: { cookingEvent, deductedItems: [] },
+      });
+    }
+
+    const scale = data.servings ? getServingsScale(recipe.servings, data.servings) : 1;
+    const deductedItems = data.deductPantry
+      ? await deductPantryIngredients(userId, [scaleRecipeIngredients(recipe, scale)])
+      : [];
+
+    const cookingEvent = await prisma.cookingEvent.create({
+      data: {
+        userId,
+        recipeId,
+        pantryDeducted: data.deductPantry,
+        notes: data.notes,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { cookingEvent, deductedItems },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Record cooking event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record cooking event',
+    });
+  }
+});
+
+// POST /api/recipes/:id/fork - Copy a public, AI-generated or own recipe into a personal recipe (protected)
+// The fork links back to the recipe it came from and keeps the original author's id
+router.post('/:id/fork', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const source = await prisma.recipe.findUnique({ where: { id: req.params.id as string } });
+
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (!source.isPublic && source.createdById !== null && source.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to fork this recipe',
+      });
+    }
+
+    const fork = await forkRecipe(source.id, userId);
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: fork.id },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true },
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Recipe forked to your recipes',
+      data: { recipe },
+    });
+  } catch (error) {
+    console.error('Fork recipe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fork recipe',
+    });
+  }
+});
+
+// GET /api/recipes/:id/versions - Version history, newest first, with what changed and who changed it (protected)
+router.get('/:id/versions', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const recipe = await prisma.recipe.findUnique({ where: { id: req.params.id as string } });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (!recipe.isPublic && recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this recipe',
+      });
+    }
+
+    const versions = await prisma.recipeVersion.findMany({
+      where: { recipeId: recipe.id },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        changes: true,
+        changeSummary: true,
+        createdAt: true,
+        changedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: { currentVersion: recipe.currentVersion, versions },
+    });
+  } catch (error) {
+    console.error('Get recipe versions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch recipe versions',
+    });
+  }
+});
+
+// GET /api/recipes/:id/versions/:version - The recipe as of one version (protected)
+router.get('/:id/versions/:version', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const recipe = await prisma.recipe.findUnique({ where: { id: req.params.id as string } });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (!recipe.isPublic && recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this recipe',
+      });
+    }
+
+    const version = await prisma.recipeVersion.findUnique({
+      where: { recipeId_version: { recipeId: recipe.id, version: Number(req.params.version) || 0 } },
+      include: { changedBy: { select: { id: true, name: true } } },
+    });
+
+    if (!version) {
+      return res.status(404).json({
+        success: false,
+        message: 'Version not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { version },
+    });
+  } catch (error) {
+    console.error('Get recipe version error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch recipe version',
+    });
+  }
+});
+
+// POST /api/recipes/:id/versions/:version/rollback - Restore a previous version as a new version (protected, creator only)
+router.post('/:id/versions/:version/rollback', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const recipeId = req.params.id as string;
+    const versionNumber = Number(req.params.version) || 0;
+
+    const recipe = await prisma.recipe.findUnique({ where: { id: recipeId } });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only roll back your own recipes',
+      });
+    }
+
+    const target = await prisma.recipeVersion.findUnique({
+      where: { recipeId_version: { recipeId, version: versionNumber } },
+    });
+
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        message: 'Version not found',
+      });
+    }
+
+    const version = await rollbackRecipe(recipeId, versionNumber, userId);
+    const updated = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true },
+          orderBy: { sortOrder: 'asc' },
+        },
       },
     });
 
-    res.status(201).json({
+    res.json({
       success: true,
-      message: 'Recipe created successfully',
-      data: { recipe },
+      message: version ? `Rolled back to version ${versionNumber}` : `Recipe already matches version ${versionNumber}`,
+      data: { recipe: updated, version },
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        success: false,
-        message: 'Validation error',
-        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
-      });
-    }
-
-    console.error('Create recipe error:', error);
+    console.error('Rollback recipe error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to create recipe',
+      message: 'Failed to roll back recipe',
     });
   }
 });
 
-// GET /api/recipes/:id - Get single recipe (protected)
-router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
+// GET /api/recipes/:id/cost - Estimate what shopping for a recipe costs (protected)
+// Uses recorded prices at the user's preferred store; pantry items can be excluded with ?excludePantry=true
+router.get('/:id/cost', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
     const recipe = await prisma.recipe.findUnique({
       where: { id: req.params.id as string },
       include: {
         recipeIngredients: {
-          include: {
-            ingredient: true,
-          },
-          orderBy: {
-            sortOrder: 'asc',
-          },
-        },
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
+          include: { ingredient: true },
         },
       },
     });
@@ -215,8 +1173,6 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
       });
     }
 
-    // Check if user has permission to view this recipe
-    // Allow if: recipe is public OR user is the creator
     if (!recipe.isPublic && recipe.createdById !== userId) {
       return res.status(403).json({
         success: false,
@@ -224,24 +1180,97 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
       });
     }
 
+    let pantryIngredientIds: string[] = [];
+    if (req.query.excludePantry === 'true') {
+      const scope = await getOwnerScope(userId);
+      const pantry = await prisma.userInventory.findMany({
+        where: { ...scopeWhere(scope), isAvailable: true },
+        select: { ingredientId: true, expiresAt: true },
+      });
+      pantryIngredientIds = partitionByExpiry(pantry).usable.map(item => item.ingredientId);
+    }
+
+    const provider = await resolveGroceryProvider(null, userId);
+    const estimator = await createCostEstimator([recipe], provider, pantryIngredientIds);
+    const estimate = await estimateShoppingCost(estimator, [recipe]);
+
     res.json({
       success: true,
-      data: { recipe },
+      data: {
+        recipeId: recipe.id,
+        provider: provider.id,
+        estimatedCost: estimate.total,
+        costPerServing: recipe.servings > 0 ? Math.round((estimate.total / recipe.servings) * 100) / 100 : null,
+        ingredients: estimate.ingredients,
+        unpricedIngredients: estimate.unpricedIngredients,
+        unpricedEstimate: estimate.unpricedEstimate, // Typical package price per unpriced ingredient; not in estimatedCost
+        pantryIngredients: estimate.pantryIngredients,
+      },
     });
   } catch (error) {
-    console.error('Get recipe error:', error);
+    console.error('Estimate recipe cost error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to fetch recipe',
+      message: 'Failed to estimate recipe cost',
+    });
+  }
+});
+
+// GET /api/recipes/:id/nutrition - Per-ingredient nutrition breakdown (protected)
+// Shows computed vs reported (AI / source) macros per serving and which ingredients couldn't be weighed
+router.get('/:id/nutrition', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: req.params.id as string },
+      select: { id: true, isPublic: true, createdById: true },
+    });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recipe not found',
+      });
+    }
+
+    if (!recipe.isPublic && recipe.createdById !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to view this recipe',
+      });
+    }
+
+    await refreshStaleNutrition([recipe.id]);
+    const nutrition = await getRecipeNutritionReport(recipe.id);
+
+    res.json({
+      success: true,
+      data: { nutrition },
+    });
+  } catch (error) {
+    console.error('Get recipe nutrition error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to compute recipe nutrition',
     });
   }
 });
 
-// PATCH /api/recipes/:recipeId/ingredients/:ingredientId - Update a recipe ingredient with Walmart product
-router.patch('/:recipeId/ingredients/:ingredientId', async (req: Request, res: Response) => {
+// PATCH /api/recipes/:recipeId/ingredients/:ingredientId - Update a recipe ingredient (protected)
+// Accepts the Walmart product and, for the recipe's creator, the amount/unit used in this recipe
+// (saved as a new recipe version, with the recipe's nutrition recomputed)
+router.patch('/:recipeId/ingredients/:ingredientId', authMiddleware, async (req: Request, res: Response) => {
   try {
     const { recipeId, ingredientId } = req.params;
-    const { walmartItemId, walmartProductName } = req.body;
+
+    if (INGREDIENT_NUTRITION_FIELDS.some(field => req.body?.[field] !== undefined)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Ingredient nutrition is shared across recipes; update it with PUT /api/ingredients/:id',
+      });
+    }
+
+    const data = updateRecipeIngredientSchema.parse(req.body);
 
     // Find the recipe ingredient
     const recipeIngredient = await prisma.recipeIngredient.findFirst({
@@ -249,6 +1278,14 @@ router.patch('/:recipeId/ingredients/:ingredientId', async (req: Request, res: R
         recipeId: recipeId as string,
         ingredientId: ingredientId as string,
       },
+      include: {
+        recipe: {
+          select: {
+            createdById: true,
+            recipeIngredients: { orderBy: { sortOrder: 'asc' } },
+          },
+        },
+      },
     });
 
     if (!recipeIngredient) {
@@ -258,22 +1295,72 @@ router.patch('/:recipeId/ingredients/:ingredientId', async (req: Request, res: R
       });
     }
 
+    const changesRecipe = data.amount !== undefined || data.unit !== undefined || data.notes !== undefined;
+    // AI recipes have no creator, so they must be forked before they can be edited
+    if (changesRecipe && recipeIngredient.recipe.createdById !== req.user!.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only edit your own recipes. Fork this recipe to edit a copy.',
+      });
+    }
+
     // Update the ingredient with Walmart product info
     // Keep the original name, just add the Walmart-specific fields
     const updatedIngredient = await prisma.ingredient.update({
       where: { id: ingredientId as string },
       data: {
-        walmartItemId: walmartItemId || undefined,
-        walmartProductName: walmartProductName || undefined,
+        walmartItemId: data.walmartItemId || undefined,
+        walmartProductName: data.walmartProductName || undefined,
       },
     });
 
+    // Amount, unit and notes are recipe content, so the edit is saved as a new version like PUT /:id
+    const version = changesRecipe
+      ? await updateRecipeWithVersion(recipeId as string, req.user!.userId, {
+        ingredients: recipeIngredient.recipe.recipeIngredients.map(ri => ri.id === recipeIngredient.id
+          ? {
+            ingredientId: ri.ingredientId,
+            amount: data.amount ?? ri.amount,
+            unit: data.unit ?? ri.unit,
+            notes: data.notes !== undefined ? data.notes : ri.notes,
+          }
+          : { ingredientId: ri.ingredientId, amount: ri.amount, unit: ri.unit, notes: ri.notes }),
+      })
+      : null;
+
+    // A new version recreates the recipe's ingredient rows
+    const updatedRecipeIngredient = version
+      ? await prisma.recipeIngredient.findFirstOrThrow({
+        where: { recipeId: recipeId as string, ingredientId: ingredientId as string },
+      })
+      : recipeIngredient;
+
+    const nutrition = version ? await recalculateRecipeNutrition(recipeId as string) : null;
+
     res.json({
       success: true,
-      data: { ingredient: updatedIngredient },
-      message: 'Ingredient updated successfully',
+      data: {
+        ingredient: updatedIngredient,
+        recipeIngredient: {
+          id: updatedRecipeIngredient.id,
+          amount: updatedRecipeIngredient.amount,
+          unit: updatedRecipeIngredient.unit,
+          notes: updatedRecipeIngredient.notes,
+        },
+        nutrition,
+        version,
+      },
+      message: version ? `Recipe updated to version ${version.version}` : 'Ingredient updated successfully',
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid input',
+        errors: error.errors,
+      });
+    }
+
     console.error('Update ingredient error:', error);
     res.status(500).json({
       success: false,
@@ -501,10 +1588,11 @@ router.post('/:id/use', authMiddleware, async (req: Request, res: Response) => {
 });
 
 // POST /api/recipes/import-url - Import recipe from external URL (protected, charges 1 credit)
+// Recipes containing the user's allergens are refused with 409 unless allowAllergens is true
 router.post('/import-url', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
-    const { url } = req.body;
+    const { url, allowAllergens } = req.body;
 
     // Validate URL
     if (!url || typeof url !== 'string') {
@@ -532,7 +1620,7 @@ router.post('/import-url', authMiddleware, async (req: Request, res: Response) =
     }
 
     // Import recipe
-    const { importRecipeFromUrl, findOrCreateIngredient } = await import('../services/urlRecipeImporter.js');
+    const { importRecipeFromUrl } = await import('../services/urlRecipeImporter.js');
 
     let importResult;
     try {
@@ -546,95 +1634,35 @@ router.post('/import-url', authMiddleware, async (req: Request, res: Response) =
 
     const { recipe: parsedRecipe, extractionMethod, usedCache } = importResult;
 
+    // Refuse recipes with the user's allergens unless they confirm (e.g. importing for someone else)
+    const allergyProfile = await getUserAllergyProfile(userId);
+    const allergenConflicts = await checkIngredientNames(parsedRecipe.ingredients.map(ing => ing.name), allergyProfile);
+    if (allergenConflicts.length > 0 && allowAllergens !== true) {
+      return res.status(409).json({
+        success: false,
+        message: describeAllergenConflicts(allergenConflicts),
+        data: {
+          title: parsedRecipe.title,
+          allergenConflicts,
+        },
+      });
+    }
+
     // Extract domain for sourceWebsite
     const urlObj = new URL(url);
     const sourceWebsite = urlObj.hostname.replace('www.', '');
 
-    // Create ingredients and get IDs
-    const rawIngredientData = await Promise.all(
-      parsedRecipe.ingredients.map(async (ing, index) => {
-        const ingredientId = await findOrCreateIngredient(ing.name);
-        return {
-          ingredientId,
-          amount: parseFloat(ing.amount) || 1,
-          unit: ing.unit || 'piece',
-          notes: ing.notes || null,
-          sortOrder: index,
-        };
-      })
-    );
-
-    // Deduplicate by ingredientId (merge duplicate ingredients)
-    const ingredientMap = new Map<string, typeof rawIngredientData[0]>();
-    for (const item of rawIngredientData) {
-      const existing = ingredientMap.get(item.ingredientId);
-      if (existing) {
-        // Merge: sum amounts if same unit, otherwise keep first occurrence
-        if (existing.unit === item.unit) {
-          existing.amount += item.amount;
-          existing.notes = existing.notes
-            ? `${existing.notes}; ${item.notes || ''}`.trim()
-            : item.notes;
-        }
-      } else {
-        ingredientMap.set(item.ingredientId, item);
-      }
-    }
-
-    const ingredientData = Array.from(ingredientMap.values());
-
-    // Infer meal type from title
-    const title = parsedRecipe.title.toLowerCase();
-    const mealType: string[] = [];
-    if (title.includes('breakfast') || title.includes('pancake') || title.includes('omelette')) {
-      mealType.push('breakfast');
-    }
-    if (title.includes('lunch') || title.includes('sandwich') || title.includes('salad')) {
-      mealType.push('lunch');
-    }
-    if (title.includes('dinner') || title.includes('roast') || title.includes('stew')) {
-      mealType.push('dinner');
-    }
-    if (mealType.length === 0) {
-      mealType.push('lunch', 'dinner'); // Default
-    }
+    const recipe = await createImportedRecipe(userId, parsedRecipe, {
+      importMethod: 'url',
+      sourceUrl: url,
+      sourceWebsite,
+    });
 
-    // Create recipe in database
-    const recipe = await prisma.recipe.create({
-      data: {
-        title: parsedRecipe.title,
-        description: null, // NO DESCRIPTION - copyright protection
-        instructions: parsedRecipe.instructions,
-        prepTime: parsedRecipe.prepTime,
-        cookTime: parsedRecipe.cookTime,
-        servings: parsedRecipe.servings,
-        calories: parsedRecipe.nutrition?.calories || null,
-        protein: parsedRecipe.nutrition?.protein || null,
-        carbs: parsedRecipe.nutrition?.carbs || null,
-        fat: parsedRecipe.nutrition?.fat || null,
-        imageUrl: null, // Don't copy images (copyright)
-        mealType,
-        createdById: userId,
-        isPublic: false, // Always private
-        isAiGenerated: false,
-        usageCost: 0, // Free - recipe use charges disabled for competition
-        isImported: true,
-        sourceUrl: url,
-        sourceWebsite,
-        importedAt: new Date(),
-        canBePublic: false, // CANNOT be made public (copyright protection)
-        recipeIngredients: {
-          create: ingredientData,
-        },
-      },
-      include: {
-        recipeIngredients: {
-          include: {
-            ingredient: true,
-          },
-        },
-      },
+    const nutrition = await recalculateRecipeNutrition(recipe.id).catch(error => {
+      console.error('Failed to compute imported recipe nutrition:', error);
+      return null;
     });
+    scheduleEmbeddingRefresh();
 
     // Charge credit ONLY after successful import
     const { chargeCredits } = await import('../services/credit.js');
@@ -661,7 +1689,8 @@ router.post('/import-url', authMiddleware, async (req: Request, res: Response) =
         ? 'Recipe imported from cache (1 credit)'
         : 'Recipe imported successfully (1 credit)',
       data: {
-        recipe,
+        recipe: { ...recipe, ...getRecipeAllergenReport(recipe.recipeIngredients.map(ri => ri.ingredient), allergyProfile) },
+        nutrition,
         extractionMethod,
         usedCache,
         balance: newBalance,
@@ -676,4 +1705,232 @@ router.post('/import-url', authMiddleware, async (req: Request, res: Response) =
   }
 });
 
+/**
+ * Rows belonging to other users that deleting the recipe would cascade into
+ */
+async function countRecipeReferencesByOthers(recipeId: string, ownerId: string): Promise<number> {
+  const otherUser = { recipeId, userId: { not: ownerId } };
+  const counts = await Promise.all([
+    prisma.cookingEvent.count({ where: otherUser }),
+    prisma.recipeHistory.count({ where: otherUser }),
+    prisma.recipeUsage.count({ where: otherUser }),
+    prisma.userRecipeCustomization.count({ where: otherUser }),
+    prisma.shoppingListRecipe.count({ where: { recipeId, shoppingList: { userId: { not: ownerId } } } }),
+  ]);
+  return counts.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Turn an extraction into a reviewable draft, charge the import credit and respond.
+ * The draft isn't saved; POST /import-draft saves it.
+ */
+async function sendImportDraft(res: Response, userId: string, result: ImportResult, description: string) {
+  const draft = await buildImportDraft(result.recipe);
+
+  // Shown on the review screen; saving refuses them unless confirmed
+  const allergyProfile = await getUserAllergyProfile(userId);
+  const allergenConflicts = await checkIngredientNames(draft.ingredients.map(ing => ing.name), allergyProfile);
+
+  // Charge credit only after a successful extraction
+  await chargeCredits(userId, 1, 'AI_RECIPE_IMPORT', `${description}: ${draft.title}`, {
+    recipeTitle: draft.title,
+    extractionMethod: result.extractionMethod,
+  });
+  const balance = await getBalance(userId);
+
+  res.json({
+    success: true,
+    message: 'Recipe draft ready to review (1 credit)',
+    data: {
+      draft,
+      allergenConflicts,
+      extractionMethod: result.extractionMethod,
+      balance,
+    },
+  });
+}
+
+// POST /api/recipes/import-text - Draft a recipe from pasted text (protected, charges 1 credit)
+// Returns a draft to review; nothing is saved until POST /import-draft
+router.post('/import-text', authMiddleware, requireCredits(1), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { text } = importTextSchema.parse(req.body);
+
+    let result;
+    try {
+      result = await extractRecipeFromText(text);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to find a recipe in the text',
+      });
+    }
+
+    await sendImportDraft(res, userId, result, 'Drafted recipe from text');
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Import text error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import recipe text',
+    });
+  }
+});
+
+// POST /api/recipes/import-image - Draft a recipe from a photo or screenshot (protected, charges 1 credit)
+// Body: imageBase64 (raw base64 or a data URL). Returns a draft like /import-text.
+router.post('/import-image', authMiddleware, requireCredits(1), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { imageBase64 } = importImageSchema.parse(req.body);
+
+    let result;
+    try {
+      result = await extractRecipeFromImage(imageBase64);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to find a recipe in the photo',
+      });
+    }
+
+    await sendImportDraft(res, userId, result, 'Drafted recipe from photo');
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Import image error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import recipe photo',
+    });
+  }
+});
+
+// POST /api/recipes/import-draft - Save a reviewed text/photo import draft (protected)
+// Saved like URL imports: private, no description, can't be made public.
+// Recipes containing the user's allergens are refused with 409 unless allowAllergens is true
+router.post('/import-draft', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const data = importDraftSchema.parse(req.body);
+
+    const allergyProfile = await getUserAllergyProfile(userId);
+    const allergenConflicts = await checkIngredientNames(data.ingredients.map(ing => ing.name), allergyProfile);
+    if (allergenConflicts.length > 0 && data.allowAllergens !== true) {
+      return res.status(409).json({
+        success: false,
+        message: describeAllergenConflicts(allergenConflicts),
+        data: {
+          title: data.title,
+          allergenConflicts,
+        },
+      });
+    }
+
+    const recipe = await createImportedRecipe(userId, {
+      title: data.title,
+      ingredients: data.ingredients.map(ing => ({
+        name: ing.name,
+        amount: ing.amount,
+        unit: ing.unit,
+        ...(ing.notes ? { notes: ing.notes } : {}),
+      })),
+      instructions: data.instructions,
+      prepTime: data.prepTime,
+      cookTime: data.cookTime,
+      servings: data.servings,
+      nutrition: data.nutrition,
+      mealType: data.mealType,
+      cuisine: data.cuisine === undefined ? undefined : data.cuisine ? resolveCuisine(data.cuisine) : null,
+    }, {
+      importMethod: data.source,
+      sourceName: data.sourceName || null,
+    });
+
+    const nutrition = await recalculateRecipeNutrition(recipe.id).catch(error => {
+      console.error('Failed to compute imported recipe nutrition:', error);
+      return null;
+    });
+    scheduleEmbeddingRefresh();
+
+    res.status(201).json({
+      success: true,
+      message: 'Recipe imported',
+      data: {
+        recipe: { ...recipe, ...getRecipeAllergenReport(recipe.recipeIngredients.map(ri => ri.ingredient), allergyProfile) },
+        nutrition,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Save import draft error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save imported recipe',
+    });
+  }
+});
+
+// POST /api/recipes/bulk-import - Import recipes from an export file (protected, free: no AI involved)
+// Body: { format: jsonld | jsonld-zip | paprika | markdown, content, allowAllergens? }
+router.post('/bulk-import', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const data = bulkImportSchema.parse(req.body);
+
+    let contents;
+    try {
+      contents = readImportFile(data.format, data.content);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to read the file',
+      });
+    }
+
+    const result = await importRecipeFile(userId, contents, { allowAllergens: data.allowAllergens });
+
+    res.status(result.imported > 0 ? 201 : 200).json({
+      success: true,
+      message: `Imported ${result.imported} of ${result.items.length} recipes`,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+
+    console.error('Bulk import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import recipes',
+    });
+  }
+});
+
 export default router;
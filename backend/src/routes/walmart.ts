@@ -1,7 +1,10 @@
 import express, { Request, Response, Router } from 'express';
 import { searchWalmartProducts, getWalmartProduct, findIngredientPrice } from '../services/walmart.js';
 import { calculatePurchaseCount } from '../services/unitConversionService.js';
+import { toGroceryProduct } from '../services/walmartProvider.js';
+import { recordAndComparePrices, type PriceComparison } from '../services/priceHistoryService.js';
 import { prisma } from '../index.js';
+import { optionalAuthMiddleware } from '../middleware/auth.js';
 import {
   grantWalmartCheckoutCredits,
   markUsagesEligibleForPayout,
@@ -210,11 +213,11 @@ router.get('/similar/:ingredientName', async (req: Request, res: Response) => {
 
 /**
  * @route   POST /api/walmart/recipe-pricing
- * @desc    Get pricing for all ingredients in a recipe
- * @body    ingredients - Array of ingredient names
+ * @desc    Get pricing for all ingredients in a recipe (recorded in the price history for signed-in users)
+ * @body    ingredients - Array of ingredient names or { name, ingredientId?, amount?, unit? }
  * @access  Public
  */
-router.post('/recipe-pricing', async (req: Request, res: Response) => {
+router.post('/recipe-pricing', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
     const { ingredients } = req.body;
 
@@ -272,10 +275,26 @@ router.post('/recipe-pricing', async (req: Request, res: Response) => {
       })
     );
 
+    // Flag unusual prices; only signed-in runs are recorded in the price history
+    const found = results.filter(r => r.product);
+    const comparisons = new Map<object, PriceComparison | null>();
+    try {
+      const recorded = await recordAndComparePrices(found.map(r => ({
+        product: toGroceryProduct(r.product!),
+        ingredientId: r.ingredient.ingredientId,
+        ingredientName: r.ingredient.name || r.ingredient,
+      })), { record: Boolean(req.user) });
+      found.forEach((r, index) => comparisons.set(r, recorded[index]));
+    } catch (error) {
+      console.error('Error recording price history:', error);
+    }
+
+    const pricedResults = results.map(r => ({ ...r, priceComparison: comparisons.get(r) ?? null }));
+
     res.json({
       success: true,
       data: {
-        results,
+        results: pricedResults,
         totalIngredients: ingredients.length,
         foundPrices: results.filter(r => r.product !== null).length,
       },
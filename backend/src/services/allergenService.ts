@@ -0,0 +1,152 @@
+// Allergen Service
+// Checks recipes and ingredient lists against a user's allergies. Ingredient allergens are the
+// stored Ingredient.allergens tags plus whatever the ingredient name itself signals, so an
+// untagged ingredient is never treated as safe.
+
+import { prisma } from '../index.js';
+import {
+  detectAllergens,
+  getAllergenLabel,
+  isCatalogAllergen,
+  matchesAllergyTerm,
+  resolveAllergies,
+  type AllergyProfile,
+} from '../config/allergenCatalog.js';
+import { normalizeIngredientName } from '../utils/ingredientNormalizer.js';
+import { getUserActivePreferences, mapPreferencesToAgentParams } from './preferenceMapper.js';
+
+export interface AllergenIngredient {
+  name: string;
+  allergens?: string[]; // Stored tags, when the ingredient exists
+}
+
+export interface AllergenBadge {
+  id: string; // Catalog id or custom tag
+  label: string;
+  custom: boolean;
+  ingredients: string[]; // Ingredients in the recipe that carry it
+}
+
+export interface AllergenConflict {
+  allergen: string; // Catalog id or the user's custom term
+  label: string;
+  ingredient: string;
+}
+
+export interface RecipeAllergenReport {
+  allergens: AllergenBadge[];
+  conflicts: AllergenConflict[];
+  excludedReason: string | null; // Why the recipe is excluded for this user; null when safe
+}
+
+/**
+ * A user's allergies from their active preferences
+ */
+export async function getUserAllergyProfile(userId: string): Promise<AllergyProfile> {
+  const params = mapPreferencesToAgentParams(await getUserActivePreferences(userId));
+  return resolveAllergies(params.allergies ?? []);
+}
+
+export function hasAllergies(profile: AllergyProfile): boolean {
+  return profile.allergens.length > 0 || profile.customTerms.length > 0;
+}
+
+function getIngredientAllergens(ingredient: AllergenIngredient): string[] {
+  return [...new Set([...(ingredient.allergens ?? []), ...detectAllergens(ingredient.name)])];
+}
+
+/**
+ * Every allergen a recipe's ingredients carry, for display
+ */
+export function getRecipeAllergens(ingredients: AllergenIngredient[]): AllergenBadge[] {
+  const badges = new Map<string, AllergenBadge>();
+
+  for (const ingredient of ingredients) {
+    for (const allergen of getIngredientAllergens(ingredient)) {
+      const badge = badges.get(allergen) ?? {
+        id: allergen,
+        label: getAllergenLabel(allergen),
+        custom: !isCatalogAllergen(allergen),
+        ingredients: []
+      };
+      badge.ingredients.push(ingredient.name);
+      badges.set(allergen, badge);
+    }
+  }
+
+  return [...badges.values()];
+}
+
+/**
+ * Ingredients that conflict with the user's allergies, one entry per allergen per ingredient
+ */
+export function findAllergenConflicts(ingredients: AllergenIngredient[], profile: AllergyProfile): AllergenConflict[] {
+  const conflicts: AllergenConflict[] = [];
+
+  for (const ingredient of ingredients) {
+    const allergens = getIngredientAllergens(ingredient);
+
+    for (const allergen of profile.allergens) {
+      if (allergens.includes(allergen)) {
+        conflicts.push({ allergen, label: getAllergenLabel(allergen), ingredient: ingredient.name });
+      }
+    }
+    for (const term of profile.customTerms) {
+      if (allergens.includes(term) || matchesAllergyTerm(ingredient.name, term)) {
+        conflicts.push({ allergen: term, label: term, ingredient: ingredient.name });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Human-readable reason, e.g. "Contains Milk (butter, parmesan) and Peanuts (peanut butter)"
+ */
+export function describeAllergenConflicts(conflicts: AllergenConflict[]): string {
+  const byAllergen = new Map<string, string[]>();
+  for (const conflict of conflicts) {
+    byAllergen.set(conflict.label, [...(byAllergen.get(conflict.label) ?? []), conflict.ingredient]);
+  }
+
+  const parts = [...byAllergen.entries()].map(([label, ingredients]) => `${label} (${[...new Set(ingredients)].join(', ')})`);
+  if (parts.length <= 1) {
+    return `Contains ${parts.join('')}`;
+  }
+  return `Contains ${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+/**
+ * Allergen badges for a recipe plus, for this user, whether and why it is excluded
+ */
+export function getRecipeAllergenReport(ingredients: AllergenIngredient[], profile: AllergyProfile): RecipeAllergenReport {
+  const conflicts = findAllergenConflicts(ingredients, profile);
+
+  return {
+    allergens: getRecipeAllergens(ingredients),
+    conflicts,
+    excludedReason: conflicts.length > 0 ? describeAllergenConflicts(conflicts) : null
+  };
+}
+
+/**
+ * Check ingredient names that aren't saved yet (AI output, URL imports).
+ * Names that match an existing ingredient also bring that ingredient's stored tags.
+ */
+export async function checkIngredientNames(names: string[], profile: AllergyProfile): Promise<AllergenConflict[]> {
+  if (!hasAllergies(profile) || names.length === 0) {
+    return [];
+  }
+
+  const existing = await prisma.ingredient.findMany({
+    where: { name: { in: names.map(normalizeIngredientName) } },
+    select: { name: true, allergens: true }
+  });
+  const tagsByName = new Map(existing.map(ingredient => [ingredient.name, ingredient.allergens]));
+
+  return findAllergenConflicts(
+    names.map(name => ({ name, allergens: tagsByName.get(normalizeIngredientName(name)) })),
+    profile
+  );
+}
@@ -0,0 +1,336 @@
+// Cart Item Service
+// Cart items that don't come from recipes: free-form items the user types in ("paper towels",
+// linked to an Ingredient when the name is a known one) and staples, the things a user buys
+// regularly, suggested into new carts when their reorder cadence says they're due.
+
+import { addDays } from 'date-fns';
+import type { Ingredient, ShoppingListItem, Staple } from '@prisma/client';
+import { prisma } from '../index.js';
+import { ownsResource, scopeWhere, type OwnerScope } from './householdService.js';
+import { canonicalizeIngredientNames } from './ingredientCanonicalizationService.js';
+import { parseQuantity, readQuantity, toQuantityColumns } from '../utils/quantity.js';
+import type { CartItem } from './ingredientSimilarity.js';
+
+export type CartItemSource = 'recipe' | 'manual' | 'staple';
+
+const SOURCE_TITLES: Record<Exclude<CartItemSource, 'recipe'>, string> = {
+  manual: 'Added manually',
+  staple: 'Staple',
+};
+
+export interface CartItemInput {
+  name: string;
+  amount?: number;
+  unit?: string;
+  ingredientId?: string; // Link to this ingredient instead of looking the name up
+}
+
+export interface StapleInput {
+  name: string;
+  amount?: number;
+  unit?: string;
+  cadenceDays?: number | null;
+  ingredientId?: string | null;
+}
+
+export interface StapleWithDue extends Staple {
+  nextDueAt: Date | null; // null: due whenever a new cart is started
+  due: boolean;
+}
+
+export type ItemWithIngredient = ShoppingListItem & { ingredient: Ingredient | null };
+
+/**
+ * Display name for a cart item: its ingredient's name, else the free-form name
+ */
+export function cartItemName(item: { name: string | null; ingredient?: { name: string } | null }): string {
+  return item.ingredient?.name ?? item.name ?? 'Unnamed item';
+}
+
+/**
+ * Manual and staple items are carried onto a regenerated cart as they are, rather than
+ * combined into the recipe ingredients
+ */
+export function isRecipeItem(item: ItemWithIngredient): item is ShoppingListItem & { ingredient: Ingredient } {
+  return item.source === 'recipe' && item.ingredient !== null;
+}
+
+/**
+ * Columns for copying a manual or staple item onto a new cart
+ */
+export function carriedItemData(item: ShoppingListItem) {
+  return {
+    ingredientId: item.ingredientId,
+    name: item.name,
+    source: item.source,
+    stapleId: item.stapleId,
+    totalAmount: item.totalAmount,
+    unit: item.unit,
+    quantityValue: item.quantityValue,
+    quantityUnit: item.quantityUnit,
+    quantityApproximate: item.quantityApproximate,
+    walmartItemId: item.walmartItemId,
+    estimatedPrice: item.estimatedPrice,
+    isPurchased: item.isPurchased,
+  };
+}
+
+/**
+ * A manual or staple item in the cart format used for enrichment and checkout. The
+ * recipe breakdown names the source in place of a recipe.
+ */
+export function toSourceCartItem(item: ItemWithIngredient): CartItem & { source: CartItemSource } {
+  const quantity = readQuantity(item);
+  const amount = quantity?.value ?? parseFloat(item.totalAmount);
+  const unit = quantity?.unit ?? item.unit;
+  const source = item.source === 'staple' ? 'staple' : 'manual';
+
+  return {
+    ingredientId: item.ingredientId ?? '',
+    ingredientName: cartItemName(item),
+    amount,
+    unit,
+    walmartItemId: item.walmartItemId ?? item.ingredient?.walmartItemId,
+    walmartSearchTerm: item.ingredient?.walmartSearchTerm ?? item.name,
+    recipes: [SOURCE_TITLES[source]],
+    recipeBreakdown: [{ recipeId: source, recipeTitle: SOURCE_TITLES[source], amount, unit }],
+    source,
+  };
+}
+
+/**
+ * The existing Ingredient for a free-form name, if there is one. Nothing is created, so
+ * "paper towels" stays a free-form item.
+ */
+async function findIngredientByName(name: string): Promise<Ingredient | null> {
+  const [canonical] = await canonicalizeIngredientNames([name]);
+  return canonical ? prisma.ingredient.findUnique({ where: { name: canonical.name } }) : null;
+}
+
+/**
+ * The Ingredient a caller picked by id; throws when it doesn't exist
+ */
+async function requireIngredient(ingredientId: string): Promise<Ingredient> {
+  const ingredient = await prisma.ingredient.findUnique({ where: { id: ingredientId } });
+  if (!ingredient) {
+    throw new Error('Ingredient not found');
+  }
+  return ingredient;
+}
+
+/**
+ * The owner's active cart, started with the given source when there isn't one
+ */
+export async function getOrCreateActiveCart(scope: OwnerScope, source: string) {
+  return await prisma.shoppingList.findFirst({
+    where: { ...scopeWhere(scope), isActive: true },
+    include: { items: true },
+  }) ?? await prisma.shoppingList.create({
+    data: {
+      userId: scope.userId,
+      householdId: scope.householdId,
+      mealPlanId: null,
+      source,
+      isActive: true,
+    },
+    include: { items: true },
+  });
+}
+
+/**
+ * Add a free-form item to the active cart
+ */
+export async function addManualItem(scope: OwnerScope, input: CartItemInput): Promise<ItemWithIngredient> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Item name is required');
+  }
+
+  const ingredient = input.ingredientId
+    ? await requireIngredient(input.ingredientId)
+    : await findIngredientByName(name);
+
+  const cart = await getOrCreateActiveCart(scope, 'manual');
+  const amount = input.amount ?? 1;
+  const unit = input.unit?.trim() || 'each';
+
+  const item = await prisma.shoppingListItem.create({
+    data: {
+      shoppingListId: cart.id,
+      ingredientId: ingredient?.id ?? null,
+      name,
+      source: 'manual',
+      totalAmount: amount.toString(),
+      unit,
+      ...toQuantityColumns(parseQuantity(amount, unit)),
+      walmartItemId: ingredient?.walmartItemId ?? null,
+    },
+    include: { ingredient: true },
+  });
+
+  console.log(`🛒 Added "${name}" to cart ${cart.id}`);
+  return item;
+}
+
+/**
+ * Remove an item from one of the owner's carts
+ */
+export async function removeCartItem(scope: OwnerScope, itemId: string): Promise<void> {
+  const item = await prisma.shoppingListItem.findUnique({
+    where: { id: itemId },
+    include: { shoppingList: true },
+  });
+  if (!item || !ownsResource(scope, item.shoppingList)) {
+    throw new Error('Shopping list item not found');
+  }
+
+  await prisma.shoppingListItem.delete({ where: { id: itemId } });
+}
+
+function withDue(staple: Staple, now: Date): StapleWithDue {
+  const nextDueAt = staple.lastAddedAt && staple.cadenceDays !== null
+    ? addDays(staple.lastAddedAt, staple.cadenceDays)
+    : null;
+  return { ...staple, nextDueAt, due: !nextDueAt || nextDueAt <= now };
+}
+
+/**
+ * The user's staples by name, with when each is next due
+ */
+export async function listStaples(userId: string): Promise<StapleWithDue[]> {
+  const staples = await prisma.staple.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+  });
+  const now = new Date();
+  return staples.map(staple => withDue(staple, now));
+}
+
+/**
+ * Add a staple. The name is linked to an existing ingredient when it is one.
+ */
+export async function createStaple(userId: string, input: StapleInput): Promise<StapleWithDue> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Staple name is required');
+  }
+
+  const ingredientId = input.ingredientId
+    ? (await requireIngredient(input.ingredientId)).id
+    : (await findIngredientByName(name))?.id ?? null;
+  const staple = await prisma.staple.create({
+    data: {
+      userId,
+      ingredientId,
+      name,
+      amount: input.amount ?? 1,
+      unit: input.unit?.trim() || 'each',
+      cadenceDays: input.cadenceDays ?? null,
+    },
+  });
+
+  console.log(`🛒 Added staple "${name}"`);
+  return withDue(staple, new Date());
+}
+
+/**
+ * Update one of the user's staples
+ */
+export async function updateStaple(userId: string, stapleId: string, input: Partial<StapleInput>): Promise<StapleWithDue> {
+  const existing = await prisma.staple.findUnique({ where: { id: stapleId } });
+  if (!existing || existing.userId !== userId) {
+    throw new Error('Staple not found');
+  }
+
+  const name = input.name?.trim();
+  if (input.ingredientId) {
+    await requireIngredient(input.ingredientId);
+  }
+
+  const staple = await prisma.staple.update({
+    where: { id: stapleId },
+    data: {
+      ...(name && { name }),
+      ...(name && input.ingredientId === undefined && { ingredientId: (await findIngredientByName(name))?.id ?? null }),
+      ...(input.ingredientId !== undefined && { ingredientId: input.ingredientId }),
+      ...(input.amount !== undefined && { amount: input.amount }),
+      ...(input.unit && { unit: input.unit.trim() }),
+      ...(input.cadenceDays !== undefined && { cadenceDays: input.cadenceDays }),
+    },
+  });
+
+  return withDue(staple, new Date());
+}
+
+/**
+ * Delete one of the user's staples (cart items added from it are kept)
+ */
+export async function deleteStaple(userId: string, stapleId: string): Promise<void> {
+  const { count } = await prisma.staple.deleteMany({ where: { id: stapleId, userId } });
+  if (count === 0) {
+    throw new Error('Staple not found');
+  }
+}
+
+/**
+ * Due staples that aren't on the cart yet, by staple, ingredient or name
+ */
+export async function getDueStaples(
+  userId: string,
+  cartItems: Array<{ ingredientId: string | null; name?: string | null; stapleId?: string | null }> = []
+): Promise<StapleWithDue[]> {
+  const stapleIds = new Set(cartItems.map(item => item.stapleId).filter(Boolean));
+  const ingredientIds = new Set(cartItems.map(item => item.ingredientId).filter(Boolean));
+  const names = new Set(cartItems.map(item => item.name?.trim().toLowerCase()).filter(Boolean));
+
+  return (await listStaples(userId)).filter(staple =>
+    staple.due
+    && !stapleIds.has(staple.id)
+    && !(staple.ingredientId && ingredientIds.has(staple.ingredientId))
+    && !names.has(staple.name.toLowerCase())
+  );
+}
+
+/**
+ * Put staples on the active cart: the ones given, or every due staple not on it yet.
+ * Each staple's cadence restarts from now.
+ */
+export async function addStaplesToCart(
+  scope: OwnerScope,
+  userId: string,
+  stapleIds?: string[]
+): Promise<{ shoppingListId: string; added: number }> {
+  const cart = await getOrCreateActiveCart(scope, 'manual');
+
+  const ids = stapleIds ?? (await getDueStaples(userId, cart.items)).map(staple => staple.id);
+  const staples = await prisma.staple.findMany({
+    where: { id: { in: ids }, userId },
+    include: { ingredient: true },
+  });
+  if (staples.length === 0) {
+    throw new Error('No staples to add');
+  }
+
+  await prisma.$transaction([
+    ...staples.map(staple => prisma.shoppingListItem.create({
+      data: {
+        shoppingListId: cart.id,
+        ingredientId: staple.ingredientId,
+        name: staple.name,
+        source: 'staple',
+        stapleId: staple.id,
+        totalAmount: staple.amount.toString(),
+        unit: staple.unit,
+        ...toQuantityColumns(parseQuantity(staple.amount, staple.unit)),
+        walmartItemId: staple.ingredient?.walmartItemId ?? null,
+      },
+    })),
+    prisma.staple.updateMany({
+      where: { id: { in: staples.map(staple => staple.id) } },
+      data: { lastAddedAt: new Date() },
+    }),
+  ]);
+
+  console.log(`🛒 Added ${staples.length} staples to cart ${cart.id}`);
+  return { shoppingListId: cart.id, added: staples.length };
+}
@@ -0,0 +1,686 @@
+// Cart Update Service
+// Adds recipes to, and takes them off, the active cart one at a time. Each recipe's share of an
+// item is kept (ShoppingListContribution), so only that share changes: other items, product
+// selections and purchased flags stay as they are, and only the new ingredients are checked for
+// similar ones. Returns what changed, for the cart screen to apply without reloading.
+
+import { startOfDay, endOfWeek } from 'date-fns';
+import type { Ingredient, Prisma, ShoppingListItem } from '@prisma/client';
+import { prisma } from '../index.js';
+import { ownsResource, scopeWhere, type OwnerScope } from './householdService.js';
+import { getOrCreateActiveCart, isRecipeItem, toSourceCartItem, type CartItemSource } from './cartItemService.js';
+import { allocatePantry, coverFromPantry, type ExpiredPantryItem, type PantryAllocation, type PantryCoverage, type PantryNeed } from './pantryAllocationService.js';
+import { loadConversionTable, convertQuantity, type ConversionTable } from './unitConversionService.js';
+import { detectSimilarIngredients, mergeIngredients, type CartItem, type PotentialMerge } from './ingredientSimilarity.js';
+import { applyPlannedVersions } from './recipeVersionService.js';
+import { isLeftoverSlot } from './leftoverService.js';
+import { getServingsScale, getSlotScale } from '../utils/recipeScaling.js';
+import { parseQuantity, readQuantity, toQuantityColumns, type Quantity } from '../utils/quantity.js';
+
+type TxClient = Prisma.TransactionClient;
+
+// Remainders this small are float noise from conversions; the item is used up
+const EPSILON = 1e-6;
+
+// Similarity of a "same ingredient" group, offered as a merge rather than merged on an existing cart
+const SAME_INGREDIENT_SIMILARITY = 0.95;
+
+export const CART_ITEM_INCLUDE = {
+  ingredient: true,
+  contributions: {
+    include: {
+      shoppingListRecipe: { include: { recipe: { select: { title: true } } } },
+    },
+  },
+} as const;
+
+type ItemWithContributions = Prisma.ShoppingListItemGetPayload<{ include: typeof CART_ITEM_INCLUDE }>;
+
+export interface CartRecipeInput {
+  recipeId: string;
+  quantity?: number; // Times it's made (default 1)
+  servings?: number; // Cook at this many servings instead of recipe.servings
+}
+
+export interface CartRecipeSummary {
+  recipeId: string;
+  recipeTitle: string;
+  quantity: number;
+  servings: number | null;
+}
+
+export type CartDeltaItem = CartItem & {
+  shoppingListItemId: string;
+  isPurchased: boolean;
+  source: CartItemSource;
+  neededAmount?: number;
+  onHandAmount?: number;
+  toBuyAmount?: number;
+};
+
+export interface CartDelta {
+  shoppingListId: string;
+  added: CartDeltaItem[]; // New items on the cart
+  updated: CartDeltaItem[]; // Items whose amount changed
+  removed: string[]; // Shopping list item IDs no longer on the cart (or fully covered by the pantry)
+  potentialMerges: PotentialMerge[]; // Only merges involving the new ingredients
+  recipes: CartRecipeSummary[]; // Recipes on the cart after the change
+  expiredInventory?: ExpiredPantryItem[]; // Expired pantry items not counted against added recipes
+}
+
+interface RecipeAddition {
+  recipe: {
+    id: string;
+    title: string;
+    recipeIngredients: Array<{ ingredientId: string; amount: number; unit: string; ingredient: Ingredient }>;
+  };
+  scale: number; // Quantity times any servings scale
+  quantity: number;
+  servings: number | null;
+  date: Date; // When it's cooked, for pantry allocation
+}
+
+interface PantryWindow {
+  from: Date;
+  to: Date;
+  excludeMealPlanId?: string;
+}
+
+/**
+ * Whether an item shows on the cart (the ITEMS_TO_BUY filter, for an item in hand)
+ */
+function isToBuy(item: ShoppingListItem): boolean {
+  return item.toBuyAmount === null || item.toBuyAmount > 0 || !item.usePantry;
+}
+
+function itemQuantity(item: ShoppingListItem): Quantity {
+  return readQuantity(item) ?? { value: parseFloat(item.totalAmount) || 0, unit: item.unit, approximate: false };
+}
+
+/**
+ * Amount columns for an item. Pantry-checked items buy the shortfall unless their pantry
+ * toggle is off; other items buy `quantity` as it is.
+ */
+function amountData(quantity: Quantity, pantry: PantryCoverage | null, usePantry: boolean = true) {
+  const value = pantry ? (usePantry ? pantry.toBuyAmount : pantry.neededAmount) : quantity.value;
+  return {
+    totalAmount: value.toString(),
+    ...toQuantityColumns({ ...quantity, value }),
+    ...pantry,
+  };
+}
+
+export interface ItemAddition {
+  item: ShoppingListItem;
+  data: ReturnType<typeof amountData>; // The item's new amount columns
+  contributed: number; // The recipe's share, in the item's unit
+}
+
+/**
+ * Put a recipe's amount of an ingredient onto the first unpurchased recipe item for it whose
+ * unit the amount converts to. Null when there's none and a new item is needed. On a
+ * pantry-checked item only the added amount is covered from `allocation`.
+ */
+export function addToExistingItem(
+  items: ShoppingListItem[],
+  ingredientId: string,
+  quantity: Quantity,
+  conversions: ConversionTable,
+  allocation: PantryAllocation | null
+): ItemAddition | null {
+  const match = items
+    .filter(item => item.source === 'recipe' && !item.isPurchased && item.ingredientId === ingredientId)
+    .map(item => {
+      const current = itemQuantity(item);
+      const converted = convertQuantity(conversions, quantity, current.unit, ingredientId);
+      return converted ? { item, current, converted } : null;
+    })
+    .find(candidate => candidate !== null);
+
+  if (!match) {
+    return null;
+  }
+
+  const { item, current, converted } = match;
+  const combined = { ...current, approximate: current.approximate || converted.approximate };
+  let pantry: PantryCoverage | null = null;
+  if (item.neededAmount !== null) {
+    const needed = item.neededAmount + converted.value;
+    const carried = { neededAmount: item.neededAmount, onHandAmount: item.onHandAmount ?? 0, toBuyAmount: item.toBuyAmount ?? 0 };
+    pantry = allocation
+      ? coverFromPantry(allocation, ingredientId, needed, current.unit, carried)
+      : { neededAmount: needed, onHandAmount: carried.onHandAmount, toBuyAmount: Math.max(0, needed - carried.onHandAmount) };
+  } else {
+    combined.value = current.value + converted.value;
+  }
+
+  return { item, data: amountData(combined, pantry, item.usePantry), contributed: converted.value };
+}
+
+/**
+ * An item's amount columns once a recipe's share comes off, or null when nothing is left.
+ * On a pantry-checked item, what the pantry covered stays counted up to the smaller need.
+ */
+export function removeFromItem(item: ShoppingListItem, amount: number): ReturnType<typeof amountData> | null {
+  const current = itemQuantity(item);
+  let pantry: PantryCoverage | null = null;
+  let remaining: number;
+  if (item.neededAmount !== null) {
+    remaining = item.neededAmount - amount;
+    const onHandAmount = Math.min(item.onHandAmount ?? 0, Math.max(0, remaining));
+    pantry = { neededAmount: remaining, onHandAmount, toBuyAmount: Math.max(0, remaining - onHandAmount) };
+  } else {
+    remaining = current.value - amount;
+    current.value = remaining;
+  }
+
+  return remaining <= EPSILON ? null : amountData(current, pantry, item.usePantry);
+}
+
+/**
+ * An item in the cart format, with each recipe's share as its recipe breakdown
+ */
+function toDeltaItem(item: ItemWithContributions): CartDeltaItem {
+  if (!isRecipeItem(item)) {
+    return { ...toSourceCartItem(item), shoppingListItemId: item.id, isPurchased: item.isPurchased };
+  }
+
+  const { value: amount, unit } = itemQuantity(item);
+  const recipeBreakdown = item.contributions.map(contribution => ({
+    recipeId: contribution.shoppingListRecipe.recipeId,
+    recipeTitle: contribution.shoppingListRecipe.recipe.title,
+    amount: contribution.amount,
+    unit,
+  }));
+
+  return {
+    ingredientId: item.ingredient.id,
+    ingredientName: item.ingredient.name,
+    amount,
+    unit,
+    purchaseQuantity: amount,
+    walmartItemId: item.walmartItemId ?? item.ingredient.walmartItemId,
+    walmartSearchTerm: item.ingredient.walmartSearchTerm,
+    recipes: recipeBreakdown.map(entry => entry.recipeTitle),
+    recipeBreakdown,
+    shoppingListItemId: item.id,
+    isPurchased: item.isPurchased,
+    source: 'recipe',
+    ...(item.neededAmount !== null && {
+      neededAmount: item.neededAmount,
+      onHandAmount: item.onHandAmount ?? 0,
+      toBuyAmount: item.toBuyAmount ?? 0,
+    }),
+  };
+}
+
+/**
+ * Recipes on a cart, in the order they were added
+ */
+export async function listCartRecipes(shoppingListId: string): Promise<CartRecipeSummary[]> {
+  const recipes = await prisma.shoppingListRecipe.findMany({
+    where: { shoppingListId },
+    include: { recipe: { select: { title: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return recipes.map(entry => ({
+    recipeId: entry.recipeId,
+    recipeTitle: entry.recipe.title,
+    quantity: entry.quantity,
+    servings: entry.servings,
+  }));
+}
+
+/**
+ * The delta for the items created, updated and deleted by a change
+ */
+async function buildDelta(
+  shoppingListId: string,
+  createdIds: Set<string>,
+  updatedIds: Set<string>,
+  deletedIds: string[],
+  potentialMerges: PotentialMerge[] = []
+): Promise<CartDelta> {
+  const items = await prisma.shoppingListItem.findMany({
+    where: { id: { in: [...createdIds, ...updatedIds] } },
+    include: CART_ITEM_INCLUDE,
+  });
+
+  // Items the pantry now fully covers drop off the cart, as in the cart view
+  const hidden = items.filter(item => !isToBuy(item)).map(item => item.id);
+  const shown = items.filter(isToBuy);
+
+  return {
+    shoppingListId,
+    added: shown.filter(item => createdIds.has(item.id)).map(toDeltaItem),
+    updated: shown.filter(item => !createdIds.has(item.id)).map(toDeltaItem),
+    removed: [...deletedIds, ...hidden.filter(id => !createdIds.has(id))],
+    potentialMerges,
+    recipes: await listCartRecipes(shoppingListId),
+  };
+}
+
+/**
+ * Merge suggestions between the new ingredients and the rest of the cart's recipe items.
+ * Groups that are the same ingredient are suggested too: merging them into an item the user
+ * may have already picked a product for or bought is left to them. Pairs the cart already
+ * offers aren't repeated.
+ */
+async function detectNewMerges(shoppingListId: string, newIngredientIds: Set<string>): Promise<PotentialMerge[]> {
+  if (newIngredientIds.size === 0) {
+    return [];
+  }
+
+  const [items, mergeOptions] = await Promise.all([
+    prisma.shoppingListItem.findMany({
+      where: { shoppingListId, source: 'recipe', ingredientId: { not: null } },
+      include: CART_ITEM_INCLUDE,
+    }),
+    prisma.shoppingListMergeOption.findMany({ where: { shoppingListId } }),
+  ]);
+
+  // One entry per ingredient: similarity is by name
+  const candidates = new Map<string, CartItem>();
+  for (const item of items) {
+    if (!candidates.has(item.ingredientId!)) {
+      candidates.set(item.ingredientId!, toDeltaItem(item));
+    }
+  }
+
+  const detection = await detectSimilarIngredients([...candidates.values()], undefined, newIngredientIds);
+
+  const sameIngredientMerges: PotentialMerge[] = detection.autoMergedGroups.map(group => {
+    const merged = mergeIngredients(group);
+    return {
+      mergeId: '',
+      ingredients: group,
+      similarity: SAME_INGREDIENT_SIMILARITY,
+      reason: 'Same ingredient',
+      suggestedName: merged.ingredientName,
+      totalAmount: merged.amount,
+      unit: merged.unit,
+      canonicalUnit: merged.unit,
+      walmartItemId: merged.walmartItemId ?? undefined,
+    };
+  });
+
+  const offered = new Set(mergeOptions.map(option => [...option.ingredientIds].sort().join('|')));
+  const merges = [...sameIngredientMerges, ...detection.suggestedMerges]
+    .filter(merge => !offered.has(merge.ingredients.map(i => i.ingredientId).sort().join('|')))
+    .map((merge, index) => ({ ...merge, mergeId: `merge-${mergeOptions.length + index + 1}` }));
+
+  if (merges.length > 0) {
+    await prisma.shoppingListMergeOption.createMany({
+      data: merges.map(merge => ({
+        shoppingListId,
+        mergeId: merge.mergeId,
+        ingredientIds: merge.ingredients.map(i => i.ingredientId),
+        canonicalUnit: merge.canonicalUnit || merge.unit || '',
+        conversionRatios: merge.conversionRatios || merge.ingredients.map(() => 1.0),
+        userDecision: null,
+      })),
+    });
+  }
+
+  return merges;
+}
+
+/**
+ * Hold the cart's row lock until the transaction ends, so changes to one cart run one at a time
+ */
+async function lockCart(tx: TxClient, shoppingListId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM "ShoppingList" WHERE id = ${shoppingListId} FOR UPDATE`;
+}
+
+/**
+ * Pantry handed out to the added recipes, when the cart was checked against the pantry.
+ * What the cart's items already count on is reserved.
+ */
+async function allocateForAdditions(
+  scope: OwnerScope,
+  items: ShoppingListItem[],
+  additions: RecipeAddition[],
+  window: PantryWindow
+): Promise<PantryAllocation | null> {
+  if (!items.some(item => item.neededAmount !== null)) {
+    return null;
+  }
+
+  const needs: PantryNeed[] = additions.flatMap(addition => addition.recipe.recipeIngredients.flatMap(ri => {
+    const quantity = parseQuantity(ri.amount * addition.scale, ri.unit);
+    return quantity ? [{ ingredientId: ri.ingredientId, quantity, date: addition.date }] : [];
+  }));
+  const reserved: PantryNeed[] = items
+    .filter(item => item.ingredientId && item.usePantry && item.onHandAmount)
+    .map(item => ({
+      ingredientId: item.ingredientId!,
+      quantity: { ...itemQuantity(item), value: item.onHandAmount!, approximate: false },
+      date: window.from,
+    }));
+
+  return allocatePantry(scope, needs, { ...window, reserved });
+}
+
+/**
+ * Put recipes on the active cart (started with `source` when there isn't one). An ingredient
+ * goes onto an unpurchased recipe item for it whose unit the amount converts to, else onto a
+ * new item; purchased items are never changed. The cart is locked and re-read inside the
+ * transaction, so concurrent adds see each other's items instead of both creating one.
+ */
+async function applyRecipeAdditions(
+  scope: OwnerScope,
+  additions: RecipeAddition[],
+  source: string,
+  window: PantryWindow
+): Promise<CartDelta> {
+  const cart = await getOrCreateActiveCart(scope, source);
+  const ingredientIds = [...new Set(additions.flatMap(addition => addition.recipe.recipeIngredients.map(ri => ri.ingredientId)))];
+  const conversions = await loadConversionTable(ingredientIds);
+  const createdIds = new Set<string>();
+  const updatedIds = new Set<string>();
+
+  const { allocation, onCart } = await prisma.$transaction(async (tx: TxClient) => {
+    await lockCart(tx, cart.id);
+    const items = await tx.shoppingListItem.findMany({ where: { shoppingListId: cart.id } });
+    const allocation = await allocateForAdditions(scope, items, additions, window);
+    const onCart = new Set(items.filter(item => item.source === 'recipe').map(item => item.ingredientId));
+
+    for (const addition of additions) {
+      const listRecipe = await tx.shoppingListRecipe.upsert({
+        where: { shoppingListId_recipeId: { shoppingListId: cart.id, recipeId: addition.recipe.id } },
+        update: {
+          quantity: { increment: addition.quantity },
+          ...(addition.servings !== null && { servings: addition.servings }),
+        },
+        create: {
+          shoppingListId: cart.id,
+          recipeId: addition.recipe.id,
+          quantity: addition.quantity,
+          servings: addition.servings,
+        },
+      });
+
+      for (const ri of addition.recipe.recipeIngredients) {
+        const amount = ri.amount * addition.scale;
+        const quantity = parseQuantity(amount, ri.unit) ?? { value: amount, unit: ri.unit, approximate: false };
+
+        const existing = addToExistingItem(items, ri.ingredientId, quantity, conversions, allocation);
+
+        let itemId: string;
+        let contributed: number;
+
+        if (existing) {
+          const updated = await tx.shoppingListItem.update({
+            where: { id: existing.item.id },
+            data: existing.data,
+          });
+          items[items.indexOf(existing.item)] = updated;
+          itemId = updated.id;
+          contributed = existing.contributed;
+          if (!createdIds.has(itemId)) updatedIds.add(itemId);
+        } else {
+          const pantry = allocation ? coverFromPantry(allocation, ri.ingredientId, quantity.value, quantity.unit) : null;
+          const created = await tx.shoppingListItem.create({
+            data: {
+              shoppingListId: cart.id,
+              ingredientId: ri.ingredientId,
+              unit: quantity.unit,
+              ...amountData(quantity, pantry),
+              walmartItemId: ri.ingredient.walmartItemId || null,
+            },
+          });
+          items.push(created);
+          itemId = created.id;
+          contributed = quantity.value;
+          createdIds.add(itemId);
+        }
+
+        await tx.shoppingListContribution.upsert({
+          where: { shoppingListRecipeId_shoppingListItemId: { shoppingListRecipeId: listRecipe.id, shoppingListItemId: itemId } },
+          update: { amount: { increment: contributed } },
+          create: { shoppingListRecipeId: listRecipe.id, shoppingListItemId: itemId, amount: contributed },
+        });
+      }
+    }
+
+    return { allocation, onCart };
+  }, { timeout: 30000 }); // A week of meal plan slots is a few hundred writes
+
+  console.log(`🛒 Added ${additions.length} recipes to cart ${cart.id}: ${createdIds.size} new items, ${updatedIds.size} updated`);
+
+  const newIngredientIds = new Set(ingredientIds.filter(id => !onCart.has(id)));
+  const potentialMerges = await detectNewMerges(cart.id, newIngredientIds);
+
+  const delta = await buildDelta(cart.id, createdIds, updatedIds, [], potentialMerges);
+  return allocation ? { ...delta, expiredInventory: allocation.expired } : delta;
+}
+
+/**
+ * Add selected recipes to the active cart, starting one if needed
+ */
+export async function addRecipesToCart(scope: OwnerScope, selections: CartRecipeInput[]): Promise<CartDelta> {
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: selections.map(selection => selection.recipeId) } },
+    include: { recipeIngredients: { include: { ingredient: true } } },
+  });
+
+  const now = new Date();
+  const additions = selections.map(selection => {
+    const recipe = recipes.find(r => r.id === selection.recipeId);
+    if (!recipe) {
+      throw new Error('Recipe not found');
+    }
+    const quantity = selection.quantity ?? 1;
+    return {
+      recipe,
+      scale: quantity * (selection.servings ? getServingsScale(recipe.servings, selection.servings) : 1),
+      quantity,
+      servings: selection.servings ?? null,
+      date: endOfWeek(now),
+    };
+  });
+
+  return applyRecipeAdditions(scope, additions, 'recipe_selection', { from: startOfDay(now), to: endOfWeek(now) });
+}
+
+/**
+ * Add a meal plan's cooking slots (as planned, at each slot's servings) to the active cart.
+ * Leftover slots eat food cooked in another slot, so they add nothing.
+ */
+export async function addMealPlanToCart(scope: OwnerScope, mealPlanId: string): Promise<CartDelta> {
+  const plan = await prisma.mealPlan.findUnique({
+    where: { id: mealPlanId },
+    include: {
+      mealSlots: {
+        include: {
+          recipe: { include: { recipeIngredients: { include: { ingredient: true } } } },
+          recipeVersion: true,
+        },
+      },
+    },
+  });
+  if (!plan || !ownsResource(scope, plan)) {
+    throw new Error('Meal plan not found');
+  }
+
+  const slots = (await applyPlannedVersions(plan.mealSlots)).filter(slot => slot.recipe && !isLeftoverSlot(slot));
+  if (slots.length === 0) {
+    throw new Error('This meal plan has no recipes to cook');
+  }
+
+  const additions = slots.map(slot => ({
+    recipe: slot.recipe!,
+    scale: getSlotScale(slot),
+    quantity: 1,
+    servings: null,
+    date: slot.date,
+  }));
+
+  return applyRecipeAdditions(scope, additions, 'meal_plan', {
+    from: plan.startDate,
+    to: plan.endDate,
+    excludeMealPlanId: plan.id,
+  });
+}
+
+/**
+ * Take a recipe off the active cart: its share comes off each item, and items left with
+ * nothing are deleted. Purchased items are kept as they are.
+ */
+export async function removeRecipeFromCart(scope: OwnerScope, recipeId: string): Promise<CartDelta> {
+  const cart = await prisma.shoppingList.findFirst({
+    where: { ...scopeWhere(scope), isActive: true },
+    include: {
+      recipes: {
+        where: { recipeId },
+        include: { contributions: { include: { shoppingListItem: true } } },
+      },
+    },
+  });
+  if (!cart) {
+    throw new Error('No active cart');
+  }
+  const listRecipe = cart.recipes[0];
+  if (!listRecipe) {
+    throw new Error('Recipe is not on this cart');
+  }
+
+  const updatedIds = new Set<string>();
+  const deletedIds: string[] = [];
+
+  await prisma.$transaction(async (tx: TxClient) => {
+    for (const { shoppingListItem: item, amount } of listRecipe.contributions) {
+      if (item.isPurchased) continue;
+
+      const data = removeFromItem(item, amount);
+      if (!data) {
+        await tx.shoppingListItem.delete({ where: { id: item.id } });
+        deletedIds.push(item.id);
+      } else {
+        await tx.shoppingListItem.update({ where: { id: item.id }, data });
+        updatedIds.add(item.id);
+      }
+    }
+
+    // Its remaining contributions (on purchased items) go with it
+    await tx.shoppingListRecipe.delete({ where: { id: listRecipe.id } });
+  });
+
+  console.log(`🛒 Removed recipe ${recipeId} from cart ${cart.id}: ${deletedIds.length} items deleted, ${updatedIds.size} updated`);
+  return buildDelta(cart.id, new Set(), updatedIds, deletedIds);
+}
+
+/**
+ * Record the recipes a newly generated list was built from, and each one's share of its items
+ * (from the items' recipe breakdowns), so recipes can later be taken off the list one at a time.
+ * Amounts carried over from an earlier cart aren't attributed to a recipe.
+ */
+export async function recordRecipeContributions(
+  shoppingListId: string,
+  recipes: Array<{ recipeId: string; quantity: number; servings?: number | null }>,
+  items: Array<Pick<CartItem, 'ingredientId' | 'unit' | 'recipeBreakdown'>>
+): Promise<void> {
+  const quantities = new Map<string, { quantity: number; servings: number | null }>();
+  for (const recipe of recipes) {
+    const entry = quantities.get(recipe.recipeId);
+    quantities.set(recipe.recipeId, {
+      quantity: (entry?.quantity ?? 0) + recipe.quantity,
+      servings: recipe.servings ?? entry?.servings ?? null,
+    });
+  }
+  if (quantities.size === 0) {
+    return;
+  }
+
+  const [savedItems, listRecipes] = await Promise.all([
+    prisma.shoppingListItem.findMany({ where: { shoppingListId, source: 'recipe' } }),
+    prisma.$transaction([...quantities].map(([recipeId, entry]) => prisma.shoppingListRecipe.create({
+      data: { shoppingListId, recipeId, ...entry },
+    }))),
+  ]);
+  const listRecipeIds = new Map(listRecipes.map(listRecipe => [listRecipe.recipeId, listRecipe.id]));
+  const conversions = await loadConversionTable([...new Set(items.map(item => item.ingredientId))]);
+
+  const contributions = new Map<string, { shoppingListRecipeId: string; shoppingListItemId: string; amount: number }>();
+  for (const item of items) {
+    const saved = savedItems.find(candidate => candidate.ingredientId === item.ingredientId && candidate.unit === item.unit);
+    if (!saved) continue;
+    const unit = itemQuantity(saved).unit;
+
+    for (const entry of item.recipeBreakdown || []) {
+      const shoppingListRecipeId = listRecipeIds.get(entry.recipeId);
+      const quantity = parseQuantity(entry.amount, entry.unit);
+      const converted = shoppingListRecipeId && quantity && convertQuantity(conversions, quantity, unit, saved.ingredientId!);
+      if (!shoppingListRecipeId || !converted) continue;
+
+      const key = `${shoppingListRecipeId}|${saved.id}`;
+      const existing = contributions.get(key);
+      contributions.set(key, {
+        shoppingListRecipeId,
+        shoppingListItemId: saved.id,
+        amount: (existing?.amount ?? 0) + converted.value,
+      });
+    }
+  }
+
+  await prisma.shoppingListContribution.createMany({ data: [...contributions.values()] });
+}
+
+/**
+ * Move an old cart's recipes and their shares of its items onto the cart that replaced it
+ * (POST /cart/generate without clearCart carries the old items over). Shares follow their
+ * ingredient to the new item; a recipe on both carts has its quantities combined.
+ */
+export async function carryOverRecipeContributions(fromListId: string, toListId: string): Promise<void> {
+  const [oldRecipes, newItems, newRecipes] = await Promise.all([
+    prisma.shoppingListRecipe.findMany({
+      where: { shoppingListId: fromListId },
+      include: { contributions: { include: { shoppingListItem: true } } },
+    }),
+    prisma.shoppingListItem.findMany({ where: { shoppingListId: toListId, source: 'recipe' } }),
+    prisma.shoppingListRecipe.findMany({ where: { shoppingListId: toListId } }),
+  ]);
+  if (oldRecipes.length === 0) {
+    return;
+  }
+
+  const conversions = await loadConversionTable([...new Set(newItems.map(item => item.ingredientId!))]);
+
+  await prisma.$transaction(async (tx: TxClient) => {
+    for (const oldRecipe of oldRecipes) {
+      const existing = newRecipes.find(listRecipe => listRecipe.recipeId === oldRecipe.recipeId);
+      const listRecipe = existing
+        ? await tx.shoppingListRecipe.update({
+          where: { id: existing.id },
+          data: { quantity: existing.quantity + oldRecipe.quantity },
+        })
+        : await tx.shoppingListRecipe.create({
+          data: {
+            shoppingListId: toListId,
+            recipeId: oldRecipe.recipeId,
+            quantity: oldRecipe.quantity,
+            servings: oldRecipe.servings,
+          },
+        });
+
+      for (const contribution of oldRecipe.contributions) {
+        const oldItem = contribution.shoppingListItem;
+        const quantity: Quantity = { ...itemQuantity(oldItem), value: contribution.amount };
+
+        for (const item of newItems.filter(candidate => candidate.ingredientId === oldItem.ingredientId)) {
+          const converted = convertQuantity(conversions, quantity, itemQuantity(item).unit, item.ingredientId!);
+          if (!converted) continue;
+
+          await tx.shoppingListContribution.upsert({
+            where: {
+              shoppingListRecipeId_shoppingListItemId: { shoppingListRecipeId: listRecipe.id, shoppingListItemId: item.id },
+            },
+            create: { shoppingListRecipeId: listRecipe.id, shoppingListItemId: item.id, amount: converted.value },
+            update: { amount: { increment: converted.value } },
+          });
+          break;
+        }
+      }
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { CreditTransactionType, Prisma } from '@prisma/client';
 import { prisma } from '../index.js';
+import { getCreditPoolMemberIds } from './householdService.js';
 
 // Type alias for Prisma transaction client
 type TxClient = Prisma.TransactionClient;
@@ -143,34 +144,47 @@ export async function grantPurchasedCredits(
 // CREDIT SPENDING OPERATIONS
 // ============================================
 
-export async function hasEnoughCredits(userId: string, amount: number): Promise<boolean> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { credits: true },
+/**
+ * Balances available to a user: their own, plus the other members' when
+ * their household pools credits. The user's own balance comes first.
+ */
+async function getCreditPool(userId: string): Promise<Array<{ id: string; credits: number }>> {
+  const memberIds = await getCreditPoolMemberIds(userId);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: memberIds } },
+    select: { id: true, credits: true },
   });
 
-  if (!user) {
+  return users.sort((a, b) =>
+    (a.id === userId ? -1 : b.id === userId ? 1 : b.credits - a.credits)
+  );
+}
+
+export async function hasEnoughCredits(userId: string, amount: number): Promise<boolean> {
+  const pool = await getCreditPool(userId);
+
+  if (pool.length === 0) {
     return false;
   }
 
-  return user.credits >= amount;
+  return pool.reduce((sum, user) => sum + user.credits, 0) >= amount;
 }
 
 export async function getBalance(userId: string): Promise<number> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { credits: true },
-  });
+  const pool = await getCreditPool(userId);
 
-  if (!user) {
+  if (!pool.some(user => user.id === userId)) {
     throw new Error('User not found');
   }
 
-  return user.credits;
+  return pool.reduce((sum, user) => sum + user.credits, 0);
 }
 
 /**
  * Charge credits for an action
+ * With pooled household credits, the acting user pays first and other
+ * members cover the remainder (each debit is its own transaction)
  * Throws error if insufficient credits
  */
 export async function chargeCredits(
@@ -180,26 +194,42 @@ export async function chargeCredits(
   description?: string,
   metadata?: Record<string, unknown>
 ): Promise<void> {
-  const hasCredits = await hasEnoughCredits(userId, amount);
-  if (!hasCredits) {
+  const pool = await getCreditPool(userId);
+  const available = pool.reduce((sum, user) => sum + user.credits, 0);
+  if (pool.length === 0 || available < amount) {
     throw new Error('Insufficient credits');
   }
 
+  // Split the charge across the pool (just the user when not pooled)
+  const debits: Array<{ payerId: string; amount: number }> = [];
+  let remaining = amount;
+  for (const member of pool) {
+    if (remaining <= 0) break;
+    const share = Math.min(remaining, Math.max(member.credits, 0));
+    if (share <= 0) continue;
+    debits.push({ payerId: member.id, amount: share });
+    remaining -= share;
+  }
+
   await prisma.$transaction(async (tx: TxClient) => {
-    await tx.user.update({
-      where: { id: userId },
-      data: { credits: { decrement: amount } },
-    });
+    for (const debit of debits) {
+      await tx.user.update({
+        where: { id: debit.payerId },
+        data: { credits: { decrement: debit.amount } },
+      });
 
-    await tx.creditTransaction.create({
-      data: {
-        userId,
-        amount: -amount,
-        type,
-        description,
-        metadata: (metadata || {}) as Prisma.InputJsonValue,
-      },
-    });
+      await tx.creditTransaction.create({
+        data: {
+          userId: debit.payerId,
+          amount: -debit.amount,
+          type,
+          description,
+          metadata: (debit.payerId === userId
+            ? metadata || {}
+            : { ...metadata, pooledFor: userId }) as Prisma.InputJsonValue,
+        },
+      });
+    }
   });
 }
 
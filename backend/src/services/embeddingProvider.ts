@@ -0,0 +1,55 @@
+// Embedding Provider Service
+// Text embeddings for semantic recipe search, behind one interface so the vector source can be
+// swapped. OpenAI is the default; the local provider hashes words into vectors deterministically
+// and needs no network or credentials (development and tests).
+
+import { openaiEmbeddingProvider } from './openaiEmbeddingProvider.js';
+import { localEmbeddingProvider } from './localEmbeddingProvider.js';
+
+// Matches the Recipe.embedding column (vector(1536))
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  id: string;
+  /** Stored with each embedding; vectors from different models can't be compared */
+  model: string;
+  /** False when credentials or other setup are missing */
+  isConfigured(): boolean;
+  /** One vector of EMBEDDING_DIMENSIONS numbers per text, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Built on first use: the provider modules import EMBEDDING_DIMENSIONS from this file
+function getProviders(): EmbeddingProvider[] {
+  return [openaiEmbeddingProvider, localEmbeddingProvider];
+}
+
+/**
+ * Provider used for recipe embeddings and queries.
+ * EMBEDDING_PROVIDER overrides it ("local" for offline development); otherwise OpenAI when
+ * configured, else the local provider.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const providers = getProviders();
+  const configured = process.env.EMBEDDING_PROVIDER;
+  const named = configured ? providers.find(provider => provider.id === configured) : undefined;
+  if (configured && !named) {
+    console.warn(`⚠️  Unknown EMBEDDING_PROVIDER "${configured}", using the default`);
+  }
+
+  return named || (openaiEmbeddingProvider.isConfigured() ? openaiEmbeddingProvider : localEmbeddingProvider);
+}
+
+/**
+ * Identifier stored in Recipe.embeddingModel ("openai:text-embedding-3-small")
+ */
+export function getEmbeddingModelId(provider: EmbeddingProvider): string {
+  return `${provider.id}:${provider.model}`;
+}
+
+/**
+ * pgvector literal for a vector: [0.1,0.2,...]
+ */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
@@ -0,0 +1,106 @@
+// Expiration Service
+// Default shelf lives and "use it up" urgency for pantry items
+
+import { addDays, differenceInCalendarDays } from 'date-fns';
+
+// Items expiring within this many days are listed as expiring soon
+export const EXPIRING_SOON_DAYS = 3;
+
+// Urgency ramps up from 0 to 1 over the last week before expiry
+const URGENCY_WINDOW_DAYS = 7;
+
+// Typical refrigerated / pantry shelf life by ingredient category.
+// "Other" is too mixed (canned goods, fresh herbs, juices) to guess, so it gets no default.
+const DEFAULT_SHELF_LIFE_DAYS: Record<string, number> = {
+  Seafood: 2,
+  Meat: 3,
+  Protein: 5,
+  Vegetables: 7,
+  Fruits: 7,
+  Dairy: 10,
+  Grains: 180,
+  Condiments: 180,
+  Spices: 365
+};
+
+export type ExpiryStatus = 'expired' | 'expiring_soon' | 'fresh' | 'unknown';
+
+/**
+ * Default expiry date for a newly stocked item, or null when the category has no default
+ */
+export function getDefaultExpiresAt(category: string | null | undefined, from: Date = new Date()): Date | null {
+  const shelfLife = category ? DEFAULT_SHELF_LIFE_DAYS[category] : undefined;
+  return shelfLife !== undefined ? addDays(from, shelfLife) : null;
+}
+
+/**
+ * Calendar days until an item expires (0 = today, negative = already expired)
+ */
+export function getDaysUntilExpiry(expiresAt: Date | null | undefined, now: Date = new Date()): number | null {
+  return expiresAt ? differenceInCalendarDays(expiresAt, now) : null;
+}
+
+/**
+ * Classify an expiry date
+ */
+export function getExpiryStatus(
+  expiresAt: Date | null | undefined,
+  now: Date = new Date(),
+  soonDays: number = EXPIRING_SOON_DAYS
+): ExpiryStatus {
+  const days = getDaysUntilExpiry(expiresAt, now);
+
+  if (days === null) return 'unknown';
+  if (days < 0) return 'expired';
+  if (days <= soonDays) return 'expiring_soon';
+  return 'fresh';
+}
+
+/**
+ * How urgently an item should be used, from 0 (no rush / unknown / expired) to 1 (expires today)
+ */
+export function getExpiryUrgency(expiresAt: Date | null | undefined, now: Date = new Date()): number {
+  const days = getDaysUntilExpiry(expiresAt, now);
+
+  if (days === null || days < 0 || days >= URGENCY_WINDOW_DAYS) {
+    return 0;
+  }
+
+  return (URGENCY_WINDOW_DAYS - days) / URGENCY_WINDOW_DAYS;
+}
+
+/**
+ * Attach expiry status fields to a pantry item for API responses
+ */
+export function withExpiryStatus<T extends { expiresAt: Date | null }>(
+  item: T,
+  now: Date = new Date()
+): T & { expiryStatus: ExpiryStatus; daysUntilExpiry: number | null } {
+  return {
+    ...item,
+    expiryStatus: getExpiryStatus(item.expiresAt, now),
+    daysUntilExpiry: getDaysUntilExpiry(item.expiresAt, now)
+  };
+}
+
+/**
+ * Split pantry items into usable ones and expired ones.
+ * Expired items are reported to the user instead of being counted as available.
+ */
+export function partitionByExpiry<T extends { expiresAt: Date | null }>(
+  items: T[],
+  now: Date = new Date()
+): { usable: T[]; expired: T[] } {
+  const usable: T[] = [];
+  const expired: T[] = [];
+
+  for (const item of items) {
+    if (getExpiryStatus(item.expiresAt, now) === 'expired') {
+      expired.push(item);
+    } else {
+      usable.push(item);
+    }
+  }
+
+  return { usable, expired };
+}
@@ -0,0 +1,161 @@
+// Grocery Provider Service
+// Retailer-agnostic product search, ingredient pricing and cart building.
+// Walmart is one provider; the fixture-backed local store keeps the cart flow working offline.
+
+import { prisma } from '../index.js';
+import { calculatePurchaseCount } from './unitConversionService.js';
+import { walmartProvider } from './walmartProvider.js';
+import { localStoreProvider } from './localStoreProvider.js';
+
+export interface GroceryProduct {
+  providerId: string;
+  productId: string;
+  name: string;
+  price: number;
+  regularPrice?: number;
+  size?: string;
+  brandName?: string;
+  imageUrl?: string;
+  productUrl?: string;
+  category?: string;
+  inStock: boolean;
+}
+
+export interface GrocerySearchResult {
+  providerId: string;
+  query: string;
+  items: GroceryProduct[];
+  totalResults: number;
+}
+
+export interface IngredientPriceRequest {
+  name: string;
+  amount?: number;
+  unit?: string;
+  searchTerm?: string | null;
+}
+
+export interface PricedIngredient {
+  product: GroceryProduct;
+  packageCount: number;
+  packageSize: string;
+  purchaseUnit: string;
+  reasoning?: string;
+}
+
+export interface ProviderCartItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface ProviderCart {
+  providerId: string;
+  cartUrl?: string;
+  addToCartUrl?: string;
+  items?: Array<ProviderCartItem & { name: string; price: number; lineTotal: number }>;
+  total?: number;
+  message?: string;
+  error?: string;
+}
+
+export interface GroceryProvider {
+  id: string;
+  name: string;
+  /** False when credentials or other setup are missing */
+  isConfigured(): boolean;
+  search(query: string): Promise<GrocerySearchResult>;
+  getProduct(productId: string): Promise<GroceryProduct | null>;
+  priceIngredient(ingredient: IngredientPriceRequest): Promise<PricedIngredient | null>;
+  buildCart(items: ProviderCartItem[]): Promise<ProviderCart>;
+}
+
+// Built on first use: the provider modules import helpers from this file
+function getProviders(): GroceryProvider[] {
+  return [walmartProvider, localStoreProvider];
+}
+
+const FALLBACK_PROVIDER_ID = 'walmart';
+
+/**
+ * Look up a provider by id
+ */
+export function getGroceryProvider(providerId: string): GroceryProvider | undefined {
+  return getProviders().find(provider => provider.id === providerId);
+}
+
+/**
+ * All registered providers with their configuration state
+ */
+export function listGroceryProviders(): Array<{ id: string; name: string; configured: boolean }> {
+  return getProviders().map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    configured: provider.isConfigured()
+  }));
+}
+
+/**
+ * Provider used when neither the request nor the user names one.
+ * DEFAULT_GROCERY_PROVIDER overrides it (e.g. "local" for offline development).
+ */
+export function getDefaultGroceryProvider(): GroceryProvider {
+  const configured = process.env.DEFAULT_GROCERY_PROVIDER;
+  return (configured && getGroceryProvider(configured)) || getGroceryProvider(FALLBACK_PROVIDER_ID)!;
+}
+
+/**
+ * Resolve the provider for a request: explicit id, then the user's preferred store, then the default
+ */
+export async function resolveGroceryProvider(
+  providerId?: string | null,
+  userId?: string | null
+): Promise<GroceryProvider> {
+  if (providerId) {
+    const provider = getGroceryProvider(providerId);
+    if (!provider) {
+      throw new Error(`Unknown grocery provider: ${providerId}`);
+    }
+    return provider;
+  }
+
+  if (userId) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredGroceryProvider: true }
+    });
+    const preferred = user?.preferredGroceryProvider ? getGroceryProvider(user.preferredGroceryProvider) : undefined;
+    if (preferred) {
+      return preferred;
+    }
+  }
+
+  return getDefaultGroceryProvider();
+}
+
+/**
+ * Work out how many packages of a product cover the ingredient amount.
+ * Shared by providers so package maths is the same for every store.
+ */
+export async function priceProductForIngredient(
+  product: GroceryProduct,
+  ingredient: IngredientPriceRequest
+): Promise<PricedIngredient> {
+  if (!product.size || ingredient.amount === undefined || !ingredient.unit) {
+    return {
+      product,
+      packageCount: 1,
+      packageSize: product.size || 'Unknown size',
+      purchaseUnit: 'count'
+    };
+  }
+
+  const purchaseCalc = await calculatePurchaseCount(ingredient.amount, ingredient.unit, product.size, ingredient.name);
+
+  return {
+    product,
+    packageCount: purchaseCalc.packageCount,
+    packageSize: purchaseCalc.packageSize,
+    purchaseUnit: purchaseCalc.packageUnit,
+    reasoning: purchaseCalc.reasoning
+  };
+}
@@ -0,0 +1,355 @@
+// Household Service
+// Shared ownership of pantry, active cart and meal plans between household members
+
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { loadConversionTable, addQuantities } from './unitConversionService.js';
+import { formatQuantityAmount, readQuantity, toQuantityColumns } from '../utils/quantity.js';
+
+type TxClient = Prisma.TransactionClient;
+
+export type HouseholdRole = 'owner' | 'admin' | 'member';
+
+const INVITE_TTL_DAYS = 7;
+
+/**
+ * Who owns pantry items, carts and meal plans for a request.
+ * Users without a household own their data directly (householdId null).
+ */
+export interface OwnerScope {
+  userId: string;
+  householdId: string | null;
+}
+
+/**
+ * Resolve the owner scope for a user
+ */
+export async function getOwnerScope(userId: string): Promise<OwnerScope> {
+  const membership = await prisma.householdMember.findUnique({
+    where: { userId },
+    select: { householdId: true }
+  });
+
+  return {
+    userId,
+    householdId: membership?.householdId ?? null
+  };
+}
+
+/**
+ * Prisma where clause matching the rows owned by a scope
+ */
+export function scopeWhere(scope: OwnerScope): { householdId: string } | { userId: string; householdId: null } {
+  return scope.householdId
+    ? { householdId: scope.householdId }
+    : { userId: scope.userId, householdId: null };
+}
+
+/**
+ * Ownership fields for rows created within a scope
+ */
+export function scopeData(scope: OwnerScope): { userId: string; householdId: string | null } {
+  return { userId: scope.userId, householdId: scope.householdId };
+}
+
+/**
+ * Whether a scope can read and modify a row
+ */
+export function ownsResource(scope: OwnerScope, resource: { userId: string; householdId?: string | null }): boolean {
+  if (resource.householdId) {
+    return resource.householdId === scope.householdId;
+  }
+  return resource.userId === scope.userId;
+}
+
+/**
+ * Get a user's household with members and pending invites
+ */
+export async function getHouseholdForUser(userId: string) {
+  const membership = await prisma.householdMember.findUnique({
+    where: { userId },
+    include: {
+      household: {
+        include: {
+          members: {
+            include: {
+              user: { select: { id: true, name: true, email: true, credits: true } }
+            },
+            orderBy: { joinedAt: 'asc' }
+          },
+          invites: {
+            where: { status: 'pending', expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' }
+          }
+        }
+      }
+    }
+  });
+
+  if (!membership) {
+    return null;
+  }
+
+  return {
+    ...membership.household,
+    role: membership.role as HouseholdRole
+  };
+}
+
+/**
+ * Move a user's personal pantry, meal plans and cart into a household.
+ * Pantry items the household already has are combined when both amounts are
+ * quantified in convertible units, otherwise the more recently updated amount is kept
+ * (the household has one row per ingredient).
+ */
+async function moveUserDataIntoHousehold(tx: TxClient, userId: string, householdId: string): Promise<void> {
+  const householdPantry = await tx.userInventory.findMany({
+    where: { householdId }
+  });
+  const personalPantry = await tx.userInventory.findMany({
+    where: { userId, householdId: null }
+  });
+
+  const conversions = await loadConversionTable(personalPantry.map(item => item.ingredientId));
+
+  for (const item of personalPantry) {
+    const existing = householdPantry.find(h => h.ingredientId === item.ingredientId);
+    const existingQuantity = existing ? readQuantity(existing) : null;
+    const itemQuantity = readQuantity(item);
+    const combined = existingQuantity && itemQuantity
+      ? addQuantities(conversions, existingQuantity, itemQuantity, item.ingredientId)
+      : null;
+
+    if (existing && combined) {
+      await tx.userInventory.update({
+        where: { id: existing.id },
+        data: {
+          amount: formatQuantityAmount(combined),
+          ...toQuantityColumns(combined),
+          isAvailable: existing.isAvailable || item.isAvailable
+        }
+      });
+      await tx.userInventory.delete({ where: { id: item.id } });
+    } else if (existing) {
+      const newer = item.updatedAt > existing.updatedAt ? item : existing;
+      await tx.userInventory.update({
+        where: { id: existing.id },
+        data: {
+          amount: newer.amount,
+          unit: newer.unit,
+          estimatedGrams: newer.estimatedGrams,
+          quantityValue: newer.quantityValue,
+          quantityUnit: newer.quantityUnit,
+          quantityApproximate: newer.quantityApproximate,
+          expiresAt: newer.expiresAt,
+          isAvailable: existing.isAvailable || item.isAvailable
+        }
+      });
+      await tx.userInventory.delete({ where: { id: item.id } });
+    } else {
+      await tx.userInventory.update({
+        where: { id: item.id },
+        data: { householdId }
+      });
+    }
+  }
+
+  await tx.mealPlan.updateMany({
+    where: { userId, householdId: null },
+    data: { householdId }
+  });
+
+  // Keep the household's active cart if it has one
+  const householdCart = await tx.shoppingList.findFirst({
+    where: { householdId, isActive: true },
+    select: { id: true }
+  });
+  if (householdCart) {
+    await tx.shoppingList.updateMany({
+      where: { userId, householdId: null, isActive: true },
+      data: { isActive: false }
+    });
+  }
+
+  await tx.shoppingList.updateMany({
+    where: { userId, householdId: null },
+    data: { householdId }
+  });
+}
+
+/**
+ * Create a household with the user as owner, sharing their existing data
+ */
+export async function createHousehold(userId: string, name: string) {
+  return prisma.$transaction(async (tx: TxClient) => {
+    const household = await tx.household.create({
+      data: {
+        name,
+        createdById: userId,
+        members: {
+          create: { userId, role: 'owner' }
+        }
+      }
+    });
+
+    await moveUserDataIntoHousehold(tx, userId, household.id);
+
+    console.log(`🏠 Created household ${household.id} for user ${userId}`);
+    return household;
+  });
+}
+
+/**
+ * Create an invite code for a household
+ */
+export async function createInvite(
+  householdId: string,
+  invitedById: string,
+  role: Exclude<HouseholdRole, 'owner'>,
+  email?: string
+) {
+  const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  return prisma.householdInvite.create({
+    data: {
+      householdId,
+      invitedById,
+      role,
+      email: email?.toLowerCase(),
+      code: randomBytes(4).toString('hex').toUpperCase(),
+      expiresAt
+    }
+  });
+}
+
+/**
+ * Join a household with an invite code.
+ * Throws if the invite is invalid or the user already belongs to a household.
+ */
+export async function acceptInvite(userId: string, code: string) {
+  const invite = await prisma.householdInvite.findUnique({
+    where: { code: code.toUpperCase() }
+  });
+
+  if (!invite || invite.status !== 'pending' || invite.expiresAt < new Date()) {
+    throw new Error('Invite is invalid or has expired');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, householdMembership: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (user.householdMembership) {
+    throw new Error('Leave your current household before joining another');
+  }
+  if (invite.email && invite.email !== user.email.toLowerCase()) {
+    throw new Error('This invite was sent to a different email address');
+  }
+
+  return prisma.$transaction(async (tx: TxClient) => {
+    const member = await tx.householdMember.create({
+      data: {
+        householdId: invite.householdId,
+        userId,
+        role: invite.role
+      }
+    });
+
+    await tx.householdInvite.update({
+      where: { id: invite.id },
+      data: { status: 'accepted', acceptedById: userId, acceptedAt: new Date() }
+    });
+
+    await moveUserDataIntoHousehold(tx, userId, invite.householdId);
+
+    console.log(`🏠 User ${userId} joined household ${invite.householdId}`);
+    return member;
+  });
+}
+
+/**
+ * Leave a household. Shared data stays with the household.
+ * An owner leaving hands ownership to the longest-standing member;
+ * the last member leaving deletes the household and its data returns to its creators.
+ */
+export async function leaveHousehold(userId: string): Promise<void> {
+  const membership = await prisma.householdMember.findUnique({
+    where: { userId }
+  });
+
+  if (!membership) {
+    throw new Error('You are not in a household');
+  }
+
+  await prisma.$transaction(async (tx: TxClient) => {
+    await tx.householdMember.delete({ where: { id: membership.id } });
+
+    const remaining = await tx.householdMember.findMany({
+      where: { householdId: membership.householdId },
+      orderBy: { joinedAt: 'asc' }
+    });
+
+    if (remaining.length === 0) {
+      // Shared pantry rows go back to whoever added them, unless they already have their own row
+      const shared = await tx.userInventory.findMany({
+        where: { householdId: membership.householdId },
+        select: { id: true, userId: true, ingredientId: true }
+      });
+      if (shared.length > 0) {
+        const personal = await tx.userInventory.findMany({
+          where: {
+            householdId: null,
+            OR: shared.map(item => ({ userId: item.userId, ingredientId: item.ingredientId }))
+          },
+          select: { userId: true, ingredientId: true }
+        });
+        const owned = new Set(personal.map(item => `${item.userId}:${item.ingredientId}`));
+        await tx.userInventory.deleteMany({
+          where: { id: { in: shared.filter(item => owned.has(`${item.userId}:${item.ingredientId}`)).map(item => item.id) } }
+        });
+      }
+
+      await tx.household.delete({ where: { id: membership.householdId } });
+      return;
+    }
+
+    if (membership.role === 'owner') {
+      await tx.householdMember.update({
+        where: { id: remaining[0].id },
+        data: { role: 'owner' }
+      });
+    }
+  });
+
+  console.log(`🏠 User ${userId} left household ${membership.householdId}`);
+}
+
+/**
+ * Get the user IDs of everyone sharing credits with a user: the members who opted in.
+ * Returns just the user when they have no household, credits are not pooled or they
+ * haven't opted in themselves.
+ */
+export async function getCreditPoolMemberIds(userId: string): Promise<string[]> {
+  const membership = await prisma.householdMember.findUnique({
+    where: { userId },
+    include: {
+      household: {
+        select: {
+          creditsPooled: true,
+          members: { where: { sharesCredits: true }, select: { userId: true } }
+        }
+      }
+    }
+  });
+
+  if (!membership || !membership.household.creditsPooled || !membership.sharesCredits) {
+    return [userId];
+  }
+
+  return membership.household.members.map(m => m.userId);
+}
@@ -0,0 +1,109 @@
+// Ingredient Canonicalization Service
+// The one path from a free-text ingredient name to an Ingredient row, used by recipe creation,
+// imports, the AI recipe agent, the pantry and the ingredient routes. Names are canonicalized
+// (utils/ingredientNormalizer.ts), then mapped through IngredientGroup so a grouped variant
+// ("unsalted butter") resolves to its group's ingredient ("butter"). What was split off the name
+// comes back as notes, for the caller to merge into RecipeIngredient.notes.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { detectAllergens } from '../config/allergenCatalog.js';
+import { findNutritionFacts } from '../config/nutritionDataset.js';
+import { detectStoreSection } from '../config/storeSections.js';
+import {
+  canonicalizeIngredient,
+  mergeIngredientNotes,
+  normalizeIngredientName,
+  type CanonicalIngredient,
+} from '../utils/ingredientNormalizer.js';
+
+export interface ResolvedIngredient extends CanonicalIngredient {
+  ingredientId: string;
+  created: boolean; // A new Ingredient row was added
+}
+
+/**
+ * Canonical names for free-text ingredient names, with IngredientGroup mappings applied.
+ * Nothing is created. Returns one entry per input name, in order.
+ */
+export async function canonicalizeIngredientNames(names: string[]): Promise<CanonicalIngredient[]> {
+  const canonical = names.map(canonicalizeIngredient);
+  if (canonical.length === 0) {
+    return [];
+  }
+
+  const members = await prisma.ingredientGroupMember.findMany({
+    where: { ingredient: { name: { in: [...new Set(canonical.map(entry => entry.name))] } } },
+    select: {
+      ingredient: { select: { name: true } },
+      group: { select: { canonicalName: true } },
+    },
+  });
+  const groupNameByMember = new Map(
+    members.map(member => [member.ingredient.name, normalizeIngredientName(member.group.canonicalName)])
+  );
+
+  return canonical.map(entry => {
+    const groupName = groupNameByMember.get(entry.name);
+    if (!groupName || groupName === entry.name) {
+      return entry;
+    }
+
+    // Keep what set the variant apart: "unsalted butter" → butter, noted "unsalted"
+    const groupWords = new Set(groupName.split(' '));
+    const variant = entry.name.split(' ').filter(word => !groupWords.has(word)).join(' ');
+    return { name: groupName, notes: mergeIngredientNotes(variant, entry.notes) };
+  });
+}
+
+/**
+ * Find or create the Ingredient for a free-text name.
+ * New ingredients get the category given, bundled nutrition values, detected allergens and a store section.
+ */
+export async function resolveIngredient(
+  name: string,
+  options: { category?: string | null } = {}
+): Promise<ResolvedIngredient> {
+  const [canonical] = await canonicalizeIngredientNames([name]);
+
+  const existing = await prisma.ingredient.findUnique({
+    where: { name: canonical.name },
+    select: { id: true },
+  });
+  if (existing) {
+    return { ...canonical, ingredientId: existing.id, created: false };
+  }
+
+  // Per-100g values from the bundled dataset; left empty (not zero) when it doesn't know the ingredient
+  const facts = findNutritionFacts(canonical.name);
+
+  try {
+    const ingredient = await prisma.ingredient.create({
+      data: {
+        name: canonical.name,
+        category: options.category ?? null,
+        storeSection: detectStoreSection(canonical.name, options.category),
+        caloriesPer100g: facts?.calories ?? null,
+        proteinPer100g: facts?.protein ?? null,
+        carbsPer100g: facts?.carbs ?? null,
+        fatPer100g: facts?.fat ?? null,
+        allergens: detectAllergens(canonical.name),
+      },
+      select: { id: true },
+    });
+    console.log(`🥕 New ingredient "${canonical.name}" (from "${name}")`);
+    return { ...canonical, ingredientId: ingredient.id, created: true };
+  } catch (error) {
+    // Created by a concurrent request; imports resolve all their ingredients in parallel
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const ingredient = await prisma.ingredient.findUnique({
+        where: { name: canonical.name },
+        select: { id: true },
+      });
+      if (ingredient) {
+        return { ...canonical, ingredientId: ingredient.id, created: false };
+      }
+    }
+    throw error;
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { prisma } from '../index.js';
+import { normalizeIngredientName } from '../utils/ingredientNormalizer.js';
 
 export interface ComparisonResult {
   status: 'same' | 'similar' | 'different';
@@ -12,16 +13,6 @@ export interface ComparisonResult {
   canonicalUnit?: string;
 }
 
-/**
- * Normalize ingredient name for consistent cache lookups
- * - Lowercase
- * - Trim whitespace
- * - Collapse multiple spaces to single space
- */
-export function normalizeIngredientName(name: string): string {
-  return name.toLowerCase().trim().replace(/\s+/g, ' ');
-}
-
 /**
  * Get a sorted pair of ingredient names for cache key
  * Always returns [smaller, larger] alphabetically to ensure consistent lookups
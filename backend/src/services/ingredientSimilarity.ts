@@ -3,14 +3,13 @@
  * Identifies potential duplicate ingredients that should be merged
  */
 
-import { getCanonicalName } from '../utils/ingredientNormalizer.js';
+import { getCanonicalName, normalizeIngredientName } from '../utils/ingredientNormalizer.js';
 import { executeAIPrompt } from './openai.js';
 import { findCommonUnit, convertIngredientAmount } from '../utils/ingredientConversions.js';
 import {
   getCachedComparison,
   cacheComparison,
   getAllComparisonsFor,
-  normalizeIngredientName,
   type ComparisonResult
 } from './ingredientComparisonCache.js';
 
@@ -58,6 +57,7 @@ export interface PotentialMerge {
 
 export interface MergeDetectionResult {
   autoMerged: CartItem[];
+  autoMergedGroups: CartItem[][]; // The items behind each autoMerged entry
   suggestedMerges: PotentialMerge[];
   noMerge: CartItem[];
 }
@@ -210,21 +210,42 @@ Return JSON format:
   }
 }
 
+/**
+ * Pairs of ingredients to compare. With `onlyPairsWith`, only pairs involving one of those
+ * ingredient IDs.
+ */
+export function pairsToCompare(ingredients: CartItem[], onlyPairsWith?: Set<string>): Array<[CartItem, CartItem]> {
+  const pairs: Array<[CartItem, CartItem]> = [];
+  for (let i = 0; i < ingredients.length; i++) {
+    for (let j = i + 1; j < ingredients.length; j++) {
+      const [ing1, ing2] = [ingredients[i], ingredients[j]];
+      if (onlyPairsWith && !onlyPairsWith.has(ing1.ingredientId) && !onlyPairsWith.has(ing2.ingredientId)) continue;
+      pairs.push([ing1, ing2]);
+    }
+  }
+  return pairs;
+}
+
 /**
  * NEW DB-FIRST APPROACH
  * For each ingredient, check the DB for known comparisons
  * Build match groups based on cached data
  * Only call AI for unknown pairs
+ *
+ * With `onlyPairsWith`, only pairs involving one of those ingredient IDs are compared
+ * (ingredients added to a cart whose other pairs were already checked)
  */
 export async function detectSimilarIngredients(
   ingredients: CartItem[],
-  previousDecisions?: Map<string, 'merge' | 'keep_separate'>
+  previousDecisions?: Map<string, 'merge' | 'keep_separate'>,
+  onlyPairsWith?: Set<string>
 ): Promise<MergeDetectionResult> {
   console.log(`\n=== DB-First Ingredient Detection Started ===`);
   console.log(`Total ingredients to analyze: ${ingredients.length}`);
 
   const result: MergeDetectionResult = {
     autoMerged: [],
+    autoMergedGroups: [],
     suggestedMerges: [],
     noMerge: [],
   };
@@ -257,51 +278,42 @@ export async function detectSimilarIngredients(
   // Track pairs we need to check with AI
   const uncachedPairs: Array<{ ing1: CartItem; ing2: CartItem }> = [];
 
-  for (let i = 0; i < ingredients.length; i++) {
-    if (processed.has(ingredients[i].ingredientId)) continue;
-
-    const ing1 = ingredients[i];
+  for (const [ing1, ing2] of pairsToCompare(ingredients, onlyPairsWith)) {
     const norm1 = normalizeIngredientName(ing1.ingredientName);
+    const norm2 = normalizeIngredientName(ing2.ingredientName);
 
-    for (let j = i + 1; j < ingredients.length; j++) {
-      if (processed.has(ingredients[j].ingredientId)) continue;
-
-      const ing2 = ingredients[j];
-      const norm2 = normalizeIngredientName(ing2.ingredientName);
-
-      // Look up in pre-fetched comparisons (no extra DB query)
-      let cached: ComparisonResult | null = null;
-      const preloaded1 = ingredientComparisons.get(norm1);
-      if (preloaded1) {
-        cached = preloaded1.get(norm2) || null;
-      }
-      if (!cached) {
-        const preloaded2 = ingredientComparisons.get(norm2);
-        if (preloaded2) {
-          cached = preloaded2.get(norm1) || null;
-        }
+    // Look up in pre-fetched comparisons (no extra DB query)
+    let cached: ComparisonResult | null = null;
+    const preloaded1 = ingredientComparisons.get(norm1);
+    if (preloaded1) {
+      cached = preloaded1.get(norm2) || null;
+    }
+    if (!cached) {
+      const preloaded2 = ingredientComparisons.get(norm2);
+      if (preloaded2) {
+        cached = preloaded2.get(norm1) || null;
       }
+    }
 
-      if (cached) {
-        // Use cached result
-        if (cached.status === 'same' || cached.status === 'similar') {
-          console.log(`  Cached: "${ing1.ingredientName}" + "${ing2.ingredientName}" → ${cached.status.toUpperCase()}`);
+    if (cached) {
+      // Use cached result
+      if (cached.status === 'same' || cached.status === 'similar') {
+        console.log(`  Cached: "${ing1.ingredientName}" + "${ing2.ingredientName}" → ${cached.status.toUpperCase()}`);
 
-          // Add to match groups
-          if (!matchGroups.has(norm1)) {
-            matchGroups.set(norm1, new Set([norm1]));
-          }
-          matchGroups.get(norm1)!.add(norm2);
+        // Add to match groups
+        if (!matchGroups.has(norm1)) {
+          matchGroups.set(norm1, new Set([norm1]));
+        }
+        matchGroups.get(norm1)!.add(norm2);
 
-          if (!matchGroups.has(norm2)) {
-            matchGroups.set(norm2, new Set([norm2]));
-          }
-          matchGroups.get(norm2)!.add(norm1);
+        if (!matchGroups.has(norm2)) {
+          matchGroups.set(norm2, new Set([norm2]));
         }
-      } else {
-        // No cache hit - need AI comparison
-        uncachedPairs.push({ ing1, ing2 });
+        matchGroups.get(norm2)!.add(norm1);
       }
+    } else {
+      // No cache hit - need AI comparison
+      uncachedPairs.push({ ing1, ing2 });
     }
   }
 
@@ -432,6 +444,7 @@ export async function detectSimilarIngredients(
       // Auto-merge
       const merged = mergeIngredients(groupIngredients);
       result.autoMerged.push(merged);
+      result.autoMergedGroups.push(groupIngredients);
       console.log(`  Auto-merged ${groupIngredients.length} ingredients: ${groupIngredients.map(g => g.ingredientName).join(', ')}`);
     } else {
       // Suggest merge to user
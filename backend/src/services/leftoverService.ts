@@ -0,0 +1,174 @@
+// Leftover Service
+// Tracks "cook once, eat twice" portions across meal plan slots
+
+import { prisma } from '../index.js';
+import { findLibraryDefinition } from '../config/preferenceLibrary.js';
+import { getUserActivePreferences, mapPreferencesToAgentParams } from './preferenceMapper.js';
+import { getSlotServings } from '../utils/recipeScaling.js';
+
+export interface PortionLedgerEntry {
+  sourceSlotId: string | null;
+  sourceCookingEventId: string | null;
+  recipeId: string;
+  recipeTitle: string;
+  servingsCooked: number;
+  servingsPerMeal: number;
+  servingsEaten: number;
+  servingsRemaining: number;
+  leftoverSlotIds: string[];
+}
+
+/**
+ * Whether a slot eats leftovers instead of being cooked
+ */
+export function isLeftoverSlot(slot: { leftoverOfSlotId?: string | null; leftoverOfCookingEventId?: string | null }): boolean {
+  return Boolean(slot.leftoverOfSlotId || slot.leftoverOfCookingEventId);
+}
+
+/**
+ * Number of servings eaten per meal, from the lifestyle_family_size preference
+ */
+export async function getHouseholdSize(userId: string): Promise<number> {
+  const preferences = await getUserActivePreferences(userId);
+  const params = mapPreferencesToAgentParams(preferences);
+
+  if (params.servings && params.servings > 0) {
+    return params.servings;
+  }
+
+  return findLibraryDefinition('lifestyle_family_size')?.defaultValue ?? 1;
+}
+
+/**
+ * Build the portion ledger for a meal plan's slots.
+ * Each cooking slot yields its servings (override or recipe.servings), each cooking event referenced
+ * by a leftover slot yields recipe.servings; every non-skipped meal eating it uses householdSize portions.
+ */
+export function buildPortionLedger(slots: any[], householdSize: number): PortionLedgerEntry[] {
+  const entries = new Map<string, PortionLedgerEntry>();
+
+  for (const slot of slots) {
+    if (!slot.recipe || isLeftoverSlot(slot)) continue;
+
+    const servingsCooked = getSlotServings(slot);
+    entries.set(`slot:${slot.id}`, {
+      sourceSlotId: slot.id,
+      sourceCookingEventId: null,
+      recipeId: slot.recipe.id,
+      recipeTitle: slot.recipe.title,
+      servingsCooked,
+      servingsPerMeal: householdSize,
+      servingsEaten: slot.isSkipped ? 0 : householdSize,
+      servingsRemaining: servingsCooked - (slot.isSkipped ? 0 : householdSize),
+      leftoverSlotIds: []
+    });
+  }
+
+  for (const slot of slots) {
+    if (!isLeftoverSlot(slot)) continue;
+
+    const key = slot.leftoverOfSlotId
+      ? `slot:${slot.leftoverOfSlotId}`
+      : `event:${slot.leftoverOfCookingEventId}`;
+
+    let entry = entries.get(key);
+    if (!entry && slot.leftoverOfCookingEvent?.recipe) {
+      const recipe = slot.leftoverOfCookingEvent.recipe;
+      entry = {
+        sourceSlotId: null,
+        sourceCookingEventId: slot.leftoverOfCookingEventId,
+        recipeId: recipe.id,
+        recipeTitle: recipe.title,
+        servingsCooked: recipe.servings,
+        servingsPerMeal: householdSize,
+        servingsEaten: householdSize,
+        servingsRemaining: recipe.servings - householdSize,
+        leftoverSlotIds: []
+      };
+      entries.set(key, entry);
+    }
+    if (!entry) continue;
+
+    entry.leftoverSlotIds.push(slot.id);
+    if (!slot.isSkipped) {
+      entry.servingsEaten += householdSize;
+      entry.servingsRemaining -= householdSize;
+    }
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * Check that a slot can be marked as a leftover of an earlier slot or cooking event.
+ * Returns the recipe the slot will eat, or an error message.
+ */
+export async function resolveLeftoverSource(
+  userId: string,
+  mealPlanId: string,
+  slotId: string,
+  source: { leftoverOfSlotId?: string | null; leftoverOfCookingEventId?: string | null }
+): Promise<{ recipeId: string } | { error: string }> {
+  const targetSlot = await prisma.mealSlot.findFirst({
+    where: { id: slotId, mealPlanId }
+  });
+
+  if (!targetSlot) {
+    return { error: 'Meal slot not found' };
+  }
+
+  const householdSize = await getHouseholdSize(userId);
+  let recipeId: string;
+  let cookedAt: Date;
+  let otherLeftovers: { id: string; isSkipped: boolean }[];
+  let servingsAfterFirstMeal: number;
+
+  if (source.leftoverOfSlotId) {
+    const sourceSlot = await prisma.mealSlot.findFirst({
+      where: { id: source.leftoverOfSlotId, mealPlanId },
+      include: { recipe: true, leftoverSlots: true }
+    });
+
+    if (!sourceSlot || !sourceSlot.recipe || sourceSlot.id === slotId) {
+      return { error: 'Source meal slot not found or has no recipe' };
+    }
+    if (isLeftoverSlot(sourceSlot)) {
+      return { error: 'Source meal slot is itself a leftover' };
+    }
+
+    recipeId = sourceSlot.recipe.id;
+    cookedAt = sourceSlot.date;
+    servingsAfterFirstMeal = getSlotServings(sourceSlot) - householdSize;
+    otherLeftovers = sourceSlot.leftoverSlots;
+  } else if (source.leftoverOfCookingEventId) {
+    const cookingEvent = await prisma.cookingEvent.findFirst({
+      where: { id: source.leftoverOfCookingEventId, userId },
+      include: { recipe: true, leftoverSlots: true }
+    });
+
+    if (!cookingEvent) {
+      return { error: 'Cooking event not found' };
+    }
+
+    recipeId = cookingEvent.recipe.id;
+    cookedAt = cookingEvent.cookedAt;
+    servingsAfterFirstMeal = cookingEvent.recipe.servings - householdSize;
+    otherLeftovers = cookingEvent.leftoverSlots;
+  } else {
+    return { error: 'A leftover source is required' };
+  }
+
+  if (cookedAt > targetSlot.date) {
+    return { error: 'Leftovers must come from an earlier meal' };
+  }
+
+  const servingsRemaining = otherLeftovers
+    .filter(slot => slot.id !== slotId && !slot.isSkipped)
+    .reduce((remaining) => remaining - householdSize, servingsAfterFirstMeal);
+
+  if (servingsRemaining < householdSize) {
+    return { error: `Not enough leftovers: ${Math.max(servingsRemaining, 0)} serving(s) left, ${householdSize} needed` };
+  }
+
+  return { recipeId };
+}
@@ -0,0 +1,71 @@
+// Local Embedding Provider
+// Deterministic embeddings with no network or credentials: each word and word pair is hashed to a
+// dimension (feature hashing) and the vector is normalized. Texts sharing words score as similar,
+// so it only captures keyword overlap - enough for development and tests, not for "cozy" meaning
+// "stew".
+
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './embeddingProvider.js';
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'with', 'for', 'in', 'on', 'to', 'or', 'some', 'something']);
+
+const WORD_WEIGHT = 1;
+const PAIR_WEIGHT = 0.5;
+
+/**
+ * 32-bit FNV-1a hash; the seed gives independent hashes for the dimension and the sign
+ */
+function hashFeature(feature: string, seed: number): number {
+  let hash = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+  return hash;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Embed one text; the same text always gives the same vector
+ */
+export function embedTextLocally(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = tokenize(text);
+  const features: Array<[string, number]> = [
+    ...words.map((word): [string, number] => [word, WORD_WEIGHT]),
+    ...words.slice(1).map((word, i): [string, number] => [`${words[i]} ${word}`, PAIR_WEIGHT])
+  ];
+
+  // Empty text still needs a non-zero vector for cosine distance
+  if (features.length === 0) {
+    features.push(['', WORD_WEIGHT]);
+  }
+
+  for (const [feature, weight] of features) {
+    const index = hashFeature(feature, 0) % EMBEDDING_DIMENSIONS;
+    const sign = hashFeature(feature, 1) & 1 ? 1 : -1;
+    vector[index] += sign * weight;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map(value => value / norm);
+}
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: 'local',
+  model: 'hashed-words-v1',
+
+  isConfigured() {
+    return true;
+  },
+
+  async embed(texts: string[]) {
+    return texts.map(embedTextLocally);
+  },
+};
@@ -0,0 +1,112 @@
+// Local Store Grocery Provider
+// Fixture-backed provider (config/localStoreCatalog.ts) that needs no network or credentials.
+// Lets the cart flow run end to end in development and tests.
+
+import { LOCAL_STORE_NAME, LOCAL_STORE_PRODUCTS, type LocalStoreProduct } from '../config/localStoreCatalog.js';
+import {
+  priceProductForIngredient,
+  type GroceryProduct,
+  type GroceryProvider,
+  type ProviderCart
+} from './groceryProvider.js';
+
+function toGroceryProduct(product: LocalStoreProduct): GroceryProduct {
+  return {
+    providerId: 'local',
+    productId: product.productId,
+    name: product.name,
+    price: product.price,
+    regularPrice: product.regularPrice,
+    size: product.size,
+    brandName: product.brandName,
+    category: product.category,
+    inStock: product.inStock !== false
+  };
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Relevance of a product for a query: exact keyword beats phrase match beats word overlap
+ */
+function scoreProduct(product: LocalStoreProduct, query: string): number {
+  const normalized = query.toLowerCase().trim();
+  const name = product.name.toLowerCase();
+
+  if (product.keywords.includes(normalized)) {
+    return 3;
+  }
+  if (name.includes(normalized) || product.keywords.some(keyword => ` ${normalized} `.includes(` ${keyword} `))) {
+    return 2;
+  }
+
+  const queryTokens = tokenize(normalized);
+  if (queryTokens.length === 0) {
+    return 0;
+  }
+  const productTokens = new Set([...tokenize(name), ...product.keywords.flatMap(tokenize)]);
+  const matched = queryTokens.filter(token => productTokens.has(token)).length;
+
+  return matched / queryTokens.length;
+}
+
+/**
+ * Search the fixture catalog, best matches first
+ */
+function searchCatalog(query: string): LocalStoreProduct[] {
+  return LOCAL_STORE_PRODUCTS
+    .map(product => ({ product, score: scoreProduct(product, query) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.product.price - b.product.price)
+    .map(({ product }) => product);
+}
+
+export const localStoreProvider: GroceryProvider = {
+  id: 'local',
+  name: LOCAL_STORE_NAME,
+
+  isConfigured() {
+    return true;
+  },
+
+  async search(query) {
+    const items = searchCatalog(query).map(toGroceryProduct);
+    return { providerId: 'local', query, items, totalResults: items.length };
+  },
+
+  async getProduct(productId) {
+    const product = LOCAL_STORE_PRODUCTS.find(p => p.productId === productId);
+    return product ? toGroceryProduct(product) : null;
+  },
+
+  async priceIngredient(ingredient) {
+    // Search terms tuned for other retailers (e.g. "chicken breast 2 lb") would dilute the match
+    const match = searchCatalog(ingredient.name).find(product => product.inStock !== false);
+    return match ? priceProductForIngredient(toGroceryProduct(match), ingredient) : null;
+  },
+
+  async buildCart(items) {
+    const lines: NonNullable<ProviderCart['items']> = [];
+    let total = 0;
+
+    for (const item of items) {
+      const product = LOCAL_STORE_PRODUCTS.find(p => p.productId === item.productId);
+      if (!product) {
+        return { providerId: 'local', error: `Unknown ${LOCAL_STORE_NAME} product: ${item.productId}` };
+      }
+
+      const lineTotal = Math.round(product.price * item.quantity * 100) / 100;
+      lines.push({ ...item, name: product.name, price: product.price, lineTotal });
+      total += lineTotal;
+    }
+
+    return {
+      providerId: 'local',
+      items: lines,
+      total: Math.round(total * 100) / 100,
+      message: `${lines.length} items ready for pickup at ${LOCAL_STORE_NAME}`
+    };
+  }
+};
@@ -0,0 +1,269 @@
+// Meal Plan Nutrition Service
+// Aggregates per-day and per-week macros across a meal plan's slots and compares them
+// to the user's nutrition preferences, planned vs actually cooked
+
+import { getUserActivePreferences, mapPreferencesToAgentParams } from './preferenceMapper.js';
+import { buildPortionLedger } from './leftoverService.js';
+import type { Macros } from './nutritionService.js';
+
+// A day within this share of the calorie target counts as on target
+const CALORIE_TOLERANCE = 0.1;
+
+export type TargetKind = 'target' | 'min' | 'max';
+export type TargetStatus = 'under' | 'over' | 'ok';
+
+export interface NutritionTarget {
+  field: keyof Macros;
+  kind: TargetKind; // Calories aim for a value; protein is a minimum; carbs and fat are maximums
+  value: number;
+  preferenceKey: string;
+}
+
+export interface TargetComparison {
+  field: keyof Macros;
+  kind: TargetKind;
+  value: number;
+  target: number;
+  difference: number; // value - target
+  status: TargetStatus;
+}
+
+export interface DayNutrition {
+  date: string; // yyyy-mm-dd
+  plannedMeals: number;
+  completedMeals: number;
+  skippedMeals: number;
+  planned: Macros; // Every meal that isn't skipped
+  actual: Macros | null; // Completed meals only; null until one is completed
+  plannedComparisons: TargetComparison[];
+  actualComparisons: TargetComparison[] | null;
+  status: TargetStatus | 'mixed'; // Planned day vs targets: all ok, any over, any under, or both
+}
+
+export interface MealPlanNutrition {
+  targets: NutritionTarget[];
+  householdSize: number;
+  days: DayNutrition[];
+  weekly: {
+    planned: Macros;
+    actual: Macros;
+    plannedDailyAverage: Macros;
+    actualDailyAverage: Macros | null; // Over days with a completed meal
+    comparisons: TargetComparison[];
+    daysOverTarget: number;
+    daysUnderTarget: number;
+  };
+  recipesWithoutNutrition: string[];
+}
+
+type NutritionRecipe = { id: string; title: string; calories: number | null; protein: number | null; carbs: number | null; fat: number | null };
+
+export interface NutritionSlot {
+  id: string;
+  date: Date;
+  isSkipped: boolean;
+  isCompleted: boolean;
+  servings: number | null; // Servings cooked, when overridden from the recipe's yield
+  leftoverOfSlotId: string | null;
+  leftoverOfCookingEventId: string | null;
+  leftoverOfCookingEvent?: { recipe: { id: string; title: string; servings: number } | null } | null;
+  recipe: (NutritionRecipe & { servings: number }) | null;
+  cookingEvents?: Array<{ recipe: NutritionRecipe | null }>;
+}
+
+function emptyMacros(): Macros {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0 };
+}
+
+function roundMacros(macros: Macros): Macros {
+  return {
+    calories: Math.round(macros.calories),
+    protein: Math.round(macros.protein * 10) / 10,
+    carbs: Math.round(macros.carbs * 10) / 10,
+    fat: Math.round(macros.fat * 10) / 10
+  };
+}
+
+function addRecipe(totals: Macros, recipe: NutritionRecipe, servings: number) {
+  totals.calories += (recipe.calories || 0) * servings;
+  totals.protein += (recipe.protein || 0) * servings;
+  totals.carbs += (recipe.carbs || 0) * servings;
+  totals.fat += (recipe.fat || 0) * servings;
+}
+
+function divideMacros(macros: Macros, divisor: number): Macros {
+  return {
+    calories: macros.calories / divisor,
+    protein: macros.protein / divisor,
+    carbs: macros.carbs / divisor,
+    fat: macros.fat / divisor
+  };
+}
+
+/**
+ * Daily nutrition targets from the user's active preferences.
+ * Falls back to the plan's own calorie target when no calorie preference is set.
+ */
+export async function getNutritionTargets(userId: string, planCalorieTarget?: number | null): Promise<NutritionTarget[]> {
+  const params = mapPreferencesToAgentParams(await getUserActivePreferences(userId));
+  const calories = params.calorieTargetPerDay ?? planCalorieTarget ?? undefined;
+
+  return [
+    ...(calories ? [{ field: 'calories' as const, kind: 'target' as const, value: calories, preferenceKey: 'nutrition_daily_calories' }] : []),
+    ...(params.proteinTargetMin ? [{ field: 'protein' as const, kind: 'min' as const, value: params.proteinTargetMin, preferenceKey: 'nutrition_protein_min' }] : []),
+    ...(params.carbsTargetMax ? [{ field: 'carbs' as const, kind: 'max' as const, value: params.carbsTargetMax, preferenceKey: 'nutrition_carbs_max' }] : []),
+    ...(params.fatTargetMax ? [{ field: 'fat' as const, kind: 'max' as const, value: params.fatTargetMax, preferenceKey: 'nutrition_fat_max' }] : [])
+  ];
+}
+
+/**
+ * Compare a day's macros to each target
+ */
+export function compareToTargets(macros: Macros, targets: NutritionTarget[]): TargetComparison[] {
+  return targets.map(target => {
+    const value = macros[target.field];
+    let status: TargetStatus = 'ok';
+
+    if (target.kind === 'target') {
+      if (value < target.value * (1 - CALORIE_TOLERANCE)) status = 'under';
+      else if (value > target.value * (1 + CALORIE_TOLERANCE)) status = 'over';
+    } else if (target.kind === 'min' && value < target.value) {
+      status = 'under';
+    } else if (target.kind === 'max' && value > target.value) {
+      status = 'over';
+    }
+
+    return {
+      field: target.field,
+      kind: target.kind,
+      value: target.field === 'calories' ? Math.round(value) : Math.round(value * 10) / 10,
+      target: target.value,
+      difference: Math.round((value - target.value) * 10) / 10,
+      status
+    };
+  });
+}
+
+function overallStatus(comparisons: TargetComparison[]): DayNutrition['status'] {
+  const over = comparisons.some(c => c.status === 'over');
+  const under = comparisons.some(c => c.status === 'under');
+  if (over && under) return 'mixed';
+  if (over) return 'over';
+  if (under) return 'under';
+  return 'ok';
+}
+
+/**
+ * Servings each person eats at every slot, keyed by slot id.
+ * Follows the portion ledger: each meal takes one serving per household member from its
+ * batch (the cooking slot plus its leftover slots). A batch cooked with fewer servings than
+ * its meals take is shared evenly, so each person gets servings cooked ÷ servings eaten.
+ */
+function getServingsPerPerson(slots: NutritionSlot[], householdSize: number): Map<string, number> {
+  const servingsPerPerson = new Map<string, number>();
+
+  for (const entry of buildPortionLedger(slots, householdSize)) {
+    const share = entry.servingsEaten > 0 ? Math.min(1, entry.servingsCooked / entry.servingsEaten) : 1;
+    if (entry.sourceSlotId) {
+      servingsPerPerson.set(entry.sourceSlotId, share);
+    }
+    for (const slotId of entry.leftoverSlotIds) {
+      servingsPerPerson.set(slotId, share);
+    }
+  }
+
+  return servingsPerPerson;
+}
+
+/**
+ * Per-person macros for each day of a meal plan.
+ * Recipe macros are per serving. Each person eats one serving per meal unless the batch was
+ * cooked short for the household and its leftover meals (see getServingsPerPerson); skipped
+ * meals count for nothing. "Actual" uses completed meals, taking the recipe from the slot's
+ * cooking event when one was logged.
+ */
+export function summarizeMealPlanNutrition(
+  slots: NutritionSlot[],
+  householdSize: number,
+  targets: NutritionTarget[]
+): MealPlanNutrition {
+  const days = new Map<string, { planned: Macros; actual: Macros; plannedMeals: number; completedMeals: number; skippedMeals: number }>();
+  const missing = new Map<string, string>();
+  const servingsPerPerson = getServingsPerPerson(slots, householdSize);
+
+  for (const slot of slots) {
+    const date = slot.date.toISOString().split('T')[0];
+    const day = days.get(date) ?? { planned: emptyMacros(), actual: emptyMacros(), plannedMeals: 0, completedMeals: 0, skippedMeals: 0 };
+    days.set(date, day);
+
+    if (slot.isSkipped) {
+      day.skippedMeals++;
+      continue;
+    }
+    if (!slot.recipe) {
+      continue;
+    }
+
+    const servings = servingsPerPerson.get(slot.id) ?? 1;
+    day.plannedMeals++;
+    addRecipe(day.planned, slot.recipe, servings);
+    if (slot.recipe.calories === null) {
+      missing.set(slot.recipe.id, slot.recipe.title);
+    }
+
+    if (slot.isCompleted) {
+      const eaten = slot.cookingEvents?.find(event => event.recipe)?.recipe ?? slot.recipe;
+      day.completedMeals++;
+      addRecipe(day.actual, eaten, servings);
+    }
+  }
+
+  const dayResults: DayNutrition[] = [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => {
+      const plannedComparisons = compareToTargets(day.planned, targets);
+      return {
+        date,
+        plannedMeals: day.plannedMeals,
+        completedMeals: day.completedMeals,
+        skippedMeals: day.skippedMeals,
+        planned: roundMacros(day.planned),
+        actual: day.completedMeals > 0 ? roundMacros(day.actual) : null,
+        plannedComparisons,
+        actualComparisons: day.completedMeals > 0 ? compareToTargets(day.actual, targets) : null,
+        status: overallStatus(plannedComparisons)
+      };
+    });
+
+  const plannedTotal = emptyMacros();
+  const actualTotal = emptyMacros();
+  for (const day of days.values()) {
+    plannedTotal.calories += day.planned.calories;
+    plannedTotal.protein += day.planned.protein;
+    plannedTotal.carbs += day.planned.carbs;
+    plannedTotal.fat += day.planned.fat;
+    actualTotal.calories += day.actual.calories;
+    actualTotal.protein += day.actual.protein;
+    actualTotal.carbs += day.actual.carbs;
+    actualTotal.fat += day.actual.fat;
+  }
+
+  const plannedDailyAverage = divideMacros(plannedTotal, Math.max(days.size, 1));
+  const daysWithCompletedMeals = dayResults.filter(day => day.completedMeals > 0).length;
+
+  return {
+    targets,
+    householdSize,
+    days: dayResults,
+    weekly: {
+      planned: roundMacros(plannedTotal),
+      actual: roundMacros(actualTotal),
+      plannedDailyAverage: roundMacros(plannedDailyAverage),
+      actualDailyAverage: daysWithCompletedMeals > 0 ? roundMacros(divideMacros(actualTotal, daysWithCompletedMeals)) : null,
+      comparisons: compareToTargets(plannedDailyAverage, targets),
+      daysOverTarget: dayResults.filter(day => day.status === 'over' || day.status === 'mixed').length,
+      daysUnderTarget: dayResults.filter(day => day.status === 'under' || day.status === 'mixed').length
+    },
+    recipesWithoutNutrition: [...missing.values()]
+  };
+}
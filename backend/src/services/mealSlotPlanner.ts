@@ -0,0 +1,429 @@
+// Meal Slot Planner Service
+// Assigns recipes to meal plan slots using meal type, spacing, calorie and cook time constraints
+
+import { addDays } from 'date-fns';
+import { AgentParameters } from './preferenceMapper.js';
+import { getMealTypes, normalizeProteinName } from './recipeSelector.js';
+
+// Minimum number of days between two servings of the same recipe
+const MIN_REPEAT_GAP_DAYS = 3;
+
+// Minimum number of days between two meals built on the same protein
+const MIN_PROTEIN_GAP_DAYS = 1;
+
+// Weekends allow longer cooking sessions than the weekday limit
+const WEEKEND_COOK_TIME_MULTIPLIER = 2;
+
+const PROTEIN_CATEGORIES = ['Seafood', 'Meat', 'Protein'];
+
+// Leftovers are only planned between these meal types, and eaten within this many days
+const LEFTOVER_MEAL_TYPES = ['lunch', 'dinner'];
+const LEFTOVER_MAX_AGE_DAYS = 2;
+
+// Score bonus for using a soon-to-expire pantry item on or before its expiry day
+const EXPIRING_INGREDIENT_BONUS = 15;
+
+// Constraints the planner may relax, in the order it gives them up
+type RelaxableConstraint = 'repeatSpacing' | 'cookTime' | 'mealType';
+
+const RELAXATION_ORDER: RelaxableConstraint[] = ['repeatSpacing', 'cookTime', 'mealType'];
+
+const RELAXATION_LABELS: Record<RelaxableConstraint, string> = {
+  repeatSpacing: 'repeat spacing',
+  cookTime: 'cook time limit',
+  mealType: 'meal type'
+};
+
+export interface SlotPlacement {
+  summary: string;
+  reasons: string[];
+  relaxed: string[];
+}
+
+export interface PlannedSlot {
+  dayIndex: number;
+  date: Date;
+  dayOfWeek: number;
+  mealType: string;
+  sortOrder: number;
+  recipeId: string | null;
+  leftoverOf: { dayIndex: number; mealType: string } | null;
+  placement: SlotPlacement;
+}
+
+export interface ExpiringIngredient {
+  ingredientId: string;
+  name: string;
+  dayIndex: number; // Last plan day (0-based) the item can still be used
+}
+
+export interface SlotPlannerOptions {
+  startDate: Date;
+  days: number;
+  mealTypes: string[];
+  preferences: AgentParameters;
+  householdSize: number;
+  planLeftovers: boolean;
+  expiringIngredients?: ExpiringIngredient[];
+}
+
+interface PlannerCandidate {
+  id: string;
+  title: string;
+  mealTypes: string[];
+  proteins: string[];
+  totalTime: number;
+  calories: number | null;
+  servings: number;
+  ingredientIds: Set<string>;
+}
+
+interface SlotContext {
+  dayIndex: number;
+  mealType: string;
+  isWeekend: boolean;
+  cookTimeLimit: number | null;
+  slotCalorieTarget: number | null;
+}
+
+interface OpenPortions {
+  candidate: PlannerCandidate;
+  dayIndex: number;
+  mealType: string;
+  servingsRemaining: number;
+}
+
+interface PlannerState {
+  lastServedDay: Map<string, number>;
+  lastProteinDay: Map<string, number>;
+  useCount: Map<string, number>;
+  openPortions: OpenPortions[];
+  usedUpIngredients: Set<string>; // Expiring pantry items already planned into a meal
+}
+
+/**
+ * Build planner candidates from recipes loaded with their ingredients
+ */
+function toCandidate(recipe: any): PlannerCandidate {
+  const proteins = (recipe.recipeIngredients || [])
+    .filter((ri: any) => PROTEIN_CATEGORIES.includes(ri.ingredient?.category || ''))
+    .map((ri: any) => normalizeProteinName(ri.ingredient.name));
+
+  return {
+    id: recipe.id,
+    title: recipe.title,
+    mealTypes: getMealTypes(recipe),
+    proteins: [...new Set<string>(proteins)],
+    totalTime: (recipe.prepTime || 0) + (recipe.cookTime || 0),
+    calories: recipe.calories ?? null,
+    servings: recipe.servings || 0,
+    ingredientIds: new Set<string>((recipe.recipeIngredients || []).map((ri: any) => ri.ingredientId))
+  };
+}
+
+/**
+ * Check the hard constraints for a candidate, skipping any that have been relaxed
+ */
+function satisfiesConstraints(
+  candidate: PlannerCandidate,
+  slot: SlotContext,
+  state: PlannerState,
+  relaxed: Set<RelaxableConstraint>,
+  usedToday: Set<string>
+): boolean {
+  // Never serve the same recipe twice in one day
+  if (usedToday.has(candidate.id)) {
+    return false;
+  }
+
+  if (!relaxed.has('mealType') && !candidate.mealTypes.includes(slot.mealType)) {
+    return false;
+  }
+
+  if (!relaxed.has('cookTime') && slot.cookTimeLimit !== null && candidate.totalTime > slot.cookTimeLimit) {
+    return false;
+  }
+
+  if (!relaxed.has('repeatSpacing')) {
+    const lastServed = state.lastServedDay.get(candidate.id);
+    if (lastServed !== undefined && slot.dayIndex - lastServed < MIN_REPEAT_GAP_DAYS) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Score a candidate for a slot (higher is better) and explain the score
+ */
+function scoreCandidate(
+  candidate: PlannerCandidate,
+  slot: SlotContext,
+  state: PlannerState,
+  expiringIngredients: ExpiringIngredient[]
+): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (candidate.mealTypes.includes(slot.mealType)) {
+    reasons.push(`Suited to ${slot.mealType}`);
+  }
+
+  // Prefer recipes that have not been placed yet so the plan uses every recipe
+  const useCount = state.useCount.get(candidate.id) || 0;
+  score -= useCount * 20;
+  const lastServed = state.lastServedDay.get(candidate.id);
+  if (lastServed === undefined) {
+    reasons.push('First time on the plan');
+  } else {
+    reasons.push(`Last served ${slot.dayIndex - lastServed} day(s) earlier`);
+  }
+
+  // Protein spacing
+  const recentProteins = candidate.proteins.filter(protein => {
+    const lastDay = state.lastProteinDay.get(protein);
+    return lastDay !== undefined && slot.dayIndex - lastDay <= MIN_PROTEIN_GAP_DAYS;
+  });
+  if (recentProteins.length > 0) {
+    score -= recentProteins.length * 10;
+    reasons.push(`Repeats recent protein: ${recentProteins.join(', ')}`);
+  } else if (candidate.proteins.length > 0) {
+    reasons.push(`Varies protein (${candidate.proteins.join(', ')})`);
+  }
+
+  // Cook time
+  if (slot.cookTimeLimit !== null) {
+    if (candidate.totalTime <= slot.cookTimeLimit) {
+      reasons.push(`${candidate.totalTime} min fits the ${slot.isWeekend ? 'weekend' : 'weekday'} limit of ${slot.cookTimeLimit} min`);
+    } else {
+      score -= Math.ceil((candidate.totalTime - slot.cookTimeLimit) / 15) * 5;
+    }
+  }
+
+  // Use up pantry items before they expire
+  for (const item of expiringIngredients) {
+    if (
+      candidate.ingredientIds.has(item.ingredientId) &&
+      !state.usedUpIngredients.has(item.ingredientId) &&
+      slot.dayIndex <= item.dayIndex
+    ) {
+      score += EXPIRING_INGREDIENT_BONUS;
+      reasons.push(`Uses ${item.name} before it expires`);
+    }
+  }
+
+  // Calories toward the daily target
+  if (slot.slotCalorieTarget !== null) {
+    if (candidate.calories !== null) {
+      const diff = Math.abs(candidate.calories - slot.slotCalorieTarget);
+      score -= diff / 50;
+      reasons.push(`${candidate.calories} cal vs ${Math.round(slot.slotCalorieTarget)} cal left for this slot`);
+    } else {
+      score -= 5;
+    }
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Find cooked portions an upcoming lunch or dinner can eat instead of cooking
+ */
+function findLeftovers(
+  slot: SlotContext,
+  state: PlannerState,
+  householdSize: number,
+  usedToday: Set<string>
+): OpenPortions | null {
+  if (!LEFTOVER_MEAL_TYPES.includes(slot.mealType)) {
+    return null;
+  }
+
+  const available = state.openPortions.filter(portions =>
+    portions.servingsRemaining >= householdSize &&
+    slot.dayIndex > portions.dayIndex &&
+    slot.dayIndex - portions.dayIndex <= LEFTOVER_MAX_AGE_DAYS &&
+    !usedToday.has(portions.candidate.id)
+  );
+
+  // Eat the oldest leftovers first
+  available.sort((a, b) => a.dayIndex - b.dayIndex);
+  return available[0] || null;
+}
+
+/**
+ * Assign recipes to every slot of a meal plan.
+ *
+ * Works day by day; within a day the most constrained meal type is filled first.
+ * Hard constraints (meal type, cook time, repeat spacing) are relaxed one at a time,
+ * in RELAXATION_ORDER, only when no candidate satisfies them.
+ * When planLeftovers is set, lunches and dinners eat earlier portions before cooking again.
+ * Recipes using soon-to-expire pantry items are favoured on days before the items expire.
+ */
+export function planMealSlots(recipes: any[], options: SlotPlannerOptions): PlannedSlot[] {
+  const candidates = recipes.map(toCandidate);
+  const { preferences } = options;
+  const calorieTarget = preferences.calorieTargetPerDay ?? null;
+  const maxCookTime = preferences.maxCookTime ?? null;
+
+  const state: PlannerState = {
+    lastServedDay: new Map(),
+    lastProteinDay: new Map(),
+    useCount: new Map(),
+    openPortions: [],
+    usedUpIngredients: new Set()
+  };
+  const expiringIngredients = options.expiringIngredients ?? [];
+
+  const planned: PlannedSlot[] = [];
+
+  for (let dayIndex = 0; dayIndex < options.days; dayIndex++) {
+    const date = addDays(options.startDate, dayIndex);
+    const dayOfWeek = date.getDay();
+    const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+    const cookTimeLimit = maxCookTime === null
+      ? null
+      : isWeekend ? maxCookTime * WEEKEND_COOK_TIME_MULTIPLIER : maxCookTime;
+
+    // Most constrained meal type first (fewest eligible recipes)
+    const slotOrder = options.mealTypes
+      .map((mealType, sortOrder) => ({
+        mealType,
+        sortOrder,
+        eligible: candidates.filter(c => c.mealTypes.includes(mealType)).length
+      }))
+      .sort((a, b) => a.eligible - b.eligible || a.sortOrder - b.sortOrder);
+
+    const usedToday = new Set<string>();
+    let caloriesPlanned = 0;
+    let slotsRemaining = options.mealTypes.length;
+
+    for (const { mealType, sortOrder } of slotOrder) {
+      const slot: SlotContext = {
+        dayIndex,
+        mealType,
+        isWeekend,
+        cookTimeLimit,
+        slotCalorieTarget: calorieTarget === null
+          ? null
+          : Math.max(calorieTarget - caloriesPlanned, 0) / slotsRemaining
+      };
+
+      const leftovers = options.planLeftovers
+        ? findLeftovers(slot, state, options.householdSize, usedToday)
+        : null;
+
+      if (leftovers) {
+        const { candidate } = leftovers;
+        leftovers.servingsRemaining -= options.householdSize;
+        usedToday.add(candidate.id);
+        state.lastServedDay.set(candidate.id, dayIndex);
+        caloriesPlanned += candidate.calories || 0;
+        slotsRemaining--;
+
+        planned.push({
+          dayIndex,
+          date,
+          dayOfWeek,
+          mealType,
+          sortOrder,
+          recipeId: candidate.id,
+          leftoverOf: { dayIndex: leftovers.dayIndex, mealType: leftovers.mealType },
+          placement: {
+            summary: `Leftovers of "${candidate.title}" from ${addDays(options.startDate, leftovers.dayIndex).toDateString()} ${leftovers.mealType}`,
+            reasons: [
+              `Cook once, eat twice: ${leftovers.servingsRemaining} serving(s) left after this meal`,
+              'No extra shopping or cooking needed'
+            ],
+            relaxed: []
+          }
+        });
+        continue;
+      }
+
+      const relaxed = new Set<RelaxableConstraint>();
+      let eligible = candidates.filter(c => satisfiesConstraints(c, slot, state, relaxed, usedToday));
+
+      for (const constraint of RELAXATION_ORDER) {
+        if (eligible.length > 0) break;
+        relaxed.add(constraint);
+        eligible = candidates.filter(c => satisfiesConstraints(c, slot, state, relaxed, usedToday));
+      }
+
+      const relaxedLabels = [...relaxed].map(c => RELAXATION_LABELS[c]);
+      let best: { candidate: PlannerCandidate; score: number; reasons: string[] } | null = null;
+
+      for (const candidate of eligible) {
+        const { score, reasons } = scoreCandidate(candidate, slot, state, expiringIngredients);
+        if (!best || score > best.score) {
+          best = { candidate, score, reasons };
+        }
+      }
+
+      if (!best) {
+        planned.push({
+          dayIndex,
+          date,
+          dayOfWeek,
+          mealType,
+          sortOrder,
+          recipeId: null,
+          leftoverOf: null,
+          placement: {
+            summary: `No recipe available for ${mealType}`,
+            reasons: [],
+            relaxed: relaxedLabels
+          }
+        });
+        slotsRemaining--;
+        continue;
+      }
+
+      const { candidate } = best;
+      usedToday.add(candidate.id);
+      state.lastServedDay.set(candidate.id, dayIndex);
+      state.useCount.set(candidate.id, (state.useCount.get(candidate.id) || 0) + 1);
+      candidate.proteins.forEach(protein => state.lastProteinDay.set(protein, dayIndex));
+      expiringIngredients
+        .filter(item => candidate.ingredientIds.has(item.ingredientId) && dayIndex <= item.dayIndex)
+        .forEach(item => state.usedUpIngredients.add(item.ingredientId));
+      caloriesPlanned += candidate.calories || 0;
+      slotsRemaining--;
+
+      if (LEFTOVER_MEAL_TYPES.includes(mealType) && candidate.servings - options.householdSize > 0) {
+        state.openPortions.push({
+          candidate,
+          dayIndex,
+          mealType,
+          servingsRemaining: candidate.servings - options.householdSize
+        });
+      }
+
+      planned.push({
+        dayIndex,
+        date,
+        dayOfWeek,
+        mealType,
+        sortOrder,
+        recipeId: candidate.id,
+        leftoverOf: null,
+        placement: {
+          summary: relaxedLabels.length > 0
+            ? `"${candidate.title}" placed after relaxing ${relaxedLabels.join(', ')}`
+            : `"${candidate.title}" meets all ${mealType} constraints`,
+          reasons: best.reasons,
+          relaxed: relaxedLabels
+        }
+      });
+    }
+  }
+
+  planned.sort((a, b) => a.dayIndex - b.dayIndex || a.sortOrder - b.sortOrder);
+
+  const relaxedCount = planned.filter(p => p.placement.relaxed.length > 0).length;
+  const leftoverCount = planned.filter(p => p.leftoverOf).length;
+  console.log(`🗓️  Planned ${planned.length} slots from ${candidates.length} recipes (${relaxedCount} needed relaxed constraints, ${leftoverCount} leftovers)`);
+
+  return planned;
+}
@@ -0,0 +1,421 @@
+// Nutrition Service
+// Computes recipe macros from ingredient amounts and per-100g values, and flags recipes
+// whose AI- or source-reported numbers disagree with the computed ones
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { findNutritionFacts, type NutritionFacts } from '../config/nutritionDataset.js';
+import { findUnitDefinition } from '../config/unitCatalog.js';
+import { parseQuantity, type Quantity } from '../utils/quantity.js';
+import { convertQuantity, loadConversionTable, type ConversionTable } from './unitConversionService.js';
+
+// Below this share of weighed ingredients the computed numbers are not trusted
+export const MIN_NUTRITION_COVERAGE = 0.75;
+
+// Reported and computed values further apart than this (relative) disagree...
+const DISAGREEMENT_THRESHOLD = 0.25;
+
+// ...as long as the absolute gap also matters (kcal for calories, grams for macros)
+const MIN_CALORIE_GAP = 50;
+const MIN_MACRO_GAP = 5;
+
+// Count units whose weight can come from a package (a can, a bag) rather than a single item
+const PACKAGE_COUNT_UNITS = new Set(['can', 'package']);
+
+export interface Macros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface IngredientNutrition {
+  ingredientId: string;
+  name: string;
+  amount: number;
+  unit: string;
+  grams: number | null;
+  valuesSource: 'ingredient' | 'dataset' | null; // Where the per-100g values came from
+  macros: Macros | null; // For the whole recipe
+}
+
+export interface NutritionDifference {
+  field: keyof Macros;
+  reported: number;
+  computed: number;
+  percentDifference: number;
+}
+
+export interface RecipeNutritionReport {
+  recipeId: string;
+  servings: number;
+  source: 'reported' | 'computed';
+  perServing: Macros | null; // The values stored on the recipe
+  computedPerServing: Macros;
+  reportedPerServing: Macros | null;
+  coverage: number;
+  mismatch: boolean;
+  differences: NutritionDifference[];
+  ingredients: IngredientNutrition[];
+  unresolvedIngredients: string[];
+}
+
+interface NutritionIngredient {
+  id: string;
+  name: string;
+  caloriesPer100g: number | null;
+  proteinPer100g: number | null;
+  carbsPer100g: number | null;
+  fatPer100g: number | null;
+}
+
+export interface NutritionRecipe {
+  id: string;
+  servings: number;
+  recipeIngredients: Array<{
+    ingredientId: string;
+    amount: number;
+    unit: string;
+    ingredient: NutritionIngredient;
+  }>;
+}
+
+type PackagingRow = {
+  ingredientId: string | null;
+  packageSize: number;
+  packageUnit: string;
+  itemsPerPackage: number | null;
+  packageMultiplier: number | null;
+  isVerified: boolean;
+};
+
+/**
+ * Conversions and package weights loaded once per computation
+ */
+export interface NutritionContext {
+  table: ConversionTable;
+  packaging: Map<string, PackagingRow[]>;
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function roundMacros(macros: Macros): Macros {
+  return {
+    calories: Math.round(macros.calories),
+    protein: roundTo(macros.protein, 1),
+    carbs: roundTo(macros.carbs, 1),
+    fat: roundTo(macros.fat, 1)
+  };
+}
+
+/**
+ * Load unit conversions and PackagingInfo rows for a set of ingredients
+ */
+export async function loadNutritionContext(ingredientIds: string[]): Promise<NutritionContext> {
+  const [table, packagingRows] = await Promise.all([
+    loadConversionTable(ingredientIds),
+    prisma.packagingInfo.findMany({
+      where: { ingredientId: { in: ingredientIds } },
+      select: { ingredientId: true, packageSize: true, packageUnit: true, itemsPerPackage: true, packageMultiplier: true, isVerified: true },
+      orderBy: { isVerified: 'desc' }
+    })
+  ]);
+
+  const packaging = new Map<string, PackagingRow[]>();
+  for (const row of packagingRows) {
+    packaging.set(row.ingredientId!, [...(packaging.get(row.ingredientId!) || []), row]);
+  }
+
+  return { table, packaging };
+}
+
+/**
+ * Weight of one item (or one can / package) from the ingredient's PackagingInfo,
+ * e.g. "24 oz, 12 eggs" → 56.7 g per egg
+ */
+function packagedCountWeight(context: NutritionContext, ingredientId: string, unit: string): number | null {
+  for (const row of context.packaging.get(ingredientId) || []) {
+    const size = parseQuantity(row.packageSize, row.packageUnit);
+    const grams = size ? convertQuantity(context.table, size, 'g', ingredientId) : null;
+    if (!grams || grams.value <= 0) {
+      continue;
+    }
+
+    if (unit === 'count' && row.itemsPerPackage && row.itemsPerPackage > 1) {
+      return grams.value / row.itemsPerPackage;
+    }
+    if (PACKAGE_COUNT_UNITS.has(unit)) {
+      return grams.value / Math.max(row.packageMultiplier || 1, 1);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert a recipe amount to grams.
+ * Weight units convert directly; volumes use the stored density (UnitConversion) or the dataset's
+ * grams per cup; counts use PackagingInfo item weights or the dataset's typical weights.
+ */
+export function toGrams(
+  context: NutritionContext,
+  ingredient: { id: string; name: string },
+  quantity: Quantity,
+  facts: NutritionFacts | undefined = findNutritionFacts(ingredient.name)
+): number | null {
+  const direct = convertQuantity(context.table, quantity, 'g', ingredient.id);
+  if (direct) {
+    return direct.value;
+  }
+
+  // Volumes, and pinches (which convert to teaspoons)
+  const cups = facts?.gramsPerCup ? convertQuantity(context.table, quantity, 'cup', ingredient.id) : null;
+  if (cups && facts?.gramsPerCup) {
+    return cups.value * facts.gramsPerCup;
+  }
+
+  if (findUnitDefinition(quantity.unit)?.type === 'volume') {
+    return null;
+  }
+
+  const itemWeight = packagedCountWeight(context, ingredient.id, quantity.unit) ?? facts?.gramsPerUnit?.[quantity.unit];
+  return itemWeight !== undefined && itemWeight !== null ? quantity.value * itemWeight : null;
+}
+
+/**
+ * Per-100g values for an ingredient: its own columns when filled in, otherwise the bundled dataset.
+ * Ingredients created with all-zero placeholders count as missing.
+ */
+export function getPer100g(
+  ingredient: NutritionIngredient,
+  facts: NutritionFacts | undefined = findNutritionFacts(ingredient.name)
+): { values: Macros; source: 'ingredient' | 'dataset' } | null {
+  const columns = [ingredient.caloriesPer100g, ingredient.proteinPer100g, ingredient.carbsPer100g, ingredient.fatPer100g];
+  const hasOwnValues = columns.some(value => value !== null && value > 0);
+
+  if (hasOwnValues) {
+    return {
+      values: {
+        calories: ingredient.caloriesPer100g ?? 0,
+        protein: ingredient.proteinPer100g ?? 0,
+        carbs: ingredient.carbsPer100g ?? 0,
+        fat: ingredient.fatPer100g ?? 0
+      },
+      source: 'ingredient'
+    };
+  }
+
+  if (facts) {
+    return {
+      values: { calories: facts.calories, protein: facts.protein, carbs: facts.carbs, fat: facts.fat },
+      source: 'dataset'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Compute a recipe's macros from its ingredients.
+ * Coverage is the share of ingredients that could be weighed and looked up; unresolved
+ * ingredients contribute nothing, so low coverage means the totals are too low.
+ */
+export function computeRecipeNutrition(context: NutritionContext, recipe: NutritionRecipe) {
+  const total: Macros = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  const ingredients: IngredientNutrition[] = [];
+
+  for (const ri of recipe.recipeIngredients) {
+    const facts = findNutritionFacts(ri.ingredient.name);
+    const quantity = parseQuantity(ri.amount, ri.unit);
+    const grams = quantity ? toGrams(context, ri.ingredient, quantity, facts) : null;
+    const per100g = getPer100g(ri.ingredient, facts);
+
+    let macros: Macros | null = null;
+    if (grams !== null && per100g) {
+      const factor = grams / 100;
+      macros = {
+        calories: per100g.values.calories * factor,
+        protein: per100g.values.protein * factor,
+        carbs: per100g.values.carbs * factor,
+        fat: per100g.values.fat * factor
+      };
+      total.calories += macros.calories;
+      total.protein += macros.protein;
+      total.carbs += macros.carbs;
+      total.fat += macros.fat;
+    }
+
+    ingredients.push({
+      ingredientId: ri.ingredientId,
+      name: ri.ingredient.name,
+      amount: ri.amount,
+      unit: ri.unit,
+      grams: grams !== null ? roundTo(grams, 1) : null,
+      valuesSource: per100g?.source ?? null,
+      macros: macros ? roundMacros(macros) : null
+    });
+  }
+
+  const resolved = ingredients.filter(i => i.macros !== null).length;
+  const servings = Math.max(recipe.servings, 1);
+
+  return {
+    total: roundMacros(total),
+    perServing: roundMacros({
+      calories: total.calories / servings,
+      protein: total.protein / servings,
+      carbs: total.carbs / servings,
+      fat: total.fat / servings
+    }),
+    coverage: ingredients.length > 0 ? roundTo(resolved / ingredients.length, 2) : 0,
+    ingredients,
+    unresolvedIngredients: ingredients.filter(i => i.macros === null).map(i => i.name)
+  };
+}
+
+/**
+ * Fields where reported and computed per-serving values disagree
+ */
+export function compareNutrition(reported: Macros, computed: Macros): NutritionDifference[] {
+  const fields: Array<keyof Macros> = ['calories', 'protein', 'carbs', 'fat'];
+
+  return fields.flatMap(field => {
+    const gap = Math.abs(reported[field] - computed[field]);
+    const base = Math.max(reported[field], computed[field]);
+    const minGap = field === 'calories' ? MIN_CALORIE_GAP : MIN_MACRO_GAP;
+
+    if (base <= 0 || gap < minGap || gap / base <= DISAGREEMENT_THRESHOLD) {
+      return [];
+    }
+
+    return [{
+      field,
+      reported: reported[field],
+      computed: computed[field],
+      percentDifference: reported[field] > 0 ? roundTo(((computed[field] - reported[field]) / reported[field]) * 100, 1) : 100
+    }];
+  });
+}
+
+function readReportedNutrition(value: Prisma.JsonValue | null): Macros | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const reported = value as Record<string, unknown>;
+  return typeof reported.calories === 'number'
+    ? {
+      calories: reported.calories,
+      protein: typeof reported.protein === 'number' ? reported.protein : 0,
+      carbs: typeof reported.carbs === 'number' ? reported.carbs : 0,
+      fat: typeof reported.fat === 'number' ? reported.fat : 0
+    }
+    : null;
+}
+
+/**
+ * Compute a recipe's nutrition and compare it with the reported numbers, without storing anything
+ */
+export async function getRecipeNutritionReport(recipeId: string): Promise<RecipeNutritionReport | null> {
+  const recipe = await prisma.recipe.findUnique({
+    where: { id: recipeId },
+    include: { recipeIngredients: { include: { ingredient: true } } }
+  });
+
+  if (!recipe) {
+    return null;
+  }
+
+  // Numbers on a recipe that has never been computed came from the AI, an import or the user
+  // (zero calories means none were given)
+  const reported = readReportedNutrition(recipe.reportedNutrition)
+    ?? (recipe.nutritionSource === 'reported' && recipe.calories !== null && recipe.calories > 0
+      ? { calories: recipe.calories, protein: recipe.protein ?? 0, carbs: recipe.carbs ?? 0, fat: recipe.fat ?? 0 }
+      : null);
+
+  const context = await loadNutritionContext(recipe.recipeIngredients.map(ri => ri.ingredientId));
+  const computed = computeRecipeNutrition(context, recipe);
+
+  const trusted = computed.coverage >= MIN_NUTRITION_COVERAGE;
+  const differences = trusted && reported ? compareNutrition(reported, computed.perServing) : [];
+
+  return {
+    recipeId: recipe.id,
+    servings: recipe.servings,
+    source: trusted ? 'computed' : 'reported',
+    perServing: trusted ? computed.perServing : reported,
+    computedPerServing: computed.perServing,
+    reportedPerServing: reported,
+    coverage: computed.coverage,
+    mismatch: differences.length > 0,
+    differences,
+    ingredients: computed.ingredients,
+    unresolvedIngredients: computed.unresolvedIngredients
+  };
+}
+
+/**
+ * Recompute a recipe's nutrition and store it.
+ * The first run keeps the AI / source numbers in `reportedNutrition`; the recipe's
+ * calories/protein/carbs/fat then hold the computed values when coverage is good enough,
+ * and the reported ones otherwise.
+ */
+export async function recalculateRecipeNutrition(recipeId: string): Promise<RecipeNutritionReport | null> {
+  const report = await getRecipeNutritionReport(recipeId);
+
+  if (!report) {
+    return null;
+  }
+
+  await prisma.recipe.update({
+    where: { id: recipeId },
+    data: {
+      calories: report.perServing?.calories ?? null,
+      protein: report.perServing?.protein ?? null,
+      carbs: report.perServing?.carbs ?? null,
+      fat: report.perServing?.fat ?? null,
+      nutritionSource: report.source,
+      ...(report.reportedPerServing && { reportedNutrition: { ...report.reportedPerServing } }),
+      nutritionCoverage: report.coverage,
+      nutritionMismatch: report.mismatch,
+      nutritionComputedAt: new Date()
+    }
+  });
+
+  if (report.mismatch) {
+    console.log(`🥗 Nutrition mismatch for recipe ${recipeId}: ${report.differences.map(d => `${d.field} ${d.reported} reported vs ${d.computed} computed`).join(', ')}`);
+  }
+
+  return report;
+}
+
+/**
+ * Recompute nutrition for any of these recipes that are stale (never computed, or an ingredient changed).
+ * Returns the number of recipes recomputed.
+ */
+export async function refreshStaleNutrition(recipeIds: string[]): Promise<number> {
+  const stale = await prisma.recipe.findMany({
+    where: { id: { in: recipeIds }, nutritionComputedAt: null },
+    select: { id: true }
+  });
+
+  for (const recipe of stale) {
+    await recalculateRecipeNutrition(recipe.id);
+  }
+
+  return stale.length;
+}
+
+/**
+ * Mark every recipe using an ingredient as needing a recompute (e.g. after its per-100g values change)
+ */
+export async function markNutritionStale(ingredientId: string): Promise<number> {
+  const result = await prisma.recipe.updateMany({
+    where: { recipeIngredients: { some: { ingredientId } } },
+    data: { nutritionComputedAt: null }
+  });
+
+  return result.count;
+}
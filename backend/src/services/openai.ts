@@ -1,5 +1,7 @@
 import OpenAI from 'openai';
 import { prisma } from '../index.js';
+import { detectCuisine } from '../config/cuisineCatalog.js';
+import { scheduleEmbeddingRefresh } from './recipeEmbeddingService.js';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -65,10 +67,6 @@ export async function generateRecipeRecommendations(
 
     const savedRecipes = await Promise.all(
       recipes.map(async (recipe: Recipe) => {
-        const embedding = await generateEmbedding(
-          `${recipe.title} ${recipe.description} ${recipe.ingredients.map(i => i.name).join(' ')}`
-        );
-
         return await prisma.recipe.create({
           data: {
             title: recipe.title,
@@ -77,6 +75,7 @@ export async function generateRecipeRecommendations(
             prepTime: recipe.prepTime,
             cookTime: recipe.cookTime,
             servings: recipe.servings,
+            cuisine: detectCuisine({ ...recipe, ingredientNames: recipe.ingredients.map(i => i.name) }),
             isPublic: true,
             createdById: null,
           },
@@ -84,6 +83,8 @@ export async function generateRecipeRecommendations(
       })
     );
 
+    scheduleEmbeddingRefresh();
+
     return savedRecipes;
   } catch (error) {
     console.error('OpenAI recommendation error:', error);
@@ -91,24 +92,6 @@ export async function generateRecipeRecommendations(
   }
 }
 
-/**
- * Generate embedding for semantic search using text-embedding-3-small
- */
-export async function generateEmbedding(text: string): Promise<number[] | null> {
-  try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-      dimensions: 1536,
-    });
-
-    return response.data[0]?.embedding || null;
-  } catch (error) {
-    console.error('Embedding generation error:', error);
-    return null;
-  }
-}
-
 /**
  * Build recommendation prompt from user preferences
  */
@@ -170,46 +153,6 @@ Make the recipes:
   return parts.join('\n');
 }
 
-/**
- * Search recipes using semantic search with pgvector
- */
-export async function searchRecipesBySimilarity(
-  query: string,
-  limit: number = 10
-): Promise<any[]> {
-  try {
-    const queryEmbedding = await generateEmbedding(query);
-
-    if (!queryEmbedding) {
-      throw new Error('Failed to generate query embedding');
-    }
-
-    const recipes = await prisma.$queryRaw`
-      SELECT
-        id,
-        title,
-        description,
-        ingredients,
-        instructions,
-        "prepTime",
-        "cookTime",
-        servings,
-        nutrition,
-        "imageUrl",
-        1 - (embedding <=> ${`[${queryEmbedding.join(',')}]`}::vector) as similarity
-      FROM "Recipe"
-      WHERE embedding IS NOT NULL
-      ORDER BY embedding <=> ${`[${queryEmbedding.join(',')}]`}::vector
-      LIMIT ${limit}
-    `;
-
-    return recipes as any[];
-  } catch (error) {
-    console.error('Semantic search error:', error);
-    throw new Error('Failed to search recipes');
-  }
-}
-
 interface AIPromptOptions {
   systemPrompt: string;
   userPrompt: string;
@@ -0,0 +1,39 @@
+// OpenAI Embedding Provider
+// text-embedding-3-small at the Recipe.embedding column size.
+
+import OpenAI from 'openai';
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './embeddingProvider.js';
+
+const MODEL = 'text-embedding-3-small';
+
+// Created on first use: the client throws without an API key, and the local provider must work without one
+let openai: OpenAI | null = null;
+
+export const openaiEmbeddingProvider: EmbeddingProvider = {
+  id: 'openai',
+  model: MODEL,
+
+  isConfigured() {
+    const apiKey = process.env.OPENAI_API_KEY;
+    return !!apiKey && !apiKey.startsWith('sk-proj-your-openai');
+  },
+
+  async embed(texts: string[]) {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    openai ??= new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+
+    const response = await openai.embeddings.create({
+      model: MODEL,
+      input: texts,
+      dimensions: EMBEDDING_DIMENSIONS,
+    });
+
+    // The API returns items tagged with their input index
+    return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  },
+};
@@ -0,0 +1,226 @@
+// Pantry Allocation Service
+// Works out how much of a shopping list the pantry already covers, so lists only buy the shortfall.
+// Pantry stock is handed out to meals in date order: food an earlier slot of another meal plan in
+// the same week will use is reserved for it and isn't counted again.
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { isLeftoverSlot } from './leftoverService.js';
+import { scopeWhere, type OwnerScope } from './householdService.js';
+import { loadConversionTable, convertQuantity, type ConversionTable } from './unitConversionService.js';
+import { applyPlannedVersions } from './recipeVersionService.js';
+import { partitionByExpiry } from './expirationService.js';
+import { parseQuantity, readQuantity, type Quantity } from '../utils/quantity.js';
+import { getSlotScale } from '../utils/recipeScaling.js';
+
+export interface PantryNeed {
+  ingredientId: string;
+  quantity: Quantity;
+  date: Date; // When it's cooked; earlier needs get the pantry first
+}
+
+export interface PantryCoverage {
+  neededAmount: number;
+  onHandAmount: number;
+  toBuyAmount: number;
+}
+
+// Pantry item left out of the allocation because it's past its expiry date
+export interface ExpiredPantryItem {
+  id: string;
+  name: string;
+  expiresAt: Date | null;
+}
+
+/**
+ * Pantry handed out to a list's needs, per ingredient, in pantry units
+ */
+export interface PantryAllocation {
+  table: ConversionTable;
+  allocated: Map<string, { quantities: Quantity[]; unlimited: boolean }>;
+  expired: ExpiredPantryItem[]; // Not counted; reported so the user can update or remove them
+}
+
+interface StockRow {
+  quantity: Quantity | null; // null: unquantified ("plenty"), covers any amount
+}
+
+// List items still to buy: leaves out items the pantry fully covers, unless their pantry toggle is off
+export const ITEMS_TO_BUY: Prisma.ShoppingListItemWhereInput = {
+  OR: [{ toBuyAmount: null }, { toBuyAmount: { gt: 0 } }, { usePantry: false }]
+};
+
+// Tiny float remainders from unit conversions aren't worth buying
+const EPSILON = 1e-6;
+
+function roundAmount(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Needs of the other planned meals (active meal plans of the same owner) dated in the window:
+ * not yet cooked or skipped, and not leftovers
+ */
+async function loadPlannedNeeds(
+  scope: OwnerScope,
+  from: Date,
+  to: Date,
+  excludeMealPlanId?: string
+): Promise<PantryNeed[]> {
+  const slots = await prisma.mealSlot.findMany({
+    where: {
+      date: { gte: from, lte: to },
+      isCompleted: false,
+      isSkipped: false,
+      recipeId: { not: null },
+      mealPlan: {
+        ...scopeWhere(scope),
+        isActive: true,
+        ...(excludeMealPlanId ? { id: { not: excludeMealPlanId } } : {})
+      }
+    },
+    include: {
+      recipe: {
+        include: {
+          recipeIngredients: {
+            include: { ingredient: true }
+          }
+        }
+      },
+      recipeVersion: true
+    }
+  });
+
+  const planned = await applyPlannedVersions(slots);
+
+  return planned.flatMap(slot => {
+    if (!slot.recipe || isLeftoverSlot(slot)) return [];
+    const scale = getSlotScale(slot);
+    return slot.recipe.recipeIngredients.flatMap(ri => {
+      const quantity = parseQuantity(ri.amount * scale, ri.unit);
+      return quantity ? [{ ingredientId: ri.ingredientId, quantity, date: slot.date }] : [];
+    });
+  });
+}
+
+/**
+ * Take a need out of an ingredient's stock rows. Returns what was taken, in each row's unit.
+ */
+function takeFromStock(table: ConversionTable, rows: StockRow[], need: PantryNeed): { taken: Quantity[]; unlimited: boolean } {
+  const taken: Quantity[] = [];
+  let remaining: Quantity = need.quantity;
+
+  for (const row of rows) {
+    if (remaining.value <= EPSILON) break;
+
+    if (!row.quantity) {
+      return { taken, unlimited: true };
+    }
+
+    const converted = convertQuantity(table, remaining, row.quantity.unit, need.ingredientId);
+    if (!converted || row.quantity.value <= EPSILON) continue;
+
+    const value = Math.min(converted.value, row.quantity.value);
+    row.quantity = { ...row.quantity, value: row.quantity.value - value };
+    taken.push({ value, unit: row.quantity.unit, approximate: row.quantity.approximate || converted.approximate });
+    remaining = { ...converted, value: converted.value - value };
+  }
+
+  return { taken, unlimited: false };
+}
+
+/**
+ * Hand the owner's available pantry out to a list's needs and the other meals planned in the
+ * same window, earliest first. Needs on the same day go to the other meal plans first, since
+ * they were planned before this list. `reserved` is pantry another list already counted on
+ * (items carried over from the active cart). Expired stock isn't handed out.
+ */
+export async function allocatePantry(
+  scope: OwnerScope,
+  needs: PantryNeed[],
+  options: { from: Date; to: Date; excludeMealPlanId?: string; reserved?: PantryNeed[] }
+): Promise<PantryAllocation> {
+  const { usable: pantry, expired } = partitionByExpiry(await prisma.userInventory.findMany({
+    where: { ...scopeWhere(scope), isAvailable: true },
+    include: { ingredient: { select: { name: true } } },
+    orderBy: { addedAt: 'asc' }
+  }));
+
+  const stock = new Map<string, StockRow[]>();
+  for (const item of pantry) {
+    stock.set(item.ingredientId, [...(stock.get(item.ingredientId) || []), { quantity: readQuantity(item) }]);
+  }
+
+  const planned = await loadPlannedNeeds(scope, options.from, options.to, options.excludeMealPlanId);
+  const table = await loadConversionTable([...stock.keys()]);
+  const allocated: PantryAllocation['allocated'] = new Map();
+
+  // Stable sort: on the same date, planned meals stay ahead of this list's needs
+  const events = [
+    ...(options.reserved || []).map(need => ({ need, own: false })),
+    ...[
+      ...planned.map(need => ({ need, own: false })),
+      ...needs.map(need => ({ need, own: true }))
+    ].sort((a, b) => a.need.date.getTime() - b.need.date.getTime())
+  ];
+
+  for (const { need, own } of events) {
+    const rows = stock.get(need.ingredientId);
+    if (!rows) continue;
+
+    const { taken, unlimited } = takeFromStock(table, rows, need);
+    if (!own) continue;
+
+    const entry = allocated.get(need.ingredientId) || { quantities: [], unlimited: false };
+    entry.quantities.push(...taken);
+    entry.unlimited = entry.unlimited || unlimited;
+    allocated.set(need.ingredientId, entry);
+  }
+
+  return {
+    table,
+    allocated,
+    expired: expired.map(item => ({ id: item.id, name: item.ingredient.name, expiresAt: item.expiresAt }))
+  };
+}
+
+/**
+ * Needed / on hand / to buy for a list item, in the item's unit. Uses up what it covers, so an
+ * ingredient listed twice (amounts that don't convert) isn't covered twice. `carried` is part
+ * of the item that was already worked out against the pantry (the old cart's amounts).
+ */
+export function coverFromPantry(
+  allocation: PantryAllocation,
+  ingredientId: string,
+  amount: number,
+  unit: string,
+  carried: PantryCoverage = { neededAmount: 0, onHandAmount: 0, toBuyAmount: 0 }
+): PantryCoverage {
+  const need = parseQuantity(amount - carried.neededAmount, unit);
+  const entry = allocation.allocated.get(ingredientId);
+  let covered = 0;
+
+  if (need && entry) {
+    if (entry.unlimited) {
+      covered = need.value;
+    } else {
+      for (const quantity of entry.quantities) {
+        if (covered >= need.value - EPSILON) break;
+
+        const converted = convertQuantity(allocation.table, quantity, need.unit, ingredientId);
+        if (!converted || converted.value <= EPSILON) continue;
+
+        const value = Math.min(converted.value, need.value - covered);
+        quantity.value -= quantity.value * (value / converted.value);
+        covered += value;
+      }
+    }
+  }
+
+  const onHandAmount = roundAmount(carried.onHandAmount + covered);
+  return {
+    neededAmount: roundAmount(amount),
+    onHandAmount,
+    toBuyAmount: Math.max(0, roundAmount(amount - onHandAmount))
+  };
+}
@@ -1,4 +1,7 @@
 import { prisma } from '../index.js';
+import { getOwnerScope, scopeWhere } from './householdService.js';
+import { loadConversionTable, addQuantities, subtractQuantity, type ConversionTable } from './unitConversionService.js';
+import { canonicalizeUnit, formatQuantityAmount, parseQuantity, readQuantity, toQuantityColumns, type Quantity } from '../utils/quantity.js';
 import type { Recipe, UserInventory, Ingredient } from '@prisma/client';
 
 interface DeductionResult {
@@ -7,12 +10,22 @@ interface DeductionResult {
   amountDeducted: number;
   unit: string;
   remainingAmount: number;
+  approximate: boolean; // A density or other approximate conversion was used
+  conversionNote?: string; // e.g. "1 cup → 125 g"
 }
 
+interface NeededIngredient {
+  ingredientId: string;
+  name: string;
+  quantity: Quantity;
+}
+
+type PantryItem = UserInventory & { ingredient: Ingredient };
+
 /**
- * Deduct ingredients from user's pantry after completing meals
- * Matches recipe ingredients against pantry using simple name matching
- * Applies unit conversions where possible
+ * Deduct ingredients from user's pantry (their household's shared pantry, if any) after completing meals
+ * Matches recipe ingredients against pantry items by ingredient ID
+ * Converts recipe units to the pantry unit through the Unit/UnitConversion tables
  */
 export async function deductPantryIngredients(
   userId: string,
@@ -21,8 +34,9 @@ export async function deductPantryIngredients(
   const results: DeductionResult[] = [];
 
   // 1. Get user's pantry
+  const scope = await getOwnerScope(userId);
   const inventory = await prisma.userInventory.findMany({
-    where: { userId, isAvailable: true },
+    where: { ...scopeWhere(scope), isAvailable: true },
     include: { ingredient: true }
   });
 
@@ -30,8 +44,13 @@ export async function deductPantryIngredients(
     return results; // No pantry items to deduct
   }
 
-  // 2. Aggregate all recipe ingredients (combine duplicates)
-  const neededIngredients = aggregateRecipeIngredients(recipes);
+  // 2. Aggregate all recipe ingredients (combine duplicates, converting units)
+  const ingredientIds = [...new Set(recipes.flatMap(r => r.recipeIngredients.map(ri => ri.ingredientId)))];
+  const table = await loadConversionTable(ingredientIds);
+  const neededIngredients = aggregateRecipeIngredients(recipes, table);
+
+  // Current stock per pantry item, updated as several needs hit the same item
+  const stock = new Map<string, Quantity | null>();
 
   // 3. Match and deduct each needed ingredient
   for (const needed of neededIngredients) {
@@ -41,40 +60,59 @@ export async function deductPantryIngredients(
       continue; // Ingredient not in pantry, skip
     }
 
+    if (!stock.has(pantryItem.id)) {
+      stock.set(pantryItem.id, readQuantity(pantryItem));
+    }
+    const current = stock.get(pantryItem.id);
+
+    if (!current) {
+      continue; // Unquantified pantry amount ("plenty") - nothing to subtract from
+    }
+
     // 4. Calculate deduction
-    const deduction = calculateDeduction(needed, pantryItem);
+    const deduction = subtractQuantity(table, current, needed.quantity, needed.ingredientId);
 
-    if (deduction.amountDeducted === 0) {
-      continue; // No deduction possible (incompatible units, etc.)
+    if (!deduction || deduction.deducted.value === 0) {
+      continue; // No deduction possible (incompatible units, empty stock)
     }
 
+    stock.set(pantryItem.id, deduction.remaining);
+
     // 5. Update pantry item
-    const newAmount = subtractAmounts(
-      parseFloat(pantryItem.amount),
-      deduction.amountDeducted,
-      pantryItem.unit || ''
-    );
-
-    if (newAmount <= 0) {
-      // Remove item or mark unavailable
+    if (deduction.remaining.value <= 0) {
+      // Mark unavailable
       await prisma.userInventory.update({
         where: { id: pantryItem.id },
-        data: { isAvailable: false }
+        data: {
+          isAvailable: false,
+          amount: '0',
+          ...toQuantityColumns(deduction.remaining)
+        }
       });
     } else {
-      // Update amount
       await prisma.userInventory.update({
         where: { id: pantryItem.id },
-        data: { amount: newAmount.toString() }
+        data: {
+          amount: formatQuantityAmount(deduction.remaining),
+          unit: pantryItem.unit && canonicalizeUnit(pantryItem.unit) === deduction.remaining.unit
+            ? pantryItem.unit
+            : deduction.remaining.unit,
+          ...toQuantityColumns(deduction.remaining)
+        }
       });
     }
 
+    const converted = needed.quantity.unit !== deduction.deducted.unit;
     results.push({
       ingredientId: pantryItem.ingredientId,
       ingredientName: pantryItem.ingredient.name,
-      amountDeducted: deduction.amountDeducted,
-      unit: deduction.unit,
-      remainingAmount: Math.max(0, newAmount)
+      amountDeducted: deduction.deducted.value,
+      unit: deduction.deducted.unit,
+      remainingAmount: deduction.remaining.value,
+      approximate: deduction.deducted.approximate,
+      conversionNote: converted
+        ? `${formatQuantityAmount(needed.quantity)} ${needed.quantity.unit} → ${formatQuantityAmount(deduction.deducted)} ${deduction.deducted.unit}`
+        : undefined
     });
   }
 
@@ -83,37 +121,40 @@ export async function deductPantryIngredients(
 
 /**
  * Aggregate recipe ingredients (combine duplicates)
+ * Amounts in convertible units are added in the first occurrence's unit;
+ * amounts that cannot be converted are kept as separate entries
  */
 function aggregateRecipeIngredients(
-  recipes: Array<{ recipeIngredients: Array<{ ingredientId: string; amount: number; unit: string; ingredient: Ingredient }> }>
-): Array<{ ingredientId: string; amount: number; unit: string; name: string }> {
-  const ingredientMap = new Map<string, { ingredientId: string; amount: number; unit: string; name: string }>();
+  recipes: Array<{ recipeIngredients: Array<{ ingredientId: string; amount: number; unit: string; ingredient: Ingredient }> }>,
+  table: ConversionTable
+): NeededIngredient[] {
+  const ingredientMap = new Map<string, NeededIngredient[]>();
 
   for (const recipe of recipes) {
     for (const ri of recipe.recipeIngredients) {
-      const existing = ingredientMap.get(ri.ingredientId);
-
-      if (existing) {
-        // Same ingredient, same unit → add amounts
-        if (existing.unit === ri.unit) {
-          existing.amount += ri.amount;
-        } else {
-          // Different units → keep first occurrence (simplified logic)
-          // In production, would convert units here
-          existing.amount += ri.amount;
+      const quantity = parseQuantity(ri.amount, ri.unit);
+      if (!quantity) continue;
+
+      const entries = ingredientMap.get(ri.ingredientId) || [];
+      let combined = false;
+
+      for (const entry of entries) {
+        const sum = addQuantities(table, entry.quantity, quantity, ri.ingredientId);
+        if (sum) {
+          entry.quantity = sum;
+          combined = true;
+          break;
         }
-      } else {
-        ingredientMap.set(ri.ingredientId, {
-          ingredientId: ri.ingredientId,
-          amount: ri.amount,
-          unit: ri.unit,
-          name: ri.ingredient.name
-        });
       }
+
+      if (!combined) {
+        entries.push({ ingredientId: ri.ingredientId, name: ri.ingredient.name, quantity });
+      }
+      ingredientMap.set(ri.ingredientId, entries);
     }
   }
 
-  return Array.from(ingredientMap.values());
+  return Array.from(ingredientMap.values()).flat();
 }
 
 /**
@@ -121,132 +162,7 @@ function aggregateRecipeIngredients(
  */
 function findMatchingPantryItem(
   ingredientId: string,
-  inventory: Array<UserInventory & { ingredient: Ingredient }>
-): (UserInventory & { ingredient: Ingredient }) | undefined {
+  inventory: PantryItem[]
+): PantryItem | undefined {
   return inventory.find(item => item.ingredientId === ingredientId);
 }
-
-/**
- * Calculate how much to deduct from pantry
- * Simplified version: deducts the recipe amount if units match
- * In production, would use full unit conversion service
- */
-function calculateDeduction(
-  needed: { amount: number; unit: string },
-  pantryItem: UserInventory & { ingredient: Ingredient }
-): { amountDeducted: number; unit: string } {
-  const pantryAmount = parseFloat(pantryItem.amount);
-  const pantryUnit = pantryItem.unit || '';
-
-  // Simple case: units match
-  if (normalizeUnit(needed.unit) === normalizeUnit(pantryUnit)) {
-    const amountToDeduct = Math.min(needed.amount, pantryAmount);
-    return {
-      amountDeducted: amountToDeduct,
-      unit: pantryUnit
-    };
-  }
-
-  // Units don't match → try basic conversions
-  const conversion = tryBasicConversion(needed.amount, needed.unit, pantryUnit);
-
-  if (conversion) {
-    const amountToDeduct = Math.min(conversion.amount, pantryAmount);
-    return {
-      amountDeducted: amountToDeduct,
-      unit: pantryUnit
-    };
-  }
-
-  // Can't convert → no deduction
-  return {
-    amountDeducted: 0,
-    unit: pantryUnit
-  };
-}
-
-/**
- * Subtract amounts (simple numeric subtraction)
- */
-function subtractAmounts(pantryAmount: number, deductAmount: number, unit: string): number {
-  return Math.max(0, pantryAmount - deductAmount);
-}
-
-/**
- * Normalize unit names for comparison
- */
-function normalizeUnit(unit: string): string {
-  const normalized = unit.toLowerCase().trim();
-
-  // Handle common variations
-  const unitMap: Record<string, string> = {
-    'cup': 'cup',
-    'cups': 'cup',
-    'c': 'cup',
-    'tablespoon': 'tbsp',
-    'tablespoons': 'tbsp',
-    'tbsp': 'tbsp',
-    'tbs': 'tbsp',
-    'teaspoon': 'tsp',
-    'teaspoons': 'tsp',
-    'tsp': 'tsp',
-    'pound': 'lb',
-    'pounds': 'lb',
-    'lb': 'lb',
-    'lbs': 'lb',
-    'ounce': 'oz',
-    'ounces': 'oz',
-    'oz': 'oz',
-    'gram': 'g',
-    'grams': 'g',
-    'g': 'g',
-    'kilogram': 'kg',
-    'kilograms': 'kg',
-    'kg': 'kg',
-    'milliliter': 'ml',
-    'milliliters': 'ml',
-    'ml': 'ml',
-    'liter': 'l',
-    'liters': 'l',
-    'l': 'l',
-    'piece': 'piece',
-    'pieces': 'piece',
-    'whole': 'whole',
-    'clove': 'clove',
-    'cloves': 'clove'
-  };
-
-  return unitMap[normalized] || normalized;
-}
-
-/**
- * Try basic unit conversions (simplified)
- * In production, would use full unitConversionService.ts
- */
-function tryBasicConversion(
-  amount: number,
-  fromUnit: string,
-  toUnit: string
-): { amount: number } | null {
-  const from = normalizeUnit(fromUnit);
-  const to = normalizeUnit(toUnit);
-
-  // Basic conversion table (very simplified)
-  const conversions: Record<string, Record<string, number>> = {
-    'cup': { 'tbsp': 16, 'tsp': 48, 'ml': 240 },
-    'tbsp': { 'tsp': 3, 'ml': 15, 'cup': 1/16 },
-    'tsp': { 'ml': 5, 'tbsp': 1/3, 'cup': 1/48 },
-    'lb': { 'oz': 16, 'g': 453.592, 'kg': 0.453592 },
-    'oz': { 'g': 28.3495, 'lb': 1/16 },
-    'g': { 'kg': 0.001, 'oz': 0.035274, 'lb': 0.00220462 },
-    'kg': { 'g': 1000, 'lb': 2.20462 },
-    'ml': { 'l': 0.001, 'cup': 1/240, 'tbsp': 1/15, 'tsp': 1/5 },
-    'l': { 'ml': 1000 }
-  };
-
-  if (conversions[from]?.[to]) {
-    return { amount: amount * conversions[from][to] };
-  }
-
-  return null;
-}
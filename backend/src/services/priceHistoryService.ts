@@ -0,0 +1,274 @@
+// Price History Service
+// Records every product price we see and compares new prices against an ingredient's history
+
+import { subDays } from 'date-fns';
+import { prisma } from '../index.js';
+import { parseProductSize } from '../utils/productSizeCalculator.js';
+import { normalizeIngredientName } from '../utils/ingredientNormalizer.js';
+import type { GroceryProduct } from './groceryProvider.js';
+
+// History window used for averages
+export const PRICE_HISTORY_DAYS = 90;
+
+// Need this many earlier observations before calling a price unusual
+const MIN_OBSERVATIONS_FOR_COMPARISON = 3;
+
+// A unit price this far below / above the average is flagged
+const UNUSUAL_PRICE_THRESHOLD = 0.1;
+
+// Package size units (as returned by parseProductSize) → base unit and factor
+const UNIT_PRICE_BASES: Record<string, { priceUnit: 'oz' | 'fl oz' | 'count'; factor: number }> = {
+  oz: { priceUnit: 'oz', factor: 1 },
+  lbs: { priceUnit: 'oz', factor: 16 },
+  g: { priceUnit: 'oz', factor: 1 / 28.3495 },
+  kg: { priceUnit: 'oz', factor: 35.274 },
+  'fl oz': { priceUnit: 'fl oz', factor: 1 },
+  cup: { priceUnit: 'fl oz', factor: 8 },
+  quart: { priceUnit: 'fl oz', factor: 32 },
+  gallon: { priceUnit: 'fl oz', factor: 128 },
+  ml: { priceUnit: 'fl oz', factor: 1 / 29.5735 },
+  liter: { priceUnit: 'fl oz', factor: 33.814 },
+  count: { priceUnit: 'count', factor: 1 }
+};
+
+export interface UnitPrice {
+  unitPrice: number;
+  priceUnit: string;
+}
+
+export interface PriceObservationInput {
+  product: GroceryProduct;
+  ingredientId?: string | null;
+  ingredientName: string;
+}
+
+export interface PriceStats {
+  priceUnit: string;
+  averageUnitPrice: number;
+  minUnitPrice: number;
+  maxUnitPrice: number;
+  averagePricePerLb?: number; // Weight-priced items only
+  averagePrice: number;
+  observationCount: number;
+}
+
+export interface PriceComparison {
+  unitPrice: number;
+  priceUnit: string;
+  averageUnitPrice: number;
+  usualPrice: number; // This package at the average unit price
+  percentDifference: number; // Negative = cheaper than usual
+  cheaperThanUsual: boolean;
+  pricierThanUsual: boolean;
+  observationCount: number;
+}
+
+export interface CartPriceSummary {
+  comparedItems: number;
+  cheaperThanUsual: number;
+  pricierThanUsual: number;
+  currentTotal: number;
+  usualTotal: number;
+  percentDifference: number;
+}
+
+type ObservationRow = {
+  providerId: string;
+  ingredientId: string | null;
+  ingredientName: string;
+  price: number;
+  unitPrice: number | null;
+  priceUnit: string | null;
+};
+
+function roundTo(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Price per ounce (weight), fluid ounce (volume) or item, from a package size like "2 lb"
+ */
+export function getUnitPrice(price: number, size: string | null | undefined): UnitPrice | null {
+  const parsed = size ? parseProductSize(size) : null;
+  const base = parsed ? UNIT_PRICE_BASES[parsed.unit] : undefined;
+
+  if (!parsed || !base || parsed.amount <= 0) {
+    return null;
+  }
+
+  return {
+    unitPrice: price / (parsed.amount * base.factor),
+    priceUnit: base.priceUnit
+  };
+}
+
+/**
+ * Average, min and max unit price over a set of observations.
+ * Uses the most common price unit so weight and count listings aren't mixed.
+ */
+export function summarizePriceHistory(observations: ObservationRow[]): PriceStats | null {
+  const withUnitPrice = observations.filter(o => o.unitPrice !== null && o.priceUnit !== null);
+  if (withUnitPrice.length === 0) {
+    return null;
+  }
+
+  const unitCounts = new Map<string, number>();
+  for (const o of withUnitPrice) {
+    unitCounts.set(o.priceUnit!, (unitCounts.get(o.priceUnit!) || 0) + 1);
+  }
+  const priceUnit = [...unitCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  const matching = withUnitPrice.filter(o => o.priceUnit === priceUnit);
+  const unitPrices = matching.map(o => o.unitPrice!);
+  const averageUnitPrice = unitPrices.reduce((sum, p) => sum + p, 0) / unitPrices.length;
+
+  return {
+    priceUnit,
+    averageUnitPrice: roundTo(averageUnitPrice, 4),
+    minUnitPrice: roundTo(Math.min(...unitPrices), 4),
+    maxUnitPrice: roundTo(Math.max(...unitPrices), 4),
+    ...(priceUnit === 'oz' && { averagePricePerLb: roundTo(averageUnitPrice * 16, 2) }),
+    averagePrice: roundTo(matching.reduce((sum, o) => sum + o.price, 0) / matching.length, 2),
+    observationCount: matching.length
+  };
+}
+
+/**
+ * Compare a product's price to the ingredient's usual unit price.
+ * Returns null without enough history or a comparable unit.
+ */
+export function comparePrice(product: GroceryProduct, stats: PriceStats | null): PriceComparison | null {
+  const current = getUnitPrice(product.price, product.size);
+
+  if (!current || !stats || stats.priceUnit !== current.priceUnit
+    || stats.observationCount < MIN_OBSERVATIONS_FOR_COMPARISON || stats.averageUnitPrice <= 0) {
+    return null;
+  }
+
+  const ratio = current.unitPrice / stats.averageUnitPrice;
+
+  return {
+    unitPrice: roundTo(current.unitPrice, 4),
+    priceUnit: current.priceUnit,
+    averageUnitPrice: stats.averageUnitPrice,
+    usualPrice: roundTo(product.price / ratio, 2),
+    percentDifference: roundTo((ratio - 1) * 100, 1),
+    cheaperThanUsual: ratio <= 1 - UNUSUAL_PRICE_THRESHOLD,
+    pricierThanUsual: ratio >= 1 + UNUSUAL_PRICE_THRESHOLD,
+    observationCount: stats.observationCount
+  };
+}
+
+/**
+ * Load price observations for an ingredient (by id or name) or a single product
+ */
+export async function getPriceHistory(filters: {
+  ingredientId?: string;
+  ingredientName?: string;
+  providerId?: string;
+  productId?: string;
+  days?: number;
+}) {
+  const since = subDays(new Date(), filters.days ?? PRICE_HISTORY_DAYS);
+  const ingredientFilters = [
+    ...(filters.ingredientId ? [{ ingredientId: filters.ingredientId }] : []),
+    ...(filters.ingredientName ? [{ ingredientName: normalizeIngredientName(filters.ingredientName) }] : [])
+  ];
+
+  return prisma.priceObservation.findMany({
+    where: {
+      observedAt: { gte: since },
+      ...(filters.providerId && { providerId: filters.providerId }),
+      ...(filters.productId && { productId: filters.productId }),
+      ...(ingredientFilters.length > 0 && { OR: ingredientFilters })
+    },
+    orderBy: { observedAt: 'desc' }
+  });
+}
+
+/**
+ * Compare a batch of freshly priced products against history, then record them.
+ * Comparisons use only earlier observations, so today's prices don't dilute the average.
+ * Pass record: false for anonymous requests so they can't write to the shared history.
+ * Returns comparisons in the same order as the input (null where there isn't enough history).
+ */
+export async function recordAndComparePrices(
+  entries: PriceObservationInput[],
+  options: { record?: boolean } = {}
+): Promise<Array<PriceComparison | null>> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const ingredientIds = [...new Set(entries.map(e => e.ingredientId).filter((id): id is string => !!id))];
+  const ingredientNames = [...new Set(entries.map(e => normalizeIngredientName(e.ingredientName)))];
+  const providerIds = [...new Set(entries.map(e => e.product.providerId))];
+
+  const history = await prisma.priceObservation.findMany({
+    where: {
+      observedAt: { gte: subDays(new Date(), PRICE_HISTORY_DAYS) },
+      providerId: { in: providerIds },
+      OR: [
+        ...(ingredientIds.length > 0 ? [{ ingredientId: { in: ingredientIds } }] : []),
+        { ingredientName: { in: ingredientNames } }
+      ]
+    },
+    select: { providerId: true, ingredientId: true, ingredientName: true, price: true, unitPrice: true, priceUnit: true }
+  });
+
+  const comparisons = entries.map(entry => {
+    const name = normalizeIngredientName(entry.ingredientName);
+    const observations = history.filter(o =>
+      o.providerId === entry.product.providerId
+      && ((entry.ingredientId && o.ingredientId === entry.ingredientId) || o.ingredientName === name)
+    );
+    return comparePrice(entry.product, summarizePriceHistory(observations));
+  });
+
+  if (options.record === false) {
+    return comparisons;
+  }
+
+  await prisma.priceObservation.createMany({
+    data: entries.map(entry => {
+      const unitPrice = getUnitPrice(entry.product.price, entry.product.size);
+      return {
+        providerId: entry.product.providerId,
+        productId: entry.product.productId,
+        productName: entry.product.name,
+        ingredientId: entry.ingredientId || null,
+        ingredientName: normalizeIngredientName(entry.ingredientName),
+        price: entry.product.price,
+        size: entry.product.size || null,
+        unitPrice: unitPrice?.unitPrice ?? null,
+        priceUnit: unitPrice?.priceUnit ?? null
+      };
+    })
+  });
+
+  console.log(`💲 Recorded ${entries.length} price observations`);
+
+  return comparisons;
+}
+
+/**
+ * Whole-cart view: how this cart's priced items compare to their usual prices
+ */
+export function summarizeCartPrices(
+  items: Array<{ price: number; packageCount: number; comparison: PriceComparison | null }>
+): CartPriceSummary {
+  const compared = items.filter(item => item.comparison !== null);
+
+  const currentTotal = compared.reduce((sum, item) => sum + item.price * item.packageCount, 0);
+  const usualTotal = compared.reduce((sum, item) => sum + item.comparison!.usualPrice * item.packageCount, 0);
+
+  return {
+    comparedItems: compared.length,
+    cheaperThanUsual: compared.filter(item => item.comparison!.cheaperThanUsual).length,
+    pricierThanUsual: compared.filter(item => item.comparison!.pricierThanUsual).length,
+    currentTotal: roundTo(currentTotal, 2),
+    usualTotal: roundTo(usualTotal, 2),
+    percentDifference: usualTotal > 0 ? roundTo((currentTotal / usualTotal - 1) * 100, 1) : 0
+  };
+}
@@ -1,5 +1,10 @@
 import { prisma } from '../index.js';
 import { generateRecipesFromParams } from './recipeAgent.js';
+import { getOwnerScope, scopeWhere } from './householdService.js';
+import { getDaysUntilExpiry, getExpiryStatus, getExpiryUrgency, partitionByExpiry } from './expirationService.js';
+import { getUserActivePreferences, mapPreferencesToAgentParams } from './preferenceMapper.js';
+import { findAllergenConflicts, getRecipeAllergens, type AllergenBadge } from './allergenService.js';
+import { resolveAllergies } from '../config/allergenCatalog.js';
 
 interface QuickCookRecipe {
   id: string;
@@ -18,21 +23,33 @@ interface QuickCookRecipe {
     amount: string;
     unit: string;
     inPantry?: boolean;
+    useSoon?: boolean; // Pantry item expires within a few days
   }>;
+  expiringIngredientsUsed: string[];
+  allergens: AllergenBadge[];
+}
+
+interface QuickCookResult {
+  recipes: QuickCookRecipe[];
+  expiredItems: string[]; // Pantry items past their expiry date, left out of the suggestions
+  allergenItems: string[]; // Pantry items the user is allergic to (e.g. in a shared household pantry), left out too
 }
 
 /**
  * Suggest recipes based on what's in the user's pantry
- * Uses AI to generate recipes that primarily use available ingredients
+ * Uses AI to generate recipes that primarily use available ingredients,
+ * prioritising items that are about to expire. Expired items and items the user
+ * is allergic to are left out and reported.
  */
 export async function suggestRecipesFromPantry(
   userId: string,
   count: number = 3
-): Promise<QuickCookRecipe[]> {
-  // 1. Fetch user's available inventory
-  const inventory = await prisma.userInventory.findMany({
+): Promise<QuickCookResult> {
+  // 1. Fetch user's available inventory (shared household pantry, if any)
+  const scope = await getOwnerScope(userId);
+  const pantry = await prisma.userInventory.findMany({
     where: {
-      userId,
+      ...scopeWhere(scope),
       isAvailable: true
     },
     include: {
@@ -40,24 +57,50 @@ export async function suggestRecipesFromPantry(
     }
   });
 
-  if (inventory.length === 0) {
+  if (pantry.length === 0) {
     throw new Error('Your pantry is empty. Add some ingredients first!');
   }
 
+  const now = new Date();
+  const { usable, expired } = partitionByExpiry(pantry, now);
+  const expiredItems = expired.map(item => item.ingredient.name);
+
+  if (usable.length === 0) {
+    throw new Error(`Everything in your pantry has expired (${expiredItems.join(', ')}). Update or remove those items first!`);
+  }
+
+  const allergies = mapPreferencesToAgentParams(await getUserActivePreferences(userId)).allergies ?? [];
+  const allergyProfile = resolveAllergies(allergies);
+  const safe = usable.filter(item => findAllergenConflicts([item.ingredient], allergyProfile).length === 0);
+  const allergenItems = usable.filter(item => !safe.includes(item)).map(item => item.ingredient.name);
+
+  if (safe.length === 0) {
+    throw new Error(`Everything usable in your pantry contains one of your allergens (${allergenItems.join(', ')}).`);
+  }
+
+  // Most urgent items first, so the prompt leads with what needs using up
+  const inventory = [...safe].sort((a, b) => getExpiryUrgency(b.expiresAt, now) - getExpiryUrgency(a.expiresAt, now));
+
   // 2. Build ingredient list string for AI prompt
-  const ingredientList = inventory.map(item =>
-    `${item.ingredient.name} (${item.amount} ${item.unit || 'units'})`
-  ).join(', ');
+  const ingredientList = inventory.map(item => {
+    const days = getDaysUntilExpiry(item.expiresAt, now);
+    const useSoon = getExpiryStatus(item.expiresAt, now) === 'expiring_soon'
+      ? `, USE SOON - expires in ${days} day(s)`
+      : '';
+    return `${item.ingredient.name} (${item.amount} ${item.unit || 'units'}${useSoon})`;
+  }).join(', ');
 
   // 3. Build generation parameters with pantry-focused prompt
   const generationParams = {
     dietaryRestrictions: [],
+    allergies,
     customPrompt: `Create recipes that PRIMARILY use these ingredients I already have in my pantry: ${ingredientList}.
 
 You may suggest 1-2 additional common ingredients if absolutely necessary, but the goal is to use what I already have. Minimize grocery shopping.
 
 Each recipe should:
 - Use at least 3 ingredients from my pantry
+- Prioritise ingredients marked USE SOON so nothing spoils
 - Be practical and easy to make
 - Include clear instructions
 - Have accurate nutritional information`
@@ -95,12 +138,14 @@ Each recipe should:
     // Use both exact ID matching and name-based similarity matching
     const { calculateSimilarity, normalizeIngredientName } = await import('../utils/ingredientNormalizer.js');
 
+    const expiringIngredientsUsed: string[] = [];
+
     const ingredientsWithPantryStatus = fullRecipe.recipeIngredients.map(ri => {
       // First try exact ID match
-      let inPantry = inventory.some(inv => inv.ingredientId === ri.ingredientId);
+      let pantryItem = inventory.find(inv => inv.ingredientId === ri.ingredientId);
 
       // If not found by ID, try similarity matching by name
-      if (!inPantry) {
+      if (!pantryItem) {
         const normalizedRecipeName = normalizeIngredientName(ri.ingredient.name);
 
         for (const invItem of inventory) {
@@ -110,18 +155,24 @@ Each recipe should:
           // 85% similarity threshold - same as recipe agent
           if (similarity >= 0.85) {
             console.log(`[Pantry Matching] Found similar ingredient: "${ri.ingredient.name}" matches pantry "${invItem.ingredient.name}" (${Math.round(similarity * 100)}% match)`);
-            inPantry = true;
+            pantryItem = invItem;
             break;
           }
         }
       }
 
+      const useSoon = pantryItem !== undefined && getExpiryStatus(pantryItem.expiresAt, now) === 'expiring_soon';
+      if (useSoon) {
+        expiringIngredientsUsed.push(pantryItem!.ingredient.name);
+      }
+
       return {
         id: ri.ingredientId,
         name: ri.ingredient.name,
         amount: String(ri.amount),
         unit: ri.unit || '',
-        inPantry
+        inPantry: pantryItem !== undefined,
+        useSoon
       };
     });
 
@@ -136,55 +187,53 @@ Each recipe should:
       protein: fullRecipe.protein || undefined,
       carbs: fullRecipe.carbs || undefined,
       fat: fullRecipe.fat || undefined,
-      ingredients: ingredientsWithPantryStatus
+      ingredients: ingredientsWithPantryStatus,
+      expiringIngredientsUsed,
+      allergens: getRecipeAllergens(fullRecipe.recipeIngredients.map(ri => ri.ingredient))
     });
   }
 
-  return enrichedRecipes;
+  // Recipes that use up more soon-to-expire items come first
+  enrichedRecipes.sort((a, b) => b.expiringIngredientsUsed.length - a.expiringIngredientsUsed.length);
+
+  return { recipes: enrichedRecipes, expiredItems, allergenItems };
 }
 
-/**
- * Get pantry coverage statistics for a recipe
- * Returns percentage of ingredients available in pantry
- */
-export async function getPantryCoverage(
-  userId: string,
-  recipeId: string
-): Promise<{
+export interface PantryCoverage {
   totalIngredients: number;
   availableInPantry: number;
   coveragePercent: number;
   missingIngredients: string[];
-}> {
-  const recipe = await prisma.recipe.findUnique({
-    where: { id: recipeId },
-    include: {
-      recipeIngredients: {
-        include: {
-          ingredient: true
-        }
-      }
-    }
-  });
-
-  if (!recipe) {
-    throw new Error('Recipe not found');
-  }
+}
 
-  const inventory = await prisma.userInventory.findMany({
+/**
+ * Ingredient ids available in the user's (or household's) pantry, expired items excluded
+ */
+export async function getPantryIngredientIds(userId: string): Promise<Set<string>> {
+  const scope = await getOwnerScope(userId);
+  const { usable: inventory } = partitionByExpiry(await prisma.userInventory.findMany({
     where: {
-      userId,
+      ...scopeWhere(scope),
       isAvailable: true
     }
-  });
+  }));
 
-  const totalIngredients = recipe.recipeIngredients.length;
+  return new Set(inventory.map(inv => inv.ingredientId));
+}
+
+/**
+ * Share of a recipe's ingredients found in the pantry
+ */
+export function calculatePantryCoverage(
+  recipeIngredients: Array<{ ingredientId: string; ingredient: { name: string } }>,
+  pantryIngredientIds: Set<string>
+): PantryCoverage {
+  const totalIngredients = recipeIngredients.length;
   let availableInPantry = 0;
   const missingIngredients: string[] = [];
 
-  for (const ri of recipe.recipeIngredients) {
-    const inPantry = inventory.some(inv => inv.ingredientId === ri.ingredientId);
-    if (inPantry) {
+  for (const ri of recipeIngredients) {
+    if (pantryIngredientIds.has(ri.ingredientId)) {
       availableInPantry++;
     } else {
       missingIngredients.push(ri.ingredient.name);
@@ -202,3 +251,29 @@ export async function getPantryCoverage(
     missingIngredients
   };
 }
+
+/**
+ * Get pantry coverage statistics for a recipe
+ * Returns percentage of ingredients available in pantry
+ */
+export async function getPantryCoverage(
+  userId: string,
+  recipeId: string
+): Promise<PantryCoverage> {
+  const recipe = await prisma.recipe.findUnique({
+    where: { id: recipeId },
+    include: {
+      recipeIngredients: {
+        include: {
+          ingredient: true
+        }
+      }
+    }
+  });
+
+  if (!recipe) {
+    throw new Error('Recipe not found');
+  }
+
+  return calculatePantryCoverage(recipe.recipeIngredients, await getPantryIngredientIds(userId));
+}
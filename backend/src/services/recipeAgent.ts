@@ -1,13 +1,22 @@
 import OpenAI from 'openai';
 import { prisma } from '../index.js';
-import { generateEmbedding } from './openai.js';
+import { scheduleEmbeddingRefresh } from './recipeEmbeddingService.js';
 import type { AgentParameters } from './preferenceMapper.js';
-import { normalizeIngredientName } from '../utils/ingredientNormalizer.js';
+import { mergeIngredientNotes } from '../utils/ingredientNormalizer.js';
+import { resolveIngredient } from './ingredientCanonicalizationService.js';
+import { getExpiryStatus } from './expirationService.js';
+import { recalculateRecipeNutrition } from './nutritionService.js';
+import { resolveAllergies } from '../config/allergenCatalog.js';
+import { detectCuisine } from '../config/cuisineCatalog.js';
+import { checkIngredientNames, describeAllergenConflicts, getUserAllergyProfile } from './allergenService.js';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+// Generated recipes that still contain one of the user's allergens after this many tries are rejected
+const MAX_ALLERGEN_ATTEMPTS = 3;
+
 /**
  * Infer meal type(s) from recipe title and description
  */
@@ -130,97 +139,6 @@ interface AgentRecipeResponse {
   recipe: RecipeInput;
 }
 
-/**
- * Check if ingredient exists in database, return ID or null
- * Now uses similarity matching to find existing ingredients before creating duplicates
- */
-async function findIngredient(name: string): Promise<string | null> {
-  const normalizedName = normalizeIngredientName(name);
-
-  // First try exact match
-  const exactMatch = await prisma.ingredient.findFirst({
-    where: {
-      name: {
-        equals: normalizedName,
-        mode: 'insensitive',
-      },
-    },
-    select: { id: true },
-  });
-
-  if (exactMatch) return exactMatch.id;
-
-  // If no exact match, try similarity matching
-  // Get all ingredients that might be similar (basic filter to reduce DB load)
-  const firstWord = normalizedName.split(' ')[0];
-  const potentialMatches = await prisma.ingredient.findMany({
-    where: {
-      OR: [
-        { name: { contains: firstWord, mode: 'insensitive' } },
-        { name: { startsWith: normalizedName.substring(0, 3), mode: 'insensitive' } }
-      ]
-    },
-    select: { id: true, name: true },
-    take: 50 // Limit to avoid performance issues
-  });
-
-  // Use Levenshtein distance to find similar ingredients
-  const { calculateSimilarity } = await import('../utils/ingredientNormalizer.js');
-
-  for (const ingredient of potentialMatches) {
-    const similarity = calculateSimilarity(normalizedName, ingredient.name);
-    // If similarity is >= 85%, consider it the same ingredient
-    if (similarity >= 0.85) {
-      console.log(`[Ingredient Matching] Found similar ingredient: "${normalizedName}" -> "${ingredient.name}" (${Math.round(similarity * 100)}% match)`);
-      return ingredient.id;
-    }
-  }
-
-  return null;
-}
-
-/**
- * Create a new ingredient if it doesn't exist
- */
-async function createIngredientIfNeeded(
-  name: string,
-  category: string = 'Other'
-): Promise<string> {
-  const normalizedName = normalizeIngredientName(name);
-
-  try {
-    // Try to create the ingredient
-    const ingredient = await prisma.ingredient.create({
-      data: {
-        name: normalizedName,
-        category,
-        caloriesPer100g: 0,
-        proteinPer100g: 0,
-        carbsPer100g: 0,
-        fatPer100g: 0,
-      },
-    });
-    return ingredient.id;
-  } catch (error: any) {
-    // If unique constraint failed, ingredient was created by another request
-    // Fetch and return the existing ingredient
-    if (error.code === 'P2002') {
-      const existing = await prisma.ingredient.findFirst({
-        where: {
-          name: {
-            equals: normalizedName,
-            mode: 'insensitive',
-          },
-        },
-        select: { id: true },
-      });
-      if (existing) return existing.id;
-    }
-    // Re-throw other errors
-    throw error;
-  }
-}
-
 /**
  * Categorize ingredient based on name
  */
@@ -260,60 +178,89 @@ function categorizeIngredient(name: string): string {
   return 'Other';
 }
 
+/**
+ * Ask the AI for one recipe and parse its JSON
+ */
+async function requestAgentRecipe(prompt: string): Promise<RecipeInput> {
+  const completion = await openai.chat.completions.create({
+    model: 'gpt-5-nano-2025-08-07',
+    messages: [
+      { role: 'system', content: AGENT_SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ],
+    max_completion_tokens: 8000,
+    reasoning_effort: 'low' as any,
+    response_format: { type: 'json_object' },
+    // Note: This model only supports temperature=1 (default), custom values not allowed
+  });
+
+  console.log('OpenAI completion response:', JSON.stringify(completion, null, 2));
+
+  const responseText = completion.choices[0]?.message?.content;
+  if (!responseText) {
+    console.error('Empty or invalid response structure:', completion);
+    throw new Error(`Empty response from AI. Finish reason: ${completion.choices[0]?.finish_reason || 'unknown'}`);
+  }
+
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  const jsonText = jsonMatch ? jsonMatch[0] : responseText;
+
+  let parsed: AgentRecipeResponse;
+  try {
+    parsed = JSON.parse(jsonText) as AgentRecipeResponse;
+  } catch (parseError) {
+    console.error('JSON Parse Error:', parseError);
+    console.error('Raw response text:', responseText);
+    console.error('Extracted JSON text:', jsonText);
+
+    let fixedJson = jsonText
+      .replace(/,\s*}/g, '}')
+      .replace(/,\s*]/g, ']')
+      .replace(/'/g, '"')
+      .replace(/(\w+):/g, '"$1":');
+
+    try {
+      parsed = JSON.parse(fixedJson) as AgentRecipeResponse;
+      console.log('Successfully parsed after JSON cleanup');
+    } catch (secondError) {
+      throw new Error(`Failed to parse AI response as JSON: ${parseError}. Raw text: ${responseText.substring(0, 500)}`);
+    }
+  }
+  return parsed.recipe;
+}
+
 /**
  * Generate a recipe using AI agent
+ * Recipes containing one of the user's allergens are regenerated, and rejected after
+ * MAX_ALLERGEN_ATTEMPTS. Allergies default to the user's preferences when not passed.
  */
 export async function generateRecipeWithAgent(
   prompt: string,
   userId?: string,
-  mealType?: string | string[]
+  mealType?: string | string[],
+  allergies?: string[]
 ): Promise<{ recipeId: string; recipeTitle: string; newIngredients: string[] }> {
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-5-nano-2025-08-07',
-      messages: [
-        { role: 'system', content: AGENT_SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-      max_completion_tokens: 8000,
-      reasoning_effort: 'low' as any,
-      response_format: { type: 'json_object' },
-      // Note: This model only supports temperature=1 (default), custom values not allowed
-    });
-
-    console.log('OpenAI completion response:', JSON.stringify(completion, null, 2));
-
-    const responseText = completion.choices[0]?.message?.content;
-    if (!responseText) {
-      console.error('Empty or invalid response structure:', completion);
-      throw new Error(`Empty response from AI. Finish reason: ${completion.choices[0]?.finish_reason || 'unknown'}`);
-    }
-
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    const jsonText = jsonMatch ? jsonMatch[0] : responseText;
-
-    let parsed: AgentRecipeResponse;
-    try {
-      parsed = JSON.parse(jsonText) as AgentRecipeResponse;
-    } catch (parseError) {
-      console.error('JSON Parse Error:', parseError);
-      console.error('Raw response text:', responseText);
-      console.error('Extracted JSON text:', jsonText);
-
-      let fixedJson = jsonText
-        .replace(/,\s*}/g, '}')
-        .replace(/,\s*]/g, ']')
-        .replace(/'/g, '"')
-        .replace(/(\w+):/g, '"$1":');
-
-      try {
-        parsed = JSON.parse(fixedJson) as AgentRecipeResponse;
-        console.log('Successfully parsed after JSON cleanup');
-      } catch (secondError) {
-        throw new Error(`Failed to parse AI response as JSON: ${parseError}. Raw text: ${responseText.substring(0, 500)}`);
+    const allergyProfile = allergies
+      ? resolveAllergies(allergies)
+      : userId ? await getUserAllergyProfile(userId) : resolveAllergies([]);
+
+    let recipeData = await requestAgentRecipe(prompt);
+    for (let attempt = 1; ; attempt++) {
+      const conflicts = await checkIngredientNames((recipeData.ingredients || []).map(ing => ing.name), allergyProfile);
+      if (conflicts.length === 0) break;
+
+      const reason = describeAllergenConflicts(conflicts);
+      if (attempt >= MAX_ALLERGEN_ATTEMPTS) {
+        throw new Error(`Recipe still contained allergens after ${attempt} attempts. ${reason}`);
       }
+
+      console.warn(`⚠️ Rejected "${recipeData.title}": ${reason} - regenerating`);
+      recipeData = await requestAgentRecipe(
+        `${prompt}\n\nIMPORTANT: The user is allergic to ${[...new Set(conflicts.map(c => c.label))].join(', ')}. ` +
+        `Do not use ${[...new Set(conflicts.map(c => c.ingredient))].join(', ')} or any ingredient containing these allergens.`
+      );
     }
-    const recipeData = parsed.recipe;
 
     const newIngredients: string[] = [];
 
@@ -327,15 +274,9 @@ export async function generateRecipeWithAgent(
 
     const ingredientRecords = await Promise.all(
       ingredients.map(async (ing, index) => {
-        const category = categorizeIngredient(ing.name);
-        const existingId = await findIngredient(ing.name);
-
-        let ingredientId: string;
-        if (existingId) {
-          ingredientId = existingId;
-        } else {
-          newIngredients.push(ing.name);
-          ingredientId = await createIngredientIfNeeded(ing.name, category);
+        const resolved = await resolveIngredient(ing.name, { category: categorizeIngredient(ing.name) });
+        if (resolved.created) {
+          newIngredients.push(resolved.name);
         }
 
         let unit = ing.unit?.trim() || '';
@@ -349,10 +290,10 @@ export async function generateRecipeWithAgent(
         }
 
         return {
-          ingredientId,
+          ingredientId: resolved.ingredientId,
           amount: parseFloat(ing.amount) || 1,
           unit,
-          notes: ing.notes || null,
+          notes: mergeIngredientNotes(resolved.notes, ing.notes),
           sortOrder: index,
         };
       })
@@ -398,6 +339,7 @@ export async function generateRecipeWithAgent(
         carbs: nutrition.carbs,
         fat: nutrition.fat,
         mealType: recipeMealType,
+        cuisine: detectCuisine({ title: recipeData.title, description, ingredientNames: ingredients.map(ing => ing.name) }),
         isPublic: true,
         createdById: userId || null,
         recipeIngredients: {
@@ -414,22 +356,13 @@ export async function generateRecipeWithAgent(
     });
 
     try {
-      const embeddingText = `${recipeData.title} ${description} ${ingredients.map(i => i.name).join(' ')}`;
-      const embedding = await generateEmbedding(embeddingText);
-
-      if (embedding) {
-        // Convert array to pgvector format: [0.1, 0.2, ...] instead of {0.1, 0.2, ...}
-        const vectorString = `[${embedding.join(',')}]`;
-        await prisma.$executeRaw`
-          UPDATE "Recipe"
-          SET embedding = ${vectorString}::vector
-          WHERE id = ${recipe.id}
-        `;
-      }
-    } catch (embeddingError) {
-      console.error('Failed to generate embedding, continuing without it:', embeddingError);
+      await recalculateRecipeNutrition(recipe.id);
+    } catch (nutritionError) {
+      console.error('Failed to compute nutrition, keeping AI-reported values:', nutritionError);
     }
 
+    scheduleEmbeddingRefresh();
+
     return {
       recipeId: recipe.id,
       recipeTitle: recipe.title,
@@ -661,6 +594,13 @@ export function buildPromptFromParams(
   if (inventory && inventory.length > 0) {
     const ingredientNames = inventory.map((inv: any) => inv.ingredient.name).join(', ');
     parts.push(`Try to use these ingredients the user already has: ${ingredientNames}`);
+
+    const expiringSoon = inventory
+      .filter((inv: any) => getExpiryStatus(inv.expiresAt) === 'expiring_soon')
+      .map((inv: any) => inv.ingredient.name);
+    if (expiringSoon.length > 0) {
+      parts.push(`Prioritise these, which expire within a few days: ${expiringSoon.join(', ')}`);
+    }
   }
 
   return parts.join(' ') + '.';
@@ -680,7 +620,7 @@ export async function generateRecipesFromParams(
   const prompt = buildPromptFromParams(params, mealType, userStyles, inventory);
 
   const results = await Promise.all(
-    Array.from({ length: count }, () => generateRecipeWithAgent(prompt, userId, mealType))
+    Array.from({ length: count }, () => generateRecipeWithAgent(prompt, userId, mealType, params.allergies))
   );
 
   const recipeIds = results.map(r => r.recipeId);
@@ -707,7 +647,7 @@ export async function generateRecipesFromApprovedIdeas(
       const basePrompt = buildPromptFromParams(params, idea.mealType as any, userStyles, inventory);
       const specificPrompt = `${basePrompt}\n\nCreate this specific recipe:\nTitle: ${idea.title}\nDescription: ${idea.description}\n\nGenerate the full recipe with ingredients and instructions based on this idea.`;
 
-      return generateRecipeWithAgent(specificPrompt, userId, idea.mealType);
+      return generateRecipeWithAgent(specificPrompt, userId, idea.mealType, params.allergies);
     })
   );
 
@@ -0,0 +1,439 @@
+// Recipe Bulk Import Service
+// Imports recipe files: schema.org JSON-LD (one document or a ZIP of them), Paprika archives and
+// Markdown exports. Each format is read into schema.org Recipe nodes, which go through the URL
+// importer's parsing and unit normalization and are matched to existing ingredients. A recipe is
+// imported once per user by its source id, so importing the same file again adds nothing.
+
+import { createHash } from 'crypto';
+import { gunzipSync, strFromU8, unzipSync } from 'fflate';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { resolveCuisine } from '../config/cuisineCatalog.js';
+import { checkIngredientNames, describeAllergenConflicts, getUserAllergyProfile } from './allergenService.js';
+import { createImportedRecipe, parseSchemaRecipe } from './urlRecipeImporter.js';
+import { fromExportId, toExportId } from './recipeExportService.js';
+import { scheduleEmbeddingRefresh } from './recipeEmbeddingService.js';
+
+export const IMPORT_FORMATS = ['jsonld', 'jsonld-zip', 'paprika', 'markdown'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const MAX_BULK_IMPORT_RECIPES = 500;
+const MAX_ARCHIVE_ENTRY_BYTES = 10 * 1024 * 1024; // Uncompressed, per file in a ZIP or gzip
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+interface ImportCandidate {
+  sourceId: string;
+  data: any; // schema.org Recipe in JSON-LD shape
+  sourceUrl?: string;
+  sourceName?: string;
+}
+
+export interface ImportFileContents {
+  candidates: ImportCandidate[];
+  unreadableFiles: string[]; // Files in an archive that couldn't be read
+}
+
+export interface BulkImportItem {
+  title: string;
+  sourceId: string;
+  status: 'imported' | 'existing' | 'allergens' | 'incomplete';
+  recipeId?: string; // The new recipe, or the one already imported from this source id
+  message?: string;
+}
+
+export interface BulkImportResult {
+  imported: number;
+  skipped: number;
+  items: BulkImportItem[];
+  unreadableFiles: string[];
+}
+
+function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isRecipeNode(node: any): boolean {
+  return toArray(node?.['@type']).some((type: unknown) => typeof type === 'string' && /(^|[/:])Recipe$/.test(type));
+}
+
+/**
+ * Content-based id for recipes whose file gives none, so re-imports still match
+ */
+function hashSourceId(data: any): string {
+  const text = JSON.stringify([data.name, toArray(data.recipeIngredient)]);
+  return `hash:${createHash('sha256').update(text).digest('hex').slice(0, 32)}`;
+}
+
+function firstString(value: unknown): string | undefined {
+  const text = toArray(value).find((v): v is string => typeof v === 'string' && v.trim().length > 0);
+  return text?.trim();
+}
+
+function jsonLdSourceId(node: any): string | undefined {
+  const identifier = toArray(node.identifier).map((id: any) => (typeof id === 'object' ? id?.value : id));
+  return firstString(node['@id']) || firstString(identifier.map(String)) || firstString(node.url);
+}
+
+/**
+ * Every Recipe in a JSON-LD document: top-level arrays, @graph lists and nested nodes
+ */
+function collectJsonLdRecipes(jsonLd: unknown, found: any[] = []): any[] {
+  for (const node of toArray(jsonLd as any)) {
+    if (!node || typeof node !== 'object') continue;
+    if (isRecipeNode(node)) {
+      found.push(node);
+    } else if (node['@graph']) {
+      collectJsonLdRecipes(node['@graph'], found);
+    }
+  }
+  return found;
+}
+
+function readJsonLd(text: string): ImportCandidate[] {
+  return collectJsonLdRecipes(JSON.parse(text)).map(node => ({
+    sourceId: jsonLdSourceId(node) || hashSourceId(node),
+    data: node,
+    sourceUrl: firstString(node.isBasedOn) || firstString(node.url),
+  }));
+}
+
+/**
+ * Nutrition written as text ("Calories: 250", "Protein: 12 g") as a schema.org NutritionInformation
+ */
+function parseNutritionText(text: string): Record<string, string> | undefined {
+  const patterns: Record<string, RegExp> = {
+    calories: /calories\s*:?\s*([\d,.]+)/i,
+    proteinContent: /protein\s*:?\s*([\d.]+)/i,
+    carbohydrateContent: /carb(?:ohydrate)?s?\s*:?\s*([\d.]+)/i,
+    fatContent: /(?<!(?:saturated|trans)\s)fat\s*:?\s*([\d.]+)/i,
+  };
+
+  const nutrition: Record<string, string> = {};
+  for (const [key, pattern] of Object.entries(patterns)) {
+    const match = text.match(pattern);
+    if (match) nutrition[key] = match[1];
+  }
+  return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+}
+
+/**
+ * Step lines with their "1." / "2)" numbering removed
+ */
+function toStepLines(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map(line => line.replace(/^\s*\d+[.)]\s+/, '').trim())
+    .filter(line => line.length > 0);
+}
+
+/**
+ * A Paprika recipe (the JSON inside a .paprikarecipe file)
+ */
+function readPaprikaRecipe(paprika: any): ImportCandidate {
+  const data = {
+    '@type': 'Recipe',
+    name: paprika.name,
+    recipeIngredient: String(paprika.ingredients || '').split('\n'),
+    recipeInstructions: toStepLines(String(paprika.directions || '')),
+    recipeYield: paprika.servings,
+    prepTime: paprika.prep_time,
+    cookTime: paprika.cook_time,
+    totalTime: paprika.total_time,
+    nutrition: parseNutritionText(String(paprika.nutritional_info || '')),
+  };
+  const uid = firstString(paprika.uid);
+
+  return {
+    // Our own exports keep the Pantry Chef id; Paprika's uids are namespaced
+    sourceId: uid ? (fromExportId(uid) ? uid : `paprika:${uid}`) : hashSourceId(data),
+    data,
+    sourceUrl: firstString(paprika.source_url),
+    sourceName: firstString(paprika.source),
+  };
+}
+
+function gunzipEntry(bytes: Uint8Array): Uint8Array {
+  // The gzip trailer holds the uncompressed size
+  const size = bytes.length >= 4 ? new DataView(bytes.buffer, bytes.byteOffset + bytes.length - 4, 4).getUint32(0, true) : 0;
+  if (size > MAX_ARCHIVE_ENTRY_BYTES) {
+    throw new Error('File is too large');
+  }
+  return gunzipSync(bytes);
+}
+
+function unzipEntries(bytes: Uint8Array, extensions: string[]): Record<string, Uint8Array> {
+  try {
+    return unzipSync(bytes, {
+      filter: file => extensions.some(ext => file.name.toLowerCase().endsWith(ext))
+        && !file.name.startsWith('__MACOSX/')
+        && file.originalSize <= MAX_ARCHIVE_ENTRY_BYTES,
+    });
+  } catch {
+    throw new Error('File is not a valid ZIP archive');
+  }
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x50 && bytes[1] === 0x4b;
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Recipes in a Markdown file: each # or ## heading with an Ingredients subsection is a recipe.
+ * Reads our own export and similar hand-written files.
+ */
+function readMarkdown(text: string): ImportCandidate[] {
+  const candidates: ImportCandidate[] = [];
+  const blocks: Array<{ title: string; lines: string[] }> = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,2}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      blocks.push({ title: heading[1], lines: [] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+
+  for (const block of blocks) {
+    let section: 'intro' | 'ingredients' | 'instructions' | 'nutrition' | 'other' = 'intro';
+    const intro: string[] = [];
+    const ingredients: string[] = [];
+    const steps: string[] = [];
+    const nutrition: string[] = [];
+    let exportId: string | undefined;
+
+    for (const line of block.lines) {
+      const comment = line.match(/<!--\s*(\S+)\s*-->/);
+      if (comment) {
+        exportId = comment[1];
+        continue;
+      }
+
+      const subheading = line.match(/^#{3,6}\s+(.+)$/);
+      if (subheading) {
+        const name = subheading[1];
+        section = /ingredient/i.test(name) ? 'ingredients'
+          : /instruction|direction|method|step|preparation/i.test(name) ? 'instructions'
+          : /nutrition/i.test(name) ? 'nutrition'
+          : 'other';
+        continue;
+      }
+
+      const trimmed = line.trim();
+      if (!trimmed || trimmed === '---') continue;
+
+      if (section === 'intro') intro.push(trimmed);
+      if (section === 'ingredients') {
+        const item = trimmed.match(/^[-*+]\s+(.+)$/);
+        if (item) ingredients.push(item[1]);
+      }
+      if (section === 'instructions') steps.push(...toStepLines(trimmed.replace(/^[-*+]\s+/, '')));
+      if (section === 'nutrition') nutrition.push(trimmed);
+    }
+
+    if (ingredients.length === 0) continue;
+
+    const facts = intro.join('\n').replace(/\*/g, '');
+    const fact = (pattern: RegExp) => facts.match(pattern)?.[1]?.trim();
+    const sourceLink = facts.match(/^Source:\s*\[([^\]]*)\]\(([^)\s]+)\)/im);
+    const data = {
+      '@type': 'Recipe',
+      name: block.title,
+      recipeIngredient: ingredients,
+      recipeInstructions: steps,
+      recipeYield: fact(/\b(?:serves|servings|yield)\s*:\s*([^·|\n]+)/i),
+      prepTime: fact(/\bprep(?:\s+time)?\s*:\s*([^·|\n]+)/i),
+      cookTime: fact(/\bcook(?:\s+time)?\s*:\s*([^·|\n]+)/i),
+      recipeCuisine: fact(/\bcuisine\s*:\s*([^·|\n]+)/i),
+      nutrition: parseNutritionText(nutrition.join('\n')),
+    };
+
+    candidates.push({
+      sourceId: exportId || hashSourceId(data),
+      data,
+      sourceUrl: sourceLink?.[2],
+      sourceName: sourceLink ? sourceLink[1] : fact(/^Source:\s*(.+)$/im),
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Read an uploaded file into recipes to import. JSON-LD and Markdown arrive as text, ZIP and
+ * Paprika files base64-encoded. Throws with a user-facing message when the file can't be read.
+ */
+export function readImportFile(format: ImportFormat, content: string): ImportFileContents {
+  const contents: ImportFileContents = { candidates: [], unreadableFiles: [] };
+
+  switch (format) {
+    case 'jsonld':
+      try {
+        contents.candidates = readJsonLd(content);
+      } catch {
+        throw new Error('File is not valid JSON-LD');
+      }
+      break;
+
+    case 'jsonld-zip': {
+      const entries = unzipEntries(Buffer.from(content, 'base64'), ['.json', '.jsonld']);
+      for (const [name, bytes] of Object.entries(entries)) {
+        try {
+          contents.candidates.push(...readJsonLd(strFromU8(bytes)));
+        } catch {
+          contents.unreadableFiles.push(name);
+        }
+      }
+      break;
+    }
+
+    case 'paprika': {
+      // A .paprikarecipes archive, or a single gzipped .paprikarecipe
+      const bytes = new Uint8Array(Buffer.from(content, 'base64'));
+      const entries = isZip(bytes)
+        ? unzipEntries(bytes, ['.paprikarecipe'])
+        : isGzip(bytes) ? { 'recipe.paprikarecipe': bytes } : null;
+      if (!entries) {
+        throw new Error('File is not a Paprika export');
+      }
+
+      for (const [name, entry] of Object.entries(entries)) {
+        try {
+          contents.candidates.push(readPaprikaRecipe(JSON.parse(strFromU8(gunzipEntry(entry)))));
+        } catch {
+          contents.unreadableFiles.push(name);
+        }
+      }
+      break;
+    }
+
+    case 'markdown':
+      contents.candidates = readMarkdown(content);
+      break;
+  }
+
+  if (contents.candidates.length === 0) {
+    throw new Error('No recipes found in the file');
+  }
+  if (contents.candidates.length > MAX_BULK_IMPORT_RECIPES) {
+    throw new Error(`Files can hold up to ${MAX_BULK_IMPORT_RECIPES} recipes; split the export into smaller files`);
+  }
+  return contents;
+}
+
+function toWebsite(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Import the recipes read from a file as the user's private imported recipes. Recipes already
+ * imported from the same source id, and the user's own recipes from a Pantry Chef export, are
+ * skipped. Recipes with the user's allergens are skipped unless allowAllergens is set.
+ */
+export async function importRecipeFile(
+  userId: string,
+  contents: ImportFileContents,
+  options: { allowAllergens?: boolean } = {}
+): Promise<BulkImportResult> {
+  const sourceIds = [...new Set(contents.candidates.map(candidate => candidate.sourceId))];
+  const ownIds = sourceIds.map(fromExportId).filter((id): id is string => !!id);
+
+  const [previousImports, ownRecipes] = await Promise.all([
+    prisma.recipe.findMany({
+      where: { createdById: userId, importSourceId: { in: sourceIds } },
+      select: { id: true, importSourceId: true }
+    }),
+    prisma.recipe.findMany({
+      where: { createdById: userId, id: { in: ownIds } },
+      select: { id: true }
+    })
+  ]);
+
+  // Source id -> recipe that already holds it
+  const existing = new Map<string, string>(previousImports.map(recipe => [recipe.importSourceId!, recipe.id]));
+  for (const recipe of ownRecipes) {
+    existing.set(toExportId(recipe.id), recipe.id);
+  }
+
+  const allergyProfile = await getUserAllergyProfile(userId);
+  const items: BulkImportItem[] = [];
+
+  for (const candidate of contents.candidates) {
+    const title = firstString(candidate.data.name) || 'Untitled recipe';
+    const item: BulkImportItem = { title, sourceId: candidate.sourceId, status: 'existing' };
+    items.push(item);
+
+    const existingId = existing.get(candidate.sourceId);
+    if (existingId) {
+      item.recipeId = existingId;
+      continue;
+    }
+
+    const recipe = await parseSchemaRecipe(candidate.data);
+    if (!recipe) {
+      item.status = 'incomplete';
+      item.message = 'Missing a title, ingredients or instructions';
+      continue;
+    }
+    item.title = recipe.title;
+
+    const conflicts = await checkIngredientNames(recipe.ingredients.map(ing => ing.name), allergyProfile);
+    if (conflicts.length > 0 && options.allowAllergens !== true) {
+      item.status = 'allergens';
+      item.message = describeAllergenConflicts(conflicts);
+      continue;
+    }
+
+    const mealType = toArray(candidate.data.recipeCategory)
+      .map((category: unknown) => String(category).toLowerCase())
+      .filter((category: string) => MEAL_TYPES.includes(category));
+    const cuisine = firstString(candidate.data.recipeCuisine);
+
+    try {
+      const created = await createImportedRecipe(userId, {
+        ...recipe,
+        mealType,
+        ...(cuisine ? { cuisine: resolveCuisine(cuisine) } : {}),
+      }, {
+        importMethod: 'file',
+        sourceUrl: candidate.sourceUrl || null,
+        sourceWebsite: toWebsite(candidate.sourceUrl),
+        sourceName: candidate.sourceName || null,
+        importSourceId: candidate.sourceId,
+      });
+      item.status = 'imported';
+      item.recipeId = created.id;
+      existing.set(candidate.sourceId, created.id);
+    } catch (error) {
+      // Imported by a concurrent request with the same file
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  const imported = items.filter(item => item.status === 'imported').length;
+  if (imported > 0) {
+    console.log(`📦 Imported ${imported} recipes from a file for user ${userId}`);
+    scheduleEmbeddingRefresh();
+  }
+
+  return {
+    imported,
+    skipped: items.length - imported,
+    items,
+    unreadableFiles: contents.unreadableFiles,
+  };
+}
@@ -0,0 +1,467 @@
+// Recipe Cost Service
+// Estimates what recipes and meal plans cost to shop for, and swaps recipes to fit a budget
+
+import { subDays } from 'date-fns';
+import { prisma } from '../index.js';
+import { parseQuantity, type Quantity } from '../utils/quantity.js';
+import {
+  calculatePurchaseCount,
+  convertQuantity,
+  loadConversionTable,
+  type ConversionTable
+} from './unitConversionService.js';
+import { recordAndComparePrices, PRICE_HISTORY_DAYS } from './priceHistoryService.js';
+import type { GroceryProvider } from './groceryProvider.js';
+
+// Live provider lookups allowed per estimate for ingredients with no price history
+const MAX_LIVE_PRICE_LOOKUPS = 40;
+
+// Swaps tried before giving up on a budget
+const MAX_BUDGET_SWAPS = 8;
+
+// Cheapest replacement candidates tried for each expensive recipe
+const SWAP_CANDIDATES_PER_RECIPE = 3;
+
+// Stand-in package price for unpriced ingredients when nothing in the estimate has a price
+const DEFAULT_UNPRICED_PACKAGE_PRICE = 3.5;
+
+export interface IngredientPrice {
+  ingredientId: string;
+  name: string;
+  price: number;
+  packageSize: string;
+  productName: string;
+  providerId: string;
+  source: 'price_history' | 'live';
+}
+
+export interface CostableRecipe {
+  id: string;
+  title: string;
+  recipeIngredients: Array<{
+    ingredientId: string;
+    amount: number;
+    unit: string;
+    ingredient: { name: string };
+  }>;
+}
+
+export interface CostedIngredient {
+  ingredientId: string;
+  name: string;
+  amount: number;
+  unit: string;
+  packageCount: number;
+  packageSize: string;
+  price: number;
+  cost: number;
+}
+
+export interface ShoppingCostEstimate {
+  total: number; // Priced ingredients only
+  ingredients: CostedIngredient[];
+  recipeShares: Map<string, number>; // Recipe id → its share of the total, including unpriced stand-ins
+  unpricedIngredients: string[];
+  unpricedEstimate: number; // Stand-in cost for unpriced ingredients (one typical package each); not in total
+  pantryIngredients: string[];
+}
+
+export interface BudgetSwap {
+  removed: { recipeId: string; title: string; estimatedCost: number };
+  added: { recipeId: string; title: string; estimatedCost: number };
+  projectedTotalBefore: number;
+  projectedTotalAfter: number;
+}
+
+export interface CostEstimator {
+  prices: Map<string, IngredientPrice>;
+  table: ConversionTable;
+  pantryIngredientIds: Set<string>;
+  purchaseCache: Map<string, Promise<number>>;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Median package price the estimator knows, used as the stand-in for unpriced ingredients
+ */
+function typicalPackagePrice(estimator: CostEstimator): number {
+  const prices = [...estimator.prices.values()].map(p => p.price).sort((a, b) => a - b);
+  if (prices.length === 0) {
+    return DEFAULT_UNPRICED_PACKAGE_PRICE;
+  }
+  const middle = Math.floor(prices.length / 2);
+  return prices.length % 2 === 0 ? (prices[middle - 1] + prices[middle]) / 2 : prices[middle];
+}
+
+/**
+ * Priced total plus the stand-in cost of unpriced ingredients
+ */
+export function projectedTotal(estimate: ShoppingCostEstimate): number {
+  return roundCurrency(estimate.total + estimate.unpricedEstimate);
+}
+
+/**
+ * Whether the estimate fits the budget: null when unpriced ingredients make it unknowable
+ * (the priced items alone being over budget still counts as over)
+ */
+export function getBudgetStatus(estimate: ShoppingCostEstimate, budget: number): boolean | null {
+  if (estimate.total > budget) {
+    return false;
+  }
+  return estimate.unpricedIngredients.length > 0 ? null : true;
+}
+
+/**
+ * Price each ingredient from recorded price history (user-preferred provider first),
+ * falling back to a live provider lookup for ingredients never priced before.
+ * Products without a listed size use the ingredient's PackagingInfo.
+ */
+export async function loadIngredientPrices(
+  ingredients: Array<{ id: string; name: string }>,
+  provider: GroceryProvider | null
+): Promise<Map<string, IngredientPrice>> {
+  const unique = [...new Map(ingredients.map(i => [i.id, i])).values()];
+  const prices = new Map<string, IngredientPrice>();
+  if (unique.length === 0) {
+    return prices;
+  }
+
+  const [observations, packaging] = await Promise.all([
+    prisma.priceObservation.findMany({
+      where: {
+        observedAt: { gte: subDays(new Date(), PRICE_HISTORY_DAYS) },
+        OR: [
+          { ingredientId: { in: unique.map(i => i.id) } },
+          { ingredientName: { in: unique.map(i => i.name.toLowerCase()) } }
+        ]
+      },
+      orderBy: { observedAt: 'desc' }
+    }),
+    prisma.packagingInfo.findMany({
+      where: { ingredientId: { in: unique.map(i => i.id) } },
+      orderBy: { isVerified: 'desc' }
+    })
+  ]);
+
+  const packageSizeFor = (ingredientId: string): string | undefined => {
+    const info = packaging.find(p => p.ingredientId === ingredientId);
+    return info ? `${info.packageSize} ${info.packageUnit}` : undefined;
+  };
+
+  for (const ingredient of unique) {
+    const matching = observations.filter(o =>
+      o.ingredientId === ingredient.id || o.ingredientName === ingredient.name.toLowerCase()
+    );
+    const latest = matching.find(o => o.providerId === provider?.id) ?? matching[0];
+    const packageSize = latest?.size || packageSizeFor(ingredient.id);
+
+    if (latest && packageSize) {
+      prices.set(ingredient.id, {
+        ingredientId: ingredient.id,
+        name: ingredient.name,
+        price: latest.price,
+        packageSize,
+        productName: latest.productName,
+        providerId: latest.providerId,
+        source: 'price_history'
+      });
+    }
+  }
+
+  const missing = unique.filter(i => !prices.has(i.id)).slice(0, MAX_LIVE_PRICE_LOOKUPS);
+  if (provider && provider.isConfigured() && missing.length > 0) {
+    console.log(`💲 Looking up ${missing.length} unpriced ingredients at ${provider.name}`);
+
+    const found = (await Promise.all(missing.map(async ingredient => {
+      try {
+        const priced = await provider.priceIngredient({ name: ingredient.name });
+        return priced ? { ingredient, product: priced.product } : null;
+      } catch (error) {
+        console.error(`Error pricing ${ingredient.name}:`, error);
+        return null;
+      }
+    }))).filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+    for (const { ingredient, product } of found) {
+      const packageSize = product.size || packageSizeFor(ingredient.id);
+      if (!packageSize) continue;
+
+      prices.set(ingredient.id, {
+        ingredientId: ingredient.id,
+        name: ingredient.name,
+        price: product.price,
+        packageSize,
+        productName: product.name,
+        providerId: product.providerId,
+        source: 'live'
+      });
+    }
+
+    try {
+      await recordAndComparePrices(found.map(({ ingredient, product }) => ({
+        product,
+        ingredientId: ingredient.id,
+        ingredientName: ingredient.name
+      })));
+    } catch (error) {
+      console.error('Error recording price history:', error);
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Load everything needed to cost a set of recipes.
+ * Ingredients in pantryIngredientIds are treated as already owned.
+ */
+export async function createCostEstimator(
+  recipes: CostableRecipe[],
+  provider: GroceryProvider | null,
+  pantryIngredientIds: Iterable<string> = []
+): Promise<CostEstimator> {
+  const ingredients = recipes.flatMap(recipe =>
+    recipe.recipeIngredients.map(ri => ({ id: ri.ingredientId, name: ri.ingredient.name }))
+  );
+  const ingredientIds = [...new Set(ingredients.map(i => i.id))];
+
+  const [prices, table] = await Promise.all([
+    loadIngredientPrices(ingredients, provider),
+    loadConversionTable(ingredientIds)
+  ]);
+
+  return { prices, table, pantryIngredientIds: new Set(pantryIngredientIds), purchaseCache: new Map() };
+}
+
+/**
+ * Add recipes' ingredients to an estimator that was created for other recipes
+ */
+export async function extendCostEstimator(
+  estimator: CostEstimator,
+  recipes: CostableRecipe[],
+  provider: GroceryProvider | null
+): Promise<void> {
+  const ingredients = recipes
+    .flatMap(recipe => recipe.recipeIngredients.map(ri => ({ id: ri.ingredientId, name: ri.ingredient.name })))
+    .filter(i => !estimator.prices.has(i.id));
+
+  const [prices, table] = await Promise.all([
+    loadIngredientPrices(ingredients, provider),
+    loadConversionTable(ingredients.map(i => i.id))
+  ]);
+
+  prices.forEach((price, id) => estimator.prices.set(id, price));
+  table.byIngredient.forEach((edges, id) => estimator.table.byIngredient.set(id, edges));
+}
+
+/**
+ * Whole packages needed for an amount, memoized per estimator
+ */
+function countPackages(estimator: CostEstimator, quantity: Quantity, price: IngredientPrice): Promise<number> {
+  const key = `${price.ingredientId}|${quantity.value}|${quantity.unit}`;
+  let cached = estimator.purchaseCache.get(key);
+
+  if (!cached) {
+    cached = calculatePurchaseCount(quantity.value, quantity.unit || 'count', price.packageSize, price.name)
+      .then(result => result.packageCount);
+    estimator.purchaseCache.set(key, cached);
+  }
+
+  return cached;
+}
+
+/**
+ * Projected shopping cost for cooking each recipe once (repeat a recipe to cook it again).
+ * Amounts of the same ingredient are combined before rounding up to whole packages,
+ * so a package shared by several recipes is only bought once.
+ */
+export async function estimateShoppingCost(
+  estimator: CostEstimator,
+  recipes: CostableRecipe[]
+): Promise<ShoppingCostEstimate> {
+  // Ingredient → buckets of convertible amounts, with each recipe's contribution
+  const buckets = new Map<string, Array<{ quantity: Quantity; contributions: Map<string, number> }>>();
+  const names = new Map<string, string>();
+
+  for (const recipe of recipes) {
+    for (const ri of recipe.recipeIngredients) {
+      const quantity = parseQuantity(ri.amount, ri.unit);
+      if (!quantity) continue;
+
+      names.set(ri.ingredientId, ri.ingredient.name);
+      const ingredientBuckets = buckets.get(ri.ingredientId) ?? [];
+      buckets.set(ri.ingredientId, ingredientBuckets);
+
+      let added = false;
+      for (const bucket of ingredientBuckets) {
+        const converted = convertQuantity(estimator.table, quantity, bucket.quantity.unit, ri.ingredientId);
+        if (converted) {
+          bucket.quantity = {
+            value: bucket.quantity.value + converted.value,
+            unit: bucket.quantity.unit,
+            approximate: bucket.quantity.approximate || converted.approximate
+          };
+          bucket.contributions.set(recipe.id, (bucket.contributions.get(recipe.id) || 0) + converted.value);
+          added = true;
+          break;
+        }
+      }
+
+      if (!added) {
+        ingredientBuckets.push({ quantity, contributions: new Map([[recipe.id, quantity.value]]) });
+      }
+    }
+  }
+
+  const ingredients: CostedIngredient[] = [];
+  const recipeShares = new Map<string, number>(recipes.map(recipe => [recipe.id, 0]));
+  const unpricedIngredients: string[] = [];
+  const pantryIngredients: string[] = [];
+  const standInPrice = typicalPackagePrice(estimator);
+  let unpricedEstimate = 0;
+
+  // Split a cost across the recipes that need the bucket, by how much each needs
+  const shareCost = (bucket: { quantity: Quantity; contributions: Map<string, number> }, cost: number) => {
+    for (const [recipeId, value] of bucket.contributions) {
+      const share = bucket.quantity.value > 0 ? cost * (value / bucket.quantity.value) : 0;
+      recipeShares.set(recipeId, (recipeShares.get(recipeId) || 0) + share);
+    }
+  };
+
+  for (const [ingredientId, ingredientBuckets] of buckets) {
+    const name = names.get(ingredientId)!;
+
+    if (estimator.pantryIngredientIds.has(ingredientId)) {
+      pantryIngredients.push(name);
+      continue;
+    }
+
+    const price = estimator.prices.get(ingredientId);
+    if (!price) {
+      // Counted at a typical package price so recipes missing price data don't look free
+      unpricedIngredients.push(name);
+      for (const bucket of ingredientBuckets) {
+        unpricedEstimate += standInPrice;
+        shareCost(bucket, standInPrice);
+      }
+      continue;
+    }
+
+    for (const bucket of ingredientBuckets) {
+      const packageCount = await countPackages(estimator, bucket.quantity, price);
+      const cost = packageCount * price.price;
+
+      ingredients.push({
+        ingredientId,
+        name,
+        amount: bucket.quantity.value,
+        unit: bucket.quantity.unit,
+        packageCount,
+        packageSize: price.packageSize,
+        price: price.price,
+        cost: roundCurrency(cost)
+      });
+
+      shareCost(bucket, cost);
+    }
+  }
+
+  recipeShares.forEach((share, recipeId) => recipeShares.set(recipeId, roundCurrency(share)));
+
+  return {
+    total: roundCurrency(ingredients.reduce((sum, item) => sum + item.cost, 0)),
+    ingredients,
+    recipeShares,
+    unpricedIngredients,
+    unpricedEstimate: roundCurrency(unpricedEstimate),
+    pantryIngredients
+  };
+}
+
+/**
+ * Cost of shopping for a single recipe on its own, unpriced ingredients at their stand-in price
+ */
+export async function estimateRecipeCost(estimator: CostEstimator, recipe: CostableRecipe): Promise<number> {
+  return projectedTotal(await estimateShoppingCost(estimator, [recipe]));
+}
+
+/**
+ * Swap expensive recipes for cheaper candidates until the plan fits the budget.
+ *
+ * Greedy: the recipe with the largest share of the projected total is replaced by the
+ * cheapest compatible candidate that actually lowers the total (after re-planning, so
+ * shared packages and leftovers are accounted for). Stops when under budget, when no swap
+ * helps, or after MAX_BUDGET_SWAPS. Totals include unpriced ingredients at their stand-in
+ * price (see projectedTotal).
+ *
+ * `planRecipes` turns a recipe pool into the list of recipes cooked (one entry per cooking slot).
+ * `isCompatible` decides whether a candidate can stand in for a recipe (e.g. shares a meal type).
+ */
+export async function fitRecipesToBudget<T extends CostableRecipe>(
+  estimator: CostEstimator,
+  pool: T[],
+  candidates: T[],
+  budget: number,
+  planRecipes: (pool: T[]) => T[],
+  isCompatible: (candidate: T, replaced: T) => boolean
+): Promise<{ pool: T[]; estimate: ShoppingCostEstimate; swaps: BudgetSwap[] }> {
+  let currentPool = [...pool];
+  let estimate = await estimateShoppingCost(estimator, planRecipes(currentPool));
+  const swaps: BudgetSwap[] = [];
+  const remaining = candidates.filter(c => !currentPool.some(r => r.id === c.id));
+  const exhausted = new Set<string>();
+
+  const standaloneCosts = new Map<string, number>();
+  const standaloneCost = async (recipe: T) => {
+    if (!standaloneCosts.has(recipe.id)) {
+      standaloneCosts.set(recipe.id, await estimateRecipeCost(estimator, recipe));
+    }
+    return standaloneCosts.get(recipe.id)!;
+  };
+
+  while (projectedTotal(estimate) > budget && swaps.length < MAX_BUDGET_SWAPS) {
+    const target = currentPool
+      .filter(recipe => !exhausted.has(recipe.id))
+      .sort((a, b) => (estimate.recipeShares.get(b.id) || 0) - (estimate.recipeShares.get(a.id) || 0))[0];
+
+    if (!target || (estimate.recipeShares.get(target.id) || 0) <= 0) {
+      break;
+    }
+
+    const compatible = remaining.filter(candidate => isCompatible(candidate, target));
+    const costed = await Promise.all(compatible.map(async candidate => ({ candidate, cost: await standaloneCost(candidate) })));
+    const cheapest = costed.sort((a, b) => a.cost - b.cost).slice(0, SWAP_CANDIDATES_PER_RECIPE);
+
+    let best: { candidate: T; pool: T[]; estimate: ShoppingCostEstimate } | null = null;
+    for (const { candidate } of cheapest) {
+      const trialPool = currentPool.map(recipe => (recipe.id === target.id ? candidate : recipe));
+      const trialEstimate = await estimateShoppingCost(estimator, planRecipes(trialPool));
+      if (projectedTotal(trialEstimate) < projectedTotal(best?.estimate ?? estimate)) {
+        best = { candidate, pool: trialPool, estimate: trialEstimate };
+      }
+    }
+
+    if (!best) {
+      // Nothing cheaper can stand in for this recipe - try the next most expensive one
+      exhausted.add(target.id);
+      continue;
+    }
+
+    swaps.push({
+      removed: { recipeId: target.id, title: target.title, estimatedCost: await standaloneCost(target) },
+      added: { recipeId: best.candidate.id, title: best.candidate.title, estimatedCost: await standaloneCost(best.candidate) },
+      projectedTotalBefore: projectedTotal(estimate),
+      projectedTotalAfter: projectedTotal(best.estimate)
+    });
+    console.log(`💰 Budget swap: "${target.title}" → "${best.candidate.title}" ($${projectedTotal(estimate)} → $${projectedTotal(best.estimate)})`);
+
+    remaining.splice(remaining.indexOf(best.candidate), 1);
+    currentPool = best.pool;
+    estimate = best.estimate;
+  }
+
+  return { pool: currentPool, estimate, swaps };
+}
@@ -0,0 +1,202 @@
+// Recipe Embedding Service
+// Keeps Recipe.embedding current for semantic search. A background job embeds recipes with no
+// embedding, one from a different model, or changes since they were embedded; recipe writes
+// schedule a run so new and edited recipes don't wait for the next interval.
+
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { getCuisineLabel } from '../config/cuisineCatalog.js';
+import { getEmbeddingModelId, getEmbeddingProvider, toVectorLiteral } from './embeddingProvider.js';
+
+const BATCH_SIZE = 50;
+const MAX_PER_RUN = 1000;
+const DEFAULT_INTERVAL_MINUTES = 15;
+const SCHEDULE_DELAY_MS = 5000; // Lets several writes share one run
+
+interface EmbeddableRecipe {
+  title: string;
+  description: string | null;
+  cuisine: string | null;
+  mealType: string[];
+  recipeIngredients: Array<{ ingredient: { name: string } }>;
+}
+
+/**
+ * The text a recipe is embedded from: what it is, not how to cook it
+ */
+export function buildRecipeEmbeddingText(recipe: EmbeddableRecipe): string {
+  const parts = [recipe.title];
+  if (recipe.description) parts.push(recipe.description);
+  if (recipe.cuisine) parts.push(`Cuisine: ${getCuisineLabel(recipe.cuisine)}`);
+  if (recipe.mealType.length > 0) parts.push(`Meal: ${recipe.mealType.join(', ')}`);
+  if (recipe.recipeIngredients.length > 0) {
+    parts.push(`Ingredients: ${recipe.recipeIngredients.map(ri => ri.ingredient.name).join(', ')}`);
+  }
+  return parts.join('\n');
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Recipes whose embedding is missing, from another model, or older than their last change
+ */
+async function findStaleRecipeIds(modelId: string, limit: number): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT id
+    FROM "Recipe"
+    WHERE embedding IS NULL
+      OR "embeddingModel" IS DISTINCT FROM ${modelId}
+      OR "embeddingUpdatedAt" IS NULL
+      OR "embeddingUpdatedAt" < "updatedAt"
+    ORDER BY "updatedAt" DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(row => row.id);
+}
+
+/**
+ * Embed the given recipes with the current provider. Recipes whose text hasn't changed since
+ * they were embedded by the same model are only marked current.
+ */
+export async function embedRecipes(recipeIds: string[]): Promise<{ embedded: number; unchanged: number }> {
+  const provider = getEmbeddingProvider();
+  const modelId = getEmbeddingModelId(provider);
+
+  // Written as embeddingUpdatedAt, so edits made while embedding leave the recipe stale
+  const loadedAt = new Date();
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: recipeIds } },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      cuisine: true,
+      mealType: true,
+      embeddingModel: true,
+      embeddingTextHash: true,
+      recipeIngredients: {
+        select: { ingredient: { select: { name: true } } },
+        orderBy: { sortOrder: 'asc' }
+      }
+    }
+  });
+
+  const texts = recipes.map(recipe => {
+    const text = buildRecipeEmbeddingText(recipe);
+    return { recipe, text, hash: hashText(text) };
+  });
+  const unchanged = texts.filter(({ recipe, hash }) => recipe.embeddingModel === modelId && recipe.embeddingTextHash === hash);
+  const changed = texts.filter(entry => !unchanged.includes(entry));
+
+  // Raw updates: a Prisma update would bump updatedAt and make the recipe look stale again
+  if (unchanged.length > 0) {
+    await prisma.$executeRaw`
+      UPDATE "Recipe"
+      SET "embeddingUpdatedAt" = ${loadedAt}
+      WHERE id IN (${Prisma.join(unchanged.map(({ recipe }) => recipe.id))})
+    `;
+  }
+
+  if (changed.length > 0) {
+    const vectors = await provider.embed(changed.map(({ text }) => text));
+    for (let i = 0; i < changed.length; i++) {
+      await prisma.$executeRaw`
+        UPDATE "Recipe"
+        SET embedding = ${toVectorLiteral(vectors[i])}::vector,
+          "embeddingModel" = ${modelId},
+          "embeddingTextHash" = ${changed[i].hash},
+          "embeddingUpdatedAt" = ${loadedAt}
+        WHERE id = ${changed[i].recipe.id}
+      `;
+    }
+  }
+
+  return { embedded: changed.length, unchanged: unchanged.length };
+}
+
+let running = false;
+let rerunRequested = false;
+
+/**
+ * Embed stale recipes in batches, up to MAX_PER_RUN per call. Stops at the first provider error;
+ * the remaining recipes stay stale for the next run.
+ */
+export async function refreshStaleEmbeddings(): Promise<{ embedded: number; unchanged: number }> {
+  const totals = { embedded: 0, unchanged: 0 };
+  if (running) {
+    rerunRequested = true;
+    return totals;
+  }
+
+  running = true;
+  try {
+    const modelId = getEmbeddingModelId(getEmbeddingProvider());
+    while (totals.embedded + totals.unchanged < MAX_PER_RUN) {
+      const ids = await findStaleRecipeIds(modelId, BATCH_SIZE);
+      if (ids.length === 0) break;
+
+      const result = await embedRecipes(ids);
+      totals.embedded += result.embedded;
+      totals.unchanged += result.unchanged;
+      if (ids.length < BATCH_SIZE) break;
+    }
+
+    if (totals.embedded > 0) {
+      console.log(`🧭 Embedded ${totals.embedded} recipes with ${modelId}`);
+    }
+  } catch (error) {
+    console.error('Embedding refresh error:', error);
+  } finally {
+    running = false;
+  }
+
+  if (rerunRequested) {
+    rerunRequested = false;
+    scheduleEmbeddingRefresh();
+  }
+  return totals;
+}
+
+let scheduledRun: NodeJS.Timeout | null = null;
+
+/**
+ * Run the refresh shortly; call after creating or changing a recipe
+ */
+export function scheduleEmbeddingRefresh(): void {
+  if (scheduledRun) return;
+
+  scheduledRun = setTimeout(() => {
+    scheduledRun = null;
+    void refreshStaleEmbeddings();
+  }, SCHEDULE_DELAY_MS);
+  scheduledRun.unref();
+}
+
+let refreshInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Backfill missing embeddings now, then refresh every EMBEDDING_REFRESH_INTERVAL_MINUTES
+ * (default 15, 0 turns the job off)
+ */
+export function startEmbeddingRefreshJob(): void {
+  const configured = Number(process.env.EMBEDDING_REFRESH_INTERVAL_MINUTES);
+  const minutes = process.env.EMBEDDING_REFRESH_INTERVAL_MINUTES && !isNaN(configured) ? configured : DEFAULT_INTERVAL_MINUTES;
+  if (minutes <= 0) {
+    console.log('🧭 Embedding refresh job disabled');
+    return;
+  }
+
+  scheduleEmbeddingRefresh();
+  refreshInterval = setInterval(() => void refreshStaleEmbeddings(), minutes * 60 * 1000);
+  refreshInterval.unref();
+}
+
+export function stopEmbeddingRefreshJob(): void {
+  if (refreshInterval) clearInterval(refreshInterval);
+  if (scheduledRun) clearTimeout(scheduledRun);
+  refreshInterval = null;
+  scheduledRun = null;
+}
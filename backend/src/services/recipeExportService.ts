@@ -0,0 +1,379 @@
+// Recipe Export Service
+// Exports a user's own recipes, and optionally their meal plans, as schema.org JSON-LD, a Paprika
+// archive or Markdown (prints cleanly or converts to PDF). Every format carries the recipe's export
+// id, so importing a file back (services/recipeBulkImportService.ts) never duplicates a recipe.
+
+import { createHash } from 'crypto';
+import { format } from 'date-fns';
+import { strToU8, gzipSync, zipSync } from 'fflate';
+import { prisma } from '../index.js';
+import { getCuisineLabel } from '../config/cuisineCatalog.js';
+import { findUnitDefinition } from '../config/unitCatalog.js';
+import { formatAmount } from '../utils/unitConversion.js';
+import { splitInstructions } from '../utils/instructionParser.js';
+
+export const EXPORT_FORMATS = ['jsonld', 'paprika', 'markdown'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const EXPORT_ID_PREFIX = 'pantrychef:recipe:';
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+  recipeCount: number;
+  mealPlanCount: number;
+}
+
+interface ExportRecipe {
+  id: string;
+  title: string;
+  description: string | null;
+  instructions: unknown;
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  imageUrl: string | null;
+  mealType: string[];
+  cuisine: string | null;
+  sourceUrl: string | null;
+  sourceName: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  recipeIngredients: Array<{ amount: number; unit: string; notes: string | null; ingredient: { name: string } }>;
+}
+
+interface ExportMealPlan {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  mealSlots: Array<{
+    date: Date;
+    mealType: string;
+    servings: number | null;
+    recipe: { id: string; title: string; servings: number } | null;
+  }>;
+}
+
+/**
+ * Id a recipe carries in export files ("pantrychef:recipe:<id>")
+ */
+export function toExportId(recipeId: string): string {
+  return `${EXPORT_ID_PREFIX}${recipeId}`;
+}
+
+/**
+ * Recipe id from an export id, or null for ids from other apps
+ */
+export function fromExportId(exportId: string): string | null {
+  return exportId.startsWith(EXPORT_ID_PREFIX) ? exportId.slice(EXPORT_ID_PREFIX.length) || null : null;
+}
+
+/**
+ * Ingredient line in the form the importers parse back: "1 1/2 cup flour (sifted)".
+ * Count units are left out ("2 eggs").
+ */
+export function formatIngredientLine(ri: ExportRecipe['recipeIngredients'][number]): string {
+  const unit = findUnitDefinition(ri.unit)?.abbreviation === 'count' ? '' : ri.unit;
+  const line = [formatAmount(ri.amount), unit, ri.ingredient.name].filter(Boolean).join(' ');
+  return ri.notes ? `${line} (${ri.notes})` : line;
+}
+
+function toIsoDuration(minutes: number): string | undefined {
+  return minutes > 0 ? `PT${minutes}M` : undefined;
+}
+
+function describeMinutes(minutes: number): string {
+  if (minutes <= 0) return '';
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [hours > 0 ? `${hours} hr` : '', rest > 0 ? `${rest} min` : ''].filter(Boolean).join(' ');
+}
+
+function describeNutrition(recipe: ExportRecipe): string[] {
+  return [
+    recipe.calories != null ? `Calories: ${recipe.calories}` : '',
+    recipe.protein != null ? `Protein: ${recipe.protein} g` : '',
+    recipe.carbs != null ? `Carbohydrates: ${recipe.carbs} g` : '',
+    recipe.fat != null ? `Fat: ${recipe.fat} g` : '',
+  ].filter(Boolean);
+}
+
+function toJsonLdRecipe(recipe: ExportRecipe) {
+  const hasNutrition = [recipe.calories, recipe.protein, recipe.carbs, recipe.fat].some(value => value != null);
+
+  return {
+    '@type': 'Recipe',
+    '@id': toExportId(recipe.id),
+    name: recipe.title,
+    ...(recipe.description ? { description: recipe.description } : {}),
+    ...(recipe.imageUrl ? { image: recipe.imageUrl } : {}),
+    ...(recipe.cuisine ? { recipeCuisine: getCuisineLabel(recipe.cuisine) } : {}),
+    ...(recipe.mealType.length > 0 ? { recipeCategory: recipe.mealType } : {}),
+    prepTime: toIsoDuration(recipe.prepTime),
+    cookTime: toIsoDuration(recipe.cookTime),
+    totalTime: toIsoDuration(recipe.prepTime + recipe.cookTime),
+    recipeYield: `${recipe.servings} servings`,
+    recipeIngredient: recipe.recipeIngredients.map(formatIngredientLine),
+    recipeInstructions: splitInstructions(recipe.instructions).map(text => ({ '@type': 'HowToStep', text })),
+    ...(hasNutrition ? {
+      nutrition: {
+        '@type': 'NutritionInformation',
+        ...(recipe.calories != null ? { calories: `${recipe.calories} calories` } : {}),
+        ...(recipe.protein != null ? { proteinContent: `${recipe.protein} g` } : {}),
+        ...(recipe.carbs != null ? { carbohydrateContent: `${recipe.carbs} g` } : {}),
+        ...(recipe.fat != null ? { fatContent: `${recipe.fat} g` } : {}),
+      },
+    } : {}),
+    ...(recipe.sourceUrl ? { isBasedOn: recipe.sourceUrl } : {}),
+    dateCreated: recipe.createdAt.toISOString(),
+    dateModified: recipe.updatedAt.toISOString(),
+  };
+}
+
+function describeSlot(slot: ExportMealPlan['mealSlots'][number]): string {
+  return `${format(slot.date, 'EEE, MMM d')} ${slot.mealType}`;
+}
+
+/**
+ * A meal plan as a schema.org ItemList of its slots; the user's own recipes are referenced by
+ * export id, others are named
+ */
+function toJsonLdMealPlan(plan: ExportMealPlan, exportedIds: Set<string>) {
+  return {
+    '@type': 'ItemList',
+    '@id': `pantrychef:meal-plan:${plan.id}`,
+    name: plan.name,
+    description: `Meal plan, ${format(plan.startDate, 'yyyy-MM-dd')} to ${format(plan.endDate, 'yyyy-MM-dd')}`,
+    itemListElement: plan.mealSlots.filter(slot => slot.recipe).map((slot, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: describeSlot(slot),
+      item: exportedIds.has(slot.recipe!.id)
+        ? { '@id': toExportId(slot.recipe!.id) }
+        : { '@type': 'Recipe', name: slot.recipe!.title },
+    })),
+  };
+}
+
+function buildJsonLd(recipes: ExportRecipe[], mealPlans: ExportMealPlan[]): string {
+  const exportedIds = new Set(recipes.map(recipe => recipe.id));
+  return JSON.stringify({
+    '@context': 'https://schema.org',
+    '@graph': [
+      ...recipes.map(toJsonLdRecipe),
+      ...mealPlans.map(plan => toJsonLdMealPlan(plan, exportedIds)),
+    ],
+  }, null, 2);
+}
+
+/**
+ * Paprika 3 archive (.paprikarecipes): a ZIP with one gzipped JSON file per recipe.
+ * Paprika files have no meal plans.
+ */
+function buildPaprikaArchive(recipes: ExportRecipe[]): Buffer {
+  const files: Record<string, Uint8Array> = {};
+
+  for (const recipe of recipes) {
+    const paprikaRecipe = {
+      uid: toExportId(recipe.id),
+      name: recipe.title,
+      description: recipe.description || '',
+      ingredients: recipe.recipeIngredients.map(formatIngredientLine).join('\n'),
+      directions: splitInstructions(recipe.instructions).join('\n\n'),
+      notes: '',
+      nutritional_info: describeNutrition(recipe).join('\n'),
+      servings: String(recipe.servings),
+      prep_time: describeMinutes(recipe.prepTime),
+      cook_time: describeMinutes(recipe.cookTime),
+      total_time: describeMinutes(recipe.prepTime + recipe.cookTime),
+      difficulty: '',
+      categories: [
+        ...(recipe.cuisine ? [getCuisineLabel(recipe.cuisine)] : []),
+        ...recipe.mealType.map(mealType => mealType.charAt(0).toUpperCase() + mealType.slice(1)),
+      ],
+      rating: 0,
+      source: recipe.sourceName || '',
+      source_url: recipe.sourceUrl || '',
+      image_url: recipe.imageUrl || '',
+      photo: null,
+      photo_data: null,
+      photo_hash: null,
+      photo_large: null,
+      photos: [],
+      created: format(recipe.createdAt, 'yyyy-MM-dd HH:mm:ss'),
+      on_favorites: false,
+      in_trash: false,
+      is_pinned: false,
+      on_grocery_list: false,
+      scale: null,
+    };
+    const json = JSON.stringify({
+      ...paprikaRecipe,
+      hash: createHash('sha256').update(JSON.stringify(paprikaRecipe)).digest('hex'),
+    });
+
+    // Titles repeat ("Pancakes" forked twice), file names can't
+    const baseName = recipe.title.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80) || 'Recipe';
+    let fileName = `${baseName}.paprikarecipe`;
+    for (let n = 2; files[fileName]; n++) {
+      fileName = `${baseName} (${n}).paprikarecipe`;
+    }
+    files[fileName] = gzipSync(strToU8(json));
+  }
+
+  // Entries are gzipped already
+  return Buffer.from(zipSync(files, { level: 0 }));
+}
+
+function markdownRecipe(recipe: ExportRecipe): string[] {
+  const facts = [
+    `**Serves:** ${recipe.servings}`,
+    recipe.prepTime > 0 ? `**Prep:** ${describeMinutes(recipe.prepTime)}` : '',
+    recipe.cookTime > 0 ? `**Cook:** ${describeMinutes(recipe.cookTime)}` : '',
+    recipe.cuisine ? `**Cuisine:** ${getCuisineLabel(recipe.cuisine)}` : '',
+  ].filter(Boolean);
+
+  const lines = [
+    `## ${recipe.title}`,
+    `<!-- ${toExportId(recipe.id)} -->`,
+    '',
+    facts.join(' · '),
+  ];
+  if (recipe.sourceUrl) {
+    lines.push('', `Source: [${recipe.sourceName || recipe.sourceUrl}](${recipe.sourceUrl})`);
+  } else if (recipe.sourceName) {
+    lines.push('', `Source: ${recipe.sourceName}`);
+  }
+  if (recipe.description) {
+    lines.push('', recipe.description);
+  }
+
+  lines.push('', '### Ingredients', '', ...recipe.recipeIngredients.map(ri => `- ${formatIngredientLine(ri)}`));
+  lines.push('', '### Instructions', '', ...splitInstructions(recipe.instructions).map((step, i) => `${i + 1}. ${step}`));
+
+  const nutrition = describeNutrition(recipe);
+  if (nutrition.length > 0) {
+    lines.push('', '### Nutrition (per serving)', '', nutrition.join(' · '));
+  }
+
+  return lines;
+}
+
+function markdownMealPlan(plan: ExportMealPlan): string[] {
+  const lines = [
+    `## ${plan.name}`,
+    '',
+    `${format(plan.startDate, 'MMM d, yyyy')} – ${format(plan.endDate, 'MMM d, yyyy')}`,
+    '',
+    '| Day | Meal | Recipe | Servings |',
+    '| --- | --- | --- | --- |',
+  ];
+  for (const slot of plan.mealSlots) {
+    if (!slot.recipe) continue;
+    const recipeTitle = slot.recipe.title.replace(/\|/g, '\\|');
+    lines.push(`| ${format(slot.date, 'EEE, MMM d')} | ${slot.mealType} | ${recipeTitle} | ${slot.servings ?? slot.recipe.servings} |`);
+  }
+  return lines;
+}
+
+/**
+ * One Markdown document: recipes separated by rules (page breaks when printed), meal plans after
+ */
+function buildMarkdown(recipes: ExportRecipe[], mealPlans: ExportMealPlan[]): string {
+  const lines = [
+    '# My Recipes',
+    '',
+    `_Exported from Pantry Chef on ${format(new Date(), 'MMMM d, yyyy')} · ${recipes.length} recipe${recipes.length === 1 ? '' : 's'}_`,
+  ];
+  for (const recipe of recipes) {
+    lines.push('', '---', '', ...markdownRecipe(recipe));
+  }
+
+  if (mealPlans.length > 0) {
+    lines.push('', '---', '', '# Meal Plans');
+    for (const plan of mealPlans) {
+      lines.push('', ...markdownMealPlan(plan));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Export the user's own recipes (including their imports and forks) in the given format.
+ * Meal plans are included in JSON-LD and Markdown when requested.
+ */
+export async function exportUserRecipes(
+  userId: string,
+  exportFormat: ExportFormat,
+  options: { includeMealPlans?: boolean } = {}
+): Promise<ExportFile> {
+  const recipes: ExportRecipe[] = await prisma.recipe.findMany({
+    where: { createdById: userId },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      instructions: true,
+      prepTime: true,
+      cookTime: true,
+      servings: true,
+      calories: true,
+      protein: true,
+      carbs: true,
+      fat: true,
+      imageUrl: true,
+      mealType: true,
+      cuisine: true,
+      sourceUrl: true,
+      sourceName: true,
+      createdAt: true,
+      updatedAt: true,
+      recipeIngredients: {
+        select: { amount: true, unit: true, notes: true, ingredient: { select: { name: true } } },
+        orderBy: { sortOrder: 'asc' }
+      }
+    },
+    orderBy: { title: 'asc' }
+  });
+
+  const mealPlans: ExportMealPlan[] = options.includeMealPlans && exportFormat !== 'paprika'
+    ? await prisma.mealPlan.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        name: true,
+        startDate: true,
+        endDate: true,
+        mealSlots: {
+          select: {
+            date: true,
+            mealType: true,
+            servings: true,
+            recipe: { select: { id: true, title: true, servings: true } }
+          },
+          orderBy: [{ date: 'asc' }, { sortOrder: 'asc' }]
+        }
+      },
+      orderBy: { startDate: 'desc' }
+    })
+    : [];
+
+  const stamp = format(new Date(), 'yyyy-MM-dd');
+  const counts = { recipeCount: recipes.length, mealPlanCount: mealPlans.length };
+
+  switch (exportFormat) {
+    case 'jsonld':
+      return { filename: `pantry-chef-recipes-${stamp}.jsonld`, contentType: 'application/ld+json', body: buildJsonLd(recipes, mealPlans), ...counts };
+    case 'paprika':
+      return { filename: `pantry-chef-recipes-${stamp}.paprikarecipes`, contentType: 'application/zip', body: buildPaprikaArchive(recipes), ...counts };
+    case 'markdown':
+      return { filename: `pantry-chef-recipes-${stamp}.md`, contentType: 'text/markdown; charset=utf-8', body: buildMarkdown(recipes, mealPlans), ...counts };
+  }
+}
@@ -0,0 +1,442 @@
+// Recipe Search Service
+// Text search over recipe titles, descriptions and ingredient names, with facet filters
+// (meal type, cuisine, total time, calories, dietary restrictions, pantry coverage) and sorting
+// by relevance, rating, popularity or newest. Filtering, sorting and paging all happen in the
+// database, so every match is ranked before a page is cut. Substring matching is backed by the
+// trigram indexes on Recipe.title, Recipe.description and Ingredient.name (see schema.prisma).
+// Semantic search ranks by embedding similarity mixed with the same keyword relevance.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { resolveCuisine } from '../config/cuisineCatalog.js';
+import { getUserActivePreferences, mapPreferencesToAgentParams } from './preferenceMapper.js';
+import { ingredientMeetsDietaryRestrictions } from './recipeSelector.js';
+import { getPantryIngredientIds } from './quickCookService.js';
+import { getEmbeddingModelId, getEmbeddingProvider, toVectorLiteral } from './embeddingProvider.js';
+
+export type RecipeSearchSort = 'relevance' | 'rating' | 'popularity' | 'newest';
+
+export interface RecipeSearchParams {
+  q?: string;
+  view: 'all' | 'personal';
+  mealTypes: string[];
+  cuisines: string[];
+  maxTotalTime?: number; // Prep + cook minutes
+  minCalories?: number; // Per serving
+  maxCalories?: number;
+  diets: string[]; // Dietary restrictions every result must meet ("vegetarian", "gluten-free")
+  matchMyDiet: boolean; // Also apply the user's own dietary preferences
+  minPantryCoverage?: number; // 0-100, share of ingredients already in the pantry
+  sort?: RecipeSearchSort; // Defaults to relevance with a query, newest without
+  page: number;
+  limit: number;
+}
+
+export interface SemanticSearchParams {
+  q: string;
+  view: 'all' | 'personal';
+  mealTypes: string[];
+  limit: number;
+}
+
+export interface RecipeSearchStats {
+  relevance: number;
+  averageRating: number | null;
+  ratingCount: number;
+  usageCount: number;
+  pantryCoverage: number; // 0-100
+}
+
+const MAX_TERMS = 8;
+
+// Relevance points per query term, by where it matched
+const TITLE_POINTS = 3;
+const INGREDIENT_POINTS = 2;
+const DESCRIPTION_POINTS = 1;
+const PHRASE_POINTS = 5; // Whole query found in the title
+
+// Semantic search: candidates taken from each side, and how the two scores mix
+const SEMANTIC_CANDIDATES = 50;
+const KEYWORD_CANDIDATES = 50;
+const SIMILARITY_WEIGHT = 0.7;
+const KEYWORD_WEIGHT = 0.3;
+const MIN_SIMILARITY = 0.25; // Below this, a recipe needs a keyword match to be returned
+
+/**
+ * Lowercase words of a query, at least two characters each ("Chicken & Rice!" → ["chicken", "rice"])
+ */
+export function tokenizeQuery(q: string | undefined): string[] {
+  if (!q) return [];
+  const words = q.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 2);
+  return [...new Set(words)].slice(0, MAX_TERMS);
+}
+
+function visibilityWhere(userId: string, view: 'all' | 'personal'): Prisma.RecipeWhereInput {
+  return view === 'personal'
+    ? { createdById: userId }
+    : { OR: [{ createdById: userId }, { isPublic: true }] };
+}
+
+/**
+ * The term appears in the title, the description or an ingredient name
+ */
+function termWhere(term: string): Prisma.RecipeWhereInput {
+  return {
+    OR: [
+      { title: { contains: term, mode: 'insensitive' } },
+      { description: { contains: term, mode: 'insensitive' } },
+      { recipeIngredients: { some: { ingredient: { name: { contains: term, mode: 'insensitive' } } } } }
+    ]
+  };
+}
+
+/**
+ * SQL for the term appearing in a recipe's ingredient names (terms are letters and digits only,
+ * so they need no LIKE escaping)
+ */
+function ingredientTermSql(term: string): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM "RecipeIngredient" ri JOIN "Ingredient" i ON i.id = ri."ingredientId"
+    WHERE ri."recipeId" = r.id AND i.name ILIKE ${`%${term}%`}
+  )`;
+}
+
+/**
+ * Ingredients a recipe may not contain under the given dietary restrictions
+ */
+async function findExcludedIngredientIds(diets: string[]): Promise<string[]> {
+  if (diets.length === 0) return [];
+  const ingredients = await prisma.ingredient.findMany({ select: { id: true, name: true } });
+  return ingredients
+    .filter(ingredient => !ingredientMeetsDietaryRestrictions(ingredient.name, diets))
+    .map(ingredient => ingredient.id);
+}
+
+/**
+ * Matching recipes as a CTE body: id, mealType, cuisine, createdAt, relevance and pantryCoverage
+ */
+function buildMatchesSql(
+  userId: string,
+  params: RecipeSearchParams,
+  terms: string[],
+  phrase: string,
+  excludedIngredientIds: string[],
+  pantryIngredientIds: string[]
+): Prisma.Sql {
+  // Every term must match
+  const conditions: Prisma.Sql[] = [
+    params.view === 'personal'
+      ? Prisma.sql`r."createdById" = ${userId}`
+      : Prisma.sql`(r."createdById" = ${userId} OR r."isPublic" = true)`,
+    ...terms.map(term => Prisma.sql`(
+      r.title ILIKE ${`%${term}%`} OR r.description ILIKE ${`%${term}%`} OR ${ingredientTermSql(term)}
+    )`)
+  ];
+
+  if (params.mealTypes.length > 0) {
+    conditions.push(Prisma.sql`r."mealType" && ${params.mealTypes}::text[]`);
+  }
+  if (params.cuisines.length > 0) {
+    conditions.push(Prisma.sql`r.cuisine = ANY(${params.cuisines.map(resolveCuisine)}::text[])`);
+  }
+  if (params.maxTotalTime !== undefined) {
+    conditions.push(Prisma.sql`r."prepTime" + r."cookTime" <= ${params.maxTotalTime}`);
+  }
+  if (params.minCalories !== undefined) {
+    conditions.push(Prisma.sql`r.calories >= ${params.minCalories}`);
+  }
+  if (params.maxCalories !== undefined) {
+    conditions.push(Prisma.sql`r.calories <= ${params.maxCalories}`);
+  }
+  if (excludedIngredientIds.length > 0) {
+    conditions.push(Prisma.sql`NOT EXISTS (
+      SELECT 1 FROM "RecipeIngredient" ri
+      WHERE ri."recipeId" = r.id AND ri."ingredientId" = ANY(${excludedIngredientIds}::text[])
+    )`);
+  }
+
+  // Same points as scoreRelevance
+  const relevance = Prisma.join([
+    phrase ? Prisma.sql`CASE WHEN strpos(lower(r.title), ${phrase}) > 0 THEN ${PHRASE_POINTS} ELSE 0 END` : Prisma.sql`0`,
+    ...terms.map(term => Prisma.sql`
+      CASE WHEN r.title ILIKE ${`%${term}%`} THEN ${TITLE_POINTS} ELSE 0 END
+      + CASE WHEN ${ingredientTermSql(term)} THEN ${INGREDIENT_POINTS} ELSE 0 END
+      + CASE WHEN r.description ILIKE ${`%${term}%`} THEN ${DESCRIPTION_POINTS} ELSE 0 END
+    `)
+  ], ' + ');
+
+  // Rounded like calculatePantryCoverage; recipes without ingredients count as 0%
+  const pantryCoverage = Prisma.sql`COALESCE((
+    SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE ri."ingredientId" = ANY(${pantryIngredientIds}::text[])) / COUNT(*))
+    FROM "RecipeIngredient" ri WHERE ri."recipeId" = r.id
+    HAVING COUNT(*) > 0
+  ), 0)::int`;
+
+  return Prisma.sql`
+    SELECT * FROM (
+      SELECT r.id, r."mealType", r.cuisine, r."createdAt",
+        (${relevance})::int AS relevance,
+        ${pantryCoverage} AS "pantryCoverage"
+      FROM "Recipe" r
+      WHERE ${Prisma.join(conditions, ' AND ')}
+    ) scored
+    WHERE scored."pantryCoverage" >= ${params.minPantryCoverage ?? 0}
+  `;
+}
+
+// ORDER BY lead-ins; ties fall through to newest first
+const SORT_ORDER: Record<RecipeSearchSort, Prisma.Sql> = {
+  relevance: Prisma.sql`m.relevance DESC,`,
+  rating: Prisma.sql`COALESCE(h."averageRating", 0) DESC, COALESCE(h."ratingCount", 0) DESC,`,
+  popularity: Prisma.sql`COALESCE(u."usageCount", 0) DESC,`,
+  newest: Prisma.empty
+};
+
+function scoreRelevance(
+  recipe: { title: string; description: string | null; recipeIngredients: Array<{ ingredient: { name: string } }> },
+  terms: string[],
+  phrase: string
+): number {
+  const title = recipe.title.toLowerCase();
+  const description = (recipe.description || '').toLowerCase();
+  const ingredients = recipe.recipeIngredients.map(ri => ri.ingredient.name.toLowerCase());
+
+  let score = phrase && title.includes(phrase) ? PHRASE_POINTS : 0;
+  for (const term of terms) {
+    if (title.includes(term)) score += TITLE_POINTS;
+    if (ingredients.some(name => name.includes(term))) score += INGREDIENT_POINTS;
+    if (description.includes(term)) score += DESCRIPTION_POINTS;
+  }
+  return score;
+}
+
+/**
+ * Search recipes visible to the user
+ */
+export async function searchRecipes(userId: string, params: RecipeSearchParams) {
+  const terms = tokenizeQuery(params.q);
+  const phrase = (params.q || '').trim().toLowerCase();
+  const sort: RecipeSearchSort = params.sort && !(params.sort === 'relevance' && terms.length === 0)
+    ? params.sort
+    : terms.length > 0 ? 'relevance' : 'newest';
+
+  const diets = [...params.diets];
+  if (params.matchMyDiet) {
+    const preferences = mapPreferencesToAgentParams(await getUserActivePreferences(userId));
+    diets.push(...preferences.dietaryRestrictions);
+  }
+  const appliedDiets = [...new Set(diets.map(diet => diet.toLowerCase().trim().replace(/\s+/g, '-')))];
+
+  const [excludedIngredientIds, pantryIngredientIds] = await Promise.all([
+    findExcludedIngredientIds(appliedDiets),
+    getPantryIngredientIds(userId)
+  ]);
+  const matches = buildMatchesSql(userId, params, terms, phrase, excludedIngredientIds, [...pantryIngredientIds]);
+
+  const [pageRows, [{ total }], facetRows] = await Promise.all([
+    prisma.$queryRaw<Array<{
+      id: string;
+      relevance: number;
+      pantryCoverage: number;
+      averageRating: number | null;
+      ratingCount: number | null;
+      usageCount: number | null;
+    }>>`
+      WITH m AS (${matches})
+      SELECT m.id, m.relevance, m."pantryCoverage", h."averageRating", h."ratingCount", u."usageCount"
+      FROM m
+      LEFT JOIN (
+        SELECT "recipeId", ROUND(AVG(rating)::numeric, 1)::float8 AS "averageRating", COUNT(*)::int AS "ratingCount"
+        FROM "RecipeHistory"
+        WHERE rating IS NOT NULL AND "recipeId" IN (SELECT id FROM m)
+        GROUP BY "recipeId"
+      ) h ON h."recipeId" = m.id
+      LEFT JOIN (
+        SELECT "recipeId", COUNT(*)::int AS "usageCount"
+        FROM "RecipeUsage"
+        WHERE "recipeId" IN (SELECT id FROM m)
+        GROUP BY "recipeId"
+      ) u ON u."recipeId" = m.id
+      ORDER BY ${SORT_ORDER[sort]} m."createdAt" DESC, m.id
+      LIMIT ${params.limit} OFFSET ${(params.page - 1) * params.limit}
+    `,
+    prisma.$queryRaw<Array<{ total: number }>>`
+      WITH m AS (${matches})
+      SELECT COUNT(*)::int AS total FROM m
+    `,
+    // Counts over all matches, for showing how many results each filter value would give
+    prisma.$queryRaw<Array<{ facet: 'mealType' | 'cuisine'; value: string; count: number }>>`
+      WITH m AS (${matches})
+      SELECT 'mealType' AS facet, meal_type AS value, COUNT(*)::int AS count
+      FROM m, unnest(m."mealType") AS meal_type
+      GROUP BY meal_type
+      UNION ALL
+      SELECT 'cuisine' AS facet, m.cuisine AS value, COUNT(*)::int AS count
+      FROM m
+      WHERE m.cuisine IS NOT NULL
+      GROUP BY m.cuisine
+    `
+  ]);
+
+  const facets: Record<'mealType' | 'cuisine', Record<string, number>> = { mealType: {}, cuisine: {} };
+  for (const row of facetRows) {
+    facets[row.facet][row.value] = row.count;
+  }
+
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: pageRows.map(row => row.id) } },
+    include: {
+      recipeIngredients: {
+        include: { ingredient: true },
+        orderBy: { sortOrder: 'asc' }
+      },
+      createdBy: {
+        select: { id: true, name: true }
+      }
+    }
+  });
+  const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+
+  return {
+    recipes: pageRows
+      .filter(row => recipesById.has(row.id))
+      .map(row => {
+        const stats: RecipeSearchStats = {
+          relevance: row.relevance,
+          averageRating: row.averageRating,
+          ratingCount: row.ratingCount ?? 0,
+          usageCount: row.usageCount ?? 0,
+          pantryCoverage: row.pantryCoverage
+        };
+        return { ...recipesById.get(row.id)!, ...stats };
+      }),
+    pagination: {
+      page: params.page,
+      limit: params.limit,
+      total,
+      totalPages: Math.ceil(total / params.limit)
+    },
+    facets,
+    sort,
+    appliedDiets
+  };
+}
+
+/**
+ * Nearest recipes to the query embedding, with cosine similarity (1 = same direction)
+ */
+async function findSimilarRecipes(
+  userId: string,
+  params: SemanticSearchParams,
+  queryVector: number[],
+  modelId: string
+): Promise<Map<string, number>> {
+  const vector = toVectorLiteral(queryVector);
+  const visibility = params.view === 'personal'
+    ? Prisma.sql`"createdById" = ${userId}`
+    : Prisma.sql`("createdById" = ${userId} OR "isPublic" = true)`;
+  const mealTypeFilter = params.mealTypes.length > 0
+    ? Prisma.sql`AND "mealType" && ${params.mealTypes}::text[]`
+    : Prisma.empty;
+
+  // Only embeddings from the query's model are comparable; others wait for the refresh job
+  const rows = await prisma.$queryRaw<Array<{ id: string; similarity: number }>>`
+    SELECT id, 1 - (embedding <=> ${vector}::vector) AS similarity
+    FROM "Recipe"
+    WHERE embedding IS NOT NULL
+      AND "embeddingModel" = ${modelId}
+      AND ${visibility}
+      ${mealTypeFilter}
+    ORDER BY embedding <=> ${vector}::vector
+    LIMIT ${SEMANTIC_CANDIDATES}
+  `;
+  return new Map(rows.map(row => [row.id, Number(row.similarity)]));
+}
+
+/**
+ * Semantic recipe search ("something cozy with lentils"): embedding similarity mixed with keyword
+ * relevance, so exact ingredient and title matches still rank well. Falls back to keywords only
+ * when the query can't be embedded.
+ */
+export async function semanticSearchRecipes(userId: string, params: SemanticSearchParams) {
+  const terms = tokenizeQuery(params.q);
+  const provider = getEmbeddingProvider();
+  const modelId = getEmbeddingModelId(provider);
+
+  let similarities: Map<string, number> | null = null;
+  try {
+    const [queryVector] = await provider.embed([params.q]);
+    similarities = await findSimilarRecipes(userId, params, queryVector, modelId);
+  } catch (error) {
+    console.error('Query embedding error, using keyword search only:', error);
+  }
+
+  // Any term may match here; the keyword score rewards matching more of them
+  const keywordMatches = terms.length > 0
+    ? await prisma.recipe.findMany({
+      where: {
+        AND: [
+          visibilityWhere(userId, params.view),
+          { OR: terms.map(termWhere) },
+          ...(params.mealTypes.length > 0 ? [{ mealType: { hasSome: params.mealTypes } }] : [])
+        ]
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'desc' },
+      take: KEYWORD_CANDIDATES
+    })
+    : [];
+
+  const ids = [...new Set([...(similarities?.keys() ?? []), ...keywordMatches.map(recipe => recipe.id)])];
+  const recipes = ids.length > 0
+    ? await prisma.recipe.findMany({
+      where: { id: { in: ids } },
+      include: {
+        recipeIngredients: {
+          include: { ingredient: true },
+          orderBy: { sortOrder: 'asc' }
+        },
+        createdBy: {
+          select: { id: true, name: true }
+        }
+      }
+    })
+    : [];
+
+  return {
+    recipes: rankHybridResults(recipes, similarities, params.q, params.limit),
+    mode: similarities ? 'hybrid' : 'keyword',
+    model: similarities ? modelId : null
+  };
+}
+
+/**
+ * Order semantic search candidates by embedding similarity mixed with keyword relevance, or by
+ * keyword relevance alone when there are no similarities (the query couldn't be embedded)
+ */
+export function rankHybridResults<T extends {
+  id: string;
+  title: string;
+  description: string | null;
+  recipeIngredients: Array<{ ingredient: { name: string } }>;
+}>(recipes: T[], similarities: Map<string, number> | null, q: string, limit: number) {
+  const terms = tokenizeQuery(q);
+  const phrase = q.trim().toLowerCase();
+  const maxRelevance = terms.length * (TITLE_POINTS + INGREDIENT_POINTS + DESCRIPTION_POINTS) + PHRASE_POINTS;
+
+  return recipes
+    .map(recipe => {
+      const similarity = similarities?.get(recipe.id) ?? 0;
+      const keywordScore = terms.length > 0 ? Math.min(1, scoreRelevance(recipe, terms, phrase) / maxRelevance) : 0;
+      const score = similarities ? SIMILARITY_WEIGHT * similarity + KEYWORD_WEIGHT * keywordScore : keywordScore;
+      return {
+        ...recipe,
+        similarity: Math.round(similarity * 1000) / 1000,
+        keywordScore: Math.round(keywordScore * 1000) / 1000,
+        score: Math.round(score * 1000) / 1000
+      };
+    })
+    .filter(result => result.keywordScore > 0 || result.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
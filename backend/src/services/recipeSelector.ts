@@ -5,6 +5,9 @@ import { Recipe, UserInventory, UserRecipeStyle } from '@prisma/client';
 import { prisma } from '../index.js';
 import { AgentParameters } from './preferenceMapper.js';
 import { analyzeRecipeStyle } from './recipeStyleLearner.js';
+import { getExpiryUrgency } from './expirationService.js';
+import { detectAllergens, resolveAllergies, type AllergyProfile } from '../config/allergenCatalog.js';
+import { findAllergenConflicts, hasAllergies } from './allergenService.js';
 
 interface SelectionCriteria {
   userId: string;
@@ -22,12 +25,17 @@ interface ScoredRecipe {
   styleMatchScore: number;
   ratingScore: number;
   inventoryScore: number;
+  expiryScore: number;
 }
 
+// Expiry score a recipe needs to be picked ahead of the random draw: one pantry item expiring
+// within two days, or several a little further out. Lower scores still count in the ranking.
+const USE_IT_UP_MIN_EXPIRY_SCORE = 14;
+
 /**
  * Get meal types for a recipe
  */
-function getMealTypes(recipe: any): string[] {
+export function getMealTypes(recipe: any): string[] {
   if (recipe.mealType && recipe.mealType.length > 0) {
     return recipe.mealType;
   }
@@ -58,7 +66,7 @@ function getMealTypes(recipe: any): string[] {
 /**
  * Normalize protein ingredient names to base protein type
  */
-function normalizeProteinName(ingredientName: string): string {
+export function normalizeProteinName(ingredientName: string): string {
   const normalized = ingredientName.toLowerCase().trim();
 
   const proteinMap: Record<string, string> = {
@@ -94,10 +102,14 @@ function normalizeProteinName(ingredientName: string): string {
   return normalized.split(/[\s,\(]/)[0];
 }
 
+const MEAT_POULTRY = ['chicken', 'beef', 'pork', 'turkey', 'lamb', 'duck', 'veal', 'goat', 'venison'];
+const SEAFOOD = ['salmon', 'cod', 'shrimp', 'tuna', 'fish', 'prawn', 'scallop', 'mussel', 'clam', 'crab', 'lobster', 'tilapia', 'halibut', 'mahi', 'snapper', 'trout', 'bass', 'catfish', 'pollock', 'sardine', 'anchov'];
+const ANIMAL_PRODUCTS = [...MEAT_POULTRY, ...SEAFOOD, 'egg', 'dairy', 'milk', 'cheese', 'butter', 'cream', 'yogurt', 'honey'];
+
 /**
  * Check if a recipe meets dietary restrictions
  */
-function matchesDietaryRestrictions(
+export function matchesDietaryRestrictions(
   recipe: any,
   dietaryRestrictions: string[]
 ): boolean {
@@ -105,36 +117,36 @@ function matchesDietaryRestrictions(
     return true;
   }
 
-  const ingredients = recipe.recipeIngredients.map((ri: any) =>
-    ri.ingredient.name.toLowerCase()
+  return recipe.recipeIngredients.every((ri: any) =>
+    ingredientMeetsDietaryRestrictions(ri.ingredient.name, dietaryRestrictions)
   );
+}
 
-  const meatPoultry = ['chicken', 'beef', 'pork', 'turkey', 'lamb', 'duck', 'veal', 'goat', 'venison'];
-  const seafood = ['salmon', 'cod', 'shrimp', 'tuna', 'fish', 'prawn', 'scallop', 'mussel', 'clam', 'crab', 'lobster', 'tilapia', 'halibut', 'mahi', 'snapper', 'trout', 'bass', 'catfish', 'pollock', 'sardine', 'anchov'];
+/**
+ * Check if a single ingredient is allowed by every dietary restriction
+ */
+export function ingredientMeetsDietaryRestrictions(name: string, dietaryRestrictions: string[]): boolean {
+  const ingredient = name.toLowerCase();
 
   for (const restriction of dietaryRestrictions) {
     const normalizedRestriction = restriction.toLowerCase();
 
     if (normalizedRestriction === 'pescatarian') {
-      const hasMeat = ingredients.some((ing: string) =>
-        meatPoultry.some(meat => ing.includes(meat))
-      );
-      if (hasMeat) {
+      if (MEAT_POULTRY.some(meat => ingredient.includes(meat))) {
         return false;
       }
     } else if (normalizedRestriction === 'vegetarian') {
-      const hasAnimalProtein = ingredients.some((ing: string) =>
-        [...meatPoultry, ...seafood].some(protein => ing.includes(protein))
-      );
-      if (hasAnimalProtein) {
+      if ([...MEAT_POULTRY, ...SEAFOOD].some(protein => ingredient.includes(protein))) {
         return false;
       }
     } else if (normalizedRestriction === 'vegan') {
-      const animalProducts = [...meatPoultry, ...seafood, 'egg', 'dairy', 'milk', 'cheese', 'butter', 'cream', 'yogurt', 'honey'];
-      const hasAnimalProduct = ingredients.some((ing: string) =>
-        animalProducts.some(product => ing.includes(product))
-      );
-      if (hasAnimalProduct) {
+      if (ANIMAL_PRODUCTS.some(product => ingredient.includes(product))) {
+        return false;
+      }
+    } else if (normalizedRestriction === 'gluten-free' || normalizedRestriction === 'dairy-free') {
+      // Same keywords as the wheat and milk allergens, so "gluten free pasta" and "oat milk" pass
+      const allergen = normalizedRestriction === 'gluten-free' ? 'wheat' : 'milk';
+      if (detectAllergens(ingredient).includes(allergen)) {
         return false;
       }
     }
@@ -143,6 +155,22 @@ function matchesDietaryRestrictions(
   return true;
 }
 
+/**
+ * Check if a recipe is free of the user's allergens (a hard filter, unlike style or inventory scoring)
+ */
+function isAllergenSafe(recipe: any, allergies: AllergyProfile): boolean {
+  if (!hasAllergies(allergies)) {
+    return true;
+  }
+
+  const conflicts = findAllergenConflicts(recipe.recipeIngredients.map((ri: any) => ri.ingredient), allergies);
+  if (conflicts.length > 0) {
+    console.log(`   🚫 Excluded "${recipe.title}" for allergies: ${[...new Set(conflicts.map(c => c.label))].join(', ')}`);
+    return false;
+  }
+  return true;
+}
+
 /**
  * Intelligently selects existing recipes that match user's preferences and style
  */
@@ -152,6 +180,7 @@ export async function selectExistingRecipes(
   const where: any = {
     createdById: criteria.userId
   };
+  const allergies = resolveAllergies(criteria.preferences.allergies ?? []);
 
   if (criteria.preferences.calorieTargetPerDay) {
     const mealCalories = criteria.preferences.calorieTargetPerDay / 3;
@@ -206,7 +235,8 @@ export async function selectExistingRecipes(
   });
 
   candidates = candidates.filter(recipe =>
-    matchesDietaryRestrictions(recipe, criteria.preferences.dietaryRestrictions)
+    matchesDietaryRestrictions(recipe, criteria.preferences.dietaryRestrictions) &&
+    isAllergenSafe(recipe, allergies)
   );
 
   if (criteria.mealType) {
@@ -251,7 +281,8 @@ export async function selectExistingRecipes(
     });
 
     candidatesWithRecent = candidatesWithRecent.filter(recipe =>
-      matchesDietaryRestrictions(recipe, criteria.preferences.dietaryRestrictions)
+      matchesDietaryRestrictions(recipe, criteria.preferences.dietaryRestrictions) &&
+      isAllergenSafe(recipe, allergies)
     );
 
     const proteinCountsWithRecent = candidatesWithRecent.reduce((acc, recipe) => {
@@ -286,7 +317,8 @@ export async function selectExistingRecipes(
       score: scores.total,
       styleMatchScore: scores.style,
       ratingScore: scores.rating,
-      inventoryScore: scores.inventory
+      inventoryScore: scores.inventory,
+      expiryScore: scores.expiry
     };
   });
 
@@ -296,6 +328,7 @@ export async function selectExistingRecipes(
 
 /**
  * Select recipes with true randomness
+ * Recipes that use up pantry items about to expire are picked first, most urgent first
  */
 async function selectDiverseRecipes(
   scoredRecipes: ScoredRecipe[],
@@ -306,8 +339,18 @@ async function selectDiverseRecipes(
     return shuffled.map(sr => sr.recipe);
   }
 
-  const shuffled = [...scoredRecipes].sort(() => Math.random() - 0.5);
-  const selected = shuffled.slice(0, count);
+  const useItUp = scoredRecipes
+    .filter(sr => sr.expiryScore >= USE_IT_UP_MIN_EXPIRY_SCORE)
+    .sort((a, b) => b.expiryScore - a.expiryScore)
+    .slice(0, count);
+  const shuffled = scoredRecipes
+    .filter(sr => !useItUp.includes(sr))
+    .sort(() => Math.random() - 0.5);
+  const selected = [...useItUp, ...shuffled].slice(0, count);
+
+  if (useItUp.length > 0) {
+    console.log(`⏰ Prioritised ${useItUp.length} recipe(s) that use soon-to-expire pantry items`);
+  }
 
   console.log(`✅ Randomly selected ${selected.length}/${scoredRecipes.length} recipes`);
   selected.forEach((sr, i) => {
@@ -323,10 +366,11 @@ async function selectDiverseRecipes(
 function scoreRecipe(
   recipe: any,
   criteria: SelectionCriteria
-): { total: number; style: number; rating: number; inventory: number } {
+): { total: number; style: number; rating: number; inventory: number; expiry: number } {
   let styleScore = 0;
   let ratingScore = 0;
   let inventoryScore = 0;
+  let expiryScore = 0;
 
   const recipeStyle = analyzeRecipeStyle(recipe);
   const topUserStyles = criteria.userStyles.slice(0, 5);
@@ -361,15 +405,25 @@ function scoreRecipe(
     if (recipe.recipeIngredients.length > 0) {
       inventoryScore = (matchingIngredients.length / recipe.recipeIngredients.length) * 25;
     }
+
+    // Weight pantry matches by how soon the item expires
+    const now = new Date();
+    const recipeIngredientIds = new Set(recipe.recipeIngredients.map((ri: any) => ri.ingredientId));
+    for (const item of criteria.inventory) {
+      if (recipeIngredientIds.has(item.ingredientId)) {
+        expiryScore += getExpiryUrgency(item.expiresAt, now) * 20;
+      }
+    }
   }
 
-  const totalScore = styleScore + ratingScore + inventoryScore;
+  const totalScore = styleScore + ratingScore + inventoryScore + expiryScore;
 
   return {
     total: totalScore,
     style: styleScore,
     rating: ratingScore,
-    inventory: inventoryScore
+    inventory: inventoryScore,
+    expiry: expiryScore
   };
 }
 
@@ -0,0 +1,552 @@
+// Recipe Version Service
+// Edits, forks and rollbacks of recipes. Every change stores a RecipeVersion snapshot with a diff
+// of what changed and who changed it; meal slots keep pointing to the version they were planned with.
+
+import { prisma } from '../index.js';
+import type { Ingredient, Prisma, Recipe, RecipeIngredient, RecipeVersion } from '@prisma/client';
+import { recalculateRecipeNutrition } from './nutritionService.js';
+import { scheduleEmbeddingRefresh } from './recipeEmbeddingService.js';
+
+export interface SnapshotIngredient {
+  ingredientId: string;
+  name: string;
+  amount: number;
+  unit: string;
+  notes: string | null;
+  sortOrder: number;
+}
+
+export interface RecipeSnapshot {
+  title: string;
+  description: string | null;
+  instructions: string[];
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  mealType: string[];
+  imageUrl: string | null;
+  ingredients: SnapshotIngredient[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface IngredientChange {
+  name: string;
+  from: { amount: number; unit: string; notes: string | null };
+  to: { amount: number; unit: string; notes: string | null };
+}
+
+export interface RecipeChanges {
+  fields: FieldChange[];
+  ingredients: {
+    added: SnapshotIngredient[];
+    removed: SnapshotIngredient[];
+    changed: IngredientChange[];
+  };
+  instructions: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+export interface RecipeEditInput {
+  title?: string;
+  description?: string | null;
+  instructions?: string[];
+  prepTime?: number;
+  cookTime?: number;
+  servings?: number;
+  mealType?: string[];
+  imageUrl?: string | null;
+  ingredients?: Array<{ ingredientId: string; amount: number; unit: string; notes?: string | null }>;
+}
+
+type TxClient = Prisma.TransactionClient;
+
+type RecipeWithIngredients = Recipe & { recipeIngredients: (RecipeIngredient & { ingredient: Ingredient })[] };
+
+const SNAPSHOT_FIELDS = ['title', 'description', 'prepTime', 'cookTime', 'servings', 'mealType', 'imageUrl'] as const;
+
+function toInstructionList(instructions: unknown): string[] {
+  if (Array.isArray(instructions)) {
+    return instructions.map(step => (typeof step === 'string' ? step : String((step as { text?: string })?.text ?? '')));
+  }
+  return typeof instructions === 'string' ? [instructions] : [];
+}
+
+/**
+ * The editable state of a recipe
+ */
+export function snapshotRecipe(recipe: RecipeWithIngredients): RecipeSnapshot {
+  return {
+    title: recipe.title,
+    description: recipe.description,
+    instructions: toInstructionList(recipe.instructions),
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    servings: recipe.servings,
+    mealType: recipe.mealType,
+    imageUrl: recipe.imageUrl,
+    ingredients: [...recipe.recipeIngredients]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map(ri => ({
+        ingredientId: ri.ingredientId,
+        name: ri.ingredient.name,
+        amount: ri.amount,
+        unit: ri.unit,
+        notes: ri.notes,
+        sortOrder: ri.sortOrder
+      }))
+  };
+}
+
+export function versionToSnapshot(version: RecipeVersion): RecipeSnapshot {
+  return {
+    title: version.title,
+    description: version.description,
+    instructions: toInstructionList(version.instructions),
+    prepTime: version.prepTime,
+    cookTime: version.cookTime,
+    servings: version.servings,
+    mealType: version.mealType,
+    imageUrl: version.imageUrl,
+    ingredients: version.ingredients as unknown as SnapshotIngredient[]
+  };
+}
+
+/**
+ * Steps only in `from` (removed) and only in `to` (added), matched by longest common subsequence
+ */
+function diffSteps(from: string[], to: string[]): { added: string[]; removed: string[] } {
+  const lengths = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] = from[i] === to[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      removed.push(from[i++]);
+    } else {
+      added.push(to[j++]);
+    }
+  }
+  removed.push(...from.slice(i));
+  added.push(...to.slice(j));
+
+  return { added, removed };
+}
+
+/**
+ * What changed between two recipe states
+ */
+export function diffSnapshots(from: RecipeSnapshot, to: RecipeSnapshot): RecipeChanges {
+  const fields = SNAPSHOT_FIELDS
+    .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map(field => ({ field, from: from[field], to: to[field] }));
+
+  const before = new Map(from.ingredients.map(ingredient => [ingredient.ingredientId, ingredient]));
+  const after = new Map(to.ingredients.map(ingredient => [ingredient.ingredientId, ingredient]));
+
+  const changed: IngredientChange[] = [];
+  for (const [ingredientId, next] of after) {
+    const previous = before.get(ingredientId);
+    if (previous && (previous.amount !== next.amount || previous.unit !== next.unit || (previous.notes ?? null) !== (next.notes ?? null))) {
+      changed.push({
+        name: next.name,
+        from: { amount: previous.amount, unit: previous.unit, notes: previous.notes ?? null },
+        to: { amount: next.amount, unit: next.unit, notes: next.notes ?? null }
+      });
+    }
+  }
+
+  return {
+    fields,
+    ingredients: {
+      added: to.ingredients.filter(ingredient => !before.has(ingredient.ingredientId)),
+      removed: from.ingredients.filter(ingredient => !after.has(ingredient.ingredientId)),
+      changed
+    },
+    instructions: diffSteps(from.instructions, to.instructions)
+  };
+}
+
+export function hasChanges(changes: RecipeChanges): boolean {
+  return changes.fields.length > 0
+    || changes.ingredients.added.length > 0
+    || changes.ingredients.removed.length > 0
+    || changes.ingredients.changed.length > 0
+    || changes.instructions.added.length > 0
+    || changes.instructions.removed.length > 0;
+}
+
+/**
+ * One-line description, e.g. "Changed title, servings; added 2 ingredients; edited steps"
+ */
+export function summarizeChanges(changes: RecipeChanges): string {
+  const parts: string[] = [];
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+
+  if (changes.fields.length > 0) parts.push(`changed ${changes.fields.map(change => change.field).join(', ')}`);
+  if (changes.ingredients.added.length > 0) parts.push(`added ${count(changes.ingredients.added.length, 'ingredient')}`);
+  if (changes.ingredients.removed.length > 0) parts.push(`removed ${count(changes.ingredients.removed.length, 'ingredient')}`);
+  if (changes.ingredients.changed.length > 0) parts.push(`adjusted ${count(changes.ingredients.changed.length, 'ingredient')}`);
+  if (changes.instructions.added.length > 0 || changes.instructions.removed.length > 0) parts.push('edited steps');
+
+  const summary = parts.join('; ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+function snapshotData(snapshot: RecipeSnapshot) {
+  return {
+    title: snapshot.title,
+    description: snapshot.description,
+    instructions: snapshot.instructions,
+    prepTime: snapshot.prepTime,
+    cookTime: snapshot.cookTime,
+    servings: snapshot.servings,
+    mealType: snapshot.mealType,
+    imageUrl: snapshot.imageUrl,
+    ingredients: snapshot.ingredients as unknown as Prisma.InputJsonValue
+  };
+}
+
+async function loadRecipe(recipeId: string, db: TxClient = prisma): Promise<RecipeWithIngredients | null> {
+  return db.recipe.findUnique({
+    where: { id: recipeId },
+    include: { recipeIngredients: { include: { ingredient: true } } }
+  });
+}
+
+/**
+ * Record the recipe's current state as its first version, if it has none yet.
+ * Slots planned before then (no recipeVersionId) are pointed at it.
+ */
+async function ensureInitialVersion(tx: TxClient, recipe: RecipeWithIngredients): Promise<void> {
+  const existing = await tx.recipeVersion.count({ where: { recipeId: recipe.id } });
+  if (existing > 0) return;
+
+  const version = await tx.recipeVersion.create({
+    data: {
+      recipeId: recipe.id,
+      version: recipe.currentVersion,
+      ...snapshotData(snapshotRecipe(recipe)),
+      changeSummary: 'Original',
+      changedById: recipe.createdById
+    }
+  });
+
+  await tx.mealSlot.updateMany({
+    where: { recipeId: recipe.id, recipeVersionId: null },
+    data: { recipeVersionId: version.id }
+  });
+}
+
+/**
+ * Apply an edit and record it as a new version.
+ * Returns null when nothing changed (no version is added). The recipe row is locked while
+ * the edit is diffed and saved, so concurrent edits get consecutive version numbers.
+ */
+export async function updateRecipeWithVersion(
+  recipeId: string,
+  userId: string,
+  input: RecipeEditInput,
+  changeSummary?: string
+): Promise<RecipeVersion | null> {
+  const result = await prisma.$transaction(async (tx: TxClient) => {
+    await tx.$queryRaw`SELECT id FROM "Recipe" WHERE id = ${recipeId} FOR UPDATE`;
+    const recipe = await loadRecipe(recipeId, tx);
+    if (!recipe) {
+      throw new Error('Recipe not found');
+    }
+
+    const before = snapshotRecipe(recipe);
+
+    // Names of newly added ingredients, for the snapshot
+    const ingredientNames = new Map(recipe.recipeIngredients.map(ri => [ri.ingredientId, ri.ingredient.name]));
+    if (input.ingredients) {
+      const missing = input.ingredients.map(ingredient => ingredient.ingredientId).filter(id => !ingredientNames.has(id));
+      if (missing.length > 0) {
+        const found = await tx.ingredient.findMany({ where: { id: { in: missing } }, select: { id: true, name: true } });
+        found.forEach(ingredient => ingredientNames.set(ingredient.id, ingredient.name));
+      }
+    }
+
+    const after: RecipeSnapshot = {
+      title: input.title ?? before.title,
+      description: input.description !== undefined ? input.description : before.description,
+      instructions: input.instructions ?? before.instructions,
+      prepTime: input.prepTime ?? before.prepTime,
+      cookTime: input.cookTime ?? before.cookTime,
+      servings: input.servings ?? before.servings,
+      mealType: input.mealType ?? before.mealType,
+      imageUrl: input.imageUrl !== undefined ? input.imageUrl : before.imageUrl,
+      ingredients: input.ingredients
+        ? input.ingredients
+          .filter((ingredient, index, all) =>
+            ingredientNames.has(ingredient.ingredientId) && all.findIndex(other => other.ingredientId === ingredient.ingredientId) === index
+          )
+          .map((ingredient, index) => ({
+            ingredientId: ingredient.ingredientId,
+            name: ingredientNames.get(ingredient.ingredientId)!,
+            amount: ingredient.amount,
+            unit: ingredient.unit,
+            notes: ingredient.notes ?? null,
+            sortOrder: index
+          }))
+        : before.ingredients
+    };
+
+    const changes = diffSnapshots(before, after);
+    if (!hasChanges(changes)) {
+      return null;
+    }
+    const servingsChanged = changes.fields.some(change => change.field === 'servings');
+
+    await ensureInitialVersion(tx, recipe);
+    const nextVersion = recipe.currentVersion + 1;
+    const ingredientsChanged = Boolean(input.ingredients) && (
+      changes.ingredients.added.length > 0 || changes.ingredients.removed.length > 0 || changes.ingredients.changed.length > 0
+    );
+
+    await tx.recipe.update({
+      where: { id: recipeId },
+      data: {
+        title: after.title,
+        description: after.description,
+        instructions: after.instructions,
+        prepTime: after.prepTime,
+        cookTime: after.cookTime,
+        servings: after.servings,
+        mealType: after.mealType,
+        imageUrl: after.imageUrl,
+        currentVersion: nextVersion,
+        ...(ingredientsChanged && {
+          recipeIngredients: {
+            deleteMany: {},
+            create: after.ingredients.map(ingredient => ({
+              ingredientId: ingredient.ingredientId,
+              amount: ingredient.amount,
+              unit: ingredient.unit,
+              notes: ingredient.notes,
+              sortOrder: ingredient.sortOrder
+            }))
+          },
+          nutritionComputedAt: null
+        })
+      }
+    });
+    const version = await tx.recipeVersion.create({
+      data: {
+        recipeId,
+        version: nextVersion,
+        ...snapshotData(after),
+        changes: changes as unknown as Prisma.InputJsonValue,
+        changeSummary: changeSummary ?? summarizeChanges(changes),
+        changedById: userId
+      }
+    });
+
+    return { version, ingredientsChanged, servingsChanged };
+  }, { timeout: 30000 });
+  if (!result) {
+    return null;
+  }
+  const { version, ingredientsChanged, servingsChanged } = result;
+
+  if (ingredientsChanged || servingsChanged) {
+    await recalculateRecipeNutrition(recipeId).catch(error => {
+      console.error('Failed to compute recipe nutrition:', error);
+    });
+  }
+
+  scheduleEmbeddingRefresh();
+
+  console.log(`📝 Recipe ${recipeId} updated to version ${version.version}: ${version.changeSummary}`);
+  return version;
+}
+
+/**
+ * Restore a previous version. The restore is itself a new version, so it can be undone.
+ * Ingredients that have since been deleted are left out.
+ */
+export async function rollbackRecipe(recipeId: string, version: number, userId: string): Promise<RecipeVersion | null> {
+  const target = await prisma.recipeVersion.findUnique({
+    where: { recipeId_version: { recipeId, version } }
+  });
+  if (!target) {
+    throw new Error(`Version ${version} not found`);
+  }
+
+  const snapshot = versionToSnapshot(target);
+  return updateRecipeWithVersion(recipeId, userId, {
+    ...snapshot,
+    ingredients: snapshot.ingredients.map(ingredient => ({
+      ingredientId: ingredient.ingredientId,
+      amount: ingredient.amount,
+      unit: ingredient.unit,
+      notes: ingredient.notes
+    }))
+  }, `Rolled back to version ${version}`);
+}
+
+/**
+ * Copy a recipe into the user's personal recipes.
+ * The fork remembers the recipe it came from and that recipe's original author.
+ */
+export async function forkRecipe(recipeId: string, userId: string): Promise<Recipe> {
+  const source = await loadRecipe(recipeId);
+  if (!source) {
+    throw new Error('Recipe not found');
+  }
+
+  const snapshot = snapshotRecipe(source);
+  const fork = await prisma.recipe.create({
+    data: {
+      title: source.title,
+      description: source.description,
+      instructions: snapshot.instructions,
+      prepTime: source.prepTime,
+      cookTime: source.cookTime,
+      servings: source.servings,
+      calories: source.calories,
+      protein: source.protein,
+      carbs: source.carbs,
+      fat: source.fat,
+      nutritionSource: source.nutritionSource,
+      reportedNutrition: source.reportedNutrition ?? undefined,
+      nutritionCoverage: source.nutritionCoverage,
+      nutritionMismatch: source.nutritionMismatch,
+      nutritionComputedAt: source.nutritionComputedAt,
+      imageUrl: source.imageUrl,
+      mealType: source.mealType,
+      cuisine: source.cuisine,
+      isImported: source.isImported,
+      sourceUrl: source.sourceUrl,
+      sourceWebsite: source.sourceWebsite,
+      importedAt: source.importedAt,
+      canBePublic: source.canBePublic,
+      createdById: userId,
+      isPublic: false,
+      forkedFromId: source.id,
+      originalCreatedById: source.forkedFromId ? source.originalCreatedById : source.createdById,
+      recipeIngredients: {
+        create: snapshot.ingredients.map(ingredient => ({
+          ingredientId: ingredient.ingredientId,
+          amount: ingredient.amount,
+          unit: ingredient.unit,
+          notes: ingredient.notes,
+          sortOrder: ingredient.sortOrder
+        }))
+      },
+      versions: {
+        create: {
+          version: 1,
+          ...snapshotData(snapshot),
+          changeSummary: `Forked from "${source.title}" (version ${source.currentVersion})`,
+          changedById: userId
+        }
+      }
+    }
+  });
+
+  // The fork embeds the same text, so it reuses the source's embedding. Left older than the fork,
+  // so the refresh job confirms the text still matches instead of calling the provider again.
+  await prisma.$executeRaw`
+    UPDATE "Recipe" AS fork
+    SET embedding = source.embedding,
+      "embeddingModel" = source."embeddingModel",
+      "embeddingTextHash" = source."embeddingTextHash",
+      "embeddingUpdatedAt" = source."embeddingUpdatedAt"
+    FROM "Recipe" AS source
+    WHERE fork.id = ${fork.id} AND source.id = ${source.id}
+  `;
+  scheduleEmbeddingRefresh();
+
+  console.log(`🍴 Recipe ${source.id} forked as ${fork.id}`);
+  return fork;
+}
+
+/**
+ * Current version row ids for recipes that have one, for linking newly planned slots
+ */
+export async function getCurrentVersionIds(recipeIds: string[]): Promise<Map<string, string>> {
+  if (recipeIds.length === 0) {
+    return new Map();
+  }
+
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: recipeIds } },
+    select: { id: true, currentVersion: true }
+  });
+  const versions = await prisma.recipeVersion.findMany({
+    where: { OR: recipes.map(recipe => ({ recipeId: recipe.id, version: recipe.currentVersion })) },
+    select: { id: true, recipeId: true }
+  });
+
+  return new Map(versions.map(version => [version.recipeId, version.id]));
+}
+
+type PlannedSlot = {
+  recipe: RecipeWithIngredients | null;
+  recipeVersion?: RecipeVersion | null;
+};
+
+/**
+ * Swap in the recipe as it was when each slot was planned, for slots whose
+ * recipe has been edited since (shopping, pantry deduction and display use the planned version)
+ */
+export async function applyPlannedVersions<T extends PlannedSlot>(slots: T[]): Promise<T[]> {
+  const outdated = slots.filter(slot => slot.recipe && slot.recipeVersion && slot.recipeVersion.version !== slot.recipe.currentVersion);
+  if (outdated.length === 0) {
+    return slots;
+  }
+
+  const ingredientIds = [...new Set(outdated.flatMap(slot => versionToSnapshot(slot.recipeVersion!).ingredients.map(i => i.ingredientId)))];
+  const ingredients = new Map(
+    (await prisma.ingredient.findMany({ where: { id: { in: ingredientIds } } })).map(ingredient => [ingredient.id, ingredient])
+  );
+
+  return slots.map(slot => {
+    if (!outdated.includes(slot)) return slot;
+
+    const version = slot.recipeVersion!;
+    const snapshot = versionToSnapshot(version);
+    const recipe: RecipeWithIngredients = {
+      ...slot.recipe!,
+      title: snapshot.title,
+      description: snapshot.description,
+      instructions: snapshot.instructions,
+      prepTime: snapshot.prepTime,
+      cookTime: snapshot.cookTime,
+      servings: snapshot.servings,
+      mealType: snapshot.mealType,
+      imageUrl: snapshot.imageUrl,
+      recipeIngredients: snapshot.ingredients
+        .filter(ingredient => ingredients.has(ingredient.ingredientId))
+        .map(ingredient => ({
+          id: `${version.id}:${ingredient.ingredientId}`,
+          recipeId: slot.recipe!.id,
+          ingredientId: ingredient.ingredientId,
+          amount: ingredient.amount,
+          unit: ingredient.unit,
+          notes: ingredient.notes,
+          sortOrder: ingredient.sortOrder,
+          ingredient: ingredients.get(ingredient.ingredientId)!
+        }))
+    };
+    return { ...slot, recipe };
+  });
+}
@@ -3,16 +3,31 @@
 // Handles ingredient merging, unit conversions, and price estimation
 
 import { prisma } from '../index.js';
+import { isLeftoverSlot } from './leftoverService.js';
+import { scopeWhere, type OwnerScope } from './householdService.js';
+import { loadConversionTable, convertQuantity } from './unitConversionService.js';
+import { parseQuantity, readQuantity, toQuantityColumns, type Quantity } from '../utils/quantity.js';
 import { detectSimilarIngredients, applyMergeDecisionsByIds, type CartItem, type PotentialMerge } from './ingredientSimilarity.js';
+import { getSlotScale } from '../utils/recipeScaling.js';
+import { applyPlannedVersions } from './recipeVersionService.js';
+import { allocatePantry, coverFromPantry, type ExpiredPantryItem, type PantryCoverage, type PantryNeed } from './pantryAllocationService.js';
+import { recordRecipeContributions } from './cartUpdateService.js';
+import { carriedItemData, getDueStaples, isRecipeItem, toSourceCartItem, type ItemWithIngredient, type StapleWithDue } from './cartItemService.js';
 
 export interface ConsolidatedItem {
   ingredientId: string;
   ingredient: any;
   totalAmount: string;
   unit: string;
+  quantity: Quantity | null;
   walmartItemId?: string;
   estimatedPrice?: number;
   recipeBreakdown?: RecipeBreakdownItem[];
+  // Set when the list was checked against the pantry; totalAmount is then toBuyAmount
+  neededAmount?: number;
+  onHandAmount?: number;
+  toBuyAmount?: number;
+  source?: 'recipe' | 'manual' | 'staple';
 }
 
 export interface RecipeBreakdownItem {
@@ -29,9 +44,12 @@ export interface PreviousMergeDecision {
 
 export interface ShoppingListResult {
   shoppingListId: string;
-  items: ConsolidatedItem[];
+  items: ConsolidatedItem[]; // Items to buy
+  pantryCovered: ConsolidatedItem[]; // Fully covered by the pantry (kept on the list, toBuyAmount 0)
   totalEstimatedCost: number;
   potentialMerges: PotentialMerge[];
+  suggestedStaples: StapleWithDue[]; // Due staples not on the list; the client offers to add them
+  expiredInventory: ExpiredPantryItem[]; // Pantry items not counted against the list because they've expired
 }
 
 /**
@@ -87,6 +105,25 @@ function findMatchingDecision(
   return previousDecisions.get(key) || null;
 }
 
+/**
+ * A manual or staple item as a consolidated item, so it goes through enrichment and
+ * checkout like the recipe ingredients
+ */
+function toConsolidatedSourceItem(item: ItemWithIngredient): ConsolidatedItem {
+  const cartItem = toSourceCartItem(item);
+  return {
+    ingredientId: cartItem.ingredientId,
+    ingredient: { name: cartItem.ingredientName },
+    totalAmount: item.totalAmount,
+    unit: cartItem.unit,
+    quantity: readQuantity(item),
+    walmartItemId: cartItem.walmartItemId || undefined,
+    estimatedPrice: item.estimatedPrice ?? 0,
+    recipeBreakdown: cartItem.recipeBreakdown,
+    source: cartItem.source
+  };
+}
+
 /**
  * Generate consolidated shopping list from a meal plan
  *
@@ -94,17 +131,18 @@ function findMatchingDecision(
  * 1. Aggregate all ingredients from meal plan recipes
  * 2. Detect similar ingredients that could be merged
  * 3. Apply previous user merge decisions automatically
- * 4. Optionally exclude items already in user's pantry
+ * 4. Optionally subtract what the pantry covers, after unit conversion; pantry that other
+ *    meal plans' slots earlier in the week will use isn't counted (see pantryAllocationService)
  * 5. Return shopping list with merge suggestions for new combinations
  *
  * @param mealPlanId - ID of the meal plan to generate shopping list for
- * @param excludePantry - Whether to exclude items already in pantry (default: false)
+ * @param excludePantry - Whether to buy only the shortfall after the pantry (default: false)
  * @param clearCart - Whether to clear existing cart or merge with it (default: true)
  * @returns Shopping list with consolidated items and merge suggestions
  */
 export async function generateShoppingList(mealPlanId: string, excludePantry: boolean = false, clearCart: boolean = true): Promise<ShoppingListResult> {
   // Get all recipes from meal plan
-  const mealPlan = await prisma.mealPlan.findUnique({
+  const plan = await prisma.mealPlan.findUnique({
     where: { id: mealPlanId },
     include: {
       mealSlots: {
@@ -115,27 +153,46 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
                 include: { ingredient: true }
               }
             }
-          }
+          },
+          recipeVersion: true
         }
       }
     }
   });
 
-  if (!mealPlan) {
+  if (!plan) {
     throw new Error('Meal plan not found');
   }
 
+  // Buy for the recipe as it was planned, even if it has been edited since
+  const mealPlan = { ...plan, mealSlots: await applyPlannedVersions(plan.mealSlots) };
+
   // Get user's previous merge decisions to auto-apply them
   const userId = mealPlan.userId;
   const previousDecisions = await getPreviousMergeDecisions(userId);
 
+  // Household meal plans share the household's cart and pantry
+  const scope: OwnerScope = { userId, householdId: mealPlan.householdId };
+
   // Build ingredient list for similarity detection
+  // Keyed by ingredient ID, or ingredient ID + unit when the units cannot be converted
   const ingredientMap = new Map<string, CartItem>();
+  const approximateItems = new Set<CartItem>(); // Totals that went through an approximate conversion
+
+  // For pantry subtraction: each slot's needs by date, the old cart's amounts (already worked out
+  // against the pantry) and the pantry the old cart counted on
+  const pantryNeeds: PantryNeed[] = [];
+  const carried = new Map<CartItem, PantryCoverage>();
+  const reserved: PantryNeed[] = [];
+  let sourceItems: ItemWithIngredient[] = []; // Manual and staple items, carried over as they are
+
+  const ingredientIds = mealPlan.mealSlots.flatMap(slot => slot.recipe?.recipeIngredients.map(ri => ri.ingredientId) ?? []);
+  const conversions = await loadConversionTable([...new Set(ingredientIds)]);
 
   // If not clearing cart, load existing active cart items and merge them
   if (!clearCart) {
     const existingCart = await prisma.shoppingList.findFirst({
-      where: { userId, isActive: true },
+      where: { ...scopeWhere(scope), isActive: true },
       include: {
         items: {
           include: {
@@ -147,13 +204,17 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
 
     if (existingCart && existingCart.items.length > 0) {
       console.log(`Merging with existing cart (${existingCart.items.length} items)`);
+      sourceItems = existingCart.items.filter(item => !isRecipeItem(item));
       for (const item of existingCart.items) {
-        const amount = parseFloat(item.totalAmount);
-        ingredientMap.set(item.ingredient.id, {
+        if (!isRecipeItem(item)) continue;
+        const quantity = readQuantity(item);
+        const amount = quantity?.value ?? parseFloat(item.totalAmount);
+        const key = ingredientMap.has(item.ingredient.id) ? `${item.ingredient.id}_${item.unit}` : item.ingredient.id;
+        const cartItem: CartItem = {
           ingredientId: item.ingredient.id,
           ingredientName: item.ingredient.name,
           amount,
-          unit: item.unit,
+          unit: quantity?.unit ?? item.unit,
           walmartItemId: item.ingredient.walmartItemId,
           walmartSearchTerm: item.ingredient.walmartSearchTerm,
           recipes: ['Existing cart'],
@@ -163,29 +224,50 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
             amount,
             unit: item.unit,
           }],
-        });
+        };
+        ingredientMap.set(key, cartItem);
+        if (quantity?.approximate) approximateItems.add(cartItem);
+
+        carried.set(cartItem, { neededAmount: amount, onHandAmount: 0, toBuyAmount: amount });
+        if (item.usePantry && item.onHandAmount) {
+          reserved.push({
+            ingredientId: item.ingredient.id,
+            quantity: { value: item.onHandAmount, unit: quantity?.unit ?? item.unit, approximate: false },
+            date: mealPlan.startDate
+          });
+        }
       }
     }
   }
 
   for (const slot of mealPlan.mealSlots) {
-    if (!slot.recipe) continue;
+    // Leftover slots eat food cooked in another slot, so only cooking slots are bought for
+    if (!slot.recipe || isLeftoverSlot(slot)) continue;
+
+    // Slots with a servings override buy for the scaled recipe
+    const scale = getSlotScale(slot);
 
     for (const ri of slot.recipe.recipeIngredients) {
-      const key = ri.ingredientId;
+      const amount = ri.amount * scale;
+      const quantity = parseQuantity(amount, ri.unit) ?? { value: amount, unit: ri.unit, approximate: false };
+      pantryNeeds.push({ ingredientId: ri.ingredientId, quantity, date: slot.date });
+
+      // Find an entry for this ingredient whose unit the new amount converts to
+      let key: string | undefined;
+      let converted: Quantity | null = null;
+      for (const [candidateKey, candidate] of ingredientMap) {
+        if (candidate.ingredientId !== ri.ingredientId) continue;
+        converted = convertQuantity(conversions, quantity, candidate.unit, ri.ingredientId);
+        if (converted) {
+          key = candidateKey;
+          break;
+        }
+      }
 
-      if (ingredientMap.has(key)) {
-        // Same ingredient ID, same unit - combine amounts
+      if (key && converted) {
         const existing = ingredientMap.get(key)!;
-
-        if (existing.unit === ri.unit) {
-          // Same unit - simple addition
-          existing.amount += ri.amount;
-        } else {
-          // Different units - keep separate for now, let merge detection handle conversion
-          existing.amount += ri.amount;
-          // Keep existing unit - merge detection will handle unit conversion
-        }
+        existing.amount += converted.value;
+        if (converted.approximate) approximateItems.add(existing);
 
         existing.recipes.push(slot.recipe.title);
 
@@ -196,53 +278,53 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
         existing.recipeBreakdown.push({
           recipeId: slot.recipeId!,
           recipeTitle: slot.recipe.title,
-          amount: ri.amount,
+          amount,
           unit: ri.unit,
         });
       } else {
-        // First occurrence - create new cart item
-        ingredientMap.set(key, {
+        // First occurrence (or a unit that can't be converted) - create new cart item
+        const newKey = ingredientMap.has(ri.ingredientId) ? `${ri.ingredientId}_${quantity.unit}` : ri.ingredientId;
+        const cartItem: CartItem = {
           ingredientId: ri.ingredientId,
           ingredientName: ri.ingredient.name,
-          amount: ri.amount,
-          unit: ri.unit,
+          amount: quantity.value,
+          unit: quantity.unit,
           walmartItemId: ri.ingredient.walmartItemId,
           walmartSearchTerm: ri.ingredient.walmartSearchTerm,
           recipes: [slot.recipe.title],
           recipeBreakdown: [{
             recipeId: slot.recipeId!,
             recipeTitle: slot.recipe.title,
-            amount: ri.amount,
+            amount,
             unit: ri.unit,
           }],
-        });
+        };
+        ingredientMap.set(newKey, cartItem);
+        if (quantity.approximate) approximateItems.add(cartItem);
       }
     }
   }
 
-  let ingredients = Array.from(ingredientMap.values());
+  const ingredients = Array.from(ingredientMap.values());
 
-  // Exclude pantry items if requested
+  // Buy only the shortfall: needed minus what the pantry has left after earlier meals in the week
+  const coverage = new Map<CartItem, PantryCoverage>();
+  let expiredInventory: ExpiredPantryItem[] = [];
   if (excludePantry) {
-    const pantryItems = await prisma.userInventory.findMany({
-      where: {
-        userId,
-        isAvailable: true
-      },
-      include: {
-        ingredient: true
-      }
+    const allocation = await allocatePantry(scope, pantryNeeds, {
+      from: mealPlan.startDate,
+      to: mealPlan.endDate,
+      excludeMealPlanId: mealPlanId,
+      reserved
     });
+    for (const item of ingredients) {
+      coverage.set(item, coverFromPantry(allocation, item.ingredientId, item.amount, item.unit, carried.get(item)));
+    }
+    expiredInventory = allocation.expired;
 
-    console.log(`Filtering out ${pantryItems.length} pantry items from shopping list...`);
-
-    // Create a set of pantry ingredient IDs for fast lookup
-    const pantryIngredientIds = new Set(pantryItems.map(item => item.ingredientId));
-
-    // Filter out ingredients that are in the pantry
-    ingredients = ingredients.filter(item => !pantryIngredientIds.has(item.ingredientId));
-
-    console.log(`Shopping list reduced from ${ingredientMap.size} to ${ingredients.length} items after pantry exclusion`);
+    const covered = [...coverage.values()].filter(c => c.toBuyAmount === 0).length;
+    const partial = [...coverage.values()].filter(c => c.onHandAmount > 0 && c.toBuyAmount > 0).length;
+    console.log(`Pantry covers ${covered} of ${ingredients.length} items fully and ${partial} partly`);
   }
 
   console.log(`Detecting similar ingredients in shopping list (${ingredients.length} total)...`);
@@ -263,15 +345,25 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
   const finalIngredients = ingredients;
 
   // Convert to consolidated items format
-  const consolidatedItems: ConsolidatedItem[] = finalIngredients.map(item => ({
-    ingredientId: item.ingredientId,
-    ingredient: { name: item.ingredientName },
-    totalAmount: item.amount.toString(),
-    unit: item.unit,
-    walmartItemId: item.walmartItemId || undefined,
-    estimatedPrice: 0, // TODO: Fetch from Walmart API
-    recipeBreakdown: item.recipeBreakdown
-  }));
+  const consolidatedItems: ConsolidatedItem[] = finalIngredients.map(item => {
+    const pantry = coverage.get(item);
+    const amount = pantry ? pantry.toBuyAmount : item.amount;
+    return {
+      ingredientId: item.ingredientId,
+      ingredient: { name: item.ingredientName },
+      totalAmount: amount.toString(),
+      unit: item.unit,
+      quantity: {
+        value: amount,
+        unit: item.unit,
+        approximate: approximateItems.has(item)
+      },
+      walmartItemId: item.walmartItemId || undefined,
+      estimatedPrice: 0, // TODO: Fetch from Walmart API
+      recipeBreakdown: item.recipeBreakdown,
+      ...pantry
+    };
+  });
 
   // Calculate total estimated cost
   const totalCost = consolidatedItems.reduce(
@@ -279,9 +371,9 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
     0
   );
 
-  // Deactivate any existing active cart for this user
+  // Deactivate any existing active cart for this user (or household)
   await prisma.shoppingList.updateMany({
-    where: { userId, isActive: true },
+    where: { ...scopeWhere(scope), isActive: true },
     data: { isActive: false },
   });
 
@@ -289,18 +381,23 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
   const shoppingList = await prisma.shoppingList.create({
     data: {
       userId,
+      householdId: scope.householdId,
       mealPlanId,
       source: 'meal_plan',
       isActive: true,
       totalEstimatedCost: totalCost,
       items: {
-        create: consolidatedItems.map(item => ({
+        create: [...consolidatedItems.map(item => ({
           ingredientId: item.ingredientId,
           totalAmount: item.totalAmount,
           unit: item.unit,
+          ...toQuantityColumns(item.quantity),
+          neededAmount: item.neededAmount ?? null,
+          onHandAmount: item.onHandAmount ?? null,
+          toBuyAmount: item.toBuyAmount ?? null,
           walmartItemId: item.walmartItemId,
           estimatedPrice: item.estimatedPrice
-        }))
+        })), ...sourceItems.map(carriedItemData)]
       },
       // Save merge options with previous decisions pre-filled
       // User can still override these in the UI if they want
@@ -320,13 +417,25 @@ export async function generateShoppingList(mealPlanId: string, excludePantry: bo
     }
   });
 
+  // Each cooking slot makes its recipe once more
+  const slotRecipes = mealPlan.mealSlots
+    .filter(slot => slot.recipeId && slot.recipe && !isLeftoverSlot(slot))
+    .map(slot => ({ recipeId: slot.recipeId!, quantity: 1 }));
+  await recordRecipeContributions(shoppingList.id, slotRecipes, consolidatedItems);
+
   console.log(`Shopping list ${shoppingList.id} created with ${potentialMergesWithHistory.length} merge options`);
 
   return {
     shoppingListId: shoppingList.id,
-    items: consolidatedItems,
+    items: [
+      ...consolidatedItems.filter(item => item.toBuyAmount !== 0),
+      ...shoppingList.items.filter(item => !isRecipeItem(item)).map(toConsolidatedSourceItem)
+    ],
+    pantryCovered: consolidatedItems.filter(item => item.toBuyAmount === 0),
     totalEstimatedCost: totalCost,
-    potentialMerges: potentialMergesWithHistory
+    potentialMerges: potentialMergesWithHistory,
+    suggestedStaples: await getDueStaples(userId, shoppingList.items),
+    expiredInventory
   };
 }
 
@@ -392,7 +501,7 @@ export async function getShoppingList(shoppingListId: string) {
 
   // Group items by category for organized display
   const groupedByCategory = shoppingList.items.reduce((acc: Record<string, typeof shoppingList.items>, item) => {
-    const category = item.ingredient.category || 'Other';
+    const category = item.ingredient?.category || 'Other';
     if (!acc[category]) acc[category] = [];
     acc[category].push(item);
     return acc;
@@ -459,16 +568,19 @@ export async function applyAllMergeDecisions(
     throw new Error('Shopping list not found');
   }
 
-  // Convert items to CartItem format
-  const cartItems: CartItem[] = shoppingList.items.map(item => ({
-    ingredientId: item.ingredientId,
-    ingredientName: item.ingredient.name,
-    amount: parseFloat(item.totalAmount),
-    unit: item.unit,
-    walmartItemId: item.walmartItemId || undefined,
-    walmartSearchTerm: item.ingredient.walmartSearchTerm || undefined,
-    recipes: []
-  }));
+  // Convert items to CartItem format (merge options only pair recipe ingredients)
+  const cartItems: CartItem[] = shoppingList.items.filter(isRecipeItem).map(item => {
+    const quantity = readQuantity(item);
+    return {
+      ingredientId: item.ingredient.id,
+      ingredientName: item.ingredient.name,
+      amount: quantity?.value ?? parseFloat(item.totalAmount),
+      unit: quantity?.unit ?? item.unit,
+      walmartItemId: item.walmartItemId || undefined,
+      walmartSearchTerm: item.ingredient.walmartSearchTerm || undefined,
+      recipes: []
+    };
+  });
 
   // Build merge decisions map
   const mergeDecisionsMap = new Map<string, 'merge' | 'keep_separate'>();
@@ -494,11 +606,12 @@ export async function applyAllMergeDecisions(
     ingredient: { name: item.ingredientName },
     totalAmount: item.amount.toString(),
     unit: item.unit,
+    quantity: parseQuantity(item.amount, item.unit),
     walmartItemId: item.walmartItemId || undefined,
     estimatedPrice: 0
   }));
 
-  return consolidatedItems;
+  return [...consolidatedItems, ...shoppingList.items.filter(item => !isRecipeItem(item)).map(toConsolidatedSourceItem)];
 }
 
 /**
@@ -523,6 +636,30 @@ export async function markItemPurchased(
   });
 }
 
+/**
+ * Turn pantry subtraction on or off for one item: off buys the full neededAmount,
+ * on goes back to the shortfall (toBuyAmount)
+ */
+export async function setItemUsePantry(itemId: string, usePantry: boolean): Promise<void> {
+  const item = await prisma.shoppingListItem.findUnique({ where: { id: itemId } });
+  if (!item) {
+    throw new Error('Shopping list item not found');
+  }
+  if (item.neededAmount === null || item.toBuyAmount === null) {
+    throw new Error('This item was not checked against the pantry');
+  }
+
+  const amount = usePantry ? item.toBuyAmount : item.neededAmount;
+  await prisma.shoppingListItem.update({
+    where: { id: itemId },
+    data: {
+      usePantry,
+      totalAmount: amount.toString(),
+      quantityValue: amount
+    }
+  });
+}
+
 /**
  * Delete a shopping list
  * Removes shopping list and all associated items and merge options
@@ -0,0 +1,261 @@
+// Shopping List History Service
+// Past shopping lists (every generated cart is kept, inactive), re-opening one as the active
+// cart, "buy again" into the current cart, and what the user buys most often.
+
+import { differenceInCalendarDays } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../index.js';
+import { ownsResource, scopeWhere, type OwnerScope } from './householdService.js';
+import { ITEMS_TO_BUY } from './pantryAllocationService.js';
+import { getOrCreateActiveCart } from './cartItemService.js';
+import { loadConversionTable, convertQuantity } from './unitConversionService.js';
+import { parseQuantity, readQuantity, toQuantityColumns } from '../utils/quantity.js';
+
+type TxClient = Prisma.TransactionClient;
+
+// An ingredient is "frequently bought" once it was purchased on this many lists
+const FREQUENT_MIN_LISTS = 2;
+
+export type BuyAgainSelection = 'unpurchased' | 'staples' | 'all';
+
+export interface ShoppingListSummary {
+  id: string;
+  source: string; // "meal_plan" | "recipe_selection" | "buy_again"
+  isActive: boolean;
+  generatedAt: Date;
+  mealPlan: { id: string; name: string } | null;
+  itemCount: number;
+  purchasedCount: number;
+  completion: number; // 0-1
+  totalEstimatedCost: number; // Stored total, else the sum of item prices
+  purchasedCost: number; // Sum of purchased items' prices (actual prices when given)
+}
+
+export interface FrequentlyBoughtItem {
+  ingredientId: string;
+  name: string;
+  timesBought: number; // Lists it was purchased on
+  lastBoughtAt: Date;
+  averageDaysBetween: number | null; // null until bought twice on different days
+  usualAmount: string; // Amount on the most recent purchase
+  unit: string;
+}
+
+export interface BuyAgainResult {
+  shoppingListId: string; // The active cart the items went into
+  added: number; // New items on the cart
+  combined: number; // Added onto an item already on the cart
+}
+
+/**
+ * The owner's shopping lists, newest first, with item counts and totals.
+ * Items the pantry fully covered aren't counted.
+ */
+export async function listShoppingListHistory(
+  scope: OwnerScope,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ lists: ShoppingListSummary[]; total: number }> {
+  const where = scopeWhere(scope);
+  const [lists, total] = await Promise.all([
+    prisma.shoppingList.findMany({
+      where,
+      include: {
+        items: {
+          where: ITEMS_TO_BUY,
+          select: { isPurchased: true, estimatedPrice: true },
+        },
+        mealPlan: { select: { id: true, name: true } },
+      },
+      orderBy: { generatedAt: 'desc' },
+      take: options.limit ?? 20,
+      skip: options.offset ?? 0,
+    }),
+    prisma.shoppingList.count({ where }),
+  ]);
+
+  return {
+    lists: lists.map(list => {
+      const purchased = list.items.filter(item => item.isPurchased);
+      const itemsCost = list.items.reduce((sum, item) => sum + (item.estimatedPrice ?? 0), 0);
+      return {
+        id: list.id,
+        source: list.source,
+        isActive: list.isActive,
+        generatedAt: list.generatedAt,
+        mealPlan: list.mealPlan,
+        itemCount: list.items.length,
+        purchasedCount: purchased.length,
+        completion: list.items.length > 0 ? purchased.length / list.items.length : 0,
+        totalEstimatedCost: list.totalEstimatedCost || itemsCost,
+        purchasedCost: purchased.reduce((sum, item) => sum + (item.estimatedPrice ?? 0), 0),
+      };
+    }),
+    total,
+  };
+}
+
+/**
+ * Make a past list the active cart again (the current one is kept in history)
+ */
+export async function reopenShoppingList(scope: OwnerScope, shoppingListId: string): Promise<void> {
+  const shoppingList = await prisma.shoppingList.findUnique({ where: { id: shoppingListId } });
+  if (!shoppingList || !ownsResource(scope, shoppingList)) {
+    throw new Error('Shopping list not found');
+  }
+  if (shoppingList.isActive) {
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.shoppingList.updateMany({
+      where: { ...scopeWhere(scope), isActive: true },
+      data: { isActive: false },
+    }),
+    prisma.shoppingList.update({
+      where: { id: shoppingListId },
+      data: { isActive: true },
+    }),
+  ]);
+
+  console.log(`🛒 Reopened shopping list ${shoppingListId}`);
+}
+
+/**
+ * Ingredients purchased on at least FREQUENT_MIN_LISTS lists, most often bought first.
+ * Free-form items without an ingredient aren't counted.
+ */
+export async function getFrequentlyBought(scope: OwnerScope, limit: number = 20): Promise<FrequentlyBoughtItem[]> {
+  const items = await prisma.shoppingListItem.findMany({
+    where: { isPurchased: true, ingredientId: { not: null }, shoppingList: scopeWhere(scope) },
+    select: {
+      ingredientId: true,
+      totalAmount: true,
+      unit: true,
+      ingredient: { select: { name: true } },
+      shoppingList: { select: { id: true, generatedAt: true } },
+    },
+    orderBy: { shoppingList: { generatedAt: 'desc' } },
+  });
+
+  const byIngredient = new Map<string, { item: typeof items[number]; listIds: Set<string>; dates: Date[] }>();
+  for (const item of items) {
+    // Newest first, so the first item seen is the latest purchase
+    const ingredientId = item.ingredientId!;
+    const entry = byIngredient.get(ingredientId) || { item, listIds: new Set<string>(), dates: [] };
+    if (!entry.listIds.has(item.shoppingList.id)) {
+      entry.listIds.add(item.shoppingList.id);
+      entry.dates.push(item.shoppingList.generatedAt);
+    }
+    byIngredient.set(ingredientId, entry);
+  }
+
+  return [...byIngredient.values()]
+    .filter(entry => entry.listIds.size >= FREQUENT_MIN_LISTS)
+    .map(({ item, listIds, dates }) => {
+      const span = differenceInCalendarDays(dates[0], dates[dates.length - 1]);
+      return {
+        ingredientId: item.ingredientId!,
+        name: item.ingredient!.name,
+        timesBought: listIds.size,
+        lastBoughtAt: dates[0],
+        averageDaysBetween: span > 0 ? Math.round(span / (dates.length - 1)) : null,
+        usualAmount: item.totalAmount,
+        unit: item.unit,
+      };
+    })
+    .sort((a, b) => b.timesBought - a.timesBought || b.lastBoughtAt.getTime() - a.lastBoughtAt.getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Add items from a past list to the active cart: its unpurchased items, its staples
+ * (ingredients the owner buys frequently, and items added from their staples list) or
+ * everything. Amounts go onto an unpurchased item for the same ingredient when the units
+ * convert (purchased items stay as bought); a cart is started when there's no active one.
+ * All items are added or none are.
+ */
+export async function buyAgain(
+  scope: OwnerScope,
+  shoppingListId: string,
+  selection: BuyAgainSelection = 'unpurchased'
+): Promise<BuyAgainResult> {
+  const source = await prisma.shoppingList.findUnique({
+    where: { id: shoppingListId },
+    include: { items: { where: ITEMS_TO_BUY } },
+  });
+  if (!source || !ownsResource(scope, source)) {
+    throw new Error('Shopping list not found');
+  }
+
+  let items = source.items;
+  if (selection === 'unpurchased') {
+    items = items.filter(item => !item.isPurchased);
+  } else if (selection === 'staples') {
+    const staples = new Set((await getFrequentlyBought(scope, Number.MAX_SAFE_INTEGER)).map(item => item.ingredientId));
+    items = items.filter(item => item.source === 'staple' || (item.ingredientId && staples.has(item.ingredientId)));
+  }
+  if (items.length === 0) {
+    throw new Error('No items to add');
+  }
+
+  const cart = await getOrCreateActiveCart(scope, 'buy_again');
+
+  if (cart.id === source.id) {
+    throw new Error('This list is already the active cart');
+  }
+
+  const conversions = await loadConversionTable([...new Set(items.flatMap(item => item.ingredientId ?? []))]);
+  let added = 0;
+  let combined = 0;
+
+  await prisma.$transaction(async (tx: TxClient) => {
+    for (const item of items) {
+      const amount = readQuantity(item) ?? parseQuantity(item.totalAmount, item.unit);
+
+      // Same ingredient already on the cart in a unit the amount converts to
+      const ingredientId = item.ingredientId;
+      const match = amount && ingredientId && cart.items
+        .filter(existing => existing.ingredientId === ingredientId && !existing.isPurchased)
+        .map(existing => {
+          const quantity = readQuantity(existing) ?? parseQuantity(existing.totalAmount, existing.unit);
+          const converted = quantity && convertQuantity(conversions, amount, quantity.unit, ingredientId);
+          return quantity && converted ? { existing, quantity, converted } : null;
+        })
+        .find(candidate => candidate !== null);
+
+      if (match) {
+        const total = { ...match.quantity, value: match.quantity.value + match.converted.value };
+        const updated = await tx.shoppingListItem.update({
+          where: { id: match.existing.id },
+          data: {
+            totalAmount: total.value.toString(),
+            ...toQuantityColumns(total),
+            ...(match.existing.neededAmount !== null && { neededAmount: match.existing.neededAmount + match.converted.value }),
+            ...(match.existing.toBuyAmount !== null && { toBuyAmount: match.existing.toBuyAmount + match.converted.value }),
+          },
+        });
+        cart.items = cart.items.map(existing => (existing.id === updated.id ? updated : existing));
+        combined++;
+      } else {
+        const created = await tx.shoppingListItem.create({
+          data: {
+            shoppingListId: cart.id,
+            ingredientId: item.ingredientId,
+            name: item.name,
+            source: item.source,
+            stapleId: item.stapleId,
+            totalAmount: item.totalAmount,
+            unit: item.unit,
+            ...toQuantityColumns(amount),
+            walmartItemId: item.walmartItemId,
+          },
+        });
+        cart.items.push(created);
+        added++;
+      }
+    }
+  }, { timeout: 30000 });
+
+  console.log(`🛒 Buy again: ${added} items added and ${combined} combined from list ${shoppingListId}`);
+  return { shoppingListId: cart.id, added, combined };
+}
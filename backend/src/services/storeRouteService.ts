@@ -0,0 +1,192 @@
+// Store Route Service
+// Orders a shopping list for walking a store: items grouped by store section
+// (config/storeSections.ts), sections in the user's aisle order for that store.
+
+import { prisma } from '../index.js';
+import { getOwnerScope, ownsResource } from './householdService.js';
+import { ITEMS_TO_BUY } from './pantryAllocationService.js';
+import { cartItemName } from './cartItemService.js';
+import {
+  STORE_SECTIONS,
+  STORE_SECTION_IDS,
+  detectStoreSection,
+  isStoreSectionId,
+  type StoreSectionId,
+} from '../config/storeSections.js';
+
+export interface StoreAisleOrderSummary {
+  storeName: string;
+  sections: StoreSectionId[];
+  updatedAt: Date;
+}
+
+export interface StoreRouteItem {
+  id: string;
+  ingredientId: string | null; // null for free-form items
+  name: string;
+  totalAmount: string;
+  unit: string;
+  isPurchased: boolean;
+  estimatedPrice: number | null;
+}
+
+export interface StoreRouteSection {
+  id: StoreSectionId;
+  label: string;
+  items: StoreRouteItem[]; // Still to get first, then by name
+  remaining: number;
+}
+
+export interface StoreRoute {
+  shoppingListId: string;
+  storeName: string | null; // null: default section order
+  sections: StoreRouteSection[]; // Sections with items, in walking order
+  remaining: number;
+  total: number;
+}
+
+function toStoreKey(storeName: string): string {
+  return storeName.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Complete an aisle order: every section once, in the order given, with sections left out
+ * appended in the default order. Throws on ids that aren't store sections.
+ */
+export function normalizeAisleOrder(sections: string[]): StoreSectionId[] {
+  const unknown = sections.filter(section => !isStoreSectionId(section));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown store section: ${unknown.join(', ')}`);
+  }
+
+  const ordered = [...new Set(sections as StoreSectionId[])];
+  return [...ordered, ...STORE_SECTION_IDS.filter(section => !ordered.includes(section))];
+}
+
+/**
+ * The user's saved aisle orders, most recently changed first
+ */
+export async function listAisleOrders(userId: string): Promise<StoreAisleOrderSummary[]> {
+  const orders = await prisma.storeAisleOrder.findMany({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  // Sections added to the taxonomy after an order was saved show up at the end
+  return orders.map(order => ({
+    storeName: order.storeName,
+    sections: normalizeAisleOrder(order.sections.filter(isStoreSectionId)),
+    updatedAt: order.updatedAt,
+  }));
+}
+
+/**
+ * Section order for a store: the user's saved order, or the default walking order
+ */
+export async function getAisleOrder(userId: string, storeName?: string | null): Promise<StoreSectionId[]> {
+  if (!storeName) {
+    return [...STORE_SECTION_IDS];
+  }
+
+  const order = await prisma.storeAisleOrder.findUnique({
+    where: { userId_storeKey: { userId, storeKey: toStoreKey(storeName) } },
+  });
+  return order ? normalizeAisleOrder(order.sections.filter(isStoreSectionId)) : [...STORE_SECTION_IDS];
+}
+
+/**
+ * Save the user's section order for a store (replaces any earlier order for it)
+ */
+export async function saveAisleOrder(userId: string, storeName: string, sections: string[]): Promise<StoreAisleOrderSummary> {
+  const storeKey = toStoreKey(storeName);
+  if (!storeKey) {
+    throw new Error('Store name is required');
+  }
+
+  const ordered = normalizeAisleOrder(sections);
+  const order = await prisma.storeAisleOrder.upsert({
+    where: { userId_storeKey: { userId, storeKey } },
+    update: { storeName: storeName.trim(), sections: ordered },
+    create: { userId, storeName: storeName.trim(), storeKey, sections: ordered },
+  });
+
+  console.log(`🛒 Saved aisle order for "${order.storeName}"`);
+  return { storeName: order.storeName, sections: ordered, updatedAt: order.updatedAt };
+}
+
+/**
+ * Delete the user's section order for a store
+ */
+export async function deleteAisleOrder(userId: string, storeName: string): Promise<void> {
+  const { count } = await prisma.storeAisleOrder.deleteMany({
+    where: { userId, storeKey: toStoreKey(storeName) },
+  });
+  if (count === 0) {
+    throw new Error('Aisle order not found');
+  }
+}
+
+/**
+ * A shopping list grouped by store section in the user's aisle order for the store.
+ * Items the pantry fully covers are left out, as in the cart view.
+ */
+export async function getStoreRoute(shoppingListId: string, userId: string, storeName?: string | null): Promise<StoreRoute> {
+  const shoppingList = await prisma.shoppingList.findUnique({
+    where: { id: shoppingListId },
+    include: {
+      items: {
+        where: ITEMS_TO_BUY,
+        include: { ingredient: true },
+      },
+    },
+  });
+
+  const scope = await getOwnerScope(userId);
+  if (!shoppingList || !ownsResource(scope, shoppingList)) {
+    throw new Error('Shopping list not found');
+  }
+
+  const order = await getAisleOrder(userId, storeName);
+
+  const bySection = new Map<StoreSectionId, StoreRouteItem[]>();
+  for (const item of shoppingList.items) {
+    // Ingredients created before sections existed, and free-form items, are placed from their name
+    const name = cartItemName(item);
+    const stored = item.ingredient?.storeSection;
+    const section = stored && isStoreSectionId(stored)
+      ? stored
+      : detectStoreSection(name, item.ingredient?.category);
+
+    bySection.set(section, [...(bySection.get(section) || []), {
+      id: item.id,
+      ingredientId: item.ingredientId,
+      name,
+      totalAmount: item.totalAmount,
+      unit: item.unit,
+      isPurchased: item.isPurchased,
+      estimatedPrice: item.estimatedPrice,
+    }]);
+  }
+
+  const sections = order
+    .filter(section => bySection.has(section))
+    .map(section => {
+      const items = bySection.get(section)!.sort((a, b) =>
+        Number(a.isPurchased) - Number(b.isPurchased) || a.name.localeCompare(b.name)
+      );
+      return {
+        id: section,
+        label: STORE_SECTIONS.find(definition => definition.id === section)!.label,
+        items,
+        remaining: items.filter(item => !item.isPurchased).length,
+      };
+    });
+
+  return {
+    shoppingListId: shoppingList.id,
+    storeName: storeName?.trim() || null,
+    sections,
+    remaining: sections.reduce((sum, section) => sum + section.remaining, 0),
+    total: shoppingList.items.length,
+  };
+}
@@ -3,6 +3,8 @@
 
 import { prisma } from '../index.js';
 import { parseProductSize } from '../utils/productSizeCalculator.js';
+import { CONVERSION_DEFINITIONS } from '../config/unitCatalog.js';
+import { canonicalizeUnit, type Quantity } from '../utils/quantity.js';
 
 interface ConversionResult {
   amount: number;
@@ -11,6 +13,22 @@ interface ConversionResult {
   reasoning?: string;
 }
 
+interface ConversionEdge {
+  from: string;
+  to: string;
+  factor: number; // Multiply an amount in `from` by this to get `to`
+  isApproximate: boolean;
+}
+
+/**
+ * Conversions loaded once per operation: generic unit conversions plus
+ * ingredient-specific ones (densities, "1 lemon = 3 tbsp juice", ...)
+ */
+export interface ConversionTable {
+  generic: ConversionEdge[];
+  byIngredient: Map<string, ConversionEdge[]>;
+}
+
 interface PurchaseCountResult {
   packageCount: number;
   packageUnit: string;
@@ -93,6 +111,176 @@ export async function convertUnits(
   };
 }
 
+/**
+ * Load the Unit/UnitConversion tables for a set of ingredients.
+ * Falls back to the built-in catalog when the tables have not been seeded yet.
+ */
+export async function loadConversionTable(ingredientIds: string[] = []): Promise<ConversionTable> {
+  const rows = await prisma.unitConversion.findMany({
+    where: {
+      OR: [
+        { ingredientId: null },
+        ...(ingredientIds.length > 0 ? [{ ingredientId: { in: ingredientIds } }] : [])
+      ]
+    },
+    include: { fromUnit: true, toUnit: true }
+  });
+
+  const table: ConversionTable = { generic: [], byIngredient: new Map() };
+
+  for (const row of rows) {
+    const edges = toEdges(row.fromUnit.abbreviation, row.toUnit.abbreviation, row.toAmount / row.fromAmount, row.isApproximate);
+    if (row.ingredientId) {
+      table.byIngredient.set(row.ingredientId, [...(table.byIngredient.get(row.ingredientId) || []), ...edges]);
+    } else {
+      table.generic.push(...edges);
+    }
+  }
+
+  if (table.generic.length === 0) {
+    console.warn('⚠️  No unit conversions in database, using built-in catalog (run prisma:migrate-quantities)');
+    table.generic = catalogConversionTable().generic;
+  }
+
+  return table;
+}
+
+/**
+ * Generic conversions from the built-in unit catalog, without any ingredient densities
+ */
+export function catalogConversionTable(): ConversionTable {
+  return {
+    generic: CONVERSION_DEFINITIONS.flatMap(def =>
+      toEdges(def.from, def.to, def.toAmount / (def.fromAmount ?? 1), def.isApproximate ?? false)
+    ),
+    byIngredient: new Map()
+  };
+}
+
+/**
+ * A conversion row in both directions
+ */
+function toEdges(from: string, to: string, factor: number, isApproximate: boolean): ConversionEdge[] {
+  return [
+    { from, to, factor, isApproximate },
+    { from: to, to: from, factor: 1 / factor, isApproximate }
+  ];
+}
+
+/**
+ * Find a chain of conversions between two units (breadth-first, fewest hops)
+ */
+function findConversionPath(edges: ConversionEdge[], from: string, to: string): { factor: number; isApproximate: boolean } | null {
+  const visited = new Set<string>([from]);
+  let frontier = [{ unit: from, factor: 1, isApproximate: false }];
+
+  while (frontier.length > 0) {
+    const next: typeof frontier = [];
+
+    for (const node of frontier) {
+      for (const edge of edges) {
+        if (edge.from !== node.unit || visited.has(edge.to)) continue;
+
+        const step = {
+          unit: edge.to,
+          factor: node.factor * edge.factor,
+          isApproximate: node.isApproximate || edge.isApproximate
+        };
+        if (edge.to === to) {
+          return { factor: step.factor, isApproximate: step.isApproximate };
+        }
+
+        visited.add(edge.to);
+        next.push(step);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return null;
+}
+
+/**
+ * Convert a quantity to another unit.
+ * Generic conversions are tried first; ingredient-specific ones (e.g. cup → g density)
+ * are only used when the units cannot be converted otherwise, and mark the result approximate
+ * when the conversion row is approximate.
+ */
+export function convertQuantity(
+  table: ConversionTable,
+  quantity: Quantity,
+  toUnit: string,
+  ingredientId?: string
+): Quantity | null {
+  const target = canonicalizeUnit(toUnit);
+
+  if (quantity.unit === target) {
+    return { ...quantity, unit: target };
+  }
+
+  const path = findConversionPath(table.generic, quantity.unit, target)
+    ?? (ingredientId && table.byIngredient.has(ingredientId)
+      ? findConversionPath([...table.byIngredient.get(ingredientId)!, ...table.generic], quantity.unit, target)
+      : null);
+
+  if (!path) {
+    return null;
+  }
+
+  return {
+    value: quantity.value * path.factor,
+    unit: target,
+    approximate: quantity.approximate || path.isApproximate
+  };
+}
+
+/**
+ * Add two quantities, expressed in the first quantity's unit.
+ * Returns null when the units cannot be converted.
+ */
+export function addQuantities(
+  table: ConversionTable,
+  base: Quantity,
+  addition: Quantity,
+  ingredientId?: string
+): Quantity | null {
+  const converted = convertQuantity(table, addition, base.unit, ingredientId);
+  if (!converted) {
+    return null;
+  }
+
+  return {
+    value: base.value + converted.value,
+    unit: base.unit,
+    approximate: base.approximate || converted.approximate
+  };
+}
+
+/**
+ * Subtract an amount from a stock quantity, never going below zero.
+ * `deducted` is in the stock's unit. Returns null when the units cannot be converted.
+ */
+export function subtractQuantity(
+  table: ConversionTable,
+  stock: Quantity,
+  amount: Quantity,
+  ingredientId?: string
+): { remaining: Quantity; deducted: Quantity } | null {
+  const converted = convertQuantity(table, amount, stock.unit, ingredientId);
+  if (!converted) {
+    return null;
+  }
+
+  const deductedValue = Math.min(converted.value, stock.value);
+  const approximate = stock.approximate || converted.approximate;
+
+  return {
+    remaining: { value: stock.value - deductedValue, unit: stock.unit, approximate },
+    deducted: { value: deductedValue, unit: stock.unit, approximate: converted.approximate }
+  };
+}
+
 /**
  * Calculate how many packages to buy based on recipe needs and Walmart product size
  */
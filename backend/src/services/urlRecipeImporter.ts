@@ -3,7 +3,12 @@ import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { prisma } from '../index.js';
 import type { Prisma } from '@prisma/client';
-import { normalizeIngredientName } from '../utils/ingredientNormalizer.js';
+import { mergeIngredientNotes } from '../utils/ingredientNormalizer.js';
+import { CASE_SENSITIVE_UNITS, findUnitDefinition } from '../config/unitCatalog.js';
+import { detectCuisine } from '../config/cuisineCatalog.js';
+import { parseQuantity } from '../utils/quantity.js';
+import { extractStructuredData, readSchemaRecipe, type ParsedRecipe } from '../utils/recipeSchemaParser.js';
+import { canonicalizeIngredientNames, resolveIngredient } from './ingredientCanonicalizationService.js';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -14,28 +19,7 @@ if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY.startsWith('sk-pro
   console.warn('⚠️  OPENAI_API_KEY not configured - AI extraction will fail. Please set OPENAI_API_KEY in .env');
 }
 
-interface ParsedRecipe {
-  title: string;
-  description?: string;
-  ingredients: Array<{
-    name: string;
-    amount: string;
-    unit: string;
-    notes?: string;
-  }>;
-  instructions: string[];
-  prepTime: number;
-  cookTime: number;
-  servings: number;
-  nutrition?: {
-    calories?: number;
-    protein?: number;
-    carbs?: number;
-    fat?: number;
-  };
-}
-
-interface ImportResult {
+export interface ImportResult {
   recipe: ParsedRecipe;
   extractionMethod: string;
   usedCache: boolean;
@@ -80,10 +64,14 @@ Return JSON in this exact format:
 If you cannot extract reliable data, return: {"error": "Unable to extract recipe data"}`;
 
 /**
- * Normalize unit variants to standard units using cached mappings
+ * Normalize unit variants to standard units using cached mappings.
+ * Spellings the unit catalog knows ("Tablespoons") are cached as aliases for next time.
  */
 async function normalizeUnit(unit: string): Promise<string> {
   const trimmed = unit.trim();
+  if (CASE_SENSITIVE_UNITS[trimmed]) {
+    return CASE_SENSITIVE_UNITS[trimmed];
+  }
 
   // Check cache first
   const alias = await prisma.unitAlias.findUnique({
@@ -94,177 +82,43 @@ async function normalizeUnit(unit: string): Promise<string> {
     return alias.standardUnit;
   }
 
+  const definition = findUnitDefinition(trimmed);
+  if (definition) {
+    if (trimmed.toLowerCase() !== definition.abbreviation.toLowerCase()) {
+      await cacheUnitAlias(trimmed, definition.abbreviation);
+    }
+    return definition.abbreviation;
+  }
+
   // Return as-is if no mapping found
   return trimmed;
 }
 
 /**
- * Extract structured data (JSON-LD, Microdata) from HTML
+ * Normalize the units of extracted ingredients in place
  */
-function extractStructuredData(html: string): any | null {
-  const $ = cheerio.load(html);
-
-  // Try JSON-LD first (most common)
-  const jsonLdScripts = $('script[type="application/ld+json"]');
-  for (let i = 0; i < jsonLdScripts.length; i++) {
-    try {
-      const jsonLd = JSON.parse($(jsonLdScripts[i]).html() || '{}');
-
-      // Check if it's a Recipe type
-      if (jsonLd['@type'] === 'Recipe' ||
-          (Array.isArray(jsonLd['@graph']) && jsonLd['@graph'].some((item: any) => item['@type'] === 'Recipe'))) {
-
-        // Handle @graph format
-        if (Array.isArray(jsonLd['@graph'])) {
-          const recipe = jsonLd['@graph'].find((item: any) => item['@type'] === 'Recipe');
-          if (recipe) return recipe;
-        }
-
-        return jsonLd;
-      }
-    } catch (e) {
-      // Invalid JSON, continue
+async function normalizeIngredientUnits(ingredients: ParsedRecipe['ingredients']): Promise<void> {
+  for (const ing of ingredients) {
+    if (ing.unit) {
+      ing.unit = await normalizeUnit(ing.unit);
     }
   }
-
-  // Try microdata (less common)
-  const recipeElem = $('[itemtype*="schema.org/Recipe"]');
-  if (recipeElem.length > 0) {
-    return { type: 'microdata', element: recipeElem.html() };
-  }
-
-  return null;
 }
 
 /**
- * Parse JSON-LD structured data into our recipe format
+ * Convert a schema.org Recipe (JSON-LD shape) into a recipe with normalized units.
+ * Returns null when it lacks a title, ingredients or instructions.
  */
-function parseJsonLd(jsonLd: any): Partial<ParsedRecipe> {
-  const recipe: Partial<ParsedRecipe> = {};
-
-  // Title
-  recipe.title = jsonLd.name || jsonLd.headline || '';
-
-  // NO DESCRIPTION - copyright protection
-  recipe.description = '';
-
-  // Ingredients
-  if (Array.isArray(jsonLd.recipeIngredient)) {
-    recipe.ingredients = jsonLd.recipeIngredient.map((ing: string) => {
-      // Normalize unicode fractions to ASCII
-      const normalized = ing
-        .replace(/\u00BC/g, '1/4').replace(/\u00BD/g, '1/2').replace(/\u00BE/g, '3/4')
-        .replace(/\u2150/g, '1/7').replace(/\u2151/g, '1/9').replace(/\u2152/g, '1/10')
-        .replace(/\u2153/g, '1/3').replace(/\u2154/g, '2/3')
-        .replace(/\u2155/g, '1/5').replace(/\u2156/g, '2/5').replace(/\u2157/g, '3/5').replace(/\u2158/g, '4/5')
-        .replace(/\u2159/g, '1/6').replace(/\u215A/g, '5/6')
-        .replace(/\u215B/g, '1/8').replace(/\u215C/g, '3/8').replace(/\u215D/g, '5/8').replace(/\u215E/g, '7/8')
-        .trim();
-
-      // Extract parenthetical content as notes, strip weight conversions like (45 g)
-      const notes: string[] = [];
-      const withoutParens = normalized.replace(/\s*\(([^)]*)\)/g, (_match, content) => {
-        const trimmedContent = content.trim();
-        // Skip empty parens or pure weight conversions like "45 g", "100 ml"
-        if (!trimmedContent || /^\d+\s*(g|kg|mg|oz|lb|ml|L)$/i.test(trimmedContent)) {
-          return '';
-        }
-        notes.push(trimmedContent);
-        return '';
-      });
-
-      // Known units for matching
-      const unitPattern = /^([\d./\s-]+)\s*(cups?|tablespoons?|teaspoons?|tbsp|tsp|ounces?|oz|pounds?|lbs?|lb|grams?|g|kg|kilograms?|ml|milliliters?|liters?|L|pinch|dash|cloves?|pieces?|whole|cans?|packages?|bunche?s?|stalks?|sprigs?|heads?|slices?|sticks?)\s+(.+)$/i;
-      const match = withoutParens.match(unitPattern);
-
-      if (match) {
-        const [, amount, unit, name] = match;
-        return {
-          name: name.replace(/,\s*$/, '').trim(),
-          amount: amount.trim(),
-          unit: unit.trim().toLowerCase(),
-          ...(notes.length > 0 ? { notes: notes.join(', ') } : {})
-        };
-      }
-
-      // Fallback: try to extract just a leading number
-      const numMatch = withoutParens.match(/^([\d./\s-]+)\s+(.+)$/);
-      if (numMatch) {
-        return {
-          name: numMatch[2].replace(/,\s*$/, '').trim(),
-          amount: numMatch[1].trim(),
-          unit: 'piece',
-          ...(notes.length > 0 ? { notes: notes.join(', ') } : {})
-        };
-      }
-
-      return {
-        name: withoutParens.replace(/,\s*$/, '').trim() || ing.trim(),
-        amount: '1',
-        unit: 'piece',
-        ...(notes.length > 0 ? { notes: notes.join(', ') } : {})
-      };
-    });
-  }
-
-  // Instructions
-  if (Array.isArray(jsonLd.recipeInstructions)) {
-    recipe.instructions = jsonLd.recipeInstructions.map((step: any) => {
-      if (typeof step === 'string') return step;
-      if (step.text) return step.text;
-      if (step['@type'] === 'HowToStep' && step.text) return step.text;
-      return JSON.stringify(step);
-    });
-  } else if (typeof jsonLd.recipeInstructions === 'string') {
-    // Split by newlines or numbers
-    recipe.instructions = jsonLd.recipeInstructions
-      .split(/\n+|\d+\.\s+/)
-      .map((s: string) => s.trim())
-      .filter((s: string) => s.length > 0);
-  }
-
-  // Times (convert ISO 8601 duration to minutes)
-  recipe.prepTime = parseDuration(jsonLd.prepTime) || 0;
-  recipe.cookTime = parseDuration(jsonLd.cookTime) || parseDuration(jsonLd.totalTime) || 0;
-
-  // Servings
-  if (jsonLd.recipeYield) {
-    const yieldMatch = String(jsonLd.recipeYield).match(/\d+/);
-    recipe.servings = yieldMatch ? parseInt(yieldMatch[0]) : 4;
-  } else {
-    recipe.servings = 4;
-  }
-
-  // Nutrition
-  if (jsonLd.nutrition) {
-    recipe.nutrition = {
-      calories: parseInt(jsonLd.nutrition.calories) || undefined,
-      protein: parseFloat(jsonLd.nutrition.proteinContent) || undefined,
-      carbs: parseFloat(jsonLd.nutrition.carbohydrateContent) || undefined,
-      fat: parseFloat(jsonLd.nutrition.fatContent) || undefined,
-    };
+export async function parseSchemaRecipe(jsonLd: any): Promise<ParsedRecipe | null> {
+  const recipe = readSchemaRecipe(jsonLd);
+  if (!recipe) {
+    return null;
   }
 
+  await normalizeIngredientUnits(recipe.ingredients);
   return recipe;
 }
 
-/**
- * Parse ISO 8601 duration to minutes
- */
-function parseDuration(duration: string | undefined): number {
-  if (!duration) return 0;
-
-  // PT15M = 15 minutes, PT1H30M = 90 minutes
-  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
-  if (match) {
-    const hours = parseInt(match[1] || '0');
-    const minutes = parseInt(match[2] || '0');
-    return hours * 60 + minutes;
-  }
-
-  return 0;
-}
-
 /**
  * Clean HTML to relevant recipe sections for AI processing
  */
@@ -299,6 +153,16 @@ function cleanHtmlForAI(html: string): string {
  * Use AI to extract recipe from cleaned HTML/text
  */
 async function extractWithAI(content: string): Promise<ParsedRecipe> {
+  return runAIExtraction('gpt-4o-mini', `Extract recipe from this content:\n\n${content}`);
+}
+
+/**
+ * Send content (text, or text plus an image) through the extraction prompt and validate the result
+ */
+async function runAIExtraction(
+  model: string,
+  content: OpenAI.Chat.Completions.ChatCompletionUserMessageParam['content']
+): Promise<ParsedRecipe> {
   // Check if OpenAI API key is configured
   if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY.startsWith('sk-proj-your-openai')) {
     throw new Error('OpenAI API key not configured. Please contact support.');
@@ -306,11 +170,12 @@ async function extractWithAI(content: string): Promise<ParsedRecipe> {
 
   try {
     const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+      model,
       messages: [
         { role: 'system', content: AI_EXTRACTION_PROMPT },
-        { role: 'user', content: `Extract recipe from this content:\n\n${content}` }
+        { role: 'user', content }
       ],
+      response_format: { type: 'json_object' },
       temperature: 0.1,
       max_tokens: 2000,
     });
@@ -327,18 +192,11 @@ async function extractWithAI(content: string): Promise<ParsedRecipe> {
     }
 
     // Validate required fields
-    if (!parsed.title || !parsed.ingredients || !parsed.instructions) {
+    if (!parsed.title || !Array.isArray(parsed.ingredients) || parsed.ingredients.length === 0 || !parsed.instructions) {
       throw new Error('Missing required recipe fields');
     }
 
-    // Normalize units
-    if (Array.isArray(parsed.ingredients)) {
-      for (const ing of parsed.ingredients) {
-        if (ing.unit) {
-          ing.unit = await normalizeUnit(ing.unit);
-        }
-      }
-    }
+    await normalizeIngredientUnits(parsed.ingredients);
 
     return parsed as ParsedRecipe;
   } catch (error: any) {
@@ -458,40 +316,22 @@ export async function importRecipeFromUrl(url: string): Promise<ImportResult> {
   // Try structured data extraction first
   const structuredData = extractStructuredData(html);
 
-  if (structuredData && structuredData['@type'] === 'Recipe') {
+  if (structuredData) {
     try {
-      const partialRecipe = parseJsonLd(structuredData);
+      const recipe = await parseSchemaRecipe(structuredData.data);
 
       // Check if we got enough data
-      if (partialRecipe.title && partialRecipe.ingredients && partialRecipe.instructions) {
-        // Normalize units for JSON-LD extracted ingredients
-        for (const ing of partialRecipe.ingredients) {
-          if (ing.unit) {
-            ing.unit = await normalizeUnit(ing.unit);
-          }
-        }
-
-        const recipe: ParsedRecipe = {
-          title: partialRecipe.title,
-          description: '',
-          ingredients: partialRecipe.ingredients!,
-          instructions: partialRecipe.instructions!,
-          prepTime: partialRecipe.prepTime || 0,
-          cookTime: partialRecipe.cookTime || 0,
-          servings: partialRecipe.servings || 4,
-          nutrition: partialRecipe.nutrition
-        };
-
-        await cacheRecipe(url, structuredData, recipe, 'json-ld');
+      if (recipe) {
+        await cacheRecipe(url, structuredData.data, recipe, structuredData.method);
 
         return {
           recipe,
-          extractionMethod: 'json-ld',
+          extractionMethod: structuredData.method,
           usedCache: false
         };
       }
     } catch (e) {
-      console.error('Failed to parse JSON-LD:', e);
+      console.error(`Failed to parse ${structuredData.method} recipe:`, e);
     }
   }
 
@@ -517,30 +357,226 @@ export async function importRecipeFromUrl(url: string): Promise<ImportResult> {
   }
 }
 
+export const MAX_IMPORT_TEXT_LENGTH = 20000;
+
 /**
- * Find or create ingredient by exact name match
+ * Extract a recipe from pasted text (notes apps, emails, messages)
  */
-export async function findOrCreateIngredient(name: string, category?: string): Promise<string> {
-  const cleanName = normalizeIngredientName(name);
+export async function extractRecipeFromText(text: string): Promise<ImportResult> {
+  const trimmed = text.trim();
+  if (trimmed.length < 20) {
+    throw new Error('Paste the whole recipe, with its ingredients and steps');
+  }
 
-  // Check if ingredient exists with normalized name
-  const existing = await prisma.ingredient.findUnique({
-    where: { name: cleanName }
-  });
+  const recipe = await extractWithAI(trimmed.slice(0, MAX_IMPORT_TEXT_LENGTH));
+  console.log(`✅ Extracted recipe from text: ${recipe.title}`);
+  return { recipe, extractionMethod: 'ai-text', usedCache: false };
+}
 
-  if (existing) {
-    return existing.id;
+/**
+ * Extract a recipe from a photo or screenshot (cookbook page, recipe card, handwritten note).
+ * Accepts raw base64 or a data URL.
+ */
+export async function extractRecipeFromImage(imageBase64: string): Promise<ImportResult> {
+  const recipe = await runAIExtraction('gpt-4o', [
+    {
+      type: 'text',
+      text: 'Extract the recipe from this photo. It may be a cookbook page, a recipe card, a handwritten note or a screenshot. If several recipes are shown, extract the most complete one.'
+    },
+    {
+      type: 'image_url',
+      image_url: {
+        url: imageBase64.startsWith('data:') ? imageBase64 : `data:image/jpeg;base64,${imageBase64}`
+      }
+    }
+  ]);
+
+  console.log(`✅ Extracted recipe from image: ${recipe.title}`);
+  return { recipe, extractionMethod: 'ai-vision', usedCache: false };
+}
+
+/**
+ * Meal types guessed from the title; lunch and dinner when nothing matches
+ */
+export function inferMealType(title: string): string[] {
+  const lower = title.toLowerCase();
+  const mealType: string[] = [];
+  if (lower.includes('breakfast') || lower.includes('pancake') || lower.includes('omelette')) {
+    mealType.push('breakfast');
+  }
+  if (lower.includes('lunch') || lower.includes('sandwich') || lower.includes('salad')) {
+    mealType.push('lunch');
   }
+  if (lower.includes('dinner') || lower.includes('roast') || lower.includes('stew')) {
+    mealType.push('dinner');
+  }
+  if (mealType.length === 0) {
+    mealType.push('lunch', 'dinner'); // Default
+  }
+  return mealType;
+}
 
-  // Create new ingredient with normalized name
-  const newIngredient = await prisma.ingredient.create({
-    data: {
-      name: cleanName,
-      category: category || null
+export interface DraftIngredient {
+  name: string; // Cleaned base ingredient name, as it will be saved
+  amount: string;
+  unit: string;
+  notes?: string;
+  ingredientId: string | null; // Existing ingredient with this name; null = created on save
+}
+
+export interface RecipeImportDraft {
+  title: string;
+  instructions: string[];
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  nutrition?: ParsedRecipe['nutrition'];
+  mealType: string[];
+  cuisine: string | null;
+  ingredients: DraftIngredient[];
+  warnings: string[]; // Things to check before saving ("No amount for salt")
+}
+
+/**
+ * Turn an extracted recipe into a draft for the user to review. Nothing is saved; ingredients are
+ * matched to existing ones by name so the user can see which are new.
+ */
+export async function buildImportDraft(recipe: ParsedRecipe): Promise<RecipeImportDraft> {
+  const canonical = await canonicalizeIngredientNames(recipe.ingredients.map(ing => ing.name));
+  const names = canonical.map(entry => entry.name);
+  const existing = await prisma.ingredient.findMany({
+    where: { name: { in: names } },
+    select: { id: true, name: true }
+  });
+  const idByName = new Map(existing.map(ingredient => [ingredient.name, ingredient.id]));
+
+  const warnings: string[] = [];
+  const ingredients = recipe.ingredients.map((ing, index) => {
+    if (!parseQuantity(ing.amount, ing.unit)) {
+      warnings.push(`No amount for ${names[index]}; it will be saved as 1 unless you change it`);
     }
+    const notes = mergeIngredientNotes(canonical[index].notes, ing.notes);
+    return {
+      name: names[index],
+      amount: String(ing.amount ?? ''),
+      unit: ing.unit || 'count',
+      ...(notes ? { notes } : {}),
+      ingredientId: idByName.get(names[index]) ?? null
+    };
   });
 
-  return newIngredient.id;
+  const instructions = Array.isArray(recipe.instructions) ? recipe.instructions.filter(step => step?.trim()) : [];
+  if (instructions.length === 0) {
+    warnings.push('No steps were found');
+  }
+  if (!recipe.prepTime && !recipe.cookTime) {
+    warnings.push('No prep or cook time was found');
+  }
+  if (!recipe.servings) {
+    warnings.push('Servings weren\'t found; assuming 4');
+  }
+
+  return {
+    title: recipe.title,
+    instructions,
+    prepTime: recipe.prepTime || 0,
+    cookTime: recipe.cookTime || 0,
+    servings: recipe.servings || 4,
+    nutrition: recipe.nutrition,
+    mealType: inferMealType(recipe.title),
+    cuisine: detectCuisine({ title: recipe.title, ingredientNames: names }),
+    ingredients,
+    warnings
+  };
+}
+
+export interface ImportSource {
+  importMethod: 'url' | 'text' | 'image' | 'file';
+  sourceUrl?: string | null;
+  sourceWebsite?: string | null;
+  sourceName?: string | null; // Cookbook or note the recipe came from
+  importSourceId?: string | null; // Id in the exporting app; re-importing the same id is skipped
+}
+
+/**
+ * Save an extracted (and possibly reviewed) recipe as the user's private imported recipe.
+ * Imports never carry a description or image and can never be made public (copyright protection).
+ */
+export async function createImportedRecipe(
+  userId: string,
+  recipe: ParsedRecipe & { mealType?: string[]; cuisine?: string | null },
+  source: ImportSource
+) {
+  // Create ingredients and get IDs
+  const rawIngredientData = await Promise.all(
+    recipe.ingredients.map(async (ing, index) => {
+      const resolved = await resolveIngredient(ing.name);
+      return {
+        ingredientId: resolved.ingredientId,
+        amount: parseQuantity(ing.amount, ing.unit)?.value || 1,
+        unit: ing.unit || 'piece',
+        notes: mergeIngredientNotes(resolved.notes, ing.notes),
+        sortOrder: index,
+      };
+    })
+  );
+
+  // Deduplicate by ingredientId (merge duplicate ingredients)
+  const ingredientMap = new Map<string, typeof rawIngredientData[0]>();
+  for (const item of rawIngredientData) {
+    const existing = ingredientMap.get(item.ingredientId);
+    if (existing) {
+      // Merge: sum amounts if same unit, otherwise keep first occurrence
+      if (existing.unit === item.unit) {
+        existing.amount += item.amount;
+        existing.notes = mergeIngredientNotes(existing.notes, item.notes);
+      }
+    } else {
+      ingredientMap.set(item.ingredientId, item);
+    }
+  }
+
+  return prisma.recipe.create({
+    data: {
+      title: recipe.title,
+      description: null, // NO DESCRIPTION - copyright protection
+      instructions: recipe.instructions,
+      prepTime: recipe.prepTime,
+      cookTime: recipe.cookTime,
+      servings: recipe.servings,
+      calories: recipe.nutrition?.calories || null,
+      protein: recipe.nutrition?.protein || null,
+      carbs: recipe.nutrition?.carbs || null,
+      fat: recipe.nutrition?.fat || null,
+      imageUrl: null, // Don't copy images (copyright)
+      mealType: recipe.mealType?.length ? recipe.mealType : inferMealType(recipe.title),
+      cuisine: recipe.cuisine !== undefined
+        ? recipe.cuisine
+        : detectCuisine({ title: recipe.title, description: recipe.description, ingredientNames: recipe.ingredients.map(ing => ing.name) }),
+      createdById: userId,
+      isPublic: false, // Always private
+      isAiGenerated: false,
+      usageCost: 0, // Free - recipe use charges disabled for competition
+      isImported: true,
+      importMethod: source.importMethod,
+      sourceUrl: source.sourceUrl ?? null,
+      sourceWebsite: source.sourceWebsite ?? null,
+      sourceName: source.sourceName ?? null,
+      importSourceId: source.importSourceId ?? null,
+      importedAt: new Date(),
+      canBePublic: false, // CANNOT be made public (copyright protection)
+      recipeIngredients: {
+        create: Array.from(ingredientMap.values()),
+      },
+    },
+    include: {
+      recipeIngredients: {
+        include: {
+          ingredient: true,
+        },
+      },
+    },
+  });
 }
 
 /**
@@ -0,0 +1,108 @@
+// Walmart Grocery Provider
+// Adapts the Walmart Affiliate API (services/walmart.ts) to the GroceryProvider interface
+
+import {
+  searchWalmartProducts,
+  getWalmartProduct,
+  createConsolidatedCart,
+  type WalmartProduct
+} from './walmart.js';
+import {
+  priceProductForIngredient,
+  type GroceryProduct,
+  type GroceryProvider
+} from './groceryProvider.js';
+
+/**
+ * Walmart API credentials from the environment, or null when not configured
+ */
+function getCredentials(): { consumerId: string; privateKey: string; publisherId?: string } | null {
+  const consumerId = process.env.WALMART_CONSUMER_ID;
+  const privateKey = process.env.WALMART_PRIVATE_KEY;
+
+  if (!consumerId || !privateKey) {
+    return null;
+  }
+
+  return { consumerId, privateKey, publisherId: process.env.WALMART_PUBLISHER_ID };
+}
+
+function requireCredentials() {
+  const credentials = getCredentials();
+  if (!credentials) {
+    throw new Error('Walmart API credentials not configured');
+  }
+  return credentials;
+}
+
+/**
+ * Convert a Walmart API product into the provider-neutral shape
+ */
+export function toGroceryProduct(product: WalmartProduct): GroceryProduct {
+  return {
+    providerId: 'walmart',
+    productId: String(product.itemId),
+    name: product.name,
+    price: product.salePrice,
+    regularPrice: product.msrp,
+    size: product.size,
+    brandName: product.brandName,
+    imageUrl: product.thumbnailImage,
+    productUrl: product.productTrackingUrl || product.productUrl,
+    category: product.categoryPath,
+    inStock: product.availableOnline !== false && product.stock !== 'Not available'
+  };
+}
+
+export const walmartProvider: GroceryProvider = {
+  id: 'walmart',
+  name: 'Walmart',
+
+  isConfigured() {
+    return getCredentials() !== null;
+  },
+
+  async search(query) {
+    const { consumerId, privateKey } = requireCredentials();
+    const result = await searchWalmartProducts(query, consumerId, privateKey);
+
+    return {
+      providerId: 'walmart',
+      query: result.query,
+      items: result.items.map(toGroceryProduct),
+      totalResults: result.totalResults
+    };
+  },
+
+  async getProduct(productId) {
+    const { consumerId, privateKey } = requireCredentials();
+    const product = await getWalmartProduct(productId, consumerId, privateKey);
+    return product ? toGroceryProduct(product) : null;
+  },
+
+  async priceIngredient(ingredient) {
+    const { consumerId, privateKey } = requireCredentials();
+    // Including the amount helps Walmart's search pick a sensible pack size
+    const searchTerm = ingredient.searchTerm
+      || [ingredient.name, ingredient.amount, ingredient.unit].filter(part => part !== undefined && part !== '').join(' ');
+
+    const result = await searchWalmartProducts(searchTerm, consumerId, privateKey);
+    if (result.items.length === 0) {
+      return null;
+    }
+
+    return priceProductForIngredient(toGroceryProduct(result.items[0]), ingredient);
+  },
+
+  async buildCart(items) {
+    const { consumerId, privateKey, publisherId } = requireCredentials();
+    const result = await createConsolidatedCart(
+      items.map(item => ({ itemId: item.productId, quantity: item.quantity })),
+      consumerId,
+      privateKey,
+      publisherId
+    );
+
+    return { providerId: 'walmart', ...result };
+  }
+};
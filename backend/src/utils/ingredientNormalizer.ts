@@ -1,37 +1,145 @@
 /**
  * Ingredient name normalization utilities
- * Ensures consistent ingredient naming across recipes to enable better aggregation
+ * Ensures consistent ingredient naming across recipes to enable better aggregation.
+ * This is the one canonical form for Ingredient.name: recipes, imports, the pantry, price history
+ * and the comparison cache all key ingredients by it.
  */
 
+import {
+  BRAND_NAMES,
+  IRREGULAR_SINGULARS,
+  PREPARATION_TERMS,
+  UNCOUNTABLE_NOUNS,
+} from '../config/ingredientVocabulary.js';
+
+export interface CanonicalIngredient {
+  name: string; // Canonical Ingredient.name ("chicken breast")
+  notes: string | null; // What was split off the name, for RecipeIngredient.notes ("boneless, skinless")
+}
+
+const PREPARATION_WORDS = new Set(PREPARATION_TERMS);
+const UNCOUNTABLE_WORDS = new Set(UNCOUNTABLE_NOUNS);
+const CONNECTOR_WORDS = new Set(['and', 'or', 'of', 'with', 'plus']);
+
+// Longest first, so "nestle toll house" goes before "nestle" gets a chance to leave "toll house"
+const BRAND_PATTERNS = [...BRAND_NAMES]
+  .sort((a, b) => b.length - a.length)
+  .map(brand => new RegExp(`(^|\\s)${brand.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`, 'g'));
+
+// Serving hints that end a name ("salt to taste", "parsley for garnish")
+const SERVING_PHRASE = /\b(to taste|as needed|if desired|optional|for (serving|garnish|garnishing|frying|dusting|greasing|brushing))\b.*$/;
+
 /**
- * Normalize an ingredient name to a standard format
- * - Lowercase
- * - Singular form
- * - Remove common adjectives and parentheticals
- * - Trim whitespace
+ * Singular form of an ingredient noun ("tomatoes" → "tomato", "berries" → "berry", "leaves" → "leaf")
  */
-export function normalizeIngredientName(name: string): string {
-  let normalized = name
+export function singularizeWord(word: string): string {
+  if (word.length <= 3 || UNCOUNTABLE_WORDS.has(word)) {
+    return word;
+  }
+  if (IRREGULAR_SINGULARS[word]) {
+    return IRREGULAR_SINGULARS[word];
+  }
+  if (/[^aeiou]ies$/.test(word)) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (/(ch|sh|x|z)es$/.test(word) || /[^aeiou]oes$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (/[^su]s$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Split an ingredient name into its canonical name and notes:
+ * - Lowercase, brands removed ("Kikkoman soy sauce" → "soy sauce")
+ * - Preparation, state and size words move to notes ("finely chopped", "large", "frozen")
+ * - Anything after a comma and any parenthetical is a note ("chicken breasts, boneless")
+ * - The last word is made singular ("cherry tomatoes" → "cherry tomato")
+ */
+export function canonicalizeIngredient(name: string): CanonicalIngredient {
+  const trailingNotes: string[] = [];
+  const text = name
+    .normalize('NFKC')
     .toLowerCase()
-    .trim()
-    .replace(/\s*\([^)]*\)/g, '')
-    .replace(/\b(fresh|frozen|raw|cooked|dried|canned)\b/g, '')
-    .replace(/\b(wild-caught|farm-raised|organic|free-range)\b/g, '')
-    .replace(/\b(large|small|medium|extra-large|jumbo)\b/g, '')
-    .replace(/\b(whole|half|halved|quartered|sliced|diced|chopped|minced)\b/g, '')
-    .replace(/\b(peeled|deveined|trimmed|cleaned)\b/g, '')
-    .replace(/\bfillets?\b/g, 'fillet')
-    .replace(/\bbreasts?\b/g, 'breast')
-    .replace(/\bthighs?\b/g, 'thigh')
-    .replace(/\bcloves?\b/g, 'clove')
-    .replace(/\bonions?\b/g, 'onion')
-    .replace(/\btomatoes?\b/g, 'tomato')
-    .replace(/\bpotatoes?\b/g, 'potato')
-    .replace(/\bcarrots?\b/g, 'carrot')
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  return normalized;
+    .replace(/[™®©]/g, ' ')
+    .replace(/\(([^)]*)\)?/g, (_, inner: string) => {
+      trailingNotes.push(inner);
+      return ' ';
+    });
+
+  const [head, ...tail] = text.split(/[,;]/);
+  trailingNotes.unshift(...tail);
+
+  let base = head.replace(SERVING_PHRASE, phrase => {
+    trailingNotes.unshift(phrase);
+    return '';
+  });
+  for (const pattern of BRAND_PATTERNS) {
+    base = base.replace(pattern, ' ');
+  }
+
+  const words = base.split(/\s+/).map(word => word.replace(/^["'*.:!?]+|["'*.:!?]+$/g, '')).filter(Boolean);
+  const kept: string[] = [];
+  const descriptors: string[] = [];
+  let phrase: string[] = [];
+  for (const word of words) {
+    if (PREPARATION_WORDS.has(word)) {
+      phrase.push(word);
+      continue;
+    }
+    if (phrase.length > 0) {
+      descriptors.push(phrase.join(' '));
+      phrase = [];
+    }
+    kept.push(word);
+  }
+  if (phrase.length > 0) {
+    descriptors.push(phrase.join(' '));
+  }
+
+  while (kept.length > 0 && CONNECTOR_WORDS.has(kept[0])) kept.shift();
+  while (kept.length > 0 && CONNECTOR_WORDS.has(kept[kept.length - 1])) kept.pop();
+
+  // A name that is nothing but descriptors ("frozen") or a brand ("bisquick") stays as written
+  if (kept.length === 0) {
+    const fallback = words.length > 0 ? words : head.split(/\s+/).filter(Boolean);
+    return { name: fallback.join(' ').trim(), notes: mergeIngredientNotes(...trailingNotes) };
+  }
+
+  kept[kept.length - 1] = singularizeWord(kept[kept.length - 1]);
+
+  return {
+    name: kept.join(' '),
+    notes: mergeIngredientNotes(...descriptors, ...trailingNotes),
+  };
+}
+
+/**
+ * Normalize an ingredient name to its canonical form (see canonicalizeIngredient)
+ * "2 Large Chicken Breasts, boneless" → "chicken breast"
+ */
+export function normalizeIngredientName(name: string): string {
+  return canonicalizeIngredient(name).name;
+}
+
+/**
+ * Combine ingredient notes, dropping blanks and repeated parts ("boneless" + "boneless, skinless")
+ */
+export function mergeIngredientNotes(...notes: Array<string | null | undefined>): string | null {
+  const parts: string[] = [];
+  const seen = new Set<string>();
+
+  for (const part of notes.flatMap(note => (note || '').split(/[,;]/))) {
+    const trimmed = part.replace(/\s+/g, ' ').trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase());
+      parts.push(trimmed);
+    }
+  }
+
+  return parts.length > 0 ? parts.join(', ') : null;
 }
 
 /**
@@ -0,0 +1,201 @@
+// Instruction parsing utilities
+// Splits a recipe's instructions into cook-mode steps, pulls timers out of step text
+// ("simmer 20 minutes") and links each step to the recipe ingredients it mentions.
+// Runs on the stored instructions, so imported, AI and hand-written recipes parse the same way.
+
+export interface StepTimer {
+  label: string; // Cooking verb the duration belongs to ("Simmer"), or "Timer"
+  durationSeconds: number; // Lower bound of a range ("10-12 minutes" → 600)
+  maxDurationSeconds: number; // Upper bound; equals durationSeconds when not a range
+  text: string; // The duration as written
+}
+
+export interface CookStep {
+  index: number; // 0-based
+  text: string;
+  timers: StepTimer[];
+  recipeIngredientIds: string[];
+}
+
+interface StepIngredient {
+  id: string; // RecipeIngredient id
+  ingredient: { name: string };
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45, sixty: 60
+};
+
+const NUMBER = `\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?|forty-five|${Object.keys(NUMBER_WORDS).filter(word => word !== 'forty-five').join('|')}`;
+const UNIT = 'hours?|hrs?|minutes?|mins?|seconds?|secs?';
+
+// "20 minutes", "10-12 mins", "1 to 1 1/2 hours", "1 hour 15 minutes", "half an hour"
+const DURATION_PATTERN = new RegExp(
+  `\\b(?:(half an? hour)|(${NUMBER})(?:\\s*(?:-|–|to|or)\\s*(${NUMBER}))?\\s*(${UNIT})(?:\\s*(?:and\\s*)?(\\d+)\\s*(minutes?|mins?))?)\\b`,
+  'gi'
+);
+
+// Verbs that name a timer, checked in the clause before the duration
+const TIMER_VERBS = [
+  'bake', 'roast', 'broil', 'grill', 'simmer', 'boil', 'poach', 'braise', 'steam', 'fry', 'saute', 'sear',
+  'cook', 'brown', 'reduce', 'blanch', 'marinate', 'chill', 'refrigerate', 'freeze', 'rest', 'cool', 'rise',
+  'proof', 'soak', 'stand', 'steep', 'knead', 'whisk', 'beat', 'stir', 'mix', 'blend', 'toast', 'caramelize'
+];
+
+// Words too vague to link a step to an ingredient on their own
+const GENERIC_WORDS = new Set([
+  'fresh', 'dried', 'ground', 'whole', 'extra', 'virgin', 'light', 'dark', 'low', 'sodium', 'unsalted', 'salted',
+  'boneless', 'skinless', 'red', 'green', 'yellow', 'white', 'black', 'sweet', 'hot', 'baby', 'powder', 'sauce',
+  'seed', 'leaf', 'juice', 'zest', 'stock', 'broth', 'paste', 'flake', 'mix', 'water'
+]);
+
+function parseNumber(text: string): number {
+  const value = text.trim().toLowerCase();
+  if (value in NUMBER_WORDS) {
+    return NUMBER_WORDS[value];
+  }
+
+  const [whole, fraction] = value.includes('/') ? (value.includes(' ') ? value.split(/\s+/) : ['0', value]) : [value, ''];
+  if (!fraction) {
+    return parseFloat(whole);
+  }
+  const [numerator, denominator] = fraction.split('/').map(Number);
+  return parseFloat(whole) + (denominator ? numerator / denominator : 0);
+}
+
+function unitSeconds(unit: string): number {
+  const value = unit.toLowerCase();
+  if (value.startsWith('h')) return 3600;
+  if (value.startsWith('m')) return 60;
+  return 1;
+}
+
+/**
+ * Lowercase, punctuation-free, singular words ("Add the Onions." → "add the onion")
+ */
+function normalizeStepText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => {
+      if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+      if (word.length > 4 && /(oes|ches|shes)$/.test(word)) return word.slice(0, -2);
+      if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+      return word;
+    })
+    .join(' ');
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return phrase.length > 0 && ` ${text} `.includes(` ${phrase} `);
+}
+
+/**
+ * Cooking verb for a duration: the last timer verb in the clause leading up to it
+ */
+function findTimerLabel(textBefore: string): string {
+  const clause = textBefore.split(/[.;:!?]|\bthen\b/i).pop() || '';
+  const words = normalizeStepText(clause).split(' ');
+
+  for (let i = words.length - 1; i >= 0; i--) {
+    const verb = TIMER_VERBS.find(candidate => words[i] === candidate || words[i] === `${candidate}d` || words[i] === `${candidate}ed`);
+    if (verb) {
+      return verb.charAt(0).toUpperCase() + verb.slice(1);
+    }
+  }
+  return 'Timer';
+}
+
+/**
+ * Durations in a step, each as a named timer
+ */
+export function parseStepTimers(text: string): StepTimer[] {
+  const timers: StepTimer[] = [];
+
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const [matched, halfHour, start, end, unit, extraMinutes] = match;
+    let durationSeconds: number;
+    let maxDurationSeconds: number;
+
+    if (halfHour) {
+      durationSeconds = maxDurationSeconds = 1800;
+    } else {
+      const seconds = unitSeconds(unit);
+      const extra = extraMinutes ? parseInt(extraMinutes, 10) * 60 : 0;
+      durationSeconds = Math.round(parseNumber(start) * seconds) + extra;
+      maxDurationSeconds = end ? Math.round(parseNumber(end) * seconds) + extra : durationSeconds;
+    }
+
+    if (durationSeconds <= 0) continue;
+
+    timers.push({
+      label: findTimerLabel(text.slice(0, match.index)),
+      durationSeconds,
+      maxDurationSeconds: Math.max(maxDurationSeconds, durationSeconds),
+      text: matched
+    });
+  }
+
+  return timers;
+}
+
+/**
+ * Split stored instructions into steps. Entries that hold several steps
+ * (newlines, or "1." / "Step 2:" numbering from imports) are split further.
+ */
+export function splitInstructions(instructions: unknown): string[] {
+  const entries = Array.isArray(instructions)
+    ? instructions.map(entry => (typeof entry === 'string' ? entry : (entry as { text?: string })?.text || ''))
+    : typeof instructions === 'string' ? [instructions] : [];
+
+  return entries
+    .flatMap(entry => entry.split(/\n+|(?<=[.!?])\s+(?=(?:step\s*)?\d+[.):]\s)/i))
+    .map(step => step.replace(/^\s*(?:step\s*)?\d+[.):]\s*/i, '').trim())
+    .filter(step => step.length > 0);
+}
+
+/**
+ * Words that identify an ingredient in step text: its full name, plus its first
+ * and last words when no other ingredient in the recipe shares them
+ */
+function getIngredientTerms(ingredients: StepIngredient[]): Map<string, string[]> {
+  const names = new Map(ingredients.map(ri => [ri.id, normalizeStepText(ri.ingredient.name)]));
+  const wordCounts = new Map<string, number>();
+  for (const name of names.values()) {
+    for (const word of new Set(name.split(' '))) {
+      wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
+    }
+  }
+
+  const terms = new Map<string, string[]>();
+  for (const [id, name] of names) {
+    const words = name.split(' ').filter(Boolean);
+    const candidates = [words[words.length - 1], words[0]].filter(word =>
+      word && word.length > 2 && !GENERIC_WORDS.has(word) && wordCounts.get(word) === 1
+    );
+    terms.set(id, [...new Set([name, ...candidates])]);
+  }
+  return terms;
+}
+
+/**
+ * Cook-mode steps for a recipe: text, timers and the recipe ingredients each step uses
+ */
+export function parseRecipeSteps(instructions: unknown, recipeIngredients: StepIngredient[]): CookStep[] {
+  const terms = getIngredientTerms(recipeIngredients);
+
+  return splitInstructions(instructions).map((text, index) => {
+    const normalized = normalizeStepText(text);
+    return {
+      index,
+      text,
+      timers: parseStepTimers(text),
+      recipeIngredientIds: recipeIngredients
+        .filter(ri => (terms.get(ri.id) || []).some(term => containsPhrase(normalized, term)))
+        .map(ri => ri.id)
+    };
+  });
+}
@@ -0,0 +1,187 @@
+// Structured quantities for pantry and shopping list amounts
+import { findUnitDefinition } from '../config/unitCatalog.js';
+import { formatAmount } from './unitConversion.js';
+
+export interface Quantity {
+  value: number;
+  unit: string; // Canonical unit abbreviation (see config/unitCatalog.ts)
+  approximate: boolean;
+}
+
+/**
+ * Database columns holding a structured quantity
+ */
+export interface QuantityColumns {
+  quantityValue: number | null;
+  quantityUnit: string | null;
+  quantityApproximate: boolean;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '¼': ' 1/4', '½': ' 1/2', '¾': ' 3/4',
+  '⅓': ' 1/3', '⅔': ' 2/3',
+  '⅛': ' 1/8', '⅜': ' 3/8', '⅝': ' 5/8', '⅞': ' 7/8'
+};
+
+// Words that stand in for a number, and whether the number is a guess
+const NUMBER_WORDS: Record<string, { value: number; approximate: boolean }> = {
+  'a': { value: 1, approximate: false },
+  'an': { value: 1, approximate: false },
+  'one': { value: 1, approximate: false },
+  'two': { value: 2, approximate: false },
+  'three': { value: 3, approximate: false },
+  'four': { value: 4, approximate: false },
+  'five': { value: 5, approximate: false },
+  'six': { value: 6, approximate: false },
+  'dozen': { value: 12, approximate: false },
+  'half': { value: 0.5, approximate: false },
+  'a half': { value: 0.5, approximate: false },
+  'a couple': { value: 2, approximate: true },
+  'couple': { value: 2, approximate: true },
+  'a few': { value: 3, approximate: true },
+  'few': { value: 3, approximate: true },
+  'several': { value: 4, approximate: true }
+};
+
+const APPROXIMATE_PREFIXES = /^(about|around|approx\.?|approximately|roughly|~)\s*/i;
+
+/**
+ * Canonical unit abbreviation for a unit spelling.
+ * Unknown units are kept (lowercased, singular) so they still compare equal to themselves.
+ */
+export function canonicalizeUnit(unit: string | null | undefined): string {
+  const definition = findUnitDefinition(unit ?? '');
+  if (definition) {
+    return definition.abbreviation;
+  }
+
+  const normalized = (unit ?? '').toLowerCase().trim();
+  return normalized.length > 3 && normalized.endsWith('s') ? normalized.slice(0, -1) : normalized;
+}
+
+/**
+ * Parse a leading number: "2", "1.5", "1/2", "1 1/2", "2-3" (averaged, approximate)
+ */
+function parseLeadingNumber(text: string): { value: number; approximate: boolean; rest: string } | null {
+  const range = text.match(/^(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)\b(.*)$/);
+  if (range) {
+    return {
+      value: (parseFloat(range[1]) + parseFloat(range[2])) / 2,
+      approximate: true,
+      rest: range[3]
+    };
+  }
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)\b(.*)$/);
+  if (mixed && Number(mixed[3]) !== 0) {
+    return { value: Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]), approximate: false, rest: mixed[4] };
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)\b(.*)$/);
+  if (fraction && Number(fraction[2]) !== 0) {
+    return { value: Number(fraction[1]) / Number(fraction[2]), approximate: false, rest: fraction[3] };
+  }
+
+  const decimal = text.match(/^(\d*\.?\d+)(.*)$/);
+  if (decimal) {
+    return { value: parseFloat(decimal[1]), approximate: false, rest: decimal[2] };
+  }
+
+  const words = Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length);
+  for (const word of words) {
+    if (text === word || text.startsWith(`${word} `)) {
+      return { ...NUMBER_WORDS[word], rest: text.slice(word.length) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a free-text amount ("2 lbs", "1 1/2 cups", "about 3", "plenty") into a quantity.
+ * The unit inside the amount string wins over the separate unit field.
+ * Returns null when the amount has no usable number ("plenty", "some").
+ */
+export function parseQuantity(amount: string | number | null | undefined, unit?: string | null): Quantity | null {
+  if (amount === null || amount === undefined) {
+    return null;
+  }
+  if (typeof amount === 'number') {
+    return isFinite(amount) ? { value: amount, unit: canonicalizeUnit(unit), approximate: false } : null;
+  }
+
+  // Case is kept for the unit: "2 T" is tablespoons, "2 t" teaspoons
+  let text = amount.trim();
+  for (const [symbol, replacement] of Object.entries(UNICODE_FRACTIONS)) {
+    text = text.split(symbol).join(replacement);
+  }
+  text = text.replace(/\s+/g, ' ').trim();
+
+  let approximate = false;
+  if (APPROXIMATE_PREFIXES.test(text)) {
+    approximate = true;
+    text = text.replace(APPROXIMATE_PREFIXES, '');
+  }
+
+  const parsed = parseLeadingNumber(text.toLowerCase());
+  if (!parsed || !isFinite(parsed.value)) {
+    return null;
+  }
+
+  // "2 lbs", "3 cloves garlic", "1 (14 oz) can" - take the first word(s) that name a known unit
+  const rest = text.slice(text.length - parsed.rest.length).replace(/\([^)]*\)/g, ' ').replace(/^\s*(of\s+)?/, '').trim();
+  let parsedUnit: string | undefined;
+  const restWords = rest.split(' ').filter(Boolean);
+  if (restWords.length >= 2 && findUnitDefinition(`${restWords[0]} ${restWords[1]}`)) {
+    parsedUnit = `${restWords[0]} ${restWords[1]}`;
+  } else if (restWords.length >= 1 && findUnitDefinition(restWords[0])) {
+    parsedUnit = restWords[0];
+  }
+
+  return {
+    value: parsed.value,
+    unit: canonicalizeUnit(parsedUnit ?? unit),
+    approximate: approximate || parsed.approximate
+  };
+}
+
+/**
+ * Human-readable amount for a quantity, e.g. "1 1/2" or "~3"
+ */
+export function formatQuantityAmount(quantity: Quantity): string {
+  return `${quantity.approximate ? '~' : ''}${formatAmount(quantity.value)}`;
+}
+
+/**
+ * Columns to store for a quantity (null when unquantified)
+ */
+export function toQuantityColumns(quantity: Quantity | null): QuantityColumns {
+  return {
+    quantityValue: quantity ? quantity.value : null,
+    quantityUnit: quantity ? quantity.unit : null,
+    quantityApproximate: quantity ? quantity.approximate : false
+  };
+}
+
+/**
+ * Read the structured quantity of a pantry or shopping list row.
+ * Rows saved before quantities were structured are parsed from their amount string.
+ */
+export function readQuantity(row: {
+  quantityValue?: number | null;
+  quantityUnit?: string | null;
+  quantityApproximate?: boolean;
+  amount?: string;
+  totalAmount?: string;
+  unit?: string | null;
+}): Quantity | null {
+  if (row.quantityValue !== null && row.quantityValue !== undefined) {
+    return {
+      value: row.quantityValue,
+      unit: row.quantityUnit ?? '',
+      approximate: row.quantityApproximate ?? false
+    };
+  }
+
+  return parseQuantity(row.amount ?? row.totalAmount, row.unit);
+}
@@ -0,0 +1,172 @@
+// Recipe scaling utilities
+// Scales recipe ingredient amounts to a number of servings, and rounds scaled amounts
+// to units and fractions a cook can actually measure (1/3 cup, not 0.33 cup; whole eggs)
+
+import { findUnitDefinition } from '../config/unitCatalog.js';
+import { canonicalizeUnit } from './quantity.js';
+import { convertToCups, convertToPounds, formatAmount, getBestVolumeUnit, getBestWeightUnit } from './unitConversion.js';
+
+export interface ScaledAmount {
+  amount: number; // Rounded, in unit
+  unit: string; // Canonical unit abbreviation
+  display: string; // e.g. "1 1/3 cups", "2 cloves", "3"
+  exactAmount: number; // Unrounded, in the original unit
+  originalAmount: number;
+  originalUnit: string;
+}
+
+// Fractions found on measuring cups and spoons
+const CUP_FRACTIONS = [0, 1/4, 1/3, 1/2, 2/3, 3/4, 1];
+const SPOON_FRACTIONS = [0, 1/8, 1/4, 1/2, 3/4, 1];
+const HALVES = [0, 1/2, 1];
+const QUARTERS = [0, 1/4, 1/2, 3/4, 1];
+
+// Count units that only come whole
+const WHOLE_COUNT_UNITS = ['clove', 'can', 'package', 'slice', 'bunch'];
+
+// Counted ingredients you can't use part of, whatever they're counted in ("3 large eggs")
+const WHOLE_ITEM_PATTERN = /\beggs?\b/i;
+
+// Amounts that aren't measured, so they stay as written at any scale ("salt, to taste")
+const UNSCALED_UNITS = ['pinch', 'to taste', 'as needed', 'for garnish', 'for serving'];
+
+/**
+ * Round to the nearest whole number plus one of the given fractions
+ */
+export function roundToFraction(value: number, fractions: number[] = CUP_FRACTIONS): number {
+  const whole = Math.floor(value);
+  const rest = value - whole;
+  const nearest = fractions.reduce((best, fraction) => Math.abs(fraction - rest) < Math.abs(best - rest) ? fraction : best, 0);
+  return whole + nearest;
+}
+
+/**
+ * Multiplier that turns a recipe's servings into the requested servings
+ */
+export function getServingsScale(recipeServings: number, servings: number): number {
+  return recipeServings > 0 ? servings / recipeServings : 1;
+}
+
+/**
+ * Servings a meal slot cooks: its override, or the recipe as written
+ */
+export function getSlotServings(slot: { servings?: number | null; recipe: { servings: number } | null }): number {
+  return slot.servings ?? slot.recipe?.servings ?? 0;
+}
+
+/**
+ * Multiplier for a meal slot's ingredient amounts
+ */
+export function getSlotScale(slot: { servings?: number | null; recipe: { servings: number } | null }): number {
+  return slot.servings && slot.recipe ? getServingsScale(slot.recipe.servings, slot.servings) : 1;
+}
+
+/**
+ * The recipe with every ingredient amount multiplied, unrounded (for shopping and pantry deduction)
+ */
+export function scaleRecipeIngredients<T extends { recipeIngredients: Array<{ amount: number }> }>(recipe: T, scale: number): T {
+  if (scale === 1) {
+    return recipe;
+  }
+
+  return {
+    ...recipe,
+    recipeIngredients: recipe.recipeIngredients.map(ri => ({ ...ri, amount: ri.amount * scale }))
+  };
+}
+
+function displayUnit(amount: number, unit: string): string {
+  const definition = findUnitDefinition(unit);
+  if (!definition) {
+    return unit;
+  }
+  if (definition.abbreviation === 'count') {
+    return '';
+  }
+  // Abbreviations read the same either way ("2 tbsp"); spelled-out units pluralize ("2 cups", "2 cloves")
+  return amount > 1 && definition.abbreviation === definition.name ? definition.pluralName : definition.abbreviation;
+}
+
+function roundVolume(amount: number, unit: string): { amount: number; unit: string } {
+  const definition = findUnitDefinition(unit)!;
+
+  if (definition.system === 'metric') {
+    const ml = definition.abbreviation === 'L' ? amount * 1000 : amount;
+    if (ml >= 1000) {
+      return { amount: Math.round(ml / 10) / 100, unit: 'L' };
+    }
+    return { amount: ml >= 20 ? Math.round(ml / 5) * 5 : Math.max(1, Math.round(ml)), unit: 'ml' };
+  }
+
+  const best = getBestVolumeUnit(convertToCups(amount, definition.abbreviation));
+  const bestUnit = canonicalizeUnit(best.unit);
+  const fractions = bestUnit === 'tsp' ? SPOON_FRACTIONS : bestUnit === 'tbsp' ? HALVES : bestUnit === 'cup' ? CUP_FRACTIONS : QUARTERS;
+  return { amount: Math.max(roundToFraction(best.amount, fractions), 1/8), unit: bestUnit };
+}
+
+function roundWeight(amount: number, unit: string): { amount: number; unit: string } {
+  const definition = findUnitDefinition(unit)!;
+
+  if (definition.system === 'metric') {
+    const grams = definition.abbreviation === 'kg' ? amount * 1000 : amount;
+    if (grams >= 1000) {
+      return { amount: Math.round(grams / 10) / 100, unit: 'kg' };
+    }
+    return { amount: grams >= 100 ? Math.round(grams / 5) * 5 : Math.max(1, Math.round(grams)), unit: 'g' };
+  }
+
+  const best = getBestWeightUnit(convertToPounds(amount, definition.abbreviation));
+  const bestUnit = canonicalizeUnit(best.unit);
+  const fractions = bestUnit === 'lb' ? QUARTERS : best.amount < 4 ? HALVES : [0, 1];
+  return { amount: Math.max(roundToFraction(best.amount, fractions), 1/4), unit: bestUnit };
+}
+
+function roundCount(amount: number, unit: string): number {
+  if (WHOLE_COUNT_UNITS.includes(unit)) {
+    return Math.max(1, Math.round(amount));
+  }
+  return Math.max(roundToFraction(amount, QUARTERS), 1/4);
+}
+
+/**
+ * Scale one ingredient amount and pick a sensible unit for the result.
+ * Volumes and weights move between units (48 tsp → 1 cup, 20 oz → 1 1/4 lb) and snap to
+ * measuring fractions; count items round to quarters, or to whole items for cloves and cans.
+ * Eggs come whole unless measured by volume or weight. Unmeasured amounts ("to taste", a pinch)
+ * and anything at scale 1 are returned as written.
+ */
+export function scaleIngredientAmount(amount: number, unit: string, scale: number, ingredientName: string = ''): ScaledAmount {
+  const canonical = canonicalizeUnit(unit);
+  const unscaled = scale === 1 || UNSCALED_UNITS.includes(canonical);
+  const exactAmount = unscaled ? amount : amount * scale;
+  let rounded: { amount: number; unit: string };
+
+  if (unscaled) {
+    rounded = { amount, unit: canonical };
+  } else {
+    const type = findUnitDefinition(canonical)?.type;
+    if (type === 'volume') {
+      rounded = roundVolume(exactAmount, canonical);
+    } else if (type === 'weight') {
+      rounded = roundWeight(exactAmount, canonical);
+    } else if (WHOLE_ITEM_PATTERN.test(ingredientName)) {
+      rounded = { amount: Math.max(1, Math.round(exactAmount)), unit: canonical };
+    } else if (type === 'count') {
+      rounded = { amount: roundCount(exactAmount, canonical), unit: canonical };
+    } else {
+      rounded = { amount: Math.max(roundToFraction(exactAmount, SPOON_FRACTIONS), 1/8), unit: canonical };
+    }
+  }
+
+  const unitLabel = displayUnit(rounded.amount, rounded.unit);
+  // Metric amounts read as decimals ("1.5 kg"), imperial ones as fractions ("1 1/2 lb")
+  const amountLabel = findUnitDefinition(rounded.unit)?.system === 'metric' ? String(rounded.amount) : formatAmount(rounded.amount);
+  return {
+    amount: rounded.amount,
+    unit: rounded.unit,
+    display: unitLabel ? `${amountLabel} ${unitLabel}` : amountLabel,
+    exactAmount,
+    originalAmount: amount,
+    originalUnit: unit
+  };
+}
@@ -0,0 +1,410 @@
+// Recipe structured data parsing
+// Finds the schema.org Recipe in a page (JSON-LD, then microdata, then RDFa) and reads it into our recipe shape.
+// Pure functions with no database or network access; the URL and bulk importers normalize units afterwards.
+
+import * as cheerio from 'cheerio';
+import { findUnitDefinition } from '../config/unitCatalog.js';
+
+export interface ParsedRecipe {
+  title: string;
+  description?: string;
+  ingredients: Array<{
+    name: string;
+    amount: string;
+    unit: string;
+    notes?: string;
+  }>;
+  instructions: string[];
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  nutrition?: {
+    calories?: number;
+    protein?: number;
+    carbs?: number;
+    fat?: number;
+  };
+}
+
+export interface StructuredRecipeData {
+  method: 'json-ld' | 'microdata' | 'rdfa';
+  // schema.org Recipe in JSON-LD shape, whichever markup it came from
+  data: any;
+}
+
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+type CheerioSelection = ReturnType<CheerioRoot>;
+
+/**
+ * Last segment of a schema.org type or property: "http://schema.org/Recipe" and "schema:Recipe" → "Recipe"
+ */
+function schemaTerm(value: string): string {
+  return value.replace(/[/#]+$/, '').split(/[/:#]/).pop() || value;
+}
+
+function hasSchemaType(node: any, type: string): boolean {
+  const types = Array.isArray(node?.['@type']) ? node['@type'] : [node?.['@type']];
+  return types.some((t: unknown) => typeof t === 'string' && schemaTerm(t) === type);
+}
+
+function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Find the Recipe in a JSON-LD document: top-level arrays, @graph lists and multi-typed nodes
+ */
+function findJsonLdRecipe(jsonLd: any): any | null {
+  for (const node of toArray(jsonLd)) {
+    if (hasSchemaType(node, 'Recipe')) return node;
+    if (Array.isArray(node?.['@graph'])) {
+      const recipe = findJsonLdRecipe(node['@graph']);
+      if (recipe) return recipe;
+    }
+  }
+  return null;
+}
+
+/**
+ * Text of an element with line breaks kept between list items, paragraphs and <br>s,
+ * so instructions written as one block still split into steps
+ */
+function blockText($: CheerioRoot, elem: CheerioSelection): string {
+  const copy = elem.clone();
+  copy.find('br').replaceWith('\n');
+  copy.find('li, p, div, h1, h2, h3, h4, h5, h6').each((_, child) => {
+    $(child).append('\n');
+  });
+  return copy
+    .text()
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+interface MarkupSyntax {
+  scope: string;      // Selector for an element that starts an item
+  typeAttr: string;   // Attribute holding the item type
+  propAttr: string;   // Attribute holding the property names
+}
+
+const MICRODATA: MarkupSyntax = { scope: '[itemscope]', typeAttr: 'itemtype', propAttr: 'itemprop' };
+const RDFA: MarkupSyntax = { scope: '[typeof]', typeAttr: 'typeof', propAttr: 'property' };
+
+/**
+ * Value of a property element: machine-readable attributes first, then its text
+ */
+function readPropertyValue($: CheerioRoot, elem: CheerioSelection): string {
+  const attr = (name: string) => elem.attr(name)?.trim();
+  const tag = elem.prop('tagName')?.toLowerCase();
+
+  const content = attr('content');
+  if (content !== undefined) return content;
+  if (tag === 'time' && attr('datetime')) return attr('datetime')!;
+  if ((tag === 'data' || tag === 'meter') && attr('value')) return attr('value')!;
+  if ((tag === 'img' || tag === 'source') && attr('src')) return attr('src')!;
+  if ((tag === 'a' || tag === 'link') && attr('href')) return attr('href')!;
+  if (attr('resource')) return attr('resource')!;
+  return blockText($, elem);
+}
+
+/**
+ * Read a microdata or RDFa item into a JSON-LD-shaped object. Properties belong to the nearest
+ * enclosing item, so nested items (nutrition, instruction sections, steps) become nested objects.
+ * Repeated properties become arrays.
+ */
+function readMarkupItem($: CheerioRoot, item: CheerioSelection, syntax: MarkupSyntax): any {
+  const node: any = {};
+  const types = (item.attr(syntax.typeAttr) || '').split(/\s+/).filter(Boolean).map(schemaTerm);
+  if (types.length > 0) {
+    node['@type'] = types.length === 1 ? types[0] : types;
+  }
+
+  item.find(`[${syntax.propAttr}]`).each((_, el) => {
+    const elem = $(el);
+    if (elem.parent().closest(syntax.scope)[0] !== item[0]) return;
+
+    const value = elem.is(syntax.scope) ? readMarkupItem($, elem, syntax) : readPropertyValue($, elem);
+    const names = (elem.attr(syntax.propAttr) || '').split(/\s+/).filter(Boolean).map(schemaTerm);
+    for (const name of names) {
+      node[name] = name in node ? [...toArray(node[name]), value] : value;
+    }
+  });
+
+  return node;
+}
+
+/**
+ * Extract the schema.org Recipe from HTML: JSON-LD, then microdata, then RDFa
+ */
+export function extractStructuredData(html: string): StructuredRecipeData | null {
+  const $ = cheerio.load(html);
+
+  // Try JSON-LD first (most common)
+  const jsonLdScripts = $('script[type="application/ld+json"]');
+  for (let i = 0; i < jsonLdScripts.length; i++) {
+    try {
+      const recipe = findJsonLdRecipe(JSON.parse($(jsonLdScripts[i]).html() || '{}'));
+      if (recipe) {
+        return { method: 'json-ld', data: recipe };
+      }
+    } catch (e) {
+      // Invalid JSON, continue
+    }
+  }
+
+  // Microdata: <div itemscope itemtype="https://schema.org/Recipe">
+  const microdataRecipe = $('[itemscope][itemtype]').filter((_, el) =>
+    ($(el).attr('itemtype') || '').split(/\s+/).some(type => schemaTerm(type) === 'Recipe')
+  ).first();
+  if (microdataRecipe.length > 0) {
+    return { method: 'microdata', data: readMarkupItem($, microdataRecipe, MICRODATA) };
+  }
+
+  // RDFa: <div vocab="https://schema.org/" typeof="Recipe"> or typeof="schema:Recipe"
+  const rdfaRecipe = $('[typeof]').filter((_, el) =>
+    ($(el).attr('typeof') || '').split(/\s+/).some(type => schemaTerm(type) === 'Recipe')
+  ).first();
+  if (rdfaRecipe.length > 0) {
+    return { method: 'rdfa', data: readMarkupItem($, rdfaRecipe, RDFA) };
+  }
+
+  return null;
+}
+
+/**
+ * Read a schema.org Recipe (JSON-LD shape) into a recipe, with units as written on the page.
+ * Returns null when it lacks a title, ingredients or instructions.
+ */
+export function readSchemaRecipe(jsonLd: any): ParsedRecipe | null {
+  const partialRecipe = parseJsonLd(jsonLd);
+  if (!partialRecipe.title || !partialRecipe.ingredients || !partialRecipe.instructions) {
+    return null;
+  }
+
+  return {
+    title: partialRecipe.title,
+    description: '',
+    ingredients: partialRecipe.ingredients,
+    instructions: partialRecipe.instructions,
+    prepTime: partialRecipe.prepTime || 0,
+    cookTime: partialRecipe.cookTime || 0,
+    servings: partialRecipe.servings || 4,
+    nutrition: partialRecipe.nutrition
+  };
+}
+
+/**
+ * Parse JSON-LD structured data into our recipe format
+ */
+function parseJsonLd(jsonLd: any): Partial<ParsedRecipe> {
+  const recipe: Partial<ParsedRecipe> = {};
+
+  // Title
+  recipe.title = cleanText(firstText(jsonLd.name) || firstText(jsonLd.headline) || '');
+
+  // NO DESCRIPTION - copyright protection
+  recipe.description = '';
+
+  // Ingredients (older markup uses "ingredients")
+  const ingredientLines = toArray(jsonLd.recipeIngredient ?? jsonLd.ingredients)
+    .filter((ing: unknown): ing is string => typeof ing === 'string')
+    .map(ing => cleanText(ing).replace(/\s+/g, ' '))
+    .filter(ing => ing.length > 0);
+  if (ingredientLines.length > 0) {
+    recipe.ingredients = ingredientLines.map((ing: string) => {
+      // Normalize unicode fractions to ASCII ("1½" → "1 1/2")
+      const normalized = ing
+        .replace(/(\d)(?=[\u00BC-\u00BE\u2150-\u215E])/g, '$1 ')
+        .replace(/\u00BC/g, '1/4').replace(/\u00BD/g, '1/2').replace(/\u00BE/g, '3/4')
+        .replace(/\u2150/g, '1/7').replace(/\u2151/g, '1/9').replace(/\u2152/g, '1/10')
+        .replace(/\u2153/g, '1/3').replace(/\u2154/g, '2/3')
+        .replace(/\u2155/g, '1/5').replace(/\u2156/g, '2/5').replace(/\u2157/g, '3/5').replace(/\u2158/g, '4/5')
+        .replace(/\u2159/g, '1/6').replace(/\u215A/g, '5/6')
+        .replace(/\u215B/g, '1/8').replace(/\u215C/g, '3/8').replace(/\u215D/g, '5/8').replace(/\u215E/g, '7/8')
+        .trim();
+
+      // Extract parenthetical content as notes, strip weight conversions like (45 g)
+      const notes: string[] = [];
+      const withoutParens = normalized.replace(/\s*\(([^)]*)\)/g, (_match, content) => {
+        const trimmedContent = content.trim();
+        // Skip empty parens or pure weight conversions like "45 g", "100 ml"
+        if (!trimmedContent || /^\d+\s*(g|kg|mg|oz|lb|ml|L)$/i.test(trimmedContent)) {
+          return '';
+        }
+        notes.push(trimmedContent);
+        return '';
+      });
+
+      // Known units for matching
+      const unitPattern = /^([\d./\s-]+)\s*(cups?|tablespoons?|teaspoons?|tbsp|tsp|ounces?|oz|pounds?|lbs?|lb|grams?|g|kg|kilograms?|ml|milliliters?|liters?|L|pinch|dash|cloves?|pieces?|whole|cans?|packages?|bunche?s?|stalks?|sprigs?|heads?|slices?|sticks?)\s+(.+)$/i;
+      const match = withoutParens.match(unitPattern);
+
+      if (match) {
+        const [, amount, unit, name] = match;
+        return {
+          name: name.replace(/,\s*$/, '').trim(),
+          amount: amount.trim(),
+          unit: unit.trim().toLowerCase(),
+          ...(notes.length > 0 ? { notes: notes.join(', ') } : {})
+        };
+      }
+
+      // Fallback: try to extract just a leading number
+      const numMatch = withoutParens.match(/^([\d./\s-]+)\s+(.+)$/);
+      if (numMatch) {
+        // Catalog units the pattern above doesn't list ("1 qt stock", "2 fl oz cream")
+        const words = numMatch[2].split(/\s+/);
+        const unitWordCount = [2, 1].find(count => words.length > count && findUnitDefinition(words.slice(0, count).join(' ')));
+        if (unitWordCount) {
+          return {
+            name: words.slice(unitWordCount).join(' ').replace(/,\s*$/, '').trim(),
+            amount: numMatch[1].trim(),
+            unit: words.slice(0, unitWordCount).join(' '),
+            ...(notes.length > 0 ? { notes: notes.join(', ') } : {})
+          };
+        }
+
+        return {
+          name: numMatch[2].replace(/,\s*$/, '').trim(),
+          amount: numMatch[1].trim(),
+          unit: 'piece',
+          ...(notes.length > 0 ? { notes: notes.join(', ') } : {})
+        };
+      }
+
+      return {
+        name: withoutParens.replace(/,\s*$/, '').trim() || ing.trim(),
+        amount: '1',
+        unit: 'piece',
+        ...(notes.length > 0 ? { notes: notes.join(', ') } : {})
+      };
+    });
+  }
+
+  // Instructions
+  const instructions = parseInstructions(jsonLd.recipeInstructions);
+  if (instructions.length > 0) {
+    recipe.instructions = instructions;
+  }
+
+  // Times (convert ISO 8601 duration to minutes)
+  recipe.prepTime = parseDuration(firstText(jsonLd.prepTime)) || 0;
+  recipe.cookTime = parseDuration(firstText(jsonLd.cookTime)) || parseDuration(firstText(jsonLd.totalTime)) || 0;
+
+  // Servings
+  recipe.servings = parseYield(jsonLd.recipeYield) || 4;
+
+  // Nutrition (microdata and RDFa can repeat a property, so take the first)
+  const nutrition = toArray(jsonLd.nutrition)[0];
+  if (nutrition && typeof nutrition === 'object') {
+    recipe.nutrition = {
+      calories: Math.round(parseNutritionValue(nutrition.calories) ?? 0) || undefined,
+      protein: parseNutritionValue(nutrition.proteinContent),
+      carbs: parseNutritionValue(nutrition.carbohydrateContent),
+      fat: parseNutritionValue(nutrition.fatContent),
+    };
+  }
+
+  return recipe;
+}
+
+/**
+ * First non-empty string of a value that may be repeated
+ */
+function firstText(value: unknown): string | undefined {
+  const text = toArray(value).find((v): v is string => typeof v === 'string' && v.trim().length > 0);
+  return text?.trim();
+}
+
+/**
+ * Strip tags and decode entities some sites leave inside JSON-LD strings
+ */
+function cleanText(text: string): string {
+  if (!/[<&]/.test(text)) return text.trim();
+  return cheerio.load(`<body>${text}</body>`)('body').text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Flatten recipeInstructions into steps: plain text (split into lines or numbered steps), HowToStep
+ * lists, and HowToSection groups, whose name prefixes the section's first step ("For the sauce: ...")
+ */
+export function parseInstructions(value: unknown, isList = false): string[] {
+  if (typeof value === 'string') {
+    // Split by newlines, or numbers too when the whole method is one string
+    return value
+      .split(isList ? /\n+/ : /\n+|\d+\.\s+/)
+      .map(s => cleanText(s))
+      .filter(s => s.length > 0);
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => parseInstructions(item, true));
+  }
+
+  if (value && typeof value === 'object') {
+    const node = value as any;
+    if (hasSchemaType(node, 'HowToSection') || (node.itemListElement && !node.text)) {
+      const steps = parseInstructions(toArray(node.itemListElement));
+      const sectionName = firstText(node.name);
+      if (sectionName && steps.length > 0) {
+        steps[0] = `${cleanText(sectionName)}: ${steps[0]}`;
+      }
+      return steps;
+    }
+
+    const text = firstText(node.text) || firstText(node.name);
+    return text ? [cleanText(text)] : [];
+  }
+
+  return [];
+}
+
+/**
+ * Servings from recipeYield: "4", "4 servings", "Serves 4-6" (lower end of a range), or a list
+ * like ["4", "4 servings", "1 loaf"], where the servings entry wins
+ */
+export function parseYield(value: unknown): number | undefined {
+  const yields = toArray(value).map(v => String(v)).filter(v => /\d/.test(v));
+  const chosen = yields.find(v => /serv|people|portion|person/i.test(v)) || yields[0];
+  if (!chosen) return undefined;
+
+  const range = chosen.match(/(\d+)\s*(?:-|–|to)\s*(\d+)/i);
+  const servings = parseInt(range ? range[1] : chosen.match(/\d+/)![0]);
+  return servings > 0 ? servings : undefined;
+}
+
+/**
+ * Number from a nutrition value: 250, "250 calories", "1,200 kcal", "12.5 g"
+ */
+function parseNutritionValue(value: unknown): number | undefined {
+  const text = firstText(typeof value === 'number' ? String(value) : value);
+  const match = text?.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) || undefined : undefined;
+}
+
+/**
+ * Parse a duration to minutes: ISO 8601 (PT1H30M, P0DT0H15M) or text like "1 hr 15 mins"
+ */
+export function parseDuration(duration: string | undefined): number {
+  if (!duration) return 0;
+
+  // PT15M = 15 minutes, PT1H30M = 90 minutes
+  const iso = duration.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?/i);
+  if (iso && (iso[1] || iso[2] || iso[3])) {
+    const days = parseInt(iso[1] || '0');
+    const hours = parseInt(iso[2] || '0');
+    const minutes = parseInt(iso[3] || '0');
+    return days * 24 * 60 + hours * 60 + minutes;
+  }
+
+  const hours = duration.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/i);
+  const minutes = duration.match(/(\d+)\s*(?:minutes?|mins?|m)\b/i);
+  if (hours || minutes) {
+    return Math.round(parseFloat(hours?.[1] || '0') * 60) + parseInt(minutes?.[1] || '0');
+  }
+
+  return 0;
+}
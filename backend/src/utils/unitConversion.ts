@@ -122,6 +122,7 @@ export function formatAmount(amount: number): string {
   const fraction = amount - whole;
 
   const fractions: [number, string][] = [
+    [1/8, '1/8'],
     [1/4, '1/4'],
     [1/3, '1/3'],
     [1/2, '1/2'],
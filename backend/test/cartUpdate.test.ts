@@ -0,0 +1,149 @@
+// Cart update tests
+// Adding and taking recipes off a cart changes only each recipe's share of an item, and the
+// pantry it counted on; merge checks only pair the ingredients a change brought in.
+
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ShoppingListItem } from '@prisma/client';
+import type { CartItem } from '../src/services/ingredientSimilarity.js';
+
+let cartUpdates: typeof import('../src/services/cartUpdateService.js');
+let similarity: typeof import('../src/services/ingredientSimilarity.js');
+let conversions: import('../src/services/unitConversionService.js').ConversionTable;
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  process.env.NODE_ENV = 'test';
+  process.env.OPENAI_API_KEY ??= 'test-key'; // Clients are built at import; nothing here calls them
+
+  cartUpdates = await import('../src/services/cartUpdateService.js');
+  similarity = await import('../src/services/ingredientSimilarity.js');
+  conversions = (await import('../src/services/unitConversionService.js')).catalogConversionTable();
+});
+
+function makeItem(overrides: Partial<ShoppingListItem> & { id: string; ingredientId: string; amount: number; unit: string }): ShoppingListItem {
+  const { amount, ...item } = overrides;
+  return {
+    shoppingListId: 'list-1',
+    name: null,
+    source: 'recipe',
+    stapleId: null,
+    totalAmount: String(amount),
+    quantityValue: amount,
+    quantityUnit: overrides.unit,
+    quantityApproximate: false,
+    neededAmount: null,
+    onHandAmount: null,
+    toBuyAmount: null,
+    usePantry: true,
+    walmartItemId: null,
+    estimatedPrice: null,
+    isPurchased: false,
+    ...item,
+  };
+}
+
+const quantity = (value: number, unit: string) => ({ value, unit, approximate: false });
+
+describe('adding a recipe to an item', () => {
+  it('adds the share in the item unit', () => {
+    const items = [makeItem({ id: 'milk', ingredientId: 'ing-milk', amount: 1, unit: 'cup' })];
+    const added = cartUpdates.addToExistingItem(items, 'ing-milk', quantity(8, 'tbsp'), conversions, null);
+
+    assert.ok(added);
+    assert.equal(added.item.id, 'milk');
+    assert.equal(added.contributed, 0.5);
+    assert.equal(added.data.quantityValue, 1.5);
+    assert.equal(added.data.totalAmount, '1.5');
+  });
+
+  it('leaves purchased items alone', () => {
+    const items = [
+      makeItem({ id: 'bought', ingredientId: 'ing-milk', amount: 1, unit: 'cup', isPurchased: true }),
+      makeItem({ id: 'open', ingredientId: 'ing-milk', amount: 2, unit: 'cup' }),
+    ];
+    const added = cartUpdates.addToExistingItem(items, 'ing-milk', quantity(1, 'cup'), conversions, null);
+    assert.equal(added?.item.id, 'open');
+
+    const onlyBought = cartUpdates.addToExistingItem(items.slice(0, 1), 'ing-milk', quantity(1, 'cup'), conversions, null);
+    assert.equal(onlyBought, null);
+  });
+
+  it('needs a new item when the units do not convert', () => {
+    const items = [makeItem({ id: 'eggs', ingredientId: 'ing-eggs', amount: 6, unit: 'count' })];
+    assert.equal(cartUpdates.addToExistingItem(items, 'ing-eggs', quantity(200, 'g'), conversions, null), null);
+  });
+
+  it('covers only the added amount from the pantry', () => {
+    const items = [makeItem({
+      id: 'butter', ingredientId: 'ing-butter', amount: 2, unit: 'oz',
+      neededAmount: 4, onHandAmount: 2, toBuyAmount: 2,
+    })];
+    const allocation = {
+      table: conversions,
+      allocated: new Map([['ing-butter', { quantities: [quantity(3, 'oz')], unlimited: false }]]),
+      expired: [],
+    };
+    const added = cartUpdates.addToExistingItem(items, 'ing-butter', quantity(4, 'oz'), conversions, allocation);
+
+    assert.ok(added);
+    assert.equal(added.contributed, 4);
+    assert.equal(added.data.neededAmount, 8);
+    assert.equal(added.data.onHandAmount, 5); // 2 already counted + 3 more from the pantry
+    assert.equal(added.data.toBuyAmount, 3);
+  });
+});
+
+describe('taking a recipe off an item', () => {
+  it('subtracts only its share', () => {
+    const item = makeItem({ id: 'milk', ingredientId: 'ing-milk', amount: 3, unit: 'cup' });
+    const data = cartUpdates.removeFromItem(item, 1);
+    assert.equal(data?.quantityValue, 2);
+  });
+
+  it('deletes the item once nothing is left', () => {
+    const item = makeItem({ id: 'milk', ingredientId: 'ing-milk', amount: 1, unit: 'cup' });
+    assert.equal(cartUpdates.removeFromItem(item, 1), null);
+  });
+
+  it('keeps pantry coverage up to the remaining need', () => {
+    const item = makeItem({
+      id: 'flour', ingredientId: 'ing-flour', amount: 1, unit: 'cup',
+      neededAmount: 4, onHandAmount: 3, toBuyAmount: 1,
+    });
+
+    const partly = cartUpdates.removeFromItem(item, 2);
+    assert.equal(partly?.neededAmount, 2);
+    assert.equal(partly?.onHandAmount, 2);
+    assert.equal(partly?.toBuyAmount, 0);
+
+    const stillShort = cartUpdates.removeFromItem({ ...item, onHandAmount: 1, toBuyAmount: 3 }, 1);
+    assert.equal(stillShort?.onHandAmount, 1);
+    assert.equal(stillShort?.toBuyAmount, 2);
+  });
+});
+
+describe('merge checks after a change', () => {
+  const cartItem = (ingredientId: string, ingredientName: string): CartItem => ({
+    ingredientId, ingredientName, amount: 1, unit: 'cup', recipes: [],
+  });
+  const items = [
+    cartItem('ing-milk', 'milk'),
+    cartItem('ing-whole-milk', 'whole milk'),
+    cartItem('ing-cream', 'heavy cream'),
+  ];
+  const names = (pairs: Array<[CartItem, CartItem]>) => pairs.map(([a, b]) => `${a.ingredientName}|${b.ingredientName}`);
+
+  it('pairs only the new ingredients with the rest of the cart', () => {
+    const pairs = similarity.pairsToCompare(items, new Set(['ing-cream']));
+    assert.deepEqual(names(pairs), ['milk|heavy cream', 'whole milk|heavy cream']);
+  });
+
+  it('compares nothing when nothing new was added', () => {
+    assert.deepEqual(similarity.pairsToCompare(items, new Set()), []);
+  });
+
+  it('compares every pair for a new cart', () => {
+    assert.equal(similarity.pairsToCompare(items).length, 3);
+  });
+});
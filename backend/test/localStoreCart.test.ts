@@ -0,0 +1,82 @@
+// Local store cart flow tests
+// Runs enrich → checkout through the API with DEFAULT_GROCERY_PROVIDER=local, so no
+// retailer credentials or network are needed. Units match the catalog package units,
+// which keeps package counts from needing the database's unit conversions.
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+let server: Server;
+let baseUrl: string;
+
+async function post(path: string, body: unknown): Promise<{ status: number; data: any }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, data: await response.json() };
+}
+
+before(async () => {
+  // Request logs would interleave with the test runner's output
+  mock.method(console, 'log', () => {});
+  process.env.NODE_ENV = 'test';
+  process.env.DEFAULT_GROCERY_PROVIDER = 'local';
+  process.env.OPENAI_API_KEY ??= 'test-key'; // Clients are built at import; nothing here calls them
+
+  const { app } = await import('../src/index.js');
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/cart`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  const { prisma } = await import('../src/index.js');
+  await prisma.$disconnect();
+});
+
+describe('local store cart', () => {
+  const ingredients = [
+    { ingredientId: 'ing-chicken', ingredientName: 'chicken breast', amount: 3, unit: 'lb', recipes: ['Roast Chicken'] },
+    { ingredientId: 'ing-eggs', ingredientName: 'eggs', amount: 12, unit: 'count', recipes: ['Frittata'] },
+    { ingredientId: 'ing-saffron', ingredientName: 'saffron threads', amount: 1, unit: 'pinch', recipes: ['Paella'] }
+  ];
+
+  it('prices ingredients at the local store and checks out the matched products', async () => {
+    const enriched = await post('/enrich', { ingredients });
+    assert.equal(enriched.status, 200);
+    assert.equal(enriched.data.provider, 'local');
+
+    const [chicken, eggs, saffron] = enriched.data.ingredients;
+    assert.equal(chicken.product.productId, 'local-1001');
+    assert.equal(chicken.packageCount, 2);
+    assert.equal(eggs.product.productId, 'local-2001');
+    assert.equal(eggs.packageCount, 1);
+    assert.equal(saffron.product, undefined, 'items missing from the catalog stay unpriced');
+    assert.equal(chicken.walmartProduct, undefined);
+
+    const items = enriched.data.ingredients
+      .filter((item: any) => item.product)
+      .map((item: any) => ({ productId: item.product.productId, quantity: item.packageCount }));
+    const checkout = await post('/checkout', { items });
+
+    assert.equal(checkout.status, 200);
+    assert.equal(checkout.data.providerId, 'local');
+    assert.deepEqual(checkout.data.items.map((line: any) => [line.productId, line.quantity, line.lineTotal]), [
+      ['local-1001', 2, 14.98],
+      ['local-2001', 1, 3.49]
+    ]);
+    assert.equal(checkout.data.total, 18.47);
+    assert.equal(checkout.data.cartUrl, undefined);
+  });
+
+  it('rejects products from another store at checkout', async () => {
+    const checkout = await post('/checkout', { items: [{ productId: '10450114', quantity: 1 }] });
+    assert.equal(checkout.status, 400);
+    assert.match(checkout.data.error, /Unknown Local Store product/);
+  });
+});
@@ -0,0 +1,39 @@
+// Recipe scaling tests
+// Scaled amounts are rounded to what a cook can measure; unmeasured amounts stay as written.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { scaleIngredientAmount } from '../src/utils/recipeScaling.js';
+
+describe('scaleIngredientAmount', () => {
+  it('snaps volumes to measuring fractions and better units', () => {
+    assert.equal(scaleIngredientAmount(1, 'cup', 1.5, 'flour').display, '1 1/2 cups');
+    assert.equal(scaleIngredientAmount(16, 'tbsp', 3, 'milk').display, '3 cups');
+  });
+
+  it('keeps eggs whole whatever they are counted in', () => {
+    assert.equal(scaleIngredientAmount(3, 'large', 0.5, 'eggs').display, '2 large');
+    assert.equal(scaleIngredientAmount(2, 'count', 1.5, 'eggs').display, '3');
+    assert.equal(scaleIngredientAmount(1, '', 0.25, 'egg').amount, 1);
+  });
+
+  it('measures eggs given by volume', () => {
+    assert.equal(scaleIngredientAmount(1, 'cup', 0.5, 'beaten eggs').display, '1/2 cup');
+  });
+
+  it('keeps whole-only count units whole', () => {
+    assert.equal(scaleIngredientAmount(3, 'clove', 0.5, 'garlic').display, '2 cloves');
+  });
+
+  it('leaves unmeasured amounts unscaled', () => {
+    const toTaste = scaleIngredientAmount(1, 'to taste', 2, 'salt');
+    assert.equal(toTaste.amount, 1);
+    assert.equal(toTaste.display, '1 to taste');
+    assert.equal(toTaste.exactAmount, 1);
+    assert.equal(scaleIngredientAmount(1, 'pinch', 3, 'nutmeg').display, '1 pinch');
+  });
+
+  it('returns the amount as written at scale 1', () => {
+    assert.equal(scaleIngredientAmount(0.33, 'cup', 1, 'sugar').amount, 0.33);
+  });
+});
@@ -0,0 +1,101 @@
+// Recipe structured data parsing tests
+// Each saved page in fixtures/recipes has a matching .json with the markup it should be read from
+// and the recipe it should produce (units as written; unit normalization needs the database).
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  extractStructuredData,
+  readSchemaRecipe,
+  parseInstructions,
+  parseYield,
+  parseDuration
+} from '../src/utils/recipeSchemaParser.js';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'recipes');
+
+describe('recipe fixture pages', () => {
+  const pages = readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html'));
+
+  for (const page of pages) {
+    it(`parses ${page}`, () => {
+      const html = readFileSync(join(FIXTURES_DIR, page), 'utf8');
+      const expected = JSON.parse(readFileSync(join(FIXTURES_DIR, page.replace(/\.html$/, '.json')), 'utf8'));
+
+      const structured = extractStructuredData(html);
+      assert.ok(structured, 'no schema.org Recipe found');
+      assert.equal(structured.method, expected.method);
+      assert.deepEqual(readSchemaRecipe(structured.data), expected.recipe);
+    });
+  }
+
+  it('finds nothing on a page without a recipe', () => {
+    assert.equal(extractStructuredData('<html><body><h1>About us</h1></body></html>'), null);
+  });
+});
+
+describe('parseInstructions', () => {
+  it('splits a single string on lines and step numbers', () => {
+    assert.deepEqual(parseInstructions('1. Boil water. 2. Add pasta.\nDrain.'), ['Boil water.', 'Add pasta.', 'Drain.']);
+  });
+
+  it('keeps numbers inside list items', () => {
+    assert.deepEqual(parseInstructions(['Heat 2. Stir.']), ['Heat 2. Stir.']);
+  });
+
+  it('prefixes a section name to its first step', () => {
+    assert.deepEqual(parseInstructions({
+      '@type': 'HowToSection',
+      name: 'Sauce',
+      itemListElement: [{ '@type': 'HowToStep', text: 'Whisk.' }, { '@type': 'HowToStep', text: 'Simmer.' }]
+    }), ['Sauce: Whisk.', 'Simmer.']);
+  });
+
+  it('strips markup left in step text', () => {
+    assert.deepEqual(parseInstructions([{ text: '<b>Bake</b> &amp; cool.' }]), ['Bake & cool.']);
+  });
+});
+
+describe('parseYield', () => {
+  it('reads plain numbers and phrases', () => {
+    assert.equal(parseYield('4'), 4);
+    assert.equal(parseYield(6), 6);
+    assert.equal(parseYield('Makes 12 cookies'), 12);
+  });
+
+  it('takes the lower end of a range', () => {
+    assert.equal(parseYield('Serves 4-6'), 4);
+    assert.equal(parseYield('4 to 6 people'), 4);
+  });
+
+  it('prefers the servings entry of a list', () => {
+    assert.equal(parseYield(['1 loaf', '8 servings']), 8);
+  });
+
+  it('ignores values without a number', () => {
+    assert.equal(parseYield('a crowd'), undefined);
+    assert.equal(parseYield(undefined), undefined);
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads ISO 8601 durations', () => {
+    assert.equal(parseDuration('PT15M'), 15);
+    assert.equal(parseDuration('PT1H30M'), 90);
+    assert.equal(parseDuration('P0DT0H45M'), 45);
+    assert.equal(parseDuration('P1D'), 1440);
+  });
+
+  it('reads written durations', () => {
+    assert.equal(parseDuration('1 hr 15 mins'), 75);
+    assert.equal(parseDuration('1.5 hours'), 90);
+    assert.equal(parseDuration('20 minutes'), 20);
+  });
+
+  it('is 0 when missing or unreadable', () => {
+    assert.equal(parseDuration(undefined), 0);
+    assert.equal(parseDuration('overnight'), 0);
+  });
+});
@@ -0,0 +1,89 @@
+// Semantic search ranking tests
+// Recipes are embedded with the local provider, so similarities are real cosine scores without
+// a network or database; ranking mixes them 0.7 / 0.3 with keyword relevance.
+
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+let search: typeof import('../src/services/recipeSearchService.js');
+let embeddings: typeof import('../src/services/recipeEmbeddingService.js');
+let localProvider: typeof import('../src/services/localEmbeddingProvider.js');
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  process.env.NODE_ENV = 'test';
+  process.env.OPENAI_API_KEY ??= 'test-key'; // Clients are built at import; nothing here calls them
+
+  search = await import('../src/services/recipeSearchService.js');
+  embeddings = await import('../src/services/recipeEmbeddingService.js');
+  localProvider = await import('../src/services/localEmbeddingProvider.js');
+});
+
+function makeRecipe(id: string, title: string, description: string, ingredients: string[]) {
+  return {
+    id,
+    title,
+    description,
+    cuisine: null,
+    mealType: ['dinner'],
+    recipeIngredients: ingredients.map(name => ({ ingredient: { name } }))
+  };
+}
+
+const recipes = [
+  makeRecipe('cake', 'Chocolate Layer Cake', 'Rich cake under fudge frosting', ['flour', 'cocoa powder', 'sugar', 'butter']),
+  makeRecipe('curry', 'Chickpea Spinach Curry', 'Creamy chickpeas simmered with spinach', ['chickpeas', 'spinach', 'coconut milk', 'curry powder']),
+  makeRecipe('soup', 'Lentil Soup', 'Hearty soup with lentils and spinach', ['lentils', 'carrots', 'spinach', 'vegetable broth'])
+];
+
+/**
+ * Cosine similarity of each recipe to the query; local vectors are unit length
+ */
+function similaritiesFor(q: string): Map<string, number> {
+  const query = localProvider.embedTextLocally(q);
+  return new Map(recipes.map(recipe => {
+    const vector = localProvider.embedTextLocally(embeddings.buildRecipeEmbeddingText(recipe));
+    return [recipe.id, vector.reduce((sum, value, i) => sum + value * query[i], 0)];
+  }));
+}
+
+describe('semantic search ranking', () => {
+  it('ranks recipes sharing the query words first and drops unrelated ones', () => {
+    const q = 'chickpea curry with spinach';
+    const similarities = similaritiesFor(q);
+    assert.ok(similarities.get('curry')! > similarities.get('soup')!);
+    assert.ok(similarities.get('soup')! > similarities.get('cake')!);
+
+    const ranked = search.rankHybridResults(recipes, similarities, q, 10);
+    assert.deepEqual(ranked.map(result => result.id), ['curry', 'soup']);
+  });
+
+  it('scores 0.7 similarity plus 0.3 keyword relevance', () => {
+    const q = 'lentil soup';
+    const ranked = search.rankHybridResults(recipes, similaritiesFor(q), q, 10);
+
+    assert.equal(ranked[0].id, 'soup');
+    for (const result of ranked) {
+      assert.ok(Math.abs(result.score - (0.7 * result.similarity + 0.3 * result.keywordScore)) < 0.002);
+    }
+  });
+
+  it('lets an exact keyword match outrank a closer embedding', () => {
+    const similarities = new Map([['soup', 0.9], ['curry', 0.6]]);
+    const ranked = search.rankHybridResults(recipes, similarities, 'chickpea spinach curry', 10);
+
+    assert.deepEqual(ranked.map(result => result.id), ['curry', 'soup']);
+    assert.equal(ranked[0].score, Math.round((0.7 * 0.6 + 0.3 * ranked[0].keywordScore) * 1000) / 1000);
+  });
+
+  it('falls back to keyword relevance when the query has no embedding', () => {
+    const ranked = search.rankHybridResults(recipes, null, 'spinach', 10);
+
+    assert.deepEqual(ranked.map(result => result.id), ['curry', 'soup']);
+    assert.ok(ranked.every(result => result.similarity === 0 && result.score === result.keywordScore));
+  });
+
+  it('returns at most the limit', () => {
+    assert.equal(search.rankHybridResults(recipes, similaritiesFor('spinach'), 'spinach', 1).length, 1);
+  });
+});
@@ -0,0 +1,556 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  Vibration,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
+import { getCookMode, getMealPlan, recordCookingEvent } from '../../src/api/mealPlanning';
+import { completeMealPlan, skipMealSlots } from '../../src/api/inventory';
+import MealCompletionModal from '../../src/components/MealCompletionModal';
+import type { CookModeRecipe, CookStep, MealPlan, MealSlot, Recipe, StepTimer } from '../../src/types/mealPlanning';
+
+const KEEP_AWAKE_TAG = 'cook-mode';
+
+interface RunningTimer {
+  key: string;
+  label: string;
+  stepIndex: number;
+  endsAt: number | null; // null while paused
+  remainingSeconds: number; // Frozen value while paused
+  done: boolean;
+}
+
+type CompletionPlan = MealPlan & { mealSlots: (MealSlot & { recipe: Recipe | null })[] };
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(hours > 0 ? 2 : 1, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+function getRemainingSeconds(timer: RunningTimer, now: number): number {
+  return timer.endsAt ? Math.max(0, Math.ceil((timer.endsAt - now) / 1000)) : timer.remainingSeconds;
+}
+
+export default function CookModeScreen() {
+  const router = useRouter();
+  const { id, servings, mealPlanId, slotId } = useLocalSearchParams<{
+    id: string;
+    servings?: string;
+    mealPlanId?: string;
+    slotId?: string;
+  }>();
+  const [cookMode, setCookMode] = useState<CookModeRecipe | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [stepIndex, setStepIndex] = useState(-1); // -1 = gather ingredients
+  const [checkedIngredients, setCheckedIngredients] = useState<Set<string>>(new Set());
+  const [timers, setTimers] = useState<RunningTimer[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [keepAwake, setKeepAwake] = useState(true);
+  const [finishing, setFinishing] = useState(false);
+  const [completionPlan, setCompletionPlan] = useState<CompletionPlan | null>(null);
+
+  useEffect(() => {
+    const loadCookMode = async () => {
+      try {
+        setLoading(true);
+        setCookMode(await getCookMode(id, servings ? parseInt(servings, 10) : undefined));
+      } catch (error) {
+        console.error('Load cook mode error:', error);
+        Alert.alert('Error', 'Failed to load recipe steps');
+        router.back();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCookMode();
+  }, [id, servings, router]);
+
+  // Keep the screen on while cooking
+  useEffect(() => {
+    if (!keepAwake) return;
+
+    activateKeepAwakeAsync(KEEP_AWAKE_TAG).catch(error => console.error('Keep awake error:', error));
+    return () => {
+      deactivateKeepAwake(KEEP_AWAKE_TAG).catch(() => {});
+    };
+  }, [keepAwake]);
+
+  // Tick while any timer runs, and ring the ones that reach zero
+  const hasRunningTimer = timers.some(timer => timer.endsAt && !timer.done);
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  useEffect(() => {
+    const finished = timers.filter(timer => timer.endsAt && !timer.done && timer.endsAt <= now);
+    if (finished.length === 0) return;
+
+    Vibration.vibrate([0, 500, 200, 500]);
+    finished.forEach(timer => Alert.alert(`⏰ ${timer.label} done`, `Step ${timer.stepIndex + 1}`));
+    const finishedKeys = finished.map(timer => timer.key);
+    setTimers(prev => prev.map(timer => (finishedKeys.includes(timer.key) ? { ...timer, done: true, remainingSeconds: 0 } : timer)));
+  }, [now, timers]);
+
+  const toggleIngredient = (recipeIngredientId: string) => {
+    setCheckedIngredients(prev => {
+      const next = new Set(prev);
+      if (next.has(recipeIngredientId)) {
+        next.delete(recipeIngredientId);
+      } else {
+        next.add(recipeIngredientId);
+      }
+      return next;
+    });
+  };
+
+  const startTimer = (step: CookStep, timer: StepTimer, timerIndex: number) => {
+    const key = `${step.index}-${timerIndex}`;
+    const current = Date.now();
+    setNow(current);
+    setTimers(prev => [
+      ...prev.filter(t => t.key !== key),
+      {
+        key,
+        label: timer.label,
+        stepIndex: step.index,
+        endsAt: current + timer.durationSeconds * 1000,
+        remainingSeconds: timer.durationSeconds,
+        done: false,
+      },
+    ]);
+  };
+
+  const togglePause = (key: string) => {
+    const current = Date.now();
+    setNow(current);
+    setTimers(prev => prev.map(timer => {
+      if (timer.key !== key || timer.done) return timer;
+      return timer.endsAt
+        ? { ...timer, endsAt: null, remainingSeconds: getRemainingSeconds(timer, current) }
+        : { ...timer, endsAt: current + timer.remainingSeconds * 1000 };
+    }));
+  };
+
+  const dismissTimer = (key: string) => {
+    setTimers(prev => prev.filter(timer => timer.key !== key));
+  };
+
+  const finishStandalone = async (deductPantry: boolean) => {
+    try {
+      setFinishing(true);
+      const result = await recordCookingEvent(id, {
+        servings: cookMode?.recipe.servings,
+        deductPantry,
+      });
+      Alert.alert(
+        'Enjoy your meal!',
+        result.deductedItems.length > 0
+          ? `Deducted ${result.deductedItems.length} ingredient(s) from your pantry.`
+          : 'Logged to your cooking history.',
+        [{ text: 'Done', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Record cooking event error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to record cooking');
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!cookMode) return;
+
+    if (!mealPlanId || !slotId) {
+      Alert.alert(
+        'Finished Cooking?',
+        'Deduct the ingredients you used from your pantry?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Just Log It', onPress: () => finishStandalone(false) },
+          { text: 'Update Pantry', onPress: () => finishStandalone(true) },
+        ]
+      );
+      return;
+    }
+
+    // Part of a meal plan: record the cooking, then offer the usual completion flow
+    try {
+      setFinishing(true);
+      await recordCookingEvent(id, { mealSlotId: slotId, servings: cookMode.recipe.servings });
+      const { mealPlan } = await getMealPlan(mealPlanId);
+      setCompletionPlan(mealPlan as CompletionPlan);
+    } catch (error) {
+      console.error('Finish cooking error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to record cooking');
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  if (loading || !cookMode) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator style={styles.loader} size="large" color="#FF9500" />
+      </View>
+    );
+  }
+
+  const { recipe, ingredients, steps } = cookMode;
+  const step = stepIndex >= 0 ? steps[stepIndex] : null;
+  const isLastStep = stepIndex === steps.length - 1;
+  const visibleIngredients = step
+    ? ingredients.filter(ingredient => step.recipeIngredientIds.includes(ingredient.id))
+    : ingredients;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>✕ Exit</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{recipe.title}</Text>
+        <View style={styles.keepAwake}>
+          <Text style={styles.keepAwakeLabel}>Screen on</Text>
+          <Switch
+            value={keepAwake}
+            onValueChange={setKeepAwake}
+            trackColor={{ false: '#ccc', true: '#FFD60A' }}
+          />
+        </View>
+      </View>
+
+      <View style={styles.progressBar}>
+        <View style={[styles.progressFill, { width: `${((stepIndex + 1) / Math.max(steps.length, 1)) * 100}%` }]} />
+      </View>
+
+      {timers.length > 0 && (
+        <View style={styles.timersBar}>
+          {timers.map(timer => (
+            <View key={timer.key} style={[styles.runningTimer, timer.done && styles.runningTimerDone]}>
+              <TouchableOpacity onPress={() => togglePause(timer.key)} disabled={timer.done}>
+                <Text style={styles.runningTimerText}>
+                  {timer.done ? '✓' : timer.endsAt ? '⏸' : '▶'} {timer.label} · Step {timer.stepIndex + 1} · {formatDuration(getRemainingSeconds(timer, now))}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => dismissTimer(timer.key)} style={styles.dismissTimer}>
+                <Text style={styles.runningTimerText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {step ? (
+          <>
+            <Text style={styles.stepCounter}>Step {stepIndex + 1} of {steps.length}</Text>
+            <Text style={styles.stepText}>{step.text}</Text>
+
+            {step.timers.map((timer, timerIndex) => {
+              const running = timers.find(t => t.key === `${step.index}-${timerIndex}`);
+              return (
+                <TouchableOpacity
+                  key={timerIndex}
+                  style={[styles.timerButton, running && !running.done && styles.timerButtonActive]}
+                  onPress={() => startTimer(step, timer, timerIndex)}
+                >
+                  <Text style={styles.timerButtonText}>
+                    ⏱ {running && !running.done ? 'Restart' : 'Start'} {timer.label} timer · {formatDuration(timer.durationSeconds)}
+                    {timer.maxDurationSeconds > timer.durationSeconds ? ` (up to ${formatDuration(timer.maxDurationSeconds)})` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </>
+        ) : (
+          <>
+            <Text style={styles.stepCounter}>Before you start</Text>
+            <Text style={styles.stepText}>Gather your ingredients</Text>
+            <Text style={styles.muted}>
+              {recipe.servings} serving(s){recipe.servings !== recipe.originalServings ? ` · scaled from ${recipe.originalServings}` : ''}
+            </Text>
+          </>
+        )}
+
+        {visibleIngredients.length > 0 && (
+          <View style={styles.checklist}>
+            <Text style={styles.checklistTitle}>{step ? 'Ingredients for this step' : 'Ingredients'}</Text>
+            {visibleIngredients.map(ingredient => {
+              const checked = checkedIngredients.has(ingredient.id);
+              return (
+                <TouchableOpacity
+                  key={ingredient.id}
+                  style={styles.checklistRow}
+                  onPress={() => toggleIngredient(ingredient.id)}
+                >
+                  <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+                    {checked && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <Text style={[styles.checklistText, checked && styles.checklistTextChecked]}>
+                    {ingredient.displayAmount} {ingredient.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.navButton, styles.navButtonSecondary, stepIndex < 0 && styles.navButtonDisabled]}
+          onPress={() => setStepIndex(stepIndex - 1)}
+          disabled={stepIndex < 0}
+        >
+          <Text style={styles.navButtonSecondaryText}>← Back</Text>
+        </TouchableOpacity>
+
+        {isLastStep || steps.length === 0 ? (
+          <TouchableOpacity
+            style={[styles.navButton, styles.finishButton]}
+            onPress={handleFinish}
+            disabled={finishing}
+          >
+            {finishing ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.navButtonText}>Finish Cooking</Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.navButton} onPress={() => setStepIndex(stepIndex + 1)}>
+            <Text style={styles.navButtonText}>{stepIndex < 0 ? 'Start Cooking →' : 'Next →'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {completionPlan && (
+        <MealCompletionModal
+          visible={true}
+          mealPlan={completionPlan}
+          initialCookedSlotIds={slotId ? [slotId] : []}
+          onClose={() => {
+            setCompletionPlan(null);
+            router.back();
+          }}
+          onComplete={async (completedSlotIds) => {
+            const result = await completeMealPlan(completionPlan.id, completedSlotIds);
+            Alert.alert('Meals Updated', result.message);
+          }}
+          onSkipSlots={async (slotIds) => {
+            await skipMealSlots(completionPlan.id, slotIds);
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF9F0',
+  },
+  loader: {
+    marginTop: 100,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#FF9500',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 15,
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+  },
+  headerTitle: {
+    flex: 1,
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginHorizontal: 12,
+  },
+  keepAwake: {
+    alignItems: 'center',
+  },
+  keepAwakeLabel: {
+    color: 'white',
+    fontSize: 10,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: '#FFE0B2',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#FF9500',
+  },
+  timersBar: {
+    backgroundColor: '#333',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  runningTimer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#555',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  runningTimerDone: {
+    backgroundColor: '#34C759',
+  },
+  runningTimerText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  dismissTimer: {
+    paddingLeft: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+  },
+  stepCounter: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF9500',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  stepText: {
+    fontSize: 24,
+    lineHeight: 34,
+    color: '#333',
+    marginBottom: 20,
+  },
+  muted: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  timerButton: {
+    backgroundColor: 'white',
+    borderWidth: 2,
+    borderColor: '#FF9500',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  timerButtonActive: {
+    backgroundColor: '#FFF3E0',
+  },
+  timerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF9500',
+  },
+  checklist: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+  },
+  checklistTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  checklistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  checkbox: {
+    width: 26,
+    height: 26,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#FF9500',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#FF9500',
+  },
+  checkmark: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  checklistText: {
+    flex: 1,
+    fontSize: 18,
+    color: '#333',
+  },
+  checklistTextChecked: {
+    color: '#aaa',
+    textDecorationLine: 'line-through',
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  navButton: {
+    flex: 1,
+    backgroundColor: '#FF9500',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  navButtonSecondary: {
+    backgroundColor: '#f0f0f0',
+  },
+  navButtonDisabled: {
+    opacity: 0.4,
+  },
+  finishButton: {
+    backgroundColor: '#34C759',
+  },
+  navButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  navButtonSecondaryText: {
+    color: '#333',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
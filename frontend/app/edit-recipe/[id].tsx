@@ -0,0 +1,436 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { API_URL } from '../../config';
+import { useAuth } from '../../contexts/AuthContext';
+import { updateRecipe, deleteRecipe } from '../../src/api/mealPlanning';
+
+interface IngredientRow {
+  key: string;
+  ingredientId?: string; // Set for ingredients already on the recipe
+  originalName?: string;
+  name: string;
+  amount: string;
+  unit: string;
+}
+
+let nextRowKey = 0;
+
+export default function EditRecipeScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { token } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [prepTime, setPrepTime] = useState('');
+  const [cookTime, setCookTime] = useState('');
+  const [servings, setServings] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([]);
+  const [changeSummary, setChangeSummary] = useState('');
+
+  useEffect(() => {
+    const fetchRecipe = async () => {
+      try {
+        const response = await fetch(`${API_URL}/recipes/${id}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        const data = await response.json();
+
+        if (!data.success) {
+          Alert.alert('Error', data.message || 'Failed to fetch recipe');
+          router.back();
+          return;
+        }
+
+        const recipe = data.data.recipe;
+        setTitle(recipe.title);
+        setDescription(recipe.description || '');
+        setPrepTime(recipe.prepTime ? String(recipe.prepTime) : '');
+        setCookTime(recipe.cookTime ? String(recipe.cookTime) : '');
+        setServings(recipe.servings ? String(recipe.servings) : '');
+        setInstructions((Array.isArray(recipe.instructions) ? recipe.instructions : []).join('\n'));
+        setIngredients(recipe.recipeIngredients.map((ri: any) => ({
+          key: String(nextRowKey++),
+          ingredientId: ri.ingredientId,
+          originalName: ri.ingredient.name,
+          name: ri.ingredient.name,
+          amount: String(ri.amount),
+          unit: ri.unit,
+        })));
+      } catch (error) {
+        console.error('Fetch recipe error:', error);
+        Alert.alert('Connection Error', 'Could not connect to server');
+        router.back();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRecipe();
+  }, [id, token, router]);
+
+  const updateIngredient = (key: string, changes: Partial<IngredientRow>) => {
+    setIngredients(rows => rows.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addIngredient = () => {
+    setIngredients(rows => [...rows, { key: String(nextRowKey++), name: '', amount: '1', unit: 'count' }]);
+  };
+
+  const removeIngredient = (key: string) => {
+    setIngredients(rows => rows.filter(row => row.key !== key));
+  };
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      Alert.alert('Error', 'Please enter a recipe title');
+      return;
+    }
+
+    const rows = ingredients.filter(row => row.name.trim());
+    if (rows.some(row => isNaN(parseFloat(row.amount)))) {
+      Alert.alert('Error', 'Every ingredient needs an amount');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const result = await updateRecipe(id, {
+        title: title.trim(),
+        description: description.trim() || null,
+        prepTimeMinutes: prepTime ? parseInt(prepTime) : undefined,
+        cookTimeMinutes: cookTime ? parseInt(cookTime) : undefined,
+        servings: servings ? parseInt(servings) : undefined,
+        instructions: instructions.split('\n').map(step => step.trim()).filter(Boolean),
+        // Renamed rows become a different ingredient
+        ingredients: rows.map(row => ({
+          ...(row.ingredientId && row.name.trim() === row.originalName
+            ? { ingredientId: row.ingredientId }
+            : { name: row.name.trim() }),
+          amount: parseFloat(row.amount),
+          unit: row.unit.trim() || 'count',
+        })),
+        changeSummary: changeSummary.trim() || undefined,
+      });
+
+      Alert.alert(
+        'Saved',
+        result.version ? `Saved as version ${result.version.version}` : 'No changes to save',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Recipe',
+      'This removes the recipe and its history. Meal plans that use it will lose it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRecipe(id);
+              router.replace('/recipes');
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete recipe');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Edit Recipe</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#007AFF" />
+      ) : (
+        <ScrollView style={styles.content}>
+          <View style={styles.form}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Title *</Text>
+              <TextInput
+                style={styles.input}
+                value={title}
+                onChangeText={setTitle}
+                editable={!saving}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Description</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={description}
+                onChangeText={setDescription}
+                multiline
+                numberOfLines={4}
+                editable={!saving}
+              />
+            </View>
+
+            <View style={styles.row}>
+              <View style={[styles.inputGroup, styles.thirdWidth]}>
+                <Text style={styles.label}>Prep (min)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={prepTime}
+                  onChangeText={setPrepTime}
+                  keyboardType="number-pad"
+                  editable={!saving}
+                />
+              </View>
+              <View style={[styles.inputGroup, styles.thirdWidth]}>
+                <Text style={styles.label}>Cook (min)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={cookTime}
+                  onChangeText={setCookTime}
+                  keyboardType="number-pad"
+                  editable={!saving}
+                />
+              </View>
+              <View style={[styles.inputGroup, styles.thirdWidth]}>
+                <Text style={styles.label}>Servings</Text>
+                <TextInput
+                  style={styles.input}
+                  value={servings}
+                  onChangeText={setServings}
+                  keyboardType="number-pad"
+                  editable={!saving}
+                />
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Ingredients</Text>
+              {ingredients.map(row => (
+                <View key={row.key} style={styles.ingredientRow}>
+                  <TextInput
+                    style={[styles.input, styles.amountInput]}
+                    value={row.amount}
+                    onChangeText={amount => updateIngredient(row.key, { amount })}
+                    keyboardType="decimal-pad"
+                    editable={!saving}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.unitInput]}
+                    value={row.unit}
+                    onChangeText={unit => updateIngredient(row.key, { unit })}
+                    autoCapitalize="none"
+                    editable={!saving}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.nameInput]}
+                    placeholder="Ingredient"
+                    value={row.name}
+                    onChangeText={name => updateIngredient(row.key, { name })}
+                    editable={!saving}
+                  />
+                  <TouchableOpacity onPress={() => removeIngredient(row.key)} disabled={saving}>
+                    <Text style={styles.removeButton}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity onPress={addIngredient} disabled={saving}>
+                <Text style={styles.addIngredientText}>+ Add ingredient</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Instructions (one step per line)</Text>
+              <TextInput
+                style={[styles.input, styles.instructionsInput]}
+                value={instructions}
+                onChangeText={setInstructions}
+                multiline
+                editable={!saving}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>What changed?</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Less salt, added garlic"
+                value={changeSummary}
+                onChangeText={setChangeSummary}
+                maxLength={200}
+                editable={!saving}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.submitButtonText}>
+                {saving ? 'Saving...' : 'Save Changes'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+              <Text style={styles.deleteButtonText}>Delete Recipe</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 15,
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+  },
+  headerTitle: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 50,
+  },
+  loader: {
+    marginTop: 100,
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  instructionsInput: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  thirdWidth: {
+    flex: 1,
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  amountInput: {
+    width: 60,
+    padding: 10,
+  },
+  unitInput: {
+    width: 70,
+    padding: 10,
+  },
+  nameInput: {
+    flex: 1,
+    padding: 10,
+  },
+  removeButton: {
+    fontSize: 18,
+    color: '#FF3B30',
+    paddingHorizontal: 6,
+  },
+  addIngredientText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    padding: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 40,
+  },
+  deleteButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
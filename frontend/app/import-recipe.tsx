@@ -0,0 +1,516 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { useCredits } from '../contexts/CreditContext';
+import { importRecipeFromImage, importRecipeFromText, saveImportDraft } from '../src/api/mealPlanning';
+import type { AllergenConflict, RecipeImportDraft } from '../src/types/mealPlanning';
+
+type ImportMode = 'text' | 'image';
+
+interface IngredientRow {
+  key: string;
+  name: string;
+  amount: string;
+  unit: string;
+  notes?: string;
+  isNew: boolean;
+}
+
+let nextRowKey = 0;
+
+export default function ImportRecipeScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ mode?: string }>();
+  const mode: ImportMode = params.mode === 'image' ? 'image' : 'text';
+  const { balance, refreshBalance } = useCredits();
+
+  const [text, setText] = useState('');
+  const [extracting, setExtracting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<RecipeImportDraft | null>(null);
+  const [allergenConflicts, setAllergenConflicts] = useState<AllergenConflict[]>([]);
+
+  // Editable copy of the draft
+  const [title, setTitle] = useState('');
+  const [prepTime, setPrepTime] = useState('');
+  const [cookTime, setCookTime] = useState('');
+  const [servings, setServings] = useState('');
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([]);
+  const [instructions, setInstructions] = useState('');
+  const [sourceName, setSourceName] = useState('');
+
+  const showDraft = (result: { draft: RecipeImportDraft; allergenConflicts: AllergenConflict[] }) => {
+    setDraft(result.draft);
+    setAllergenConflicts(result.allergenConflicts);
+    setTitle(result.draft.title);
+    setPrepTime(String(result.draft.prepTime));
+    setCookTime(String(result.draft.cookTime));
+    setServings(String(result.draft.servings));
+    setIngredients(result.draft.ingredients.map(ingredient => ({
+      key: String(nextRowKey++),
+      name: ingredient.name,
+      amount: ingredient.amount,
+      unit: ingredient.unit,
+      notes: ingredient.notes,
+      isNew: !ingredient.ingredientId,
+    })));
+    setInstructions(result.draft.instructions.join('\n'));
+  };
+
+  const hasCredit = () => {
+    if (balance !== null && balance < 1) {
+      Alert.alert('Insufficient Credits', 'You need 1 credit to import a recipe.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Buy Credits', onPress: () => router.push('/paywall') },
+      ]);
+      return false;
+    }
+    return true;
+  };
+
+  const extract = async (request: () => ReturnType<typeof importRecipeFromText>) => {
+    setExtracting(true);
+    try {
+      showDraft(await request());
+      await refreshBalance();
+    } catch (error: any) {
+      if (error.message !== 'INSUFFICIENT_CREDITS') {
+        Alert.alert('Import Failed', error.message || 'Could not find a recipe');
+      }
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const handleExtractText = () => {
+    if (text.trim().length < 20) {
+      Alert.alert('Error', 'Paste the whole recipe, with its ingredients and steps');
+      return;
+    }
+    if (hasCredit()) {
+      extract(() => importRecipeFromText(text));
+    }
+  };
+
+  const handlePickImage = async (source: 'camera' | 'library') => {
+    if (!hasCredit()) return;
+
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (permission.status !== 'granted') {
+      Alert.alert('Permission Required', source === 'camera'
+        ? 'Camera permission is needed to photograph recipes'
+        : 'Photo library permission is needed');
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.8, base64: true };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    const imageBase64 = !result.canceled ? result.assets[0].base64 : null;
+    if (imageBase64) {
+      extract(() => importRecipeFromImage(imageBase64));
+    }
+  };
+
+  const updateIngredient = (key: string, changes: Partial<IngredientRow>) => {
+    setIngredients(rows => rows.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const removeIngredient = (key: string) => {
+    setIngredients(rows => rows.filter(row => row.key !== key));
+  };
+
+  const handleSave = async (allowAllergens = false) => {
+    if (!draft) return;
+
+    const rows = ingredients.filter(row => row.name.trim());
+    const steps = instructions.split('\n').map(step => step.trim()).filter(Boolean);
+    if (!title.trim() || rows.length === 0 || steps.length === 0) {
+      Alert.alert('Error', 'A recipe needs a title, ingredients and steps');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveImportDraft({
+        ...draft,
+        title: title.trim(),
+        prepTime: parseInt(prepTime) || 0,
+        cookTime: parseInt(cookTime) || 0,
+        servings: parseInt(servings) || draft.servings,
+        ingredients: rows.map(row => ({
+          name: row.name.trim(),
+          amount: row.amount.trim(),
+          unit: row.unit.trim() || 'count',
+          notes: row.notes,
+          ingredientId: null,
+        })),
+        instructions: steps,
+        source: mode,
+        sourceName: sourceName.trim() || undefined,
+        allowAllergens,
+      });
+
+      if (result.allergenWarning) {
+        Alert.alert('Allergen Warning', result.allergenWarning, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Import Anyway', style: 'destructive', onPress: () => handleSave(true) },
+        ]);
+        return;
+      }
+
+      if (result.recipe) {
+        router.replace(`/recipe/${result.recipe.id}`);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{draft ? 'Review Recipe' : mode === 'image' ? 'Import Photo' : 'Import Text'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {extracting ? (
+        <View style={styles.extracting}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.extractingText}>Reading the recipe...</Text>
+        </View>
+      ) : !draft ? (
+        <ScrollView style={styles.content} contentContainerStyle={styles.form}>
+          <Text style={styles.disclaimer}>
+            Imported recipes are for personal use only. They stay private and cannot be made public.
+          </Text>
+          <Text style={styles.cost}>Cost: 1 credit{balance !== null ? ` · Balance: ${balance}` : ''}</Text>
+
+          {mode === 'text' ? (
+            <>
+              <TextInput
+                style={[styles.input, styles.pasteInput]}
+                placeholder="Paste a recipe from your notes, an email or a message"
+                placeholderTextColor="#999"
+                value={text}
+                onChangeText={setText}
+                multiline
+              />
+              <TouchableOpacity style={styles.submitButton} onPress={handleExtractText}>
+                <Text style={styles.submitButtonText}>Find Recipe</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.hint}>
+                Photograph a cookbook page, recipe card or handwritten note, or pick a screenshot.
+              </Text>
+              <TouchableOpacity style={styles.submitButton} onPress={() => handlePickImage('camera')}>
+                <Text style={styles.submitButtonText}>📷 Take Photo</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.submitButton, styles.secondaryButton]} onPress={() => handlePickImage('library')}>
+                <Text style={styles.secondaryButtonText}>🖼️ Choose from Library</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </ScrollView>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.form}>
+          {draft.warnings.length > 0 && (
+            <View style={styles.warningBox}>
+              {draft.warnings.map((warning, index) => (
+                <Text key={index} style={styles.warningText}>⚠️ {warning}</Text>
+              ))}
+            </View>
+          )}
+          {allergenConflicts.length > 0 && (
+            <View style={styles.allergenBox}>
+              <Text style={styles.allergenText}>
+                Contains your allergens: {allergenConflicts.map(conflict => `${conflict.ingredient} (${conflict.label})`).join(', ')}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Title</Text>
+            <TextInput style={styles.input} value={title} onChangeText={setTitle} editable={!saving} />
+          </View>
+
+          <View style={styles.row}>
+            <View style={[styles.inputGroup, styles.thirdWidth]}>
+              <Text style={styles.label}>Prep (min)</Text>
+              <TextInput style={styles.input} value={prepTime} onChangeText={setPrepTime} keyboardType="number-pad" editable={!saving} />
+            </View>
+            <View style={[styles.inputGroup, styles.thirdWidth]}>
+              <Text style={styles.label}>Cook (min)</Text>
+              <TextInput style={styles.input} value={cookTime} onChangeText={setCookTime} keyboardType="number-pad" editable={!saving} />
+            </View>
+            <View style={[styles.inputGroup, styles.thirdWidth]}>
+              <Text style={styles.label}>Servings</Text>
+              <TextInput style={styles.input} value={servings} onChangeText={setServings} keyboardType="number-pad" editable={!saving} />
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Ingredients</Text>
+            {ingredients.map(row => (
+              <View key={row.key}>
+                <View style={styles.ingredientRow}>
+                  <TextInput
+                    style={[styles.input, styles.amountInput]}
+                    value={row.amount}
+                    onChangeText={amount => updateIngredient(row.key, { amount })}
+                    editable={!saving}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.unitInput]}
+                    value={row.unit}
+                    onChangeText={unit => updateIngredient(row.key, { unit })}
+                    autoCapitalize="none"
+                    editable={!saving}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.nameInput]}
+                    value={row.name}
+                    onChangeText={name => updateIngredient(row.key, { name })}
+                    editable={!saving}
+                  />
+                  <TouchableOpacity onPress={() => removeIngredient(row.key)} disabled={saving}>
+                    <Text style={styles.removeButton}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+                {(row.notes || row.isNew) && (
+                  <Text style={styles.ingredientMeta}>
+                    {[row.notes, row.isNew ? 'new ingredient' : null].filter(Boolean).join(' · ')}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Instructions (one step per line)</Text>
+            <TextInput
+              style={[styles.input, styles.instructionsInput]}
+              value={instructions}
+              onChangeText={setInstructions}
+              multiline
+              editable={!saving}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Source</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. cookbook title and page"
+              value={sourceName}
+              onChangeText={setSourceName}
+              maxLength={200}
+              editable={!saving}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+            onPress={() => handleSave()}
+            disabled={saving}
+          >
+            <Text style={styles.submitButtonText}>{saving ? 'Saving...' : 'Save Recipe'}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 15,
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+  },
+  headerTitle: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 50,
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  extracting: {
+    alignItems: 'center',
+    marginTop: 100,
+  },
+  extractingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  disclaimer: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  cost: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+  },
+  pasteInput: {
+    minHeight: 260,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  instructionsInput: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  thirdWidth: {
+    flex: 1,
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  amountInput: {
+    width: 60,
+    padding: 10,
+  },
+  unitInput: {
+    width: 70,
+    padding: 10,
+  },
+  nameInput: {
+    flex: 1,
+    padding: 10,
+  },
+  removeButton: {
+    fontSize: 18,
+    color: '#FF3B30',
+    paddingHorizontal: 6,
+  },
+  ingredientMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  warningBox: {
+    backgroundColor: '#FFF8E1',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#8A6D00',
+    marginBottom: 4,
+  },
+  allergenBox: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  allergenText: {
+    fontSize: 14,
+    color: '#C62828',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    padding: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
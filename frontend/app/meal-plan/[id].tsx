@@ -10,13 +10,15 @@ import {
   Switch,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { getMealPlan, generateShoppingList } from '../../src/api/mealPlanning';
-import type { MealPlan, MealSlot } from '../../src/types/mealPlanning';
+import { getMealPlan, generateShoppingList, updateMealSlot } from '../../src/api/mealPlanning';
+import type { MealPlan, MealSlot, PortionLedgerEntry } from '../../src/types/mealPlanning';
+import MealPlanNutritionDashboard from '../../src/components/MealPlanNutritionDashboard';
 
 export default function MealPlanDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams();
   const [mealPlan, setMealPlan] = useState<MealPlan | null>(null);
+  const [portionLedger, setPortionLedger] = useState<PortionLedgerEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [generatingList, setGeneratingList] = useState(false);
   const [clearCartOnEntry, setClearCartOnEntry] = useState(true);
@@ -30,6 +32,7 @@ export default function MealPlanDetailScreen() {
       setLoading(true);
       const result = await getMealPlan(id as string);
       setMealPlan(result.mealPlan);
+      setPortionLedger(result.portionLedger || []);
     } catch (error) {
       console.error('Fetch meal plan error:', error);
       Alert.alert('Error', 'Failed to load meal plan');
@@ -53,15 +56,17 @@ export default function MealPlanDetailScreen() {
         amount: parseFloat(item.totalAmount) || 0,
         unit: item.unit || '',
         walmartItemId: item.walmartItemId,
+        recipeBreakdown: item.recipeBreakdown,
       }));
 
-      // Get recipes from meal plan slots
+      // Get recipes from meal plan slots (leftover slots aren't cooked again)
       const recipes = mealPlan.mealSlots
-        .filter(slot => slot.recipe)
+        .filter(slot => slot.recipe && !slot.leftoverOfSlotId && !slot.leftoverOfCookingEventId)
         .map(slot => ({
           recipeId: slot.recipe!.id,
           recipeTitle: slot.recipe!.title,
           quantity: 1,
+          servings: slot.servings ?? undefined,
         }));
 
       // Check if there are potential merges to review
@@ -86,6 +91,7 @@ export default function MealPlanDetailScreen() {
             ingredients: JSON.stringify(ingredients),
             recipes: JSON.stringify(recipes),
             clearCart: clearCartOnEntry.toString(),
+            suggestedStaples: JSON.stringify(result.suggestedStaples || []),
           },
         });
       }
@@ -101,6 +107,61 @@ export default function MealPlanDetailScreen() {
     router.push(`/recipe/${recipeId}`);
   };
 
+  const handleCookPress = (slot: MealSlot) => {
+    if (!mealPlan || !slot.recipe) return;
+
+    router.push({
+      pathname: '/cook-mode/[id]',
+      params: {
+        id: slot.recipe.id,
+        mealPlanId: mealPlan.id,
+        slotId: slot.id,
+        ...(slot.servings ? { servings: slot.servings.toString() } : {}),
+      },
+    });
+  };
+
+  const handleServingsChange = async (slot: MealSlot, servings: number) => {
+    if (!mealPlan || !slot.recipe) return;
+
+    // Back at the recipe's own servings clears the override
+    const override = servings === slot.recipe.servings ? null : servings;
+    const previousSlots = mealPlan.mealSlots;
+    setMealPlan({
+      ...mealPlan,
+      mealSlots: mealPlan.mealSlots.map(s => (s.id === slot.id ? { ...s, servings: override } : s)),
+    });
+
+    try {
+      await updateMealSlot(mealPlan.id, slot.id, { servings: override });
+    } catch (error) {
+      console.error('Update servings error:', error);
+      setMealPlan({ ...mealPlan, mealSlots: previousSlots });
+      Alert.alert('Error', 'Failed to update servings');
+    }
+  };
+
+  const getLeftoverSourceLabel = (slot: MealSlot): string | null => {
+    if (slot.leftoverOfSlot) {
+      const day = new Date(slot.leftoverOfSlot.date).toLocaleDateString('en-US', { weekday: 'long' });
+      return `${day} ${slot.leftoverOfSlot.mealType}`;
+    }
+    if (slot.leftoverOfCookingEvent) {
+      return new Date(slot.leftoverOfCookingEvent.cookedAt).toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'short',
+        day: 'numeric',
+      });
+    }
+    return null;
+  };
+
+  const getBatchCookingLabel = (slot: MealSlot): string | null => {
+    const entry = portionLedger.find(e => e.sourceSlotId === slot.id);
+    if (!entry || entry.leftoverSlotIds.length === 0) return null;
+    return `Cook once for ${entry.leftoverSlotIds.length + 1} meals · ${Math.max(entry.servingsRemaining, 0)} serving(s) spare`;
+  };
+
   const groupSlotsByDay = (slots: MealSlot[]) => {
     const grouped: { [key: string]: MealSlot[] } = {};
 
@@ -192,6 +253,8 @@ export default function MealPlanDetailScreen() {
             )}
           </View>
 
+          <MealPlanNutritionDashboard mealPlanId={mealPlan.id} />
+
           <View style={styles.shoppingSection}>
             <TouchableOpacity
               style={styles.shoppingButton}
@@ -250,6 +313,26 @@ export default function MealPlanDetailScreen() {
                         <>
                           <Text style={styles.recipeTitle}>{slot.recipe.title}</Text>
 
+                          {slot.recipeVersion && slot.recipe.currentVersion && slot.recipeVersion.version !== slot.recipe.currentVersion && (
+                            <View style={styles.versionBadge}>
+                              <Text style={styles.versionBadgeText}>
+                                📝 Planned with version {slot.recipeVersion.version} (recipe edited since)
+                              </Text>
+                            </View>
+                          )}
+
+                          {getLeftoverSourceLabel(slot) ? (
+                            <View style={styles.leftoverBadge}>
+                              <Text style={styles.leftoverBadgeText}>
+                                ♻️ Leftovers from {getLeftoverSourceLabel(slot)}
+                              </Text>
+                            </View>
+                          ) : getBatchCookingLabel(slot) && (
+                            <View style={styles.batchBadge}>
+                              <Text style={styles.batchBadgeText}>🍱 {getBatchCookingLabel(slot)}</Text>
+                            </View>
+                          )}
+
                           {slot.recipe.description && (
                             <Text style={styles.recipeDescription} numberOfLines={2}>
                               {slot.recipe.description}
@@ -267,12 +350,39 @@ export default function MealPlanDetailScreen() {
                                 🔥 {slot.recipe.calories} cal
                               </Text>
                             )}
-                            {slot.recipe.servings && (
+                            {slot.recipe.servings && (slot.leftoverOfSlotId || slot.leftoverOfCookingEventId ? (
                               <Text style={styles.recipeStat}>
                                 🍽️ {slot.recipe.servings} servings
                               </Text>
-                            )}
+                            ) : (
+                              <View style={styles.servingsStepper}>
+                                <TouchableOpacity
+                                  onPress={() => handleServingsChange(slot, Math.max(1, (slot.servings ?? slot.recipe!.servings) - 1))}
+                                  disabled={(slot.servings ?? slot.recipe.servings) <= 1}
+                                >
+                                  <Text style={styles.stepperButton}>−</Text>
+                                </TouchableOpacity>
+                                <Text style={[styles.recipeStat, slot.servings ? styles.servingsOverride : null]}>
+                                  🍽️ {slot.servings ?? slot.recipe.servings} servings
+                                </Text>
+                                <TouchableOpacity
+                                  onPress={() => handleServingsChange(slot, Math.min(100, (slot.servings ?? slot.recipe!.servings) + 1))}
+                                  disabled={(slot.servings ?? slot.recipe.servings) >= 100}
+                                >
+                                  <Text style={styles.stepperButton}>+</Text>
+                                </TouchableOpacity>
+                              </View>
+                            ))}
                           </View>
+
+                          {!slot.isCompleted && !slot.isSkipped && !slot.leftoverOfSlotId && !slot.leftoverOfCookingEventId && (
+                            <TouchableOpacity
+                              style={styles.cookButton}
+                              onPress={() => handleCookPress(slot)}
+                            >
+                              <Text style={styles.cookButtonText}>👩‍🍳 Cook</Text>
+                            </TouchableOpacity>
+                          )}
                         </>
                       ) : (
                         <Text style={styles.noRecipe}>No recipe assigned</Text>
@@ -545,6 +655,73 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  cookButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FF9500',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginTop: 10,
+  },
+  cookButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  servingsStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  stepperButton: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#007AFF',
+    paddingHorizontal: 6,
+  },
+  servingsOverride: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  leftoverBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#E8F5E9',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  leftoverBadgeText: {
+    fontSize: 12,
+    color: '#2E7D32',
+    fontWeight: '600',
+  },
+  versionBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FFF3E0',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  versionBadgeText: {
+    fontSize: 12,
+    color: '#E65100',
+    fontWeight: '600',
+  },
+  batchBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#F3E5F5',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  batchBadgeText: {
+    fontSize: 12,
+    color: '#AF52DE',
+    fontWeight: '600',
+  },
   noRecipe: {
     fontSize: 14,
     color: '#999',
@@ -21,7 +21,7 @@ import {
   generateRecipeIdeas,
   generateWeeklyMealPlan
 } from '../../src/api/mealPlanning';
-import type { UserPreference, ConflictWarning } from '../../src/types/mealPlanning';
+import type { UserPreference, ConflictWarning, MealPlan, MealPlanBudget } from '../../src/types/mealPlanning';
 
 interface RecipeIdea {
   title: string;
@@ -30,6 +30,25 @@ interface RecipeIdea {
   promptVariation: string;
 }
 
+function formatBudgetSummary(budget?: MealPlanBudget | null): string {
+  if (!budget || (budget.projectedTotal <= 0 && budget.unpricedIngredients.length === 0)) return '';
+
+  let summary = `\nProjected shopping cost: $${budget.projectedTotal.toFixed(2)}`;
+  if (budget.withinBudget === null) {
+    summary += ` plus ${budget.unpricedIngredients.length} unpriced item(s), about $${budget.unpricedEstimate.toFixed(2)}` +
+      ` (can't tell yet if it fits your $${budget.limit.toFixed(2)} budget)`;
+  } else {
+    summary += budget.withinBudget
+      ? ` (within your $${budget.limit.toFixed(2)} budget)`
+      : ` (over your $${budget.limit.toFixed(2)} budget)`;
+  }
+  if (budget.swaps.length > 0) {
+    summary += `\n${budget.swaps.length} recipe(s) swapped to save money: ` +
+      budget.swaps.map(swap => `${swap.removed.title} → ${swap.added.title}`).join(', ');
+  }
+  return summary;
+}
+
 export default function MealPlannerPage() {
   const router = useRouter();
   const [preferences, setPreferences] = useState<UserPreference[]>([]);
@@ -51,6 +70,10 @@ export default function MealPlannerPage() {
   const [recipeIdeas, setRecipeIdeas] = useState<RecipeIdea[]>([]);
   const [approvedIdeas, setApprovedIdeas] = useState<Set<number>>(new Set());
 
+  // Slot placement explanations for the generated plan
+  const [generatedPlan, setGeneratedPlan] = useState<MealPlan | null>(null);
+  const [generatedSummary, setGeneratedSummary] = useState('');
+
   async function loadData() {
     try {
       setLoading(true);
@@ -154,16 +177,8 @@ export default function MealPlannerPage() {
         console.log('Using 100% existing recipes - skipping idea approval');
         const result = await generateWeeklyMealPlan(params);
 
-        Alert.alert(
-          'Meal Plan Generated!',
-          `Created plan with ${result.usedRecipes} existing recipes.`,
-          [
-            {
-              text: 'View Plan',
-              onPress: () => router.push(`/meal-plan/${result.mealPlan.id}`)
-            }
-          ]
-        );
+        setGeneratedSummary(`Created plan with ${result.usedRecipes} existing recipes.` + formatBudgetSummary(result.budget));
+        setGeneratedPlan(result.mealPlan);
         return;
       }
 
@@ -187,6 +202,13 @@ export default function MealPlannerPage() {
     }
   }
 
+  function viewGeneratedPlan() {
+    if (!generatedPlan) return;
+    const planId = generatedPlan.id;
+    setGeneratedPlan(null);
+    router.push(`/meal-plan/${planId}`);
+  }
+
   function toggleIdeaApproval(index: number) {
     setApprovedIdeas(prev => {
       const newSet = new Set(prev);
@@ -227,16 +249,11 @@ export default function MealPlannerPage() {
 
       const result = await generateWeeklyMealPlan(params);
 
-      Alert.alert(
-        'Meal Plan Generated!',
-        `Created plan with ${result.usedRecipes} existing and ${result.newRecipes} new recipes.\n${result.newIngredients.length} new ingredients added.`,
-        [
-          {
-            text: 'View Plan',
-            onPress: () => router.push(`/meal-plan/${result.mealPlan.id}`)
-          }
-        ]
+      setGeneratedSummary(
+        `Created plan with ${result.usedRecipes} existing and ${result.newRecipes} new recipes.\n${result.newIngredients.length} new ingredients added.` +
+        formatBudgetSummary(result.budget)
       );
+      setGeneratedPlan(result.mealPlan);
     } catch (error) {
       console.error('Error generating meal plan:', error);
       if (error instanceof Error && error.message === 'INSUFFICIENT_CREDITS') return;
@@ -503,6 +520,75 @@ export default function MealPlannerPage() {
           </View>
         </View>
       </Modal>
+
+      {/* Generated Plan Placement Modal */}
+      <Modal
+        visible={generatedPlan !== null}
+        animationType="slide"
+        transparent={false}
+        onRequestClose={() => setGeneratedPlan(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Meal Plan Generated!</Text>
+            <TouchableOpacity onPress={() => setGeneratedPlan(null)}>
+              <Text style={styles.modalClose}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.modalSubheader}>
+            <Text style={styles.modalSubtext}>{generatedSummary}</Text>
+            <Text style={styles.modalInstruction}>
+              Why each recipe landed in its slot
+            </Text>
+          </View>
+
+          <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+            {(generatedPlan?.mealSlots || []).map(slot => (
+              <View key={slot.id} style={styles.ideaCard}>
+                <View style={styles.ideaHeader}>
+                  <Text style={styles.ideaMealType}>
+                    {new Date(slot.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }).toUpperCase()}
+                    {' · '}
+                    {slot.mealType.toUpperCase()}
+                  </Text>
+                </View>
+
+                <Text style={styles.ideaTitle}>{slot.recipe?.title || 'No recipe assigned'}</Text>
+
+                {slot.placementReason && (
+                  <>
+                    <Text style={styles.ideaDescription}>{slot.placementReason.summary}</Text>
+                    {slot.placementReason.reasons.map((reason, index) => (
+                      <Text key={index} style={styles.placementReason}>• {reason}</Text>
+                    ))}
+                    {slot.placementReason.relaxed.length > 0 && (
+                      <Text style={styles.placementRelaxed}>
+                        ⚠️ Relaxed: {slot.placementReason.relaxed.join(', ')}
+                      </Text>
+                    )}
+                  </>
+                )}
+              </View>
+            ))}
+
+            <View style={{ height: 100 }} />
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setGeneratedPlan(null)}
+            >
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.acceptButton} onPress={viewGeneratedPlan}>
+              <Text style={styles.acceptButtonText}>View Plan</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -828,6 +914,17 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 20,
   },
+  placementReason: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  placementRelaxed: {
+    fontSize: 13,
+    color: '#FF9800',
+    marginTop: 6,
+  },
   modalFooter: {
     flexDirection: 'row',
     padding: 16,
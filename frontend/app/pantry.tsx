@@ -131,12 +131,13 @@ export default function PantryScreen() {
     return acc;
   }, {} as Record<string, UserInventory[]>);
 
-  const getExpirationStatus = (expiresAt: string | null | undefined) => {
-    if (!expiresAt) return null;
-    const daysUntilExpiry = Math.floor(
-      (new Date(expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
+  const getExpirationStatus = (item: UserInventory) => {
+    if (!item.expiresAt) return null;
+    // Prefer the server's calendar-day count; fall back for older responses
+    const daysUntilExpiry = item.daysUntilExpiry ?? Math.floor(
+      (new Date(item.expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
     );
-    if (daysUntilExpiry < 0) return { label: 'Expired', color: '#EF4444' };
+    if (item.expiryStatus === 'expired' || daysUntilExpiry < 0) return { label: 'Expired', color: '#EF4444' };
     if (daysUntilExpiry <= 3) return { label: `${daysUntilExpiry}d`, color: '#EF4444' };
     if (daysUntilExpiry <= 7) return { label: `${daysUntilExpiry}d`, color: '#F59E0B' };
     return null;
@@ -229,7 +230,7 @@ export default function PantryScreen() {
               <View key={category} style={styles.categorySection}>
                 <Text style={styles.categoryTitle}>{category}</Text>
                 {items.map(item => {
-                  const expirationStatus = getExpirationStatus(item.expiresAt);
+                  const expirationStatus = getExpirationStatus(item);
                   return (
                     <View key={item.id} style={styles.itemCard}>
                       <View style={styles.itemInfo}>
@@ -12,11 +12,14 @@ import { router, useFocusEffect } from 'expo-router';
 import { quickCook, QuickCookRecipe } from '../src/api/inventory';
 import { useCredits } from '../contexts/CreditContext';
 import { useProFeature } from '../hooks/useProFeature';
+import AllergenBadges from '../src/components/AllergenBadges';
 
 export default function QuickCookScreen() {
   const { checkProAccess } = useProFeature();
   const { balance, refreshBalance } = useCredits();
   const [recipes, setRecipes] = useState<QuickCookRecipe[]>([]);
+  const [expiredItems, setExpiredItems] = useState<string[]>([]);
+  const [allergenItems, setAllergenItems] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const hasCheckedAccess = useRef(false);
@@ -66,6 +69,8 @@ export default function QuickCookScreen() {
       setLoading(true);
       const response = await quickCook(3);
       setRecipes(response.recipes);
+      setExpiredItems(response.expiredItems || []);
+      setAllergenItems(response.allergenItems || []);
       hasGeneratedRecipes.current = true; // Mark as generated
       await refreshBalance();
     } catch (error) {
@@ -165,6 +170,22 @@ export default function QuickCookScreen() {
               {recipes.length} {recipes.length === 1 ? 'Recipe' : 'Recipes'} Found
             </Text>
 
+            {expiredItems.length > 0 && (
+              <View style={styles.expiredNotice}>
+                <Text style={styles.expiredNoticeText}>
+                  Skipped expired items: {expiredItems.join(', ')}
+                </Text>
+              </View>
+            )}
+
+            {allergenItems.length > 0 && (
+              <View style={styles.expiredNotice}>
+                <Text style={styles.expiredNoticeText}>
+                  Skipped items on your allergy list: {allergenItems.join(', ')}
+                </Text>
+              </View>
+            )}
+
             {recipes.map((recipe) => {
               const coverage = getPantryCoverage(recipe);
               const pantryIngredients = recipe.ingredients.filter(i => i.inPantry);
@@ -186,6 +207,8 @@ export default function QuickCookScreen() {
                     <Text style={styles.recipeDescription}>{recipe.description}</Text>
                   )}
 
+                  <AllergenBadges allergens={recipe.allergens || []} />
+
                   {/* Meta Info */}
                   <View style={styles.recipeMeta}>
                     <View style={styles.metaItem}>
@@ -213,6 +236,7 @@ export default function QuickCookScreen() {
                       <View key={idx} style={styles.ingredientRow}>
                         <Text style={styles.ingredientCheckmark}>✓</Text>
                         <Text style={styles.ingredientName}>{ing.name}</Text>
+                        {ing.useSoon && <Text style={styles.useSoonTag}>Use soon</Text>}
                         <Text style={styles.ingredientAmount}>
                           {ing.amount} {ing.unit}
                         </Text>
@@ -463,6 +487,26 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  useSoonTag: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#B45309',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  expiredNotice: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  expiredNoticeText: {
+    fontSize: 13,
+    color: '#C62828',
+  },
   recipeActions: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { getRecipeVersions, rollbackRecipe } from '../../src/api/mealPlanning';
+import type { RecipeVersion, RecipeVersionChanges } from '../../src/types/mealPlanning';
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  prepTime: 'Prep time',
+  cookTime: 'Cook time',
+  servings: 'Servings',
+  mealType: 'Meal type',
+  imageUrl: 'Image',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
+/**
+ * One line per change, e.g. "Servings: 4 → 6", "+ 2 cloves garlic"
+ */
+function describeChanges(changes: RecipeVersionChanges): string[] {
+  return [
+    ...changes.fields.map(change => `${FIELD_LABELS[change.field] || change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`),
+    ...changes.ingredients.added.map(ingredient => `+ ${ingredient.amount} ${ingredient.unit} ${ingredient.name}`),
+    ...changes.ingredients.removed.map(ingredient => `− ${ingredient.amount} ${ingredient.unit} ${ingredient.name}`),
+    ...changes.ingredients.changed.map(change =>
+      `${change.name}: ${change.from.amount} ${change.from.unit} → ${change.to.amount} ${change.to.unit}`
+    ),
+    ...changes.instructions.added.map(step => `+ Step: ${step}`),
+    ...changes.instructions.removed.map(step => `− Step: ${step}`),
+  ];
+}
+
+export default function RecipeHistoryScreen() {
+  const router = useRouter();
+  const { id, canRollback } = useLocalSearchParams<{ id: string; canRollback?: string }>();
+  const [loading, setLoading] = useState(true);
+  const [currentVersion, setCurrentVersion] = useState(1);
+  const [versions, setVersions] = useState<RecipeVersion[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await getRecipeVersions(id);
+      setCurrentVersion(data.currentVersion);
+      setVersions(data.versions);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load recipe history');
+      router.back();
+    } finally {
+      setLoading(false);
+    }
+  }, [id, router]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleRollback = (version: RecipeVersion) => {
+    Alert.alert(
+      `Restore version ${version.version}?`,
+      'The recipe goes back to this version. Your current version stays in the history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setRollingBack(true);
+            try {
+              await rollbackRecipe(id, version.version);
+              await loadVersions();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to restore version');
+            } finally {
+              setRollingBack(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>History</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#007AFF" />
+      ) : versions.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>This recipe has no edits yet.</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentPadding}>
+          {versions.map(version => {
+            const isCurrent = version.version === currentVersion;
+            const lines = version.changes ? describeChanges(version.changes) : [];
+            const isExpanded = expanded === version.id;
+
+            return (
+              <TouchableOpacity
+                key={version.id}
+                style={[styles.versionCard, isCurrent && styles.currentCard]}
+                onPress={() => setExpanded(isExpanded ? null : version.id)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.versionHeader}>
+                  <Text style={styles.versionNumber}>Version {version.version}</Text>
+                  {isCurrent && <Text style={styles.currentBadge}>Current</Text>}
+                </View>
+                <Text style={styles.versionSummary}>{version.changeSummary || 'Edited'}</Text>
+                <Text style={styles.versionMeta}>
+                  {version.changedBy?.name || 'Unknown'} · {new Date(version.createdAt).toLocaleString()}
+                </Text>
+
+                {isExpanded && lines.length > 0 && (
+                  <View style={styles.changeList}>
+                    {lines.map((line, index) => (
+                      <Text key={index} style={styles.changeLine}>{line}</Text>
+                    ))}
+                  </View>
+                )}
+
+                {canRollback === 'true' && !isCurrent && (
+                  <TouchableOpacity
+                    style={[styles.rollbackButton, rollingBack && styles.rollbackButtonDisabled]}
+                    onPress={() => handleRollback(version)}
+                    disabled={rollingBack}
+                  >
+                    <Text style={styles.rollbackButtonText}>Restore this version</Text>
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 15,
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+  },
+  headerTitle: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 50,
+  },
+  loader: {
+    marginTop: 100,
+  },
+  content: {
+    flex: 1,
+  },
+  contentPadding: {
+    padding: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 100,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+  },
+  versionCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  currentCard: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  versionNumber: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  currentBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'white',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  versionSummary: {
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 4,
+  },
+  versionMeta: {
+    fontSize: 12,
+    color: '#999',
+  },
+  changeList: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  changeLine: {
+    fontSize: 14,
+    color: '#555',
+    marginBottom: 4,
+  },
+  rollbackButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  rollbackButtonDisabled: {
+    opacity: 0.6,
+  },
+  rollbackButtonText: {
+    color: '#007AFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
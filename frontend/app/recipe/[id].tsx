@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,10 +10,13 @@ import {
   Image,
   Switch,
 } from 'react-native';
-import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { API_URL } from '../../config';
 import { useAuth } from '../../contexts/AuthContext';
 import { useCredits } from '../../contexts/CreditContext';
+import AllergenBadges from '../../src/components/AllergenBadges';
+import { forkRecipe } from '../../src/api/mealPlanning';
+import type { AllergenBadge } from '../../src/types/mealPlanning';
 
 interface Ingredient {
   id: string;
@@ -24,6 +27,7 @@ interface RecipeIngredient {
   id: string;
   amount: number;
   unit: string;
+  displayAmount?: string; // Scaled amount with unit, e.g. "1 1/3 cups"
   ingredient: Ingredient;
 }
 
@@ -46,21 +50,69 @@ interface Recipe {
   usageCost?: number;
   sourceUrl?: string;
   sourceWebsite?: string;
+  sourceName?: string | null; // Cookbook or note, for text and photo imports
+  importMethod?: 'url' | 'text' | 'image' | null;
+  allergens?: AllergenBadge[];
+  excludedReason?: string | null;
+  createdById?: string | null;
+  isPublic?: boolean;
+  currentVersion?: number;
+  forkedFrom?: { id: string; title: string } | null;
+  originalAuthor?: { id: string; name: string } | null;
 }
 
 export default function RecipeDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams();
-  const { token } = useAuth();
+  const { token, user } = useAuth();
   const { balance, refreshBalance } = useCredits();
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [loading, setLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState(false);
   const [clearCartOnEntry, setClearCartOnEntry] = useState(true);
+  const [servings, setServings] = useState<number | null>(null);
+  const [scaledIngredients, setScaledIngredients] = useState<RecipeIngredient[] | null>(null);
+  const [forking, setForking] = useState(false);
+  // Set when leaving for the edit or history screens, which can change the recipe
+  const needsRefresh = useRef(false);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
     fetchRecipe();
-  }, [id]);
+  }, [id, refreshKey]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (needsRefresh.current) {
+        needsRefresh.current = false;
+        setRefreshKey(key => key + 1);
+      }
+    }, [])
+  );
+
+  useEffect(() => {
+    if (!recipe?.servings || !servings || servings === recipe.servings) {
+      setScaledIngredients(null);
+      return;
+    }
+
+    const fetchScaledIngredients = async () => {
+      try {
+        const response = await fetch(`${API_URL}/recipes/${recipe.id}/scale?servings=${servings}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setScaledIngredients(data.data.recipe.recipeIngredients);
+        }
+      } catch (error) {
+        console.error('Scale recipe error:', error);
+      }
+    };
+
+    fetchScaledIngredients();
+  }, [recipe, servings, token]);
 
   const fetchRecipe = async () => {
     try {
@@ -74,6 +126,7 @@ export default function RecipeDetailScreen() {
 
       if (data.success) {
         setRecipe(data.data.recipe);
+        setServings(data.data.recipe.servings || null);
       } else {
         Alert.alert('Error', 'Failed to fetch recipe');
         router.back();
@@ -87,6 +140,29 @@ export default function RecipeDetailScreen() {
     }
   };
 
+  const openRecipeScreen = (pathname: '/edit-recipe/[id]' | '/recipe-history/[id]', params: Record<string, string> = {}) => {
+    if (!recipe) return;
+    needsRefresh.current = true;
+    router.push({ pathname, params: { id: recipe.id, ...params } });
+  };
+
+  const handleFork = async () => {
+    if (!recipe) return;
+
+    setForking(true);
+    try {
+      const fork = await forkRecipe(recipe.id);
+      Alert.alert('Recipe Forked', 'A copy was added to your recipes. You can edit it however you like.', [
+        { text: 'Open Copy', onPress: () => router.replace({ pathname: '/recipe/[id]', params: { id: fork.id } }) },
+        { text: 'Stay Here', style: 'cancel' },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to fork recipe');
+    } finally {
+      setForking(false);
+    }
+  };
+
   const handleAddToCart = async () => {
     if (!recipe) return;
 
@@ -118,7 +194,7 @@ export default function RecipeDetailScreen() {
           'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
-          recipes: [{ recipeId: recipe.id, quantity: 1 }],
+          recipes: [{ recipeId: recipe.id, quantity: 1, servings: servings ?? undefined }],
           clearCart: clearCartOnEntry,
         }),
       });
@@ -223,6 +299,9 @@ export default function RecipeDetailScreen() {
   }
 
   const totalTime = (recipe.prepTimeMinutes || 0) + (recipe.cookTimeMinutes || 0);
+  const isOwner = !!user && recipe.createdById === user.id;
+  // Public and AI-generated recipes can be copied; private ones only by their owner
+  const canFork = recipe.isPublic || !recipe.createdById || isOwner;
 
   return (
     <View style={styles.container}>
@@ -250,6 +329,15 @@ export default function RecipeDetailScreen() {
             <Text style={styles.description}>{recipe.description}</Text>
           )}
 
+          {(recipe.forkedFrom || recipe.originalAuthor) && (
+            <Text style={styles.attributionText}>
+              Forked from {recipe.forkedFrom ? `"${recipe.forkedFrom.title}"` : 'a recipe'}
+              {recipe.originalAuthor ? ` by ${recipe.originalAuthor.name}` : ''}
+            </Text>
+          )}
+
+          <AllergenBadges allergens={recipe.allergens || []} excludedReason={recipe.excludedReason} />
+
           <View style={styles.statsRow}>
             {recipe.prepTimeMinutes ? (
               <View style={styles.statBox}>
@@ -269,10 +357,24 @@ export default function RecipeDetailScreen() {
                 <Text style={styles.statValue}>{totalTime}m</Text>
               </View>
             ) : null}
-            {recipe.servings ? (
+            {recipe.servings && servings ? (
               <View style={styles.statBox}>
                 <Text style={styles.statLabel}>Servings</Text>
-                <Text style={styles.statValue}>{recipe.servings}</Text>
+                <View style={styles.servingsStepper}>
+                  <TouchableOpacity
+                    onPress={() => setServings(Math.max(1, servings - 1))}
+                    disabled={servings <= 1}
+                  >
+                    <Text style={[styles.stepperButton, servings <= 1 && styles.stepperButtonDisabled]}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.statValue}>{servings}</Text>
+                  <TouchableOpacity
+                    onPress={() => setServings(Math.min(100, servings + 1))}
+                    disabled={servings >= 100}
+                  >
+                    <Text style={[styles.stepperButton, servings >= 100 && styles.stepperButtonDisabled]}>+</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
             ) : null}
           </View>
@@ -307,13 +409,51 @@ export default function RecipeDetailScreen() {
             </View>
           ) : null}
 
+          <TouchableOpacity
+            style={styles.cookModeButton}
+            onPress={() => router.push({
+              pathname: '/cook-mode/[id]',
+              params: { id: recipe.id, ...(servings ? { servings: servings.toString() } : {}) },
+            })}
+          >
+            <Text style={styles.cookModeButtonText}>👩‍🍳 Start Cook Mode</Text>
+          </TouchableOpacity>
+
+          <View style={styles.recipeActions}>
+            {isOwner && (
+              <TouchableOpacity style={styles.recipeActionButton} onPress={() => openRecipeScreen('/edit-recipe/[id]')}>
+                <Text style={styles.recipeActionText}>✏️ Edit</Text>
+              </TouchableOpacity>
+            )}
+            {canFork && (
+              <TouchableOpacity style={styles.recipeActionButton} onPress={handleFork} disabled={forking}>
+                {forking ? (
+                  <ActivityIndicator color="#007AFF" />
+                ) : (
+                  <Text style={styles.recipeActionText}>🍴 Fork</Text>
+                )}
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.recipeActionButton}
+              onPress={() => openRecipeScreen('/recipe-history/[id]', { canRollback: isOwner.toString() })}
+            >
+              <Text style={styles.recipeActionText}>
+                🕘 History{recipe.currentVersion && recipe.currentVersion > 1 ? ` (v${recipe.currentVersion})` : ''}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Ingredients</Text>
-            {recipe.recipeIngredients.map((item, index) => (
+            {scaledIngredients && (
+              <Text style={styles.scaledNote}>Scaled from {recipe.servings} to {servings} servings</Text>
+            )}
+            {(scaledIngredients || recipe.recipeIngredients).map((item, index) => (
               <View key={item.id} style={styles.ingredientRow}>
                 <Text style={styles.ingredientBullet}>•</Text>
                 <Text style={styles.ingredientText}>
-                  {item.amount} {item.unit} {item.ingredient.name}
+                  {item.displayAmount ?? `${item.amount} ${item.unit}`} {item.ingredient.name}
                 </Text>
               </View>
             ))}
@@ -331,11 +471,16 @@ export default function RecipeDetailScreen() {
             ))}
           </View>
 
-          {recipe.sourceUrl && (
+          {recipe.sourceUrl ? (
             <View style={styles.sourceCard}>
               <Text style={styles.sourceLabel}>Imported from:</Text>
               <Text style={styles.sourceText}>{recipe.sourceWebsite || recipe.sourceUrl}</Text>
             </View>
+          ) : recipe.isImported && (
+            <View style={styles.sourceCard}>
+              <Text style={styles.sourceLabel}>Imported from {recipe.importMethod === 'image' ? 'a photo' : 'text'}:</Text>
+              <Text style={styles.sourceText}>{recipe.sourceName || 'Personal copy'}</Text>
+            </View>
           )}
         </View>
       </ScrollView>
@@ -472,6 +617,20 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#007AFF',
   },
+  servingsStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperButton: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#007AFF',
+    paddingHorizontal: 4,
+  },
+  stepperButtonDisabled: {
+    color: '#ccc',
+  },
   nutritionCard: {
     backgroundColor: 'white',
     borderRadius: 12,
@@ -510,6 +669,50 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 12,
   },
+  cookModeButton: {
+    backgroundColor: '#FF9500',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  cookModeButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  attributionText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 16,
+  },
+  recipeActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  recipeActionButton: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  recipeActionText: {
+    color: '#007AFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  scaledNote: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: -6,
+    marginBottom: 10,
+  },
   ingredientRow: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -9,11 +9,14 @@ import {
   Alert,
   Image,
   Switch,
+  TextInput,
+  ScrollView,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { API_URL } from '../config';
 import { useAuth } from '../contexts/AuthContext';
 import { generateCartWithMergeDetection, navigateAfterCartGeneration } from '../utils/cartGeneration';
+import { addRecipesToActiveCart } from '../src/api/grocery';
 
 interface Ingredient {
   id: string;
@@ -42,6 +45,29 @@ interface Recipe {
   fat?: number;
   imageUrl?: string;
   recipeIngredients: RecipeIngredient[];
+  cuisine?: string | null;
+  averageRating?: number | null;
+  usageCount?: number;
+  pantryCoverage?: number;
+}
+
+type SortOption = 'relevance' | 'rating' | 'popularity' | 'newest';
+
+const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'Best Match',
+  newest: 'Newest',
+  rating: 'Top Rated',
+  popularity: 'Popular',
+};
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// "Uses my pantry" shows recipes with at least this share of ingredients on hand
+const PANTRY_COVERAGE_FILTER = 50;
+const QUICK_TIME_FILTER = 30;
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
 
 export default function RecipesScreen() {
@@ -54,12 +80,45 @@ export default function RecipesScreen() {
   const [selectedRecipes, setSelectedRecipes] = useState<Map<string, number>>(new Map());
   const [generatingCart, setGeneratingCart] = useState(false);
   const [clearCartOnEntry, setClearCartOnEntry] = useState(true);
+  const [searchText, setSearchText] = useState('');
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<SortOption | null>(null);
+  const [mealTypes, setMealTypes] = useState<string[]>([]);
+  const [cuisine, setCuisine] = useState<string | null>(null);
+  const [quickOnly, setQuickOnly] = useState(false);
+  const [matchMyDiet, setMatchMyDiet] = useState(false);
+  const [usesPantry, setUsesPantry] = useState(false);
+  const [cuisineCounts, setCuisineCounts] = useState<Record<string, number>>({});
   const router = useRouter();
   const { token, isAuthenticated } = useAuth();
 
   useEffect(() => {
     fetchRecipes();
-  }, [page, view]);
+  }, [page, view, query, sort, mealTypes, cuisine, quickOnly, matchMyDiet, usesPantry]);
+
+  // Filters and sorting start again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const toggleMealType = (mealType: string) => {
+    updateFilter(setMealTypes)(
+      mealTypes.includes(mealType) ? mealTypes.filter(type => type !== mealType) : [...mealTypes, mealType]
+    );
+  };
+
+  const buildSearchParams = () => {
+    const params = new URLSearchParams({ page: String(page), limit: '20', view });
+    if (query) params.set('q', query);
+    if (sort) params.set('sort', sort);
+    if (mealTypes.length > 0) params.set('mealType', mealTypes.join(','));
+    if (cuisine) params.set('cuisine', cuisine);
+    if (quickOnly) params.set('maxTotalTime', String(QUICK_TIME_FILTER));
+    if (matchMyDiet) params.set('matchMyDiet', 'true');
+    if (usesPantry) params.set('minPantryCoverage', String(PANTRY_COVERAGE_FILTER));
+    return params.toString();
+  };
 
   const fetchRecipes = async () => {
     if (!isAuthenticated || !token) {
@@ -70,7 +129,7 @@ export default function RecipesScreen() {
 
     try {
       setRefreshing(true);
-      const response = await fetch(`${API_URL}/recipes?page=${page}&limit=20&view=${view}`, {
+      const response = await fetch(`${API_URL}/recipes/search?${buildSearchParams()}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -80,6 +139,7 @@ export default function RecipesScreen() {
       if (data.success) {
         setRecipes(data.data.recipes);
         setTotalPages(data.data.pagination.totalPages);
+        setCuisineCounts(data.data.facets.cuisine);
       } else {
         Alert.alert('Error', 'Failed to fetch recipes');
       }
@@ -130,6 +190,14 @@ export default function RecipesScreen() {
         ([recipeId, quantity]) => ({ recipeId, quantity })
       );
 
+      if (!clearCartOnEntry) {
+        // Adding to the current cart only works out the new recipes' share
+        await addRecipesToActiveCart(recipeSelections);
+        setSelectedRecipes(new Map());
+        router.push('/shopping-cart');
+        return;
+      }
+
       const result = await generateCartWithMergeDetection(recipeSelections, clearCartOnEntry);
       setSelectedRecipes(new Map());
       navigateAfterCartGeneration(router, result, clearCartOnEntry);
@@ -212,6 +280,13 @@ export default function RecipesScreen() {
                 {item.recipeIngredients.length} ingredients
               </Text>
             )}
+
+            <View style={styles.searchStats}>
+              {item.cuisine && <Text style={styles.searchStat}>🌍 {capitalize(item.cuisine)}</Text>}
+              {item.averageRating ? <Text style={styles.searchStat}>⭐ {item.averageRating}</Text> : null}
+              {item.usageCount ? <Text style={styles.searchStat}>🔥 {item.usageCount} uses</Text> : null}
+              {item.pantryCoverage ? <Text style={styles.searchStat}>🥫 {item.pantryCoverage}% in pantry</Text> : null}
+            </View>
           </View>
         </TouchableOpacity>
 
@@ -287,15 +362,89 @@ export default function RecipesScreen() {
             </Text>
           </TouchableOpacity>
         </View>
+
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search recipes or ingredients"
+          placeholderTextColor="#999"
+          value={searchText}
+          onChangeText={setSearchText}
+          onSubmitEditing={() => updateFilter(setQuery)(searchText.trim())}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+          autoCapitalize="none"
+        />
+      </View>
+
+      <View style={styles.filterBar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {(Object.keys(SORT_LABELS) as SortOption[])
+            .filter(option => option !== 'relevance' || query)
+            .map(option => {
+              const active = (sort ?? (query ? 'relevance' : 'newest')) === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateFilter(setSort)(option)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{SORT_LABELS[option]}</Text>
+                </TouchableOpacity>
+              );
+            })}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {MEAL_TYPES.map(mealType => (
+            <TouchableOpacity
+              key={mealType}
+              style={[styles.chip, mealTypes.includes(mealType) && styles.chipActive]}
+              onPress={() => toggleMealType(mealType)}
+            >
+              <Text style={[styles.chipText, mealTypes.includes(mealType) && styles.chipTextActive]}>
+                {capitalize(mealType)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.chip, quickOnly && styles.chipActive]}
+            onPress={() => updateFilter(setQuickOnly)(!quickOnly)}
+          >
+            <Text style={[styles.chipText, quickOnly && styles.chipTextActive]}>≤ {QUICK_TIME_FILTER} min</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.chip, matchMyDiet && styles.chipActive]}
+            onPress={() => updateFilter(setMatchMyDiet)(!matchMyDiet)}
+          >
+            <Text style={[styles.chipText, matchMyDiet && styles.chipTextActive]}>Fits My Diet</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.chip, usesPantry && styles.chipActive]}
+            onPress={() => updateFilter(setUsesPantry)(!usesPantry)}
+          >
+            <Text style={[styles.chipText, usesPantry && styles.chipTextActive]}>Uses My Pantry</Text>
+          </TouchableOpacity>
+          {/* Cuisines found in the current results; a selected cuisine stays so it can be cleared */}
+          {(cuisine ? [cuisine] : Object.keys(cuisineCounts)).map(name => (
+            <TouchableOpacity
+              key={name}
+              style={[styles.chip, cuisine === name && styles.chipActive]}
+              onPress={() => updateFilter(setCuisine)(cuisine === name ? null : name)}
+            >
+              <Text style={[styles.chipText, cuisine === name && styles.chipTextActive]}>
+                {capitalize(name)}{cuisine !== name && cuisineCounts[name] ? ` (${cuisineCounts[name]})` : ''}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
       </View>
 
       {refreshing && recipes.length === 0 ? (
         <ActivityIndicator style={styles.loader} size="large" color="#007AFF" />
       ) : recipes.length === 0 ? (
         <View style={styles.emptyState}>
-          <Text style={styles.emptyText}>No recipes yet</Text>
+          <Text style={styles.emptyText}>No recipes found</Text>
           <Text style={styles.emptySubtext}>
-            Recipes will appear here when added to the database
+            Try a different search or fewer filters
           </Text>
         </View>
       ) : (
@@ -442,6 +591,52 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  searchInput: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  filterBar: {
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    paddingVertical: 6,
+  },
+  chipRow: {
+    paddingHorizontal: 15,
+    paddingVertical: 4,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  searchStats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 6,
+  },
+  searchStat: {
+    fontSize: 12,
+    color: '#666',
+  },
   loader: {
     marginTop: 40,
   },
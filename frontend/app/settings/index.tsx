@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -6,26 +6,61 @@ import {
   ScrollView,
   TouchableOpacity,
   Platform,
+  Alert,
 } from 'react-native';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useAuth } from '../../contexts/AuthContext';
 import { useSubscription } from '../../contexts/SubscriptionContext';
 import { useCredits } from '../../contexts/CreditContext';
 import { ProBadge } from '../../components/ProBadge';
+import {
+  getGroceryProviders,
+  getPreferredStore,
+  setPreferredStore,
+  type GroceryProviderInfo,
+} from '../../src/api/grocery';
 
 export default function SettingsScreen() {
   const router = useRouter();
   const { user, logout } = useAuth();
   const { isProUser } = useSubscription();
   const { balance, refreshBalance } = useCredits();
+  const [providers, setProviders] = useState<GroceryProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<string | null>(null);
+  const [preferredProvider, setPreferredProvider] = useState<string | null>(null);
+
+  const loadStores = React.useCallback(async () => {
+    try {
+      const [available, preferred] = await Promise.all([getGroceryProviders(), getPreferredStore()]);
+      setProviders(available.providers.filter((provider) => provider.configured));
+      setDefaultProvider(available.defaultProvider);
+      setPreferredProvider(preferred.preferredProvider);
+    } catch (error) {
+      console.error('Failed to load grocery stores:', error);
+    }
+  }, []);
 
-  // Refresh balance when screen comes into focus
+  // Refresh balance and stores when screen comes into focus
   useFocusEffect(
     React.useCallback(() => {
       refreshBalance();
-    }, [refreshBalance])
+      loadStores();
+    }, [refreshBalance, loadStores])
   );
 
+  const handleSelectStore = async (provider: string | null) => {
+    const previous = preferredProvider;
+    setPreferredProvider(provider);
+    try {
+      await setPreferredStore(provider);
+    } catch (error) {
+      setPreferredProvider(previous);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update preferred store');
+    }
+  };
+
+  const defaultProviderName = providers.find((provider) => provider.id === defaultProvider)?.name;
+
   const handleLogout = async () => {
     await logout();
     router.replace('/login');
@@ -129,6 +164,23 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Grocery Store Section */}
+        {providers.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Grocery Store</Text>
+            {[{ id: null, name: defaultProviderName ? `Default (${defaultProviderName})` : 'Default' }, ...providers].map((provider) => (
+              <TouchableOpacity
+                key={provider.id ?? 'default'}
+                style={styles.settingButton}
+                onPress={() => handleSelectStore(provider.id)}
+              >
+                <Text style={styles.settingButtonText}>{provider.name}</Text>
+                {preferredProvider === provider.id && <Text style={styles.storeSelected}>✓</Text>}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* App Info Section */}
         <View style={styles.card}>
           <Text style={styles.cardTitle}>About</Text>
@@ -259,6 +311,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#999',
   },
+  storeSelected: {
+    fontSize: 18,
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
   upgradeButton: {
     backgroundColor: '#f0f8f0',
     borderRadius: 8,
@@ -19,7 +19,20 @@ import WalmartProductsModal, {
   SubstituteOption,
   QualityTier
 } from '../src/components/WalmartProductsModal';
+import StoreRouteList from '../src/components/StoreRouteList';
+import AddToCartModal, { type AddToCartTab } from '../src/components/AddToCartModal';
 import { useWalmartProducts } from '../src/hooks';
+import {
+  addCartItem,
+  removeCartItem,
+  addStaplesToCart,
+  removeRecipeFromActiveCart,
+  checkoutCart,
+  type CartDelta,
+  type CartDeltaItem,
+  type PriceComparison,
+  type Staple,
+} from '../src/api/grocery';
 
 interface WalmartProduct {
   itemId: string;
@@ -72,15 +85,42 @@ interface RecipeBreakdown {
 
 interface IngredientWithPrice extends RecipeIngredient {
   walmartProduct?: WalmartProduct | null;
+  priceComparison?: PriceComparison | null;
   priceLoading: boolean;
   priceError?: string;
   recipeBreakdown?: RecipeBreakdown[];
   originalIngredientName?: string;
+  shoppingListItemId?: string; // Set for items loaded from the saved cart
+}
+
+// Breakdown entries for items that aren't from a recipe
+const SOURCE_BREAKDOWN_TITLES: Record<string, string> = {
+  manual: 'Added manually',
+  staple: 'Staple',
+};
+
+function toCartIngredient(item: CartDeltaItem): IngredientWithPrice {
+  return {
+    id: item.ingredientId || item.shoppingListItemId,
+    ingredient: {
+      id: item.ingredientId,
+      name: item.ingredientName,
+      walmartItemId: item.walmartItemId || undefined,
+    },
+    originalIngredientName: item.ingredientName,
+    amount: item.amount,
+    unit: item.unit,
+    notes: item.recipes.length > 0 ? `Used in: ${item.recipes.join(', ')}` : undefined,
+    sortOrder: 0,
+    priceLoading: true,
+    shoppingListItemId: item.shoppingListItemId,
+    recipeBreakdown: item.recipeBreakdown,
+  };
 }
 
 export default function CartReviewScreen() {
   const params = useLocalSearchParams();
-  const { id, recipes: recipesParam, ingredients: ingredientsParam, shoppingListId } = params;
+  const { id, recipes: recipesParam, ingredients: ingredientsParam, shoppingListId, suggestedStaples: staplesParam } = params;
   const router = useRouter();
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [loading, setLoading] = useState(true);
@@ -102,6 +142,14 @@ export default function CartReviewScreen() {
   const [currentShoppingListId, setCurrentShoppingListId] = useState<string | null>(
     (shoppingListId as string) || null
   );
+  // 'route' groups the saved list by store section for walking the store
+  const [viewMode, setViewMode] = useState<'prices' | 'route'>('prices');
+  const [suggestedStaples, setSuggestedStaples] = useState<Staple[]>([]);
+  const [newItemName, setNewItemName] = useState('');
+  const [addingItem, setAddingItem] = useState(false);
+  const [addToCartTab, setAddToCartTab] = useState<AddToCartTab | null>(null);
+  const [removingRecipeId, setRemovingRecipeId] = useState<string | null>(null);
+  const [checkingOut, setCheckingOut] = useState(false);
 
   useEffect(() => {
     if (ingredientsParam && recipesParam) {
@@ -139,6 +187,9 @@ export default function CartReviewScreen() {
       const ingredients = JSON.parse(ingredientsParam as string);
 
       setMultipleRecipes(recipes);
+      if (staplesParam) {
+        setSuggestedStaples(JSON.parse(staplesParam as string));
+      }
       if (shoppingListId) {
         setCurrentShoppingListId(shoppingListId as string);
       }
@@ -184,6 +235,7 @@ export default function CartReviewScreen() {
         headers: { Authorization: `Bearer ${token}` },
       });
       const data = await response.json();
+      setSuggestedStaples(data.suggestedStaples || []);
 
       if (!data.shoppingList || data.shoppingList.items.length === 0) {
         // No active cart — show empty state with redirect
@@ -194,19 +246,38 @@ export default function CartReviewScreen() {
 
       const list = data.shoppingList;
       setCurrentShoppingListId(list.id);
-
-      const ingredientsData: IngredientWithPrice[] = list.items.map((item: any) => ({
-        id: item.ingredientId,
-        ingredient: {
-          id: item.ingredientId,
-          name: item.ingredient?.name || 'Unknown',
-        },
-        originalIngredientName: item.ingredient?.name,
-        amount: parseFloat(item.totalAmount) || 0,
-        unit: item.unit,
-        sortOrder: 0,
-        priceLoading: true,
-      }));
+      setMultipleRecipes((list.recipes || []).map((r: any) => ({
+        recipeId: r.recipeId,
+        recipeTitle: r.recipe.title,
+        quantity: r.quantity,
+      })));
+
+      const ingredientsData: IngredientWithPrice[] = list.items.map((item: any) => {
+        const name = item.ingredient?.name || item.name || 'Unknown';
+        const amount = parseFloat(item.totalAmount) || 0;
+        return {
+          id: item.ingredientId || item.id,
+          ingredient: {
+            id: item.ingredientId || '',
+            name,
+            walmartItemId: item.walmartItemId || item.ingredient?.walmartItemId,
+          },
+          originalIngredientName: name,
+          amount,
+          unit: item.unit,
+          sortOrder: 0,
+          priceLoading: true,
+          shoppingListItemId: item.id,
+          recipeBreakdown: SOURCE_BREAKDOWN_TITLES[item.source]
+            ? [{ recipeId: item.source, recipeTitle: SOURCE_BREAKDOWN_TITLES[item.source], amount, unit: item.unit }]
+            : item.contributions?.map((c: any) => ({
+              recipeId: c.shoppingListRecipe.recipeId,
+              recipeTitle: c.shoppingListRecipe.recipe.title,
+              amount: c.amount,
+              unit: item.unit,
+            })),
+        };
+      });
 
       setIngredientsWithPrices(ingredientsData);
       await fetchAllPrices(ingredientsData);
@@ -237,6 +308,7 @@ export default function CartReviewScreen() {
       }
 
       setMultipleRecipes(data.recipes);
+      setSuggestedStaples(data.suggestedStaples || []);
 
       const ingredientsData: IngredientWithPrice[] = data.ingredients.map((item: any) => ({
         id: item.ingredientId,
@@ -295,6 +367,12 @@ export default function CartReviewScreen() {
   };
 
   const fetchAllPrices = async (ingredients: IngredientWithPrice[]) => {
+    // Results go to the items they were fetched for, so items appended to a priced cart
+    // don't disturb the rest
+    const fetchedIndex = (item: IngredientWithPrice) => ingredients.findIndex((ing) =>
+      ing === item || (!!ing.shoppingListItemId && ing.shoppingListItemId === item.shoppingListItemId)
+    );
+
     try {
       const response = await fetch(`${API_URL}/walmart/recipe-pricing`, {
         method: 'POST',
@@ -302,6 +380,7 @@ export default function CartReviewScreen() {
         body: JSON.stringify({
           ingredients: ingredients.map(ing => ({
             name: ing.ingredient.name,
+            ingredientId: ing.ingredient.id,
             walmartItemId: ing.ingredient.walmartItemId,
             amount: ing.amount,
             unit: ing.unit
@@ -313,11 +392,14 @@ export default function CartReviewScreen() {
 
       if (data.success && data.data.results) {
         setIngredientsWithPrices((prev) =>
-          prev.map((item, index) => {
+          prev.map((item) => {
+            const index = fetchedIndex(item);
+            if (index === -1) return item;
             const result = data.data.results[index];
             return {
               ...item,
               walmartProduct: result?.product || null,
+              priceComparison: result?.priceComparison || null,
               purchaseQuantity: result?.purchaseCount || item.amount,
               priceLoading: false,
               priceError: result?.error ? 'Failed to fetch price' : undefined
@@ -326,21 +408,21 @@ export default function CartReviewScreen() {
         );
       } else {
         setIngredientsWithPrices((prev) =>
-          prev.map((item) => ({
+          prev.map((item) => fetchedIndex(item) === -1 ? item : {
             ...item,
             walmartProduct: null,
             priceLoading: false
-          }))
+          })
         );
       }
     } catch (error) {
       console.error('Batch pricing error:', error);
       setIngredientsWithPrices((prev) =>
-        prev.map((item) => ({
+        prev.map((item) => fetchedIndex(item) === -1 ? item : {
           ...item,
           priceLoading: false,
           priceError: 'Failed to fetch price'
-        }))
+        })
       );
     }
   };
@@ -370,6 +452,11 @@ export default function CartReviewScreen() {
       if (breakdown && breakdown.length > 0) {
         recipeId = (breakdown[0] as any).recipeId;
 
+        // Manual and staple items have no recipe to suggest substitutes from
+        if (recipeId && SOURCE_BREAKDOWN_TITLES[recipeId]) {
+          recipeId = undefined;
+        }
+
         if (!recipeId) {
           const firstRecipeTitle = breakdown[0].recipeTitle;
           const matchingRecipe = multipleRecipes.find(r => r.recipeTitle === firstRecipeTitle);
@@ -438,6 +525,7 @@ export default function CartReviewScreen() {
                 ? {
                     ...item,
                     walmartProduct: result?.product || null,
+                    priceComparison: result?.priceComparison || null,
                     purchaseQuantity: result?.purchaseCount || item.amount,
                     priceLoading: false
                   }
@@ -479,8 +567,16 @@ export default function CartReviewScreen() {
         {
           text: 'Remove',
           style: 'destructive',
-          onPress: () => {
+          onPress: async () => {
+            const itemId = ingredientsWithPrices[index].shoppingListItemId;
             setIngredientsWithPrices((prev) => prev.filter((_, i) => i !== index));
+            if (itemId) {
+              try {
+                await removeCartItem(itemId);
+              } catch (err) {
+                console.error('Failed to remove item on server:', err);
+              }
+            }
           },
         },
       ]
@@ -533,6 +629,134 @@ export default function CartReviewScreen() {
     );
   };
 
+  const handleAddItem = async () => {
+    const name = newItemName.trim();
+    if (!name) return;
+
+    try {
+      setAddingItem(true);
+      await addCartItem({ name });
+      setNewItemName('');
+      await loadActiveCart();
+    } catch (error) {
+      console.error('Add cart item error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add item');
+    } finally {
+      setAddingItem(false);
+    }
+  };
+
+  const handleAddStaples = async () => {
+    try {
+      await addStaplesToCart(suggestedStaples.map((staple) => staple.id));
+      setSuggestedStaples([]);
+      await loadActiveCart();
+    } catch (error) {
+      console.error('Add staples error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add staples');
+    }
+  };
+
+  /**
+   * Send the matched products to the store's cart. Prices on this screen come from Walmart,
+   * so checkout goes to Walmart too.
+   */
+  const handleCheckout = async () => {
+    const items = ingredientsWithPrices
+      .filter((item) => item.walmartProduct)
+      .map((item) => ({
+        productId: item.walmartProduct!.itemId,
+        quantity: Math.max(1, Math.ceil(item.purchaseQuantity || item.amount)),
+      }));
+    if (items.length === 0) {
+      Alert.alert('Nothing to check out', 'No items are matched to products yet.');
+      return;
+    }
+
+    setCheckingOut(true);
+    try {
+      const cart = await checkoutCart(items, 'walmart');
+      const url = cart.addToCartUrl || cart.cartUrl;
+      if (url) {
+        openProductUrl(url);
+      } else {
+        Alert.alert('Cart ready', cart.message || `${items.length} items, $${(cart.total ?? 0).toFixed(2)}`);
+      }
+    } catch (error) {
+      console.error('Checkout error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create cart');
+    } finally {
+      setCheckingOut(false);
+    }
+  };
+
+  /**
+   * Apply a change to the saved cart in place: new items are priced, updated items keep their
+   * product, removed items drop off
+   */
+  const applyCartDelta = async (delta: CartDelta) => {
+    setCurrentShoppingListId(delta.shoppingListId);
+    setMultipleRecipes(delta.recipes);
+
+    const removed = new Set(delta.removed);
+    const added = delta.added.map(toCartIngredient);
+    setIngredientsWithPrices((prev) => [
+      ...prev
+        .filter((item) => !item.shoppingListItemId || !removed.has(item.shoppingListItemId))
+        .map((item) => {
+          // Items from a freshly generated cart have no item ID yet
+          const updated = delta.updated.find((u) => item.shoppingListItemId
+            ? u.shoppingListItemId === item.shoppingListItemId
+            : u.ingredientId === item.ingredient.id && u.unit === item.unit);
+          return updated
+            ? {
+              ...item,
+              amount: updated.amount,
+              unit: updated.unit,
+              notes: `Used in: ${updated.recipes.join(', ')}`,
+              recipeBreakdown: updated.recipeBreakdown,
+              shoppingListItemId: updated.shoppingListItemId,
+            }
+            : item;
+        }),
+      ...added,
+    ]);
+
+    if (delta.potentialMerges.length > 0) {
+      Alert.alert(
+        'Possible Duplicates',
+        delta.potentialMerges
+          .map((merge) => merge.ingredients.map((i) => i.ingredientName).join(' + '))
+          .join('\n')
+      );
+    }
+
+    if (added.length > 0) {
+      await fetchAllPrices(added);
+    }
+  };
+
+  const handleRemoveRecipe = (recipeId: string, recipeTitle: string) => {
+    Alert.alert('Remove Recipe', `Take ${recipeTitle} off your cart?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setRemovingRecipeId(recipeId);
+            await applyCartDelta(await removeRecipeFromActiveCart(recipeId));
+          } catch (error) {
+            console.error('Remove recipe error:', error);
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove recipe');
+          } finally {
+            setRemovingRecipeId(null);
+          }
+        },
+      },
+    ]);
+  };
+
   const handleCancelRedirect = () => {
     setRedirectCountdown(null);
   };
@@ -594,6 +818,22 @@ export default function CartReviewScreen() {
                 <Text style={styles.actionButtonIcon}>📋</Text>
                 <Text style={styles.actionButtonText}>Add from Meal Plans</Text>
               </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => router.push('/shopping-history')}
+              >
+                <Text style={styles.actionButtonIcon}>🧾</Text>
+                <Text style={styles.actionButtonText}>Shopping History</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => router.push('/staples')}
+              >
+                <Text style={styles.actionButtonIcon}>⭐</Text>
+                <Text style={styles.actionButtonText}>My Staples</Text>
+              </TouchableOpacity>
             </View>
           </View>
         </View>
@@ -603,6 +843,8 @@ export default function CartReviewScreen() {
 
   const totalPrice = calculateTotalPrice();
   const pricesLoaded = ingredientsWithPrices.every((i) => !i.priceLoading);
+  // Recipes can be taken off once every item is matched to its saved row
+  const canRemoveRecipes = ingredientsWithPrices.every((i) => i.shoppingListItemId);
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -618,9 +860,22 @@ export default function CartReviewScreen() {
           <View style={styles.recipeSummaryCard}>
             <Text style={styles.recipeSummaryTitle}>Selected Recipes</Text>
             {multipleRecipes.map((r) => (
-              <Text key={r.recipeId} style={styles.recipeSummaryItem}>
-                {r.quantity}× {r.recipeTitle}
-              </Text>
+              <View key={r.recipeId} style={styles.recipeSummaryRow}>
+                <Text style={styles.recipeSummaryItem}>
+                  {r.quantity}× {r.recipeTitle}
+                </Text>
+                {canRemoveRecipes && (removingRecipeId === r.recipeId ? (
+                  <ActivityIndicator size="small" color="#34C759" />
+                ) : (
+                  <TouchableOpacity
+                    onPress={() => handleRemoveRecipe(r.recipeId, r.recipeTitle)}
+                    disabled={removingRecipeId !== null}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Text style={styles.recipeSummaryRemove}>✕</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             ))}
           </View>
         )}
@@ -644,6 +899,20 @@ export default function CartReviewScreen() {
           )}
         </View>
 
+        {pricesLoaded && ingredientsWithPrices.some((item) => item.walmartProduct) && (
+          <TouchableOpacity
+            style={[styles.checkoutButton, checkingOut && styles.checkoutButtonDisabled]}
+            onPress={handleCheckout}
+            disabled={checkingOut}
+          >
+            {checkingOut ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.checkoutButtonText}>Check Out at Walmart</Text>
+            )}
+          </TouchableOpacity>
+        )}
+
         <View style={styles.disclaimer}>
           <Text style={styles.disclaimerText}>
             Prices are estimates based on Walmart product searches. Actual
@@ -651,143 +920,208 @@ export default function CartReviewScreen() {
           </Text>
         </View>
 
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>
-            Ingredient Prices ({ingredientsWithPrices.length})
-          </Text>
-          <Text style={styles.sectionSubtitle}>
-            Tap any ingredient to browse more options
-          </Text>
+        {suggestedStaples.length > 0 && (
+          <View style={styles.staplesBanner}>
+            <View style={styles.staplesBannerInfo}>
+              <Text style={styles.staplesBannerTitle}>Staples due</Text>
+              <Text style={styles.staplesBannerNames} numberOfLines={2}>
+                {suggestedStaples.map((staple) => staple.name).join(', ')}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.staplesBannerButton} onPress={handleAddStaples}>
+              <Text style={styles.staplesBannerButtonText}>Add all</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setSuggestedStaples([])} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Text style={styles.staplesBannerDismiss}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
-          {ingredientsWithPrices.map((item, index) => (
-            <View
-              key={`${item.ingredient.id || item.ingredient.name}-${index}`}
-              style={styles.ingredientCard}
+        {currentShoppingListId && (
+          <View style={styles.addItemRow}>
+            <TextInput
+              style={styles.addItemInput}
+              value={newItemName}
+              onChangeText={setNewItemName}
+              placeholder="Add an item (e.g. paper towels)"
+              placeholderTextColor="#999"
+              onSubmitEditing={handleAddItem}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.addItemButton, (!newItemName.trim() || addingItem) && styles.addItemButtonDisabled]}
+              onPress={handleAddItem}
+              disabled={!newItemName.trim() || addingItem}
             >
-              <TouchableOpacity
-                style={styles.deleteButton}
-                onPress={() => handleDeleteIngredient(index)}
-                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-              >
-                <Text style={styles.deleteButtonText}>✕</Text>
-              </TouchableOpacity>
+              <Text style={styles.addItemButtonText}>{addingItem ? '...' : 'Add'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
-              <TouchableOpacity
-                style={styles.ingredientCardContent}
-                onPress={() => handleIngredientClick(item.ingredient.name, index)}
-                activeOpacity={0.8}
+        {currentShoppingListId && (
+          <View style={styles.viewModeToggle}>
+            <TouchableOpacity
+              style={[styles.viewModeButton, viewMode === 'prices' && styles.viewModeButtonActive]}
+              onPress={() => setViewMode('prices')}
+            >
+              <Text style={[styles.viewModeText, viewMode === 'prices' && styles.viewModeTextActive]}>Prices</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.viewModeButton, viewMode === 'route' && styles.viewModeButtonActive]}
+              onPress={() => setViewMode('route')}
+            >
+              <Text style={[styles.viewModeText, viewMode === 'route' && styles.viewModeTextActive]}>Store Route</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {viewMode === 'route' && currentShoppingListId ? (
+          <StoreRouteList shoppingListId={currentShoppingListId} />
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Ingredient Prices ({ingredientsWithPrices.length})
+            </Text>
+            <Text style={styles.sectionSubtitle}>
+              Tap any ingredient to browse more options
+            </Text>
+
+            {ingredientsWithPrices.map((item, index) => (
+              <View
+                key={`${item.ingredient.id || item.ingredient.name}-${index}`}
+                style={styles.ingredientCard}
               >
-                <View style={styles.ingredientHeader}>
-                  <View style={styles.ingredientInfo}>
-                    <Text style={styles.ingredientName}>
-                      {item.ingredient.name}
-                    </Text>
-                    <Text style={styles.ingredientQuantity}>
-                      Total needed: {item.amount} {item.unit}
-                    </Text>
-
-                    {item.recipeBreakdown && item.recipeBreakdown.length > 0 && (
-                      <View style={styles.recipeBreakdownContainer}>
-                        {item.recipeBreakdown.map((breakdown, idx) => (
-                          <View key={idx} style={styles.recipeBreakdownCard}>
-                            <Text style={styles.recipeBreakdownRecipe}>
-                              {breakdown.recipeTitle}
-                            </Text>
-                            <Text style={styles.recipeBreakdownAmount}>
-                              {breakdown.amount} {breakdown.unit}
-                            </Text>
-                          </View>
-                        ))}
-                      </View>
-                    )}
-
-                    <View style={styles.purchaseQuantityContainer}>
-                      <Text style={styles.purchaseQuantityLabel}>Purchase:</Text>
-                      <TextInput
-                        style={styles.purchaseQuantityInput}
-                        value={String(item.purchaseQuantity || item.amount)}
-                        onChangeText={(value) => handlePurchaseQuantityChange(index, value)}
-                        keyboardType="decimal-pad"
-                        selectTextOnFocus
-                      />
-                      <Text style={styles.purchaseQuantityUnit}>
-                        {item.walmartProduct ? 'count' : item.unit}
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => handleDeleteIngredient(index)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Text style={styles.deleteButtonText}>✕</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.ingredientCardContent}
+                  onPress={() => handleIngredientClick(item.ingredient.name, index)}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.ingredientHeader}>
+                    <View style={styles.ingredientInfo}>
+                      <Text style={styles.ingredientName}>
+                        {item.ingredient.name}
                       </Text>
-                    </View>
-                  </View>
-                </View>
-
-                {item.priceLoading ? (
-                  <View style={styles.priceLoading}>
-                    <ActivityIndicator size="small" color="#34C759" />
-                    <Text style={styles.priceLoadingText}>
-                      Searching Walmart...
-                    </Text>
-                  </View>
-                ) : item.priceError ? (
-                  <View style={styles.priceError}>
-                    <Text style={styles.priceErrorText}>{item.priceError}</Text>
-                  </View>
-                ) : item.walmartProduct ? (
-                  <View style={styles.productInfo}>
-                    {item.walmartProduct.thumbnailImage && (
-                      <Image
-                        source={{ uri: item.walmartProduct.thumbnailImage }}
-                        style={styles.productImage}
-                        resizeMode="contain"
-                      />
-                    )}
-
-                    <View style={styles.productDetails}>
-                      <Text style={styles.productName} numberOfLines={2}>
-                        {item.walmartProduct.name}
+                      <Text style={styles.ingredientQuantity}>
+                        Total needed: {item.amount} {item.unit}
                       </Text>
 
-                      {item.walmartProduct.brandName && (
-                        <Text style={styles.brandName}>
-                          {item.walmartProduct.brandName}
-                        </Text>
+                      {item.recipeBreakdown && item.recipeBreakdown.length > 0 && (
+                        <View style={styles.recipeBreakdownContainer}>
+                          {item.recipeBreakdown.map((breakdown, idx) => (
+                            <View key={idx} style={styles.recipeBreakdownCard}>
+                              <Text style={styles.recipeBreakdownRecipe}>
+                                {breakdown.recipeTitle}
+                              </Text>
+                              <Text style={styles.recipeBreakdownAmount}>
+                                {breakdown.amount} {breakdown.unit}
+                              </Text>
+                            </View>
+                          ))}
+                        </View>
                       )}
 
-                      <View style={styles.priceContainer}>
-                        <Text style={styles.price}>
-                          ${item.walmartProduct.salePrice.toFixed(2)}
+                      <View style={styles.purchaseQuantityContainer}>
+                        <Text style={styles.purchaseQuantityLabel}>Purchase:</Text>
+                        <TextInput
+                          style={styles.purchaseQuantityInput}
+                          value={String(item.purchaseQuantity || item.amount)}
+                          onChangeText={(value) => handlePurchaseQuantityChange(index, value)}
+                          keyboardType="decimal-pad"
+                          selectTextOnFocus
+                        />
+                        <Text style={styles.purchaseQuantityUnit}>
+                          {item.walmartProduct ? 'count' : item.unit}
                         </Text>
-                        {item.walmartProduct.msrp &&
-                          item.walmartProduct.msrp > item.walmartProduct.salePrice && (
-                            <Text style={styles.msrp}>
-                              ${item.walmartProduct.msrp.toFixed(2)}
-                            </Text>
-                          )}
                       </View>
+                    </View>
+                  </View>
 
-                      {item.walmartProduct.availableOnline && (
-                        <Text style={styles.availability}>Available Online</Text>
+                  {item.priceLoading ? (
+                    <View style={styles.priceLoading}>
+                      <ActivityIndicator size="small" color="#34C759" />
+                      <Text style={styles.priceLoadingText}>
+                        Searching Walmart...
+                      </Text>
+                    </View>
+                  ) : item.priceError ? (
+                    <View style={styles.priceError}>
+                      <Text style={styles.priceErrorText}>{item.priceError}</Text>
+                    </View>
+                  ) : item.walmartProduct ? (
+                    <View style={styles.productInfo}>
+                      {item.walmartProduct.thumbnailImage && (
+                        <Image
+                          source={{ uri: item.walmartProduct.thumbnailImage }}
+                          style={styles.productImage}
+                          resizeMode="contain"
+                        />
                       )}
 
-                      {item.walmartProduct.productUrl && (
-                        <TouchableOpacity
-                          style={styles.viewButton}
-                          onPress={() => openProductUrl(item.walmartProduct!.productUrl!)}
-                        >
-                          <Text style={styles.viewButtonText}>
-                            View on Walmart
+                      <View style={styles.productDetails}>
+                        <Text style={styles.productName} numberOfLines={2}>
+                          {item.walmartProduct.name}
+                        </Text>
+
+                        {item.walmartProduct.brandName && (
+                          <Text style={styles.brandName}>
+                            {item.walmartProduct.brandName}
                           </Text>
-                        </TouchableOpacity>
-                      )}
+                        )}
+
+                        <View style={styles.priceContainer}>
+                          <Text style={styles.price}>
+                            ${item.walmartProduct.salePrice.toFixed(2)}
+                          </Text>
+                          {item.walmartProduct.msrp &&
+                            item.walmartProduct.msrp > item.walmartProduct.salePrice && (
+                              <Text style={styles.msrp}>
+                                ${item.walmartProduct.msrp.toFixed(2)}
+                              </Text>
+                            )}
+                        </View>
+
+                        {item.priceComparison?.cheaperThanUsual && (
+                          <Text style={styles.cheaperThanUsual}>
+                            {Math.abs(item.priceComparison.percentDifference).toFixed(0)}% cheaper than usual
+                          </Text>
+                        )}
+
+                        {item.walmartProduct.availableOnline && (
+                          <Text style={styles.availability}>Available Online</Text>
+                        )}
+
+                        {item.walmartProduct.productUrl && (
+                          <TouchableOpacity
+                            style={styles.viewButton}
+                            onPress={() => openProductUrl(item.walmartProduct!.productUrl!)}
+                          >
+                            <Text style={styles.viewButtonText}>
+                              View on Walmart
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
                     </View>
-                  </View>
-                ) : (
-                  <View style={styles.noPrice}>
-                    <Text style={styles.noPriceText}>
-                      No pricing available
-                    </Text>
-                  </View>
-                )}
-              </TouchableOpacity>
-            </View>
-          ))}
-        </View>
+                  ) : (
+                    <View style={styles.noPrice}>
+                      <Text style={styles.noPriceText}>
+                        No pricing available
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
 
         {ingredientsWithPrices.length > 0 && (
           <View style={styles.cartActionsFooter}>
@@ -800,7 +1134,7 @@ export default function CartReviewScreen() {
 
             <TouchableOpacity
               style={styles.actionButton}
-              onPress={() => router.push('/recipes')}
+              onPress={() => setAddToCartTab('recipes')}
             >
               <Text style={styles.actionButtonIcon}>🍳</Text>
               <Text style={styles.actionButtonText}>Add More Recipes</Text>
@@ -808,11 +1142,27 @@ export default function CartReviewScreen() {
 
             <TouchableOpacity
               style={styles.actionButton}
-              onPress={() => router.push('/meal-plans')}
+              onPress={() => setAddToCartTab('mealPlans')}
             >
               <Text style={styles.actionButtonIcon}>📋</Text>
               <Text style={styles.actionButtonText}>Add from Meal Plans</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => router.push('/shopping-history')}
+            >
+              <Text style={styles.actionButtonIcon}>🧾</Text>
+              <Text style={styles.actionButtonText}>Shopping History</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => router.push('/staples')}
+            >
+              <Text style={styles.actionButtonIcon}>⭐</Text>
+              <Text style={styles.actionButtonText}>My Staples</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -836,6 +1186,13 @@ export default function CartReviewScreen() {
         onSubstituteSelect={handleSubstituteSelect}
         onQualityTierSelect={handleQualityTierSelect}
       />
+
+      <AddToCartModal
+        visible={addToCartTab !== null}
+        initialTab={addToCartTab ?? 'recipes'}
+        onClose={() => setAddToCartTab(null)}
+        onCartUpdated={applyCartDelta}
+      />
     </ScrollView>
   );
 }
@@ -900,11 +1257,21 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 8,
   },
+  recipeSummaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   recipeSummaryItem: {
     fontSize: 14,
     color: '#666',
     paddingVertical: 4,
   },
+  recipeSummaryRemove: {
+    fontSize: 16,
+    color: '#999',
+    paddingHorizontal: 4,
+  },
   totalCard: {
     backgroundColor: '#34C759',
     padding: 20,
@@ -943,6 +1310,21 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
     marginTop: 8,
   },
+  checkoutButton: {
+    backgroundColor: '#0071CE',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  checkoutButtonDisabled: {
+    opacity: 0.6,
+  },
+  checkoutButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
   disclaimer: {
     backgroundColor: '#FFF3CD',
     padding: 12,
@@ -959,6 +1341,97 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 25,
   },
+  viewModeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#e8e8e8',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 15,
+  },
+  viewModeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  viewModeButtonActive: {
+    backgroundColor: 'white',
+  },
+  viewModeText: {
+    fontSize: 15,
+    color: '#666',
+    fontWeight: '600',
+  },
+  viewModeTextActive: {
+    color: '#34C759',
+  },
+  staplesBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#FFF8E1',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 15,
+  },
+  staplesBannerInfo: {
+    flex: 1,
+  },
+  staplesBannerTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  staplesBannerNames: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  staplesBannerButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  staplesBannerButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  staplesBannerDismiss: {
+    fontSize: 16,
+    color: '#999',
+  },
+  addItemRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 15,
+  },
+  addItemInput: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#333',
+  },
+  addItemButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 10,
+    paddingHorizontal: 18,
+    justifyContent: 'center',
+  },
+  addItemButtonDisabled: {
+    opacity: 0.5,
+  },
+  addItemButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   sectionTitle: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -1158,6 +1631,12 @@ const styles = StyleSheet.create({
     color: '#28a745',
     marginBottom: 8,
   },
+  cheaperThanUsual: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#28a745',
+    marginBottom: 4,
+  },
   viewButton: {
     backgroundColor: '#34C759',
     paddingHorizontal: 12,
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import {
+  getCartHistory,
+  getFrequentlyBought,
+  reopenShoppingList,
+  buyAgain,
+  type ShoppingListSummary,
+  type FrequentlyBoughtItem,
+  type BuyAgainSelection,
+} from '../src/api/grocery';
+
+const SOURCE_LABELS: Record<string, string> = {
+  meal_plan: 'Meal plan',
+  recipe_selection: 'Recipes',
+  buy_again: 'Buy again',
+};
+
+export default function ShoppingHistoryScreen() {
+  const router = useRouter();
+  const [lists, setLists] = useState<ShoppingListSummary[]>([]);
+  const [frequentlyBought, setFrequentlyBought] = useState<FrequentlyBoughtItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyListId, setBusyListId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      const [history, frequent] = await Promise.all([getCartHistory(), getFrequentlyBought(10)]);
+      setLists(history.lists);
+      setFrequentlyBought(frequent);
+    } catch (error) {
+      console.error('Load shopping history error:', error);
+      Alert.alert('Error', 'Failed to load shopping history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReopen = async (list: ShoppingListSummary) => {
+    try {
+      setBusyListId(list.id);
+      await reopenShoppingList(list.id);
+      router.push('/shopping-cart');
+    } catch (error) {
+      console.error('Reopen shopping list error:', error);
+      Alert.alert('Error', 'Failed to reopen this list');
+    } finally {
+      setBusyListId(null);
+    }
+  };
+
+  const handleBuyAgain = async (list: ShoppingListSummary, items: BuyAgainSelection) => {
+    try {
+      setBusyListId(list.id);
+      const result = await buyAgain(list.id, items);
+      const count = result.added + result.combined;
+      Alert.alert('Added to Cart', `${count} item${count === 1 ? '' : 's'} added to your cart`, [
+        { text: 'Keep Browsing', style: 'cancel' },
+        { text: 'View Cart', onPress: () => router.push('/shopping-cart') },
+      ]);
+      await loadHistory();
+    } catch (error) {
+      console.error('Buy again error:', error);
+      Alert.alert('Nothing Added', error instanceof Error ? error.message : 'Failed to add items to cart');
+    } finally {
+      setBusyListId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#34C759" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.content}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Shopping History</Text>
+
+        {frequentlyBought.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Frequently Bought</Text>
+            {frequentlyBought.map((item) => (
+              <View key={item.ingredientId} style={styles.frequentRow}>
+                <Text style={styles.frequentName}>{item.name}</Text>
+                <Text style={styles.frequentMeta}>
+                  {item.timesBought}×
+                  {item.averageDaysBetween !== null ? ` · every ~${item.averageDaysBetween} days` : ''}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {lists.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🧾</Text>
+            <Text style={styles.emptyText}>No shopping lists yet</Text>
+          </View>
+        ) : (
+          lists.map((list) => {
+            const busy = busyListId === list.id;
+            const unpurchased = list.itemCount - list.purchasedCount;
+
+            return (
+              <View key={list.id} style={styles.card}>
+                <View style={styles.listHeader}>
+                  <Text style={styles.listDate}>{new Date(list.generatedAt).toLocaleDateString()}</Text>
+                  {list.isActive && (
+                    <View style={styles.activeBadge}>
+                      <Text style={styles.activeText}>Active</Text>
+                    </View>
+                  )}
+                </View>
+                <Text style={styles.listSource}>
+                  {list.mealPlan?.name ?? SOURCE_LABELS[list.source] ?? list.source}
+                </Text>
+
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${Math.round(list.completion * 100)}%` }]} />
+                </View>
+                <Text style={styles.listStats}>
+                  {list.purchasedCount}/{list.itemCount} purchased
+                  {list.totalEstimatedCost > 0 ? ` · $${list.totalEstimatedCost.toFixed(2)}` : ''}
+                </Text>
+
+                {busy ? (
+                  <ActivityIndicator color="#34C759" style={styles.busy} />
+                ) : (
+                  <View style={styles.actions}>
+                    {!list.isActive && (
+                      <TouchableOpacity style={styles.actionButton} onPress={() => handleReopen(list)}>
+                        <Text style={styles.actionText}>Reopen</Text>
+                      </TouchableOpacity>
+                    )}
+                    {!list.isActive && unpurchased > 0 && (
+                      <TouchableOpacity style={styles.actionButton} onPress={() => handleBuyAgain(list, 'unpurchased')}>
+                        <Text style={styles.actionText}>Add unpurchased ({unpurchased})</Text>
+                      </TouchableOpacity>
+                    )}
+                    {!list.isActive && (
+                      <TouchableOpacity style={styles.actionButton} onPress={() => handleBuyAgain(list, 'staples')}>
+                        <Text style={styles.actionText}>Add staples</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+  },
+  backButton: {
+    marginBottom: 15,
+  },
+  backButtonText: {
+    color: '#34C759',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 20,
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  frequentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  frequentName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  frequentMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  listDate: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  activeBadge: {
+    backgroundColor: '#34C759',
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  activeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  listSource: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 10,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#eee',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#34C759',
+  },
+  listStats: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 6,
+  },
+  busy: {
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderColor: '#34C759',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionText: {
+    color: '#34C759',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
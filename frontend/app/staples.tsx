@@ -0,0 +1,399 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import {
+  getStaples,
+  createStaple,
+  updateStaple,
+  deleteStaple,
+  addStaplesToCart,
+  type Staple,
+} from '../src/api/grocery';
+
+// Reorder cadences offered when adding a staple; null suggests it for every new cart
+const CADENCE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Every cart', days: null },
+  { label: 'Weekly', days: 7 },
+  { label: 'Every 2 weeks', days: 14 },
+  { label: 'Monthly', days: 30 },
+];
+
+function cadenceLabel(days: number | null): string {
+  return CADENCE_OPTIONS.find((option) => option.days === days)?.label ?? `Every ${days} days`;
+}
+
+export default function StaplesScreen() {
+  const router = useRouter();
+  const [staples, setStaples] = useState<Staple[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('1');
+  const [unit, setUnit] = useState('each');
+  const [cadenceDays, setCadenceDays] = useState<number | null>(7);
+
+  useEffect(() => {
+    loadStaples();
+  }, []);
+
+  const loadStaples = async () => {
+    try {
+      setLoading(true);
+      setStaples(await getStaples());
+    } catch (error) {
+      console.error('Load staples error:', error);
+      Alert.alert('Error', 'Failed to load staples');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const parsedAmount = parseFloat(amount);
+    if (!name.trim()) return;
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      Alert.alert('Invalid Amount', 'Enter an amount greater than zero');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const staple = await createStaple({ name: name.trim(), amount: parsedAmount, unit: unit.trim() || 'each', cadenceDays });
+      setStaples((prev) => [...prev, staple].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setAmount('1');
+      setUnit('each');
+    } catch (error) {
+      console.error('Create staple error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add staple');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCadenceChange = async (staple: Staple) => {
+    // Step through the cadence options
+    const index = CADENCE_OPTIONS.findIndex((option) => option.days === staple.cadenceDays);
+    const next = CADENCE_OPTIONS[(index + 1) % CADENCE_OPTIONS.length];
+
+    try {
+      const updated = await updateStaple(staple.id, { cadenceDays: next.days });
+      setStaples((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (error) {
+      console.error('Update staple error:', error);
+      Alert.alert('Error', 'Failed to update staple');
+    }
+  };
+
+  const handleDelete = (staple: Staple) => {
+    Alert.alert('Remove Staple', `Stop suggesting ${staple.name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteStaple(staple.id);
+            setStaples((prev) => prev.filter((s) => s.id !== staple.id));
+          } catch (error) {
+            console.error('Delete staple error:', error);
+            Alert.alert('Error', 'Failed to remove staple');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAddToCart = async (staple: Staple) => {
+    try {
+      await addStaplesToCart([staple.id]);
+      Alert.alert('Added to Cart', `${staple.name} is on your cart`, [
+        { text: 'Keep Browsing', style: 'cancel' },
+        { text: 'View Cart', onPress: () => router.push('/shopping-cart') },
+      ]);
+      await loadStaples();
+    } catch (error) {
+      console.error('Add staple to cart error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add to cart');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#34C759" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.content}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>My Staples</Text>
+        <Text style={styles.subtitle}>Things you buy regularly, suggested for your cart when they&apos;re due</Text>
+
+        <View style={styles.card}>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Coffee, milk, paper towels..."
+            placeholderTextColor="#999"
+          />
+          <View style={styles.amountRow}>
+            <TextInput
+              style={[styles.input, styles.amountInput]}
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              value={unit}
+              onChangeText={setUnit}
+              placeholder="unit"
+              placeholderTextColor="#999"
+            />
+          </View>
+          <View style={styles.cadenceRow}>
+            {CADENCE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.cadenceChip, cadenceDays === option.days && styles.cadenceChipActive]}
+                onPress={() => setCadenceDays(option.days)}
+              >
+                <Text style={[styles.cadenceText, cadenceDays === option.days && styles.cadenceTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity
+            style={[styles.addButton, (!name.trim() || saving) && styles.addButtonDisabled]}
+            onPress={handleCreate}
+            disabled={!name.trim() || saving}
+          >
+            <Text style={styles.addButtonText}>{saving ? 'Adding...' : 'Add Staple'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {staples.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>⭐</Text>
+            <Text style={styles.emptyText}>No staples yet</Text>
+          </View>
+        ) : (
+          staples.map((staple) => (
+            <View key={staple.id} style={styles.card}>
+              <View style={styles.stapleHeader}>
+                <Text style={styles.stapleName}>{staple.name}</Text>
+                {staple.due && (
+                  <View style={styles.dueBadge}>
+                    <Text style={styles.dueText}>Due</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={styles.stapleMeta}>
+                {staple.amount} {staple.unit}
+                {!staple.due && staple.nextDueAt ? ` · next ${new Date(staple.nextDueAt).toLocaleDateString()}` : ''}
+              </Text>
+
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleCadenceChange(staple)}>
+                  <Text style={styles.actionText}>{cadenceLabel(staple.cadenceDays)}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleAddToCart(staple)}>
+                  <Text style={styles.actionText}>Add to cart</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.actionButton, styles.removeButton]} onPress={() => handleDelete(staple)}>
+                  <Text style={[styles.actionText, styles.removeText]}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+  },
+  backButton: {
+    marginBottom: 15,
+  },
+  backButtonText: {
+    color: '#34C759',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 20,
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 10,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  amountInput: {
+    width: 80,
+  },
+  unitInput: {
+    flex: 1,
+  },
+  cadenceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  cadenceChip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  cadenceChipActive: {
+    borderColor: '#34C759',
+    backgroundColor: '#34C759',
+  },
+  cadenceText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  cadenceTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  addButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+  },
+  stapleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  stapleName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  dueBadge: {
+    backgroundColor: '#FF9500',
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  dueText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  stapleMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderColor: '#34C759',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionText: {
+    color: '#34C759',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  removeButton: {
+    borderColor: '#FF3B30',
+  },
+  removeText: {
+    color: '#FF3B30',
+  },
+});
@@ -0,0 +1,460 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_URL } from '../../config';
+
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const token = await AsyncStorage.getItem('authToken');
+  return token
+    ? { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }
+    : { 'Content-Type': 'application/json' };
+}
+
+export interface GroceryProviderInfo {
+  id: string;
+  name: string;
+  configured: boolean;
+}
+
+export interface GroceryProduct {
+  providerId: string;
+  productId: string;
+  name: string;
+  price: number;
+  regularPrice?: number;
+  size?: string;
+  brandName?: string;
+  imageUrl?: string;
+  productUrl?: string;
+  category?: string;
+  inStock: boolean;
+}
+
+export interface PriceComparison {
+  unitPrice: number;
+  priceUnit: string;
+  averageUnitPrice: number;
+  usualPrice: number;
+  percentDifference: number;
+  cheaperThanUsual: boolean;
+  pricierThanUsual: boolean;
+  observationCount: number;
+}
+
+export interface PriceStats {
+  priceUnit: string;
+  averageUnitPrice: number;
+  minUnitPrice: number;
+  maxUnitPrice: number;
+  averagePricePerLb?: number;
+  averagePrice: number;
+  observationCount: number;
+}
+
+export interface PriceObservation {
+  id: string;
+  providerId: string;
+  productId: string;
+  productName: string;
+  ingredientId: string | null;
+  ingredientName: string;
+  price: number;
+  size: string | null;
+  unitPrice: number | null;
+  priceUnit: string | null;
+  observedAt: string;
+}
+
+export interface ProviderCart {
+  providerId: string;
+  cartUrl?: string;
+  addToCartUrl?: string;
+  items?: { productId: string; quantity: number; name: string; price: number; lineTotal: number }[];
+  total?: number;
+  message?: string;
+  error?: string;
+}
+
+export async function getGroceryProviders(): Promise<{ providers: GroceryProviderInfo[]; defaultProvider: string }> {
+  const response = await fetch(`${API_URL}/grocery/providers`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get grocery providers (${response.status})`);
+  }
+
+  const data = await response.json();
+  return { providers: data.providers, defaultProvider: data.defaultProvider };
+}
+
+export async function getPreferredStore(): Promise<{ preferredProvider: string | null; effectiveProvider: string }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/grocery/preferred-store`, { headers });
+
+  const data = await response.json().catch(() => ({ message: response.statusText }));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Failed to get preferred store');
+  }
+
+  return { preferredProvider: data.preferredProvider, effectiveProvider: data.effectiveProvider };
+}
+
+export async function setPreferredStore(provider: string | null): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/grocery/preferred-store`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ provider })
+  });
+
+  const data = await response.json().catch(() => ({ message: response.statusText }));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Failed to update preferred store');
+  }
+}
+
+export async function searchGroceryProducts(query: string, provider?: string, limit: number = 10): Promise<GroceryProduct[]> {
+  const headers = await getAuthHeaders();
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  if (provider) params.append('provider', provider);
+
+  const response = await fetch(`${API_URL}/grocery/search?${params.toString()}`, { headers });
+
+  const data = await response.json().catch(() => ({ message: response.statusText }));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Failed to search products');
+  }
+
+  return data.data.items;
+}
+
+export async function checkoutCart(
+  items: { productId: string; quantity: number }[],
+  provider?: string
+): Promise<ProviderCart> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/checkout`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ items, provider })
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create cart');
+  }
+
+  return data;
+}
+
+export async function getPriceHistory(filters: {
+  ingredientId?: string;
+  name?: string;
+  productId?: string;
+  provider?: string;
+  days?: number;
+}): Promise<{ stats: PriceStats | null; observations: PriceObservation[] }> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined) params.append(key, String(value));
+  }
+
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/grocery/price-history?${params.toString()}`, { headers });
+
+  const data = await response.json().catch(() => ({ message: response.statusText }));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Failed to get price history');
+  }
+
+  return { stats: data.stats, observations: data.observations };
+}
+
+// Shopping list history
+
+export interface ShoppingListSummary {
+  id: string;
+  source: 'meal_plan' | 'recipe_selection' | 'buy_again' | string;
+  isActive: boolean;
+  generatedAt: string;
+  mealPlan: { id: string; name: string } | null;
+  itemCount: number;
+  purchasedCount: number;
+  completion: number;
+  totalEstimatedCost: number;
+  purchasedCost: number;
+}
+
+export interface FrequentlyBoughtItem {
+  ingredientId: string;
+  name: string;
+  timesBought: number;
+  lastBoughtAt: string;
+  averageDaysBetween: number | null;
+  usualAmount: string;
+  unit: string;
+}
+
+export type BuyAgainSelection = 'unpurchased' | 'staples' | 'all';
+
+export async function getCartHistory(limit: number = 20, offset: number = 0): Promise<{ lists: ShoppingListSummary[]; total: number }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/history?limit=${limit}&offset=${offset}`, { headers });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to get cart history');
+  }
+
+  return { lists: data.lists, total: data.total };
+}
+
+export async function getFrequentlyBought(limit: number = 20): Promise<FrequentlyBoughtItem[]> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/frequently-bought?limit=${limit}`, { headers });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to get frequently bought items');
+  }
+
+  return data.items;
+}
+
+export async function reopenShoppingList(shoppingListId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/history/${shoppingListId}/reopen`, {
+    method: 'POST',
+    headers
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to reopen shopping list');
+  }
+}
+
+export async function buyAgain(
+  shoppingListId: string,
+  items: BuyAgainSelection = 'unpurchased'
+): Promise<{ shoppingListId: string; added: number; combined: number }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/history/${shoppingListId}/buy-again`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ items })
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to add items to cart');
+  }
+
+  return { shoppingListId: data.shoppingListId, added: data.added, combined: data.combined };
+}
+
+export interface Staple {
+  id: string;
+  name: string;
+  ingredientId: string | null;
+  amount: number;
+  unit: string;
+  cadenceDays: number | null;
+  lastAddedAt: string | null;
+  nextDueAt: string | null;
+  due: boolean;
+}
+
+export interface StapleInput {
+  name: string;
+  amount?: number;
+  unit?: string;
+  cadenceDays?: number | null;
+}
+
+export async function addCartItem(item: { name: string; amount?: number; unit?: string }): Promise<{ id: string }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/items`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(item)
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to add item to cart');
+  }
+
+  return data.item;
+}
+
+export async function removeCartItem(itemId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/items/${itemId}`, {
+    method: 'DELETE',
+    headers
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to remove item from cart');
+  }
+}
+
+export async function getStaples(): Promise<Staple[]> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/staples`, { headers });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to get staples');
+  }
+
+  return data.staples;
+}
+
+export async function createStaple(staple: StapleInput): Promise<Staple> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/staples`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(staple)
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create staple');
+  }
+
+  return data.staple;
+}
+
+export async function updateStaple(stapleId: string, staple: Partial<StapleInput>): Promise<Staple> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/staples/${stapleId}`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify(staple)
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update staple');
+  }
+
+  return data.staple;
+}
+
+export async function deleteStaple(stapleId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/staples/${stapleId}`, {
+    method: 'DELETE',
+    headers
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to delete staple');
+  }
+}
+
+export async function addStaplesToCart(stapleIds?: string[]): Promise<{ shoppingListId: string; added: number }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/staples/add`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ stapleIds })
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to add staples to cart');
+  }
+
+  return { shoppingListId: data.shoppingListId, added: data.added };
+}
+
+// Incremental cart updates: add or take off recipes without regenerating the cart
+
+export interface CartRecipe {
+  recipeId: string;
+  recipeTitle: string;
+  quantity: number;
+  servings: number | null;
+}
+
+export interface CartDeltaItem {
+  shoppingListItemId: string;
+  ingredientId: string;
+  ingredientName: string;
+  amount: number;
+  unit: string;
+  walmartItemId?: string | null;
+  walmartSearchTerm?: string | null;
+  recipes: string[];
+  recipeBreakdown?: { recipeId: string; recipeTitle: string; amount: number; unit: string }[];
+  isPurchased: boolean;
+  source: 'recipe' | 'manual' | 'staple';
+}
+
+export interface CartMergeSuggestion {
+  mergeId: string;
+  ingredients: { ingredientId: string; ingredientName: string }[];
+  similarity: number;
+  reason: string;
+  suggestedName: string;
+}
+
+export interface CartDelta {
+  shoppingListId: string;
+  added: CartDeltaItem[];
+  updated: CartDeltaItem[];
+  removed: string[]; // Shopping list item IDs
+  potentialMerges: CartMergeSuggestion[];
+  recipes: CartRecipe[];
+}
+
+export async function addRecipesToActiveCart(
+  recipes: { recipeId: string; quantity?: number; servings?: number }[]
+): Promise<CartDelta> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/active/recipes`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ recipes })
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to add recipes to cart');
+  }
+
+  return data;
+}
+
+export async function removeRecipeFromActiveCart(recipeId: string): Promise<CartDelta> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/active/recipes/${recipeId}`, {
+    method: 'DELETE',
+    headers
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to remove recipe from cart');
+  }
+
+  return data;
+}
+
+export async function addMealPlanToActiveCart(mealPlanId: string): Promise<CartDelta> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/cart/active/meal-plans/${mealPlanId}`, {
+    method: 'POST',
+    headers
+  });
+
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to add meal plan to cart');
+  }
+
+  return data;
+}
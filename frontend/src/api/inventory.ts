@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { API_URL } from '../../config';
+import type { AllergenBadge, UserInventory } from '../types/mealPlanning';
 
 async function getAuthHeaders(): Promise<HeadersInit> {
   const token = await AsyncStorage.getItem('authToken');
@@ -89,15 +90,40 @@ export interface QuickCookRecipe {
     amount: string;
     unit: string;
     inPantry?: boolean;
+    useSoon?: boolean;
   }>;
+  expiringIngredientsUsed: string[];
+  allergens: AllergenBadge[];
 }
 
 export interface QuickCookResponse {
   success: boolean;
   recipes: QuickCookRecipe[];
+  expiredItems: string[];
+  allergenItems: string[];
   balance: number;
 }
 
+export interface ExpiringInventoryResponse {
+  success: boolean;
+  days: number;
+  expiring: UserInventory[];
+  expired: UserInventory[];
+}
+
+export async function getExpiringInventory(days?: number): Promise<ExpiringInventoryResponse> {
+  const headers = await getAuthHeaders();
+  const params = days !== undefined ? `?days=${days}` : '';
+  const response = await fetch(`${API_URL}/inventory/expiring${params}`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to get expiring items');
+  }
+
+  return response.json();
+}
+
 export async function quickCook(count: number = 3): Promise<QuickCookResponse> {
   const headers = await getAuthHeaders();
   const response = await fetch(`${API_URL}/inventory/quick-cook`, {
@@ -123,6 +149,8 @@ export interface DeductedItem {
   amountDeducted: number;
   unit: string;
   remainingAmount: number;
+  approximate: boolean;
+  conversionNote?: string;
 }
 
 export interface CompleteMealPlanResponse {
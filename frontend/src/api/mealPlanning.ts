@@ -10,9 +10,22 @@ import type {
   UserInventory,
   MealPlan,
   GenerateWeekParams,
+  MealPlanBudget,
   NutritionSummary,
-  ShoppingList
+  MealPlanNutrition,
+  ShoppingList,
+  StoreSection,
+  StoreAisleOrder,
+  StoreRoute,
+  PortionLedgerEntry,
+  CookModeRecipe,
+  Recipe,
+  RecipeUpdate,
+  RecipeVersion,
+  RecipeImportDraft,
+  RecipeImportDraftResult
 } from '../types/mealPlanning';
+import type { Staple } from './grocery';
 
 async function getAuthHeaders(): Promise<HeadersInit> {
   const token = await AsyncStorage.getItem('authToken');
@@ -220,6 +233,7 @@ export async function generateWeeklyMealPlan(
   newRecipes: number;
   newIngredients: string[];
   inventoryUsed: number;
+  budget: MealPlanBudget | null; // null when no budget is set
 }> {
   const authHeaders = await getAuthHeaders();
   const response = await fetch(`${API_URL}/meal-plans/generate-week`, {
@@ -266,6 +280,8 @@ export async function getMealPlans(
 export async function getMealPlan(id: string): Promise<{
   mealPlan: MealPlan;
   nutrition: NutritionSummary;
+  portionLedger: PortionLedgerEntry[];
+  householdSize: number;
 }> {
   const headers = await getAuthHeaders();
   const response = await fetch(`${API_URL}/meal-plans/${id}`, { headers });
@@ -279,10 +295,205 @@ export async function getMealPlan(id: string): Promise<{
   return data;
 }
 
+export async function getMealPlanNutrition(id: string): Promise<MealPlanNutrition> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/meal-plans/${id}/nutrition`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || error.error || `Failed to get meal plan nutrition (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.nutrition;
+}
+
+// Cook Mode API
+
+export async function getCookMode(recipeId: string, servings?: number): Promise<CookModeRecipe> {
+  const headers = await getAuthHeaders();
+  const query = servings ? `?servings=${servings}` : '';
+  const response = await fetch(`${API_URL}/recipes/${recipeId}/cook-mode${query}`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to load cook mode (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export async function recordCookingEvent(
+  recipeId: string,
+  event: {
+    mealSlotId?: string;
+    servings?: number;
+    deductPantry?: boolean;
+    notes?: string;
+  }
+): Promise<{ cookingEvent: { id: string; cookedAt: string; pantryDeducted: boolean }; deductedItems: any[] }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/${recipeId}/cooking-events`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(event)
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to record cooking event (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+// Recipe Editing API
+
+export async function updateRecipe(
+  recipeId: string,
+  updates: RecipeUpdate
+): Promise<{ recipe: Recipe; version: RecipeVersion | null }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/${recipeId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(updates)
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to update recipe (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export async function deleteRecipe(recipeId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/${recipeId}`, {
+    method: 'DELETE',
+    headers
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to delete recipe (${response.status})`);
+  }
+}
+
+export async function forkRecipe(recipeId: string): Promise<Recipe> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/${recipeId}/fork`, {
+    method: 'POST',
+    headers
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to fork recipe (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.data.recipe;
+}
+
+export async function getRecipeVersions(recipeId: string): Promise<{ currentVersion: number; versions: RecipeVersion[] }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/${recipeId}/versions`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to load recipe history (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export async function rollbackRecipe(recipeId: string, version: number): Promise<{ recipe: Recipe; version: RecipeVersion | null }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/${recipeId}/versions/${version}/rollback`, {
+    method: 'POST',
+    headers
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to roll back recipe (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function requestImportDraft(path: string, body: object): Promise<RecipeImportDraftResult> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    if (response.status === 402) {
+      handleInsufficientCredits(error.required);
+      throw new Error('INSUFFICIENT_CREDITS');
+    }
+    throw new Error(error.message || `Failed to import recipe (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+// Text and photo imports return a draft to review; saveImportDraft saves it
+export async function importRecipeFromText(text: string): Promise<RecipeImportDraftResult> {
+  return requestImportDraft('import-text', { text });
+}
+
+export async function importRecipeFromImage(imageBase64: string): Promise<RecipeImportDraftResult> {
+  return requestImportDraft('import-image', { imageBase64 });
+}
+
+/**
+ * Save a reviewed draft. Returns allergenWarning instead of a recipe when the draft contains
+ * one of the user's allergens; save again with allowAllergens to import anyway.
+ */
+export async function saveImportDraft(
+  draft: RecipeImportDraft & { source: 'text' | 'image'; sourceName?: string; allowAllergens?: boolean }
+): Promise<{ recipe: Recipe | null; allergenWarning?: string }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/recipes/import-draft`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(draft)
+  });
+
+  const data = await response.json().catch(() => ({ message: response.statusText }));
+  if (response.status === 409) {
+    return { recipe: null, allergenWarning: data.message };
+  }
+  if (!response.ok) {
+    throw new Error(data.message || `Failed to save recipe (${response.status})`);
+  }
+
+  return { recipe: data.data.recipe };
+}
+
 export async function updateMealSlot(
   mealPlanId: string,
   slotId: string,
-  updates: { recipeId?: string; notes?: string }
+  updates: {
+    recipeId?: string;
+    notes?: string;
+    servings?: number | null;
+    leftoverOfSlotId?: string | null;
+    leftoverOfCookingEventId?: string | null;
+  }
 ): Promise<void> {
   const authHeaders = await getAuthHeaders();
   await fetch(`${API_URL}/meal-plans/${mealPlanId}/slots/${slotId}`, {
@@ -305,6 +516,7 @@ export async function generateShoppingList(mealPlanId: string, clearCart: boolea
   items: any[];
   totalEstimatedCost: number;
   potentialMerges?: any[];
+  suggestedStaples?: Staple[];
 }> {
   const headers = await getAuthHeaders();
   headers['Content-Type'] = 'application/json';
@@ -348,9 +560,72 @@ export async function markShoppingItemPurchased(
   actualPrice?: number
 ): Promise<void> {
   const authHeaders = await getAuthHeaders();
-  await fetch(`${API_URL}/meal-plans/shopping-lists/${listId}/items/${itemId}`, {
+  const response = await fetch(`${API_URL}/meal-plans/shopping-lists/${listId}/items/${itemId}`, {
     method: 'PATCH',
     headers: { 'Content-Type': 'application/json', ...authHeaders },
     body: JSON.stringify({ isPurchased, actualPrice })
   });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to update item (${response.status})`);
+  }
+}
+
+// Store Route API
+
+export async function getStoreRoute(listId: string, storeName?: string | null): Promise<StoreRoute> {
+  const headers = await getAuthHeaders();
+  const query = storeName ? `?store=${encodeURIComponent(storeName)}` : '';
+  const response = await fetch(`${API_URL}/meal-plans/shopping-lists/${listId}/route${query}`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to get store route (${response.status})`);
+  }
+
+  return response.json();
+}
+
+export async function getAisleOrders(): Promise<{ sections: StoreSection[]; aisleOrders: StoreAisleOrder[] }> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/meal-plans/shopping-lists/aisle-orders`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to get aisle orders (${response.status})`);
+  }
+
+  const data = await response.json();
+  return { sections: data.sections, aisleOrders: data.aisleOrders };
+}
+
+export async function saveAisleOrder(storeName: string, sections: string[]): Promise<StoreAisleOrder> {
+  const authHeaders = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/meal-plans/shopping-lists/aisle-orders/${encodeURIComponent(storeName)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...authHeaders },
+    body: JSON.stringify({ sections })
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to save aisle order (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.aisleOrder;
+}
+
+export async function deleteAisleOrder(storeName: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/meal-plans/shopping-lists/aisle-orders/${encodeURIComponent(storeName)}`, {
+    method: 'DELETE',
+    headers
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: response.statusText }));
+    throw new Error(error.message || `Failed to delete aisle order (${response.status})`);
+  }
 }
@@ -0,0 +1,307 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { addRecipesToActiveCart, addMealPlanToActiveCart, type CartDelta } from '../api/grocery';
+import { getMealPlans } from '../api/mealPlanning';
+import type { MealPlan } from '../types/mealPlanning';
+import { API_URL } from '../../config';
+
+export type AddToCartTab = 'recipes' | 'mealPlans';
+
+interface RecipeOption {
+  id: string;
+  title: string;
+  servings?: number;
+}
+
+interface Props {
+  visible: boolean;
+  initialTab?: AddToCartTab;
+  onClose: () => void;
+  onCartUpdated: (delta: CartDelta) => void;
+}
+
+/**
+ * Add recipes or a meal plan to the active cart without regenerating it.
+ * The cart screen applies the returned change in place.
+ */
+export default function AddToCartModal({ visible, initialTab = 'recipes', onClose, onCartUpdated }: Props) {
+  const [tab, setTab] = useState<AddToCartTab>(initialTab);
+  const [recipes, setRecipes] = useState<RecipeOption[]>([]);
+  const [mealPlans, setMealPlans] = useState<MealPlan[]>([]);
+  const [selectedRecipeIds, setSelectedRecipeIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setTab(initialTab);
+      setSelectedRecipeIds([]);
+      loadOptions();
+    }
+  }, [visible, initialTab]);
+
+  const loadOptions = async () => {
+    try {
+      setLoading(true);
+      const [recipesResponse, plans] = await Promise.all([
+        fetch(`${API_URL}/recipes`).then((response) => response.json()),
+        getMealPlans(true).catch(() => [] as MealPlan[]),
+      ]);
+      setRecipes(recipesResponse.data?.recipes || recipesResponse.recipes || []);
+      setMealPlans(plans);
+    } catch (error) {
+      console.error('Load cart options error:', error);
+      Alert.alert('Error', 'Failed to load recipes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRecipe = (recipeId: string) => {
+    setSelectedRecipeIds((prev) =>
+      prev.includes(recipeId) ? prev.filter((id) => id !== recipeId) : [...prev, recipeId]
+    );
+  };
+
+  const handleAddRecipes = async () => {
+    if (selectedRecipeIds.length === 0) return;
+
+    try {
+      setAdding(true);
+      const delta = await addRecipesToActiveCart(selectedRecipeIds.map((recipeId) => ({ recipeId })));
+      onCartUpdated(delta);
+      onClose();
+    } catch (error) {
+      console.error('Add recipes to cart error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add recipes');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleAddMealPlan = async (mealPlan: MealPlan) => {
+    try {
+      setAdding(true);
+      const delta = await addMealPlanToActiveCart(mealPlan.id);
+      onCartUpdated(delta);
+      onClose();
+    } catch (error) {
+      console.error('Add meal plan to cart error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add meal plan');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Add to Cart</Text>
+          {tab === 'recipes' ? (
+            <TouchableOpacity onPress={handleAddRecipes} disabled={adding || selectedRecipeIds.length === 0}>
+              {adding ? (
+                <ActivityIndicator size="small" color="#34C759" />
+              ) : (
+                <Text style={[styles.addButton, selectedRecipeIds.length === 0 && styles.addButtonDisabled]}>
+                  Add{selectedRecipeIds.length > 0 ? ` (${selectedRecipeIds.length})` : ''}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.headerSpacer}>
+              {adding && <ActivityIndicator size="small" color="#34C759" />}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.tabs}>
+          <TouchableOpacity
+            style={[styles.tab, tab === 'recipes' && styles.tabActive]}
+            onPress={() => setTab('recipes')}
+          >
+            <Text style={[styles.tabText, tab === 'recipes' && styles.tabTextActive]}>Recipes</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tab, tab === 'mealPlans' && styles.tabActive]}
+            onPress={() => setTab('mealPlans')}
+          >
+            <Text style={[styles.tabText, tab === 'mealPlans' && styles.tabTextActive]}>Meal Plans</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator size="large" color="#34C759" style={styles.loader} />
+        ) : (
+          <ScrollView style={styles.content}>
+            {tab === 'recipes' && (recipes.length === 0 ? (
+              <Text style={styles.emptyText}>No recipes found</Text>
+            ) : (
+              recipes.map((recipe) => {
+                const selected = selectedRecipeIds.includes(recipe.id);
+                return (
+                  <TouchableOpacity
+                    key={recipe.id}
+                    style={[styles.row, selected && styles.rowSelected]}
+                    onPress={() => toggleRecipe(recipe.id)}
+                  >
+                    <Text style={styles.rowTitle}>{recipe.title}</Text>
+                    <Text style={styles.check}>{selected ? '✓' : ''}</Text>
+                  </TouchableOpacity>
+                );
+              })
+            ))}
+
+            {tab === 'mealPlans' && (mealPlans.length === 0 ? (
+              <Text style={styles.emptyText}>No active meal plans</Text>
+            ) : (
+              mealPlans.map((mealPlan) => (
+                <TouchableOpacity
+                  key={mealPlan.id}
+                  style={styles.row}
+                  onPress={() => handleAddMealPlan(mealPlan)}
+                  disabled={adding}
+                >
+                  <View>
+                    <Text style={styles.rowTitle}>{mealPlan.name}</Text>
+                    <Text style={styles.rowMeta}>
+                      {new Date(mealPlan.startDate).toLocaleDateString()} – {new Date(mealPlan.endDate).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  <Text style={styles.rowAction}>Add</Text>
+                </TouchableOpacity>
+              ))
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 50,
+    alignItems: 'flex-end',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#666',
+  },
+  addButton: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#34C759',
+  },
+  tabText: {
+    fontSize: 15,
+    color: '#666',
+  },
+  tabTextActive: {
+    color: '#34C759',
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontSize: 16,
+    color: '#666',
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  rowSelected: {
+    borderColor: '#34C759',
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#333',
+    flexShrink: 1,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  check: {
+    fontSize: 18,
+    color: '#34C759',
+    fontWeight: 'bold',
+  },
+  rowAction: {
+    fontSize: 15,
+    color: '#34C759',
+    fontWeight: '600',
+  },
+});
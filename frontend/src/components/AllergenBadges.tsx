@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { AllergenBadge } from '../types/mealPlanning';
+
+interface AllergenBadgesProps {
+  allergens: AllergenBadge[];
+  excludedReason?: string | null;
+}
+
+export default function AllergenBadges({ allergens, excludedReason }: AllergenBadgesProps) {
+  if (allergens.length === 0 && !excludedReason) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {excludedReason && (
+        <View style={styles.warning}>
+          <Text style={styles.warningTitle}>⚠️ Not safe for your allergies</Text>
+          <Text style={styles.warningText}>{excludedReason}</Text>
+        </View>
+      )}
+
+      {allergens.length > 0 && (
+        <View style={styles.badgeRow}>
+          <Text style={styles.label}>Contains:</Text>
+          {allergens.map(allergen => (
+            <View key={allergen.id} style={[styles.badge, allergen.custom && styles.customBadge]}>
+              <Text style={styles.badgeText}>{allergen.label}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  warning: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  warningTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#C62828',
+    marginBottom: 2,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#C62828',
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    fontSize: 13,
+    color: '#666',
+  },
+  badge: {
+    backgroundColor: '#FFF3E0',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  customBadge: {
+    backgroundColor: '#F3E5F5',
+  },
+  badgeText: {
+    fontSize: 12,
+    color: '#333',
+    fontWeight: '600',
+  },
+});
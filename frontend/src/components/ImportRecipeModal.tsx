@@ -32,7 +32,7 @@ export default function ImportRecipeModal({
   const navigation = useNavigation();
   const { balance, refreshBalance } = useCredits();
 
-  const handleImport = async () => {
+  const handleImport = async (allowAllergens = false) => {
     if (!url.trim()) {
       Alert.alert('Error', 'Please enter a valid URL');
       return;
@@ -74,7 +74,7 @@ export default function ImportRecipeModal({
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${await getAuthToken()}`,
         },
-        body: JSON.stringify({ url: url.trim() }),
+        body: JSON.stringify({ url: url.trim(), allowAllergens }),
       });
 
       const data = await response.json();
@@ -98,6 +98,19 @@ export default function ImportRecipeModal({
           return;
         }
 
+        // Recipe contains one of the user's allergens - nothing was charged yet
+        if (response.status === 409) {
+          Alert.alert(
+            'Allergen Warning',
+            `${data.data?.title || 'This recipe'}: ${data.message}`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Import Anyway', style: 'destructive', onPress: () => handleImport(true) },
+            ]
+          );
+          return;
+        }
+
         throw new Error(data.message || 'Failed to import recipe');
       }
 
@@ -193,7 +206,7 @@ export default function ImportRecipeModal({
 
             <TouchableOpacity
               style={[styles.button, styles.importButton, loading && styles.buttonDisabled]}
-              onPress={handleImport}
+              onPress={() => handleImport()}
               disabled={loading}
             >
               {loading ? (
@@ -204,6 +217,28 @@ export default function ImportRecipeModal({
             </TouchableOpacity>
           </View>
 
+          <View style={styles.otherSources}>
+            <Text style={styles.otherSourcesLabel}>Or import from</Text>
+            <TouchableOpacity
+              onPress={() => {
+                onClose();
+                router.push('/import-recipe?mode=text');
+              }}
+              disabled={loading}
+            >
+              <Text style={styles.otherSourceLink}>Pasted Text</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => {
+                onClose();
+                router.push('/import-recipe?mode=image');
+              }}
+              disabled={loading}
+            >
+              <Text style={styles.otherSourceLink}>Photo</Text>
+            </TouchableOpacity>
+          </View>
+
           {clearCartOnImport && (
             <Text style={styles.clearNote}>
               Note: Importing will clear your current cart
@@ -299,6 +334,22 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
+  otherSources: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  otherSourcesLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  otherSourceLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
   clearNote: {
     fontSize: 12,
     color: '#999',
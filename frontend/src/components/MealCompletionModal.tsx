@@ -19,6 +19,7 @@ interface MealCompletionModalProps {
   onClose: () => void;
   onComplete: (completedSlotIds: string[]) => Promise<void>;
   onSkipSlots?: (slotIds: string[]) => Promise<void>;
+  initialCookedSlotIds?: string[]; // Slots to start marked as cooked (e.g. just finished in cook mode)
 }
 
 type MealStatus = 'pending' | 'cooked' | 'skipped';
@@ -28,7 +29,8 @@ export default function MealCompletionModal({
   mealPlan,
   onClose,
   onComplete,
-  onSkipSlots
+  onSkipSlots,
+  initialCookedSlotIds = []
 }: MealCompletionModalProps) {
   // Track status for each slot: 'pending' (default), 'cooked' (mark complete), 'skipped' (remove from plan)
   const [mealStatuses, setMealStatuses] = useState<Record<string, MealStatus>>(() => {
@@ -36,7 +38,7 @@ export default function MealCompletionModal({
     mealPlan.mealSlots
       .filter(slot => !slot.isCompleted && slot.recipe)
       .forEach(slot => {
-        statuses[slot.id] = 'pending';
+        statuses[slot.id] = initialCookedSlotIds.includes(slot.id) ? 'cooked' : 'pending';
       });
     return statuses;
   });
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { getMealPlanNutrition } from '../api/mealPlanning';
+import type {
+  DayNutrition,
+  MealPlanNutrition,
+  NutritionTargetComparison,
+} from '../types/mealPlanning';
+
+interface MealPlanNutritionDashboardProps {
+  mealPlanId: string;
+}
+
+const FIELD_LABELS: Record<NutritionTargetComparison['field'], string> = {
+  calories: 'Calories',
+  protein: 'Protein',
+  carbs: 'Carbs',
+  fat: 'Fat',
+};
+
+const STATUS_LABELS: Record<DayNutrition['status'], string> = {
+  ok: 'On target',
+  over: 'Over',
+  under: 'Under',
+  mixed: 'Over & under',
+};
+
+function formatAmount(field: NutritionTargetComparison['field'], value: number): string {
+  return field === 'calories' ? `${Math.round(value)} cal` : `${Math.round(value)}g`;
+}
+
+function describeComparison(comparison: NutritionTargetComparison): string {
+  const gap = formatAmount(comparison.field, Math.abs(comparison.difference));
+  return `${FIELD_LABELS[comparison.field]} ${gap} ${comparison.status}`;
+}
+
+export default function MealPlanNutritionDashboard({ mealPlanId }: MealPlanNutritionDashboardProps) {
+  const [nutrition, setNutrition] = useState<MealPlanNutrition | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadNutrition = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setNutrition(await getMealPlanNutrition(mealPlanId));
+      } catch (err) {
+        console.error('Load meal plan nutrition error:', err);
+        setError('Nutrition is unavailable for this plan');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadNutrition();
+  }, [mealPlanId]);
+
+  if (loading) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.title}>Nutrition</Text>
+        <ActivityIndicator color="#AF52DE" />
+      </View>
+    );
+  }
+
+  if (error || !nutrition) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.title}>Nutrition</Text>
+        <Text style={styles.muted}>{error}</Text>
+      </View>
+    );
+  }
+
+  const { weekly, targets } = nutrition;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Nutrition</Text>
+      <Text style={styles.subtitle}>Per person, per day · skipped meals excluded</Text>
+
+      {targets.length === 0 ? (
+        <Text style={styles.muted}>Set nutrition goals in Meal Preferences to compare days against targets.</Text>
+      ) : (
+        <View style={styles.targetsRow}>
+          {weekly.comparisons.map(comparison => (
+            <View key={comparison.field} style={[styles.targetChip, getStatusStyle(comparison.status)]}>
+              <Text style={styles.targetChipLabel}>{FIELD_LABELS[comparison.field]}</Text>
+              <Text style={styles.targetChipValue}>
+                {formatAmount(comparison.field, comparison.value)} / {formatAmount(comparison.field, comparison.target)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {targets.length > 0 && (
+        <Text style={styles.summary}>
+          Daily average · {weekly.daysOverTarget} day(s) over, {weekly.daysUnderTarget} day(s) under target
+        </Text>
+      )}
+
+      {nutrition.days.map(day => (
+        <View key={day.date} style={styles.dayRow}>
+          <View style={styles.dayHeader}>
+            <Text style={styles.dayLabel}>
+              {new Date(`${day.date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+            </Text>
+            {targets.length > 0 && (
+              <View style={[styles.statusBadge, getStatusStyle(day.status)]}>
+                <Text style={styles.statusBadgeText}>{STATUS_LABELS[day.status]}</Text>
+              </View>
+            )}
+          </View>
+
+          <Text style={styles.macros}>
+            {day.planned.calories} cal · {day.planned.protein}g protein · {day.planned.carbs}g carbs · {day.planned.fat}g fat
+          </Text>
+
+          {day.plannedComparisons.filter(c => c.status !== 'ok').length > 0 && (
+            <Text style={styles.offTarget}>
+              {day.plannedComparisons.filter(c => c.status !== 'ok').map(describeComparison).join(' · ')}
+            </Text>
+          )}
+
+          {day.actual && (
+            <Text style={styles.actual}>
+              Actual: {day.actual.calories} of {day.planned.calories} cal planned ({day.completedMeals}/{day.plannedMeals} meals cooked)
+            </Text>
+          )}
+
+          {day.skippedMeals > 0 && (
+            <Text style={styles.muted}>{day.skippedMeals} meal(s) skipped</Text>
+          )}
+        </View>
+      ))}
+
+      {nutrition.recipesWithoutNutrition.length > 0 && (
+        <Text style={styles.muted}>
+          No nutrition data for: {nutrition.recipesWithoutNutrition.join(', ')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+function getStatusStyle(status: DayNutrition['status']) {
+  switch (status) {
+    case 'ok':
+      return { backgroundColor: '#34C759' };
+    case 'over':
+      return { backgroundColor: '#FF3B30' };
+    case 'under':
+      return { backgroundColor: '#FF9500' };
+    default:
+      return { backgroundColor: '#AF52DE' };
+  }
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 12,
+  },
+  targetsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  targetChip: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  targetChipLabel: {
+    fontSize: 11,
+    color: 'white',
+    fontWeight: '600',
+  },
+  targetChipValue: {
+    fontSize: 13,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  summary: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  dayRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingVertical: 10,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  dayLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  macros: {
+    fontSize: 13,
+    color: '#666',
+  },
+  offTarget: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  actual: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  muted: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,426 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import {
+  getStoreRoute,
+  getAisleOrders,
+  saveAisleOrder,
+  deleteAisleOrder,
+  markShoppingItemPurchased,
+} from '../api/mealPlanning';
+import type {
+  StoreRoute,
+  StoreRouteItem,
+  StoreRouteSection,
+  StoreSection,
+  StoreAisleOrder,
+} from '../types/mealPlanning';
+
+interface StoreRouteListProps {
+  shoppingListId: string;
+}
+
+// Still to get first, then by name (the order the server sends)
+function sortItems(items: StoreRouteItem[]): StoreRouteItem[] {
+  return [...items].sort((a, b) => Number(a.isPurchased) - Number(b.isPurchased) || a.name.localeCompare(b.name));
+}
+
+function setItemPurchased(route: StoreRoute, itemId: string, isPurchased: boolean): StoreRoute {
+  const sections: StoreRouteSection[] = route.sections.map((section) => {
+    if (!section.items.some((item) => item.id === itemId)) return section;
+    const items = sortItems(section.items.map((item) => (item.id === itemId ? { ...item, isPurchased } : item)));
+    return { ...section, items, remaining: items.filter((item) => !item.isPurchased).length };
+  });
+  return { ...route, sections, remaining: sections.reduce((sum, section) => sum + section.remaining, 0) };
+}
+
+export default function StoreRouteList({ shoppingListId }: StoreRouteListProps) {
+  const [route, setRoute] = useState<StoreRoute | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [sections, setSections] = useState<StoreSection[]>([]);
+  const [aisleOrders, setAisleOrders] = useState<StoreAisleOrder[]>([]);
+  const [storeName, setStoreName] = useState<string | null>(null);
+
+  // Aisle order editor
+  const [editing, setEditing] = useState(false);
+  const [draftStoreName, setDraftStoreName] = useState('');
+  const [draftOrder, setDraftOrder] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getAisleOrders()
+      .then((data) => {
+        setSections(data.sections);
+        setAisleOrders(data.aisleOrders);
+      })
+      .catch((err) => console.error('Load aisle orders error:', err));
+  }, []);
+
+  useEffect(() => {
+    const loadRoute = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setRoute(await getStoreRoute(shoppingListId, storeName));
+      } catch (err) {
+        console.error('Load store route error:', err);
+        setError('Could not load the store route');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRoute();
+  }, [shoppingListId, storeName]);
+
+  // Check-off is saved right away; the row goes back if the save fails
+  const handleToggleItem = async (item: StoreRouteItem) => {
+    setRoute((prev) => (prev ? setItemPurchased(prev, item.id, !item.isPurchased) : prev));
+    try {
+      await markShoppingItemPurchased(shoppingListId, item.id, !item.isPurchased);
+    } catch (err) {
+      console.error('Check off item error:', err);
+      setRoute((prev) => (prev ? setItemPurchased(prev, item.id, item.isPurchased) : prev));
+      Alert.alert('Error', `Could not update ${item.name}`);
+    }
+  };
+
+  const startEditing = (order: StoreAisleOrder | null) => {
+    setDraftStoreName(order?.storeName ?? '');
+    setDraftOrder(order?.sections ?? sections.map((section) => section.id));
+    setEditing(true);
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draftOrder.length) return;
+    setDraftOrder((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSaveOrder = async () => {
+    const name = draftStoreName.trim();
+    if (!name) {
+      Alert.alert('Store name', 'Give the store a name to save its aisle order');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveAisleOrder(name, draftOrder);
+      setAisleOrders((prev) => [
+        saved,
+        ...prev.filter((order) => order.storeName.toLowerCase() !== saved.storeName.toLowerCase()),
+      ]);
+      setEditing(false);
+      if (storeName === saved.storeName) {
+        // Same store: reload for the new order
+        setRoute(await getStoreRoute(shoppingListId, saved.storeName));
+      } else {
+        setStoreName(saved.storeName);
+      }
+    } catch (err) {
+      console.error('Save aisle order error:', err);
+      Alert.alert('Error', 'Could not save the aisle order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteOrder = (order: StoreAisleOrder) => {
+    Alert.alert('Delete Aisle Order', `Forget the aisle order for ${order.storeName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteAisleOrder(order.storeName);
+            setAisleOrders((prev) => prev.filter((o) => o.storeName !== order.storeName));
+            setEditing(false);
+            setStoreName(null);
+          } catch (err) {
+            console.error('Delete aisle order error:', err);
+            Alert.alert('Error', 'Could not delete the aisle order');
+          }
+        },
+      },
+    ]);
+  };
+
+  const sectionLabel = (id: string) => sections.find((section) => section.id === id)?.label ?? id;
+  const selectedOrder = aisleOrders.find((order) => order.storeName === storeName) ?? null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.storeRow}>
+        <TouchableOpacity
+          style={[styles.storeChip, storeName === null && styles.storeChipActive]}
+          onPress={() => setStoreName(null)}
+        >
+          <Text style={[styles.storeChipText, storeName === null && styles.storeChipTextActive]}>Default</Text>
+        </TouchableOpacity>
+        {aisleOrders.map((order) => (
+          <TouchableOpacity
+            key={order.storeName}
+            style={[styles.storeChip, storeName === order.storeName && styles.storeChipActive]}
+            onPress={() => setStoreName(order.storeName)}
+          >
+            <Text style={[styles.storeChipText, storeName === order.storeName && styles.storeChipTextActive]}>
+              {order.storeName}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.storeChip} onPress={() => startEditing(selectedOrder)}>
+          <Text style={styles.storeChipText}>{selectedOrder ? 'Edit order' : '+ Store'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {editing && (
+        <View style={styles.editor}>
+          <Text style={styles.editorTitle}>Aisle Order</Text>
+          <TextInput
+            style={styles.storeNameInput}
+            value={draftStoreName}
+            onChangeText={setDraftStoreName}
+            placeholder="Store name"
+            editable={!selectedOrder}
+          />
+          {draftOrder.map((id, index) => (
+            <View key={id} style={styles.editorRow}>
+              <Text style={styles.editorSection}>{sectionLabel(id)}</Text>
+              <TouchableOpacity onPress={() => moveSection(index, -1)} disabled={index === 0}>
+                <Text style={[styles.moveButton, index === 0 && styles.moveButtonDisabled]}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => moveSection(index, 1)} disabled={index === draftOrder.length - 1}>
+                <Text style={[styles.moveButton, index === draftOrder.length - 1 && styles.moveButtonDisabled]}>↓</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.editorActions}>
+            {selectedOrder && (
+              <TouchableOpacity onPress={() => handleDeleteOrder(selectedOrder)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => setEditing(false)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveOrder} disabled={saving}>
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {loading ? (
+        <ActivityIndicator color="#34C759" style={styles.loading} />
+      ) : error || !route ? (
+        <Text style={styles.muted}>{error}</Text>
+      ) : (
+        <>
+          <Text style={styles.progress}>
+            {route.remaining === 0 ? 'All done!' : `${route.remaining} of ${route.total} left to get`}
+          </Text>
+          {route.sections.map((section) => (
+            <View key={section.id} style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>{section.label}</Text>
+                <Text style={styles.sectionCount}>
+                  {section.remaining}/{section.items.length}
+                </Text>
+              </View>
+              {section.items.map((item) => (
+                <TouchableOpacity key={item.id} style={styles.itemRow} onPress={() => handleToggleItem(item)}>
+                  <View style={[styles.checkbox, item.isPurchased && styles.checkboxChecked]}>
+                    {item.isPurchased && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <Text style={[styles.itemName, item.isPurchased && styles.itemPurchased]}>{item.name}</Text>
+                  <Text style={[styles.itemAmount, item.isPurchased && styles.itemPurchased]}>
+                    {item.totalAmount} {item.unit}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 25,
+  },
+  storeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 15,
+  },
+  storeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#34C759',
+    backgroundColor: 'white',
+  },
+  storeChipActive: {
+    backgroundColor: '#34C759',
+  },
+  storeChipText: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '600',
+  },
+  storeChipTextActive: {
+    color: 'white',
+  },
+  editor: {
+    backgroundColor: 'white',
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 15,
+  },
+  editorTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  storeNameInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 10,
+  },
+  editorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  editorSection: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  moveButton: {
+    fontSize: 18,
+    color: '#34C759',
+    paddingHorizontal: 12,
+  },
+  moveButtonDisabled: {
+    color: '#ccc',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 20,
+    marginTop: 12,
+  },
+  deleteText: {
+    color: '#FF3B30',
+    fontSize: 15,
+  },
+  cancelText: {
+    color: '#666',
+    fontSize: 15,
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+    paddingHorizontal: 18,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  loading: {
+    marginVertical: 20,
+  },
+  muted: {
+    fontSize: 14,
+    color: '#999',
+  },
+  progress: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 10,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  sectionCount: {
+    fontSize: 14,
+    color: '#999',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#34C759',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#34C759',
+  },
+  checkmark: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  itemAmount: {
+    fontSize: 14,
+    color: '#666',
+  },
+  itemPurchased: {
+    color: '#bbb',
+    textDecorationLine: 'line-through',
+  },
+});
@@ -70,12 +70,30 @@ export interface UserInventory {
   amount: string;
   unit?: string;
   estimatedGrams?: number;
+  quantityValue?: number | null; // Parsed amount in quantityUnit, null when unquantified
+  quantityUnit?: string | null;
+  quantityApproximate?: boolean;
   isAvailable: boolean;
   expiresAt?: string;
+  expiryStatus?: 'expired' | 'expiring_soon' | 'fresh' | 'unknown';
+  daysUntilExpiry?: number | null;
   addedAt: string;
   updatedAt: string;
 }
 
+export interface AllergenBadge {
+  id: string; // Big-9 allergen id (e.g. 'tree_nuts') or a custom tag
+  label: string;
+  custom: boolean;
+  ingredients: string[];
+}
+
+export interface AllergenConflict {
+  allergen: string;
+  label: string;
+  ingredient: string;
+}
+
 export interface Recipe {
   id: string;
   title: string;
@@ -88,13 +106,28 @@ export interface Recipe {
   protein?: number;
   carbs?: number;
   fat?: number;
+  nutritionSource?: 'reported' | 'computed';
+  nutritionCoverage?: number | null;
+  nutritionMismatch?: boolean;
+  allergens?: AllergenBadge[];
+  allergenConflicts?: AllergenConflict[];
+  excludedReason?: string | null; // Set when the recipe contains one of the user's allergens
   imageUrl?: string;
   createdById?: string;
   isPublic: boolean;
+  currentVersion?: number;
+  forkedFromId?: string | null;
+  originalCreatedById?: string | null; // Author of the recipe a fork was copied from
   createdAt: string;
   updatedAt: string;
 }
 
+export interface SlotPlacement {
+  summary: string;
+  reasons: string[];
+  relaxed: string[];
+}
+
 export interface MealSlot {
   id: string;
   mealPlanId: string;
@@ -105,6 +138,37 @@ export interface MealSlot {
   date: string;
   sortOrder: number;
   notes?: string;
+  placementReason?: SlotPlacement;
+  isCompleted?: boolean;
+  isSkipped?: boolean;
+  servings?: number | null; // Servings override; null cooks the recipe as written
+  recipeVersionId?: string | null;
+  recipeVersion?: { id: string; version: number; createdAt: string } | null; // Version the slot was planned with
+  leftoverOfSlotId?: string | null;
+  leftoverOfSlot?: {
+    id: string;
+    date: string;
+    mealType: string;
+    recipe?: { id: string; title: string };
+  } | null;
+  leftoverOfCookingEventId?: string | null;
+  leftoverOfCookingEvent?: {
+    id: string;
+    cookedAt: string;
+    recipe: { id: string; title: string; servings: number };
+  } | null;
+}
+
+export interface PortionLedgerEntry {
+  sourceSlotId: string | null;
+  sourceCookingEventId: string | null;
+  recipeId: string;
+  recipeTitle: string;
+  servingsCooked: number;
+  servingsPerMeal: number;
+  servingsEaten: number;
+  servingsRemaining: number;
+  leftoverSlotIds: string[];
 }
 
 export interface MealPlan {
@@ -116,6 +180,7 @@ export interface MealPlan {
   mealsPerDay: number;
   calorieTargetPerDay?: number;
   budgetLimit?: number;
+  projectedCost?: number;
   dietaryRestrictions: string[];
   cuisinePreferences: string[];
   existingRecipeCount: number;
@@ -132,12 +197,16 @@ export interface MealPlan {
 export interface ShoppingListItem {
   id: string;
   shoppingListId: string;
-  ingredientId: string;
+  ingredientId: string | null; // null for free-form items
   ingredient: {
     id: string;
     name: string;
     category?: string;
-  };
+    storeSection?: string;
+  } | null;
+  name?: string | null; // Free-form item name
+  source: 'recipe' | 'manual' | 'staple';
+  stapleId?: string | null;
   totalAmount: string;
   unit: string;
   walmartItemId?: string;
@@ -153,6 +222,40 @@ export interface ShoppingList {
   items: ShoppingListItem[];
 }
 
+export interface StoreSection {
+  id: string;
+  label: string;
+}
+
+export interface StoreAisleOrder {
+  storeName: string;
+  sections: string[]; // Section ids in walking order
+  updatedAt: string;
+}
+
+export interface StoreRouteItem {
+  id: string;
+  ingredientId: string | null;
+  name: string;
+  totalAmount: string;
+  unit: string;
+  isPurchased: boolean;
+  estimatedPrice: number | null;
+}
+
+export interface StoreRouteSection extends StoreSection {
+  items: StoreRouteItem[];
+  remaining: number;
+}
+
+export interface StoreRoute {
+  shoppingListId: string;
+  storeName: string | null;
+  sections: StoreRouteSection[];
+  remaining: number;
+  total: number;
+}
+
 export interface GenerateWeekParams {
   startDate: string;
   endDate: string;
@@ -163,6 +266,81 @@ export interface GenerateWeekParams {
   inventoryIngredientIds?: string[];
   matchUserStyle: boolean;
   preferenceIds: string[];
+  planLeftovers?: boolean;
+  budgetWeekly?: number;
+  stayWithinBudget?: boolean;
+}
+
+export interface BudgetSwap {
+  removed: { recipeId: string; title: string; estimatedCost: number };
+  added: { recipeId: string; title: string; estimatedCost: number };
+  projectedTotalBefore: number;
+  projectedTotalAfter: number;
+}
+
+export interface MealPlanBudget {
+  limit: number;
+  projectedTotal: number; // Priced ingredients only
+  unpricedEstimate: number; // Stand-in cost for unpriced ingredients; swap totals include it
+  withinBudget: boolean | null; // null when unpriced ingredients leave it unknown
+  provider: string;
+  swaps: BudgetSwap[];
+  recipeCosts: { recipeId: string; title: string; planShare: number }[];
+  unpricedIngredients: string[];
+  pantryIngredients: string[];
+}
+
+export interface Macros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export type NutritionTargetStatus = 'under' | 'over' | 'ok';
+
+export interface NutritionTarget {
+  field: keyof Macros;
+  kind: 'target' | 'min' | 'max';
+  value: number;
+  preferenceKey: string;
+}
+
+export interface NutritionTargetComparison {
+  field: keyof Macros;
+  kind: 'target' | 'min' | 'max';
+  value: number;
+  target: number;
+  difference: number;
+  status: NutritionTargetStatus;
+}
+
+export interface DayNutrition {
+  date: string;
+  plannedMeals: number;
+  completedMeals: number;
+  skippedMeals: number;
+  planned: Macros;
+  actual: Macros | null;
+  plannedComparisons: NutritionTargetComparison[];
+  actualComparisons: NutritionTargetComparison[] | null;
+  status: NutritionTargetStatus | 'mixed';
+}
+
+export interface MealPlanNutrition {
+  targets: NutritionTarget[];
+  householdSize: number;
+  days: DayNutrition[];
+  weekly: {
+    planned: Macros;
+    actual: Macros;
+    plannedDailyAverage: Macros;
+    actualDailyAverage: Macros | null;
+    comparisons: NutritionTargetComparison[];
+    daysOverTarget: number;
+    daysUnderTarget: number;
+  };
+  recipesWithoutNutrition: string[];
 }
 
 export interface NutritionSummary {
@@ -179,3 +357,118 @@ export interface NutritionSummary {
     fat: number;
   };
 }
+
+export interface StepTimer {
+  label: string;
+  durationSeconds: number;
+  maxDurationSeconds: number;
+  text: string;
+}
+
+export interface CookStep {
+  index: number;
+  text: string;
+  timers: StepTimer[];
+  recipeIngredientIds: string[];
+}
+
+export interface CookModeIngredient {
+  id: string; // RecipeIngredient id
+  ingredientId: string;
+  name: string;
+  amount: number;
+  unit: string;
+  displayAmount: string;
+  stepIndexes: number[];
+}
+
+export interface CookModeRecipe {
+  recipe: {
+    id: string;
+    title: string;
+    imageUrl?: string | null;
+    prepTime: number;
+    cookTime: number;
+    servings: number;
+    originalServings: number;
+  };
+  ingredients: CookModeIngredient[];
+  steps: CookStep[];
+}
+
+export interface RecipeVersionIngredient {
+  ingredientId: string;
+  name: string;
+  amount: number;
+  unit: string;
+  notes: string | null;
+  sortOrder: number;
+}
+
+export interface RecipeVersionChanges {
+  fields: { field: string; from: unknown; to: unknown }[];
+  ingredients: {
+    added: RecipeVersionIngredient[];
+    removed: RecipeVersionIngredient[];
+    changed: {
+      name: string;
+      from: { amount: number; unit: string; notes: string | null };
+      to: { amount: number; unit: string; notes: string | null };
+    }[];
+  };
+  instructions: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+export interface RecipeVersion {
+  id: string;
+  version: number;
+  title: string;
+  changes: RecipeVersionChanges | null; // null for the first version
+  changeSummary: string | null;
+  createdAt: string;
+  changedBy: { id: string; name: string } | null;
+}
+
+export interface RecipeUpdate {
+  title?: string;
+  description?: string | null;
+  instructions?: string[];
+  prepTimeMinutes?: number;
+  cookTimeMinutes?: number;
+  servings?: number;
+  imageUrl?: string | null;
+  isPublic?: boolean;
+  ingredients?: { ingredientId?: string; name?: string; amount: number; unit: string; notes?: string | null }[];
+  changeSummary?: string;
+}
+
+export interface DraftIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+  notes?: string;
+  ingredientId: string | null; // Existing ingredient; null = created when the draft is saved
+}
+
+export interface RecipeImportDraft {
+  title: string;
+  instructions: string[];
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  nutrition?: { calories?: number; protein?: number; carbs?: number; fat?: number };
+  mealType: string[];
+  cuisine: string | null;
+  ingredients: DraftIngredient[];
+  warnings: string[];
+}
+
+export interface RecipeImportDraftResult {
+  draft: RecipeImportDraft;
+  allergenConflicts: AllergenConflict[];
+  extractionMethod: string;
+  balance: number;
+}
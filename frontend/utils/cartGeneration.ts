@@ -4,6 +4,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 export interface RecipeSelection {
   recipeId: string;
   quantity: number;
+  servings?: number; // Buy for this many servings instead of the recipe's own
 }
 
 export interface CartGenerationResult {